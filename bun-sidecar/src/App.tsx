@@ -11,6 +11,9 @@ import { HelpPage } from "./pages/HelpPage";
 import { SyncPage } from "./pages/SyncPage";
 import { ConflictResolvePage } from "./pages/ConflictResolvePage";
 import { AgentsPage } from "./pages/AgentsPage";
+import { AgentSchedulesPage } from "./pages/AgentSchedulesPage";
+import { AgentActivityPage } from "./pages/AgentActivityPage";
+import { SnapshotsPage } from "./pages/SnapshotsPage";
 import { McpServersPage } from "./pages/McpServersPage";
 import { McpServerFormPage } from "./pages/McpServerFormPage";
 import { NewAgentPage } from "./pages/NewAgentPage";
@@ -111,12 +114,15 @@ export function App() {
                                                 <Route path="/settings" element={<SettingsPage />} />
                                                 <Route path="/help" element={<HelpPage />} />
                                                 <Route path="/agents" element={<AgentsPage />} />
+                                                <Route path="/agent-schedules" element={<AgentSchedulesPage />} />
+                                                <Route path="/agent-activity" element={<AgentActivityPage />} />
                                                 <Route path="/new-agent" element={<NewAgentPage />} />
                                                 <Route path="/mcp-servers" element={<McpServersPage />} />
                                                 <Route path="/mcp-servers/new" element={<McpServerFormPage />} />
                                                 <Route path="/mcp-servers/:serverId/edit" element={<McpServerFormPage />} />
                                                 <Route path="/sync" element={<SyncPage />} />
                                                 <Route path="/sync/resolve" element={<ConflictResolvePage />} />
+                                                <Route path="/snapshots" element={<SnapshotsPage />} />
                                                 <Route path="/test-editor" element={<TestEditorPage />} />
 
                                                 {/* Catch-all redirect to root */}
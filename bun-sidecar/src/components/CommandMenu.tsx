@@ -1,5 +1,5 @@
 import * as React from "react";
-import { FileText, Settings, Trash2, ListTodo, ListChecks, FolderOpen, Plus, Calendar, CalendarMinus, CalendarPlus, CalendarDays, Save, MessageCircle, AlertTriangle, Columns2 } from "lucide-react";
+import { FileText, Settings, Trash2, ListTodo, ListChecks, FolderOpen, Plus, Calendar, CalendarMinus, CalendarPlus, CalendarDays, CalendarSync, Save, MessageCircle, AlertTriangle, Columns2, LayoutTemplate } from "lucide-react";
 import { Command as CommandRoot, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList, CommandSeparator } from "@/components/ui/command";
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { useWorkspaceContext } from "@/contexts/WorkspaceContext";
@@ -235,10 +235,12 @@ export function CommandMenu() {
                                             CalendarMinus,
                                             CalendarPlus,
                                             CalendarDays,
+                                            CalendarSync,
                                             Save,
                                             MessageCircle,
                                             AlertTriangle,
                                             Columns2,
+                                            LayoutTemplate,
                                         };
                                         const IconComponent = iconMap[command.icon as keyof typeof iconMap] || FileText;
 
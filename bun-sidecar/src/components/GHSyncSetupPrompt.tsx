@@ -1,6 +1,9 @@
 import { useEffect, useState } from "react";
 import { useNavigate } from "react-router-dom";
 import { useGHSync } from "@/contexts/GHSyncContext";
+import { useWorkspaceContext } from "@/contexts/WorkspaceContext";
+import { GIT_HOSTS } from "@/lib/git-hosts";
+import { GIT_HOST_TYPES, type GitHostType } from "@/types/Workspace";
 import {
     Dialog,
     DialogContent,
@@ -9,11 +12,15 @@ import {
     DialogTitle,
 } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { GitBranch, Key, CheckCircle2, XCircle, ExternalLink, Download } from "lucide-react";
 
 export function GHSyncSetupPrompt() {
     const navigate = useNavigate();
     const { setupStatus, needsSetup } = useGHSync();
+    const { gitAuth, setGitAuthProfile } = useWorkspaceContext();
+    const host = GIT_HOSTS[gitAuth.host];
     const [dismissed, setDismissed] = useState(false);
     const [open, setOpen] = useState(false);
 
@@ -49,11 +56,30 @@ export function GHSyncSetupPrompt() {
                         Set Up Sync
                     </DialogTitle>
                     <DialogDescription>
-                        Configure GitHub sync to back up and sync your workspace across devices.
+                        Configure git sync to back up and sync your workspace across devices.
                     </DialogDescription>
                 </DialogHeader>
 
                 <div className="space-y-3 py-4">
+                    <div className="flex items-center justify-between gap-3">
+                        <Label className="text-sm">Git host</Label>
+                        <Select
+                            value={gitAuth.host}
+                            onValueChange={(value) => setGitAuthProfile({ host: value as GitHostType })}
+                        >
+                            <SelectTrigger className="w-44">
+                                <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                                {GIT_HOST_TYPES.map((type) => (
+                                    <SelectItem key={type} value={type}>
+                                        {GIT_HOSTS[type].label}
+                                    </SelectItem>
+                                ))}
+                            </SelectContent>
+                        </Select>
+                    </div>
+
                     {/* Git Installed Status */}
                     <div className="flex items-center gap-3 text-sm">
                         {setupStatus.gitInstalled ? (
@@ -105,13 +131,13 @@ export function GHSyncSetupPrompt() {
                                     <XCircle className="h-4 w-4 text-muted-foreground flex-shrink-0" />
                                 )}
                                 <span className={setupStatus.hasPAT ? "text-foreground" : "text-muted-foreground"}>
-                                    GitHub Personal Access Token
+                                    {host.label} access token
                                 </span>
                             </div>
 
                             {!setupStatus.hasPAT && (
                                 <p className="text-xs text-muted-foreground pl-7">
-                                    Create a PAT at github.com/settings/tokens with 'repo' scope
+                                    {host.tokenHelp}
                                 </p>
                             )}
                         </>
@@ -4,10 +4,11 @@ import { CommandDialog, CommandEmpty, CommandGroup, CommandInput, CommandItem, C
 import { useWorkspaceContext } from "@/contexts/WorkspaceContext";
 import { useNotesAPI } from "@/hooks/useNotesAPI";
 import { Note, notesPluginSerial } from "@/features/notes";
+import { getDailyNoteDate, toLocalDateString } from "@/features/notes/date-utils";
 
 export function NotesCommandMenu() {
     const [open, setOpen] = React.useState(false);
-    const { openTab } = useWorkspaceContext();
+    const { openTab, dailyNotes } = useWorkspaceContext();
     const inputRef = React.useRef<HTMLInputElement | null>(null);
     const [notes, setNotes] = React.useState<Note[]>([]);
     const [loading, setLoading] = React.useState(false);
@@ -75,25 +76,33 @@ export function NotesCommandMenu() {
         setOpen(false);
     };
 
+    // Dates of daily notes, matched with the workspace's daily note name format
+    const dailyDates = React.useMemo(() => {
+        const dates = new Map<string, Date>();
+        for (const note of notes) {
+            const date = getDailyNoteDate(note.fileName, dailyNotes);
+            if (date) dates.set(note.fileName, date);
+        }
+        return dates;
+    }, [notes, dailyNotes]);
+
     // Sort notes with most recent first
     const sortedNotes = React.useMemo(() => {
         return [...notes].sort((a, b) => {
-            // Extract dates from filenames if they match daily note format (YYYY-MM-DD.md)
-            const dateRegex = /^\d{4}-\d{2}-\d{2}\.md$/;
-            const aIsDaily = dateRegex.test(a.fileName);
-            const bIsDaily = dateRegex.test(b.fileName);
+            const aDate = dailyDates.get(a.fileName);
+            const bDate = dailyDates.get(b.fileName);
 
             // Daily notes first, sorted by date descending
-            if (aIsDaily && bIsDaily) {
-                return b.fileName.localeCompare(a.fileName);
+            if (aDate && bDate) {
+                return bDate.getTime() - aDate.getTime();
             }
-            if (aIsDaily) return -1;
-            if (bIsDaily) return 1;
+            if (aDate) return -1;
+            if (bDate) return 1;
 
             // Other notes alphabetically
             return a.fileName.localeCompare(b.fileName);
         });
-    }, [notes]);
+    }, [notes, dailyDates]);
 
     // Remove the render log as it can cause issues
 
@@ -107,11 +116,9 @@ export function NotesCommandMenu() {
                 {sortedNotes.length > 0 && (
                     <CommandGroup heading="Notes">
                         {sortedNotes.map((note) => {
-                            // Check if it's a daily note
-                            const dateRegex = /^(\d{4}-\d{2}-\d{2})\.md$/;
-                            const match = note.fileName.match(dateRegex);
-                            const isDaily = !!match;
-                            const displayName = isDaily ? `Daily Note - ${match![1]}` : note.fileName.replace(".md", "");
+                            const dailyDate = dailyDates.get(note.fileName);
+                            const isDaily = !!dailyDate;
+                            const displayName = dailyDate ? `Daily Note - ${toLocalDateString(dailyDate)}` : note.fileName.replace(".md", "");
 
                             return (
                                 <CommandItem key={note.fileName} onSelect={() => handleSelectNote(note.fileName)}>
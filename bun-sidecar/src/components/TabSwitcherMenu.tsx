@@ -1,5 +1,5 @@
 import * as React from "react";
-import { FileText, Settings, Workflow, CheckSquare, Bot, Mic, Code } from "lucide-react";
+import { FileText, Settings, Workflow, CheckSquare, Bot, Mic, Code, Calendar } from "lucide-react";
 import { CommandDialog, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from "@/components/ui/command";
 import { useWorkspaceContext } from "@/contexts/WorkspaceContext";
 
@@ -11,6 +11,7 @@ const iconMap = {
     mic: Mic,
     semicolon: Code,
     settings: Settings,
+    calendar: Calendar,
 };
 
 export function TabSwitcherMenu() {
@@ -57,6 +57,15 @@ export type InlineCitationCardTriggerProps = ComponentProps<typeof Badge> & {
   sources: string[];
 };
 
+// Hostname for web sources; other sources (e.g. note names) are shown as they are
+const getSourceLabel = (source: string) => {
+  try {
+    return new URL(source).hostname || source;
+  } catch {
+    return source;
+  }
+};
+
 export const InlineCitationCardTrigger = ({
   sources,
   className,
@@ -70,7 +79,7 @@ export const InlineCitationCardTrigger = ({
     >
       {sources[0] ? (
         <>
-          {new URL(sources[0]).hostname}{" "}
+          {getSourceLabel(sources[0])}{" "}
           {sources.length > 1 && `+${sources.length - 1}`}
         </>
       ) : (
@@ -1,6 +1,6 @@
 "use client";
 
-import { useState, useEffect, useCallback, useRef } from "react";
+import { useState, useEffect, useCallback, useRef, type ReactNode } from "react";
 import {
     CommandDialog,
     CommandInput,
@@ -9,16 +9,24 @@ import {
     CommandGroup,
     CommandItem,
 } from "@/components/ui/command";
-import { FileTextIcon, CheckSquareIcon } from "lucide-react";
+import { FileTextIcon, CheckSquareIcon, FolderIcon, HashIcon, ImageIcon } from "lucide-react";
 import { notesAPI } from "@/hooks/useNotesAPI";
 import { todosAPI } from "@/hooks/useTodosAPI";
+import { projectsAPI } from "@/hooks/useProjectsAPI";
+import type { Mention, MentionKind } from "@/features/chat/mentions";
 
-type FileItem = {
-    id: string;
+type FileItem = Mention & {
     label: string;
-    type: "note" | "todo";
 };
 
+const GROUPS: Array<{ kind: MentionKind; heading: string; icon: ReactNode }> = [
+    { kind: "note", heading: "Notes", icon: <FileTextIcon className="text-blue-500" /> },
+    { kind: "todo", heading: "Todos", icon: <CheckSquareIcon className="text-amber-500" /> },
+    { kind: "project", heading: "Projects", icon: <FolderIcon className="text-emerald-500" /> },
+    { kind: "tag", heading: "Tags", icon: <HashIcon className="text-violet-500" /> },
+    { kind: "upload", heading: "Uploads", icon: <ImageIcon className="text-rose-500" /> },
+];
+
 type FilePickerDialogProps = {
     open: boolean;
     onOpenChange: (open: boolean) => void;
@@ -26,8 +34,7 @@ type FilePickerDialogProps = {
 };
 
 export function FilePickerDialog({ open, onOpenChange, onSelect }: FilePickerDialogProps) {
-    const [notes, setNotes] = useState<FileItem[]>([]);
-    const [todos, setTodos] = useState<FileItem[]>([]);
+    const [items, setItems] = useState<FileItem[]>([]);
     const [loading, setLoading] = useState(true);
     const [search, setSearch] = useState("");
     const listRef = useRef<HTMLDivElement>(null);
@@ -52,26 +59,25 @@ export function FilePickerDialog({ open, onOpenChange, onSelect }: FilePickerDia
         const fetchItems = async () => {
             setLoading(true);
             try {
-                const [notesData, todosData] = await Promise.all([
+                const [notesData, todosData, projectsData, tagsData, uploadsData] = await Promise.all([
                     notesAPI.getNotes(),
                     todosAPI.getTodos(),
+                    projectsAPI.listProjects(),
+                    notesAPI.getAllTags(),
+                    fetch("/api/uploads/list").then((res) => res.json() as Promise<{ uploads: Array<{ filename: string }> }>),
                 ]);
 
-                setNotes(
-                    notesData.map((note) => ({
-                        id: `@notes/${note.fileName}`,
+                setItems([
+                    ...notesData.map((note) => ({
+                        kind: "note" as const,
+                        id: note.fileName,
                         label: note.fileName.replace(/\.md$/, ""),
-                        type: "note" as const,
-                    }))
-                );
-
-                setTodos(
-                    todosData.map((todo) => ({
-                        id: `@todos/${todo.id}`,
-                        label: todo.title,
-                        type: "todo" as const,
-                    }))
-                );
+                    })),
+                    ...todosData.map((todo) => ({ kind: "todo" as const, id: todo.id, label: todo.title })),
+                    ...projectsData.map((project) => ({ kind: "project" as const, id: project.name, label: project.name })),
+                    ...tagsData.map((tag) => ({ kind: "tag" as const, id: tag.tag, label: `#${tag.tag}` })),
+                    ...uploadsData.uploads.map((upload) => ({ kind: "upload" as const, id: upload.filename, label: upload.filename })),
+                ]);
             } catch (error) {
                 console.error("Failed to fetch items:", error);
             } finally {
@@ -95,10 +101,10 @@ export function FilePickerDialog({ open, onOpenChange, onSelect }: FilePickerDia
             open={open}
             onOpenChange={onOpenChange}
             title="Insert Reference"
-            description="Search for notes and todos to reference"
+            description="Search for notes, todos, projects, tags and uploads to reference"
         >
             <CommandInput
-                placeholder="Search notes and todos..."
+                placeholder="Search notes, todos, projects, tags..."
                 value={search}
                 onValueChange={setSearch}
             />
@@ -111,35 +117,24 @@ export function FilePickerDialog({ open, onOpenChange, onSelect }: FilePickerDia
                     <>
                         <CommandEmpty>No results found.</CommandEmpty>
 
-                        {notes.length > 0 && (
-                            <CommandGroup heading="Notes">
-                                {notes.map((note) => (
-                                    <CommandItem
-                                        key={note.id}
-                                        value={`${note.label} ${note.id}`}
-                                        onSelect={() => handleSelect(note)}
-                                    >
-                                        <FileTextIcon className="text-blue-500" />
-                                        <span>{note.label}</span>
-                                    </CommandItem>
-                                ))}
-                            </CommandGroup>
-                        )}
-
-                        {todos.length > 0 && (
-                            <CommandGroup heading="Todos">
-                                {todos.map((todo) => (
-                                    <CommandItem
-                                        key={todo.id}
-                                        value={`${todo.label} ${todo.id}`}
-                                        onSelect={() => handleSelect(todo)}
-                                    >
-                                        <CheckSquareIcon className="text-amber-500" />
-                                        <span>{todo.label}</span>
-                                    </CommandItem>
-                                ))}
-                            </CommandGroup>
-                        )}
+                        {GROUPS.map((group) => {
+                            const groupItems = items.filter((item) => item.kind === group.kind);
+                            if (groupItems.length === 0) return null;
+                            return (
+                                <CommandGroup key={group.kind} heading={group.heading}>
+                                    {groupItems.map((item) => (
+                                        <CommandItem
+                                            key={`${item.kind}:${item.id}`}
+                                            value={`${item.label} ${item.kind}:${item.id}`}
+                                            onSelect={() => handleSelect(item)}
+                                        >
+                                            {group.icon}
+                                            <span>{item.label}</span>
+                                        </CommandItem>
+                                    ))}
+                                </CommandGroup>
+                            );
+                        })}
                     </>
                 )}
             </CommandList>
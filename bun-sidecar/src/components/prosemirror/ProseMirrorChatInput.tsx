@@ -11,6 +11,7 @@ import { cn } from "@/lib/utils";
 import { FilePickerDialog } from "./FilePickerDialog";
 import { SkillPickerDialog } from "./SkillPickerDialog";
 import { Skill } from "@/features/skills";
+import { formatMention, type Mention } from "@/features/chat/mentions";
 
 type ProseMirrorChatInputProps = {
     placeholder?: string;
@@ -59,15 +60,15 @@ export const ProseMirrorChatInput = forwardRef<ProseMirrorChatInputHandle, Prose
         }, [skillPickerOpen]);
 
         // Handle file selection from dialog
-        const handleFileSelect = useCallback((item: { id: string; label: string; type: string }) => {
+        const handleFileSelect = useCallback((item: Mention) => {
             const view = viewRef.current;
             if (!view) return;
 
             const atPos = atPositionRef.current;
             if (atPos === null) return;
 
-            // Insert the file reference with trailing space, replacing the @ character
-            const text = `${item.id} `;
+            // Insert the typed mention with trailing space, replacing the @ character
+            const text = `${formatMention(item)} `;
             const tr = view.state.tr.insertText(text, atPos, atPos + 1);
             const newPos = atPos + text.length;
             tr.setSelection(TextSelection.create(tr.doc, newPos));
@@ -352,6 +353,7 @@ export const ProseMirrorChatInput = forwardRef<ProseMirrorChatInputHandle, Prose
                             "[&_.ProseMirror]:outline-none [&_.ProseMirror]:min-h-[20px]",
                             "[&_.ProseMirror_p]:m-0",
                             "[&_.pm-resource-uri]:text-primary [&_.pm-resource-uri]:font-medium",
+                            "[&_.pm-mention]:text-primary [&_.pm-mention]:font-medium [&_.pm-mention]:rounded [&_.pm-mention]:bg-primary/10",
                             "[&_.ProseMirror]:caret-foreground",
                             disabled && "opacity-50 pointer-events-none"
                         )}
@@ -25,9 +25,11 @@ import { useTheme } from "@/hooks/useTheme";
 type ProseMirrorPromptContextType = {
     isLoading: boolean;
     hasContent: boolean;
+    content: string; // Current text of the input, as markdown
     inputRef: React.RefObject<ProseMirrorChatInputHandle | null>;
     formRef: React.RefObject<HTMLFormElement | null>;
     setHasContent: (val: boolean) => void;
+    setContent: (content: string) => void;
     attachments: Attachment[];
     addAttachment: (attachment: Attachment) => void;
     removeAttachment: (id: string) => void;
@@ -82,6 +84,7 @@ export const ProseMirrorPromptInput = ({
 }: ProseMirrorPromptInputProps) => {
     const inputRef = useRef<ProseMirrorChatInputHandle | null>(null);
     const [hasContent, setHasContent] = useState(false);
+    const [content, setContent] = useState("");
     const [attachments, setAttachments] = useState<Attachment[]>([]);
     const [isDragging, setIsDragging] = useState(false);
     const { currentTheme } = useTheme();
@@ -120,6 +123,7 @@ export const ProseMirrorPromptInput = ({
             // Clear immediately so user can type while response streams
             inputRef.current?.clear();
             setHasContent(false);
+            setContent("");
             clearAttachments();
 
             await onSubmit({ text: text.trim(), attachments: currentAttachments });
@@ -206,9 +210,11 @@ export const ProseMirrorPromptInput = ({
             value={{
                 isLoading,
                 hasContent,
+                content,
                 inputRef,
                 formRef,
                 setHasContent,
+                setContent,
                 attachments,
                 addAttachment,
                 removeAttachment,
@@ -326,6 +332,7 @@ export const ProseMirrorPromptTextarea = forwardRef<ProseMirrorPromptTextareaHan
 
         const handleChange = useCallback((content: string) => {
             context?.setHasContent(!!content.trim());
+            context?.setContent(content);
         }, [context]);
 
         return (
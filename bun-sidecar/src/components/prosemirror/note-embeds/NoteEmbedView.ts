@@ -0,0 +1,209 @@
+import { DOMSerializer, Node } from "prosemirror-model";
+import { NodeView } from "prosemirror-view";
+import { tableSchema } from "../tables/schema";
+import { tableMarkdownParser } from "../tables/parser";
+import { notesAPI } from "@/hooks/useNotesAPI";
+import { emit, subscribe } from "@/lib/events";
+import { extractLinkedSection, formatWikiLinkLabel } from "@/features/notes/wiki-link-utils";
+import { type EmbedChainEntry, createChainEntry, isEmbedCycle, resolveEmbed } from "./embed-chain";
+
+// Embeds inside embeds are rendered at most this many levels deep
+const MAX_EMBED_DEPTH = 4;
+
+function showMessage(body: HTMLElement, message: string, kind: "missing" | "cycle" | "error"): void {
+    const element = document.createElement("div");
+    element.className = `note-embed-message note-embed-${kind}`;
+    element.textContent = message;
+    body.replaceChildren(element);
+}
+
+/**
+ * Header (collapse toggle + title linking to the source) and body for one embed
+ */
+function createEmbedFrame(href: string, containingNote: string): { dom: HTMLElement; body: HTMLElement } {
+    const dom = document.createElement("div");
+    dom.className = "note-embed";
+    dom.dataset.noteEmbed = href;
+
+    const header = document.createElement("div");
+    header.className = "note-embed-header";
+
+    const toggle = document.createElement("button");
+    toggle.type = "button";
+    toggle.className = "note-embed-toggle";
+    toggle.title = "Collapse";
+    toggle.textContent = "▾";
+    toggle.addEventListener("click", (event) => {
+        event.preventDefault();
+        const collapsed = dom.classList.toggle("collapsed");
+        toggle.textContent = collapsed ? "▸" : "▾";
+        toggle.title = collapsed ? "Expand" : "Collapse";
+    });
+
+    const title = document.createElement("button");
+    title.type = "button";
+    title.className = "note-embed-title";
+    title.textContent = formatWikiLinkLabel(href) || containingNote.replace(/\.md$/, "");
+    title.title = "Open source note";
+    title.addEventListener("click", (event) => {
+        event.preventDefault();
+        emit("wikilink:click", { target: href, sourceNote: containingNote });
+    });
+
+    header.append(toggle, title);
+
+    const body = document.createElement("div");
+    body.className = "note-embed-body";
+
+    dom.append(header, body);
+    return { dom, body };
+}
+
+/**
+ * Render an embed's content into `body`, following nested embeds.
+ * Files that were read are added to `sources` so the embed can refresh when they change.
+ */
+async function renderEmbedBody(params: {
+    body: HTMLElement;
+    href: string;
+    containingNote: string;
+    chain: EmbedChainEntry[];
+    sources: Set<string>;
+}): Promise<void> {
+    const { body, href, containingNote, chain, sources } = params;
+    const { fileName, anchor } = resolveEmbed(href, containingNote);
+    const entry = createChainEntry(fileName, anchor, formatWikiLinkLabel(href) || fileName.replace(/\.md$/, ""));
+
+    if (isEmbedCycle(chain, entry)) {
+        showMessage(body, `Embed cycle: ${[...chain, entry].map((shown) => shown.label).join(" → ")}`, "cycle");
+        return;
+    }
+    if (chain.length > MAX_EMBED_DEPTH) {
+        showMessage(body, "Embeds are nested too deeply to show", "error");
+        return;
+    }
+
+    sources.add(fileName);
+    body.dataset.note = fileName;
+
+    let markdown: string | undefined;
+    try {
+        const note = await notesAPI.getNoteByFileName({ fileName });
+        if (note.mtime === undefined) {
+            showMessage(body, `"${fileName.replace(/\.md$/, "")}" doesn't exist yet`, "missing");
+            return;
+        }
+        markdown = anchor ? extractLinkedSection(note.content, anchor) : note.content;
+    } catch (error) {
+        console.error("Failed to load embedded note:", error);
+        showMessage(body, "Failed to load embedded note", "error");
+        return;
+    }
+    if (markdown === undefined) {
+        showMessage(body, `No "${anchor}" in ${fileName.replace(/\.md$/, "")}`, "missing");
+        return;
+    }
+
+    const doc = tableMarkdownParser.parse(markdown);
+    body.replaceChildren(DOMSerializer.fromSchema(tableSchema).serializeFragment(doc.content));
+
+    // Nested embeds come out of the serializer as plain placeholders
+    const nextChain = [...chain, entry];
+    const placeholders = Array.from(body.querySelectorAll<HTMLElement>("div.note-embed"));
+    await Promise.all(
+        placeholders.map((placeholder) => {
+            const nestedHref = placeholder.dataset.noteEmbed ?? "";
+            const nested = createEmbedFrame(nestedHref, fileName);
+            placeholder.replaceWith(nested.dom);
+            return renderEmbedBody({ body: nested.body, href: nestedHref, containingNote: fileName, chain: nextChain, sources });
+        })
+    );
+}
+
+/**
+ * Read-only, collapsible view of an ![[embedded]] note or section.
+ * Re-renders when any note it shows is saved.
+ */
+export class NoteEmbedView implements NodeView {
+    dom: HTMLElement;
+    private body: HTMLElement;
+    private node: Node;
+    private hostNote: string;
+    private sources = new Set<string>();
+    private renderId = 0;
+    private unsubscribe: () => void;
+
+    constructor(node: Node, hostNote: string) {
+        this.node = node;
+        this.hostNote = hostNote;
+        const frame = createEmbedFrame(node.attrs.href, hostNote);
+        this.dom = frame.dom;
+        this.body = frame.body;
+
+        // Links inside the embed open relative to the note they came from
+        this.body.addEventListener("click", (event) => {
+            const link = (event.target as HTMLElement).closest<HTMLElement>(".wiki-link");
+            if (!link) return;
+            event.preventDefault();
+            const sourceNote = link.closest<HTMLElement>(".note-embed-body")?.dataset.note ?? hostNote;
+            emit("wikilink:click", { target: link.dataset.wikiLink ?? "", sourceNote });
+        });
+
+        this.unsubscribe = subscribe("notes:saved", ({ fileName }) => {
+            if (this.sources.has(fileName)) {
+                this.refresh();
+            }
+        });
+        this.refresh();
+    }
+
+    private async refresh(): Promise<void> {
+        const renderId = ++this.renderId;
+        // Render off-screen so a slow earlier render can't overwrite a newer one
+        const body = document.createElement("div");
+        const sources = new Set<string>();
+        await renderEmbedBody({
+            body,
+            href: this.node.attrs.href,
+            containingNote: this.hostNote,
+            chain: [createChainEntry(this.hostNote, undefined, this.hostNote.replace(/\.md$/, ""))],
+            sources,
+        });
+        if (renderId !== this.renderId) return;
+        this.body.dataset.note = body.dataset.note ?? this.hostNote;
+        this.body.replaceChildren(...Array.from(body.childNodes));
+        this.sources = sources;
+    }
+
+    update(node: Node): boolean {
+        // A different embed target gets a fresh view
+        if (node.type !== this.node.type || node.attrs.href !== this.node.attrs.href) {
+            return false;
+        }
+        this.node = node;
+        return true;
+    }
+
+    selectNode(): void {
+        this.dom.classList.add("ProseMirror-selectednode");
+    }
+
+    deselectNode(): void {
+        this.dom.classList.remove("ProseMirror-selectednode");
+    }
+
+    stopEvent(event: Event): boolean {
+        // The header buttons and links in the content handle their own events
+        const target = event.target as HTMLElement;
+        return !!target.closest?.(".note-embed-header, .note-embed-body .wiki-link");
+    }
+
+    ignoreMutation(): boolean {
+        return true;
+    }
+
+    destroy(): void {
+        this.renderId++;
+        this.unsubscribe();
+    }
+}
@@ -0,0 +1,28 @@
+import { test, expect, describe } from "bun:test";
+import { createChainEntry, isEmbedCycle, resolveEmbed } from "./embed-chain";
+
+function entryFor(href: string, containingNote: string) {
+    const { fileName, anchor } = resolveEmbed(href, containingNote);
+    return createChainEntry(fileName, anchor, href);
+}
+
+describe("Embed cycles", () => {
+    const host = createChainEntry("Plan.md", undefined, "Plan");
+
+    test("a ![[#Heading]] embed in the same note is shown", () => {
+        expect(isEmbedCycle([host], entryFor("#Dates", "Plan.md"))).toBe(false);
+        expect(isEmbedCycle([host], entryFor("Plan#^block-1", "Plan.md"))).toBe(false);
+    });
+
+    test("a section that embeds itself is caught one level down", () => {
+        const section = entryFor("#Dates", "Plan.md");
+        expect(isEmbedCycle([host, section], entryFor("#dates", "Plan.md"))).toBe(true);
+    });
+
+    test("a whole note that is already shown, whole or in part, is a cycle", () => {
+        expect(isEmbedCycle([host], entryFor("Plan", "Other.md"))).toBe(true);
+        const other = createChainEntry("Other.md", undefined, "Other");
+        expect(isEmbedCycle([other, entryFor("Plan#Dates", "Other.md")], entryFor("Plan", "Other.md"))).toBe(true);
+        expect(isEmbedCycle([host], entryFor("Other", "Plan.md"))).toBe(false);
+    });
+});
@@ -0,0 +1,31 @@
+import { normalizeAnchor, parseWikiLink } from "@/features/notes/wiki-link-utils";
+
+// A note (or note section) that is currently being rendered, outermost first
+export interface EmbedChainEntry {
+    file: string;
+    key: string;
+    label: string;
+}
+
+export function createChainEntry(fileName: string, anchor: string | undefined, label: string): EmbedChainEntry {
+    const file = fileName.toLowerCase();
+    return { file, key: anchor ? `${file}#${normalizeAnchor(anchor)}` : file, label };
+}
+
+/**
+ * Resolve an embed href against the note it appears in ([[#Heading]] embeds point at that note)
+ */
+export function resolveEmbed(href: string, containingNote: string): { fileName: string; anchor?: string } {
+    const { target, anchor } = parseWikiLink(href);
+    return { fileName: target ? `${target}.md` : containingNote, anchor };
+}
+
+/**
+ * Whether showing `next` would embed something that is already being shown.
+ * A section that is already on screen would repeat forever, and so would a whole note that
+ * contains what's on screen. A section of a note shown whole is fine on its own: if the
+ * section holds the embed that leads back to it, the next level down is caught as a repeat.
+ */
+export function isEmbedCycle(chain: EmbedChainEntry[], next: EmbedChainEntry): boolean {
+    return chain.some((entry) => entry.key === next.key || (next.key === next.file && entry.file === next.file));
+}
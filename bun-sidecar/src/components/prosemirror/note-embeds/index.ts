@@ -0,0 +1 @@
+export { NoteEmbedView } from "./NoteEmbedView";
@@ -5,6 +5,8 @@ import type { Node as PMNode } from "prosemirror-model";
 
 // Matches plugin://id URIs, e.g., todo://task-123
 const URI_RE = /\b([a-zA-Z][a-zA-Z0-9_-]+):\/\/([^\s\]\)]+)\b/g;
+// Matches typed chat mentions, e.g., @[note:Projects/Plan.md]
+const MENTION_RE = /@\[(note|todo|project|tag|upload):[^\]\n]+\]/g;
 
 function buildDecorations(doc: PMNode): DecorationSet {
   const decos: Decoration[] = [];
@@ -33,6 +35,15 @@ function buildDecorations(doc: PMNode): DecorationSet {
       });
       decos.push(deco);
     }
+    MENTION_RE.lastIndex = 0;
+    while ((m = MENTION_RE.exec(text))) {
+      decos.push(
+        Decoration.inline(pos + m.index, pos + m.index + m[0].length, {
+          class: `pm-mention pm-mention-${m[1]}`,
+          "data-kind": m[1],
+        })
+      );
+    }
     return true;
   });
 
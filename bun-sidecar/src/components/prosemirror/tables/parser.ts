@@ -1,6 +1,7 @@
 import MarkdownIt from "markdown-it";
 import type Token from "markdown-it/lib/token.mjs";
 import type StateInline from "markdown-it/lib/rules_inline/state_inline.mjs";
+import type StateBlock from "markdown-it/lib/rules_block/state_block.mjs";
 import { MarkdownParser } from "prosemirror-markdown";
 import { tableSchema, type CellAlignment } from "./schema";
 
@@ -68,12 +69,41 @@ function wikiLinkPlugin(md: MarkdownIt): void {
 }
 
 /**
- * Create a markdown-it instance with GFM table support and wiki links
+ * Markdown-it plugin to parse ![[Note]] embeds written on a line of their own
+ */
+function noteEmbedPlugin(md: MarkdownIt): void {
+    md.block.ruler.before(
+        "lheading",
+        "note_embed",
+        (state: StateBlock, startLine: number, _endLine: number, silent: boolean) => {
+            // Indented 4+ spaces is a code block
+            if (state.sCount[startLine]! - state.blkIndent >= 4) return false;
+
+            const start = state.bMarks[startLine]! + state.tShift[startLine]!;
+            const line = state.src.slice(start, state.eMarks[startLine]);
+            const match = line.match(/^!\[\[([^\]]+)\]\]\s*$/);
+            if (!match) return false;
+            if (silent) return true;
+
+            const token = state.push("note_embed", "div", 0);
+            token.attrs = [["href", match[1]!.trim()]];
+            token.map = [startLine, startLine + 1];
+            state.line = startLine + 1;
+            return true;
+        },
+        // Lets an embed end the paragraph above it
+        { alt: ["paragraph"] }
+    );
+}
+
+/**
+ * Create a markdown-it instance with GFM table support, wiki links and note embeds
  * Note: Default preset includes table support, commonmark does not
  */
 function createMarkdownIt(): MarkdownIt {
     const md = new MarkdownIt({ html: false });
     md.use(wikiLinkPlugin);
+    md.use(noteEmbedPlugin);
     return md;
 }
 
@@ -166,6 +196,14 @@ const tableTokens = {
             title: token.attrGet("title") || token.content || "",
         }),
     },
+
+    // Note embed token
+    note_embed: {
+        node: "note_embed",
+        getAttrs: (token: Token) => ({
+            href: token.attrGet("href") || "",
+        }),
+    },
 };
 
 /**
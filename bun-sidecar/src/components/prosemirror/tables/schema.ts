@@ -1,6 +1,7 @@
 import { Schema, NodeSpec } from "prosemirror-model";
 import { schema as markdownSchema } from "prosemirror-markdown";
 import { tableNodes } from "prosemirror-tables";
+import { getWikiLinkLabel, getWikiLinkTitleFromLabel } from "@/features/notes/wiki-link-utils";
 
 /**
  * Table cell alignment type
@@ -49,9 +50,9 @@ const wikiLinkNodeSpec: NodeSpec = {
             {
                 class: "wiki-link",
                 "data-wiki-link": node.attrs.href,
-                title: node.attrs.title || node.attrs.href,
+                title: getWikiLinkLabel(node.attrs.href, node.attrs.title),
             },
-            node.attrs.title || node.attrs.href,
+            getWikiLinkLabel(node.attrs.href, node.attrs.title),
         ];
     },
     parseDOM: [
@@ -59,10 +60,8 @@ const wikiLinkNodeSpec: NodeSpec = {
             tag: "span.wiki-link",
             getAttrs(dom) {
                 const element = dom as HTMLElement;
-                return {
-                    href: element.getAttribute("data-wiki-link") || "",
-                    title: element.textContent || "",
-                };
+                const href = element.getAttribute("data-wiki-link") || "";
+                return { href, title: getWikiLinkTitleFromLabel(href, element.textContent || "") };
             },
         },
         {
@@ -70,22 +69,45 @@ const wikiLinkNodeSpec: NodeSpec = {
             tag: "a.wiki-link",
             getAttrs(dom) {
                 const element = dom as HTMLElement;
-                return {
-                    href: element.getAttribute("data-wiki-link") || "",
-                    title: element.textContent || "",
-                };
+                const href = element.getAttribute("data-wiki-link") || "";
+                return { href, title: getWikiLinkTitleFromLabel(href, element.textContent || "") };
             },
         },
     ],
 };
 
 /**
- * Extended markdown schema with table and wiki link support
+ * Note embed node spec - block atom for ![[Note]] / ![[Note#Heading]] transclusions.
+ * The editor renders it with NoteEmbedView; toDOM is the plain fallback.
+ */
+const noteEmbedNodeSpec: NodeSpec = {
+    group: "block",
+    atom: true,
+    selectable: true,
+    attrs: {
+        href: { default: "" },
+    },
+    toDOM(node) {
+        return ["div", { class: "note-embed", "data-note-embed": node.attrs.href }, `![[${node.attrs.href}]]`];
+    },
+    parseDOM: [
+        {
+            tag: "div.note-embed",
+            getAttrs(dom) {
+                return { href: (dom as HTMLElement).getAttribute("data-note-embed") || "" };
+            },
+        },
+    ],
+};
+
+/**
+ * Extended markdown schema with table, wiki link and note embed support
  */
 export const tableSchema = new Schema({
     nodes: markdownSchema.spec.nodes
         .append(tableNodeSpecs)
-        .addBefore("image", "wiki_link", wikiLinkNodeSpec),
+        .addBefore("image", "wiki_link", wikiLinkNodeSpec)
+        .addToEnd("note_embed", noteEmbedNodeSpec),
     marks: markdownSchema.spec.marks,
 });
 
@@ -200,6 +200,12 @@ const nodeSerializers = {
             state.write(`[[${href}]]`);
         }
     },
+
+    // Note embed node
+    note_embed(state: MarkdownSerializerState, node: Node) {
+        state.write(`![[${node.attrs.href}]]`);
+        state.closeBlock(node);
+    },
 };
 
 /**
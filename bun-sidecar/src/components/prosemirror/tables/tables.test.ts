@@ -168,6 +168,29 @@ Walking pad: daily.`;
     });
 });
 
+describe("Note Embeds", () => {
+    test("parses an embed on its own line", () => {
+        const doc = tableMarkdownParser.parse("Before\n\n![[Projects/Alpha#Goals]]\n\nAfter");
+
+        expect(doc.childCount).toBe(3);
+        expect(doc.child(1).type.name).toBe("note_embed");
+        expect(doc.child(1).attrs.href).toBe("Projects/Alpha#Goals");
+    });
+
+    test("leaves inline embeds as text", () => {
+        const doc = tableMarkdownParser.parse("See ![[Alpha]] here");
+
+        expect(doc.firstChild?.type.name).toBe("paragraph");
+    });
+
+    test("round-trips through the serializer", () => {
+        const markdown = "Before\n\n![[Alpha#^block-1]]\n\nAfter";
+        const doc = tableMarkdownParser.parse(markdown);
+
+        expect(tableMarkdownSerializer.serialize(doc)).toBe(markdown);
+    });
+});
+
 describe("Table Schema", () => {
     test("has required node types", () => {
         expect(tableSchema.nodes.table).toBeTruthy();
@@ -10,6 +10,7 @@ import {
 import { notesAPI } from "@/hooks/useNotesAPI";
 import { Note } from "@/features/notes";
 import { useTheme } from "@/hooks/useTheme";
+import { formatWikiLinkHref, parseWikiLink } from "@/features/notes/wiki-link-utils";
 
 interface WikiLinkPopupProps {
     view: EditorView;
@@ -84,6 +85,8 @@ export function WikiLinkPopup({ view, pluginState }: WikiLinkPopupProps) {
     const [loading, setLoading] = useState(true);
     const popupRef = useRef<HTMLDivElement>(null);
     const selectedRef = useRef<HTMLDivElement>(null);
+    // "Note#Heading|alias" searches for "Note" and keeps the anchor and alias
+    const { target: query, anchor, alias } = parseWikiLink(pluginState.query);
 
     // Load notes on mount
     useEffect(() => {
@@ -110,9 +113,9 @@ export function WikiLinkPopup({ view, pluginState }: WikiLinkPopupProps) {
 
     // Filter notes when query changes
     useEffect(() => {
-        const filtered = filterNotes(notes, pluginState.query);
+        const filtered = filterNotes(notes, query);
         setFilteredNotes(filtered);
-    }, [notes, pluginState.query]);
+    }, [notes, query]);
 
     // Scroll selected item into view
     useEffect(() => {
@@ -123,17 +126,17 @@ export function WikiLinkPopup({ view, pluginState }: WikiLinkPopupProps) {
     const handleSelect = useCallback(
         (note: Note) => {
             const noteName = note.fileName.replace(/\.md$/, "");
-            insertWikiLink(view, noteName);
+            insertWikiLink(view, formatWikiLinkHref(noteName, anchor), alias);
         },
-        [view]
+        [view, anchor, alias]
     );
 
     // Handle creating new note
     const handleCreateNew = useCallback(() => {
-        if (pluginState.query) {
-            insertWikiLink(view, pluginState.query);
+        if (query) {
+            insertWikiLink(view, formatWikiLinkHref(query, anchor), alias);
         }
-    }, [view, pluginState.query]);
+    }, [view, query, anchor, alias]);
 
     // Use a ref to always have latest state for the event handler
     const pluginStateRef = useRef(pluginState);
@@ -178,7 +181,7 @@ export function WikiLinkPopup({ view, pluginState }: WikiLinkPopupProps) {
 
                 if (currentNotes[selectedIndex]) {
                     handleSelect(currentNotes[selectedIndex]);
-                } else if (currentState.query) {
+                } else if (parseWikiLink(currentState.query).target) {
                     handleCreateNew();
                 }
             }
@@ -230,7 +233,7 @@ export function WikiLinkPopup({ view, pluginState }: WikiLinkPopupProps) {
                 </div>
             ) : filteredNotes.length === 0 ? (
                 <div className="p-2">
-                    {pluginState.query && (
+                    {query && (
                         <div
                             className="p-2 rounded cursor-pointer hover:opacity-80"
                             style={{
@@ -239,10 +242,10 @@ export function WikiLinkPopup({ view, pluginState }: WikiLinkPopupProps) {
                             }}
                             onClick={handleCreateNew}
                         >
-                            Create "{pluginState.query}"
+                            Create "{query}"
                         </div>
                     )}
-                    {!pluginState.query && (
+                    {!query && (
                         <div
                             className="p-2 text-sm"
                             style={{ color: currentTheme.styles.contentSecondary }}
@@ -292,11 +295,11 @@ export function WikiLinkPopup({ view, pluginState }: WikiLinkPopupProps) {
                     })}
 
                     {/* Option to create new note if query doesn't match exactly */}
-                    {pluginState.query &&
+                    {query &&
                         !filteredNotes.some(
                             (n) =>
                                 n.fileName.replace(/\.md$/, "").toLowerCase() ===
-                                pluginState.query.toLowerCase()
+                                query.toLowerCase()
                         ) && (
                             <div
                                 className="px-3 py-2 cursor-pointer border-t"
@@ -306,7 +309,7 @@ export function WikiLinkPopup({ view, pluginState }: WikiLinkPopupProps) {
                                 }}
                                 onClick={handleCreateNew}
                             >
-                                Create "{pluginState.query}"
+                                Create "{query}"
                             </div>
                         )}
                 </div>
@@ -1,4 +1,5 @@
 import { MarkSpec, NodeSpec } from "prosemirror-model";
+import { getWikiLinkLabel, getWikiLinkTitleFromLabel } from "@/features/notes/wiki-link-utils";
 
 /**
  * Wiki link node specification
@@ -19,9 +20,9 @@ export const wikiLinkNodeSpec: NodeSpec = {
                 class: "wiki-link",
                 href: `#/notes/${encodeURIComponent(node.attrs.href)}`,
                 "data-wiki-link": node.attrs.href,
-                title: node.attrs.title || node.attrs.href,
+                title: getWikiLinkLabel(node.attrs.href, node.attrs.title),
             },
-            node.attrs.title || node.attrs.href,
+            getWikiLinkLabel(node.attrs.href, node.attrs.title),
         ];
     },
     parseDOM: [
@@ -29,10 +30,8 @@ export const wikiLinkNodeSpec: NodeSpec = {
             tag: "a.wiki-link",
             getAttrs(dom) {
                 const element = dom as HTMLElement;
-                return {
-                    href: element.getAttribute("data-wiki-link") || "",
-                    title: element.textContent || "",
-                };
+                const href = element.getAttribute("data-wiki-link") || "";
+                return { href, title: getWikiLinkTitleFromLabel(href, element.textContent || "") };
             },
         },
     ],
@@ -1,4 +1,5 @@
 import { createContext, useContext, useState, useEffect, useCallback, useRef } from "react";
+import { toast } from "sonner";
 import { useWorkspaceContext } from "./WorkspaceContext";
 import { GitAuthMode } from "@/types/Workspace";
 
@@ -11,6 +12,7 @@ interface SyncStatus {
     lastChecked: Date | null;
     lastSynced: Date | null;
     error: string | null;
+    skippedLargeFiles: string[]; // Over the size limit, left out of the last sync
 }
 
 interface SetupStatus {
@@ -51,6 +53,7 @@ export function GHSyncProvider(props: { children: React.ReactNode }) {
         lastChecked: null,
         lastSynced: null,
         error: null,
+        skippedLargeFiles: [],
     });
     const [setupStatus, setSetupStatus] = useState<SetupStatus>({
         checked: false,
@@ -63,6 +66,7 @@ export function GHSyncProvider(props: { children: React.ReactNode }) {
     const changeDebounceRef = useRef<ReturnType<typeof setTimeout> | null>(null);
     const changeWatchRef = useRef<ReturnType<typeof setTimeout> | null>(null);
     const syncRef = useRef<(() => Promise<void>) | null>(null);
+    const skippedLargeFilesRef = useRef<string[]>([]);
 
     // Check if GitHub PAT is set
     const checkPAT = useCallback(async (): Promise<boolean> => {
@@ -205,11 +209,22 @@ export function GHSyncProvider(props: { children: React.ReactNode }) {
         try {
             // First commit any local changes
             const commitResponse = await fetch("/api/git/commit", { method: "POST" });
+            const commitData = await commitResponse.json();
             if (!commitResponse.ok) {
-                const data = await commitResponse.json();
-                throw new Error(data.error || "Commit failed");
+                throw new Error(commitData.error || "Commit failed");
             }
 
+            // Tell the user once per file, not on every automatic sync
+            const skippedLargeFiles: string[] = commitData.skippedLargeFiles ?? [];
+            const newlySkipped = skippedLargeFiles.filter((path) => !skippedLargeFilesRef.current.includes(path));
+            skippedLargeFilesRef.current = skippedLargeFiles;
+            if (newlySkipped.length > 0) {
+                toast.warning(`${newlySkipped.length} file${newlySkipped.length !== 1 ? "s" : ""} over the size limit left out of sync`, {
+                    description: newlySkipped.join(", "),
+                });
+            }
+            setStatus(s => ({ ...s, skippedLargeFiles }));
+
             // Then pull
             const pullResponse = await fetch("/api/git/pull", { method: "POST" });
             const pullData = await pullResponse.json();
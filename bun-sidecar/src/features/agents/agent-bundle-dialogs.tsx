@@ -0,0 +1,428 @@
+import { useEffect, useState } from "react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from "@/components/ui/dialog";
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from "@/components/ui/select";
+import { useTheme } from "@/hooks/useTheme";
+import { useAgentsAPI } from "@/hooks/useAgentsAPI";
+import { useSkillsAPI } from "@/hooks/useSkillsAPI";
+import type { AgentConfig } from "./index";
+import { findReferencedSkills, type AgentBundlePreview, type BundleImportChoices } from "./bundle-format";
+
+interface ExportAgentBundleDialogProps {
+    agent: AgentConfig | null;
+    onClose: () => void;
+}
+
+// Pick the skills to ship with an agent, then download the bundle
+export function ExportAgentBundleDialog({ agent, onClose }: ExportAgentBundleDialogProps) {
+    const { currentTheme } = useTheme();
+    const api = useAgentsAPI();
+    const skillsAPI = useSkillsAPI();
+    const [skillNames, setSkillNames] = useState<string[]>([]);
+    const [selectedSkills, setSelectedSkills] = useState<string[]>([]);
+
+    useEffect(() => {
+        if (!agent) return;
+        skillsAPI
+            .getSkills()
+            .then((skills) => {
+                const names = skills.map((skill) => skill.name);
+                setSkillNames(names);
+                setSelectedSkills(findReferencedSkills(agent, names));
+            })
+            .catch((error) => console.error("Failed to load skills:", error));
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [agent]);
+
+    function toggleSkill(name: string) {
+        setSelectedSkills((prev) => (prev.includes(name) ? prev.filter((skill) => skill !== name) : [...prev, name]));
+    }
+
+    function handleExport() {
+        if (!agent) return;
+        const link = document.createElement("a");
+        link.href = api.getExportUrl({ agentId: agent.id, skills: selectedSkills });
+        link.download = "";
+        document.body.appendChild(link);
+        link.click();
+        document.body.removeChild(link);
+        onClose();
+    }
+
+    return (
+        <Dialog open={!!agent} onOpenChange={(open) => !open && onClose()}>
+            <DialogContent>
+                <DialogHeader>
+                    <DialogTitle>Export "{agent?.name}"</DialogTitle>
+                    <DialogDescription>
+                        The bundle includes the agent and its MCP servers. Credentials are replaced with secret
+                        placeholders, so the file is safe to share.
+                    </DialogDescription>
+                </DialogHeader>
+
+                <div className="space-y-2">
+                    <Label>Skills to include</Label>
+                    {skillNames.length === 0 ? (
+                        <p className="text-sm" style={{ color: currentTheme.styles.contentSecondary }}>
+                            No skills in this workspace.
+                        </p>
+                    ) : (
+                        <div className="max-h-60 overflow-y-auto space-y-2">
+                            {skillNames.map((name) => (
+                                <div key={name} className="flex items-center gap-2">
+                                    <Checkbox
+                                        id={`export-skill-${name}`}
+                                        checked={selectedSkills.includes(name)}
+                                        onCheckedChange={() => toggleSkill(name)}
+                                    />
+                                    <label htmlFor={`export-skill-${name}`} className="text-sm cursor-pointer">
+                                        {name}
+                                    </label>
+                                </div>
+                            ))}
+                        </div>
+                    )}
+                </div>
+
+                <DialogFooter>
+                    <Button variant="outline" onClick={onClose}>
+                        Cancel
+                    </Button>
+                    <Button onClick={handleExport}>Export</Button>
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    );
+}
+
+interface ImportAgentBundleDialogProps {
+    // Parsed contents of the chosen bundle file
+    bundle: unknown;
+    onClose: () => void;
+    onImported: (agent: AgentConfig) => void;
+}
+
+const CLASH_LABELS = {
+    id: "An agent with this ID already exists",
+    name: "An agent with this name already exists",
+} as const;
+
+// Review clashes, import, then ask for the secrets the agent needs that aren't set yet
+export function ImportAgentBundleDialog({ bundle, onClose, onImported }: ImportAgentBundleDialogProps) {
+    const { currentTheme } = useTheme();
+    const api = useAgentsAPI();
+    const [preview, setPreview] = useState<AgentBundlePreview | null>(null);
+    const [choices, setChoices] = useState<BundleImportChoices>({
+        agent: "copy",
+        mcpServers: {},
+        skills: {},
+        keepAllowRules: false,
+        keepBaseUrl: false,
+    });
+    const [missingSecrets, setMissingSecrets] = useState<string[] | null>(null);
+    const [secretValues, setSecretValues] = useState<Record<string, string>>({});
+    const [isBusy, setIsBusy] = useState(false);
+
+    useEffect(() => {
+        if (!bundle) return;
+        setPreview(null);
+        setMissingSecrets(null);
+        setSecretValues({});
+        api.previewImport({ bundle })
+            .then((result) => {
+                setPreview(result);
+                setChoices({
+                    agent: "copy",
+                    mcpServers: Object.fromEntries(
+                        result.mcpServers
+                            .filter((server) => server.clash)
+                            .map((server) => [server.id, server.clash === "same" ? "reuse" : "copy"])
+                    ),
+                    skills: Object.fromEntries(result.skills.filter((skill) => skill.clash).map((skill) => [skill.name, "keep"])),
+                    keepAllowRules: false,
+                    keepBaseUrl: false,
+                });
+            })
+            .catch((error) => {
+                toast.error(error instanceof Error ? error.message : "Failed to read agent bundle");
+                onClose();
+            });
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [bundle]);
+
+    async function handleImport() {
+        setIsBusy(true);
+        try {
+            const result = await api.importBundle({ bundle, choices });
+            onImported(result.agent);
+
+            const response = await fetch("/api/secrets/list");
+            const data = (await response.json()) as { secrets: Array<{ key: string; hasValue: boolean }> };
+            const setKeys = new Set(data.secrets.filter((secret) => secret.hasValue).map((secret) => secret.key));
+            const missing = result.requiredSecrets.filter((key) => !setKeys.has(key));
+
+            toast.success(`Imported "${result.agent.name}"`);
+            if (missing.length === 0) {
+                onClose();
+            } else {
+                setMissingSecrets(missing);
+            }
+        } catch (error) {
+            toast.error(error instanceof Error ? error.message : "Failed to import agent");
+        } finally {
+            setIsBusy(false);
+        }
+    }
+
+    async function handleSaveSecrets() {
+        setIsBusy(true);
+        try {
+            for (const [key, value] of Object.entries(secretValues)) {
+                if (!value.trim()) continue;
+                const response = await fetch("/api/secrets/set", {
+                    method: "POST",
+                    headers: { "Content-Type": "application/json" },
+                    body: JSON.stringify({ key, value: value.trim() }),
+                });
+                if (!response.ok) {
+                    const data = await response.json();
+                    throw new Error(data.error || `Failed to save ${key}`);
+                }
+            }
+            onClose();
+        } catch (error) {
+            toast.error(error instanceof Error ? error.message : "Failed to save secrets");
+        } finally {
+            setIsBusy(false);
+        }
+    }
+
+    const mutedStyle = { color: currentTheme.styles.contentSecondary };
+
+    return (
+        <Dialog open={!!bundle} onOpenChange={(open) => !open && onClose()}>
+            <DialogContent className="max-w-lg">
+                {missingSecrets ? (
+                    <>
+                        <DialogHeader>
+                            <DialogTitle>Add secrets</DialogTitle>
+                            <DialogDescription>
+                                The imported agent needs these secrets. You can also add them later in Settings.
+                            </DialogDescription>
+                        </DialogHeader>
+                        <div className="space-y-3">
+                            {missingSecrets.map((key) => (
+                                <div key={key} className="space-y-1">
+                                    <Label htmlFor={`secret-${key}`} className="font-mono text-xs">
+                                        {key}
+                                    </Label>
+                                    <Input
+                                        id={`secret-${key}`}
+                                        type="password"
+                                        value={secretValues[key] ?? ""}
+                                        onChange={(e) => setSecretValues((prev) => ({ ...prev, [key]: e.target.value }))}
+                                    />
+                                </div>
+                            ))}
+                        </div>
+                        <DialogFooter>
+                            <Button variant="outline" onClick={onClose}>
+                                Skip
+                            </Button>
+                            <Button onClick={handleSaveSecrets} disabled={isBusy}>
+                                Save Secrets
+                            </Button>
+                        </DialogFooter>
+                    </>
+                ) : (
+                    <>
+                        <DialogHeader>
+                            <DialogTitle>Import Agent</DialogTitle>
+                            <DialogDescription>
+                                {preview ? `"${preview.agent.name}" from an agent bundle` : "Reading bundle..."}
+                            </DialogDescription>
+                        </DialogHeader>
+
+                        {preview && (
+                            <div className="space-y-4 text-sm">
+                                {preview.agent.clash && (
+                                    <div className="space-y-2">
+                                        <p style={mutedStyle}>{CLASH_LABELS[preview.agent.clash]}.</p>
+                                        {preview.agent.clash === "id" && preview.agent.id !== "default" && (
+                                            <Select
+                                                value={choices.agent}
+                                                onValueChange={(agent) =>
+                                                    setChoices((prev) => ({ ...prev, agent: agent as BundleImportChoices["agent"] }))
+                                                }
+                                            >
+                                                <SelectTrigger>
+                                                    <SelectValue />
+                                                </SelectTrigger>
+                                                <SelectContent>
+                                                    <SelectItem value="copy">Import as a new agent</SelectItem>
+                                                    <SelectItem value="replace">Replace the existing agent</SelectItem>
+                                                </SelectContent>
+                                            </Select>
+                                        )}
+                                    </div>
+                                )}
+
+                                {preview.mcpServers.length > 0 && (
+                                    <div className="space-y-2">
+                                        <Label>MCP Servers</Label>
+                                        {preview.mcpServers.map((server) => (
+                                            <div key={server.id} className="flex items-center justify-between gap-2">
+                                                <div className="min-w-0">
+                                                    <div>{server.name}</div>
+                                                    <div className="font-mono text-xs truncate" style={mutedStyle} title={server.launch}>
+                                                        {server.launch}
+                                                    </div>
+                                                </div>
+                                                {server.clash ? (
+                                                    <Select
+                                                        value={choices.mcpServers[server.id]}
+                                                        onValueChange={(choice) =>
+                                                            setChoices((prev) => ({
+                                                                ...prev,
+                                                                mcpServers: { ...prev.mcpServers, [server.id]: choice as "reuse" | "copy" },
+                                                            }))
+                                                        }
+                                                    >
+                                                        <SelectTrigger className="w-56">
+                                                            <SelectValue />
+                                                        </SelectTrigger>
+                                                        <SelectContent>
+                                                            <SelectItem value="reuse">
+                                                                {server.clash === "same" ? "Use existing (identical)" : "Use existing (differs)"}
+                                                            </SelectItem>
+                                                            <SelectItem value="copy">Add as a new server</SelectItem>
+                                                        </SelectContent>
+                                                    </Select>
+                                                ) : (
+                                                    <span style={mutedStyle}>New</span>
+                                                )}
+                                            </div>
+                                        ))}
+                                    </div>
+                                )}
+
+                                {preview.skills.length > 0 && (
+                                    <div className="space-y-2">
+                                        <Label>Skills</Label>
+                                        {preview.skills.map((skill) => (
+                                            <div key={skill.name} className="flex items-center justify-between gap-2">
+                                                <div className="min-w-0">
+                                                    <div>{skill.name}</div>
+                                                    {skill.scripts.length > 0 && (
+                                                        <div className="font-mono text-xs truncate" style={mutedStyle}>
+                                                            Scripts: {skill.scripts.join(", ")}
+                                                        </div>
+                                                    )}
+                                                </div>
+                                                {skill.clash ? (
+                                                    <Select
+                                                        value={choices.skills[skill.name]}
+                                                        onValueChange={(choice) =>
+                                                            setChoices((prev) => ({
+                                                                ...prev,
+                                                                skills: { ...prev.skills, [skill.name]: choice as "keep" | "overwrite" },
+                                                            }))
+                                                        }
+                                                    >
+                                                        <SelectTrigger className="w-56">
+                                                            <SelectValue />
+                                                        </SelectTrigger>
+                                                        <SelectContent>
+                                                            <SelectItem value="keep">Keep my version</SelectItem>
+                                                            <SelectItem value="overwrite">Overwrite with bundled</SelectItem>
+                                                        </SelectContent>
+                                                    </Select>
+                                                ) : (
+                                                    <span style={mutedStyle}>New</span>
+                                                )}
+                                            </div>
+                                        ))}
+                                    </div>
+                                )}
+
+                                {preview.allowRules.length > 0 && (
+                                    <div className="space-y-2">
+                                        <Label>Allow rules</Label>
+                                        <p style={mutedStyle}>These let the agent run tools without asking you:</p>
+                                        <ul className="font-mono text-xs space-y-0.5">
+                                            {preview.allowRules.map((rule) => (
+                                                <li key={rule}>{rule}</li>
+                                            ))}
+                                        </ul>
+                                        <div className="flex items-center gap-2">
+                                            <Checkbox
+                                                id="keep-allow-rules"
+                                                checked={choices.keepAllowRules}
+                                                onCheckedChange={(checked) => setChoices((prev) => ({ ...prev, keepAllowRules: checked === true }))}
+                                            />
+                                            <label htmlFor="keep-allow-rules" className="cursor-pointer">
+                                                Keep these allow rules
+                                            </label>
+                                        </div>
+                                    </div>
+                                )}
+
+                                {preview.agent.baseUrl && (
+                                    <div className="space-y-2">
+                                        <Label>API endpoint</Label>
+                                        <p style={mutedStyle}>
+                                            The agent sends requests, with your {preview.agent.provider} API key, to{" "}
+                                            <span className="font-mono text-xs">{preview.agent.baseUrl}</span>
+                                        </p>
+                                        <div className="flex items-center gap-2">
+                                            <Checkbox
+                                                id="keep-base-url"
+                                                checked={choices.keepBaseUrl}
+                                                onCheckedChange={(checked) => setChoices((prev) => ({ ...prev, keepBaseUrl: checked === true }))}
+                                            />
+                                            <label htmlFor="keep-base-url" className="cursor-pointer">
+                                                Use this endpoint
+                                            </label>
+                                        </div>
+                                    </div>
+                                )}
+
+                                {preview.requiredSecrets.length > 0 && (
+                                    <p style={mutedStyle}>
+                                        Needs secrets: <span className="font-mono text-xs">{preview.requiredSecrets.join(", ")}</span>
+                                    </p>
+                                )}
+                            </div>
+                        )}
+
+                        <DialogFooter>
+                            <Button variant="outline" onClick={onClose}>
+                                Cancel
+                            </Button>
+                            <Button onClick={handleImport} disabled={!preview || isBusy}>
+                                {isBusy ? "Importing..." : "Import"}
+                            </Button>
+                        </DialogFooter>
+                    </>
+                )}
+            </DialogContent>
+        </Dialog>
+    );
+}
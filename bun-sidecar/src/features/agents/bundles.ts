@@ -0,0 +1,174 @@
+import { chmod, mkdir, readdir, stat } from "node:fs/promises";
+import path from "path";
+import { createServiceLogger } from "@/lib/logger";
+import { getSkillsPath, hasActiveWorkspace } from "@/storage/root-path";
+import { createUserMcpServer, listUserMcpServers } from "@/features/mcp-servers/fx";
+import { getAgent, importAgent, listAgents } from "./fx";
+import type { AgentConfig } from "./index";
+import {
+    AGENT_BUNDLE_FORMAT,
+    type AgentBundle,
+    AgentBundleSchema,
+    type AgentBundlePreview,
+    applyTrustChoices,
+    type BundleImportChoices,
+    type BundledSkill,
+    collectRequiredSecrets,
+    findReferencedSkills,
+    isSafeSkillFilePath,
+    previewBundle,
+    redactServerSecrets,
+    remapServerIds,
+} from "./bundle-format";
+
+const bundlesLogger = createServiceLogger("AGENT-BUNDLES");
+
+// Skill folders hold docs and small scripts; anything bigger is left out of the bundle
+const MAX_SKILL_FILE_BYTES = 1024 * 1024;
+
+// Skill folder names in the workspace
+async function listSkillFolders(): Promise<string[]> {
+    if (!hasActiveWorkspace()) {
+        return [];
+    }
+    try {
+        const entries = await readdir(getSkillsPath(), { withFileTypes: true });
+        return entries.filter((entry) => entry.isDirectory() && !entry.name.startsWith(".")).map((entry) => entry.name);
+    } catch {
+        return [];
+    }
+}
+
+async function readSkill(name: string): Promise<BundledSkill | null> {
+    const skillPath = path.join(getSkillsPath(), name);
+    try {
+        const files: Record<string, string> = {};
+        const entries = await readdir(skillPath, { recursive: true });
+        for (const entry of entries) {
+            const filePath = path.join(skillPath, entry);
+            const fileStat = await stat(filePath);
+            if (!fileStat.isFile() || entry.split(path.sep).some((segment) => segment.startsWith("."))) {
+                continue;
+            }
+            if (fileStat.size > MAX_SKILL_FILE_BYTES) {
+                bundlesLogger.warn(`Skipping large skill file: ${name}/${entry}`);
+                continue;
+            }
+            files[entry.split(path.sep).join("/")] = await Bun.file(filePath).text();
+        }
+        return { name, files };
+    } catch (error) {
+        bundlesLogger.error(`Failed to read skill ${name}`, { error });
+        return null;
+    }
+}
+
+async function writeSkill(skill: BundledSkill): Promise<void> {
+    const skillPath = path.join(getSkillsPath(), skill.name);
+    for (const [relativePath, content] of Object.entries(skill.files)) {
+        if (!isSafeSkillFilePath(relativePath)) {
+            bundlesLogger.warn(`Skipping unsafe skill file path: ${skill.name}/${relativePath}`);
+            continue;
+        }
+        const filePath = path.join(skillPath, relativePath);
+        await mkdir(path.dirname(filePath), { recursive: true });
+        await Bun.write(filePath, content);
+
+        // Same as the default skills: shell scripts are meant to be run
+        if (relativePath.endsWith(".sh")) {
+            await chmod(filePath, 0o755);
+        }
+    }
+}
+
+/**
+ * Bundle an agent with the user MCP servers it uses and the given skills
+ * (by default, the skills its system prompt mentions).
+ * Returns null if the agent doesn't exist.
+ */
+export async function exportAgentBundle(input: { agentId: string; skills?: string[] }): Promise<AgentBundle | null> {
+    const agent = await getAgent({ agentId: input.agentId });
+    if (!agent) {
+        return null;
+    }
+
+    const userServers = await listUserMcpServers();
+    const mcpServers = userServers.filter((server) => agent.mcpServers.includes(server.id)).map(redactServerSecrets);
+
+    const skillFolders = await listSkillFolders();
+    const skillNames = (input.skills ?? findReferencedSkills(agent, skillFolders)).filter((name) => skillFolders.includes(name));
+    const skills: BundledSkill[] = [];
+    for (const name of skillNames) {
+        const skill = await readSkill(name);
+        if (skill) skills.push(skill);
+    }
+
+    bundlesLogger.info(`Exported agent bundle: ${agent.id}`, { mcpServers: mcpServers.length, skills: skills.length });
+    return {
+        format: AGENT_BUNDLE_FORMAT,
+        version: 1,
+        exportedAt: new Date().toISOString(),
+        // Allowed tools are the exporter's own answers to permission prompts, not part of the agent
+        agent: { ...agent, allowedTools: [], isDefault: undefined },
+        mcpServers,
+        skills,
+        requiredSecrets: collectRequiredSecrets(agent, mcpServers),
+    };
+}
+
+// Validate a bundle read from a file; throws with the first problem found
+export function parseAgentBundle(data: unknown): AgentBundle {
+    const result = AgentBundleSchema.safeParse(data);
+    if (!result.success) {
+        const issue = result.error.issues[0];
+        throw new Error(`Invalid agent bundle${issue ? ` at ${issue.path.join(".") || "root"}: ${issue.message}` : ""}`);
+    }
+    return result.data;
+}
+
+export async function previewAgentBundle(input: { bundle: unknown }): Promise<AgentBundlePreview> {
+    const bundle = parseAgentBundle(input.bundle);
+    const [agents, mcpServers, skillNames] = await Promise.all([listAgents(), listUserMcpServers(), listSkillFolders()]);
+    return previewBundle(bundle, { agents, mcpServers, skillNames });
+}
+
+/**
+ * Add a bundle's agent, MCP servers and skills to the workspace, resolving clashes with `choices`.
+ * Secrets aren't touched; the caller asks the user for the ones listed in requiredSecrets.
+ */
+export async function importAgentBundle(input: { bundle: unknown; choices: BundleImportChoices }): Promise<{
+    agent: AgentConfig;
+    requiredSecrets: string[];
+}> {
+    const bundle = parseAgentBundle(input.bundle);
+    const preview = await previewAgentBundle({ bundle });
+
+    // Servers keep the bundled ID only when reused; new ones get IDs from their names
+    const serverIds: Record<string, string> = {};
+    for (const server of bundle.mcpServers) {
+        const clash = preview.mcpServers.find((entry) => entry.id === server.id)?.clash;
+        const choice = input.choices.mcpServers[server.id] ?? (clash === "same" ? "reuse" : "copy");
+        if (clash && choice === "reuse") {
+            serverIds[server.id] = server.id;
+            continue;
+        }
+        const created = await createUserMcpServer(server);
+        serverIds[server.id] = created.id;
+    }
+
+    for (const skill of bundle.skills) {
+        const clash = preview.skills.find((entry) => entry.name === skill.name)?.clash;
+        if (clash && input.choices.skills[skill.name] !== "overwrite") {
+            continue;
+        }
+        await writeSkill(skill);
+    }
+
+    const replace = preview.agent.clash === "id" && input.choices.agent === "replace" && bundle.agent.id !== "default";
+    const name = preview.agent.clash && !replace ? `${bundle.agent.name} (Imported)` : bundle.agent.name;
+    const trusted = applyTrustChoices(bundle.agent, input.choices);
+    const agent = await importAgent({ agent: { ...remapServerIds(trusted, serverIds), name }, replace });
+
+    bundlesLogger.info(`Imported agent bundle as ${agent.id}`, { replace, servers: Object.keys(serverIds).length });
+    return { agent, requiredSecrets: bundle.requiredSecrets };
+}
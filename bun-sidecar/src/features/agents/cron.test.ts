@@ -0,0 +1,47 @@
+import { describe, test, expect } from "bun:test";
+import { getCronError, getNextRunTime, parseCron } from "./cron";
+
+describe("parseCron", () => {
+    test("expands ranges, lists and steps", () => {
+        const schedule = parseCron("*/15 8-18/5 1,15 * 1-5");
+        expect([...schedule.minutes]).toEqual([0, 15, 30, 45]);
+        expect([...schedule.hours]).toEqual([8, 13, 18]);
+        expect([...schedule.daysOfMonth]).toEqual([1, 15]);
+        expect([...schedule.daysOfWeek]).toEqual([1, 2, 3, 4, 5]);
+    });
+
+    test("treats 7 as Sunday", () => {
+        expect([...parseCron("0 9 * * 7").daysOfWeek]).toEqual([0]);
+    });
+
+    test("reports invalid expressions", () => {
+        expect(getCronError("0 8 * *")).toContain("Expected 5 fields");
+        expect(getCronError("60 8 * * *")).toContain("minute");
+        expect(getCronError("0 8 * * mon")).toContain("day of week");
+        expect(getCronError("0 8 * * 1-5")).toBeNull();
+    });
+});
+
+describe("getNextRunTime", () => {
+    test("finds the next weekday at 8am", () => {
+        // Friday 2025-03-07 at 9:00 -> Monday 2025-03-10 at 8:00
+        const next = getNextRunTime("0 8 * * 1-5", new Date(2025, 2, 7, 9, 0));
+        expect(next).toEqual(new Date(2025, 2, 10, 8, 0));
+    });
+
+    test("is strictly after the given time", () => {
+        const next = getNextRunTime("0 8 * * *", new Date(2025, 2, 7, 8, 0));
+        expect(next).toEqual(new Date(2025, 2, 8, 8, 0));
+    });
+
+    test("runs on a day matching either day-of-month or day-of-week", () => {
+        // Tuesday 2025-03-04: the 5th is a Wednesday, the next Monday is the 10th
+        const next = getNextRunTime("0 9 5 * 1", new Date(2025, 2, 4, 12, 0));
+        expect(next).toEqual(new Date(2025, 2, 5, 9, 0));
+        expect(getNextRunTime("0 9 5 * 1", next!)).toEqual(new Date(2025, 2, 10, 9, 0));
+    });
+
+    test("returns null for dates that never occur", () => {
+        expect(getNextRunTime("0 9 31 2 *", new Date(2025, 0, 1))).toBeNull();
+    });
+});
@@ -0,0 +1,140 @@
+/**
+ * Cron Schedules
+ *
+ * Five-field cron expressions ("minute hour day-of-month month day-of-week") in local time.
+ * Each field accepts *, numbers, ranges (1-5), lists (1,3,5) and steps (*\/15, 8-18/2).
+ * Day-of-week is 0-6 from Sunday (7 is also Sunday). As in standard cron, when both
+ * day-of-month and day-of-week are restricted, a day matching either one runs.
+ */
+
+export interface CronSchedule {
+    minutes: Set<number>;
+    hours: Set<number>;
+    daysOfMonth: Set<number>;
+    months: Set<number>; // 1-12
+    daysOfWeek: Set<number>; // 0-6, Sunday = 0
+    anyDayOfMonth: boolean;
+    anyDayOfWeek: boolean;
+}
+
+// Common schedules offered in the schedule editor
+export const CRON_PRESETS: Array<{ label: string; cron: string }> = [
+    { label: "Every hour", cron: "0 * * * *" },
+    { label: "Every day at 8am", cron: "0 8 * * *" },
+    { label: "Every weekday at 8am", cron: "0 8 * * 1-5" },
+    { label: "Every Monday at 9am", cron: "0 9 * * 1" },
+    { label: "Every Friday at 5pm", cron: "0 17 * * 5" },
+    { label: "First of the month at 9am", cron: "0 9 1 * *" },
+];
+
+// Searching further than this without a match means the expression can never run (e.g. Feb 31)
+const MAX_SEARCH_DAYS = 366 * 5;
+
+function parseField(field: string, min: number, max: number, name: string): Set<number> {
+    const values = new Set<number>();
+
+    for (const part of field.split(",")) {
+        const match = part.match(/^(\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/);
+        if (!match) {
+            throw new Error(`Invalid ${name} "${part}"`);
+        }
+
+        const [, range, startText, endText, stepText] = match;
+        const start = range === "*" ? min : Number(startText);
+        const end = range === "*" ? max : endText !== undefined ? Number(endText) : stepText ? max : start;
+        const step = stepText ? Number(stepText) : 1;
+
+        if (start < min || end > max || start > end || step < 1) {
+            throw new Error(`Invalid ${name} "${part}" (allowed ${min}-${max})`);
+        }
+        for (let value = start; value <= end; value += step) {
+            values.add(value);
+        }
+    }
+
+    return values;
+}
+
+/**
+ * Parse a five-field cron expression.
+ * @throws Error describing the first invalid field
+ */
+export function parseCron(expression: string): CronSchedule {
+    const fields = expression.trim().split(/\s+/);
+    if (fields.length !== 5) {
+        throw new Error("Expected 5 fields: minute hour day-of-month month day-of-week");
+    }
+    const [minute, hour, dayOfMonth, month, dayOfWeek] = fields as [string, string, string, string, string];
+
+    const daysOfWeek = parseField(dayOfWeek, 0, 7, "day of week");
+    if (daysOfWeek.delete(7)) {
+        daysOfWeek.add(0);
+    }
+
+    return {
+        minutes: parseField(minute, 0, 59, "minute"),
+        hours: parseField(hour, 0, 23, "hour"),
+        daysOfMonth: parseField(dayOfMonth, 1, 31, "day of month"),
+        months: parseField(month, 1, 12, "month"),
+        daysOfWeek,
+        anyDayOfMonth: dayOfMonth === "*",
+        anyDayOfWeek: dayOfWeek === "*",
+    };
+}
+
+/**
+ * Validation message for an expression, or null if it's valid.
+ */
+export function getCronError(expression: string): string | null {
+    try {
+        parseCron(expression);
+        return null;
+    } catch (error) {
+        return error instanceof Error ? error.message : "Invalid schedule";
+    }
+}
+
+function matchesDay(schedule: CronSchedule, date: Date): boolean {
+    if (!schedule.months.has(date.getMonth() + 1)) {
+        return false;
+    }
+    const dayOfMonth = schedule.daysOfMonth.has(date.getDate());
+    const dayOfWeek = schedule.daysOfWeek.has(date.getDay());
+    if (schedule.anyDayOfMonth) return dayOfWeek;
+    if (schedule.anyDayOfWeek) return dayOfMonth;
+    return dayOfMonth || dayOfWeek;
+}
+
+/**
+ * The first time strictly after `after` that the schedule runs, or null if it never does.
+ */
+export function getNextRunTime(expression: string | CronSchedule, after: Date): Date | null {
+    const schedule = typeof expression === "string" ? parseCron(expression) : expression;
+
+    // Start at the next whole minute
+    const date = new Date(after);
+    date.setSeconds(0, 0);
+    date.setMinutes(date.getMinutes() + 1);
+
+    const limit = new Date(date);
+    limit.setDate(limit.getDate() + MAX_SEARCH_DAYS);
+
+    while (date < limit) {
+        if (!matchesDay(schedule, date)) {
+            date.setDate(date.getDate() + 1);
+            date.setHours(0, 0, 0, 0);
+            continue;
+        }
+        if (!schedule.hours.has(date.getHours())) {
+            date.setHours(date.getHours() + 1, 0, 0, 0);
+            continue;
+        }
+        if (!schedule.minutes.has(date.getMinutes())) {
+            date.setMinutes(date.getMinutes() + 1, 0, 0);
+            continue;
+        }
+        return date;
+    }
+
+    return null;
+}
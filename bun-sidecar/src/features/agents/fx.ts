@@ -149,8 +149,12 @@ async function createAgent(input: {
     name: string;
     description?: string;
     systemPrompt: string;
+    provider?: AgentConfig["provider"];
     model: AgentConfig["model"];
+    baseUrl?: string;
     mcpServers: string[];
+    permissionRules?: AgentConfig["permissionRules"];
+    reviewNoteEdits?: boolean;
 }): Promise<AgentConfig> {
     agentsLogger.info(`Creating agent: ${input.name}`);
 
@@ -163,9 +167,13 @@ async function createAgent(input: {
             name: input.name,
             description: input.description,
             systemPrompt: input.systemPrompt,
+            provider: input.provider ?? "claude",
             model: input.model,
+            baseUrl: input.baseUrl,
             mcpServers: input.mcpServers,
             allowedTools: [],
+            permissionRules: input.permissionRules ?? [],
+            reviewNoteEdits: input.reviewNoteEdits ?? false,
             createdAt: now,
             updatedAt: now,
         };
@@ -188,9 +196,13 @@ async function updateAgent(input: {
         name?: string;
         description?: string;
         systemPrompt?: string;
+        provider?: AgentConfig["provider"];
         model?: AgentConfig["model"];
+        baseUrl?: string;
         mcpServers?: string[];
         allowedTools?: string[];
+        permissionRules?: AgentConfig["permissionRules"];
+        reviewNoteEdits?: boolean;
     };
 }): Promise<AgentConfig | null> {
     agentsLogger.info(`Updating agent: ${input.agentId}`);
@@ -272,11 +284,46 @@ async function duplicateAgent(input: { agentId: string }): Promise<AgentConfig>
         name: `${source.name} (Copy)`,
         description: source.description,
         systemPrompt: source.systemPrompt,
+        provider: source.provider,
         model: source.model,
+        baseUrl: source.baseUrl,
         mcpServers: [...source.mcpServers],
+        permissionRules: source.permissionRules.map((rule) => ({ ...rule })),
+        reviewNoteEdits: source.reviewNoteEdits,
     });
 }
 
+// Save an agent from a bundle: over the agent with the same ID when replacing, otherwise as a new agent
+async function importAgent(input: { agent: AgentConfig; replace: boolean }): Promise<AgentConfig> {
+    agentsLogger.info(`Importing agent: ${input.agent.name}`, { replace: input.replace });
+
+    if (input.replace && input.agent.id === "default") {
+        throw new Error("Cannot replace the default agent");
+    }
+
+    try {
+        await ensureAgentsDir();
+
+        const now = new Date().toISOString();
+        const existing = input.replace ? await getAgent({ agentId: input.agent.id }) : null;
+        const agent: AgentConfig = {
+            ...input.agent,
+            id: input.replace ? input.agent.id : `agent-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`,
+            isDefault: undefined,
+            createdAt: existing?.createdAt ?? now,
+            updatedAt: now,
+        };
+
+        await Bun.write(getAgentFilePath(agent.id), JSON.stringify(agent, null, 2));
+
+        agentsLogger.info(`Imported agent: ${agent.id}`);
+        return agent;
+    } catch (error) {
+        agentsLogger.error("Failed to import agent", { error });
+        throw error;
+    }
+}
+
 // Get MCP registry (app-defined servers)
 function getMcpRegistry(): McpServerDefinition[] {
     return MCP_REGISTRY;
@@ -345,6 +392,7 @@ export {
     updateAgent,
     deleteAgent,
     duplicateAgent,
+    importAgent,
     getPreferences,
     savePreferences,
     getMcpRegistry,
@@ -31,15 +31,79 @@ export function getModelDisplayName(model: string): string {
     return model; // Return raw identifier for custom models
 }
 
+// Agent backends:
+// - claude: Claude Agent SDK via the local claude CLI (built-in file tools, skills)
+// - openai / google / openai-compatible: AI SDK tool-calling loop over the agent's MCP servers
+export const AGENT_PROVIDERS = ["claude", "openai", "google", "openai-compatible"] as const;
+
+export const AgentProviderSchema = z.enum(AGENT_PROVIDERS);
+
+export type AgentProvider = z.infer<typeof AgentProviderSchema>;
+
+export const PROVIDER_DISPLAY_NAMES: Record<AgentProvider, string> = {
+    claude: "Claude (Agent SDK)",
+    openai: "OpenAI",
+    google: "Google Gemini",
+    "openai-compatible": "OpenAI-compatible (Ollama, llama.cpp, ...)",
+};
+
+// Suggested models per provider; any model identifier can still be entered
+export const PROVIDER_MODELS: Record<AgentProvider, readonly string[]> = {
+    claude: PREDEFINED_MODELS,
+    openai: ["gpt-5", "gpt-5-mini", "gpt-4.1"],
+    google: ["gemini-2.5-pro", "gemini-2.5-flash"],
+    "openai-compatible": [],
+};
+
+// Secret holding the API key for each AI SDK provider
+export const PROVIDER_API_KEY_SECRETS: Record<Exclude<AgentProvider, "claude">, string> = {
+    openai: "OPENAI_API_KEY",
+    google: "GOOGLE_GENERATIVE_AI_API_KEY",
+    "openai-compatible": "OPENAI_COMPATIBLE_API_KEY",
+};
+
+// Tool permission rules
+// - allow: run without asking
+// - ask: always ask, even if the tool is in allowedTools
+// - deny: refuse without asking
+export const PERMISSION_OUTCOMES = ["allow", "ask", "deny"] as const;
+
+export const PermissionOutcomeSchema = z.enum(PERMISSION_OUTCOMES);
+
+export type PermissionOutcome = z.infer<typeof PermissionOutcomeSchema>;
+
+// Optional narrowing on the tool input
+export const PermissionConditionSchema = z.discriminatedUnion("type", [
+    z.object({ type: z.literal("path"), glob: z.string() }), // File tools: workspace-relative path glob
+    z.object({ type: z.literal("command"), prefix: z.string() }), // Bash: command prefix
+    z.object({ type: z.literal("mcp-server"), serverId: z.string() }), // Tools from one MCP server
+]);
+
+export type PermissionCondition = z.infer<typeof PermissionConditionSchema>;
+
+export const PermissionRuleSchema = z.object({
+    id: z.string(),
+    tool: z.string().default("*"), // Tool name, "*" wildcards allowed (e.g. "mcp__linear__*")
+    condition: PermissionConditionSchema.optional(),
+    outcome: PermissionOutcomeSchema,
+    expiresAt: z.string().optional(), // ISO timestamp after which the rule no longer applies
+});
+
+export type PermissionRule = z.infer<typeof PermissionRuleSchema>;
+
 // Agent configuration schema
 export const AgentConfigSchema = z.object({
     id: z.string(),
     name: z.string(),
     description: z.string().optional(),
     systemPrompt: z.string(),
+    provider: AgentProviderSchema.default("claude"),
     model: ModelSchema,
+    baseUrl: z.string().optional(), // API base URL override, required for openai-compatible servers
     mcpServers: z.array(z.string()).default([]), // Array of MCP server IDs from registry
     allowedTools: z.array(z.string()).default([]), // Tools that are always allowed (persisted permissions)
+    permissionRules: z.array(PermissionRuleSchema).default([]), // Checked before allowedTools
+    reviewNoteEdits: z.boolean().default(false), // Hold Write/Edit on notes as pending changes for the user to review
     isDefault: z.boolean().optional(),
     createdAt: z.string(),
     updatedAt: z.string(),
@@ -101,9 +165,12 @@ export const DEFAULT_AGENT: AgentConfig = {
     name: "General Assistant",
     description: "A general-purpose coding assistant",
     systemPrompt: "", // Empty = uses SDK's default Claude Code system prompt
+    provider: "claude",
     model: "claude-sonnet-4-5-20250929",
     mcpServers: [], // No MCP servers enabled by default
     allowedTools: [], // No tools pre-allowed
+    permissionRules: [],
+    reviewNoteEdits: false,
     isDefault: true,
     createdAt: "2025-01-01T00:00:00.000Z",
     updatedAt: "2025-01-01T00:00:00.000Z",
@@ -0,0 +1,146 @@
+import { useState } from "react";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from "@/components/ui/select";
+import { useTheme } from "@/hooks/useTheme";
+import {
+    AGENT_PROVIDERS,
+    PROVIDER_API_KEY_SECRETS,
+    PROVIDER_DISPLAY_NAMES,
+    PROVIDER_MODELS,
+    getModelDisplayName,
+} from "@/features/agents/index";
+import type { AgentProvider } from "@/features/agents/index";
+
+export interface AgentModelValue {
+    provider: AgentProvider;
+    model: string;
+    baseUrl: string;
+}
+
+interface AgentModelFieldsProps {
+    value: AgentModelValue;
+    onChange: (value: AgentModelValue) => void;
+}
+
+const MODEL_PLACEHOLDERS: Record<AgentProvider, string> = {
+    claude: "e.g., claude-opus-4-5-20251101",
+    openai: "e.g., gpt-5",
+    google: "e.g., gemini-2.5-pro",
+    "openai-compatible": "e.g., llama3.1 or qwen2.5-coder",
+};
+
+/**
+ * Provider, model and base URL inputs shared by the new-agent page and the edit dialog.
+ */
+export function AgentModelFields({ value, onChange }: AgentModelFieldsProps) {
+    const { currentTheme } = useTheme();
+    const suggestedModels = PROVIDER_MODELS[value.provider];
+    const [useCustomModel, setUseCustomModel] = useState(
+        suggestedModels.length === 0 || !suggestedModels.includes(value.model)
+    );
+    const showCustomModel = useCustomModel || suggestedModels.length === 0;
+
+    function handleProviderChange(provider: AgentProvider) {
+        const models = PROVIDER_MODELS[provider];
+        setUseCustomModel(models.length === 0);
+        onChange({ provider, model: models[0] ?? "", baseUrl: provider === "claude" ? "" : value.baseUrl });
+    }
+
+    return (
+        <>
+            <div className="space-y-2">
+                <Label>Provider</Label>
+                <Select value={value.provider} onValueChange={(provider) => handleProviderChange(provider as AgentProvider)}>
+                    <SelectTrigger>
+                        <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                        {AGENT_PROVIDERS.map((provider) => (
+                            <SelectItem key={provider} value={provider}>
+                                {PROVIDER_DISPLAY_NAMES[provider]}
+                            </SelectItem>
+                        ))}
+                    </SelectContent>
+                </Select>
+                {value.provider !== "claude" && (
+                    <p className="text-xs" style={{ color: currentTheme.styles.contentSecondary }}>
+                        Uses the agent's MCP servers as tools. The API key is read from the{" "}
+                        <code>{PROVIDER_API_KEY_SECRETS[value.provider]}</code> secret
+                        {value.provider === "openai-compatible" ? " if the server needs one" : ""}.
+                    </p>
+                )}
+            </div>
+
+            <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                    <Label htmlFor="model">Model</Label>
+                    {suggestedModels.length > 0 && (
+                        <button
+                            type="button"
+                            className="text-xs hover:underline"
+                            style={{ color: currentTheme.styles.contentAccent }}
+                            onClick={() => {
+                                if (!useCustomModel) {
+                                    // Switching to custom: keep current value
+                                    setUseCustomModel(true);
+                                } else {
+                                    // Switching to dropdown: reset to first suggested model
+                                    onChange({ ...value, model: suggestedModels[0]! });
+                                    setUseCustomModel(false);
+                                }
+                            }}
+                        >
+                            {useCustomModel ? "Use predefined" : "Enter custom"}
+                        </button>
+                    )}
+                </div>
+                {showCustomModel ? (
+                    <Input
+                        id="model"
+                        value={value.model}
+                        onChange={(e) => onChange({ ...value, model: e.target.value })}
+                        placeholder={MODEL_PLACEHOLDERS[value.provider]}
+                    />
+                ) : (
+                    <Select value={value.model} onValueChange={(model) => onChange({ ...value, model })}>
+                        <SelectTrigger>
+                            <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                            {suggestedModels.map((model) => (
+                                <SelectItem key={model} value={model}>
+                                    {getModelDisplayName(model)}
+                                </SelectItem>
+                            ))}
+                        </SelectContent>
+                    </Select>
+                )}
+            </div>
+
+            {value.provider !== "claude" && (
+                <div className="space-y-2">
+                    <Label htmlFor="baseUrl">
+                        Base URL{value.provider === "openai-compatible" ? "" : " (optional)"}
+                    </Label>
+                    <Input
+                        id="baseUrl"
+                        value={value.baseUrl}
+                        onChange={(e) => onChange({ ...value, baseUrl: e.target.value })}
+                        placeholder={
+                            value.provider === "openai-compatible"
+                                ? "e.g., http://localhost:11434/v1"
+                                : "Leave empty for the provider's default endpoint"
+                        }
+                    />
+                </div>
+            )}
+        </>
+    );
+}
@@ -0,0 +1,66 @@
+import { useEffect, useState } from "react";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { useTheme } from "@/hooks/useTheme";
+import { useAgentsAPI } from "@/hooks/useAgentsAPI";
+import type { PermissionAuditEntry, PermissionDecisionSource } from "@/features/agents/permission-audit";
+
+const SOURCE_LABELS: Record<PermissionDecisionSource, string> = {
+    rule: "Rule",
+    "allowed-tools": "Always allowed",
+    user: "You",
+    "scheduled-run": "Paused run",
+};
+
+/**
+ * The agent's most recent tool permission decisions and what decided them.
+ */
+export function PermissionAuditList({ agentId, limit = 20 }: { agentId: string; limit?: number }) {
+    const { currentTheme } = useTheme();
+    const api = useAgentsAPI();
+    const [entries, setEntries] = useState<PermissionAuditEntry[] | null>(null);
+
+    useEffect(() => {
+        api.getPermissionAudit({ agentId, limit })
+            .then(setEntries)
+            .catch((error) => {
+                console.error("Failed to load permission audit:", error);
+                setEntries([]);
+            });
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [agentId, limit]);
+
+    return (
+        <div className="space-y-2">
+            <Label>Recent Permission Decisions</Label>
+            {entries === null ? (
+                <p className="text-sm" style={{ color: currentTheme.styles.contentSecondary }}>
+                    Loading...
+                </p>
+            ) : entries.length === 0 ? (
+                <p className="text-sm" style={{ color: currentTheme.styles.contentTertiary }}>
+                    No tool calls have been decided yet.
+                </p>
+            ) : (
+                <div className="max-h-48 space-y-1 overflow-y-auto text-xs">
+                    {entries.map((entry) => (
+                        <div key={entry.id} className="flex items-center gap-2">
+                            <Badge variant={entry.decision === "allow" ? "success" : "destructive"} className="w-12 justify-center">
+                                {entry.decision}
+                            </Badge>
+                            <span className="font-mono" style={{ color: currentTheme.styles.contentPrimary }}>
+                                {entry.toolName}
+                            </span>
+                            <span className="truncate" style={{ color: currentTheme.styles.contentSecondary }}>
+                                {entry.rule ?? SOURCE_LABELS[entry.source]}
+                            </span>
+                            <span className="ml-auto shrink-0" style={{ color: currentTheme.styles.contentTertiary }}>
+                                {new Date(entry.timestamp).toLocaleString()}
+                            </span>
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,102 @@
+import { join } from "node:path";
+import { createServiceLogger } from "@/lib/logger";
+import { getNomendexPath, getRootPath } from "@/storage/root-path";
+import { appendJSONL, readJSONL } from "@/services/chat-sessions";
+import type { AgentConfig, PermissionRule } from "./index";
+import { describeRule, findMatchingRule } from "./permission-rules";
+import { truncateToolInput } from "./run-log";
+
+const auditLogger = createServiceLogger("PERMISSION-AUDIT");
+
+/**
+ * Who decided a tool call:
+ * - rule: one of the agent's permission rules
+ * - allowed-tools: the tool was in the agent's always-allowed list
+ * - user: the user answered the permission prompt
+ * - scheduled-run: a background run stopped because nobody could be asked
+ */
+export type PermissionDecisionSource = "rule" | "allowed-tools" | "user" | "scheduled-run";
+
+export interface PermissionAuditEntry {
+    id: string;
+    timestamp: string;
+    agentId: string;
+    sessionId?: string;
+    toolName: string;
+    input: Record<string, unknown>;
+    decision: "allow" | "deny";
+    source: PermissionDecisionSource;
+    ruleId?: string;
+    rule?: string; // describeRule() of the matching rule at decision time
+}
+
+// What the agent's rules and allowed tools say before anyone is asked
+export type ToolPolicyResult =
+    | { behavior: "allow" | "deny"; rule?: PermissionRule }
+    | { behavior: "ask"; rule?: PermissionRule };
+
+function getAuditFile(): string {
+    return join(getNomendexPath(), "permission-audit.jsonl");
+}
+
+async function recordPermissionDecision(params: {
+    agentId: string;
+    sessionId?: string;
+    toolName: string;
+    input: Record<string, unknown>;
+    decision: "allow" | "deny";
+    source: PermissionDecisionSource;
+    rule?: PermissionRule;
+}): Promise<void> {
+    const { rule, input, ...rest } = params;
+    const entry: PermissionAuditEntry = {
+        id: crypto.randomUUID(),
+        timestamp: new Date().toISOString(),
+        ...rest,
+        input: truncateToolInput(input),
+        ruleId: rule?.id,
+        rule: rule ? describeRule(rule) : undefined,
+    };
+
+    try {
+        await appendJSONL(getAuditFile(), entry);
+    } catch (error) {
+        // A failed audit write shouldn't block the agent
+        auditLogger.error("Failed to write permission audit entry", { error, toolName: params.toolName });
+    }
+}
+
+/**
+ * Decide a tool call from the agent's permission rules, then its always-allowed tools.
+ * Allow and deny outcomes are recorded here; "ask" is left to the caller, which records the answer.
+ */
+async function checkToolPolicy(params: {
+    agentConfig: AgentConfig;
+    allowedTools: string[];
+    sessionId?: string;
+    toolName: string;
+    input: Record<string, unknown>;
+}): Promise<ToolPolicyResult> {
+    const { agentConfig, allowedTools, sessionId, toolName, input } = params;
+    const rule = findMatchingRule(agentConfig.permissionRules, { toolName, input, rootPath: getRootPath() }) ?? undefined;
+
+    if (rule && rule.outcome !== "ask") {
+        await recordPermissionDecision({ agentId: agentConfig.id, sessionId, toolName, input, decision: rule.outcome, source: "rule", rule });
+        return { behavior: rule.outcome, rule };
+    }
+    if (!rule && allowedTools.includes(toolName)) {
+        await recordPermissionDecision({ agentId: agentConfig.id, sessionId, toolName, input, decision: "allow", source: "allowed-tools" });
+        return { behavior: "allow" };
+    }
+    return { behavior: "ask", rule };
+}
+
+// List audit entries, newest first
+async function listPermissionAudit(input: { agentId?: string; limit?: number } = {}): Promise<PermissionAuditEntry[]> {
+    const entries = await readJSONL<PermissionAuditEntry>(getAuditFile());
+    const filtered = input.agentId ? entries.filter((entry) => entry.agentId === input.agentId) : entries;
+    filtered.reverse();
+    return input.limit ? filtered.slice(0, input.limit) : filtered;
+}
+
+export { checkToolPolicy, recordPermissionDecision, listPermissionAudit };
@@ -0,0 +1,206 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from "@/components/ui/select";
+import { useTheme } from "@/hooks/useTheme";
+import { toLocalDateString } from "@/features/notes/date-utils";
+import { PERMISSION_OUTCOMES } from "@/features/agents/index";
+import type { PermissionCondition, PermissionOutcome, PermissionRule } from "@/features/agents/index";
+import { isRuleExpired } from "@/features/agents/permission-rules";
+import { Plus, Trash2 } from "lucide-react";
+
+type ConditionType = PermissionCondition["type"] | "none";
+
+interface PermissionRulesEditorProps {
+    rules: PermissionRule[];
+    onChange: (rules: PermissionRule[]) => void;
+    // MCP servers offered for "from MCP server" conditions
+    mcpServers: Array<{ id: string; name: string }>;
+}
+
+const OUTCOME_LABELS: Record<PermissionOutcome, string> = {
+    allow: "Allow",
+    ask: "Ask",
+    deny: "Deny",
+};
+
+const CONDITION_LABELS: Record<ConditionType, string> = {
+    none: "Any input",
+    path: "Path matches",
+    command: "Command starts with",
+    "mcp-server": "From MCP server",
+};
+
+function emptyCondition(type: ConditionType): PermissionCondition | undefined {
+    switch (type) {
+        case "path":
+            return { type, glob: "" };
+        case "command":
+            return { type, prefix: "" };
+        case "mcp-server":
+            return { type, serverId: "" };
+        case "none":
+            return undefined;
+    }
+}
+
+/**
+ * Editor for an agent's tool permission rules, used by the new-agent page and the edit dialog.
+ */
+export function PermissionRulesEditor({ rules, onChange, mcpServers }: PermissionRulesEditorProps) {
+    const { currentTheme } = useTheme();
+
+    function updateRule(id: string, updates: Partial<PermissionRule>) {
+        onChange(rules.map((rule) => (rule.id === id ? { ...rule, ...updates } : rule)));
+    }
+
+    function addRule() {
+        onChange([...rules, { id: crypto.randomUUID(), tool: "", outcome: "allow" }]);
+    }
+
+    return (
+        <div className="space-y-2">
+            <div className="flex items-center justify-between">
+                <Label>Permission Rules</Label>
+                <Button type="button" variant="outline" size="sm" onClick={addRule}>
+                    <Plus className="mr-1 h-3 w-3" />
+                    Add Rule
+                </Button>
+            </div>
+            <p className="text-xs" style={{ color: currentTheme.styles.contentSecondary }}>
+                Checked before every tool call. Deny wins over Ask, and Ask wins over Allow. Tools no rule matches
+                fall back to the agent's always-allowed tools, then ask.
+            </p>
+
+            {rules.length === 0 ? (
+                <p className="text-sm" style={{ color: currentTheme.styles.contentTertiary }}>
+                    No rules yet.
+                </p>
+            ) : (
+                <div className="space-y-2">
+                    {rules.map((rule) => {
+                        const condition = rule.condition;
+                        const conditionType: ConditionType = condition?.type ?? "none";
+                        return (
+                            <div
+                                key={rule.id}
+                                className="grid grid-cols-[7rem_1fr_auto] gap-2 rounded-md border p-2"
+                                style={{ borderColor: currentTheme.styles.borderDefault }}
+                            >
+                                <Select
+                                    value={rule.outcome}
+                                    onValueChange={(outcome) => updateRule(rule.id, { outcome: outcome as PermissionOutcome })}
+                                >
+                                    <SelectTrigger>
+                                        <SelectValue />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                        {PERMISSION_OUTCOMES.map((outcome) => (
+                                            <SelectItem key={outcome} value={outcome}>
+                                                {OUTCOME_LABELS[outcome]}
+                                            </SelectItem>
+                                        ))}
+                                    </SelectContent>
+                                </Select>
+                                <Input
+                                    value={rule.tool}
+                                    onChange={(e) => updateRule(rule.id, { tool: e.target.value })}
+                                    placeholder="Tool, e.g. Write, Bash, mcp__linear__* (empty = any)"
+                                    className="font-mono text-sm"
+                                />
+                                <Button
+                                    type="button"
+                                    variant="ghost"
+                                    size="icon"
+                                    onClick={() => onChange(rules.filter((r) => r.id !== rule.id))}
+                                    title="Remove rule"
+                                >
+                                    <Trash2 className="h-4 w-4" />
+                                </Button>
+
+                                <Select
+                                    value={conditionType}
+                                    onValueChange={(type) => updateRule(rule.id, { condition: emptyCondition(type as ConditionType) })}
+                                >
+                                    <SelectTrigger>
+                                        <SelectValue />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                        {(Object.keys(CONDITION_LABELS) as ConditionType[]).map((type) => (
+                                            <SelectItem key={type} value={type}>
+                                                {CONDITION_LABELS[type]}
+                                            </SelectItem>
+                                        ))}
+                                    </SelectContent>
+                                </Select>
+                                <div>
+                                    {condition?.type === "path" && (
+                                        <Input
+                                            value={condition.glob}
+                                            onChange={(e) => updateRule(rule.id, { condition: { ...condition, glob: e.target.value } })}
+                                            placeholder="Glob relative to the workspace, e.g. notes/**/*.md"
+                                            className="font-mono text-sm"
+                                        />
+                                    )}
+                                    {condition?.type === "command" && (
+                                        <Input
+                                            value={condition.prefix}
+                                            onChange={(e) => updateRule(rule.id, { condition: { ...condition, prefix: e.target.value } })}
+                                            placeholder="e.g. git status"
+                                            className="font-mono text-sm"
+                                        />
+                                    )}
+                                    {condition?.type === "mcp-server" && (
+                                        <Select
+                                            value={condition.serverId}
+                                            onValueChange={(serverId) => updateRule(rule.id, { condition: { ...condition, serverId } })}
+                                        >
+                                            <SelectTrigger>
+                                                <SelectValue placeholder="Select a server" />
+                                            </SelectTrigger>
+                                            <SelectContent>
+                                                {mcpServers.map((server) => (
+                                                    <SelectItem key={server.id} value={server.id}>
+                                                        {server.name}
+                                                    </SelectItem>
+                                                ))}
+                                            </SelectContent>
+                                        </Select>
+                                    )}
+                                </div>
+                                <div />
+
+                                <div className="col-span-2 flex items-center gap-2">
+                                    <span className="text-xs" style={{ color: currentTheme.styles.contentSecondary }}>
+                                        Expires
+                                    </span>
+                                    <Input
+                                        type="date"
+                                        className="h-8 w-40"
+                                        value={rule.expiresAt ? toLocalDateString(new Date(rule.expiresAt)) : ""}
+                                        onChange={(e) =>
+                                            updateRule(rule.id, {
+                                                // End of the chosen day, local time
+                                                expiresAt: e.target.value
+                                                    ? new Date(`${e.target.value}T23:59:59`).toISOString()
+                                                    : undefined,
+                                            })
+                                        }
+                                    />
+                                    {isRuleExpired(rule) && <Badge variant="outline">Expired</Badge>}
+                                </div>
+                            </div>
+                        );
+                    })}
+                </div>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,67 @@
+import { describe, test, expect } from "bun:test";
+import { describeRule, findMatchingRule } from "./permission-rules";
+import type { PermissionRule } from "./index";
+
+const rootPath = "/workspace";
+
+function rule(fields: Partial<PermissionRule> & Pick<PermissionRule, "outcome">): PermissionRule {
+    return { id: crypto.randomUUID(), tool: "*", ...fields };
+}
+
+describe("findMatchingRule", () => {
+    test("matches path globs relative to the workspace", () => {
+        const rules = [rule({ tool: "Write", condition: { type: "path", glob: "notes/**/*.md" }, outcome: "allow" })];
+
+        expect(findMatchingRule(rules, { toolName: "Write", input: { file_path: "/workspace/notes/a/b.md" }, rootPath })).toBe(rules[0]!);
+        expect(findMatchingRule(rules, { toolName: "Write", input: { file_path: "/workspace/todos/a.md" }, rootPath })).toBeNull();
+        expect(findMatchingRule(rules, { toolName: "Edit", input: { file_path: "/workspace/notes/a.md" }, rootPath })).toBeNull();
+    });
+
+    test("resolves .. before matching and never allows paths outside the workspace", () => {
+        const notes = rule({ tool: "*", condition: { type: "path", glob: "notes/**" }, outcome: "allow" });
+        const markdown = rule({ tool: "*", condition: { type: "path", glob: "**/*.md" }, outcome: "allow" });
+        const outside = rule({ tool: "*", condition: { type: "path", glob: "/tmp/**" }, outcome: "allow" });
+        const match = (file_path: string) => findMatchingRule([notes, markdown, outside], { toolName: "Write", input: { file_path }, rootPath });
+
+        expect(match("notes/../.nomendex/secrets.json")).toBeNull();
+        expect(match("/workspace/notes/../../etc/passwd.md")).toBeNull();
+        expect(match("../other/readme.md")).toBeNull();
+        expect(match("./notes/a.txt")).toBe(notes);
+        expect(match("/tmp/scratch.txt")).toBe(outside);
+    });
+
+    test("matches command prefixes but never auto-allows chained commands", () => {
+        const allow = rule({ tool: "Bash", condition: { type: "command", prefix: "git status" }, outcome: "allow" });
+        const deny = rule({ tool: "Bash", condition: { type: "command", prefix: "rm " }, outcome: "deny" });
+
+        expect(findMatchingRule([allow], { toolName: "Bash", input: { command: "git status -s" }, rootPath })).toBe(allow);
+        expect(findMatchingRule([allow], { toolName: "Bash", input: { command: "git status && rm -rf ." }, rootPath })).toBeNull();
+        expect(findMatchingRule([deny], { toolName: "Bash", input: { command: "rm -rf . | tee log" }, rootPath })).toBe(deny);
+    });
+
+    test("matches MCP servers and tool wildcards", () => {
+        const server = rule({ condition: { type: "mcp-server", serverId: "linear" }, outcome: "allow" });
+        const wildcard = rule({ tool: "mcp__github__*", outcome: "ask" });
+
+        expect(findMatchingRule([server, wildcard], { toolName: "mcp__linear__create_issue", input: {}, rootPath })).toBe(server);
+        expect(findMatchingRule([server, wildcard], { toolName: "mcp__github__list_prs", input: {}, rootPath })).toBe(wildcard);
+        expect(findMatchingRule([server, wildcard], { toolName: "Read", input: {}, rootPath })).toBeNull();
+    });
+
+    test("prefers deny over ask over allow and skips expired rules", () => {
+        const allow = rule({ tool: "Write", outcome: "allow" });
+        const ask = rule({ tool: "Write", condition: { type: "path", glob: "**/*.md" }, outcome: "ask" });
+        const expiredDeny = rule({ tool: "*", outcome: "deny", expiresAt: "2025-01-01T00:00:00.000Z" });
+        const params = { toolName: "Write", input: { file_path: "a.md" }, rootPath, now: new Date("2025-06-01T00:00:00.000Z") };
+
+        expect(findMatchingRule([allow, ask, expiredDeny], params)).toBe(ask);
+        expect(findMatchingRule([allow, ask, expiredDeny], { ...params, now: new Date("2024-12-31T00:00:00.000Z") })).toBe(expiredDeny);
+    });
+});
+
+describe("describeRule", () => {
+    test("summarizes the tool, condition and outcome", () => {
+        expect(describeRule(rule({ tool: "Bash", condition: { type: "command", prefix: "git " }, outcome: "allow" }))).toBe("Bash `git ` → allow");
+        expect(describeRule(rule({ outcome: "deny" }))).toBe("Any tool → deny");
+    });
+});
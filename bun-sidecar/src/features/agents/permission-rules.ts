@@ -0,0 +1,113 @@
+/**
+ * Tool Permission Rules
+ *
+ * Rules match a tool name (with * wildcards) and optionally one condition on the tool input:
+ * a path glob for file tools, a command prefix for Bash, or the MCP server the tool comes from.
+ * When several rules match, deny wins over ask, and ask wins over allow. Expired rules are skipped.
+ */
+
+import { isAbsolute, relative, resolve } from "node:path";
+import type { PermissionOutcome, PermissionRule } from "./index";
+
+// Input fields that carry the target path for the built-in file tools
+const PATH_INPUT_KEYS = ["file_path", "filePath", "notebook_path", "path"] as const;
+
+// Chaining, pipes, substitution and redirects could run more than the prefix suggests
+const SHELL_CONTROL_PATTERN = /[;&|`<>\n]|\$\(/;
+
+const OUTCOME_PRIORITY: Record<PermissionOutcome, number> = { deny: 3, ask: 2, allow: 1 };
+
+function wildcardToRegExp(pattern: string): RegExp {
+    const escaped = pattern.replace(/[.+?^${}()|[\]\\]/g, "\\$&").replace(/\*/g, ".*");
+    return new RegExp(`^${escaped}$`);
+}
+
+function getInputPath(input: Record<string, unknown>): string | null {
+    for (const key of PATH_INPUT_KEYS) {
+        const value = input[key];
+        if (typeof value === "string" && value) return value;
+    }
+    return null;
+}
+
+// Paths inside the workspace are matched relative to it; anything else, ".." included, by its absolute path
+function toRulePath(filePath: string, rootPath: string): string {
+    const absolutePath = resolve(rootPath, filePath);
+    const relativePath = relative(rootPath, absolutePath);
+    if (!relativePath || relativePath.startsWith("..") || isAbsolute(relativePath)) {
+        return absolutePath;
+    }
+    return relativePath;
+}
+
+export function isRuleExpired(rule: PermissionRule, now: Date = new Date()): boolean {
+    return !!rule.expiresAt && new Date(rule.expiresAt).getTime() <= now.getTime();
+}
+
+export function ruleMatches(
+    rule: PermissionRule,
+    params: { toolName: string; input: Record<string, unknown>; rootPath: string }
+): boolean {
+    const { toolName, input, rootPath } = params;
+    if (!wildcardToRegExp(rule.tool || "*").test(toolName)) {
+        return false;
+    }
+
+    const condition = rule.condition;
+    if (!condition) {
+        return true;
+    }
+
+    switch (condition.type) {
+        case "path": {
+            const filePath = getInputPath(input);
+            if (!filePath) {
+                return false;
+            }
+            const rulePath = toRulePath(filePath, rootPath);
+            // A workspace glob like "**/*.md" never allows a path outside the workspace
+            if (rule.outcome === "allow" && isAbsolute(rulePath) && !isAbsolute(condition.glob)) {
+                return false;
+            }
+            return new Bun.Glob(condition.glob).match(rulePath);
+        }
+        case "command": {
+            const command = typeof input.command === "string" ? input.command.trim() : null;
+            if (!command || !command.startsWith(condition.prefix)) {
+                return false;
+            }
+            // Never auto-allow a chained command just because it starts with an allowed one
+            return rule.outcome !== "allow" || !SHELL_CONTROL_PATTERN.test(command);
+        }
+        case "mcp-server":
+            return toolName.startsWith(`mcp__${condition.serverId}__`);
+    }
+}
+
+/**
+ * Find the rule that decides a tool call, or null when no active rule matches.
+ */
+export function findMatchingRule(
+    rules: PermissionRule[],
+    params: { toolName: string; input: Record<string, unknown>; rootPath: string; now?: Date }
+): PermissionRule | null {
+    let match: PermissionRule | null = null;
+    for (const rule of rules) {
+        if (isRuleExpired(rule, params.now) || !ruleMatches(rule, params)) continue;
+        if (!match || OUTCOME_PRIORITY[rule.outcome] > OUTCOME_PRIORITY[match.outcome]) {
+            match = rule;
+        }
+    }
+    return match;
+}
+
+// Short label for the rule editor and the audit log, e.g. "Bash `git status` → allow"
+export function describeRule(rule: PermissionRule): string {
+    const tool = rule.tool || "*";
+    const condition = rule.condition;
+    let target = tool === "*" ? "Any tool" : tool;
+    if (condition?.type === "path") target += ` in ${condition.glob}`;
+    if (condition?.type === "command") target += ` \`${condition.prefix}\``;
+    if (condition?.type === "mcp-server") target += ` from ${condition.serverId}`;
+    return `${target} → ${rule.outcome}`;
+}
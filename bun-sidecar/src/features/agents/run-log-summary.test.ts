@@ -0,0 +1,84 @@
+import { describe, test, expect } from "bun:test";
+import { summarizeSession, toCsv, totalUsage } from "./run-log-summary";
+import type { RunLogEvent } from "./run-log";
+
+const base = { sessionId: "s1", agentId: "agent-1", queryId: "q1" };
+
+function at(timestamp: string, event: Record<string, unknown>): RunLogEvent {
+    return { ...base, timestamp, ...event } as RunLogEvent;
+}
+
+const events: RunLogEvent[] = [
+    at("2025-03-04T10:00:00.000Z", { type: "query_start", model: "claude-sonnet-4-5-20250929", provider: "claude", trigger: "chat" }),
+    at("2025-03-04T10:00:01.000Z", { type: "tool_call", toolUseId: "t1", toolName: "Read", input: {}, filePath: "/w/a.md" }),
+    at("2025-03-04T10:00:02.000Z", { type: "tool_result", toolUseId: "t1", isError: false }),
+    at("2025-03-04T10:00:03.000Z", { type: "permission", toolName: "Write", decision: "allow" }),
+    at("2025-03-04T10:00:03.500Z", { type: "file_lock", noteFileName: "a.md" }),
+    at("2025-03-04T10:00:04.000Z", { type: "tool_call", toolUseId: "t2", toolName: "Write", input: {}, filePath: "/w/a.md" }),
+    at("2025-03-04T10:00:05.000Z", { type: "tool_result", toolUseId: "t2", isError: true }),
+    at("2025-03-04T10:00:06.000Z", {
+        type: "usage",
+        inputTokens: 1200,
+        outputTokens: 300,
+        cacheReadTokens: 50,
+        cacheCreationTokens: 10,
+        costUsd: 0.0125,
+        durationMs: 6000,
+        numTurns: 3,
+        isError: false,
+    }),
+];
+
+describe("summarizeSession", () => {
+    test("counts tools, permissions, files and usage", () => {
+        const summary = summarizeSession(events)!;
+
+        expect(summary).toMatchObject({
+            sessionId: "s1",
+            agentId: "agent-1",
+            model: "claude-sonnet-4-5-20250929",
+            queries: 1,
+            toolCalls: 2,
+            toolErrors: 1,
+            permissionsAllowed: 1,
+            permissionsDenied: 0,
+            fileLocks: 1,
+            files: ["/w/a.md"],
+            tools: { Read: 1, Write: 1 },
+            inputTokens: 1200,
+            outputTokens: 300,
+            costUsd: 0.0125,
+            startedAt: "2025-03-04T10:00:00.000Z",
+            lastActivityAt: "2025-03-04T10:00:06.000Z",
+        });
+    });
+
+    test("returns null for an empty log", () => {
+        expect(summarizeSession([])).toBeNull();
+    });
+});
+
+describe("totalUsage", () => {
+    test("totals sessions per agent", () => {
+        const first = summarizeSession(events)!;
+        const second = { ...first, sessionId: "s2", costUsd: 1 };
+        const other = { ...first, sessionId: "s3", agentId: "agent-2", costUsd: 2 };
+
+        const totals = totalUsage([first, second, other], "agent");
+        expect(totals.map((total) => [total.key, total.sessions])).toEqual([
+            ["agent-2", 1],
+            ["agent-1", 2],
+        ]);
+        expect(totals[1]!.inputTokens).toBe(2400);
+    });
+});
+
+describe("toCsv", () => {
+    test("quotes values that need it and joins lists", () => {
+        const csv = toCsv([
+            { name: "plain", files: ["a.md", "b.md"], note: 'says "hi", twice' },
+            { name: "second", files: [], note: undefined },
+        ]);
+        expect(csv).toBe('name,files,note\nplain,a.md; b.md,"says ""hi"", twice"\nsecond,,\n');
+    });
+});
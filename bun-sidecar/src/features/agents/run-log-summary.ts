@@ -0,0 +1,173 @@
+/**
+ * Run Log Summaries
+ *
+ * Rolls run log events up into per-session usage, then totals sessions per agent or per day
+ * for the activity view and the CSV/JSON exports.
+ */
+
+import { toLocalDateString } from "@/features/notes/date-utils";
+import type { RunLogEvent } from "./run-log";
+
+export interface SessionUsageSummary {
+    sessionId: string;
+    agentId: string;
+    model?: string;
+    provider?: string;
+    startedAt: string;
+    lastActivityAt: string;
+    queries: number;
+    toolCalls: number;
+    toolErrors: number;
+    permissionsAllowed: number;
+    permissionsDenied: number;
+    fileLocks: number;
+    files: string[]; // Paths passed to tools, in first-use order
+    tools: Record<string, number>; // Calls per tool name
+    inputTokens: number;
+    outputTokens: number;
+    cacheReadTokens: number;
+    cacheCreationTokens: number;
+    costUsd: number;
+    errors: number;
+}
+
+// A session summary with its chat title and agent name, as shown in the activity view
+export type SessionActivity = SessionUsageSummary & { title?: string; agentName?: string };
+
+export interface UsageTotals {
+    key: string; // Agent ID or YYYY-MM-DD
+    sessions: number;
+    queries: number;
+    toolCalls: number;
+    inputTokens: number;
+    outputTokens: number;
+    cacheReadTokens: number;
+    cacheCreationTokens: number;
+    costUsd: number;
+}
+
+export function summarizeSession(events: RunLogEvent[]): SessionUsageSummary | null {
+    const first = events[0];
+    if (!first) {
+        return null;
+    }
+
+    const summary: SessionUsageSummary = {
+        sessionId: first.sessionId,
+        agentId: first.agentId,
+        startedAt: first.timestamp,
+        lastActivityAt: first.timestamp,
+        queries: 0,
+        toolCalls: 0,
+        toolErrors: 0,
+        permissionsAllowed: 0,
+        permissionsDenied: 0,
+        fileLocks: 0,
+        files: [],
+        tools: {},
+        inputTokens: 0,
+        outputTokens: 0,
+        cacheReadTokens: 0,
+        cacheCreationTokens: 0,
+        costUsd: 0,
+        errors: 0,
+    };
+
+    for (const event of events) {
+        if (event.timestamp > summary.lastActivityAt) summary.lastActivityAt = event.timestamp;
+        if (event.timestamp < summary.startedAt) summary.startedAt = event.timestamp;
+
+        switch (event.type) {
+            case "query_start":
+                summary.queries++;
+                summary.agentId = event.agentId;
+                summary.model = event.model;
+                summary.provider = event.provider;
+                break;
+            case "tool_call":
+                summary.toolCalls++;
+                summary.tools[event.toolName] = (summary.tools[event.toolName] ?? 0) + 1;
+                if (event.filePath && !summary.files.includes(event.filePath)) {
+                    summary.files.push(event.filePath);
+                }
+                break;
+            case "tool_result":
+                if (event.isError) summary.toolErrors++;
+                break;
+            case "permission":
+                if (event.decision === "allow") summary.permissionsAllowed++;
+                else summary.permissionsDenied++;
+                break;
+            case "file_lock":
+                summary.fileLocks++;
+                break;
+            case "usage":
+                summary.inputTokens += event.inputTokens;
+                summary.outputTokens += event.outputTokens;
+                summary.cacheReadTokens += event.cacheReadTokens;
+                summary.cacheCreationTokens += event.cacheCreationTokens;
+                summary.costUsd += event.costUsd ?? 0;
+                break;
+            case "error":
+                summary.errors++;
+                break;
+        }
+    }
+
+    return summary;
+}
+
+/**
+ * Total session summaries per agent, or per local day the session started. Largest cost first for
+ * agents, newest first for days.
+ */
+export function totalUsage(summaries: SessionUsageSummary[], by: "agent" | "day"): UsageTotals[] {
+    const totals = new Map<string, UsageTotals>();
+
+    for (const summary of summaries) {
+        const key = by === "agent" ? summary.agentId : toLocalDateString(new Date(summary.startedAt));
+        const total = totals.get(key) ?? {
+            key,
+            sessions: 0,
+            queries: 0,
+            toolCalls: 0,
+            inputTokens: 0,
+            outputTokens: 0,
+            cacheReadTokens: 0,
+            cacheCreationTokens: 0,
+            costUsd: 0,
+        };
+        total.sessions++;
+        total.queries += summary.queries;
+        total.toolCalls += summary.toolCalls;
+        total.inputTokens += summary.inputTokens;
+        total.outputTokens += summary.outputTokens;
+        total.cacheReadTokens += summary.cacheReadTokens;
+        total.cacheCreationTokens += summary.cacheCreationTokens;
+        total.costUsd += summary.costUsd;
+        totals.set(key, total);
+    }
+
+    const list = [...totals.values()];
+    return by === "agent" ? list.sort((a, b) => b.costUsd - a.costUsd) : list.sort((a, b) => b.key.localeCompare(a.key));
+}
+
+function escapeCsvValue(value: unknown): string {
+    if (value === undefined || value === null) return "";
+    const text = Array.isArray(value) ? value.join("; ") : typeof value === "object" ? JSON.stringify(value) : String(value);
+    return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// CSV with a header row of every key used by any row
+export function toCsv(rows: object[]): string {
+    if (rows.length === 0) {
+        return "";
+    }
+    const columns = [...new Set(rows.flatMap((row) => Object.keys(row)))];
+    const lines = [columns.join(",")];
+    for (const row of rows) {
+        const record = row as Record<string, unknown>;
+        lines.push(columns.map((column) => escapeCsvValue(record[column])).join(","));
+    }
+    return lines.join("\n") + "\n";
+}
@@ -0,0 +1,234 @@
+import { existsSync } from "node:fs";
+import { readdir } from "node:fs/promises";
+import { join } from "node:path";
+import { createServiceLogger } from "@/lib/logger";
+import { getNomendexPath } from "@/storage/root-path";
+import { appendJSONL, readJSONL } from "@/services/chat-sessions";
+
+const runLogger = createServiceLogger("RUN-LOG");
+
+// Long inputs (file contents, big commands) are cut down before they are logged
+const MAX_INPUT_VALUE_LENGTH = 500;
+
+// Input fields that carry the target path for file tools
+const PATH_INPUT_KEYS = ["file_path", "filePath", "notebook_path", "path"] as const;
+
+type RunLogEventBase = {
+    timestamp: string;
+    sessionId: string;
+    agentId: string;
+    queryId: string; // One chat turn or scheduled run
+};
+
+/**
+ * What happened during an agent query, one line per event in .nomendex/run-logs/<sessionId>.jsonl
+ */
+export type RunLogEvent = RunLogEventBase &
+    (
+        | { type: "query_start"; model: string; provider: string; trigger: "chat" | "schedule" }
+        | { type: "tool_call"; toolUseId: string; toolName: string; input: Record<string, unknown>; filePath?: string }
+        | { type: "tool_result"; toolUseId: string; isError: boolean }
+        | { type: "permission"; toolName: string; decision: "allow" | "deny" }
+        | { type: "file_lock" | "file_unlock"; noteFileName: string }
+        | {
+              type: "usage";
+              inputTokens: number;
+              outputTokens: number;
+              cacheReadTokens: number;
+              cacheCreationTokens: number;
+              costUsd?: number; // Reported by the Claude Agent SDK; unknown for AI SDK providers
+              durationMs: number;
+              numTurns: number;
+              isError: boolean;
+          }
+        | { type: "error"; message: string }
+    );
+
+// Distributes over the union so each event keeps its own fields
+type RunLogEventInput = RunLogEvent extends infer Event
+    ? Event extends RunLogEvent
+        ? Omit<Event, keyof RunLogEventBase>
+        : never
+    : never;
+
+// The parts of SDK and provider messages the run log reads
+type LoggableMessage = {
+    type: string;
+    message?: unknown;
+    usage?: unknown;
+    total_cost_usd?: number;
+    duration_ms?: number;
+    num_turns?: number;
+    is_error?: boolean;
+};
+
+type ContentBlock = { type: string; id?: string; name?: string; input?: unknown; tool_use_id?: string; is_error?: boolean };
+
+type Usage = {
+    input_tokens?: number;
+    output_tokens?: number;
+    cache_read_input_tokens?: number;
+    cache_creation_input_tokens?: number;
+};
+
+export interface RunLog {
+    setSessionId: (sessionId: string) => void;
+    record: (event: RunLogEventInput) => void;
+    recordMessage: (message: LoggableMessage) => void;
+    flush: () => Promise<void>;
+}
+
+export function getRunLogsDir(): string {
+    return join(getNomendexPath(), "run-logs");
+}
+
+function getRunLogFile(sessionId: string): string {
+    return join(getRunLogsDir(), `${sessionId}.jsonl`);
+}
+
+export function truncateToolInput(input: Record<string, unknown>): Record<string, unknown> {
+    const truncated: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(input)) {
+        const text = typeof value === "string" ? value : JSON.stringify(value);
+        truncated[key] =
+            text && text.length > MAX_INPUT_VALUE_LENGTH ? `${text.slice(0, MAX_INPUT_VALUE_LENGTH)}… (${text.length} chars)` : value;
+    }
+    return truncated;
+}
+
+function getInputPath(input: Record<string, unknown>): string | undefined {
+    for (const key of PATH_INPUT_KEYS) {
+        const value = input[key];
+        if (typeof value === "string" && value) return value;
+    }
+    return undefined;
+}
+
+function getContentBlocks(message: unknown): ContentBlock[] {
+    const content = (message as { content?: unknown } | undefined)?.content;
+    return Array.isArray(content) ? (content as ContentBlock[]) : [];
+}
+
+/**
+ * Start logging one query. New sessions only learn their ID from the init message,
+ * so events are held back until setSessionId() is called.
+ */
+export function createRunLog(params: {
+    agentId: string;
+    model: string;
+    provider: string;
+    trigger: "chat" | "schedule";
+    sessionId?: string;
+}): RunLog {
+    const queryId = crypto.randomUUID();
+    let sessionId = params.sessionId;
+    let pending: RunLogEvent[] = [];
+    // Appends run one after another so the file stays in event order
+    let writes: Promise<void> = Promise.resolve();
+
+    const write = (events: RunLogEvent[]) => {
+        if (!sessionId || events.length === 0) return;
+        const file = getRunLogFile(sessionId);
+        writes = writes
+            .then(async () => {
+                for (const event of events) {
+                    await appendJSONL(file, event);
+                }
+            })
+            .catch((error) => {
+                runLogger.error("Failed to write run log", { error, sessionId });
+            });
+    };
+
+    const record = (event: RunLogEventInput) => {
+        const full = {
+            ...event,
+            timestamp: new Date().toISOString(),
+            sessionId: sessionId ?? "",
+            agentId: params.agentId,
+            queryId,
+        } as RunLogEvent;
+        if (sessionId) {
+            write([full]);
+        } else {
+            pending.push(full);
+        }
+    };
+
+    record({ type: "query_start", model: params.model, provider: params.provider, trigger: params.trigger });
+
+    return {
+        setSessionId(id) {
+            if (sessionId === id) return;
+            sessionId = id;
+            const held = pending.map((event) => ({ ...event, sessionId: id }));
+            pending = [];
+            write(held);
+        },
+
+        record,
+
+        recordMessage(message) {
+            if (message.type === "assistant") {
+                for (const block of getContentBlocks(message.message)) {
+                    if (block.type !== "tool_use" || !block.id || !block.name) continue;
+                    const input = (block.input ?? {}) as Record<string, unknown>;
+                    record({
+                        type: "tool_call",
+                        toolUseId: block.id,
+                        toolName: block.name,
+                        input: truncateToolInput(input),
+                        filePath: getInputPath(input),
+                    });
+                }
+            } else if (message.type === "user") {
+                for (const block of getContentBlocks(message.message)) {
+                    if (block.type !== "tool_result" || !block.tool_use_id) continue;
+                    record({ type: "tool_result", toolUseId: block.tool_use_id, isError: !!block.is_error });
+                }
+            } else if (message.type === "result") {
+                const usage = (message.usage ?? {}) as Usage;
+                record({
+                    type: "usage",
+                    inputTokens: usage.input_tokens ?? 0,
+                    outputTokens: usage.output_tokens ?? 0,
+                    cacheReadTokens: usage.cache_read_input_tokens ?? 0,
+                    cacheCreationTokens: usage.cache_creation_input_tokens ?? 0,
+                    costUsd: message.total_cost_usd,
+                    durationMs: message.duration_ms ?? 0,
+                    numTurns: message.num_turns ?? 0,
+                    isError: !!message.is_error,
+                });
+            }
+        },
+
+        flush() {
+            return writes;
+        },
+    };
+}
+
+async function readRunLog(sessionId: string): Promise<RunLogEvent[]> {
+    return readJSONL<RunLogEvent>(getRunLogFile(sessionId));
+}
+
+// Every logged event, grouped by session
+async function readAllRunLogs(): Promise<Map<string, RunLogEvent[]>> {
+    const logs = new Map<string, RunLogEvent[]>();
+    const dir = getRunLogsDir();
+    if (!existsSync(dir)) {
+        return logs;
+    }
+
+    for (const fileName of await readdir(dir)) {
+        if (!fileName.endsWith(".jsonl")) continue;
+        try {
+            logs.set(fileName.slice(0, -".jsonl".length), await readJSONL<RunLogEvent>(join(dir, fileName)));
+        } catch (error) {
+            runLogger.error(`Failed to read run log ${fileName}`, { error });
+        }
+    }
+    return logs;
+}
+
+export { readRunLog, readAllRunLogs };
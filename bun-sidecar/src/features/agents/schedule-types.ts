@@ -0,0 +1,54 @@
+import { z } from "zod";
+
+/**
+ * A prompt that an agent runs in the background on a cron schedule
+ */
+export const AgentScheduleSchema = z.object({
+    id: z.string(),
+    name: z.string(),
+    agentId: z.string(),
+    prompt: z.string(),
+    cron: z.string(), // "minute hour day-of-month month day-of-week", local time
+    enabled: z.boolean().default(true),
+    lastRunAt: z.string().optional(), // When the schedule last started a run
+    createdAt: z.string(),
+    updatedAt: z.string(),
+});
+
+export type AgentSchedule = z.infer<typeof AgentScheduleSchema>;
+
+/**
+ * - running: the agent is working
+ * - paused: the agent needed a tool it isn't allowed to use and is waiting in the run inbox
+ * - completed / failed: finished, with the result text or error
+ * - dismissed: a paused run that was not resumed
+ */
+export const AgentRunStatusSchema = z.enum(["running", "paused", "completed", "failed", "dismissed"]);
+
+export type AgentRunStatus = z.infer<typeof AgentRunStatusSchema>;
+
+export const AgentRunSchema = z.object({
+    id: z.string(),
+    scheduleId: z.string(),
+    scheduleName: z.string(),
+    agentId: z.string(),
+    status: AgentRunStatusSchema,
+    trigger: z.enum(["schedule", "manual"]),
+    sessionId: z.string().optional(), // Chat session, once the agent has started
+    startedAt: z.string(),
+    finishedAt: z.string().optional(),
+    result: z.string().optional(),
+    error: z.string().optional(),
+    // The tool call that paused the run
+    pendingPermission: z
+        .object({
+            toolName: z.string(),
+            input: z.record(z.string(), z.unknown()),
+        })
+        .optional(),
+});
+
+export type AgentRun = z.infer<typeof AgentRunSchema>;
+
+// How to continue a paused run
+export type RunPermissionDecision = "allow-once" | "always-allow" | "deny";
@@ -0,0 +1,356 @@
+import { query, type McpServerConfig } from "@anthropic-ai/claude-agent-sdk";
+import { join } from "node:path";
+import { createServiceLogger } from "@/lib/logger";
+import { getNomendexPath, getRootPath } from "@/storage/root-path";
+import { buildAgentContext, buildMcpServersFromConfig, getClaudeCliPath } from "@/services/agent-options";
+import { type SessionMetadata, appendJSONL, getSessionsFile, readJSONL, updateJSONL } from "@/services/chat-sessions";
+import { runProviderQuery } from "@/services/provider-agent";
+import { takeAutomaticSnapshot } from "@/services/snapshots";
+import { WORKSPACE_SERVER_NAME, createWorkspaceServer, createWorkspaceTools } from "@/mcp-servers/workspace";
+import { buildFileToolHooks } from "@/services/agent-hooks";
+import { addAllowedTool, getAgent, getAgentAllowedTools } from "./fx";
+import { checkToolPolicy, recordPermissionDecision } from "./permission-audit";
+import { type RunLog, createRunLog } from "./run-log";
+import type { AgentRun, AgentSchedule, RunPermissionDecision } from "./schedule-types";
+
+// Create logger for scheduled runs
+const runsLogger = createServiceLogger("AGENT-RUNS");
+
+// Abort controllers for runs that are currently executing
+const activeRuns = new Map<string, AbortController>();
+
+// Run records are rewritten in place, so serialize writes to the file
+let runsFileQueue: Promise<unknown> = Promise.resolve();
+
+function getRunsFile(): string {
+    return join(getNomendexPath(), "agent-runs.jsonl");
+}
+
+function withRunsFile<T>(task: () => Promise<T>): Promise<T> {
+    const result = runsFileQueue.then(task);
+    runsFileQueue = result.catch(() => undefined);
+    return result;
+}
+
+function updateRun(runId: string, updates: Partial<AgentRun>): Promise<void> {
+    return withRunsFile(() => updateJSONL<AgentRun>(getRunsFile(), runId, (run) => ({ ...run, ...updates })));
+}
+
+// List runs, newest first
+async function listRuns(input: { limit?: number } = {}): Promise<AgentRun[]> {
+    const runs = await readJSONL<AgentRun>(getRunsFile());
+    runs.reverse();
+    return input.limit ? runs.slice(0, input.limit) : runs;
+}
+
+async function getRun(runId: string): Promise<AgentRun | null> {
+    const runs = await readJSONL<AgentRun>(getRunsFile());
+    return runs.find((run) => run.id === runId) ?? null;
+}
+
+function isScheduleRunning(scheduleId: string, runs: AgentRun[]): boolean {
+    return runs.some((run) => run.scheduleId === scheduleId && run.status === "running" && activeRuns.has(run.id));
+}
+
+// Record the run's chat session so it shows up alongside interactive chats
+async function saveRunSession(params: { run: AgentRun; sessionId: string; messageCount: number }): Promise<void> {
+    const { run, sessionId, messageCount } = params;
+    const sessions = await readJSONL<SessionMetadata>(getSessionsFile());
+
+    if (sessions.some((session) => session.id === sessionId)) {
+        await updateJSONL<SessionMetadata>(getSessionsFile(), sessionId, (session) => ({
+            ...session,
+            messageCount,
+            updatedAt: new Date().toISOString(),
+        }));
+        return;
+    }
+
+    const now = new Date().toISOString();
+    await appendJSONL(getSessionsFile(), {
+        id: sessionId,
+        title: `${run.scheduleName} · ${new Date(run.startedAt).toLocaleDateString()}`,
+        createdAt: now,
+        updatedAt: now,
+        messageCount,
+        agentId: run.agentId,
+        scheduled: true,
+        scheduleId: run.scheduleId,
+    } satisfies SessionMetadata);
+}
+
+/**
+ * Run the agent to completion without a user present.
+ * Tools that the agent's permission rules and allowed tools don't settle stop the run
+ * and park it in the inbox as "paused".
+ */
+async function executeRun(params: { run: AgentRun; prompt: string; resumeSessionId?: string; grantedTools?: string[] }): Promise<void> {
+    const { run, prompt, resumeSessionId, grantedTools = [] } = params;
+    const abortController = new AbortController();
+    activeRuns.set(run.id, abortController);
+
+    let sessionId = resumeSessionId;
+    let messageCount = 0;
+    let pendingPermission: AgentRun["pendingPermission"];
+    let runLog: RunLog | undefined;
+
+    try {
+        const agentConfig = await getAgent({ agentId: run.agentId });
+        if (!agentConfig) {
+            throw new Error(`Agent not found: ${run.agentId}`);
+        }
+        const allowedTools = await getAgentAllowedTools({ agentId: agentConfig.id });
+        const log = createRunLog({
+            agentId: agentConfig.id,
+            model: agentConfig.model,
+            provider: agentConfig.provider,
+            trigger: "schedule",
+            sessionId,
+        });
+        runLog = log;
+
+        const decideToolPermission = async (toolName: string, input: Record<string, unknown>) => {
+            const policy = await checkToolPolicy({ agentConfig, allowedTools, sessionId, toolName, input });
+            if (policy.behavior === "allow") {
+                return { behavior: "allow" as const, updatedInput: input };
+            }
+            if (policy.behavior === "deny") {
+                return { behavior: "deny" as const, message: `${toolName} is blocked by a permission rule.` };
+            }
+            // Granted from the run inbox when this run was resumed
+            if (grantedTools.includes(toolName)) {
+                await recordPermissionDecision({
+                    agentId: agentConfig.id,
+                    sessionId,
+                    toolName,
+                    input,
+                    decision: "allow",
+                    source: "user",
+                    rule: policy.rule,
+                });
+                return { behavior: "allow" as const, updatedInput: input };
+            }
+            await recordPermissionDecision({
+                agentId: agentConfig.id,
+                sessionId,
+                toolName,
+                input,
+                decision: "deny",
+                source: "scheduled-run",
+                rule: policy.rule,
+            });
+            runsLogger.info(`Run ${run.id} paused for permission: ${toolName}`);
+            pendingPermission ??= { toolName, input };
+            if (agentConfig.provider !== "claude") {
+                // AI SDK providers have no interrupt; stop the loop so the run can wait in the inbox
+                abortController.abort();
+            }
+            return {
+                behavior: "deny" as const,
+                message: `${toolName} needs approval. The run is paused until someone allows it.`,
+                interrupt: true,
+            };
+        };
+
+        const canUseTool = async (toolName: string, input: Record<string, unknown>) => {
+            const decision = await decideToolPermission(toolName, input);
+            log.record({ type: "permission", toolName, decision: decision.behavior });
+            return decision;
+        };
+
+        // Same review mode, checkpoints and note locks as chat; no UI renderer server, as nobody is watching
+        const fileToolContext = { agentConfig, runLog: log };
+        const workspaceTools = createWorkspaceTools(fileToolContext);
+        const mcpServers: Record<string, McpServerConfig> = await buildMcpServersFromConfig(agentConfig.mcpServers);
+        mcpServers[WORKSPACE_SERVER_NAME] = createWorkspaceServer(workspaceTools);
+        const targetDir = getRootPath();
+        const agentContext = buildAgentContext(targetDir);
+        const systemPrompt = agentConfig.systemPrompt ? `${agentContext}\n\n${agentConfig.systemPrompt}` : agentContext;
+
+        const queryIterator =
+            agentConfig.provider === "claude"
+                ? query({
+                      prompt,
+                      options: {
+                          model: agentConfig.model,
+                          cwd: targetDir,
+                          resume: resumeSessionId,
+                          maxTurns: 100,
+                          mcpServers,
+                          pathToClaudeCodeExecutable: getClaudeCliPath(),
+                          settingSources: ["project"],
+                          systemPrompt,
+                          abortController,
+                          canUseTool,
+                          hooks: buildFileToolHooks(fileToolContext),
+                          stderr: (data: string) => {
+                              runsLogger.error("SDK STDERR", { runId: run.id, data });
+                          },
+                      },
+                  })
+                : runProviderQuery({
+                      agentConfig,
+                      content: [{ type: "text", text: prompt }],
+                      sessionId: resumeSessionId,
+                      systemPrompt,
+                      mcpServers,
+                      inProcessTools: { [WORKSPACE_SERVER_NAME]: workspaceTools },
+                      canUseTool,
+                      abortController,
+                  });
+
+        let result: string | undefined;
+        let errors: string[] = [];
+
+        for await (const msg of queryIterator) {
+            log.recordMessage(msg);
+            if (msg.type === "system" && msg.subtype === "init") {
+                sessionId = msg.session_id;
+                log.setSessionId(sessionId);
+                await updateRun(run.id, { sessionId });
+            } else if (msg.type === "user" || msg.type === "assistant") {
+                messageCount++;
+            } else if (msg.type === "result") {
+                if (msg.subtype === "success") {
+                    result = msg.result;
+                } else {
+                    errors = msg.errors;
+                }
+                break;
+            }
+        }
+
+        if (sessionId) {
+            await saveRunSession({ run, sessionId, messageCount });
+        }
+
+        if (pendingPermission) {
+            await updateRun(run.id, { status: "paused", pendingPermission });
+        } else if (abortController.signal.aborted) {
+            await updateRun(run.id, { status: "failed", error: "Cancelled", finishedAt: new Date().toISOString() });
+        } else if (result !== undefined) {
+            await updateRun(run.id, { status: "completed", result, finishedAt: new Date().toISOString() });
+        } else {
+            await updateRun(run.id, {
+                status: "failed",
+                error: errors.join("\n") || "The agent stopped without a result",
+                finishedAt: new Date().toISOString(),
+            });
+        }
+    } catch (error) {
+        // Interrupting for a permission can surface as an error from the SDK
+        if (pendingPermission) {
+            await updateRun(run.id, { status: "paused", pendingPermission, sessionId });
+        } else {
+            const message = abortController.signal.aborted ? "Cancelled" : error instanceof Error ? error.message : String(error);
+            runsLogger.error(`Run ${run.id} failed`, { error: message });
+            runLog?.record({ type: "error", message });
+            await updateRun(run.id, { status: "failed", error: message, sessionId, finishedAt: new Date().toISOString() });
+        }
+    } finally {
+        activeRuns.delete(run.id);
+        await runLog?.flush();
+    }
+}
+
+// executeRun records its own failures on the run; this only catches failing to record them
+function executeRunInBackground(params: Parameters<typeof executeRun>[0]): void {
+    executeRun(params).catch((error) => {
+        runsLogger.error(`Run ${params.run.id} failed unexpectedly`, { error: error instanceof Error ? error.message : String(error) });
+    });
+}
+
+/**
+ * Start a run of a schedule's prompt in the background.
+ */
+async function startRun(input: { schedule: AgentSchedule; trigger: AgentRun["trigger"] }): Promise<AgentRun> {
+    const { schedule, trigger } = input;
+    const run: AgentRun = {
+        id: `run-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`,
+        scheduleId: schedule.id,
+        scheduleName: schedule.name,
+        agentId: schedule.agentId,
+        status: "running",
+        trigger,
+        startedAt: new Date().toISOString(),
+    };
+
+    await withRunsFile(() => appendJSONL(getRunsFile(), run));
+    runsLogger.info(`Starting run ${run.id} for schedule ${schedule.id}`, { trigger });
+
+    await takeAutomaticSnapshot({ name: `Before agent run: ${schedule.name}`, trigger: "agent-run" });
+    executeRunInBackground({ run, prompt: schedule.prompt });
+    return run;
+}
+
+/**
+ * Continue a paused run after the tool it asked for was allowed or denied.
+ */
+async function resumeRun(input: { runId: string; decision: RunPermissionDecision }): Promise<AgentRun> {
+    const run = await getRun(input.runId);
+    if (!run) {
+        throw new Error(`Run not found: ${input.runId}`);
+    }
+    if (run.status !== "paused" || !run.pendingPermission || !run.sessionId) {
+        throw new Error("Only paused runs can be resumed");
+    }
+
+    const { toolName } = run.pendingPermission;
+    if (input.decision === "always-allow") {
+        await addAllowedTool({ agentId: run.agentId, toolName });
+    }
+
+    const prompt =
+        input.decision === "deny"
+            ? `Permission to use ${toolName} was denied. Finish the task without it, or explain what you couldn't do.`
+            : `Permission to use ${toolName} was granted. Continue the task.`;
+
+    const resumed: AgentRun = { ...run, status: "running", pendingPermission: undefined };
+    await updateRun(run.id, { status: "running", pendingPermission: undefined });
+
+    executeRunInBackground({
+        run: resumed,
+        prompt,
+        resumeSessionId: run.sessionId,
+        grantedTools: input.decision === "deny" ? [] : [toolName],
+    });
+    return resumed;
+}
+
+/**
+ * Close a paused run without continuing it.
+ */
+async function dismissRun(input: { runId: string }): Promise<{ success: boolean }> {
+    const run = await getRun(input.runId);
+    if (!run || run.status !== "paused") {
+        return { success: false };
+    }
+    await updateRun(run.id, { status: "dismissed", finishedAt: new Date().toISOString() });
+    return { success: true };
+}
+
+/**
+ * Stop a run that is still executing.
+ */
+function cancelRun(input: { runId: string }): { success: boolean } {
+    const abortController = activeRuns.get(input.runId);
+    if (!abortController) {
+        return { success: false };
+    }
+    abortController.abort();
+    return { success: true };
+}
+
+/**
+ * Runs left "running" by a previous sidecar process will never finish; mark them failed.
+ */
+async function failInterruptedRuns(): Promise<void> {
+    const runs = await readJSONL<AgentRun>(getRunsFile());
+    for (const run of runs) {
+        if (run.status === "running" && !activeRuns.has(run.id)) {
+            await updateRun(run.id, { status: "failed", error: "Interrupted by app restart", finishedAt: new Date().toISOString() });
+        }
+    }
+}
+
+export { listRuns, getRun, isScheduleRunning, startRun, resumeRun, dismissRun, cancelRun, failInterruptedRuns };
@@ -0,0 +1,212 @@
+import { mkdir } from "node:fs/promises";
+import path from "path";
+import { createServiceLogger } from "@/lib/logger";
+import { getAgentsPath, hasActiveWorkspace } from "@/storage/root-path";
+import { getCronError, getNextRunTime } from "./cron";
+import { type AgentSchedule, AgentScheduleSchema } from "./schedule-types";
+import { failInterruptedRuns, isScheduleRunning, listRuns, startRun } from "./scheduled-runs";
+import type { AgentRun } from "./schedule-types";
+
+// Create logger for agent schedules
+const schedulesLogger = createServiceLogger("AGENT-SCHEDULES");
+
+// How often the scheduler looks for due schedules
+const SCHEDULER_INTERVAL_MS = 30 * 1000;
+
+let schedulerInterval: ReturnType<typeof setInterval> | null = null;
+let isChecking = false;
+
+// Stored next to the agent files; the leading underscore keeps listAgents from reading it
+function getSchedulesFile(): string {
+    return path.join(getAgentsPath(), "_schedules.json");
+}
+
+async function readSchedules(): Promise<AgentSchedule[]> {
+    if (!hasActiveWorkspace()) {
+        return [];
+    }
+    const file = Bun.file(getSchedulesFile());
+    if (!(await file.exists())) {
+        return [];
+    }
+
+    const rawSchedules: unknown = await file.json();
+    const schedules: AgentSchedule[] = [];
+    for (const rawSchedule of Array.isArray(rawSchedules) ? rawSchedules : []) {
+        const parseResult = AgentScheduleSchema.safeParse(rawSchedule);
+        if (parseResult.success) {
+            schedules.push(parseResult.data);
+        } else {
+            schedulesLogger.error("Invalid schedule entry", { issues: parseResult.error.issues });
+        }
+    }
+    return schedules;
+}
+
+async function writeSchedules(schedules: AgentSchedule[]): Promise<void> {
+    if (!hasActiveWorkspace()) {
+        throw new Error("No active workspace");
+    }
+    await mkdir(getAgentsPath(), { recursive: true });
+    await Bun.write(getSchedulesFile(), JSON.stringify(schedules, null, 2));
+}
+
+function getNextRunAt(schedule: AgentSchedule): string | undefined {
+    if (!schedule.enabled || getCronError(schedule.cron)) {
+        return undefined;
+    }
+    return getNextRunTime(schedule.cron, new Date())?.toISOString();
+}
+
+// List schedules with when each will next run
+async function listSchedules(): Promise<Array<AgentSchedule & { nextRunAt?: string }>> {
+    const schedules = await readSchedules();
+    return schedules.map((schedule) => ({ ...schedule, nextRunAt: getNextRunAt(schedule) }));
+}
+
+// Create a schedule
+async function createSchedule(input: {
+    name: string;
+    agentId: string;
+    prompt: string;
+    cron: string;
+    enabled?: boolean;
+}): Promise<AgentSchedule> {
+    const cronError = getCronError(input.cron);
+    if (cronError) {
+        throw new Error(`Invalid schedule: ${cronError}`);
+    }
+
+    const now = new Date().toISOString();
+    const schedule: AgentSchedule = {
+        id: `schedule-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`,
+        name: input.name,
+        agentId: input.agentId,
+        prompt: input.prompt,
+        cron: input.cron.trim(),
+        enabled: input.enabled ?? true,
+        createdAt: now,
+        updatedAt: now,
+    };
+
+    const schedules = await readSchedules();
+    await writeSchedules([...schedules, schedule]);
+    schedulesLogger.info(`Created schedule: ${schedule.id}`, { cron: schedule.cron });
+    return schedule;
+}
+
+// Update a schedule
+async function updateSchedule(input: {
+    scheduleId: string;
+    updates: {
+        name?: string;
+        agentId?: string;
+        prompt?: string;
+        cron?: string;
+        enabled?: boolean;
+    };
+}): Promise<AgentSchedule | null> {
+    if (input.updates.cron !== undefined) {
+        const cronError = getCronError(input.updates.cron);
+        if (cronError) {
+            throw new Error(`Invalid schedule: ${cronError}`);
+        }
+    }
+
+    const schedules = await readSchedules();
+    const existing = schedules.find((schedule) => schedule.id === input.scheduleId);
+    if (!existing) {
+        schedulesLogger.warn(`Schedule not found for update: ${input.scheduleId}`);
+        return null;
+    }
+
+    const updated: AgentSchedule = {
+        ...existing,
+        ...input.updates,
+        id: existing.id,
+        cron: (input.updates.cron ?? existing.cron).trim(),
+        updatedAt: new Date().toISOString(),
+    };
+    // Re-enabling shouldn't immediately catch up on runs missed while disabled
+    if (input.updates.enabled && !existing.enabled) {
+        updated.lastRunAt = updated.updatedAt;
+    }
+
+    await writeSchedules(schedules.map((schedule) => (schedule.id === updated.id ? updated : schedule)));
+    return updated;
+}
+
+// Delete a schedule (its past runs are kept)
+async function deleteSchedule(input: { scheduleId: string }): Promise<{ success: boolean }> {
+    const schedules = await readSchedules();
+    const remaining = schedules.filter((schedule) => schedule.id !== input.scheduleId);
+    if (remaining.length === schedules.length) {
+        return { success: false };
+    }
+    await writeSchedules(remaining);
+    return { success: true };
+}
+
+// Run a schedule's prompt right away, outside its schedule
+async function runScheduleNow(input: { scheduleId: string }): Promise<AgentRun> {
+    const schedules = await readSchedules();
+    const schedule = schedules.find((s) => s.id === input.scheduleId);
+    if (!schedule) {
+        throw new Error(`Schedule not found: ${input.scheduleId}`);
+    }
+    return startRun({ schedule, trigger: "manual" });
+}
+
+/**
+ * Start every enabled schedule that has come due since it last ran.
+ * A schedule that was due several times while the app was closed runs once.
+ */
+async function checkSchedules(): Promise<void> {
+    if (isChecking || !hasActiveWorkspace()) {
+        return;
+    }
+    isChecking = true;
+
+    try {
+        const now = new Date();
+        const schedules = await readSchedules();
+        const runs = await listRuns();
+        const due = schedules.filter((schedule) => {
+            if (!schedule.enabled || getCronError(schedule.cron) || isScheduleRunning(schedule.id, runs)) {
+                return false;
+            }
+            const nextRun = getNextRunTime(schedule.cron, new Date(schedule.lastRunAt ?? schedule.createdAt));
+            return nextRun !== null && nextRun <= now;
+        });
+        if (due.length === 0) {
+            return;
+        }
+
+        const dueIds = new Set(due.map((schedule) => schedule.id));
+        await writeSchedules(
+            schedules.map((schedule) => (dueIds.has(schedule.id) ? { ...schedule, lastRunAt: now.toISOString() } : schedule))
+        );
+        for (const schedule of due) {
+            await startRun({ schedule, trigger: "schedule" });
+        }
+    } catch (error) {
+        schedulesLogger.error("Failed to check schedules", { error: error instanceof Error ? error.message : String(error) });
+    } finally {
+        isChecking = false;
+    }
+}
+
+/**
+ * Start (or restart, after a workspace switch) the background scheduler.
+ */
+async function startAgentScheduler(): Promise<void> {
+    if (schedulerInterval) {
+        clearInterval(schedulerInterval);
+    }
+    await failInterruptedRuns();
+    schedulerInterval = setInterval(checkSchedules, SCHEDULER_INTERVAL_MS);
+    checkSchedules();
+    schedulesLogger.info("Agent scheduler started");
+}
+
+export { listSchedules, createSchedule, updateSchedule, deleteSchedule, runScheduleNow, startAgentScheduler };
@@ -0,0 +1,46 @@
+import { test, expect, describe } from "bun:test";
+import type { Todo } from "@/features/todos/todo-types";
+import { getMonthWeeks, getWeekDates, getVisibleDates, shiftAnchor, groupTodosByDueDate, AGENDA_DAYS } from "./calendar-utils";
+
+function todo(id: string, fields: Partial<Todo> = {}): Todo {
+    return { id, title: id, status: "todo", createdAt: "", updatedAt: "", ...fields };
+}
+
+describe("Calendar Layout", () => {
+    test("month grid covers whole weeks starting on Sunday", () => {
+        const weeks = getMonthWeeks("2025-03-15");
+
+        expect(weeks).toHaveLength(6);
+        expect(weeks[0]![0]).toBe("2025-02-23");
+        expect(weeks[5]![6]).toBe("2025-04-05");
+        expect(getMonthWeeks("2026-02-10")).toHaveLength(4);
+    });
+
+    test("week and agenda ranges", () => {
+        expect(getWeekDates("2025-03-12")).toEqual([
+            "2025-03-09",
+            "2025-03-10",
+            "2025-03-11",
+            "2025-03-12",
+            "2025-03-13",
+            "2025-03-14",
+            "2025-03-15",
+        ]);
+        const agenda = getVisibleDates("agenda", "2025-12-25");
+        expect(agenda).toHaveLength(AGENDA_DAYS);
+        expect(agenda[AGENDA_DAYS - 1]).toBe("2026-01-07");
+    });
+
+    test("paging clamps to short months", () => {
+        expect(shiftAnchor("month", "2025-01-31", 1)).toBe("2025-02-28");
+        expect(shiftAnchor("month", "2025-01-15", -1)).toBe("2024-12-15");
+        expect(shiftAnchor("week", "2025-03-01", 1)).toBe("2025-03-08");
+    });
+});
+
+test("groups todos by due date", () => {
+    const groups = groupTodosByDueDate([todo("a", { dueDate: "2025-03-01" }), todo("b"), todo("c", { dueDate: "2025-03-01" })]);
+
+    expect([...groups.keys()]).toEqual(["2025-03-01"]);
+    expect(groups.get("2025-03-01")!.map((t) => t.id)).toEqual(["a", "c"]);
+});
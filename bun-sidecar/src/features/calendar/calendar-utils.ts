@@ -0,0 +1,95 @@
+/**
+ * Calendar Utilities
+ *
+ * Date math for the month, week and agenda layouts. Dates are YYYY-MM-DD
+ * strings (local calendar days); arithmetic is done on UTC midnights so
+ * daylight-saving changes never shift a day. Weeks start on Sunday.
+ */
+
+import { addDays, formatDay, parseDay } from "@/features/notes/date-utils";
+import type { Todo } from "@/features/todos/todo-types";
+
+export type CalendarMode = "month" | "week" | "agenda";
+
+// Number of days shown by the agenda layout
+export const AGENDA_DAYS = 14;
+
+function startOfWeek(date: string): string {
+    return addDays(date, -parseDay(date).getUTCDay());
+}
+
+function dayRange(start: string, count: number): string[] {
+    return Array.from({ length: count }, (_, i) => addDays(start, i));
+}
+
+/**
+ * Whole weeks covering the anchor's month, as rows of seven dates.
+ */
+export function getMonthWeeks(anchor: string): string[][] {
+    const first = parseDay(anchor);
+    first.setUTCDate(1);
+    const last = new Date(Date.UTC(first.getUTCFullYear(), first.getUTCMonth() + 1, 0));
+
+    const weeks: string[][] = [];
+    let weekStart = startOfWeek(formatDay(first));
+    while (weekStart <= formatDay(last)) {
+        weeks.push(dayRange(weekStart, 7));
+        weekStart = addDays(weekStart, 7);
+    }
+    return weeks;
+}
+
+export function getWeekDates(anchor: string): string[] {
+    return dayRange(startOfWeek(anchor), 7);
+}
+
+/**
+ * Dates shown for a mode, in order. The first and last entries bound the range to load.
+ */
+export function getVisibleDates(mode: CalendarMode, anchor: string): string[] {
+    switch (mode) {
+        case "month":
+            return getMonthWeeks(anchor).flat();
+        case "week":
+            return getWeekDates(anchor);
+        case "agenda":
+            return dayRange(anchor, AGENDA_DAYS);
+    }
+}
+
+/**
+ * Move the anchor one page forward (1) or back (-1).
+ * Months keep the day of month where possible (Jan 31 → Feb 28).
+ */
+export function shiftAnchor(mode: CalendarMode, anchor: string, direction: 1 | -1): string {
+    switch (mode) {
+        case "week":
+            return addDays(anchor, 7 * direction);
+        case "agenda":
+            return addDays(anchor, AGENDA_DAYS * direction);
+        case "month": {
+            const date = parseDay(anchor);
+            const target = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + direction, 1));
+            const lastDay = new Date(Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)).getUTCDate();
+            target.setUTCDate(Math.min(date.getUTCDate(), lastDay));
+            return formatDay(target);
+        }
+    }
+}
+
+/**
+ * Group todos with a due date by that date. Todos keep their incoming order.
+ */
+export function groupTodosByDueDate(todos: Todo[]): Map<string, Todo[]> {
+    const groups = new Map<string, Todo[]>();
+    for (const todo of todos) {
+        if (!todo.dueDate) continue;
+        const group = groups.get(todo.dueDate);
+        if (group) {
+            group.push(todo);
+        } else {
+            groups.set(todo.dueDate, [todo]);
+        }
+    }
+    return groups;
+}
@@ -0,0 +1,373 @@
+import { useEffect, useState, useRef, useCallback, useMemo } from "react";
+import { DndContext, DragEndEvent, DragOverlay, DragStartEvent, PointerSensor, useDraggable, useDroppable, useSensor, useSensors } from "@dnd-kit/core";
+import { usePlugin } from "@/hooks/usePlugin";
+import { useWorkspaceContext } from "@/contexts/WorkspaceContext";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { ChevronLeft, ChevronRight, FileText } from "lucide-react";
+import { toast } from "sonner";
+import { useNotesAPI } from "@/hooks/useNotesAPI";
+import { useTodosAPI } from "@/hooks/useTodosAPI";
+import { useTheme } from "@/hooks/useTheme";
+import { notesPluginSerial } from "@/features/notes";
+import { todosPluginSerial } from "@/features/todos";
+import { parseLocalDateString, toLocalDateString } from "@/features/notes/date-utils";
+import type { Todo } from "@/features/todos/todo-types";
+import { cn } from "@/lib/utils";
+import { getMonthWeeks, getVisibleDates, groupTodosByDueDate, shiftAnchor, type CalendarMode } from "./calendar-utils";
+import type { CalendarViewProps } from "./index";
+
+const MODES: { id: CalendarMode; label: string }[] = [
+    { id: "month", label: "Month" },
+    { id: "week", label: "Week" },
+    { id: "agenda", label: "Agenda" },
+];
+
+const WEEKDAY_HEADERS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+// Todo chips shown per day in month mode before collapsing into "+N more"
+const MONTH_CELL_LIMIT = 3;
+
+function formatRangeLabel(mode: CalendarMode, dates: string[]): string {
+    const first = parseLocalDateString(dates[0]!);
+    const last = parseLocalDateString(dates[dates.length - 1]!);
+    if (mode === "month") {
+        // The grid starts in the previous month; label by the middle of the grid
+        const middle = parseLocalDateString(dates[Math.floor(dates.length / 2)]!);
+        return middle.toLocaleDateString("en-US", { month: "long", year: "numeric" });
+    }
+    const start = first.toLocaleDateString("en-US", { month: "short", day: "numeric" });
+    const end = last.toLocaleDateString("en-US", { month: "short", day: "numeric", year: "numeric" });
+    return `${start} – ${end}`;
+}
+
+export function CalendarView({ tabId, mode: initialMode }: { tabId: string } & CalendarViewProps) {
+    if (!tabId) {
+        throw new Error("tabId is required");
+    }
+    const { activeTab, setTabName, openTab } = useWorkspaceContext();
+    const { loading, error, setLoading, setError } = usePlugin();
+    const [mode, setMode] = useState<CalendarMode>(initialMode ?? "month");
+    const [anchor, setAnchor] = useState(() => toLocalDateString(new Date()));
+    const [todos, setTodos] = useState<Todo[]>([]);
+    const [dailyNotes, setDailyNotes] = useState<Map<string, string>>(new Map());
+    const [draggedTodo, setDraggedTodo] = useState<Todo | null>(null);
+    const { currentTheme } = useTheme();
+    const { styles } = currentTheme;
+
+    const hasSetTabNameRef = useRef<boolean>(false);
+
+    const notesAPI = useNotesAPI();
+    const todosAPI = useTodosAPI();
+
+    const today = toLocalDateString(new Date());
+    const visibleDates = useMemo(() => getVisibleDates(mode, anchor), [mode, anchor]);
+    const rangeStart = visibleDates[0]!;
+    const rangeEnd = visibleDates[visibleDates.length - 1]!;
+    const todosByDate = useMemo(() => groupTodosByDueDate(todos), [todos]);
+
+    const sensors = useSensors(
+        useSensor(PointerSensor, {
+            activationConstraint: {
+                distance: 8,
+            },
+        })
+    );
+
+    // Set tab name
+    useEffect(() => {
+        if (activeTab?.id === tabId && !hasSetTabNameRef.current) {
+            setTabName(tabId, "Calendar");
+            hasSetTabNameRef.current = true;
+        }
+    }, [activeTab?.id, tabId, setTabName]);
+
+    // Load todos once; paging only changes which dates are shown
+    useEffect(() => {
+        const fetchTodos = async () => {
+            try {
+                setLoading(true);
+                setError(null);
+                const result = await todosAPI.getTodos();
+                setTodos(result);
+            } catch (err) {
+                const errorMessage = err instanceof Error ? err.message : "Failed to fetch todos";
+                setError(errorMessage);
+            } finally {
+                setLoading(false);
+            }
+        };
+        fetchTodos();
+    }, [todosAPI, setLoading, setError]);
+
+    // Load daily notes for the visible range
+    useEffect(() => {
+        let cancelled = false;
+        notesAPI
+            .getDailyNotesInRange({ startDate: rangeStart, endDate: rangeEnd })
+            .then((notes) => {
+                if (!cancelled) {
+                    setDailyNotes(new Map(notes.map((n) => [n.date, n.fileName])));
+                }
+            })
+            .catch((err) => console.error("Failed to load daily notes:", err));
+        return () => {
+            cancelled = true;
+        };
+    }, [notesAPI, rangeStart, rangeEnd]);
+
+    const openDailyNote = useCallback(
+        async (date: string) => {
+            const { fileName } = await notesAPI.openDailyNote({ date });
+            setDailyNotes((prev) => new Map(prev).set(date, fileName));
+            openTab({
+                pluginMeta: notesPluginSerial,
+                view: "editor",
+                props: { noteFileName: fileName },
+            });
+        },
+        [notesAPI, openTab]
+    );
+
+    const openTodo = useCallback(
+        (todo: Todo) => {
+            openTab({
+                pluginMeta: todosPluginSerial,
+                view: "browser",
+                props: { project: todo.project, selectedTodoId: todo.id },
+            });
+        },
+        [openTab]
+    );
+
+    const handleDragStart = (event: DragStartEvent) => {
+        setDraggedTodo(todos.find((t) => t.id === event.active.id) ?? null);
+    };
+
+    // Dropping a todo on a day moves its due date there
+    const handleDragEnd = async (event: DragEndEvent) => {
+        setDraggedTodo(null);
+        const todo = todos.find((t) => t.id === event.active.id);
+        const dueDate = event.over?.id as string | undefined;
+        if (!todo || !dueDate || todo.dueDate === dueDate) return;
+
+        const previous = todos;
+        setTodos((prev) => prev.map((t) => (t.id === todo.id ? { ...t, dueDate } : t)));
+        try {
+            await todosAPI.updateTodo({ todoId: todo.id, updates: { dueDate } });
+        } catch (err) {
+            console.error("Failed to reschedule todo:", err);
+            setTodos(previous);
+            toast.error("Failed to reschedule todo");
+        }
+    };
+
+    if (loading) {
+        return (
+            <div className="h-full flex items-center justify-center">
+                <div className="text-muted-foreground">Loading...</div>
+            </div>
+        );
+    }
+
+    if (error) {
+        return (
+            <div className="p-4">
+                <Alert variant="destructive">
+                    <AlertDescription>Error: {error}</AlertDescription>
+                </Alert>
+            </div>
+        );
+    }
+
+    const renderDay = (date: string, layout: CalendarMode) => (
+        <DayCell
+            key={date}
+            date={date}
+            layout={layout}
+            todos={todosByDate.get(date) ?? []}
+            isToday={date === today}
+            isOutsideMonth={layout === "month" && date.slice(0, 7) !== anchor.slice(0, 7)}
+            hasDailyNote={dailyNotes.has(date)}
+            onOpenDailyNote={() => openDailyNote(date)}
+            onOpenTodo={openTodo}
+        />
+    );
+
+    return (
+        <div className="px-6 py-4 h-full flex flex-col overflow-hidden">
+            <div className="flex items-center justify-between flex-shrink-0 mb-4">
+                <div className="flex items-center gap-2">
+                    <Button variant="outline" size="sm" onClick={() => setAnchor(today)}>
+                        Today
+                    </Button>
+                    <Button variant="ghost" size="sm" onClick={() => setAnchor(shiftAnchor(mode, anchor, -1))} title="Previous">
+                        <ChevronLeft className="w-4 h-4" />
+                    </Button>
+                    <Button variant="ghost" size="sm" onClick={() => setAnchor(shiftAnchor(mode, anchor, 1))} title="Next">
+                        <ChevronRight className="w-4 h-4" />
+                    </Button>
+                    <h1 className="text-lg font-semibold ml-2">{formatRangeLabel(mode, visibleDates)}</h1>
+                </div>
+                <div className="flex items-center rounded-md p-0.5" style={{ backgroundColor: styles.surfaceTertiary }}>
+                    {MODES.map(({ id, label }) => (
+                        <button
+                            key={id}
+                            type="button"
+                            onClick={() => setMode(id)}
+                            className="px-3 py-1 rounded text-sm font-medium transition-colors"
+                            style={{
+                                backgroundColor: mode === id ? styles.surfacePrimary : "transparent",
+                                color: mode === id ? styles.contentPrimary : styles.contentSecondary,
+                            }}
+                        >
+                            {label}
+                        </button>
+                    ))}
+                </div>
+            </div>
+
+            <DndContext sensors={sensors} onDragStart={handleDragStart} onDragEnd={handleDragEnd}>
+                <div className="flex-1 min-h-0 overflow-y-auto">
+                    {mode === "agenda" ? (
+                        <div className="flex flex-col gap-1">{visibleDates.map((date) => renderDay(date, "agenda"))}</div>
+                    ) : (
+                        <div className="flex flex-col h-full">
+                            <div className="grid grid-cols-7 flex-shrink-0">
+                                {WEEKDAY_HEADERS.map((day) => (
+                                    <div key={day} className="px-2 py-1 text-xs font-medium" style={{ color: styles.contentTertiary }}>
+                                        {day}
+                                    </div>
+                                ))}
+                            </div>
+                            {mode === "month" ? (
+                                <div className="grid grid-cols-7 flex-1 auto-rows-fr">
+                                    {getMonthWeeks(anchor)
+                                        .flat()
+                                        .map((date) => renderDay(date, "month"))}
+                                </div>
+                            ) : (
+                                <div className="grid grid-cols-7 flex-1">{visibleDates.map((date) => renderDay(date, "week"))}</div>
+                            )}
+                        </div>
+                    )}
+                </div>
+                <DragOverlay>{draggedTodo ? <TodoChip todo={draggedTodo} overlay /> : null}</DragOverlay>
+            </DndContext>
+        </div>
+    );
+}
+
+function DayCell({
+    date,
+    layout,
+    todos,
+    isToday,
+    isOutsideMonth,
+    hasDailyNote,
+    onOpenDailyNote,
+    onOpenTodo,
+}: {
+    date: string;
+    layout: CalendarMode;
+    todos: Todo[];
+    isToday: boolean;
+    isOutsideMonth: boolean;
+    hasDailyNote: boolean;
+    onOpenDailyNote: () => void;
+    onOpenTodo: (todo: Todo) => void;
+}) {
+    const { setNodeRef, isOver } = useDroppable({ id: date });
+    const { currentTheme } = useTheme();
+    const { styles } = currentTheme;
+    const [expanded, setExpanded] = useState(false);
+
+    const day = parseLocalDateString(date);
+    const visibleTodos = layout === "month" && !expanded ? todos.slice(0, MONTH_CELL_LIMIT) : todos;
+    const hiddenCount = todos.length - visibleTodos.length;
+
+    const label =
+        layout === "agenda"
+            ? day.toLocaleDateString("en-US", { weekday: "long", month: "short", day: "numeric" })
+            : String(day.getDate());
+
+    return (
+        <div
+            ref={setNodeRef}
+            className={cn("flex min-w-0 gap-1 p-1.5 border transition-colors", layout === "agenda" ? "flex-row items-start rounded-md" : "flex-col -mt-px -ml-px")}
+            style={{
+                borderColor: styles.borderDefault,
+                backgroundColor: isOver ? styles.surfaceAccent : "transparent",
+                opacity: isOutsideMonth ? 0.5 : 1,
+                minHeight: layout === "month" ? "6rem" : undefined,
+            }}
+        >
+            <button
+                type="button"
+                onClick={onOpenDailyNote}
+                className={cn("flex items-center gap-1 rounded px-1.5 py-0.5 text-sm hover:opacity-80", layout === "agenda" ? "w-48 shrink-0" : "self-start")}
+                style={{
+                    backgroundColor: isToday ? styles.contentAccent : "transparent",
+                    color: isToday ? styles.surfacePrimary : styles.contentPrimary,
+                    fontWeight: isToday ? 600 : 400,
+                }}
+                title={hasDailyNote ? "Open daily note" : "Create daily note"}
+            >
+                <span>{label}</span>
+                {hasDailyNote && <FileText className="size-3" />}
+            </button>
+            <div className="flex flex-col gap-1 min-w-0 flex-1">
+                {visibleTodos.map((todo) => (
+                    <DraggableTodoChip key={todo.id} todo={todo} onOpen={() => onOpenTodo(todo)} />
+                ))}
+                {hiddenCount > 0 && (
+                    <button
+                        type="button"
+                        onClick={() => setExpanded(true)}
+                        className="text-left text-xs px-1.5"
+                        style={{ color: styles.contentTertiary }}
+                    >
+                        +{hiddenCount} more
+                    </button>
+                )}
+                {layout === "agenda" && todos.length === 0 && (
+                    <span className="text-xs py-1" style={{ color: styles.contentTertiary }}>
+                        Nothing due
+                    </span>
+                )}
+            </div>
+        </div>
+    );
+}
+
+function DraggableTodoChip({ todo, onOpen }: { todo: Todo; onOpen: () => void }) {
+    const { attributes, listeners, setNodeRef, isDragging } = useDraggable({ id: todo.id });
+
+    return (
+        <div ref={setNodeRef} {...attributes} {...listeners} onClick={onOpen} style={{ opacity: isDragging ? 0.4 : 1 }}>
+            <TodoChip todo={todo} />
+        </div>
+    );
+}
+
+function TodoChip({ todo, overlay }: { todo: Todo; overlay?: boolean }) {
+    const { currentTheme } = useTheme();
+    const { styles } = currentTheme;
+    const done = todo.status === "done";
+
+    return (
+        <div
+            className={cn("truncate rounded px-1.5 py-0.5 text-xs cursor-pointer", overlay && "shadow-md")}
+            style={{
+                backgroundColor: styles.surfaceTertiary,
+                color: done ? styles.contentTertiary : styles.contentPrimary,
+                textDecoration: done ? "line-through" : undefined,
+            }}
+            title={todo.project ? `${todo.title} · ${todo.project}` : todo.title}
+        >
+            {todo.title}
+        </div>
+    );
+}
+
+export default CalendarView;
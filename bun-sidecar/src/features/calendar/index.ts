@@ -0,0 +1,33 @@
+import { PluginBase, SerializablePlugin } from "@/types/Plugin";
+import { z } from "zod";
+import CalendarView from "./calendar-view";
+
+export const calendarViewPropsSchema = z.object({
+    mode: z.enum(["month", "week", "agenda"]).optional(),
+});
+export type CalendarViewProps = z.infer<typeof calendarViewPropsSchema>;
+
+const views = {
+    default: {
+        id: "default",
+        name: "Calendar",
+        component: CalendarView,
+        props: calendarViewPropsSchema,
+    },
+} as const;
+
+export const calendarPluginSerial: SerializablePlugin = {
+    id: "calendar",
+    name: "Calendar",
+    icon: "calendar",
+};
+
+export const CalendarPluginBase: PluginBase = {
+    id: calendarPluginSerial.id,
+    name: calendarPluginSerial.name,
+    icon: calendarPluginSerial.icon,
+    mcpServers: {},
+    views,
+    functionStubs: {},
+    commands: [],
+};
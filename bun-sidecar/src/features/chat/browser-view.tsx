@@ -1,14 +1,14 @@
-import { useEffect, useState, useRef, useCallback } from "react";
+import { useEffect, useState, useRef, useCallback, useMemo } from "react";
 import type { ReactNode } from "react";
 import { useWorkspaceContext } from "@/contexts/WorkspaceContext";
 import { Input } from "@/components/ui/input";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Button } from "@/components/ui/button";
-import { Search, MessageCircle, Plus, Trash2, Maximize2 } from "lucide-react";
+import { Search, MessageCircle, Plus, Trash2, Maximize2, GitBranch } from "lucide-react";
 import { useCommandDialog } from "@/components/CommandDialogProvider";
 import { useTheme } from "@/hooks/useTheme";
 import { DeleteChatSessionDialog } from "./delete-chat-session-dialog";
-import { reconstructMessages, type SessionMetadata, type ChatMessage } from "./sessionUtils";
+import { reconstructMessages, orderByForkTree, type SessionMetadata, type ChatMessage } from "./sessionUtils";
 
 type SessionWithSnippet = SessionMetadata & {
     matchSnippet?: { before: string; match: string; after: string };
@@ -89,6 +89,13 @@ export default function ChatBrowserView({ tabId }: { tabId: string }) {
     const searchTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
     const placement = getViewSelfPlacement(tabId);
 
+    // Without a search, forks are listed under the session they were forked from
+    const forkTree = useMemo(() => orderByForkTree(sessions), [sessions]);
+    const forkDepths = useMemo(
+        () => new Map(forkTree.map(({ session, depth }) => [session.id, depth])),
+        [forkTree]
+    );
+
     // Set tab name
     useEffect(() => {
         setTabName(tabId, "Chat History");
@@ -164,11 +171,12 @@ export default function ChatBrowserView({ tabId }: { tabId: string }) {
         }
 
         if (!searchQuery.trim()) {
-            // No search query - show all sessions
-            setFilteredSessions(sessions);
-            if (sessions.length > 0) {
+            // No search query - show all sessions as a fork tree
+            const treeOrder = forkTree.map(({ session }) => session);
+            setFilteredSessions(treeOrder);
+            if (treeOrder.length > 0) {
                 setSelectedIndex(0);
-                setSelectedSession(sessions[0]);
+                setSelectedSession(treeOrder[0]);
             }
             return;
         }
@@ -202,7 +210,7 @@ export default function ChatBrowserView({ tabId }: { tabId: string }) {
                 clearTimeout(searchTimeoutRef.current);
             }
         };
-    }, [searchQuery, sessions]);
+    }, [searchQuery, sessions, forkTree]);
 
     const handleOpenChat = useCallback(
         async (sessionId: string) => {
@@ -353,6 +361,8 @@ export default function ChatBrowserView({ tabId }: { tabId: string }) {
                                 ) : (
                                     filteredSessions.map((session, index) => {
                                         const isSelected = index === selectedIndex;
+                                        const depth = searchQuery.trim() ? 0 : (forkDepths.get(session.id) ?? 0);
+                                        const SessionIcon = session.forkedFrom ? GitBranch : MessageCircle;
                                         return (
                                             <div
                                                 key={session.id}
@@ -363,6 +373,7 @@ export default function ChatBrowserView({ tabId }: { tabId: string }) {
                                                         ? `2px solid ${currentTheme.styles.contentAccent}`
                                                         : "2px solid transparent",
                                                     color: currentTheme.styles.contentPrimary,
+                                                    marginLeft: depth * 12,
                                                 }}
                                                 onClick={() => handleOpenChat(session.id)}
                                                 onMouseEnter={() => {
@@ -372,7 +383,7 @@ export default function ChatBrowserView({ tabId }: { tabId: string }) {
                                             >
                                                 {/* Time */}
                                                 <div className="flex items-center gap-1.5 mb-1">
-                                                    <MessageCircle
+                                                    <SessionIcon
                                                         className="h-3 w-3"
                                                         style={{ color: currentTheme.styles.contentTertiary }}
                                                     />
@@ -388,6 +399,17 @@ export default function ChatBrowserView({ tabId }: { tabId: string }) {
                                                     >
                                                         - {session.messageCount} msgs
                                                     </span>
+                                                    {session.scheduled && (
+                                                        <span
+                                                            className="text-[10px] px-1 rounded"
+                                                            style={{
+                                                                backgroundColor: currentTheme.styles.surfaceSecondary,
+                                                                color: currentTheme.styles.contentSecondary,
+                                                            }}
+                                                        >
+                                                            Scheduled
+                                                        </span>
+                                                    )}
                                                 </div>
 
                                                 {/* Title */}
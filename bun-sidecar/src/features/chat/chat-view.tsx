@@ -1,4 +1,4 @@
-import { useState, useEffect, useRef, useCallback } from "react";
+import { Fragment, useState, useEffect, useRef, useCallback } from "react";
 import {
     Conversation,
     ConversationContent,
@@ -18,7 +18,7 @@ import {
 } from "@/components/prosemirror/ProseMirrorPromptInput";
 import type { Attachment } from "@/types/attachments";
 import { Button } from "@/components/ui/button";
-import { StopCircle, ListPlus } from "lucide-react";
+import { StopCircle, ListPlus, GitBranch, RotateCcw, BookOpen } from "lucide-react";
 import { Loader } from "@/components/ai-elements/loader";
 import {
     Tool,
@@ -34,17 +34,23 @@ import {
     ChainOfThoughtHeader,
     ChainOfThoughtStep,
 } from "@/components/ai-elements/chain-of-thought";
+import { Checkpoint, CheckpointIcon, CheckpointTrigger } from "@/components/ai-elements/checkpoint";
 import { reconstructMessages, type ChatMessage, type ContentBlock } from "./sessionUtils";
+import { RetrievedContextCitation } from "./retrieved-context-citation";
+import { MentionBudget } from "./mention-budget";
 import { useTheme } from "@/hooks/useTheme";
 import { useWorkspaceContext } from "@/contexts/WorkspaceContext";
 import { toast } from "sonner";
 import { AgentSelector } from "@/features/agents/agent-selector";
 import { agentsAPI } from "@/hooks/useAgentsAPI";
 import { QueuedMessagesList } from "./QueuedMessagesList";
-import type { QueuedMessage } from "./index";
+import { chatPluginSerial, type QueuedMessage } from "./index";
+import { RewindChatSessionDialog } from "./rewind-chat-session-dialog";
+import { useCommandDialog } from "@/components/CommandDialogProvider";
 import { useTabScrollPersistence } from "@/hooks/useTabScrollPersistence";
 import { OverlayScrollbar } from "@/components/OverlayScrollbar";
 import { removeFileLock, upsertFileLock } from "@/hooks/useFileLocks";
+import { upsertPendingEdit } from "@/hooks/usePendingEdits";
 
 type ToolCallState =
     | "input-streaming"
@@ -66,7 +72,8 @@ export type ChatViewProps = {
 
 export default function ChatView({ sessionId: initialSessionId, tabId, initialPrompt }: ChatViewProps) {
     const { currentTheme } = useTheme();
-    const { setTabName, updateTabProps, activeTab, setActiveTabId, chatInputEnterToSend } = useWorkspaceContext();
+    const { setTabName, updateTabProps, activeTab, setActiveTabId, chatInputEnterToSend, addNewTab, getViewSelfPlacement, setSidebarTabId, semanticSearch } = useWorkspaceContext();
+    const { openDialog } = useCommandDialog();
 
     // Capture the initial sessionId at mount time - don't react to prop changes
     // This prevents reloading history when updateTabProps adds sessionId during conversation
@@ -81,6 +88,9 @@ export default function ChatView({ sessionId: initialSessionId, tabId, initialPr
     const [pendingPermission, setPendingPermission] = useState<PendingPermission | null>(null);
     const [currentAgentId, setCurrentAgentId] = useState<string | undefined>(undefined);
     const [queryTrackingId, setQueryTrackingId] = useState<string | null>(null);
+    // Attach relevant note excerpts to prompts; null follows the workspace setting
+    const [attachContextOverride, setAttachContextOverride] = useState<boolean | null>(null);
+    const attachContext = attachContextOverride ?? semanticSearch.attachToChat;
 
     // Message queue state
     const [messageQueue, setMessageQueue] = useState<QueuedMessage[]>([]);
@@ -124,17 +134,19 @@ export default function ChatView({ sessionId: initialSessionId, tabId, initialPr
         }
     }, [isLoadingHistory]);
 
-    // Set initial prompt if provided (for pre-populated chats)
+    // Set initial prompt if provided (for pre-populated chats and forks)
+    // Cleared from the tab props once used so reopening the tab doesn't fill it in again
     useEffect(() => {
-        if (initialPrompt && !isLoadingHistory && !initialSessionId) {
+        if (initialPrompt && !isLoadingHistory) {
             // Small delay to ensure ProseMirror editor is initialized
             const timer = setTimeout(() => {
                 inputRef.current?.setContent(initialPrompt);
                 inputRef.current?.focus();
+                updateTabProps(tabId, { initialPrompt: undefined });
             }, 150);
             return () => clearTimeout(timer);
         }
-    }, [initialPrompt, isLoadingHistory, initialSessionId]);
+    }, [initialPrompt, isLoadingHistory, tabId, updateTabProps]);
 
     // Re-focus when switching tabs
     useEffect(() => {
@@ -208,6 +220,29 @@ export default function ChatView({ sessionId: initialSessionId, tabId, initialPr
         }
     }
 
+    // Messages sent in this tab have temporary ids; once the turn is saved, pick up the
+    // history ids for user messages so they can be forked and rewound
+    async function syncHistoryIds(id: string) {
+        try {
+            const response = await fetch(`/api/chat/sessions/history/${id}`);
+            if (!response.ok) return;
+            const data = await response.json();
+            const historyPrompts = reconstructMessages(data.messages || []).filter((m) => m.role === "user");
+
+            setMessages((prev) => {
+                let promptIndex = 0;
+                return prev.map((m) => {
+                    // Image-only messages have no text, so they aren't prompts in reconstructed history
+                    if (m.role !== "user" || !m.blocks.some((b) => b.type === "text")) return m;
+                    const historyId = historyPrompts[promptIndex++]?.historyId;
+                    return historyId ? { ...m, historyId } : m;
+                });
+            });
+        } catch (error) {
+            console.error("[Chat] Error syncing history ids:", error);
+        }
+    }
+
     async function saveSessionMetadata(id: string, title: string, messageCount: number, agentId?: string) {
         try {
             const now = new Date().toISOString();
@@ -360,6 +395,7 @@ export default function ChatView({ sessionId: initialSessionId, tabId, initialPr
                     images: imageUrls,
                     sessionId,
                     agentId: currentAgentId,
+                    attachContext,
                 }),
             });
 
@@ -650,6 +686,17 @@ export default function ChatView({ sessionId: initialSessionId, tabId, initialPr
                                     },
                                 });
                             }
+                        } else if (data.type === "retrieved_context") {
+                            // Note excerpts the server added to the prompt, shown under the user's message
+                            if (data.sources?.length > 0) {
+                                setMessages((prev) =>
+                                    prev.map((m) =>
+                                        m.id === userMessageId
+                                            ? { ...m, blocks: [...m.blocks, { type: "context", sources: data.sources, id: `user-context-${userMessageId}` }] }
+                                            : m
+                                    )
+                                );
+                            }
                         } else if (data.type === "file_lock") {
                             if (data.lock) {
                                 upsertFileLock(data.lock);
@@ -658,6 +705,14 @@ export default function ChatView({ sessionId: initialSessionId, tabId, initialPr
                             if (data.noteFileName) {
                                 removeFileLock(data.noteFileName);
                             }
+                        } else if (data.type === "pending_edit") {
+                            // Review mode: the agent's note change is waiting in the note
+                            if (data.pendingEdit) {
+                                upsertPendingEdit(data.pendingEdit);
+                                toast(`Proposed changes to ${data.pendingEdit.noteFileName.replace(/\.md$/, "")}`, {
+                                    description: "Review them in the note",
+                                });
+                            }
                         } else if (data.type === "done") {
                             // Clear query tracking - query is complete
                             setQueryTrackingId(null);
@@ -671,6 +726,7 @@ export default function ChatView({ sessionId: initialSessionId, tabId, initialPr
                             if (data.sessionId || sessionId) {
                                 const currentMessageCount = messages.length + 2;
                                 await updateSessionMetadata(data.sessionId || sessionId!, currentMessageCount);
+                                await syncHistoryIds(data.sessionId || sessionId!);
                             }
                         } else if (data.type === "cancelled") {
                             // User cancelled - not an error, just stop processing
@@ -754,6 +810,61 @@ export default function ChatView({ sessionId: initialSessionId, tabId, initialPr
         }
     }, [queryTrackingId]);
 
+    // Copy the chat up to this message into a new session, with the message ready to edit and resend
+    const handleFork = useCallback(async (messageId: string) => {
+        if (!sessionId) return;
+
+        try {
+            const response = await fetch("/api/chat/sessions/fork", {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({ sessionId, messageId }),
+            });
+            const data = await response.json();
+            if (!response.ok) {
+                throw new Error(data.error || "Failed to fork chat");
+            }
+
+            const newTab = await addNewTab({
+                pluginMeta: chatPluginSerial,
+                view: "chat",
+                props: { sessionId: data.session.id, initialPrompt: data.prompt },
+            });
+            if (newTab) {
+                if (getViewSelfPlacement(tabId) === "sidebar") {
+                    setSidebarTabId(newTab.id);
+                } else {
+                    setActiveTabId(newTab.id);
+                }
+            }
+        } catch (error) {
+            console.error("[Chat] Error forking session:", error);
+            toast.error(error instanceof Error ? error.message : "Failed to fork chat");
+        }
+    }, [sessionId, addNewTab, getViewSelfPlacement, tabId, setSidebarTabId, setActiveTabId]);
+
+    const handleRewind = (messageId: string) => {
+        if (!sessionId) return;
+
+        openDialog({
+            content: (
+                <RewindChatSessionDialog
+                    sessionId={sessionId}
+                    messageId={messageId}
+                    onSuccess={async ({ prompt, restoredFiles }) => {
+                        await loadSessionHistory(sessionId);
+                        inputRef.current?.setContent(prompt);
+                        toast.success(
+                            restoredFiles.length > 0
+                                ? `Rewound chat and restored ${restoredFiles.length} file${restoredFiles.length === 1 ? "" : "s"}`
+                                : "Rewound chat"
+                        );
+                    }}
+                />
+            ),
+        });
+    };
+
     // Process queue when isLoading becomes false and queue has items
     useEffect(() => {
         if (!isLoading && messageQueue.length > 0 && !queuePaused && !isProcessingQueueRef.current) {
@@ -782,7 +893,27 @@ export default function ChatView({ sessionId: initialSessionId, tabId, initialPr
                 <Conversation>
                     <ConversationContent>
                     {messages.map((message) => (
-                        <Message key={message.id} from={message.role}>
+                        <Fragment key={message.id}>
+                        {message.historyId && sessionId && !isLoading && (
+                            <Checkpoint>
+                                <CheckpointIcon />
+                                <CheckpointTrigger
+                                    tooltip="Start a new chat from this point"
+                                    onClick={() => handleFork(message.historyId!)}
+                                >
+                                    <GitBranch className="size-3.5" />
+                                    Fork
+                                </CheckpointTrigger>
+                                <CheckpointTrigger
+                                    tooltip="Remove this message and everything after it"
+                                    onClick={() => handleRewind(message.historyId!)}
+                                >
+                                    <RotateCcw className="size-3.5" />
+                                    Rewind
+                                </CheckpointTrigger>
+                            </Checkpoint>
+                        )}
+                        <Message from={message.role}>
                             <MessageContent isUser={message.role === "user"}>
                                 {message.blocks.map((block) => {
                                     if (block.type === "thinking") {
@@ -821,6 +952,10 @@ export default function ChatView({ sessionId: initialSessionId, tabId, initialPr
                                         );
                                     }
 
+                                    if (block.type === "context") {
+                                        return <RetrievedContextCitation key={block.id} sources={block.sources} />;
+                                    }
+
                                     if (block.type === "tool") {
                                         const toolCall = block.toolCall;
 
@@ -859,6 +994,7 @@ export default function ChatView({ sessionId: initialSessionId, tabId, initialPr
                                 })}
                             </MessageContent>
                         </Message>
+                        </Fragment>
                     ))}
                     {isLoading && (() => {
                         const lastMessage = messages[messages.length - 1];
@@ -963,6 +1099,7 @@ export default function ChatView({ sessionId: initialSessionId, tabId, initialPr
                 )}
 
                 <ProseMirrorPromptInput onSubmit={handleSubmit}>
+                    <MentionBudget />
                     <ProseMirrorPromptTextarea
                         ref={inputRef}
                         placeholder={isLoading ? "Type to queue next message..." : "Message..."}
@@ -977,6 +1114,16 @@ export default function ChatView({ sessionId: initialSessionId, tabId, initialPr
                                 disabled={isLoading}
                             />
                             <ProseMirrorPromptAttach disabled={!!pendingPermission} />
+                            <Button
+                                type="button"
+                                onClick={() => setAttachContextOverride(!attachContext)}
+                                variant={attachContext ? "secondary" : "ghost"}
+                                size="icon"
+                                className="h-8 w-8 rounded-full p-0"
+                                title={attachContext ? "Relevant notes are attached to messages" : "Attach relevant notes to messages"}
+                            >
+                                <BookOpen className="h-4 w-4" />
+                            </Button>
                         </div>
                         <div className="flex items-center gap-1">
                             {isLoading && (
@@ -22,6 +22,9 @@ export const SessionMetadataSchema = z.object({
     updatedAt: z.string(),
     messageCount: z.number(),
     agentId: z.string().optional(),
+    scheduled: z.boolean().optional(), // Created by a scheduled agent run
+    scheduleId: z.string().optional(),
+    forkedFrom: z.object({ sessionId: z.string(), messageId: z.string() }).optional(),
 });
 
 export type SessionMetadata = z.infer<typeof SessionMetadataSchema>;
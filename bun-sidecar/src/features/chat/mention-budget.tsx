@@ -0,0 +1,108 @@
+import { useEffect, useState } from "react";
+import { CheckSquare, FileText, Folder, Hash, Image, Scissors } from "lucide-react";
+import { useProseMirrorPrompt } from "@/components/prosemirror/ProseMirrorPromptInput";
+import { useTheme } from "@/hooks/useTheme";
+import { formatMention, parseMentions, type MentionKind, type MentionPreview } from "./mentions";
+
+type MentionsPreviewResponse = {
+    mentions: MentionPreview[];
+    totalTokens: number;
+    budget: number;
+};
+
+const KIND_ICONS: Record<MentionKind, typeof FileText> = {
+    note: FileText,
+    todo: CheckSquare,
+    project: Folder,
+    tag: Hash,
+    upload: Image,
+};
+
+// Wait for typing to pause before resolving mentions
+const PREVIEW_DELAY_MS = 300;
+// The theme has no warning color
+const WARNING_COLOR = "#f59e0b";
+
+function formatTokens(tokens: number): string {
+    return tokens >= 1000 ? `${(tokens / 1000).toFixed(1)}k` : String(tokens);
+}
+
+// The mentions in the chat input, with the share of the token budget each will take
+export function MentionBudget() {
+    const { content } = useProseMirrorPrompt();
+    const { currentTheme } = useTheme();
+    const [preview, setPreview] = useState<MentionsPreviewResponse | null>(null);
+
+    // Only mentions matter, so typing elsewhere in the message doesn't refetch
+    const mentionKey = parseMentions(content).map(formatMention).join("\n");
+
+    useEffect(() => {
+        if (!mentionKey) {
+            setPreview(null);
+            return;
+        }
+        let cancelled = false;
+        const timeout = setTimeout(async () => {
+            try {
+                const response = await fetch("/api/chat/mentions/preview", {
+                    method: "POST",
+                    headers: { "Content-Type": "application/json" },
+                    body: JSON.stringify({ message: mentionKey }),
+                });
+                if (!response.ok) return;
+                const data = (await response.json()) as MentionsPreviewResponse;
+                if (!cancelled) setPreview(data);
+            } catch (error) {
+                console.error("[Chat] Failed to preview mentions:", error);
+            }
+        }, PREVIEW_DELAY_MS);
+        return () => {
+            cancelled = true;
+            clearTimeout(timeout);
+        };
+    }, [mentionKey]);
+
+    if (!mentionKey || !preview || preview.mentions.length === 0) return null;
+
+    const anyTruncated = preview.mentions.some((mention) => mention.truncated);
+
+    return (
+        <div className="flex flex-wrap items-center gap-1.5 px-3 pt-3 text-xs">
+            {preview.mentions.map((mention) => {
+                const Icon = KIND_ICONS[mention.kind];
+                const color = mention.missing
+                    ? currentTheme.styles.semanticDestructive
+                    : mention.truncated
+                      ? WARNING_COLOR
+                      : currentTheme.styles.contentSecondary;
+                const title = mention.missing
+                    ? "Not found; nothing will be attached"
+                    : mention.truncated
+                      ? `Truncated to fit the budget: about ${mention.tokens} of ${mention.originalTokens} tokens`
+                      : `About ${mention.tokens} tokens`;
+                return (
+                    <span
+                        key={`${mention.kind}:${mention.id}`}
+                        className="inline-flex items-center gap-1 rounded-full px-2 py-0.5"
+                        style={{ backgroundColor: currentTheme.styles.surfaceSecondary, color }}
+                        title={title}
+                    >
+                        <Icon className="size-3" />
+                        <span className={mention.missing ? "line-through" : undefined}>{mention.label}</span>
+                        {!mention.missing && (
+                            <span style={{ color: currentTheme.styles.contentTertiary }}>
+                                {mention.truncated
+                                    ? `${formatTokens(mention.tokens)}/${formatTokens(mention.originalTokens)}`
+                                    : formatTokens(mention.tokens)}
+                            </span>
+                        )}
+                        {mention.truncated && <Scissors className="size-3" />}
+                    </span>
+                );
+            })}
+            <span className="ml-auto" style={{ color: anyTruncated ? WARNING_COLOR : currentTheme.styles.contentTertiary }}>
+                {formatTokens(preview.totalTokens)} / {formatTokens(preview.budget)} tokens
+            </span>
+        </div>
+    );
+}
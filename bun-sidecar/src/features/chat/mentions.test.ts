@@ -0,0 +1,76 @@
+import { describe, test, expect } from "bun:test";
+import {
+    IMAGE_TOKEN_ESTIMATE,
+    fitMentionsToBudget,
+    formatMention,
+    formatMentionContext,
+    parseMentions,
+    splitPromptContext,
+    type ResolvedMention,
+} from "./mentions";
+import { formatRetrievedContext } from "./retrieved-context";
+
+function resolved(fields: Partial<ResolvedMention> & Pick<ResolvedMention, "id" | "content">): ResolvedMention {
+    return { kind: "note", label: fields.id, ...fields };
+}
+
+describe("parseMentions", () => {
+    test("finds typed mentions in order without duplicates", () => {
+        const text = "Compare @[note:Projects/Plan.md] with @[tag:research] and @[note:Projects/Plan.md] @[todo:]";
+
+        expect(parseMentions(text)).toEqual([
+            { kind: "note", id: "Projects/Plan.md" },
+            { kind: "tag", id: "research" },
+        ]);
+    });
+
+    test("reads mentions escaped by the markdown serializer", () => {
+        expect(parseMentions("See @\\[note:my\\_notes/Q\\*1.md\\]")).toEqual([{ kind: "note", id: "my_notes/Q*1.md" }]);
+    });
+
+    test("round-trips formatMention", () => {
+        const mention = { kind: "project" as const, id: "Big Launch" };
+        expect(parseMentions(formatMention(mention))).toEqual([mention]);
+    });
+});
+
+describe("fitMentionsToBudget", () => {
+    test("keeps small mentions whole and splits the rest between large ones", () => {
+        const fitted = fitMentionsToBudget(
+            [
+                resolved({ id: "small.md", content: "x".repeat(400) }), // 100 tokens
+                resolved({ id: "large-a.md", content: "y".repeat(4000) }), // 1000 tokens
+                resolved({ id: "large-b.md", content: "z".repeat(4000) }),
+            ],
+            500
+        );
+
+        expect(fitted.map((mention) => [mention.tokens, mention.truncated])).toEqual([
+            [100, false],
+            [200, true],
+            [200, true],
+        ]);
+        expect(fitted[1]!.originalTokens).toBe(1000);
+    });
+
+    test("leaves out images that don't fit", () => {
+        const fitted = fitMentionsToBudget(
+            [resolved({ kind: "upload", id: "a.png", content: "/api/uploads/a.png" })],
+            IMAGE_TOKEN_ESTIMATE - 1
+        );
+
+        expect(fitted[0]).toMatchObject({ content: "", tokens: 0, truncated: true });
+    });
+});
+
+test("splitPromptContext removes mentioned and retrieved context", () => {
+    const [mention] = fitMentionsToBudget([resolved({ id: "Plan.md", content: "Ship in March" })]);
+    const retrieved = formatRetrievedContext([{ source: "notes", fileName: "Dates.md", heading: "", line: 1, text: "March 3" }]);
+    const prompt = formatMentionContext([mention!]) + retrieved + "When is @[note:Plan.md] due?";
+
+    expect(prompt).toContain('<note id="Plan.md" title="Plan.md">\nShip in March\n</note>');
+    expect(splitPromptContext(prompt)).toEqual({
+        sources: [{ source: "notes", fileName: "Dates.md", heading: "", line: 1, text: "March 3" }],
+        text: "When is @[note:Plan.md] due?",
+    });
+});
@@ -0,0 +1,134 @@
+// Typed @-mentions in chat messages, e.g. @[note:Projects/Plan.md] or @[tag:research].
+// The server resolves each mention into a context block sent ahead of the message; all blocks share
+// one token budget, and blocks that don't fit are truncated rather than dropped.
+
+import { splitRetrievedContext, type RetrievedSource } from "./retrieved-context";
+
+export const MENTION_KINDS = ["note", "todo", "project", "tag", "upload"] as const;
+export type MentionKind = (typeof MENTION_KINDS)[number];
+
+export type Mention = { kind: MentionKind; id: string };
+
+// A mention with its content, before budgeting
+export type ResolvedMention = Mention & {
+    label: string;
+    content: string;
+    missing?: boolean; // The note, todo, project, tag or upload doesn't exist
+};
+
+// A mention as it will be sent: content cut to its share of the budget
+export type BudgetedMention = ResolvedMention & {
+    tokens: number;
+    originalTokens: number;
+    truncated: boolean;
+};
+
+// What the input shows while typing: everything but the content
+export type MentionPreview = Omit<BudgetedMention, "content">;
+
+// Total tokens of mentioned content per message
+export const MENTION_TOKEN_BUDGET = 30000;
+// Rough cost of an attached image
+export const IMAGE_TOKEN_ESTIMATE = 1600;
+
+const MENTION_REGEX = /@\\?\[(note|todo|project|tag|upload):((?:\\.|[^\\\]\n])+?)\\?\]/g;
+// The chat input serializes to markdown, which escapes punctuation inside mentions
+const MARKDOWN_ESCAPE_REGEX = /\\([!-/:-@[-`{-~])/g;
+
+const OPEN_TAG = "<mentioned-context>";
+const CLOSE_TAG = "</mentioned-context>";
+
+export function formatMention(mention: Mention): string {
+    return `@[${mention.kind}:${mention.id}]`;
+}
+
+// Mentions in the order they first appear, without duplicates
+export function parseMentions(text: string): Mention[] {
+    const seen = new Set<string>();
+    const mentions: Mention[] = [];
+    for (const match of text.matchAll(MENTION_REGEX)) {
+        const mention = { kind: match[1] as MentionKind, id: match[2]!.replace(MARKDOWN_ESCAPE_REGEX, "$1").trim() };
+        const key = formatMention(mention);
+        if (mention.id && !seen.has(key)) {
+            seen.add(key);
+            mentions.push(mention);
+        }
+    }
+    return mentions;
+}
+
+// About four characters per token for English text; close enough for budgeting
+export function estimateTokens(text: string): number {
+    return Math.ceil(text.length / 4);
+}
+
+// Cut text to about `tokens` tokens, at a line break when there is one nearby
+export function truncateToTokens(text: string, tokens: number): string {
+    const maxChars = tokens * 4;
+    if (text.length <= maxChars) return text;
+    const cut = text.lastIndexOf("\n", maxChars);
+    return text.slice(0, cut > maxChars * 0.8 ? cut : maxChars).trimEnd();
+}
+
+/**
+ * Share the budget between mentions: small ones are kept whole, and whatever is left
+ * is split evenly between the larger ones.
+ */
+export function fitMentionsToBudget(mentions: ResolvedMention[], budget = MENTION_TOKEN_BUDGET): BudgetedMention[] {
+    const sizes = mentions.map((mention) => (mention.kind === "upload" && !mention.missing ? IMAGE_TOKEN_ESTIMATE : estimateTokens(mention.content)));
+    const allowances = new Array<number>(mentions.length).fill(0);
+
+    let remaining = budget;
+    const bySize = sizes.map((size, index) => ({ size, index })).sort((a, b) => a.size - b.size);
+    bySize.forEach(({ size, index }, position) => {
+        const share = Math.floor(remaining / (bySize.length - position));
+        allowances[index] = Math.min(size, share);
+        remaining -= allowances[index]!;
+    });
+
+    return mentions.map((mention, index) => {
+        const originalTokens = sizes[index]!;
+        const truncated = allowances[index]! < originalTokens;
+        // Images can't be cut down; one that doesn't fit is left out
+        if (mention.kind === "upload") {
+            return { ...mention, content: truncated ? "" : mention.content, tokens: truncated ? 0 : originalTokens, originalTokens, truncated };
+        }
+        const content = truncated ? truncateToTokens(mention.content, allowances[index]!) : mention.content;
+        return { ...mention, content, tokens: estimateTokens(content), originalTokens, truncated };
+    });
+}
+
+export function toMentionPreview(mention: BudgetedMention): MentionPreview {
+    return {
+        kind: mention.kind,
+        id: mention.id,
+        label: mention.label,
+        missing: mention.missing,
+        tokens: mention.tokens,
+        originalTokens: mention.originalTokens,
+        truncated: mention.truncated,
+    };
+}
+
+export function formatMentionContext(mentions: BudgetedMention[]): string {
+    const blocks = mentions
+        .filter((mention) => !mention.missing && mention.kind !== "upload")
+        .map((mention) => {
+            const note = mention.truncated ? ` truncated="about ${mention.tokens} of ${mention.originalTokens} tokens shown"` : "";
+            const content = mention.content.replaceAll(CLOSE_TAG, "");
+            const attributes = `id="${mention.id.replaceAll('"', "'")}" title="${mention.label.replaceAll('"', "'")}"`;
+            return `<${mention.kind} ${attributes}${note}>\n${content}\n</${mention.kind}>`;
+        });
+    if (blocks.length === 0) return "";
+    return `${OPEN_TAG}\nContent of the items the user mentioned with @[kind:id] in their message.\n\n${blocks.join("\n\n")}\n${CLOSE_TAG}\n\n`;
+}
+
+/**
+ * Separate context the server added to a prompt (mentioned items, then retrieved note excerpts)
+ * from the message the user typed.
+ */
+export function splitPromptContext(text: string): { sources: RetrievedSource[]; text: string } {
+    const end = text.indexOf(CLOSE_TAG);
+    const withoutMentions = text.startsWith(OPEN_TAG) && end !== -1 ? text.slice(end + CLOSE_TAG.length).replace(/^\n+/, "") : text;
+    return splitRetrievedContext(withoutMentions);
+}
@@ -0,0 +1,76 @@
+import { FileText } from "lucide-react";
+import {
+    InlineCitation,
+    InlineCitationCard,
+    InlineCitationCardBody,
+    InlineCitationCardTrigger,
+    InlineCitationCarousel,
+    InlineCitationCarouselContent,
+    InlineCitationCarouselHeader,
+    InlineCitationCarouselIndex,
+    InlineCitationCarouselItem,
+    InlineCitationCarouselNext,
+    InlineCitationCarouselPrev,
+    InlineCitationQuote,
+    InlineCitationSource,
+    InlineCitationText,
+} from "@/components/ai-elements/inline-citation";
+import { useWorkspaceContext } from "@/contexts/WorkspaceContext";
+import { notesPluginSerial } from "@/features/notes";
+import { todosPluginSerial } from "@/features/todos";
+import type { RetrievedSource } from "./retrieved-context";
+
+const QUOTE_LENGTH = 280;
+
+function getSourceName(source: RetrievedSource): string {
+    return source.fileName.replace(/\.md$/, "").split("/").pop() || source.fileName;
+}
+
+// Note excerpts that semantic search attached to a chat message, numbered as the model was told to cite them
+export function RetrievedContextCitation({ sources }: { sources: RetrievedSource[] }) {
+    const { openTab } = useWorkspaceContext();
+
+    const openSource = (source: RetrievedSource) => {
+        if (source.source === "todos") {
+            openTab({ pluginMeta: todosPluginSerial, view: "editor", props: { todoId: source.fileName.replace(/\.md$/, "") } });
+        } else {
+            openTab({ pluginMeta: notesPluginSerial, view: "editor", props: { noteFileName: source.fileName } });
+        }
+    };
+
+    return (
+        <InlineCitation className="mb-2 text-xs text-muted-foreground">
+            <InlineCitationText className="inline-flex items-center gap-1">
+                <FileText className="size-3" />
+                Used {sources.length} note {sources.length === 1 ? "excerpt" : "excerpts"}
+            </InlineCitationText>
+            <InlineCitationCard>
+                <InlineCitationCardTrigger sources={sources.map(getSourceName)} />
+                <InlineCitationCardBody>
+                    <InlineCitationCarousel>
+                        <InlineCitationCarouselHeader>
+                            <InlineCitationCarouselPrev />
+                            <InlineCitationCarouselNext />
+                            <InlineCitationCarouselIndex />
+                        </InlineCitationCarouselHeader>
+                        <InlineCitationCarouselContent>
+                            {sources.map((source, i) => (
+                                <InlineCitationCarouselItem key={`${source.fileName}-${source.line}`}>
+                                    <InlineCitationSource
+                                        title={`[${i + 1}] ${getSourceName(source)}`}
+                                        url={source.heading ? `${source.fileName} › ${source.heading}` : source.fileName}
+                                        className="cursor-pointer"
+                                        onClick={() => openSource(source)}
+                                    />
+                                    <InlineCitationQuote>
+                                        {source.text.length > QUOTE_LENGTH ? `${source.text.slice(0, QUOTE_LENGTH)}…` : source.text}
+                                    </InlineCitationQuote>
+                                </InlineCitationCarouselItem>
+                            ))}
+                        </InlineCitationCarouselContent>
+                    </InlineCitationCarousel>
+                </InlineCitationCardBody>
+            </InlineCitationCard>
+        </InlineCitation>
+    );
+}
@@ -0,0 +1,19 @@
+import { test, expect } from "bun:test";
+import { formatRetrievedContext, splitRetrievedContext, type RetrievedSource } from "./retrieved-context";
+
+const sources: RetrievedSource[] = [
+    { source: "notes", fileName: "Projects/Launch.md", heading: "Plan > Dates", line: 12, text: "Launch on March 3\n\nAfter the beta" },
+    { source: "todos", fileName: "todo-1.md", heading: "", line: 1, text: "Book venue" },
+];
+
+test("splitRetrievedContext recovers the sources and the typed message", () => {
+    const prompt = formatRetrievedContext(sources) + "When do we launch?";
+
+    expect(prompt.startsWith("<workspace-context>")).toBe(true);
+    expect(splitRetrievedContext(prompt)).toEqual({ sources, text: "When do we launch?" });
+});
+
+test("splitRetrievedContext leaves other messages alone", () => {
+    expect(splitRetrievedContext("Hello <workspace-context>")).toEqual({ sources: [], text: "Hello <workspace-context>" });
+    expect(formatRetrievedContext([])).toBe("");
+});
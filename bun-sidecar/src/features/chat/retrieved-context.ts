@@ -0,0 +1,54 @@
+// Note excerpts attached to a chat prompt by semantic search.
+// The excerpts are sent as a tagged block in front of the user's message, so the session history keeps
+// them; splitRetrievedContext takes them back out for display.
+
+export type RetrievedSource = {
+  source: "notes" | "todos";
+  fileName: string;
+  heading: string;
+  line: number;
+  text: string;
+};
+
+const OPEN_TAG = "<workspace-context>";
+const CLOSE_TAG = "</workspace-context>";
+const INSTRUCTIONS =
+  "Excerpts from the user's notes and todos that may relate to their message, found by semantic search. " +
+  "Cite an excerpt as [n] where you use it, and ignore excerpts that don't help.";
+
+// "[1] notes:Projects/plan.md › Goals (line 12)"
+const SOURCE_HEADER_REGEX = /^\[(\d+)\] (notes|todos):(.+?)(?: › (.+?))? \(line (\d+)\)$/gm;
+
+export function formatRetrievedContext(sources: RetrievedSource[]): string {
+  if (sources.length === 0) return "";
+  const entries = sources.map((source, i) => {
+    const heading = source.heading ? ` › ${source.heading}` : "";
+    const text = source.text.replaceAll(CLOSE_TAG, "");
+    return `[${i + 1}] ${source.source}:${source.fileName}${heading} (line ${source.line})\n${text}`;
+  });
+  return `${OPEN_TAG}\n${INSTRUCTIONS}\n\n${entries.join("\n\n")}\n${CLOSE_TAG}\n\n`;
+}
+
+// Separate attached excerpts from the message the user typed
+export function splitRetrievedContext(text: string): { sources: RetrievedSource[]; text: string } {
+  const end = text.indexOf(CLOSE_TAG);
+  if (!text.startsWith(OPEN_TAG) || end === -1) {
+    return { sources: [], text };
+  }
+
+  const block = text.slice(OPEN_TAG.length, end);
+  const headers = [...block.matchAll(SOURCE_HEADER_REGEX)];
+  const sources = headers.map((header, i) => {
+    const start = header.index + header[0].length + 1;
+    const next = headers[i + 1]?.index ?? block.length;
+    return {
+      source: header[2] as "notes" | "todos",
+      fileName: header[3]!,
+      heading: header[4] ?? "",
+      line: Number(header[5]),
+      text: block.slice(start, next).trim(),
+    };
+  });
+
+  return { sources, text: text.slice(end + CLOSE_TAG.length).replace(/^\n+/, "") };
+}
@@ -0,0 +1,75 @@
+import * as React from "react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { DialogFooter, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { useCommandDialog } from "@/components/CommandDialogProvider";
+import { toast } from "sonner";
+
+interface RewindChatSessionDialogProps {
+    sessionId: string;
+    messageId: string;
+    onSuccess?: (result: { prompt: string; restoredFiles: string[] }) => void;
+}
+
+export function RewindChatSessionDialog({ sessionId, messageId, onSuccess }: RewindChatSessionDialogProps) {
+    const [isRewinding, setIsRewinding] = React.useState(false);
+    const [restoreNotes, setRestoreNotes] = React.useState(true);
+    const { closeDialog } = useCommandDialog();
+
+    const handleRewind = async () => {
+        setIsRewinding(true);
+        try {
+            const response = await fetch("/api/chat/sessions/rewind", {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({ sessionId, messageId, restoreNotes }),
+            });
+
+            const data = await response.json();
+            if (!response.ok) {
+                throw new Error(data.error || "Failed to rewind session");
+            }
+
+            closeDialog();
+            onSuccess?.({ prompt: data.prompt, restoredFiles: data.restoredFiles });
+        } catch (error) {
+            console.error("Failed to rewind chat session:", error);
+            toast.error(error instanceof Error ? error.message : "Failed to rewind session");
+        } finally {
+            setIsRewinding(false);
+        }
+    };
+
+    return (
+        <>
+            <DialogHeader>
+                <DialogTitle>Rewind to this message?</DialogTitle>
+                <DialogDescription>
+                    This message and everything after it will be removed from the chat. Fork the chat instead to keep both versions.
+                </DialogDescription>
+            </DialogHeader>
+            <div className="flex items-center gap-2">
+                <Checkbox
+                    id="restore-notes"
+                    checked={restoreNotes}
+                    onCheckedChange={(checked) => setRestoreNotes(checked === true)}
+                />
+                <label htmlFor="restore-notes" className="text-sm cursor-pointer">
+                    Also restore files the agent changed since this message
+                </label>
+            </div>
+            <DialogFooter>
+                <Button variant="ghost" onClick={closeDialog}>
+                    Cancel
+                </Button>
+                <Button
+                    variant="destructive"
+                    onClick={handleRewind}
+                    disabled={isRewinding}
+                >
+                    {isRewinding ? "Rewinding..." : "Rewind"}
+                </Button>
+            </DialogFooter>
+        </>
+    );
+}
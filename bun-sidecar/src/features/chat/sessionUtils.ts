@@ -1,7 +1,11 @@
 // Session utility functions for message reconstruction
 
+import { splitPromptContext } from "./mentions";
+import type { RetrievedSource } from "./retrieved-context";
+
 export type ContentBlock =
   | { type: "text"; content: string; id: string }
+  | { type: "context"; sources: RetrievedSource[]; id: string }
   | { type: "image"; content: string; id: string }
   | { type: "thinking"; content: string; id: string }
   | { type: "tool"; toolCall: ToolCall; id: string };
@@ -19,6 +23,7 @@ export type ChatMessage = {
   id: string;
   role: "user" | "assistant";
   blocks: ContentBlock[];
+  historyId?: string; // uuid of the user message in the session history, once it has been saved
 };
 
 export type SessionMetadata = {
@@ -27,6 +32,9 @@ export type SessionMetadata = {
   createdAt: string;
   updatedAt: string;
   messageCount: number;
+  scheduled?: boolean; // Created by a scheduled agent run
+  scheduleId?: string;
+  forkedFrom?: { sessionId: string; messageId: string }; // Forked from this session at this user message
 };
 
 type SDKMessage = {
@@ -106,17 +114,28 @@ export function reconstructMessages(sdkMessages: SDKMessage[]): ChatMessage[] {
         continue;
       }
 
+      // Context the server put ahead of the typed text is not shown; note excerpts become citations
+      const retrieved = splitPromptContext(textContent);
+
       const userMessage: ChatMessage = {
         id: msg.uuid || crypto.randomUUID(),
+        historyId: msg.uuid,
         role: "user",
         blocks: [
           {
             type: "text",
-            content: textContent,
+            content: retrieved.text,
             id: `text-${msg.uuid || crypto.randomUUID()}`,
           },
         ],
       };
+      if (retrieved.sources.length > 0) {
+        userMessage.blocks.push({
+          type: "context",
+          sources: retrieved.sources,
+          id: `context-${msg.uuid || crypto.randomUUID()}`,
+        });
+      }
       uiMessages.push(userMessage);
       currentAssistantMessage = null; // Reset assistant message accumulator
       continue;
@@ -189,7 +208,7 @@ export function extractSessionTitle(sdkMessages: SDKMessage[]): string {
     const content =
       typeof firstUserMessage.message === "string"
         ? firstUserMessage.message
-        : (firstUserMessage.message?.content?.[0] as { text?: string })?.text || "";
+        : splitPromptContext((firstUserMessage.message?.content?.[0] as { text?: string })?.text || "").text;
     // Truncate to 60 characters
     return content.length > 60 ? content.slice(0, 60) + "..." : content;
   }
@@ -200,3 +219,35 @@ export function extractSessionTitle(sdkMessages: SDKMessage[]): string {
 export function countMessages(sdkMessages: SDKMessage[]): number {
   return sdkMessages.filter((msg) => msg.type === "user" || msg.type === "assistant").length;
 }
+
+// Order sessions so each fork follows the session it was forked from, with its depth in the fork tree
+export function orderByForkTree<T extends SessionMetadata>(sessions: T[]): Array<{ session: T; depth: number }> {
+  const ids = new Set(sessions.map((session) => session.id));
+  const children = new Map<string, T[]>();
+  const roots: T[] = [];
+
+  for (const session of sessions) {
+    const parentId = session.forkedFrom?.sessionId;
+    if (parentId && parentId !== session.id && ids.has(parentId)) {
+      children.set(parentId, [...(children.get(parentId) ?? []), session]);
+    } else {
+      roots.push(session);
+    }
+  }
+
+  const ordered: Array<{ session: T; depth: number }> = [];
+  const visited = new Set<string>();
+  const visit = (session: T, depth: number) => {
+    if (visited.has(session.id)) return;
+    visited.add(session.id);
+    ordered.push({ session, depth });
+    for (const child of children.get(session.id) ?? []) {
+      visit(child, depth + 1);
+    }
+  };
+
+  roots.forEach((root) => visit(root, 0));
+  // Sessions in a fork cycle have no root; list them at the top level
+  sessions.forEach((session) => visit(session, 0));
+  return ordered;
+}
@@ -1,16 +1,20 @@
 /**
  * BacklinksPanel Component
  *
- * Displays backlinks (notes that link to the current note) and phantom links
- * (links to notes that don't exist yet) in a collapsible sidebar panel.
+ * Displays backlinks (notes that link to the current note, with the headings or
+ * blocks they link to), unlinked mentions (plain-text uses of its title or aliases,
+ * each linkable in one click) and phantom links (links to notes that don't exist yet)
+ * in a collapsible sidebar panel.
  */
 
 import { useEffect, useState, useCallback } from "react";
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
 import { ChevronDown, FileText, AlertCircle } from "lucide-react";
+import { toast } from "sonner";
 import { useTheme } from "@/hooks/useTheme";
 import { useNotesAPI } from "@/hooks/useNotesAPI";
-import { BacklinksResult } from "./backlinks-types";
+import { BacklinksResult, UnlinkedMention, UnlinkedMentionsResult } from "./backlinks-types";
+import { linkMention } from "./unlinked-mentions";
 import { cn } from "@/lib/utils";
 
 interface BacklinksPanelProps {
@@ -65,6 +69,8 @@ function CollapsibleSection({ title, count, defaultOpen = true, children }: Coll
 export function BacklinksPanel({ noteFileName, onOpenNote, onCreateNote }: BacklinksPanelProps) {
     const [backlinksData, setBacklinksData] = useState<BacklinksResult | null>(null);
     const [isLoading, setIsLoading] = useState(true);
+    const [mentionsData, setMentionsData] = useState<UnlinkedMentionsResult | null>(null);
+    const [linkingMention, setLinkingMention] = useState<string | null>(null);
     const { currentTheme } = useTheme();
     const notesAPI = useNotesAPI();
 
@@ -81,10 +87,41 @@ export function BacklinksPanel({ noteFileName, onOpenNote, onCreateNote }: Backl
         }
     }, [noteFileName, notesAPI]);
 
+    // Scanning for mentions reads every note, so it loads separately from the backlinks index
+    const fetchUnlinkedMentions = useCallback(async () => {
+        try {
+            const result = await notesAPI.getUnlinkedMentions({ fileName: noteFileName });
+            setMentionsData(result);
+        } catch (error) {
+            console.error("Failed to fetch unlinked mentions:", error);
+            setMentionsData({ mentions: [] });
+        }
+    }, [noteFileName, notesAPI]);
+
     useEffect(() => {
         fetchBacklinks();
     }, [fetchBacklinks]);
 
+    useEffect(() => {
+        setMentionsData(null);
+        fetchUnlinkedMentions();
+    }, [fetchUnlinkedMentions]);
+
+    const handleLinkMention = async (sourceFile: string, mention: UnlinkedMention) => {
+        setLinkingMention(`${sourceFile}:${mention.offset}`);
+        try {
+            const source = await notesAPI.getNoteByFileName({ fileName: sourceFile, skipCache: true });
+            await notesAPI.saveNote({ fileName: sourceFile, content: linkMention(source.content, mention, noteFileName) });
+            const [backlinks] = await Promise.all([notesAPI.getBacklinks({ fileName: noteFileName }), fetchUnlinkedMentions()]);
+            setBacklinksData(backlinks);
+        } catch (error) {
+            toast.error(error instanceof Error ? error.message : "Failed to link mention");
+            fetchUnlinkedMentions();
+        } finally {
+            setLinkingMention(null);
+        }
+    };
+
     if (isLoading) {
         return (
             <div className="p-3">
@@ -100,6 +137,8 @@ export function BacklinksPanel({ noteFileName, onOpenNote, onCreateNote }: Backl
 
     const backlinks = backlinksData?.backlinks || [];
     const phantomLinks = backlinksData?.phantomLinks || [];
+    const unlinkedMentions = mentionsData?.mentions || [];
+    const mentionCount = unlinkedMentions.reduce((count, source) => count + source.mentions.length, 0);
 
     return (
         <div className="space-y-2">
@@ -124,12 +163,77 @@ export function BacklinksPanel({ noteFileName, onOpenNote, onCreateNote }: Backl
                             >
                                 <FileText className="h-3 w-3 shrink-0" />
                                 <span className="truncate">{link.displayName}</span>
+                                {link.embeds && (
+                                    <span
+                                        className="text-[9px] px-1 rounded shrink-0"
+                                        style={{
+                                            backgroundColor: currentTheme.styles.surfaceMuted,
+                                            color: currentTheme.styles.contentTertiary,
+                                        }}
+                                        title="Embeds this note"
+                                    >
+                                        embed
+                                    </span>
+                                )}
+                                {link.anchors.length > 0 && (
+                                    <span
+                                        className="text-[10px] truncate ml-auto"
+                                        style={{ color: currentTheme.styles.contentTertiary }}
+                                        title={`Links to ${link.anchors.map((anchor) => `#${anchor}`).join(", ")}`}
+                                    >
+                                        {link.anchors.map((anchor) => `#${anchor}`).join(", ")}
+                                    </span>
+                                )}
                             </button>
                         ))}
                     </div>
                 )}
             </CollapsibleSection>
 
+            {/* Unlinked mentions section - only show if there are any */}
+            {mentionCount > 0 && (
+                <CollapsibleSection title="Unlinked Mentions" count={mentionCount} defaultOpen={false}>
+                    <div className="space-y-1">
+                        {unlinkedMentions.map((source) => (
+                            <div key={source.sourceFile} className="px-2">
+                                <button
+                                    onClick={() => onOpenNote(source.sourceFile)}
+                                    className="w-full flex items-center gap-1.5 py-1 text-left text-xs rounded hover:bg-accent/50 transition-colors truncate"
+                                    style={{ color: currentTheme.styles.contentSecondary }}
+                                    title={source.sourceFile}
+                                >
+                                    <FileText className="h-3 w-3 shrink-0" />
+                                    <span className="truncate">{source.displayName}</span>
+                                </button>
+                                {source.mentions.map((mention) => {
+                                    const mentionKey = `${source.sourceFile}:${mention.offset}`;
+                                    return (
+                                        <div key={mentionKey} className="flex items-start gap-1.5 pl-4 pb-1">
+                                            <span
+                                                className="text-[10px] line-clamp-2 flex-1 min-w-0"
+                                                style={{ color: currentTheme.styles.contentTertiary }}
+                                                title={`Line ${mention.line}`}
+                                            >
+                                                {mention.context}
+                                            </span>
+                                            <button
+                                                onClick={() => handleLinkMention(source.sourceFile, mention)}
+                                                disabled={linkingMention !== null}
+                                                className="text-[9px] shrink-0 hover:underline disabled:opacity-50"
+                                                style={{ color: currentTheme.styles.contentAccent }}
+                                                title={`Link "${mention.text}" to this note`}
+                                            >
+                                                {linkingMention === mentionKey ? "linking..." : "link"}
+                                            </button>
+                                        </div>
+                                    );
+                                })}
+                            </div>
+                        ))}
+                    </div>
+                </CollapsibleSection>
+            )}
+
             {/* Phantom links section - only show if there are any */}
             {phantomLinks.length > 0 && (
                 <CollapsibleSection title="Phantom Links" count={phantomLinks.length} defaultOpen={true}>
@@ -9,12 +9,19 @@ import { mkdir } from "node:fs/promises";
 import { join } from "path";
 import { getNomendexPath, getNotesPath, hasActiveWorkspace } from "@/storage/root-path";
 import {
+    BACKLINKS_INDEX_VERSION,
     BacklinksIndex,
     BacklinksResult,
     StringSet,
+    UnlinkedMentionsResult,
+    WikiLinkRef,
     createEmptyIndex,
 } from "./backlinks-types";
+import { readFileContents, scanNotesFiles } from "./file-scanner";
 import type { FileIndexData } from "./notes-indexer";
+import { splitFrontMatter } from "./search-service";
+import { findMentions, getMentionTerms } from "./unlinked-mentions";
+import { normalizeAnchor, parseWikiLink } from "./wiki-link-utils";
 
 // In-memory index for fast queries
 let index: BacklinksIndex | null = null;
@@ -23,21 +30,56 @@ let index: BacklinksIndex | null = null;
 const WIKI_LINK_REGEX = /\[\[([^\]]+)\]\]/g;
 
 /**
- * Extract wiki links from markdown content
+ * Extract wiki links and ![[embeds]] from markdown content.
+ * Aliases are dropped and same-note links ([[#Heading]]) are skipped.
  */
-export function extractWikiLinks(content: string): string[] {
-    const links: string[] = [];
+export function extractWikiLinks(content: string): WikiLinkRef[] {
+    const links = new Map<string, WikiLinkRef>();
     let match;
     // Reset regex state
     WIKI_LINK_REGEX.lastIndex = 0;
     while ((match = WIKI_LINK_REGEX.exec(content)) !== null) {
-        const linkTarget = match[1];
-        if (linkTarget) {
-            links.push(linkTarget.trim());
+        const { target, anchor } = parseWikiLink(match[1] ?? "");
+        if (target) {
+            const embed = content[match.index - 1] === "!";
+            const link: WikiLinkRef = { target };
+            if (anchor) link.anchor = anchor;
+            if (embed) link.embed = true;
+            // Dedupe
+            links.set(`${embed ? "!" : ""}${target}#${anchor ?? ""}`, link);
         }
     }
-    // Dedupe
-    return [...new Set(links)];
+    return [...links.values()];
+}
+
+/**
+ * Point wiki links at renamed notes, keeping any #heading or |alias suffix.
+ *
+ * @param renames - Old link target (lowercase, without .md) → new link target
+ */
+export function renameWikiLinkTargets(content: string, renames: Map<string, string>): string {
+    return content.replace(WIKI_LINK_REGEX, (link, inner: string) => {
+        const [, target = "", suffix = ""] = inner.match(/^([^|#]*)(.*)$/s) ?? [];
+        const renamed = renames.get(target.trim().replace(/\.md$/, "").toLowerCase());
+        return renamed ? `[[${renamed}${suffix}]]` : link;
+    });
+}
+
+/**
+ * Point [[target#anchor]] links at a renamed heading, keeping any |alias.
+ *
+ * @param target - Linked note name (without .md), matched case-insensitively
+ */
+export function renameWikiLinkAnchors(content: string, params: { target: string; oldAnchor: string; newAnchor: string }): string {
+    const targetLower = params.target.toLowerCase();
+    const oldAnchor = normalizeAnchor(params.oldAnchor);
+    return content.replace(WIKI_LINK_REGEX, (link, inner: string) => {
+        const { target, anchor, alias } = parseWikiLink(inner);
+        if (!anchor || target.toLowerCase() !== targetLower || normalizeAnchor(anchor) !== oldAnchor) {
+            return link;
+        }
+        return alias ? `[[${target}#${params.newAnchor}|${alias}]]` : `[[${target}#${params.newAnchor}]]`;
+    });
 }
 
 /**
@@ -58,7 +100,9 @@ async function loadIndexFromDisk(): Promise<BacklinksIndex | null> {
             return null;
         }
         const content = await file.text();
-        return JSON.parse(content) as BacklinksIndex;
+        const parsed = JSON.parse(content) as BacklinksIndex;
+        // Older index formats are rebuilt rather than migrated
+        return parsed.version === BACKLINKS_INDEX_VERSION ? parsed : null;
     } catch {
         return null;
     }
@@ -117,73 +161,29 @@ function updateFileInIndex(params: {
     existingFiles: StringSet;
 }): void {
     const { indexRef, fileName, content, existingFiles } = params;
-    const fileNameWithoutExt = fileName.replace(/\.md$/, "");
-
-    // 1. Remove old outbound links for this file - O(L_old)
-    const oldLinks = indexRef.outboundLinks[fileName];
-    if (oldLinks) {
-        for (const target of Object.keys(oldLinks)) {
-            // Remove from backlinks
-            if (indexRef.backlinks[target]) {
-                StringSet.remove(indexRef.backlinks[target], fileName);
-                if (StringSet.isEmpty(indexRef.backlinks[target])) {
-                    delete indexRef.backlinks[target];
-                }
-            }
-            // Remove from phantoms
-            if (indexRef.phantoms[target]) {
-                StringSet.remove(indexRef.phantoms[target], fileName);
-                if (StringSet.isEmpty(indexRef.phantoms[target])) {
-                    delete indexRef.phantoms[target];
-                }
-            }
-        }
-    }
-
-    // 2. Extract new links - O(M)
-    const newLinks = extractWikiLinks(content);
-
-    // 3. Add new outbound links - O(L_new)
-    if (newLinks.length > 0) {
-        indexRef.outboundLinks[fileName] = StringSet.fromArray(newLinks);
-    } else {
-        delete indexRef.outboundLinks[fileName];
-    }
-
-    // 4. Update backlinks and phantoms - O(L_new)
-    for (const target of newLinks) {
-        // Add to backlinks
-        if (!indexRef.backlinks[target]) {
-            indexRef.backlinks[target] = StringSet.create();
-        }
-        StringSet.add(indexRef.backlinks[target], fileName);
-
-        // Check if this is a phantom (target doesn't exist)
-        const targetFile = `${target}.md`;
-        const targetFileLower = targetFile.toLowerCase();
-
-        // Check case-insensitively
-        let targetExists = false;
-        for (const existing of Object.keys(existingFiles)) {
-            if (existing.toLowerCase() === targetFileLower) {
-                targetExists = true;
-                break;
-            }
-        }
+    updateFileInIndexWithLinks({
+        indexRef,
+        fileName,
+        wikiLinks: extractWikiLinks(content),
+        existingFiles,
+    });
+}
 
-        if (!targetExists) {
-            if (!indexRef.phantoms[target]) {
-                indexRef.phantoms[target] = StringSet.create();
-            }
-            StringSet.add(indexRef.phantoms[target], fileName);
+/**
+ * Forget the anchors and embeds a source has in a target
+ */
+function removeLinkDetails(indexRef: BacklinksIndex, target: string, fileName: string): void {
+    const targetAnchors = indexRef.anchors[target];
+    if (targetAnchors) {
+        delete targetAnchors[fileName];
+        if (Object.keys(targetAnchors).length === 0) {
+            delete indexRef.anchors[target];
         }
     }
-
-    // 5. If this file was a phantom target, it's no longer phantom
-    // Check case-insensitively
-    for (const phantomKey of Object.keys(indexRef.phantoms)) {
-        if (phantomKey.toLowerCase() === fileNameWithoutExt.toLowerCase()) {
-            delete indexRef.phantoms[phantomKey];
+    if (indexRef.embeds[target]) {
+        StringSet.remove(indexRef.embeds[target], fileName);
+        if (StringSet.isEmpty(indexRef.embeds[target])) {
+            delete indexRef.embeds[target];
         }
     }
 }
@@ -213,6 +213,7 @@ function removeFileFromIndex(params: {
                     delete indexRef.phantoms[target];
                 }
             }
+            removeLinkDetails(indexRef, target, fileName);
         }
     }
 
@@ -419,11 +420,12 @@ export async function initializeBacklinksWithData(params: {
 function updateFileInIndexWithLinks(params: {
     indexRef: BacklinksIndex;
     fileName: string;
-    wikiLinks: string[];
+    wikiLinks: WikiLinkRef[];
     existingFiles: StringSet;
 }): void {
     const { indexRef, fileName, wikiLinks, existingFiles } = params;
     const fileNameWithoutExt = fileName.replace(/\.md$/, "");
+    const targets = [...new Set(wikiLinks.map((link) => link.target))];
 
     // 1. Remove old outbound links for this file
     const oldLinks = indexRef.outboundLinks[fileName];
@@ -441,18 +443,31 @@ function updateFileInIndexWithLinks(params: {
                     delete indexRef.phantoms[target];
                 }
             }
+            removeLinkDetails(indexRef, target, fileName);
         }
     }
 
     // 2. Add new outbound links
-    if (wikiLinks.length > 0) {
-        indexRef.outboundLinks[fileName] = StringSet.fromArray(wikiLinks);
+    if (targets.length > 0) {
+        indexRef.outboundLinks[fileName] = StringSet.fromArray(targets);
     } else {
         delete indexRef.outboundLinks[fileName];
     }
 
-    // 3. Update backlinks and phantoms
-    for (const target of wikiLinks) {
+    // 3. Record which headings/blocks each target is linked at, and which targets are embedded
+    for (const { target, anchor, embed } of wikiLinks) {
+        if (anchor) {
+            const targetAnchors = (indexRef.anchors[target] ??= {});
+            const sourceAnchors = (targetAnchors[fileName] ??= []);
+            if (!sourceAnchors.includes(anchor)) sourceAnchors.push(anchor);
+        }
+        if (embed) {
+            StringSet.add((indexRef.embeds[target] ??= StringSet.create()), fileName);
+        }
+    }
+
+    // 4. Update backlinks and phantoms
+    for (const target of targets) {
         if (!indexRef.backlinks[target]) {
             indexRef.backlinks[target] = StringSet.create();
         }
@@ -478,7 +493,7 @@ function updateFileInIndexWithLinks(params: {
         }
     }
 
-    // 4. If this file was a phantom target, it's no longer phantom
+    // 5. If this file was a phantom target, it's no longer phantom
     for (const phantomKey of Object.keys(indexRef.phantoms)) {
         if (phantomKey.toLowerCase() === fileNameWithoutExt.toLowerCase()) {
             delete indexRef.phantoms[phantomKey];
@@ -506,7 +521,9 @@ export function getBacklinksForNote(params: { fileName: string }): BacklinksResu
             // Generate display name (remove path and extension)
             const parts = sourceFile.replace(/\.md$/, "").split("/");
             const displayName = parts[parts.length - 1] || sourceFile;
-            backlinks.push({ sourceFile, displayName });
+            const anchors = index.anchors[noteNameWithoutExt]?.[sourceFile] ?? [];
+            const embeds = StringSet.has(index.embeds[noteNameWithoutExt] ?? {}, sourceFile);
+            backlinks.push({ sourceFile, displayName, anchors, embeds });
         }
     }
 
@@ -528,6 +545,42 @@ export function getBacklinksForNote(params: { fileName: string }): BacklinksResu
     return { backlinks, phantomLinks };
 }
 
+/**
+ * Find notes that mention this note's title or aliases in plain text.
+ * Reads through the file scanner's content cache, so only changed files are re-read.
+ */
+export async function getUnlinkedMentions(params: { fileName: string }): Promise<UnlinkedMentionsResult> {
+    if (!hasActiveWorkspace()) {
+        return { mentions: [] };
+    }
+
+    const { fileName } = params;
+    const { files } = await scanNotesFiles();
+    await readFileContents(files);
+
+    const note = files.find((file) => file.relativePath === fileName);
+    const terms = getMentionTerms(fileName, note?.content ? splitFrontMatter(note.content).frontMatter : undefined);
+    const mentions: UnlinkedMentionsResult["mentions"] = [];
+
+    for (const file of files) {
+        if (file.relativePath === fileName || !file.content) {
+            continue;
+        }
+        const found = findMentions(splitFrontMatter(file.content).body, terms);
+        if (found.length > 0) {
+            const parts = file.relativePath.replace(/\.md$/, "").split("/");
+            mentions.push({
+                sourceFile: file.relativePath,
+                displayName: parts[parts.length - 1] || file.relativePath,
+                mentions: found,
+            });
+        }
+    }
+
+    mentions.sort((a, b) => a.sourceFile.localeCompare(b.sourceFile));
+    return { mentions };
+}
+
 /**
  * Get all phantom links in the vault
  */
@@ -647,13 +700,35 @@ export async function onNoteRenamed(params: {
         delete index.backlinks[oldNameWithoutExt];
     }
 
-    // 5. Update mtimes
+    // 5. Move anchors and embeds, both as a linked target and as a linking source
+    if (index.anchors[oldNameWithoutExt]) {
+        index.anchors[newNameWithoutExt] = index.anchors[oldNameWithoutExt];
+        delete index.anchors[oldNameWithoutExt];
+    }
+    for (const targetAnchors of Object.values(index.anchors)) {
+        if (targetAnchors[oldFileName]) {
+            targetAnchors[newFileName] = targetAnchors[oldFileName];
+            delete targetAnchors[oldFileName];
+        }
+    }
+    if (index.embeds[oldNameWithoutExt]) {
+        index.embeds[newNameWithoutExt] = index.embeds[oldNameWithoutExt];
+        delete index.embeds[oldNameWithoutExt];
+    }
+    for (const sources of Object.values(index.embeds)) {
+        if (StringSet.has(sources, oldFileName)) {
+            StringSet.remove(sources, oldFileName);
+            StringSet.add(sources, newFileName);
+        }
+    }
+
+    // 6. Update mtimes
     if (index.mtimes[oldFileName]) {
         index.mtimes[newFileName] = index.mtimes[oldFileName];
         delete index.mtimes[oldFileName];
     }
 
-    // 6. If old name was a phantom, remove it (it's been renamed)
+    // 7. If old name was a phantom, remove it (it's been renamed)
     if (index.phantoms[oldNameWithoutExt]) {
         delete index.phantoms[oldNameWithoutExt];
     }
@@ -24,9 +24,19 @@ export const StringSet = {
     isEmpty: (set: StringSet): boolean => Object.keys(set).length === 0,
 };
 
+// A link found in a note: the target note and, for [[Note#Heading]] or [[Note#^id]], the anchor
+export interface WikiLinkRef {
+    target: string;
+    anchor?: string;
+    embed?: boolean; // ![[Note]] transclusion
+}
+
+// Bump when the index shape changes; older indexes are rebuilt on load
+export const BACKLINKS_INDEX_VERSION = 3;
+
 // The persisted index structure
 export interface BacklinksIndex {
-    version: 1;
+    version: typeof BACKLINKS_INDEX_VERSION;
     lastFullScan: string; // ISO timestamp
 
     // Inverted index: target → sources that link to it
@@ -41,6 +51,13 @@ export interface BacklinksIndex {
     // Key: phantom target name, Value: set of files referencing it
     phantoms: Record<string, StringSet>;
 
+    // Anchors linked to in each target
+    // Key: target note name, Value: source filename → anchors it links to
+    anchors: Record<string, Record<string, string[]>>;
+
+    // Embeds: target → sources that transclude it with ![[target]]
+    embeds: Record<string, StringSet>;
+
     // File modification times for incremental updates
     // Key: filename, Value: mtime in ms
     mtimes: Record<string, number>;
@@ -51,6 +68,8 @@ export interface BacklinksResult {
     backlinks: Array<{
         sourceFile: string; // e.g., "projects/alpha.md"
         displayName: string; // e.g., "alpha" (for display)
+        anchors: string[]; // Headings/blocks the source links to, e.g. ["Goals", "^summary"]
+        embeds: boolean; // Whether the source transcludes this note with ![[...]]
     }>;
     phantomLinks: Array<{
         targetName: string; // e.g., "Not-created-file"
@@ -58,14 +77,33 @@ export interface BacklinksResult {
     }>;
 }
 
+// A plain-text mention of a note's title or alias that isn't a [[link]] yet
+export interface UnlinkedMention {
+    offset: number; // Position in the note body (after front matter)
+    text: string; // The mention as written, e.g. "project alpha"
+    line: number; // 1-based line in the body
+    context: string; // The line the mention is on, trimmed
+}
+
+// Query result for UI: notes that mention the current note without linking to it
+export interface UnlinkedMentionsResult {
+    mentions: Array<{
+        sourceFile: string; // e.g., "journal/monday.md"
+        displayName: string; // e.g., "monday"
+        mentions: UnlinkedMention[];
+    }>;
+}
+
 // Create an empty index
 export function createEmptyIndex(): BacklinksIndex {
     return {
-        version: 1,
+        version: BACKLINKS_INDEX_VERSION,
         lastFullScan: new Date().toISOString(),
         backlinks: {},
         outboundLinks: {},
         phantoms: {},
+        anchors: {},
+        embeds: {},
         mtimes: {},
     };
 }
@@ -4,8 +4,9 @@ import { CreateNoteDialog } from "./create-note-dialog";
 import { DeleteNoteDialog } from "./delete-note-dialog";
 import { RenameNoteDialog } from "./rename-note-dialog";
 import { MoveToFolderDialog } from "./move-to-folder-dialog";
-import { getTodayDailyNoteFileName, getYesterdayDailyNoteFileName, getTomorrowDailyNoteFileName } from "./date-utils";
+import { toLocalDateString } from "./date-utils";
 import { DailyNoteDatePickerDialog } from "./daily-note-date-picker-dialog";
+import { MigrateDailyNotesDialog } from "./migrate-daily-notes-dialog";
 import { SearchNotesDialog } from "./search-notes-dialog";
 import { notesAPI } from "@/hooks/useNotesAPI";
 import { notesPluginSerial } from "./index";
@@ -27,6 +28,24 @@ interface CommandContext {
 }
 
 export function getNotesCommands(context: CommandContext): Command[] {
+    // Open (creating from the daily template if missing) the daily note `offset` days from today
+    const openDailyNote = async (offset: number) => {
+        const date = new Date();
+        date.setDate(date.getDate() + offset);
+        const { fileName } = await notesAPI.openDailyNote({ date: toLocalDateString(date) });
+
+        context.openTab({
+            pluginMeta: notesPluginSerial,
+            view: "editor",
+            props: { noteFileName: fileName },
+        });
+
+        // Navigate to workspace if not already there
+        if (context.currentPath !== "/") {
+            context.navigate("/");
+        }
+    };
+
     return [
         {
             id: "notes.search",
@@ -57,6 +76,20 @@ export function getNotesCommands(context: CommandContext): Command[] {
                 });
             },
         },
+        {
+            id: "notes.createFromTemplate",
+            name: "Create Note from Template...",
+            description: "Create a note from a template in the templates folder",
+            icon: "LayoutTemplate",
+            callback: () => {
+                context.closeCommandMenu();
+                context.openDialog({
+                    title: "Create Note from Template",
+                    description: "Enter a name and choose a template",
+                    content: <CreateNoteDialog useTemplate />,
+                });
+            },
+        },
         {
             id: "notes.openDaily",
             name: "Open Today's Daily Note",
@@ -64,28 +97,7 @@ export function getNotesCommands(context: CommandContext): Command[] {
             icon: "Calendar",
             callback: async () => {
                 context.closeCommandMenu();
-                const fileName = getTodayDailyNoteFileName();
-                console.log("Daily note file name");
-                console.log({ fileName });
-
-                // See if note exists
-                const output = await notesAPI.getNoteByFileName({ fileName });
-                console.log("Daily note output");
-                console.log({ output });
-                if (!output) {
-                    await notesAPI.createNote({ fileName });
-                }
-
-                context.openTab({
-                    pluginMeta: notesPluginSerial,
-                    view: "editor",
-                    props: { noteFileName: fileName },
-                });
-
-                // Navigate to workspace if not already there
-                if (context.currentPath !== "/") {
-                    context.navigate("/");
-                }
+                await openDailyNote(0);
             },
         },
         {
@@ -95,28 +107,7 @@ export function getNotesCommands(context: CommandContext): Command[] {
             icon: "CalendarMinus",
             callback: async () => {
                 context.closeCommandMenu();
-                const fileName = getYesterdayDailyNoteFileName();
-                console.log("Yesterday's daily note file name");
-                console.log({ fileName });
-
-                // See if note exists
-                const output = await notesAPI.getNoteByFileName({ fileName });
-                console.log("Yesterday's daily note output");
-                console.log({ output });
-                if (!output) {
-                    await notesAPI.createNote({ fileName });
-                }
-
-                context.openTab({
-                    pluginMeta: notesPluginSerial,
-                    view: "editor",
-                    props: { noteFileName: fileName },
-                });
-
-                // Navigate to workspace if not already there
-                if (context.currentPath !== "/") {
-                    context.navigate("/");
-                }
+                await openDailyNote(-1);
             },
         },
         {
@@ -126,28 +117,7 @@ export function getNotesCommands(context: CommandContext): Command[] {
             icon: "CalendarPlus",
             callback: async () => {
                 context.closeCommandMenu();
-                const fileName = getTomorrowDailyNoteFileName();
-                console.log("Tomorrow's daily note file name");
-                console.log({ fileName });
-
-                // See if note exists
-                const output = await notesAPI.getNoteByFileName({ fileName });
-                console.log("Tomorrow's daily note output");
-                console.log({ output });
-                if (!output) {
-                    await notesAPI.createNote({ fileName });
-                }
-
-                context.openTab({
-                    pluginMeta: notesPluginSerial,
-                    view: "editor",
-                    props: { noteFileName: fileName },
-                });
-
-                // Navigate to workspace if not already there
-                if (context.currentPath !== "/") {
-                    context.navigate("/");
-                }
+                await openDailyNote(1);
             },
         },
         {
@@ -164,6 +134,20 @@ export function getNotesCommands(context: CommandContext): Command[] {
                 });
             },
         },
+        {
+            id: "notes.migrateDailyNotes",
+            name: "Migrate Daily Notes...",
+            description: "Rename daily notes to the current name format and update links",
+            icon: "CalendarSync",
+            callback: () => {
+                context.closeCommandMenu();
+                context.openDialog({
+                    title: "Migrate Daily Notes",
+                    description: "Rename existing daily notes to the current name format and folder",
+                    content: <MigrateDailyNotesDialog />,
+                });
+            },
+        },
         {
             id: "notes.open",
             name: "Notes",
@@ -2,6 +2,7 @@ import * as React from "react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { DialogFooter } from "@/components/ui/dialog";
 import { useCommandDialog } from "@/components/CommandDialogProvider";
 import { useWorkspaceContext } from "@/contexts/WorkspaceContext";
@@ -9,37 +10,71 @@ import { useNotesAPI } from "@/hooks/useNotesAPI";
 import { notesPluginSerial } from "@/features/notes";
 import { KeyboardIndicator } from "@/components/KeyboardIndicator";
 import { useNativeSubmit } from "@/hooks/useNativeKeyboardBridge";
+import { ProjectInput } from "./ProjectInput";
+import { TEMPLATES_FOLDER } from "./templates";
+
+// Select items can't have an empty value
+const NO_TEMPLATE = "__none__";
 
 interface CreateNoteDialogProps {
     onSuccess?: (fileName: string) => void;
+    useTemplate?: boolean; // Preselect the first template
 }
 
-export function CreateNoteDialog({ onSuccess }: CreateNoteDialogProps) {
+export function CreateNoteDialog({ onSuccess, useTemplate = false }: CreateNoteDialogProps) {
     const [noteName, setNoteName] = React.useState("");
+    const [templates, setTemplates] = React.useState<Array<{ fileName: string; name: string }>>([]);
+    const [templateFileName, setTemplateFileName] = React.useState(NO_TEMPLATE);
+    const [project, setProject] = React.useState<string | null>(null);
     const [isCreating, setIsCreating] = React.useState(false);
+    const [error, setError] = React.useState<string | null>(null);
     const { closeDialog } = useCommandDialog();
     const { addNewTab, setActiveTabId } = useWorkspaceContext();
     const api = useNotesAPI();
 
+    React.useEffect(() => {
+        api.getNoteTemplates()
+            .then((result) => {
+                setTemplates(result);
+                if (useTemplate && result[0]) {
+                    setTemplateFileName(result[0].fileName);
+                }
+            })
+            .catch((err) => console.error("Failed to load note templates:", err));
+    }, [api, useTemplate]);
+
+    const hasTemplate = templateFileName !== NO_TEMPLATE;
+
     const doCreate = React.useCallback(async () => {
         if (!noteName.trim() || isCreating) return;
 
         setIsCreating(true);
+        setError(null);
         try {
             // Sanitize filename - remove any path separators and add .md extension
             const fileName = noteName.trim().replace(/[/\\]/g, "-") + ".md";
 
             // Create the note via API
-            await api.saveNote({
-                fileName,
-                content: ""
-            });
+            let cursorLine: number | undefined;
+            if (hasTemplate) {
+                const result = await api.createNoteFromTemplate({
+                    fileName,
+                    templateFileName,
+                    project: project ?? undefined,
+                });
+                cursorLine = result.cursorLine;
+            } else {
+                await api.saveNote({
+                    fileName,
+                    content: ""
+                });
+            }
 
             // Open the note in editor
             const newTab = addNewTab({
                 pluginMeta: notesPluginSerial,
                 view: "editor",
-                props: { noteFileName: fileName }
+                props: { noteFileName: fileName, scrollToLine: cursorLine }
             });
 
             if (newTab) {
@@ -50,13 +85,13 @@ export function CreateNoteDialog({ onSuccess }: CreateNoteDialogProps) {
             setNoteName("");
             closeDialog();
             onSuccess?.(fileName);
-        } catch (error) {
-            console.error("Failed to create note:", error);
-            // Could add error handling UI here
+        } catch (err) {
+            console.error("Failed to create note:", err);
+            setError(err instanceof Error ? err.message : "Failed to create note");
         } finally {
             setIsCreating(false);
         }
-    }, [noteName, isCreating, addNewTab, setActiveTabId, closeDialog, onSuccess, api]);
+    }, [noteName, isCreating, hasTemplate, templateFileName, project, addNewTab, setActiveTabId, closeDialog, onSuccess, api]);
 
     const handleSubmit = React.useCallback((e: React.FormEvent) => {
         e.preventDefault();
@@ -95,6 +130,40 @@ export function CreateNoteDialog({ onSuccess }: CreateNoteDialogProps) {
                         autoFocus
                     />
                 </div>
+                {templates.length > 0 && (
+                    <div className="grid grid-cols-4 items-center gap-4">
+                        <Label htmlFor="template" className="text-right">
+                            Template
+                        </Label>
+                        <Select value={templateFileName} onValueChange={setTemplateFileName}>
+                            <SelectTrigger id="template" className="col-span-3">
+                                <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                                <SelectItem value={NO_TEMPLATE}>None</SelectItem>
+                                {templates.map((template) => (
+                                    <SelectItem key={template.fileName} value={template.fileName}>
+                                        {template.name}
+                                    </SelectItem>
+                                ))}
+                            </SelectContent>
+                        </Select>
+                    </div>
+                )}
+                {hasTemplate && (
+                    <div className="grid grid-cols-4 items-center gap-4">
+                        <Label className="text-right">Project</Label>
+                        <div className="col-span-3">
+                            <ProjectInput project={project} onProjectChange={setProject} />
+                        </div>
+                    </div>
+                )}
+                {useTemplate && templates.length === 0 && (
+                    <p className="text-sm text-muted-foreground">
+                        No templates yet. Add notes to the <code>{TEMPLATES_FOLDER}</code> folder to use them as templates.
+                    </p>
+                )}
+                {error && <p className="text-sm text-destructive">{error}</p>}
             </div>
             <DialogFooter>
                 <Button type="button" variant="outline" onClick={closeDialog}>
@@ -10,7 +10,7 @@ import { useRouting } from "@/hooks/useRouting";
 import { notesAPI } from "@/hooks/useNotesAPI";
 import { notesPluginSerial } from "@/features/notes";
 import { KeyboardIndicator } from "@/components/KeyboardIndicator";
-import { getDailyNoteFileName, parseDateFromInput } from "./date-utils";
+import { formatDailyNoteName, parseDateFromInput, toLocalDateString } from "./date-utils";
 
 interface DailyNoteDatePickerDialogProps {
     onSuccess?: (fileName: string) => void;
@@ -21,28 +21,25 @@ export function DailyNoteDatePickerDialog({ onSuccess }: DailyNoteDatePickerDial
     const [dateInput, setDateInput] = React.useState("");
     const [isOpening, setIsOpening] = React.useState(false);
     const { closeDialog } = useCommandDialog();
-    const { addNewTab, setActiveTabId } = useWorkspaceContext();
+    const { addNewTab, setActiveTabId, dailyNotes } = useWorkspaceContext();
     const { navigate, currentPath } = useRouting();
 
     const handleDateInputChange = React.useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
         const value = e.target.value;
         setDateInput(value);
 
-        const parsed = parseDateFromInput(value);
+        const parsed = parseDateFromInput(value, dailyNotes.pattern);
         if (parsed) {
             setSelectedDate(parsed);
         }
-    }, []);
+    }, [dailyNotes.pattern]);
 
     const handleCalendarSelect = React.useCallback((date: Date | undefined) => {
         if (date) {
             setSelectedDate(date);
-            const month = date.getMonth() + 1;
-            const day = date.getDate();
-            const year = date.getFullYear();
-            setDateInput(`${month}/${day}/${year}`);
+            setDateInput(formatDailyNoteName(date, dailyNotes.pattern));
         }
-    }, []);
+    }, [dailyNotes.pattern]);
 
     const handleSubmit = React.useCallback(async (e?: React.FormEvent) => {
         e?.preventDefault();
@@ -50,13 +47,7 @@ export function DailyNoteDatePickerDialog({ onSuccess }: DailyNoteDatePickerDial
 
         setIsOpening(true);
         try {
-            const fileName = getDailyNoteFileName(selectedDate);
-
-            // See if note exists
-            const output = await notesAPI.getNoteByFileName({ fileName });
-            if (!output) {
-                await notesAPI.createNote({ fileName });
-            }
+            const { fileName } = await notesAPI.openDailyNote({ date: toLocalDateString(selectedDate) });
 
             const newTab = addNewTab({
                 pluginMeta: notesPluginSerial,
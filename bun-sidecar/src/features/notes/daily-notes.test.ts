@@ -0,0 +1,70 @@
+import { test, expect, describe } from "bun:test";
+import type { Todo } from "@/features/todos/todo-types";
+import { formatDailyNoteName, parseDailyNoteName, isValidDailyNotePattern, getDailyNoteFileName, getDailyNoteDate, parseDateFromInput, addDays, formatDay, parseDay } from "./date-utils";
+import { renderDailyNoteTemplate } from "./daily-notes";
+import { renameWikiLinkTargets } from "./backlinks-service";
+
+const march5 = new Date(2025, 2, 5);
+
+describe("Daily Note Names", () => {
+    test("formats and parses patterns", () => {
+        expect(formatDailyNoteName(march5, "M-D-YYYY")).toBe("3-5-2025");
+        expect(formatDailyNoteName(march5, "YYYY-MM-DD")).toBe("2025-03-05");
+        expect(formatDailyNoteName(march5, "[Day] DD.MM.YYYY")).toBe("Day 05.03.2025");
+
+        expect(parseDailyNoteName("2025-03-05", "YYYY-MM-DD")).toEqual(march5);
+        expect(parseDailyNoteName("Day 05.03.2025", "[Day] DD.MM.YYYY")).toEqual(march5);
+        expect(parseDailyNoteName("2-30-2025", "M-D-YYYY")).toBeNull();
+        expect(parseDailyNoteName("Meeting notes", "M-D-YYYY")).toBeNull();
+    });
+
+    test("validates patterns", () => {
+        expect(isValidDailyNotePattern("YYYY-MM-DD")).toBe(true);
+        expect(isValidDailyNotePattern("YYYY-MM")).toBe(false);
+        expect(isValidDailyNotePattern("YYYY/MM/DD")).toBe(false);
+    });
+
+    test("maps file names with folders", () => {
+        const settings = { pattern: "YYYY-MM-DD", folder: "Daily/" };
+
+        expect(getDailyNoteFileName(march5, settings)).toBe("Daily/2025-03-05.md");
+        expect(getDailyNoteDate("Daily/2025-03-05.md", settings)).toEqual(march5);
+        expect(getDailyNoteDate("2025-03-05.md", settings)).toBeNull();
+    });
+
+    test("typed dates follow the workspace pattern", () => {
+        expect(parseDateFromInput("5-3-2025", "D-M-YYYY")).toEqual(march5);
+        expect(parseDateFromInput("3-5-2025")).toEqual(march5);
+    });
+});
+
+test("does day math on YYYY-MM-DD dates", () => {
+    expect(formatDay(parseDay("2025-03-05"))).toBe("2025-03-05");
+    expect(addDays("2025-02-28", 1)).toBe("2025-03-01");
+    expect(addDays("2026-01-02", -3)).toBe("2025-12-30");
+});
+
+test("renders daily note templates", () => {
+    const todos: Todo[] = [
+        { id: "a", title: "Ship it", status: "todo", dueDate: "2025-03-05", createdAt: "", updatedAt: "" },
+        { id: "b", title: "Done already", status: "done", dueDate: "2025-03-05", createdAt: "", updatedAt: "" },
+        { id: "c", title: "Later", status: "todo", dueDate: "2025-03-06", createdAt: "", updatedAt: "" },
+    ];
+    const config = { pattern: "YYYY-MM-DD", folder: "Daily", templatePath: "" };
+
+    const rendered = renderDailyNoteTemplate("# {{weekday}} {{date:D.M.YYYY}}\nPrev: {{yesterday}}\n{{todos}}\n{{unknown}}", {
+        date: march5,
+        config,
+        todos,
+    });
+
+    expect(rendered).toBe("# Wednesday 5.3.2025\nPrev: [[Daily/2025-03-04]]\n- [ ] Ship it\n{{unknown}}");
+});
+
+test("rewrites wiki links to renamed notes", () => {
+    const renames = new Map([["3-5-2025", "Daily/2025-03-05"]]);
+
+    expect(renameWikiLinkTargets("See [[3-5-2025]], [[3-5-2025|that day]] and [[3-5-2025#Plans]] but not [[3-5-20255]]", renames)).toBe(
+        "See [[Daily/2025-03-05]], [[Daily/2025-03-05|that day]] and [[Daily/2025-03-05#Plans]] but not [[3-5-20255]]"
+    );
+});
@@ -0,0 +1,67 @@
+/**
+ * Daily Notes
+ *
+ * Reads the workspace daily note settings and renders daily note templates.
+ * Besides the variables every template has (see templates.ts):
+ *
+ *   {{weekday}}         Weekday name, e.g. Monday
+ *   {{yesterday}}       Wiki link to the previous day's note
+ *   {{tomorrow}}        Wiki link to the next day's note
+ *   {{todos}}           Checklist of open todos due that day
+ */
+
+import path from "path";
+import { getNomendexPath } from "@/storage/root-path";
+import { WorkspaceStateSchema, type DailyNotesConfig } from "@/types/Workspace";
+import type { Todo } from "@/features/todos/todo-types";
+import { formatDailyNoteName, getDailyNoteFileName, toLocalDateString, DEFAULT_DAILY_NOTE_PATTERN } from "./date-utils";
+import { extractCursor, fillTemplate, getBaseTemplateVariables } from "./templates";
+
+const DEFAULT_CONFIG: DailyNotesConfig = { pattern: DEFAULT_DAILY_NOTE_PATTERN, folder: "", templatePath: "" };
+
+/**
+ * Read the daily notes settings from workspace.json
+ */
+export async function getDailyNotesConfig(): Promise<DailyNotesConfig> {
+    try {
+        const file = Bun.file(path.join(getNomendexPath(), "workspace.json"));
+        if (!(await file.exists())) {
+            return DEFAULT_CONFIG;
+        }
+        const workspace = WorkspaceStateSchema.parse(await file.json());
+        return workspace.dailyNotes;
+    } catch {
+        return DEFAULT_CONFIG;
+    }
+}
+
+function linkTo(date: Date, config: DailyNotesConfig): string {
+    return `[[${getDailyNoteFileName(date, config).replace(/\.md$/, "")}]]`;
+}
+
+/**
+ * Fill in a daily note template. Unknown variables are left as written.
+ */
+export function renderDailyNoteTemplate(template: string, params: { date: Date; config: DailyNotesConfig; todos: Todo[] }): string {
+    const { date, config } = params;
+    const isoDate = toLocalDateString(date);
+    const shiftedLink = (days: number) => {
+        const other = new Date(date);
+        other.setDate(other.getDate() + days);
+        return linkTo(other, config);
+    };
+
+    const rendered = fillTemplate(template, {
+        ...getBaseTemplateVariables({ title: formatDailyNoteName(date, config.pattern), date }),
+        weekday: () => date.toLocaleDateString("en-US", { weekday: "long" }),
+        yesterday: () => shiftedLink(-1),
+        tomorrow: () => shiftedLink(1),
+        todos: () =>
+            params.todos
+                .filter((todo) => todo.dueDate === isoDate && todo.status !== "done")
+                .map((todo) => `- [ ] ${todo.title}`)
+                .join("\n"),
+    });
+    // Daily notes open at the saved cursor position, so a template cursor marker is just dropped
+    return extractCursor(rendered).content;
+}
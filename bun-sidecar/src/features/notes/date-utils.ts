@@ -1,33 +1,115 @@
-export function getTodayDailyNoteFileName(date: Date = new Date()): string {
-    const month = date.getMonth() + 1; // 1-12
-    const day = date.getDate(); // 1-31
-    const year = date.getFullYear();
-    return `${month}-${day}-${year}.md`;
+export const DEFAULT_DAILY_NOTE_PATTERN = "M-D-YYYY";
+
+export interface DailyNoteSettings {
+    pattern: string; // e.g. "YYYY-MM-DD"; text in [brackets] is literal
+    folder: string; // Relative to the notes root, "" for the root itself
+}
+
+export const DEFAULT_DAILY_NOTE_SETTINGS: DailyNoteSettings = { pattern: DEFAULT_DAILY_NOTE_PATTERN, folder: "" };
+
+// Longest tokens first so "MM" is not read as two "M"s
+const DAILY_NOTE_TOKEN_REGEX = /\[([^\]]*)\]|YYYY|MM|M|DD|D/g;
+
+const INVALID_FILE_NAME_CHARS = /[/\\:*?"<>|]/;
+
+/**
+ * Format a date with a daily note pattern (YYYY, MM, M, DD, D).
+ */
+export function formatDailyNoteName(date: Date, pattern: string): string {
+    return pattern.replace(DAILY_NOTE_TOKEN_REGEX, (token, literal: string | undefined) => {
+        if (literal !== undefined) return literal;
+        switch (token) {
+            case "YYYY":
+                return String(date.getFullYear());
+            case "MM":
+                return String(date.getMonth() + 1).padStart(2, "0");
+            case "M":
+                return String(date.getMonth() + 1);
+            case "DD":
+                return String(date.getDate()).padStart(2, "0");
+            default:
+                return String(date.getDate());
+        }
+    });
+}
+
+/**
+ * Parse a note name (without folder or .md) written with a daily note pattern.
+ * Returns null if the name does not match or is not a real date.
+ */
+export function parseDailyNoteName(name: string, pattern: string): Date | null {
+    const parts: Array<"year" | "month" | "day"> = [];
+    let source = "";
+    let lastIndex = 0;
+    DAILY_NOTE_TOKEN_REGEX.lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while ((match = DAILY_NOTE_TOKEN_REGEX.exec(pattern)) !== null) {
+        source += escapeRegex(pattern.slice(lastIndex, match.index));
+        const [token, literal] = match;
+        if (literal !== undefined) {
+            source += escapeRegex(literal);
+        } else if (token === "YYYY") {
+            parts.push("year");
+            source += "(\\d{4})";
+        } else {
+            parts.push(token.startsWith("M") ? "month" : "day");
+            source += token.length === 2 ? "(\\d{2})" : "(\\d{1,2})";
+        }
+        lastIndex = match.index + token.length;
+    }
+    source += escapeRegex(pattern.slice(lastIndex));
+
+    const result = new RegExp(`^${source}$`).exec(name);
+    if (!result) return null;
+
+    const values = { year: 0, month: 0, day: 0 };
+    parts.forEach((part, i) => {
+        values[part] = parseInt(result[i + 1]!, 10);
+    });
+    const date = new Date(values.year, values.month - 1, values.day);
+    // Reject overflow such as 2-30-2025
+    if (date.getFullYear() !== values.year || date.getMonth() !== values.month - 1 || date.getDate() !== values.day) {
+        return null;
+    }
+    return date;
 }
 
-export function getYesterdayDailyNoteFileName(date: Date = new Date()): string {
-    const yesterday = new Date(date);
-    yesterday.setDate(yesterday.getDate() - 1);
-    const month = yesterday.getMonth() + 1; // 1-12
-    const day = yesterday.getDate(); // 1-31
-    const year = yesterday.getFullYear();
-    return `${month}-${day}-${year}.md`;
+function escapeRegex(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
 }
 
-export function getTomorrowDailyNoteFileName(date: Date = new Date()): string {
-    const tomorrow = new Date(date);
-    tomorrow.setDate(tomorrow.getDate() + 1);
-    const month = tomorrow.getMonth() + 1; // 1-12
-    const day = tomorrow.getDate(); // 1-31
-    const year = tomorrow.getFullYear();
-    return `${month}-${day}-${year}.md`;
+/**
+ * A pattern must contain a year, month and day so names map back to exactly one date.
+ */
+export function isValidDailyNotePattern(pattern: string): boolean {
+    const tokens = pattern.replace(/\[[^\]]*\]/g, "").match(/YYYY|MM|M|DD|D/g) ?? [];
+    return (
+        tokens.filter((t) => t === "YYYY").length === 1 &&
+        tokens.filter((t) => t.startsWith("M")).length === 1 &&
+        tokens.filter((t) => t.startsWith("D")).length === 1 &&
+        !INVALID_FILE_NAME_CHARS.test(pattern)
+    );
 }
 
-export function getDailyNoteFileName(date: Date): string {
-    const month = date.getMonth() + 1; // 1-12
-    const day = date.getDate(); // 1-31
-    const year = date.getFullYear();
-    return `${month}-${day}-${year}.md`;
+function joinFolder(folder: string, name: string): string {
+    const trimmed = folder.replace(/^\/+|\/+$/g, "");
+    return trimmed ? `${trimmed}/${name}` : name;
+}
+
+/**
+ * File name (relative to the notes root, with .md) of the daily note for a date.
+ */
+export function getDailyNoteFileName(date: Date, settings: DailyNoteSettings = DEFAULT_DAILY_NOTE_SETTINGS): string {
+    return joinFolder(settings.folder, `${formatDailyNoteName(date, settings.pattern)}.md`);
+}
+
+/**
+ * Date of a daily note from its file name, or null if the file is not a daily note.
+ */
+export function getDailyNoteDate(fileName: string, settings: DailyNoteSettings = DEFAULT_DAILY_NOTE_SETTINGS): Date | null {
+    const prefix = joinFolder(settings.folder, "");
+    if (!fileName.startsWith(prefix) || !fileName.endsWith(".md")) return null;
+    return parseDailyNoteName(fileName.slice(prefix.length, -".md".length), settings.pattern);
 }
 
 const DAY_NAMES = ["sunday", "monday", "tuesday", "wednesday", "thursday", "friday", "saturday"];
@@ -92,9 +174,53 @@ export function parseLocalDateString(dateString: string): Date {
     return new Date(year, month - 1, day);
 }
 
-export function parseDateFromInput(input: string): Date | null {
+/**
+ * Parses a YYYY-MM-DD string as UTC midnight. Calendar-day math is done on UTC midnights
+ * so daylight-saving changes never shift a day; format back with formatDay.
+ */
+export function parseDay(dateString: string): Date {
+    const [year, month, day] = dateString.split("-").map(Number);
+    return new Date(Date.UTC(year, month - 1, day));
+}
+
+/**
+ * Formats a UTC midnight from parseDay as YYYY-MM-DD.
+ */
+export function formatDay(date: Date): string {
+    const year = date.getUTCFullYear();
+    const month = String(date.getUTCMonth() + 1).padStart(2, "0");
+    const day = String(date.getUTCDate()).padStart(2, "0");
+    return `${year}-${month}-${day}`;
+}
+
+/**
+ * Moves a UTC midnight from parseDay by a number of days.
+ */
+export function addUtcDays(date: Date, days: number): Date {
+    const result = new Date(date);
+    result.setUTCDate(result.getUTCDate() + days);
+    return result;
+}
+
+/**
+ * Moves a YYYY-MM-DD date by a number of days.
+ */
+export function addDays(date: string, days: number): string {
+    return formatDay(addUtcDays(parseDay(date), days));
+}
+
+/**
+ * Parse a typed date ("tomorrow", "next fri", "3/14", ...).
+ * When a daily note pattern is given, input written in that pattern wins over
+ * the built-in numeric formats, so "14-3-2025" works for a "D-M-YYYY" workspace.
+ */
+export function parseDateFromInput(input: string, dailyNotePattern?: string): Date | null {
     const trimmed = input.trim();
     if (!trimmed) return null;
+    if (dailyNotePattern) {
+        const fromPattern = parseDailyNoteName(trimmed, dailyNotePattern);
+        if (fromPattern) return fromPattern;
+    }
     const lower = trimmed.toLowerCase();
     const today = new Date();
     const currentYear = today.getFullYear();
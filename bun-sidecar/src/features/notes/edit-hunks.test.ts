@@ -0,0 +1,55 @@
+import { describe, test, expect } from "bun:test";
+import { applyHunks, applyToolEdit, getEditHunks } from "./edit-hunks";
+
+const base = ["# Groceries", "", "- apples", "- bread", "", "## Notes", "", "Shop on Friday.", "Use the list.", "Bring bags.", ""].join("\n");
+const proposed = ["# Groceries", "", "- apples", "- oat milk", "", "## Notes", "", "Shop on Friday.", "Use the list.", "Bring two bags.", ""].join("\n");
+
+describe("applyToolEdit", () => {
+    test("applies Write, Edit and MultiEdit inputs", () => {
+        expect(applyToolEdit("Write", { content: "new" }, base)).toBe("new");
+        expect(applyToolEdit("Edit", { old_string: "- bread", new_string: "- oat milk" }, base)).toContain("- oat milk");
+        expect(
+            applyToolEdit("MultiEdit", {
+                edits: [
+                    { old_string: "- bread", new_string: "- oat milk" },
+                    { old_string: "Bring bags.", new_string: "Bring two bags." },
+                ],
+            }, base)
+        ).toBe(proposed);
+    });
+
+    test("appends text on its own line", () => {
+        expect(applyToolEdit("Append", { text: "- eggs" }, "- apples\n\n")).toBe("- apples\n- eggs\n");
+        expect(applyToolEdit("Append", { text: "- eggs" }, "")).toBe("- eggs\n");
+    });
+
+    test("returns null when an edit wouldn't apply", () => {
+        expect(applyToolEdit("Edit", { old_string: "- cheese", new_string: "- brie" }, base)).toBeNull();
+        expect(applyToolEdit("Edit", { old_string: "\n", new_string: " " }, base)).toBeNull();
+        expect(applyToolEdit("Edit", { old_string: "\n\n", new_string: "\n", replace_all: true }, base)).not.toBeNull();
+        expect(applyToolEdit("Read", { file_path: "a.md" }, base)).toBeNull();
+    });
+});
+
+describe("hunks", () => {
+    test("splits a proposal into hunks that apply independently", () => {
+        const hunks = getEditHunks(base, proposed);
+        expect(hunks).toHaveLength(2);
+
+        expect(applyHunks(base, hunks)).toBe(proposed);
+
+        const firstOnly = applyHunks(base, [hunks[0]!])!;
+        expect(firstOnly).toContain("- oat milk");
+        expect(firstOnly).toContain("Bring bags.");
+
+        const secondOnly = applyHunks(base, [hunks[1]!])!;
+        expect(secondOnly).toContain("- bread");
+        expect(secondOnly).toContain("Bring two bags.");
+    });
+
+    test("applies to content that moved, and fails when the lines changed", () => {
+        const [first] = getEditHunks(base, proposed);
+        expect(applyHunks("Intro\n\n" + base, [first!])).toContain("Intro\n\n# Groceries\n\n- apples\n- oat milk");
+        expect(applyHunks(base.replace("- bread", "- rye bread"), [first!])).toBeNull();
+    });
+});
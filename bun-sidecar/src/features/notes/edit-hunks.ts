@@ -0,0 +1,88 @@
+/**
+ * Edit Hunks
+ *
+ * Turns an agent's Write/Edit tool call into proposed note content, and splits the difference
+ * into hunks that can be accepted or rejected one at a time.
+ */
+
+import { applyPatch, structuredPatch, type StructuredPatchHunk } from "diff";
+
+export type EditHunk = StructuredPatchHunk;
+
+type FileEditInput = {
+    content?: unknown;
+    old_string?: unknown;
+    new_string?: unknown;
+    replace_all?: unknown;
+    edits?: unknown;
+    text?: unknown;
+};
+
+// Apply one old_string → new_string replacement the way the Edit tool does; null if it wouldn't apply
+function replaceOnce(content: string, edit: FileEditInput): string | null {
+    if (typeof edit.old_string !== "string" || typeof edit.new_string !== "string" || !edit.old_string) {
+        return null;
+    }
+    const first = content.indexOf(edit.old_string);
+    if (first === -1) {
+        return null;
+    }
+    if (edit.replace_all === true) {
+        return content.split(edit.old_string).join(edit.new_string);
+    }
+    // Without replace_all the match has to be unique
+    if (content.indexOf(edit.old_string, first + 1) !== -1) {
+        return null;
+    }
+    return content.slice(0, first) + edit.new_string + content.slice(first + edit.old_string.length);
+}
+
+// Add markdown on its own line at the end, the way append_to_daily_note does
+export function appendMarkdown(content: string, text: string): string {
+    const existing = content.replace(/\s+$/, "");
+    return existing ? `${existing}\n${text}\n` : `${text}\n`;
+}
+
+/**
+ * Content a Write, Edit or MultiEdit call, or an Append of `text`, would leave in a file that
+ * currently holds `current`. Returns null for other tools and for edits that wouldn't apply.
+ */
+export function applyToolEdit(toolName: string, input: FileEditInput & Record<string, unknown>, current: string): string | null {
+    if (toolName === "Write") {
+        return typeof input.content === "string" ? input.content : null;
+    }
+    if (toolName === "Append") {
+        return typeof input.text === "string" ? appendMarkdown(current, input.text) : null;
+    }
+    if (toolName === "Edit") {
+        return replaceOnce(current, input);
+    }
+    if (toolName === "MultiEdit" && Array.isArray(input.edits)) {
+        let next: string | null = current;
+        for (const edit of input.edits as FileEditInput[]) {
+            next = replaceOnce(next, edit);
+            if (next === null) return null;
+        }
+        return next;
+    }
+    return null;
+}
+
+export function getEditHunks(base: string, proposed: string): EditHunk[] {
+    return structuredPatch("note", "note", base, proposed, undefined, undefined, { context: 2 }).hunks;
+}
+
+// Apply some of the hunks from getEditHunks to `content`; null if they no longer fit
+export function applyHunks(content: string, hunks: EditHunk[]): string | null {
+    if (hunks.length === 0) {
+        return content;
+    }
+    const result = applyPatch(content, {
+        oldFileName: "note",
+        newFileName: "note",
+        oldHeader: undefined,
+        newHeader: undefined,
+        hunks,
+    });
+    return result === false ? null : result;
+}
@@ -0,0 +1,56 @@
+/**
+ * Embedding Providers
+ *
+ * Turn text into vectors for the semantic index through an embeddings API and the AI SDK.
+ * To keep note text on this computer, run the model with a local OpenAI-compatible server
+ * such as Ollama (`ollama pull nomic-embed-text`, base URL http://localhost:11434/v1).
+ */
+
+import { createOpenAI } from "@ai-sdk/openai";
+import { embedMany } from "ai";
+import { secrets } from "@/lib/secrets";
+import { PROVIDER_API_KEY_SECRETS } from "@/features/agents/index";
+import type { SemanticSearchConfig } from "@/types/Workspace";
+
+export interface Embedder {
+    // Identifies the vector space; vectors from different ids can't be compared
+    id: string;
+    embed(texts: string[]): Promise<number[][]>;
+}
+
+const DEFAULT_OPENAI_MODEL = "text-embedding-3-small";
+
+export function normalize(vector: number[]): number[] {
+    const length = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+    return length > 0 ? vector.map((value) => value / length) : vector;
+}
+
+/**
+ * Embedder for the workspace's semantic search settings.
+ * Throws if the provider is missing its key, model or base URL.
+ */
+export async function getEmbedder(config: SemanticSearchConfig): Promise<Embedder> {
+    const secretKey = PROVIDER_API_KEY_SECRETS[config.provider];
+    const apiKey = await secrets.get(secretKey);
+    const baseURL = config.baseUrl || undefined;
+    let model: string;
+
+    if (config.provider === "openai") {
+        if (!apiKey) throw new Error(`Missing ${secretKey}. Add it to your secrets to use OpenAI embeddings.`);
+        model = config.model || DEFAULT_OPENAI_MODEL;
+    } else {
+        if (!baseURL) throw new Error("OpenAI-compatible embeddings need a base URL, e.g. http://localhost:11434/v1");
+        if (!config.model) throw new Error("OpenAI-compatible embeddings need a model, e.g. nomic-embed-text");
+        model = config.model;
+    }
+
+    // Local servers usually ignore the key, but the client requires one
+    const embeddingModel = createOpenAI({ apiKey: apiKey || "not-needed", baseURL }).textEmbeddingModel(model);
+    return {
+        id: `${config.provider}:${model}${baseURL ? `@${baseURL}` : ""}`,
+        embed: async (texts) => {
+            const { embeddings } = await embedMany({ model: embeddingModel, values: texts });
+            return embeddings.map(normalize);
+        },
+    };
+}
@@ -3,6 +3,7 @@
  *
  * Scans directories for markdown files, filtering out online-only cloud files.
  * Used by backlinks and tags services to avoid duplicate scanning.
+ * File contents are cached by mtime so repeated scans only re-read changed files.
  */
 
 import { stat } from "node:fs/promises";
@@ -23,6 +24,10 @@ export interface ScannedFile {
     content?: string;
 }
 
+// Contents read so far, keyed by full path; reused while the mtime matches.
+// Each scan drops the files it no longer finds in its directory.
+const contentCache = new Map<string, { mtime: number; content: string }>();
+
 export interface ScanResult {
     files: ScannedFile[];
     skippedOnlineOnly: number;
@@ -83,9 +88,21 @@ async function scanDirectory(params: {
         }
     }
 
+    const scanned = new Set(files.map((file) => file.fullPath));
+    for (const cachedPath of contentCache.keys()) {
+        if (cachedPath.startsWith(join(dirPath, "/")) && !scanned.has(cachedPath)) {
+            contentCache.delete(cachedPath);
+        }
+    }
+
     return { files, skippedOnlineOnly, skippedErrors };
 }
 
+// Called when the workspace changes, as cached paths belong to the previous one
+export function clearFileContentCache(): void {
+    contentCache.clear();
+}
+
 /**
  * Scan all markdown files in notes and todos directories.
  * Filters out online-only cloud files.
@@ -125,12 +142,18 @@ export async function scanNotesFiles(): Promise<ScanResult> {
 
 /**
  * Read content for a list of scanned files.
- * Populates the `content` field on each file.
+ * Populates the `content` field on each file, reusing cached contents for unchanged files.
  */
 export async function readFileContents(files: ScannedFile[]): Promise<void> {
     for (const file of files) {
+        const cached = contentCache.get(file.fullPath);
+        if (cached && cached.mtime === file.mtime) {
+            file.content = cached.content;
+            continue;
+        }
         try {
             file.content = await Bun.file(file.fullPath).text();
+            contentCache.set(file.fullPath, { mtime: file.mtime, content: file.content });
         } catch (error) {
             startupLog.warn(`Failed to read file: ${file.fullPath}`, {
                 error: error instanceof Error ? error.message : String(error),
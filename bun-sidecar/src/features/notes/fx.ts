@@ -4,6 +4,22 @@ import { FunctionsFromStubs } from "@/types/Functions";
 import { FeatureStorage } from "@/storage/FeatureStorage";
 import { getNotesPath, hasActiveWorkspace } from "@/storage/root-path";
 import yaml from "js-yaml";
+import { searchIndex } from "./search-service";
+import {
+    getDailyNoteDate,
+    getDailyNoteFileName,
+    isValidDailyNotePattern,
+    parseLocalDateString,
+    toLocalDateString,
+    type DailyNoteSettings,
+} from "./date-utils";
+import { getDailyNotesConfig, renderDailyNoteTemplate } from "./daily-notes";
+import { extractCursor, fillTemplate, getBaseTemplateVariables, TEMPLATES_FOLDER } from "./templates";
+import { getBacklinksForNote, renameWikiLinkAnchors, renameWikiLinkTargets } from "./backlinks-service";
+import { normalizeAnchor } from "./wiki-link-utils";
+import { getTodos } from "@/features/todos/fx";
+import { takeAutomaticSnapshot } from "@/services/snapshots";
+import type { Todo } from "@/features/todos/todo-types";
 
 // Lazy-initialized storage for notes
 let storage: FeatureStorage | null = null;
@@ -118,83 +134,10 @@ async function getNotes(args?: { showHiddenFiles?: boolean }) {
     }
 }
 
-async function searchNotes(args: { query: string }) {
+async function searchNotes(args: { query: string; limit?: number }) {
     try {
-        const query = args.query.toLowerCase().trim();
-        if (!query) return [];
-
-        const allNotes = await getNotes({});
-        const results: Array<{
-            fileName: string;
-            content: string;
-            frontMatter?: Record<string, unknown>;
-            folderPath?: string;
-            matches: Array<{
-                line: number;
-                text: string;
-                startIndex: number;
-                endIndex: number;
-            }>;
-        }> = [];
-
-        for (const note of allNotes) {
-            const matches: Array<{
-                line: number;
-                text: string;
-                startIndex: number;
-                endIndex: number;
-            }> = [];
-
-            // Search in content
-            const lines = note.content.split("\n");
-            for (let i = 0; i < lines.length; i++) {
-                const line = lines[i];
-                if (!line) continue;
-
-                const lowerLine = line.toLowerCase();
-                let startPos = 0;
-
-                while (true) {
-                    const index = lowerLine.indexOf(query, startPos);
-                    if (index === -1) break;
-
-                    matches.push({
-                        line: i + 1,
-                        text: line,
-                        startIndex: index,
-                        endIndex: index + query.length,
-                    });
-
-                    startPos = index + 1;
-                }
-            }
-
-            // Also search in file name
-            const lowerFileName = note.fileName.toLowerCase();
-            if (lowerFileName.includes(query)) {
-                matches.push({
-                    line: 0, // 0 indicates filename match
-                    text: note.fileName,
-                    startIndex: lowerFileName.indexOf(query),
-                    endIndex: lowerFileName.indexOf(query) + query.length,
-                });
-            }
-
-            if (matches.length > 0) {
-                results.push({
-                    fileName: note.fileName,
-                    content: note.content,
-                    frontMatter: note.frontMatter,
-                    folderPath: note.folderPath,
-                    matches,
-                });
-            }
-        }
-
-        // Sort by number of matches (descending)
-        results.sort((a, b) => b.matches.length - a.matches.length);
-
-        return results;
+        if (!args.query.trim()) return [];
+        return await searchIndex({ query: args.query, limit: args.limit });
     } catch {
         return [];
     }
@@ -317,6 +260,33 @@ async function renameNote(args: { oldFileName: string; newFileName: string }) {
     }
 }
 
+/**
+ * Rewrite [[Note#Old heading]] links in other notes after a heading is renamed.
+ */
+async function renameLinkedAnchor(args: { fileName: string; oldAnchor: string; newAnchor: string }) {
+    try {
+        const target = args.fileName.replace(/\.md$/, "");
+        const oldAnchor = normalizeAnchor(args.oldAnchor);
+        const updated: string[] = [];
+
+        for (const link of getBacklinksForNote({ fileName: args.fileName }).backlinks) {
+            if (!link.anchors.some((anchor) => normalizeAnchor(anchor) === oldAnchor)) continue;
+
+            const rawContent = await getStorage().readFile(link.sourceFile);
+            if (rawContent === null) continue;
+            const newContent = renameWikiLinkAnchors(rawContent, { target, oldAnchor: args.oldAnchor, newAnchor: args.newAnchor });
+            if (newContent !== rawContent) {
+                await getStorage().writeFile(link.sourceFile, newContent);
+                updated.push(link.sourceFile);
+            }
+        }
+
+        return { updated };
+    } catch (error) {
+        throw new Error(`Failed to update heading links: ${error instanceof Error ? error.message : "Unknown error"}`);
+    }
+}
+
 async function updateNoteTags(args: { fileName: string; tags: string[] }) {
     try {
         const rawContent = await getStorage().readFile(args.fileName);
@@ -386,15 +356,13 @@ async function getNoteMtime(args: { fileName: string }) {
 }
 
 async function getDailyNoteName() {
-    const date = new Date();
-    const month = date.getMonth() + 1;
-    const day = date.getDate();
-    const year = date.getFullYear();
-    return { fileName: `${month}-${day}-${year}` };
+    const config = await getDailyNotesConfig();
+    return { fileName: getDailyNoteFileName(new Date(), config).replace(/\.md$/, "") };
 }
 
 async function getRecentDailyNotes(args: { days?: number }) {
     const days = args.days ?? 7;
+    const config = await getDailyNotesConfig();
     const results: Array<{
         date: string;
         fileName: string;
@@ -407,11 +375,8 @@ async function getRecentDailyNotes(args: { days?: number }) {
         const date = new Date();
         date.setDate(date.getDate() - i);
 
-        const month = date.getMonth() + 1;
-        const day = date.getDate();
-        const year = date.getFullYear();
-        const fileName = `${month}-${day}-${year}.md`;
-        const dateStr = date.toISOString().split("T")[0] || "";
+        const fileName = getDailyNoteFileName(date, config);
+        const dateStr = toLocalDateString(date);
 
         const exists = await getStorage().fileExists(fileName);
 
@@ -431,6 +396,165 @@ async function getRecentDailyNotes(args: { days?: number }) {
     return results;
 }
 
+// Longest range getDailyNotesInRange will scan, in days
+const MAX_DAILY_RANGE_DAYS = 400;
+
+async function getDailyNotesInRange(args: { startDate: string; endDate: string }) {
+    const config = await getDailyNotesConfig();
+    const results: Array<{ date: string; fileName: string }> = [];
+    const date = parseLocalDateString(args.startDate);
+    const end = parseLocalDateString(args.endDate);
+
+    for (let i = 0; date <= end && i < MAX_DAILY_RANGE_DAYS; i++) {
+        const fileName = getDailyNoteFileName(date, config);
+        if (await getStorage().fileExists(fileName)) {
+            results.push({ date: toLocalDateString(date), fileName });
+        }
+        date.setDate(date.getDate() + 1);
+    }
+
+    return results;
+}
+
+async function openDailyNote(args: { date: string }) {
+    try {
+        const config = await getDailyNotesConfig();
+        const date = parseLocalDateString(args.date);
+        const fileName = getDailyNoteFileName(date, config);
+
+        if (await getStorage().fileExists(fileName)) {
+            return { fileName, created: false, content: "" };
+        }
+
+        let content = "";
+        if (config.templatePath) {
+            const templateFile = config.templatePath.endsWith(".md") ? config.templatePath : `${config.templatePath}.md`;
+            const template = await getStorage().readFile(templateFile);
+            if (template === null) {
+                throw new Error(`Daily note template ${templateFile} not found`);
+            }
+            // Todos are optional for the template; a broken todos store shouldn't block the note
+            const todos: Todo[] = await getTodos({}).catch(() => []);
+            content = renderDailyNoteTemplate(template, { date, config, todos });
+        }
+
+        await getStorage().createFile(fileName, content);
+        return { fileName, created: true, content };
+    } catch (error) {
+        throw new Error(`Failed to open daily note: ${error instanceof Error ? error.message : "Unknown error"}`);
+    }
+}
+
+/**
+ * Rename daily notes written with one name pattern/folder to another and
+ * rewrite wiki links that point at them.
+ */
+async function migrateDailyNotes(args: { from: DailyNoteSettings; to: DailyNoteSettings }) {
+    try {
+        if (!isValidDailyNotePattern(args.to.pattern)) {
+            throw new Error(`Invalid daily note pattern "${args.to.pattern}"`);
+        }
+
+        await takeAutomaticSnapshot({ name: "Before renaming daily notes", trigger: "bulk-rename" });
+
+        const renamed: Array<{ from: string; to: string }> = [];
+        const skipped: string[] = [];
+        const linkRenames = new Map<string, string>();
+
+        for (const note of await getNotes()) {
+            const date = getDailyNoteDate(note.fileName, args.from);
+            if (!date) continue;
+
+            const newFileName = getDailyNoteFileName(date, args.to);
+            if (newFileName === note.fileName) continue;
+            if (await getStorage().fileExists(newFileName)) {
+                skipped.push(note.fileName);
+                continue;
+            }
+
+            await getStorage().moveFile(note.fileName, newFileName);
+            renamed.push({ from: note.fileName, to: newFileName });
+            linkRenames.set(note.fileName.replace(/\.md$/, "").toLowerCase(), newFileName.replace(/\.md$/, ""));
+        }
+
+        let linksUpdated = 0;
+        if (linkRenames.size > 0) {
+            for (const note of await getNotes()) {
+                const rawContent = await getStorage().readFile(note.fileName);
+                if (!rawContent) continue;
+                const updated = renameWikiLinkTargets(rawContent, linkRenames);
+                if (updated !== rawContent) {
+                    await getStorage().writeFile(note.fileName, updated);
+                    linksUpdated++;
+                }
+            }
+        }
+
+        return { renamed, skipped, linksUpdated };
+    } catch (error) {
+        throw new Error(`Failed to migrate daily notes: ${error instanceof Error ? error.message : "Unknown error"}`);
+    }
+}
+
+// ============ Template Functions ============
+
+async function getNoteTemplates() {
+    try {
+        const files = await getStorage().listFiles(TEMPLATES_FOLDER);
+        const templates: { fileName: string; name: string; frontMatter?: Record<string, unknown> }[] = [];
+        for (const file of files) {
+            if (!file.endsWith(".md")) continue;
+            const fileName = `${TEMPLATES_FOLDER}/${file}`;
+            const { frontMatter } = parseFrontMatter((await getStorage().readFile(fileName)) ?? "");
+            templates.push({ fileName, name: file.replace(/\.md$/, ""), frontMatter });
+        }
+        return templates.sort((a, b) => a.name.localeCompare(b.name));
+    } catch (error) {
+        throw new Error(`Failed to list note templates: ${error instanceof Error ? error.message : "Unknown error"}`);
+    }
+}
+
+/**
+ * Create a note from a template in the templates folder. Placeholders are filled in,
+ * and the project and tags are merged into the template's front matter.
+ */
+async function createNoteFromTemplate(args: { fileName: string; templateFileName: string; project?: string; tags?: string[] }) {
+    try {
+        if (await getStorage().fileExists(args.fileName)) {
+            throw new Error(`Note ${args.fileName} already exists`);
+        }
+        const template = await getStorage().readFile(args.templateFileName);
+        if (template === null) {
+            throw new Error(`Template ${args.templateFileName} not found`);
+        }
+
+        const title = args.fileName.split("/").pop()!.replace(/\.md$/, "");
+        const project = args.project?.trim() || undefined;
+        const rendered = fillTemplate(template, getBaseTemplateVariables({ title, date: new Date(), project }));
+        const parsed = parseFrontMatter(rendered);
+        const { content, cursorLine } = extractCursor(parsed.content);
+
+        const frontMatter: Record<string, unknown> = { ...parsed.frontMatter };
+        if (project) {
+            frontMatter.project = project;
+        } else if (!frontMatter.project) {
+            // An unfilled {{project}} renders as an empty value
+            delete frontMatter.project;
+        }
+        const templateTags = Array.isArray(frontMatter.tags) ? frontMatter.tags.map(String) : [];
+        const tags = [...new Set([...templateTags, ...(args.tags ?? [])])];
+        if (tags.length > 0) {
+            frontMatter.tags = tags;
+        }
+
+        const contentToWrite = serializeFrontMatter(frontMatter, content);
+        await getStorage().createFile(args.fileName, contentToWrite);
+        return { fileName: args.fileName, content: contentToWrite, frontMatter, cursorLine };
+    } catch (error) {
+        throw new Error(`Failed to create note from template: ${error instanceof Error ? error.message : "Unknown error"}`);
+    }
+}
+
 // ============ Folder Functions ============
 
 async function getFolders(args?: { showHiddenFiles?: boolean }) {
@@ -461,6 +585,8 @@ async function renameFolder(args: { oldPath: string; newName: string }) {
     const parentPath = lastSlash > 0 ? args.oldPath.substring(0, lastSlash) : "";
     const newPath = parentPath ? `${parentPath}/${args.newName}` : args.newName;
 
+    await takeAutomaticSnapshot({ name: `Before renaming folder ${args.oldPath} to ${args.newName}`, trigger: "bulk-rename" });
+
     // Get all files in the old folder
     const files = await getStorage().listFiles(args.oldPath);
     const subFolders = await getStorage().listAllFoldersRecursive(args.oldPath);
@@ -535,6 +661,12 @@ export const functions: FunctionsFromStubs<typeof functionStubs> = {
     renameNote: { ...functionStubs.renameNote, fx: renameNote },
     getDailyNoteName: { ...functionStubs.getDailyNoteName, fx: getDailyNoteName },
     getRecentDailyNotes: { ...functionStubs.getRecentDailyNotes, fx: getRecentDailyNotes },
+    getDailyNotesInRange: { ...functionStubs.getDailyNotesInRange, fx: getDailyNotesInRange },
+    openDailyNote: { ...functionStubs.openDailyNote, fx: openDailyNote },
+    migrateDailyNotes: { ...functionStubs.migrateDailyNotes, fx: migrateDailyNotes },
+    renameLinkedAnchor: { ...functionStubs.renameLinkedAnchor, fx: renameLinkedAnchor },
+    getNoteTemplates: { ...functionStubs.getNoteTemplates, fx: getNoteTemplates },
+    createNoteFromTemplate: { ...functionStubs.createNoteFromTemplate, fx: createNoteFromTemplate },
     getFolders: { ...functionStubs.getFolders, fx: getFolders },
     createFolder: { ...functionStubs.createFolder, fx: createFolder },
     deleteFolder: { ...functionStubs.deleteFolder, fx: deleteFolder },
@@ -550,4 +682,4 @@ export const NotesPluginWithFunctions: TypedPluginWithFunctions<typeof functionS
 };
 
 // Export individual functions for use by other services
-export { getNotes, updateNoteProject, deleteNote };
+export { getNotes, updateNoteProject, deleteNote, parseFrontMatter };
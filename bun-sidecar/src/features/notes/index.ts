@@ -28,12 +28,19 @@ export const SearchResultSchema = z.object({
     content: z.string(),
     frontMatter: z.record(z.string(), z.unknown()).optional(),
     folderPath: z.string().optional(),
+    score: z.number(), // BM25 relevance, higher is better (0 for filter-only queries)
     matches: z.array(z.object({
         line: z.number(),
         text: z.string(),
         startIndex: z.number(),
         endIndex: z.number(),
     })),
+    // Best-matching line, trimmed around the first hit
+    snippet: z.object({
+        line: z.number(),
+        text: z.string(),
+        highlights: z.array(z.object({ start: z.number(), end: z.number() })),
+    }).optional(),
 });
 
 export type SearchResult = z.infer<typeof SearchResultSchema>;
@@ -46,7 +53,7 @@ export const functionStubs = {
         output: z.array(NoteSchema),
     },
     searchNotes: {
-        input: z.object({ query: z.string() }),
+        input: z.object({ query: z.string(), limit: z.number().optional() }),
         output: z.array(SearchResultSchema),
     },
     getNoteByFileName: {
@@ -98,6 +105,57 @@ export const functionStubs = {
             })
         ),
     },
+    getDailyNotesInRange: {
+        input: z.object({
+            startDate: z.string(), // YYYY-MM-DD, inclusive
+            endDate: z.string(), // YYYY-MM-DD, inclusive
+        }),
+        output: z.array(z.object({ date: z.string(), fileName: z.string() })),
+    },
+    openDailyNote: {
+        input: z.object({ date: z.string() }), // YYYY-MM-DD
+        output: z.object({ fileName: z.string(), created: z.boolean(), content: z.string() }),
+    },
+    migrateDailyNotes: {
+        input: z.object({
+            from: z.object({ pattern: z.string(), folder: z.string() }),
+            to: z.object({ pattern: z.string(), folder: z.string() }),
+        }),
+        output: z.object({
+            renamed: z.array(z.object({ from: z.string(), to: z.string() })),
+            skipped: z.array(z.string()), // Notes whose new name is already taken
+            linksUpdated: z.number(),
+        }),
+    },
+    renameLinkedAnchor: {
+        input: z.object({ fileName: z.string(), oldAnchor: z.string(), newAnchor: z.string() }),
+        output: z.object({ updated: z.array(z.string()) }), // Notes whose links were rewritten
+    },
+    // Templates live in the templates/ folder of the notes root
+    getNoteTemplates: {
+        input: z.object({}),
+        output: z.array(
+            z.object({
+                fileName: z.string(),
+                name: z.string(),
+                frontMatter: z.record(z.string(), z.unknown()).optional(),
+            })
+        ),
+    },
+    createNoteFromTemplate: {
+        input: z.object({
+            fileName: z.string(),
+            templateFileName: z.string(),
+            project: z.string().optional(),
+            tags: z.array(z.string()).optional(),
+        }),
+        output: z.object({
+            fileName: z.string(),
+            content: z.string(),
+            frontMatter: z.record(z.string(), z.unknown()).optional(),
+            cursorLine: z.number().optional(), // Block to place the caret on, from {{cursor}}
+        }),
+    },
     // Folder operations
     getFolders: {
         input: z.object({
@@ -155,6 +213,7 @@ export const functionStubs = {
 export const notesViewPropsSchema = z.object({
     noteFileName: z.string(),
     scrollToLine: z.number().optional(),
+    anchor: z.string().optional(), // Heading text or ^block-id to scroll to, from [[Note#anchor]]
 });
 export type NotesViewProps = z.infer<typeof notesViewPropsSchema>;
 
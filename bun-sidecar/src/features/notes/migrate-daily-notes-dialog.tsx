@@ -0,0 +1,117 @@
+import * as React from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { DialogFooter } from "@/components/ui/dialog";
+import { useCommandDialog } from "@/components/CommandDialogProvider";
+import { useWorkspaceContext } from "@/contexts/WorkspaceContext";
+import { useNotesAPI } from "@/hooks/useNotesAPI";
+import { DEFAULT_DAILY_NOTE_PATTERN, getDailyNoteFileName, isValidDailyNotePattern } from "./date-utils";
+
+/**
+ * Renames daily notes from an older name format into the workspace's current
+ * daily note settings. Defaults to the original M-D-YYYY names at the notes root.
+ */
+export function MigrateDailyNotesDialog() {
+    const [fromPattern, setFromPattern] = React.useState(DEFAULT_DAILY_NOTE_PATTERN);
+    const [fromFolder, setFromFolder] = React.useState("");
+    const [isMigrating, setIsMigrating] = React.useState(false);
+    const [error, setError] = React.useState<string | null>(null);
+    const [summary, setSummary] = React.useState<string | null>(null);
+    const { closeDialog } = useCommandDialog();
+    const { dailyNotes, renameNoteTabs } = useWorkspaceContext();
+    const api = useNotesAPI();
+
+    const today = new Date();
+    const sameSettings = fromPattern.trim() === dailyNotes.pattern && fromFolder.trim() === dailyNotes.folder;
+
+    const handleMigrate = async () => {
+        if (!isValidDailyNotePattern(fromPattern.trim())) {
+            setError("The old format needs YYYY, a month (M or MM) and a day (D or DD)");
+            return;
+        }
+
+        setIsMigrating(true);
+        setError(null);
+
+        try {
+            const result = await api.migrateDailyNotes({
+                from: { pattern: fromPattern.trim(), folder: fromFolder.trim() },
+                to: { pattern: dailyNotes.pattern, folder: dailyNotes.folder },
+            });
+
+            for (const { from, to } of result.renamed) {
+                renameNoteTabs(from, to);
+            }
+
+            const parts = [`Renamed ${result.renamed.length} daily note${result.renamed.length === 1 ? "" : "s"}`];
+            if (result.linksUpdated > 0) {
+                parts.push(`updated links in ${result.linksUpdated} note${result.linksUpdated === 1 ? "" : "s"}`);
+            }
+            if (result.skipped.length > 0) {
+                parts.push(`skipped ${result.skipped.length} because the new name already exists`);
+            }
+            setSummary(`${parts.join(", ")}.`);
+        } catch (err) {
+            const message = err instanceof Error ? err.message : "Failed to migrate daily notes";
+            setError(message);
+        } finally {
+            setIsMigrating(false);
+        }
+    };
+
+    if (summary) {
+        return (
+            <>
+                <p className="py-4 text-sm">{summary}</p>
+                <DialogFooter>
+                    <Button onClick={closeDialog}>Done</Button>
+                </DialogFooter>
+            </>
+        );
+    }
+
+    return (
+        <>
+            <div className="grid gap-4 py-4">
+                <div className="grid gap-2">
+                    <Label htmlFor="migrate-from-pattern">Old name format</Label>
+                    <Input
+                        id="migrate-from-pattern"
+                        value={fromPattern}
+                        onChange={(e) => {
+                            setFromPattern(e.target.value);
+                            setError(null);
+                        }}
+                        placeholder="M-D-YYYY"
+                        disabled={isMigrating}
+                    />
+                </div>
+                <div className="grid gap-2">
+                    <Label htmlFor="migrate-from-folder">Old folder</Label>
+                    <Input
+                        id="migrate-from-folder"
+                        value={fromFolder}
+                        onChange={(e) => setFromFolder(e.target.value)}
+                        placeholder="Notes root"
+                        disabled={isMigrating}
+                    />
+                </div>
+                <p className="text-sm text-muted-foreground">
+                    Today's note will move from <code>{getDailyNoteFileName(today, { pattern: fromPattern.trim(), folder: fromFolder.trim() })}</code> to{" "}
+                    <code>{getDailyNoteFileName(today, dailyNotes)}</code>. Wiki links to renamed notes are updated.
+                </p>
+                {sameSettings && <p className="text-sm text-muted-foreground">These match the current settings, so there is nothing to rename.</p>}
+                {error && <p className="text-sm text-destructive">{error}</p>}
+            </div>
+            <DialogFooter>
+                <Button variant="ghost" onClick={closeDialog} disabled={isMigrating}>
+                    Cancel
+                </Button>
+                <Button onClick={handleMigrate} disabled={isMigrating || sameSettings}>
+                    {isMigrating ? "Migrating..." : "Migrate"}
+                </Button>
+            </DialogFooter>
+        </>
+    );
+}
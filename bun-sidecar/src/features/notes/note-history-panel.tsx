@@ -0,0 +1,241 @@
+import { useEffect, useMemo, useState } from "react";
+import { FilePlus, History, RotateCcw, X } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useTheme } from "@/hooks/useTheme";
+import { cn } from "@/lib/utils";
+import type { FileVersion } from "@/lib/git";
+import { getEditHunks } from "./edit-hunks";
+
+// Stands in for an oid when comparing against the note as it is now
+const CURRENT = "current";
+
+type NoteHistoryResponse = {
+    success: boolean;
+    versions: FileVersion[];
+    current: string | null;
+    error?: string;
+};
+
+interface NoteHistoryPanelProps {
+    noteFileName: string;
+    onClose: () => void;
+    // Called after a version was written: over this note, or to a new note
+    onRestored: (fileName: string) => void;
+}
+
+// Commits that changed the open note, with a diff between any two versions and restore
+export function NoteHistoryPanel({ noteFileName, onClose, onRestored }: NoteHistoryPanelProps) {
+    const { currentTheme } = useTheme();
+    const [versions, setVersions] = useState<FileVersion[] | null>(null);
+    const [contents, setContents] = useState<Record<string, string>>({});
+    const [fromOid, setFromOid] = useState<string | null>(null);
+    const [toOid, setToOid] = useState<string>(CURRENT);
+    const [isRestoring, setIsRestoring] = useState(false);
+
+    useEffect(() => {
+        let cancelled = false;
+        setVersions(null);
+        setContents({});
+        setToOid(CURRENT);
+        (async () => {
+            try {
+                const response = await fetch(`/api/git/note-history?fileName=${encodeURIComponent(noteFileName)}`);
+                const data = (await response.json()) as NoteHistoryResponse;
+                if (!response.ok) throw new Error(data.error || "Failed to load history");
+                if (cancelled) return;
+                setVersions(data.versions);
+                setContents({ [CURRENT]: data.current ?? "" });
+                setFromOid(data.versions[0]?.oid ?? null);
+            } catch (error) {
+                if (!cancelled) {
+                    toast.error(error instanceof Error ? error.message : "Failed to load history");
+                    setVersions([]);
+                }
+            }
+        })();
+        return () => {
+            cancelled = true;
+        };
+    }, [noteFileName]);
+
+    // Load the compared versions the first time they're picked
+    useEffect(() => {
+        const missing = [fromOid, toOid].filter((oid): oid is string => !!oid && !(oid in contents));
+        if (missing.length === 0) return;
+        let cancelled = false;
+        Promise.all(
+            missing.map(async (oid) => {
+                const params = new URLSearchParams({ fileName: noteFileName, oid });
+                const response = await fetch(`/api/git/note-version?${params}`);
+                const data = (await response.json()) as { content: string; error?: string };
+                if (!response.ok) throw new Error(data.error || "Failed to load version");
+                return [oid, data.content] as const;
+            })
+        )
+            .then((loaded) => {
+                if (!cancelled) setContents((prev) => ({ ...prev, ...Object.fromEntries(loaded) }));
+            })
+            .catch((error) => toast.error(error instanceof Error ? error.message : "Failed to load version"));
+        return () => {
+            cancelled = true;
+        };
+    }, [fromOid, toOid, contents, noteFileName]);
+
+    const fromContent = fromOid ? contents[fromOid] : undefined;
+    const toContent = contents[toOid];
+    const hunks = useMemo(
+        () => (fromContent !== undefined && toContent !== undefined ? getEditHunks(fromContent, toContent) : null),
+        [fromContent, toContent]
+    );
+
+    const labelFor = (oid: string) => {
+        if (oid === CURRENT) return "Current";
+        const version = versions?.find((v) => v.oid === oid);
+        return version ? `${version.hash} · ${version.date}` : oid.slice(0, 7);
+    };
+
+    async function restore(asNewNote: boolean) {
+        if (!fromOid) return;
+        setIsRestoring(true);
+        try {
+            const response = await fetch("/api/git/restore-note-version", {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({ fileName: noteFileName, oid: fromOid, asNewNote }),
+            });
+            const data = (await response.json()) as { fileName?: string; error?: string };
+            if (!response.ok || !data.fileName) throw new Error(data.error || "Failed to restore version");
+            toast.success(asNewNote ? `Restored as ${data.fileName.replace(/\.md$/, "")}` : "Version restored");
+            if (!asNewNote) {
+                setContents((prev) => ({ ...prev, [CURRENT]: prev[fromOid] ?? prev[CURRENT] ?? "" }));
+            }
+            onRestored(data.fileName);
+        } catch (error) {
+            toast.error(error instanceof Error ? error.message : "Failed to restore version");
+        } finally {
+            setIsRestoring(false);
+        }
+    }
+
+    return (
+        <div
+            className="mx-4 my-2 rounded-lg border text-sm"
+            style={{ borderColor: currentTheme.styles.borderDefault, backgroundColor: currentTheme.styles.surfaceSecondary }}
+        >
+            <div className="flex items-center justify-between gap-2 px-3 py-2">
+                <div className="flex items-center gap-2 min-w-0" style={{ color: currentTheme.styles.contentSecondary }}>
+                    <History className="h-4 w-4 shrink-0" />
+                    <span className="truncate">
+                        {versions === null
+                            ? "Loading history…"
+                            : `${versions.length} synced version${versions.length === 1 ? "" : "s"} of this note`}
+                    </span>
+                </div>
+                <div className="flex items-center gap-1 shrink-0">
+                    <Button size="sm" variant="ghost" disabled={!fromOid || isRestoring} onClick={() => restore(true)}>
+                        <FilePlus className="h-3 w-3 mr-1" /> Restore as new note
+                    </Button>
+                    <Button size="sm" disabled={!fromOid || isRestoring} onClick={() => restore(false)}>
+                        <RotateCcw className="h-3 w-3 mr-1" /> Restore
+                    </Button>
+                    <Button size="sm" variant="ghost" className="h-8 w-8 p-0" onClick={onClose} title="Close history">
+                        <X className="h-4 w-4" />
+                    </Button>
+                </div>
+            </div>
+
+            {versions !== null && versions.length === 0 ? (
+                <div className="border-t px-3 py-3 text-xs" style={{ borderColor: currentTheme.styles.borderDefault, color: currentTheme.styles.contentTertiary }}>
+                    No synced versions yet. Versions appear here once the note has been committed by sync.
+                </div>
+            ) : (
+                <div className="flex border-t max-h-96" style={{ borderColor: currentTheme.styles.borderDefault }}>
+                    {/* Timeline */}
+                    <div className="w-56 shrink-0 overflow-auto border-r py-1" style={{ borderColor: currentTheme.styles.borderDefault }}>
+                        {versions?.map((version) => (
+                            <button
+                                key={version.oid}
+                                onClick={() => setFromOid(version.oid)}
+                                className={cn(
+                                    "w-full text-left px-3 py-1.5 transition-colors",
+                                    fromOid === version.oid ? "bg-accent" : "hover:bg-accent/50"
+                                )}
+                                title={new Date(version.timestamp).toLocaleString()}
+                            >
+                                <div className="truncate text-xs" style={{ color: currentTheme.styles.contentPrimary }}>
+                                    {version.message || "(no message)"}
+                                </div>
+                                <div className="truncate text-[10px]" style={{ color: currentTheme.styles.contentTertiary }}>
+                                    {version.hash} · {version.date} · {version.author}
+                                </div>
+                            </button>
+                        ))}
+                    </div>
+
+                    {/* Diff between the selected version and the one it's compared with */}
+                    <div className="flex-1 min-w-0 overflow-auto">
+                        {fromOid && (
+                            <div className="flex items-center gap-2 px-3 py-1.5 text-xs" style={{ color: currentTheme.styles.contentTertiary }}>
+                                <span className="shrink-0">Changes from {labelFor(fromOid)} to</span>
+                                <Select value={toOid} onValueChange={setToOid}>
+                                    <SelectTrigger className="h-7 w-auto text-xs">
+                                        <SelectValue />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                        <SelectItem value={CURRENT}>Current</SelectItem>
+                                        {versions?.map((version) => (
+                                            <SelectItem key={version.oid} value={version.oid}>
+                                                {labelFor(version.oid)}
+                                            </SelectItem>
+                                        ))}
+                                    </SelectContent>
+                                </Select>
+                            </div>
+                        )}
+                        {hunks === null ? (
+                            <div className="px-3 py-2 text-xs" style={{ color: currentTheme.styles.contentTertiary }}>
+                                {fromOid ? "Loading…" : "Select a version"}
+                            </div>
+                        ) : hunks.length === 0 ? (
+                            <div className="px-3 py-2 text-xs" style={{ color: currentTheme.styles.contentTertiary }}>
+                                No differences
+                            </div>
+                        ) : (
+                            hunks.map((hunk, index) => (
+                                <div key={`${hunk.oldStart}-${index}`} className="border-t" style={{ borderColor: currentTheme.styles.borderDefault }}>
+                                    <div className="px-3 py-1 text-xs" style={{ color: currentTheme.styles.contentTertiary }}>
+                                        Line {hunk.oldStart}
+                                    </div>
+                                    <pre className="px-3 pb-2 text-xs font-mono whitespace-pre-wrap">
+                                        {hunk.lines.map((line, lineIndex) => {
+                                            const marker = line[0];
+                                            const color =
+                                                marker === "+"
+                                                    ? currentTheme.styles.semanticSuccess
+                                                    : marker === "-"
+                                                      ? currentTheme.styles.semanticDestructive
+                                                      : currentTheme.styles.contentSecondary;
+                                            return (
+                                                <div
+                                                    key={lineIndex}
+                                                    style={{
+                                                        color,
+                                                        backgroundColor: marker === "+" || marker === "-" ? color + "15" : undefined,
+                                                    }}
+                                                >
+                                                    {line || " "}
+                                                </div>
+                                            );
+                                        })}
+                                    </pre>
+                                </div>
+                            ))
+                        )}
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+}
@@ -4,6 +4,7 @@ import { useWorkspaceContext } from "@/contexts/WorkspaceContext";
 import { todosAPI } from "@/hooks/useTodosAPI";
 import { EditorState, Selection, NodeSelection, TextSelection } from "prosemirror-state";
 import { EditorView } from "prosemirror-view";
+import type { Node as ProseMirrorNode } from "prosemirror-model";
 import { exampleSetup } from "prosemirror-example-setup";
 import { sinkListItem, liftListItem, wrapInList } from "prosemirror-schema-list";
 import { keymap } from "prosemirror-keymap";
@@ -32,6 +33,8 @@ import {
     type TagLinkPluginState,
 } from "@/components/prosemirror/tag-links";
 import "@/components/prosemirror/tag-links/tag-links.css";
+import { NoteEmbedView } from "@/components/prosemirror/note-embeds";
+import "@/components/prosemirror/note-embeds/note-embeds.css";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import {
     Breadcrumb,
@@ -50,6 +53,7 @@ import { useTheme } from "@/hooks/useTheme";
 import { useTabScrollPersistence } from "@/hooks/useTabScrollPersistence";
 import { useTabCursorPersistence } from "@/hooks/useTabCursorPersistence";
 import { useFileLocks } from "@/hooks/useFileLocks";
+import { pendingEditsAPI, usePendingEdit } from "@/hooks/usePendingEdits";
 import { TagInput } from "./TagInput";
 import { ProjectInput } from "./ProjectInput";
 import { onRefresh, emit, subscribe } from "@/lib/events";
@@ -62,6 +66,12 @@ import "@/components/prosemirror/search.css";
 import { createSpellcheckPlugin, runSpellcheck, clearSpellcheck } from "@/components/prosemirror/spellcheck";
 import { SpellcheckPopup } from "@/components/prosemirror/spellcheck/SpellcheckPopup";
 import "@/components/prosemirror/spellcheck/spellcheck.css";
+import { anchorMatchesBlock, parseWikiLink } from "./wiki-link-utils";
+import { useHeadingRenameOffer } from "./useHeadingRenameOffer";
+import { PendingEditReview } from "./pending-edit-review";
+import { NoteHistoryPanel } from "./note-history-panel";
+import { History } from "lucide-react";
+import { Button } from "@/components/ui/button";
 
 interface NotesViewProps {
     noteFileName: string;
@@ -69,6 +79,7 @@ interface NotesViewProps {
     autoFocus?: boolean;
     compact?: boolean; // Hides header toolbar when embedded
     scrollToLine?: number; // Line number to scroll to on initial load
+    anchor?: string; // Heading text or ^block-id to scroll to on initial load
 }
 
 interface Heading {
@@ -77,8 +88,65 @@ interface Heading {
     id: string;
 }
 
+/**
+ * Line number (1-based block index, as used by scrollToLine) of the heading or block an anchor points at
+ */
+function findAnchorLine(doc: ProseMirrorNode, anchor: string): number | undefined {
+    let line = 0;
+    let found: number | undefined;
+    doc.descendants((node) => {
+        if (found !== undefined) return false;
+        if (!node.isBlock) return false;
+        line++;
+        if (node.isTextblock && anchorMatchesBlock(anchor, { isHeading: node.type.name === "heading", text: node.textContent })) {
+            found = line;
+            return false;
+        }
+        return true;
+    });
+    return found;
+}
+
+/**
+ * Scroll to a specific line number with context above and put the cursor on it
+ */
+function scrollViewToLine(view: EditorView, lineNum: number): void {
+    const doc = view.state.doc;
+    const linePositions: number[] = [0]; // Position of each line start (1-indexed, so [0] is unused)
+
+    // Build array of line start positions
+    doc.descendants((node, pos) => {
+        if (node.isBlock && node.type.name !== "doc") {
+            linePositions.push(pos);
+        }
+        return true;
+    });
+
+    // Calculate scroll target (a few lines before the match for context)
+    const contextLines = 5;
+    const scrollTargetLine = Math.max(1, lineNum - contextLines);
+    const scrollTargetPos = linePositions[scrollTargetLine] ?? 0;
+
+    // Get the actual target position for cursor placement
+    const targetPos = linePositions[lineNum] ?? linePositions[linePositions.length - 1] ?? 0;
+
+    // First scroll the context line into view at the top
+    const scrollTr = view.state.tr.setSelection(
+        TextSelection.create(view.state.doc, scrollTargetPos)
+    );
+    view.dispatch(scrollTr.scrollIntoView());
+
+    // Then set cursor at the actual target line (without scrolling again)
+    requestAnimationFrame(() => {
+        const cursorTr = view.state.tr.setSelection(
+            TextSelection.create(view.state.doc, targetPos)
+        );
+        view.dispatch(cursorTr);
+    });
+}
+
 export function NotesView(props: NotesViewProps) {
-    const { noteFileName, tabId, autoFocus = true, compact = false, scrollToLine } = props;
+    const { noteFileName, tabId, autoFocus = true, compact = false, scrollToLine, anchor } = props;
     if (!tabId) {
         throw new Error("tabId is required");
     }
@@ -108,6 +176,7 @@ export function NotesView(props: NotesViewProps) {
         selectedIndex: 0,
     });
     const [isSearchOpen, setIsSearchOpen] = useState(false);
+    const [isHistoryOpen, setIsHistoryOpen] = useState(false);
 
     const editorRef = useRef<HTMLDivElement>(null);
     const viewRef = useRef<EditorView | null>(null);
@@ -126,6 +195,8 @@ export function NotesView(props: NotesViewProps) {
     const { currentTheme } = useTheme();
     const { isLocked: isFileLocked } = useFileLocks();
     const isLocked = isFileLocked(noteFileName);
+    const pendingEdit = usePendingEdit(noteFileName);
+    const { reset: resetHeadingRenames, checkSavedContent: checkHeadingRenames } = useHeadingRenameOffer(noteFileName);
 
     useEffect(() => {
         const view = viewRef.current;
@@ -137,7 +208,12 @@ export function NotesView(props: NotesViewProps) {
 
     // Subscribe to wiki link click events and navigate
     useEffect(() => {
-        return subscribe("wikilink:click", async ({ target }) => {
+        return subscribe("wikilink:click", async ({ target: href, sourceNote }) => {
+            // [[Note#Heading|alias]] → target "Note", anchor "Heading"; [[#Heading]] stays in the same note
+            const { target: linkTarget, anchor: linkAnchor } = parseWikiLink(href);
+            const target = linkTarget || sourceNote?.replace(/\.md$/, "") || "";
+            if (!target) return;
+
             // Check if this is a todo link (e.g., todos/todo-1737036787-slug.md)
             if (target.startsWith("todos/")) {
                 // Extract the todo ID from the path (remove "todos/" prefix and ".md" suffix)
@@ -167,14 +243,34 @@ export function NotesView(props: NotesViewProps) {
             }
 
             // Default: open as a note
+            const targetFileName = `${target}.md`;
             openTab({
                 pluginMeta: { id: "notes", name: "Notes", icon: "file" },
                 view: "editor",
-                props: { noteFileName: `${target}.md` },
+                props: { noteFileName: targetFileName, anchor: linkAnchor },
             });
+            // A tab that was already open ignores the new props, so ask it to scroll
+            if (linkAnchor) {
+                emit("notes:scrollToAnchor", { noteFileName: targetFileName, anchor: linkAnchor });
+            }
         });
     }, [openTab]);
 
+    // Scroll to a heading or block when a link into this already-open note is followed
+    useEffect(() => {
+        return subscribe("notes:scrollToAnchor", ({ noteFileName: targetFileName, anchor: targetAnchor }) => {
+            const view = viewRef.current;
+            if (targetFileName !== noteFileName || !view) return;
+            const line = findAnchorLine(view.state.doc, targetAnchor);
+            if (line) {
+                requestAnimationFrame(() => {
+                    view.focus();
+                    scrollViewToLine(view, line);
+                });
+            }
+        });
+    }, [noteFileName]);
+
     // Subscribe to tag click events and navigate to tag detail
     useEffect(() => {
         return subscribe("tag:click", ({ tag }) => {
@@ -423,12 +519,13 @@ export function NotesView(props: NotesViewProps) {
                     lastKnownMtimeRef.current = savedNote.mtime;
                 }
                 setSaveState("saved");
+                checkHeadingRenames(contentToSave);
             } catch {
                 setSaveState("error");
                 setTimeout(() => setSaveState("unsaved"), 3000); // Reset error state after 3s
             }
         },
-        [notesAPI, noteFileName]
+        [notesAPI, noteFileName, checkHeadingRenames]
     );
 
     // Debounced auto-save function
@@ -453,13 +550,14 @@ export function NotesView(props: NotesViewProps) {
                         lastKnownMtimeRef.current = savedNote.mtime;
                     }
                     setSaveState("saved");
+                    checkHeadingRenames(contentToSave);
                 } catch {
                     setSaveState("error");
                     setTimeout(() => setSaveState("unsaved"), 3000); // Reset error state after 3s
                 }
             }, 200); // 0.2 second delay
         },
-        [notesAPI, noteFileName]
+        [notesAPI, noteFileName, checkHeadingRenames]
     );
 
     // Handle tag updates
@@ -537,6 +635,7 @@ export function NotesView(props: NotesViewProps) {
                 setNote(noteResult);
                 setContent(noteContent);
                 setHeadings(parseHeadings(noteContent));
+                resetHeadingRenames(noteContent);
                 lastSavedContentRef.current = noteContent;
                 lastKnownMtimeRef.current = noteResult?.mtime ?? null;
                 setSaveState("saved");
@@ -571,7 +670,7 @@ export function NotesView(props: NotesViewProps) {
         return () => {
             cancelled = true;
         };
-    }, [noteFileName, notesAPI, setLoading, setError, parseHeadings]);
+    }, [noteFileName, notesAPI, setLoading, setError, parseHeadings, resetHeadingRenames]);
 
     // Listen for refresh events to reload tags and project
     useEffect(() => {
@@ -637,8 +736,9 @@ export function NotesView(props: NotesViewProps) {
                 plugins: viewRef.current.state.plugins,
                 selection: Selection.atStart(doc!),
             });
-            viewRef.current.updateState(stateWithNewDoc);
+            // Set before updateState so embed views are created for the new note
             currentNoteFileNameRef.current = noteFileName;
+            viewRef.current.updateState(stateWithNewDoc);
             initializedContentRef.current = contentToUse;
 
             // Re-register Cmd+Enter handler (cleanup from previous render unregistered it)
@@ -729,6 +829,9 @@ export function NotesView(props: NotesViewProps) {
         const view = new EditorView(editorRef.current, {
             state,
             editable: () => !isLocked,
+            nodeViews: {
+                note_embed: (node) => new NoteEmbedView(node, currentNoteFileNameRef.current || noteFileName),
+            },
             dispatchTransaction(transaction) {
                 const newState = view.state.apply(transaction);
                 view.updateState(newState);
@@ -877,50 +980,17 @@ export function NotesView(props: NotesViewProps) {
             return toggleTodoAtLine(view.state, view.dispatch);
         });
 
-        // Helper to scroll to a specific line number with context above
-        const scrollToLineNumber = (lineNum: number) => {
-            const doc = view.state.doc;
-            const linePositions: number[] = [0]; // Position of each line start (1-indexed, so [0] is unused)
-
-            // Build array of line start positions
-            doc.descendants((node, pos) => {
-                if (node.isBlock && node.type.name !== "doc") {
-                    linePositions.push(pos);
-                }
-                return true;
-            });
-
-            // Calculate scroll target (a few lines before the match for context)
-            const contextLines = 5;
-            const scrollTargetLine = Math.max(1, lineNum - contextLines);
-            const scrollTargetPos = linePositions[scrollTargetLine] ?? 0;
-
-            // Get the actual target position for cursor placement
-            const targetPos = linePositions[lineNum] ?? linePositions[linePositions.length - 1] ?? 0;
-
-            // First scroll the context line into view at the top
-            const scrollTr = view.state.tr.setSelection(
-                TextSelection.create(view.state.doc, scrollTargetPos)
-            );
-            view.dispatch(scrollTr.scrollIntoView());
-
-            // Then set cursor at the actual target line (without scrolling again)
-            requestAnimationFrame(() => {
-                const cursorTr = view.state.tr.setSelection(
-                    TextSelection.create(view.state.doc, targetPos)
-                );
-                view.dispatch(cursorTr);
-            });
-        };
+        // Initial scroll target: the linked heading/block, else the requested line
+        const initialLine = (anchor && findAnchorLine(view.state.doc, anchor)) || scrollToLine;
 
         // Focus editor and handle cursor/scroll position
         if (autoFocus) {
             requestAnimationFrame(() => {
                 try {
                     view.focus();
-                    // If scrollToLine is specified, scroll to that line
-                    if (scrollToLine && scrollToLine > 0) {
-                        scrollToLineNumber(scrollToLine);
+                    // If a line or anchor is specified, scroll to it
+                    if (initialLine && initialLine > 0) {
+                        scrollViewToLine(view, initialLine);
                     } else {
                         // Try to restore saved cursor position, otherwise place at start
                         restoreCursor(view);
@@ -933,8 +1003,8 @@ export function NotesView(props: NotesViewProps) {
             // Even without autoFocus, handle scroll position
             requestAnimationFrame(() => {
                 try {
-                    if (scrollToLine && scrollToLine > 0) {
-                        scrollToLineNumber(scrollToLine);
+                    if (initialLine && initialLine > 0) {
+                        scrollViewToLine(view, initialLine);
                     } else {
                         restoreCursor(view);
                     }
@@ -1100,6 +1170,52 @@ export function NotesView(props: NotesViewProps) {
         }
     }, [activeTab?.id, tabId, autoFocus]);
 
+    // Replace the editor content, tags and project with the note as it is on disk
+    async function reloadNoteFromDisk() {
+        const freshNote = await notesAPI.getNoteByFileName({ fileName: noteFileName, skipCache: true });
+        const freshContent = freshNote?.content || "";
+        setNote(freshNote);
+        setContent(freshContent);
+        setHeadings(parseHeadings(freshContent));
+        resetHeadingRenames(freshContent);
+        lastSavedContentRef.current = freshContent;
+        lastKnownMtimeRef.current = freshNote?.mtime ?? null;
+        initializedContentRef.current = freshContent;
+
+        // Update editor if it exists
+        if (viewRef.current) {
+            const doc = tableMarkdownParser.parse(freshContent) || tableSchema.nodes.doc.createAndFill();
+            const stateWithNewDoc = EditorState.create({
+                doc,
+                plugins: viewRef.current.state.plugins,
+                selection: Selection.atStart(doc!),
+            });
+            viewRef.current.updateState(stateWithNewDoc);
+        }
+
+        // Update tags and project from front matter
+        const noteTags = freshNote?.frontMatter?.tags;
+        if (Array.isArray(noteTags)) {
+            setTags(noteTags.filter((tag): tag is string => typeof tag === "string"));
+        } else {
+            setTags([]);
+        }
+        const noteProject = freshNote?.frontMatter?.project;
+        if (typeof noteProject === "string") {
+            setProject(noteProject);
+        } else {
+            setProject(null);
+        }
+    }
+
+    // Load any agent edits waiting for review on this note
+    useEffect(() => {
+        if (!noteFileName) return;
+        pendingEditsAPI.loadForNote({ noteFileName }).catch((error) => {
+            console.error("Failed to load pending edits:", error);
+        });
+    }, [noteFileName]);
+
     // Check for external changes when tab becomes active (not on initial mount)
     useEffect(() => {
         const wasActive = prevActiveTabIdRef.current === tabId;
@@ -1134,42 +1250,7 @@ export function NotesView(props: NotesViewProps) {
                         duration: Infinity,
                         action: {
                             label: "Reload",
-                            onClick: async () => {
-                                // Reload the note from disk
-                                const freshNote = await notesAPI.getNoteByFileName({ fileName: noteFileName, skipCache: true });
-                                const freshContent = freshNote?.content || "";
-                                setNote(freshNote);
-                                setContent(freshContent);
-                                setHeadings(parseHeadings(freshContent));
-                                lastSavedContentRef.current = freshContent;
-                                lastKnownMtimeRef.current = freshNote?.mtime ?? null;
-                                initializedContentRef.current = freshContent;
-
-                                // Update editor if it exists
-                                if (viewRef.current) {
-                                    const doc = tableMarkdownParser.parse(freshContent) || tableSchema.nodes.doc.createAndFill();
-                                    const stateWithNewDoc = EditorState.create({
-                                        doc,
-                                        plugins: viewRef.current.state.plugins,
-                                        selection: Selection.atStart(doc!),
-                                    });
-                                    viewRef.current.updateState(stateWithNewDoc);
-                                }
-
-                                // Update tags and project from front matter
-                                const noteTags = freshNote?.frontMatter?.tags;
-                                if (Array.isArray(noteTags)) {
-                                    setTags(noteTags.filter((tag): tag is string => typeof tag === "string"));
-                                } else {
-                                    setTags([]);
-                                }
-                                const noteProject = freshNote?.frontMatter?.project;
-                                if (typeof noteProject === "string") {
-                                    setProject(noteProject);
-                                } else {
-                                    setProject(null);
-                                }
-                            },
+                            onClick: reloadNoteFromDisk,
                         },
                         cancel: {
                             label: "Keep mine",
@@ -1181,39 +1262,7 @@ export function NotesView(props: NotesViewProps) {
                     });
                 } else {
                     // No unsaved edits - silently refresh
-                    const freshNote = await notesAPI.getNoteByFileName({ fileName: noteFileName, skipCache: true });
-                    const freshContent = freshNote?.content || "";
-                    setNote(freshNote);
-                    setContent(freshContent);
-                    setHeadings(parseHeadings(freshContent));
-                    lastSavedContentRef.current = freshContent;
-                    lastKnownMtimeRef.current = freshNote?.mtime ?? null;
-                    initializedContentRef.current = freshContent;
-
-                    // Update editor if it exists
-                    if (viewRef.current) {
-                        const doc = tableMarkdownParser.parse(freshContent) || tableSchema.nodes.doc.createAndFill();
-                        const stateWithNewDoc = EditorState.create({
-                            doc,
-                            plugins: viewRef.current.state.plugins,
-                            selection: Selection.atStart(doc!),
-                        });
-                        viewRef.current.updateState(stateWithNewDoc);
-                    }
-
-                    // Update tags and project from front matter
-                    const noteTags = freshNote?.frontMatter?.tags;
-                    if (Array.isArray(noteTags)) {
-                        setTags(noteTags.filter((tag): tag is string => typeof tag === "string"));
-                    } else {
-                        setTags([]);
-                    }
-                    const noteProject = freshNote?.frontMatter?.project;
-                    if (typeof noteProject === "string") {
-                        setProject(noteProject);
-                    } else {
-                        setProject(null);
-                    }
+                    await reloadNoteFromDisk();
                 }
             } catch (error) {
                 console.error("Failed to check for external changes:", error);
@@ -1379,6 +1428,16 @@ export function NotesView(props: NotesViewProps) {
                                 );
                             })()}
                         </div>
+                        <Button
+                            size="sm"
+                            variant="ghost"
+                            className="ml-auto h-8 w-8 p-0 shrink-0"
+                            onClick={() => setIsHistoryOpen((open) => !open)}
+                            title="Version history"
+                            style={{ color: isHistoryOpen ? currentTheme.styles.contentAccent : currentTheme.styles.contentTertiary }}
+                        >
+                            <History className="h-4 w-4" />
+                        </Button>
                     </div>
 
                     {/* Project and Tags row */}
@@ -1389,6 +1448,30 @@ export function NotesView(props: NotesViewProps) {
                 </div>
             )}
 
+            {/* Agent changes waiting for review */}
+            {!loading && !error && note && pendingEdit && (
+                <PendingEditReview edit={pendingEdit} onAccepted={reloadNoteFromDisk} />
+            )}
+
+            {/* Synced versions of this note */}
+            {!loading && !error && note && isHistoryOpen && (
+                <NoteHistoryPanel
+                    noteFileName={noteFileName}
+                    onClose={() => setIsHistoryOpen(false)}
+                    onRestored={(fileName) => {
+                        if (fileName === noteFileName) {
+                            reloadNoteFromDisk();
+                        } else {
+                            openTab({
+                                pluginMeta: { id: "notes", name: "Notes", icon: "file" },
+                                view: "editor",
+                                props: { noteFileName: fileName },
+                            });
+                        }
+                    }}
+                />
+            )}
+
             {/* Main content area with flex layout */}
             <div className="flex-1 overflow-hidden flex min-h-0">
                 {/* Main scrollable area */}
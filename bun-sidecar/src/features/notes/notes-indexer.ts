@@ -1,15 +1,20 @@
 /**
  * Notes Indexer
  *
- * Unified indexer that scans files once and extracts both wiki links and tags.
- * Provides data to backlinks and tags services.
+ * Unified indexer that scans files once and extracts wiki links, tags, search terms and chunks.
+ * Provides data to the backlinks, tags, search and semantic services.
  */
 
 import { startupLog } from "@/lib/logger";
 import { hasActiveWorkspace } from "@/storage/root-path";
 import { scanNotesFiles, scanAllFiles, readFileContents, getFileRef, type ScannedFile } from "./file-scanner";
 import { extractWikiLinks } from "./backlinks-service";
+import type { WikiLinkRef } from "./backlinks-types";
 import { extractTags } from "./tags-service";
+import { extractSearchDocument } from "./search-service";
+import type { ExtractedSearchDocument } from "./search-types";
+import { chunkMarkdown, chunkTodo } from "./semantic-chunks";
+import type { TextChunk } from "./semantic-types";
 
 export interface FileIndexData {
     /** File reference (e.g., "notes:path/to/file.md") */
@@ -21,9 +26,13 @@ export interface FileIndexData {
     /** File modification time */
     mtime: number;
     /** Extracted wiki links (for backlinks) */
-    wikiLinks: string[];
+    wikiLinks: WikiLinkRef[];
     /** Extracted tags (for tags index) */
     tags: string[];
+    /** Extracted search document (notes only, for search index) */
+    search?: ExtractedSearchDocument;
+    /** Sections to embed (for semantic index) */
+    chunks: TextChunk[];
 }
 
 export interface IndexScanResult {
@@ -35,6 +44,23 @@ export interface IndexScanResult {
     skippedErrors: number;
 }
 
+/**
+ * Extract wiki links, tags and the search document from a file whose content has been read.
+ */
+function toIndexData(file: ScannedFile): FileIndexData {
+    const content = file.content || "";
+    return {
+        fileRef: getFileRef(file),
+        relativePath: file.relativePath,
+        source: file.source,
+        mtime: file.mtime,
+        wikiLinks: extractWikiLinks(content),
+        tags: extractTags(content),
+        search: file.source === "notes" ? extractSearchDocument({ fileName: file.relativePath, content }) : undefined,
+        chunks: file.source === "notes" ? chunkMarkdown(content) : chunkTodo(content),
+    };
+}
+
 /**
  * Scan and extract index data from all files.
  * Used for building fresh indexes.
@@ -70,15 +96,8 @@ export async function scanAndExtractAll(params: {
     await readFileContents(scanResult.files);
 
     // Extract wiki links and tags from each file
-    startupLog.info("Extracting links and tags...");
-    const indexedFiles: FileIndexData[] = scanResult.files.map((file) => ({
-        fileRef: getFileRef(file),
-        relativePath: file.relativePath,
-        source: file.source,
-        mtime: file.mtime,
-        wikiLinks: extractWikiLinks(file.content || ""),
-        tags: extractTags(file.content || ""),
-    }));
+    startupLog.info("Extracting links, tags and search terms...");
+    const indexedFiles: FileIndexData[] = scanResult.files.map(toIndexData);
 
     return {
         files: indexedFiles,
@@ -142,12 +161,5 @@ export async function findModifiedFiles(params: {
 export async function extractFromFiles(files: ScannedFile[]): Promise<FileIndexData[]> {
     await readFileContents(files);
 
-    return files.map((file) => ({
-        fileRef: getFileRef(file),
-        relativePath: file.relativePath,
-        source: file.source,
-        mtime: file.mtime,
-        wikiLinks: extractWikiLinks(file.content || ""),
-        tags: extractTags(file.content || ""),
-    }));
+    return files.map(toIndexData);
 }
@@ -0,0 +1,121 @@
+import { useMemo, useState } from "react";
+import { Check, X, Bot } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { useTheme } from "@/hooks/useTheme";
+import { usePendingEditsAPI } from "@/hooks/usePendingEdits";
+import type { PendingEdit } from "@/types/PendingEdit";
+import { getEditHunks } from "./edit-hunks";
+
+interface PendingEditReviewProps {
+    edit: PendingEdit;
+    // Called after accepted hunks were written to the note, so the editor can reload it
+    onAccepted: () => void;
+}
+
+// Inline diff of an agent's proposed changes to the open note, reviewed hunk by hunk
+export function PendingEditReview({ edit, onAccepted }: PendingEditReviewProps) {
+    const { currentTheme } = useTheme();
+    const api = usePendingEditsAPI();
+    const [isBusy, setIsBusy] = useState(false);
+    const hunks = useMemo(() => getEditHunks(edit.baseContent, edit.proposedContent), [edit]);
+
+    async function resolve(action: "accept" | "reject", hunkIndexes?: number[]) {
+        setIsBusy(true);
+        try {
+            if (action === "accept") {
+                await api.accept(edit, hunkIndexes);
+                onAccepted();
+            } else {
+                await api.reject(edit, hunkIndexes);
+            }
+        } catch (error) {
+            toast.error(error instanceof Error ? error.message : `Failed to ${action} changes`);
+        } finally {
+            setIsBusy(false);
+        }
+    }
+
+    if (hunks.length === 0) {
+        return null;
+    }
+
+    return (
+        <div
+            className="mx-4 my-2 rounded-lg border text-sm"
+            style={{ borderColor: currentTheme.styles.borderDefault, backgroundColor: currentTheme.styles.surfaceSecondary }}
+        >
+            <div className="flex items-center justify-between gap-2 px-3 py-2">
+                <div className="flex items-center gap-2 min-w-0" style={{ color: currentTheme.styles.contentSecondary }}>
+                    <Bot className="h-4 w-4 shrink-0" />
+                    <span className="truncate">
+                        <span style={{ color: currentTheme.styles.contentPrimary }}>{edit.agentName}</span> proposed{" "}
+                        {hunks.length} change{hunks.length === 1 ? "" : "s"} to this note
+                    </span>
+                </div>
+                <div className="flex items-center gap-1 shrink-0">
+                    <Button size="sm" variant="ghost" disabled={isBusy} onClick={() => resolve("reject")}>
+                        Reject all
+                    </Button>
+                    <Button size="sm" disabled={isBusy} onClick={() => resolve("accept")}>
+                        Accept all
+                    </Button>
+                </div>
+            </div>
+
+            <div className="max-h-80 overflow-auto">
+                {hunks.map((hunk, index) => (
+                    <div key={`${hunk.oldStart}-${index}`} className="border-t" style={{ borderColor: currentTheme.styles.borderDefault }}>
+                        <div className="flex items-center justify-between px-3 py-1">
+                            <span className="text-xs" style={{ color: currentTheme.styles.contentTertiary }}>
+                                Line {hunk.oldStart}
+                            </span>
+                            <div className="flex items-center gap-1">
+                                <Button
+                                    size="sm"
+                                    variant="ghost"
+                                    className="h-6 px-2 text-xs"
+                                    disabled={isBusy}
+                                    onClick={() => resolve("reject", [index])}
+                                >
+                                    <X className="h-3 w-3 mr-1" /> Reject
+                                </Button>
+                                <Button
+                                    size="sm"
+                                    variant="ghost"
+                                    className="h-6 px-2 text-xs"
+                                    disabled={isBusy}
+                                    onClick={() => resolve("accept", [index])}
+                                >
+                                    <Check className="h-3 w-3 mr-1" /> Accept
+                                </Button>
+                            </div>
+                        </div>
+                        <pre className="px-3 pb-2 text-xs font-mono whitespace-pre-wrap">
+                            {hunk.lines.map((line, lineIndex) => {
+                                const marker = line[0];
+                                const color =
+                                    marker === "+"
+                                        ? currentTheme.styles.semanticSuccess
+                                        : marker === "-"
+                                          ? currentTheme.styles.semanticDestructive
+                                          : currentTheme.styles.contentSecondary;
+                                return (
+                                    <div
+                                        key={lineIndex}
+                                        style={{
+                                            color,
+                                            backgroundColor: marker === "+" || marker === "-" ? color + "15" : undefined,
+                                        }}
+                                    >
+                                        {line || " "}
+                                    </div>
+                                );
+                            })}
+                        </pre>
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+}
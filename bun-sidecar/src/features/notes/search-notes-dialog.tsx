@@ -129,9 +129,7 @@ export function SearchNotesDialog({ onSuccess }: SearchNotesDialogProps) {
             } else if (e.key === "Enter") {
                 e.preventDefault();
                 if (results[selectedIndex]) {
-                    const contentMatches = results[selectedIndex].matches.filter(m => m.line > 0);
-                    const firstMatchLine = contentMatches.length > 0 ? contentMatches[0].line : undefined;
-                    openNote(results[selectedIndex].fileName, firstMatchLine);
+                    openNote(results[selectedIndex].fileName, results[selectedIndex].snippet?.line);
                 }
             } else if (e.key === "Escape") {
                 e.preventDefault();
@@ -148,28 +146,23 @@ export function SearchNotesDialog({ onSuccess }: SearchNotesDialogProps) {
         inputRef.current?.focus();
     }, []);
 
-    // Highlight matching text in a string
-    const highlightMatches = (text: string) => {
-        if (!query.trim()) return text;
+    // Highlight character ranges (from the search index) in a string
+    const highlightRanges = (text: string, ranges: Array<{ start: number; end: number }>) => {
+        if (ranges.length === 0) return text;
 
         const parts: React.ReactNode[] = [];
         let lastIndex = 0;
 
-        const lowerText = text.toLowerCase();
-        const lowerQuery = query.toLowerCase();
-        let searchIndex = 0;
+        for (const range of [...ranges].sort((a, b) => a.start - b.start)) {
+            if (range.start < lastIndex) continue;
 
-        while (true) {
-            const index = lowerText.indexOf(lowerQuery, searchIndex);
-            if (index === -1) break;
-
-            if (index > lastIndex) {
-                parts.push(text.slice(lastIndex, index));
+            if (range.start > lastIndex) {
+                parts.push(text.slice(lastIndex, range.start));
             }
 
             parts.push(
                 <mark
-                    key={`${index}-${parts.length}`}
+                    key={`${range.start}-${parts.length}`}
                     style={{
                         backgroundColor: styles.semanticPrimary,
                         color: styles.semanticPrimaryForeground,
@@ -177,21 +170,29 @@ export function SearchNotesDialog({ onSuccess }: SearchNotesDialogProps) {
                         padding: "0 2px",
                     }}
                 >
-                    {text.slice(index, index + lowerQuery.length)}
+                    {text.slice(range.start, range.end)}
                 </mark>
             );
 
-            lastIndex = index + lowerQuery.length;
-            searchIndex = lastIndex;
+            lastIndex = range.end;
         }
 
         if (lastIndex < text.length) {
             parts.push(text.slice(lastIndex));
         }
 
-        return parts.length > 0 ? parts : text;
+        return parts;
     };
 
+    // Highlight ranges reported for a given line (line 0 is the file name)
+    const lineRanges = (result: SearchResult | undefined, line: number) =>
+        result?.matches
+            .filter(m => m.line === line)
+            .map(m => ({ start: m.startIndex, end: m.endIndex })) ?? [];
+
+    const highlightTitle = (result: SearchResult | undefined, fileName: string) =>
+        highlightRanges(fileName.replace(/\.md$/, ""), lineRanges(result, 0).filter(r => r.end <= fileName.length - 3));
+
     // Render preview content with highlights
     const renderPreviewContent = () => {
         if (!previewNote) return null;
@@ -219,7 +220,7 @@ export function SearchNotesDialog({ onSuccess }: SearchNotesDialogProps) {
                                 color: styles.contentPrimary,
                             }}
                         >
-                            {isMatchLine ? highlightMatches(line) : line || " "}
+                            {isMatchLine ? highlightRanges(line, lineRanges(selectedResult, lineNumber)) : line || " "}
                         </div>
                     );
                 })}
@@ -240,7 +241,7 @@ export function SearchNotesDialog({ onSuccess }: SearchNotesDialogProps) {
                     ref={inputRef}
                     value={query}
                     onChange={(e) => setQuery(e.target.value)}
-                    placeholder="Search notes..."
+                    placeholder='Search notes... ("exact phrase", word*, tag:, project:, folder:, title:)'
                     className="w-full"
                 />
             </div>
@@ -275,7 +276,6 @@ export function SearchNotesDialog({ onSuccess }: SearchNotesDialogProps) {
                         <div>
                             {results.map((result, index) => {
                                 const isSelected = index === selectedIndex;
-                                const contentMatches = result.matches.filter(m => m.line > 0);
 
                                 return (
                                     <div
@@ -286,14 +286,14 @@ export function SearchNotesDialog({ onSuccess }: SearchNotesDialogProps) {
                                             backgroundColor: isSelected ? styles.surfaceTertiary : "transparent",
                                             borderColor: styles.borderDefault,
                                         }}
-                                        onClick={() => openNote(result.fileName, contentMatches.length > 0 ? contentMatches[0].line : undefined)}
+                                        onClick={() => openNote(result.fileName, result.snippet?.line)}
                                         onMouseEnter={() => setSelectedIndex(index)}
                                     >
                                         <div
                                             className="font-medium text-sm truncate"
                                             style={{ color: styles.contentPrimary }}
                                         >
-                                            {highlightMatches(result.fileName.replace(/\.md$/, ""))}
+                                            {highlightTitle(result, result.fileName)}
                                         </div>
 
                                         {result.folderPath && (
@@ -305,12 +305,12 @@ export function SearchNotesDialog({ onSuccess }: SearchNotesDialogProps) {
                                             </div>
                                         )}
 
-                                        {contentMatches.length > 0 && (
+                                        {result.snippet && (
                                             <div
-                                                className="text-xs mt-1 truncate font-mono"
+                                                className="text-xs mt-1 line-clamp-2 font-mono"
                                                 style={{ color: styles.contentSecondary }}
                                             >
-                                                L{contentMatches[0].line}: {contentMatches[0].text.trim()}
+                                                L{result.snippet.line}: {highlightRanges(result.snippet.text, result.snippet.highlights)}
                                             </div>
                                         )}
 
@@ -356,7 +356,7 @@ export function SearchNotesDialog({ onSuccess }: SearchNotesDialogProps) {
                                 className="font-semibold text-base mb-1"
                                 style={{ color: styles.contentPrimary }}
                             >
-                                {highlightMatches(previewNote.fileName.replace(/\.md$/, ""))}
+                                {highlightTitle(selectedResult, previewNote.fileName)}
                             </div>
                             {selectedResult?.folderPath && (
                                 <div
@@ -0,0 +1,81 @@
+import { test, expect, describe } from "bun:test";
+import { parseSearchQuery, extractSearchDocument, tokenize } from "./search-service";
+
+describe("Search Query Parser", () => {
+    test("parses bare terms and treats the last one as a prefix while typing", () => {
+        const parsed = parseSearchQuery("weekly rev");
+
+        expect(parsed.terms).toEqual([
+            { kind: "term", value: "weekly", prefix: false },
+            { kind: "term", value: "rev", prefix: true },
+        ]);
+        expect(parsed.phrases).toEqual([]);
+        expect(parsed.filters).toEqual([]);
+    });
+
+    test("does not prefix the last term after trailing whitespace", () => {
+        const parsed = parseSearchQuery("weekly ");
+        expect(parsed.terms).toEqual([{ kind: "term", value: "weekly", prefix: false }]);
+    });
+
+    test("parses explicit prefixes and quoted phrases", () => {
+        const parsed = parseSearchQuery('plan* "release checklist" ');
+
+        expect(parsed.terms).toEqual([{ kind: "term", value: "plan", prefix: true }]);
+        expect(parsed.phrases).toEqual([{ kind: "phrase", terms: ["release", "checklist"] }]);
+    });
+
+    test("parses field filters", () => {
+        const parsed = parseSearchQuery('tag:#Work project:"Big Launch" folder:meetings/2024 title:sync*');
+
+        expect(parsed.terms).toEqual([]);
+        expect(parsed.filters).toEqual([
+            { field: "tag", value: "work", prefix: false },
+            { field: "project", value: "big launch", prefix: false },
+            { field: "folder", value: "meetings/2024", prefix: false },
+            { field: "title", value: "sync", prefix: true },
+        ]);
+    });
+
+    test("searches unknown fields and hyphenated words as phrases", () => {
+        const parsed = parseSearchQuery("https://example.com follow-up ");
+
+        expect(parsed.filters).toEqual([]);
+        expect(parsed.phrases).toEqual([
+            { kind: "phrase", terms: ["https", "example", "com"] },
+            { kind: "phrase", terms: ["follow", "up"] },
+        ]);
+    });
+});
+
+describe("Search Document Extraction", () => {
+    test("tokenizes with offsets", () => {
+        expect(tokenize("Hello, Wörld 42")).toEqual([
+            { term: "hello", start: 0, end: 5 },
+            { term: "wörld", start: 7, end: 12 },
+            { term: "42", start: 13, end: 15 },
+        ]);
+    });
+
+    test("extracts title, folder, tags, project and body positions", () => {
+        const content = `---
+project: Apollo
+tags:
+  - Planning
+---
+Launch plan for #q3
+launch review`;
+
+        const { document, positions } = extractSearchDocument({ fileName: "work/Launch Notes.md", content });
+
+        expect(document.title).toBe("Launch Notes");
+        expect(document.folderPath).toBe("work");
+        expect(document.project).toBe("Apollo");
+        expect(document.tags.sort()).toEqual(["planning", "q3"]);
+        expect(document.titleTerms).toEqual(["launch", "notes"]);
+        expect(document.length).toBe(6);
+        // Front matter is not part of the body
+        expect(positions["apollo"]).toBeUndefined();
+        expect(positions["launch"]).toEqual([0, 4]);
+    });
+});
@@ -0,0 +1,674 @@
+/**
+ * Search Service
+ *
+ * Full-text search over notes backed by a persisted inverted index.
+ * Index is stored at {workspace}/.nomendex/search.json
+ *
+ * Query syntax:
+ *   word          - term (the last bare term also matches as a prefix while typing)
+ *   word*         - prefix match
+ *   "some phrase" - exact phrase
+ *   tag:name      - notes carrying a tag (front matter or inline #tag)
+ *   project:name  - notes in a project
+ *   folder:path   - notes in a folder (including subfolders)
+ *   title:word    - words in the note title
+ */
+
+import { mkdir } from "node:fs/promises";
+import { join } from "path";
+import yaml from "js-yaml";
+import { getNomendexPath, getNotesPath, hasActiveWorkspace } from "@/storage/root-path";
+import { scanNotesFiles, readFileContents } from "./file-scanner";
+import { extractTags } from "./tags-service";
+import {
+    SearchIndex,
+    SearchDocument,
+    ExtractedSearchDocument,
+    ParsedQuery,
+    QueryFilter,
+    QueryTerm,
+    SearchField,
+    createEmptySearchIndex,
+} from "./search-types";
+import type { FileIndexData } from "./notes-indexer";
+
+// In-memory index for fast queries
+let index: SearchIndex | null = null;
+
+// BM25 tuning
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+// Extra weight for query terms that appear in the note title
+const TITLE_BOOST = 2;
+
+const DEFAULT_LIMIT = 50;
+const MAX_MATCHES_PER_RESULT = 50;
+const SNIPPET_RADIUS = 60;
+
+const SEARCH_FIELDS: SearchField[] = ["tag", "project", "folder", "title"];
+const TOKEN_REGEX = /[\p{L}\p{N}]+/gu;
+const FRONT_MATTER_REGEX = /^---\s*\n([\s\S]*?)\n---\s*\n/;
+
+export interface SearchHit {
+    fileName: string;
+    content: string;
+    frontMatter?: Record<string, unknown>;
+    folderPath?: string;
+    score: number;
+    matches: Array<{ line: number; text: string; startIndex: number; endIndex: number }>;
+    snippet?: { line: number; text: string; highlights: Array<{ start: number; end: number }> };
+}
+
+// ============ Tokenizing & Parsing ============
+
+/**
+ * Split text into lowercase tokens with their character offsets.
+ */
+export function tokenize(text: string): Array<{ term: string; start: number; end: number }> {
+    const tokens: Array<{ term: string; start: number; end: number }> = [];
+    TOKEN_REGEX.lastIndex = 0;
+    let match;
+    while ((match = TOKEN_REGEX.exec(text)) !== null) {
+        tokens.push({ term: match[0].toLowerCase(), start: match.index, end: match.index + match[0].length });
+    }
+    return tokens;
+}
+
+/**
+ * Split raw note content into its parsed front matter and the body after it.
+ */
+export function splitFrontMatter(rawContent: string): { frontMatter: Record<string, unknown> | undefined; body: string } {
+    const match = rawContent.match(FRONT_MATTER_REGEX);
+    if (!match) {
+        return { frontMatter: undefined, body: rawContent };
+    }
+    try {
+        const frontMatter = yaml.load(match[1]) as Record<string, unknown> | undefined;
+        return { frontMatter: frontMatter ?? undefined, body: rawContent.slice(match[0].length) };
+    } catch {
+        return { frontMatter: undefined, body: rawContent };
+    }
+}
+
+/**
+ * Parse a search query into terms, phrases and field filters.
+ */
+export function parseSearchQuery(query: string): ParsedQuery {
+    const parsed: ParsedQuery = { terms: [], phrases: [], filters: [] };
+    // field:"quoted value" | field:value | "phrase" | bare word
+    const partRegex = /(\w+):"([^"]*)"?|(\w+):(\S+)|"([^"]*)"?|(\S+)/g;
+    let lastBareTerm: QueryTerm | null = null;
+    let lastPartWasBareTerm = false;
+    let match;
+
+    while ((match = partRegex.exec(query)) !== null) {
+        const [, quotedField, quotedValue, field, fieldValue, phrase, bare] = match;
+        lastPartWasBareTerm = false;
+
+        const filterField = (quotedField ?? field)?.toLowerCase() as SearchField | undefined;
+        if (filterField && SEARCH_FIELDS.includes(filterField)) {
+            const rawValue = (quotedValue ?? fieldValue ?? "").trim();
+            const prefix = rawValue.endsWith("*");
+            const value = (prefix ? rawValue.slice(0, -1) : rawValue).replace(/^#/, "").toLowerCase();
+            if (value) {
+                parsed.filters.push({ field: filterField, value, prefix });
+            }
+            continue;
+        }
+
+        if (phrase !== undefined) {
+            const terms = tokenize(phrase).map((t) => t.term);
+            if (terms.length === 1) {
+                parsed.terms.push({ kind: "term", value: terms[0], prefix: false });
+            } else if (terms.length > 1) {
+                parsed.phrases.push({ kind: "phrase", terms });
+            }
+            continue;
+        }
+
+        // Unknown "field:" prefixes (e.g., URLs) are searched as plain text
+        const raw = bare ?? match[0];
+        const prefix = raw.endsWith("*");
+        const terms = tokenize(raw).map((t) => t.term);
+        if (terms.length === 1) {
+            const term: QueryTerm = { kind: "term", value: terms[0], prefix };
+            parsed.terms.push(term);
+            lastBareTerm = prefix ? null : term;
+            lastPartWasBareTerm = true;
+        } else if (terms.length > 1) {
+            // Hyphenated or dotted words behave like phrases
+            parsed.phrases.push({ kind: "phrase", terms });
+        }
+    }
+
+    // Search-as-you-type: the word being typed matches as a prefix
+    if (lastBareTerm && lastPartWasBareTerm && !/\s$/.test(query)) {
+        lastBareTerm.prefix = true;
+    }
+
+    return parsed;
+}
+
+/**
+ * Extract the searchable document for a note.
+ */
+export function extractSearchDocument(params: { fileName: string; content: string }): ExtractedSearchDocument {
+    const { fileName, content } = params;
+    const { frontMatter, body } = splitFrontMatter(content);
+
+    const lastSlash = fileName.lastIndexOf("/");
+    const folderPath = lastSlash > 0 ? fileName.substring(0, lastSlash) : undefined;
+    const title = fileName.substring(lastSlash + 1).replace(/\.md$/, "");
+    const project = typeof frontMatter?.project === "string" ? frontMatter.project : undefined;
+
+    const positions: Record<string, number[]> = {};
+    const tokens = tokenize(body);
+    tokens.forEach((token, position) => {
+        (positions[token.term] ??= []).push(position);
+    });
+
+    return {
+        document: {
+            title,
+            folderPath,
+            tags: extractTags(content),
+            project,
+            titleTerms: [...new Set(tokenize(title).map((t) => t.term))],
+            terms: Object.keys(positions),
+            length: tokens.length,
+        },
+        positions,
+    };
+}
+
+/**
+ * Whether a notes-relative path should be searchable.
+ * Mirrors the folders hidden from the notes browser.
+ */
+function isSearchable(fileName: string): boolean {
+    return !fileName.startsWith("todos/");
+}
+
+// ============ Persistence ============
+
+/**
+ * Get the path to the search index file
+ */
+function getIndexPath(): string {
+    return join(getNomendexPath(), "search.json");
+}
+
+/**
+ * Load the index from disk
+ */
+async function loadIndexFromDisk(): Promise<SearchIndex | null> {
+    try {
+        const file = Bun.file(getIndexPath());
+        if (!(await file.exists())) {
+            return null;
+        }
+        return JSON.parse(await file.text()) as SearchIndex;
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Save the index to disk (compact JSON - postings get large)
+ */
+async function saveIndexToDisk(indexToSave: SearchIndex): Promise<void> {
+    await mkdir(getNomendexPath(), { recursive: true });
+    await Bun.write(getIndexPath(), JSON.stringify(indexToSave));
+}
+
+// ============ Index Updates ============
+
+/**
+ * Remove a file's postings and document - O(T) for T unique terms
+ */
+function removeFileFromIndex(params: { indexRef: SearchIndex; fileName: string }): void {
+    const { indexRef, fileName } = params;
+    const existing = indexRef.documents[fileName];
+    if (existing) {
+        for (const term of existing.terms) {
+            const posting = indexRef.postings[term];
+            if (!posting) continue;
+            delete posting[fileName];
+            if (Object.keys(posting).length === 0) {
+                delete indexRef.postings[term];
+            }
+        }
+        indexRef.totalLength -= existing.length;
+        delete indexRef.documents[fileName];
+    }
+    delete indexRef.mtimes[fileName];
+}
+
+/**
+ * Replace a file's postings and document with freshly extracted data
+ */
+function updateFileInIndex(params: {
+    indexRef: SearchIndex;
+    fileName: string;
+    mtime: number;
+    extracted: ExtractedSearchDocument;
+}): void {
+    const { indexRef, fileName, mtime, extracted } = params;
+    removeFileFromIndex({ indexRef, fileName });
+
+    for (const [term, termPositions] of Object.entries(extracted.positions)) {
+        (indexRef.postings[term] ??= {})[fileName] = termPositions;
+    }
+    indexRef.documents[fileName] = extracted.document;
+    indexRef.totalLength += extracted.document.length;
+    indexRef.mtimes[fileName] = mtime;
+}
+
+/**
+ * Read a note (raw, including front matter) from disk
+ */
+async function readNote(fileName: string): Promise<{ content: string; mtime: number } | null> {
+    try {
+        const file = Bun.file(join(getNotesPath(), fileName));
+        if (!(await file.exists())) {
+            return null;
+        }
+        const stat = await file.stat();
+        return { content: await file.text(), mtime: stat.mtime.getTime() };
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Build a full index from scratch
+ */
+async function buildFullIndex(): Promise<SearchIndex> {
+    const newIndex = createEmptySearchIndex();
+    const scanResult = await scanNotesFiles();
+    const files = scanResult.files.filter((f) => isSearchable(f.relativePath));
+    await readFileContents(files);
+
+    for (const file of files) {
+        updateFileInIndex({
+            indexRef: newIndex,
+            fileName: file.relativePath,
+            mtime: file.mtime,
+            extracted: extractSearchDocument({ fileName: file.relativePath, content: file.content || "" }),
+        });
+    }
+
+    newIndex.lastFullScan = new Date().toISOString();
+    return newIndex;
+}
+
+// ============ Querying ============
+
+function idf(docCount: number, docFrequency: number): number {
+    return Math.log(1 + (docCount - docFrequency + 0.5) / (docFrequency + 0.5));
+}
+
+function bm25(params: { tf: number; df: number; docLength: number; docCount: number; avgLength: number }): number {
+    const { tf, df, docLength, docCount, avgLength } = params;
+    const norm = tf + BM25_K1 * (1 - BM25_B + (BM25_B * docLength) / (avgLength || 1));
+    return idf(docCount, df) * ((tf * (BM25_K1 + 1)) / norm);
+}
+
+/**
+ * Expand a query term into the index terms it matches
+ */
+function expandTerm(indexRef: SearchIndex, term: QueryTerm): string[] {
+    if (!term.prefix) {
+        return indexRef.postings[term.value] ? [term.value] : [];
+    }
+    return Object.keys(indexRef.postings).filter((t) => t.startsWith(term.value));
+}
+
+function termMatches(candidate: string, value: string, prefix: boolean): boolean {
+    return prefix ? candidate.startsWith(value) : candidate === value;
+}
+
+function matchesFilter(doc: SearchDocument, filter: QueryFilter): boolean {
+    const { value, prefix } = filter;
+    switch (filter.field) {
+        case "tag":
+            return doc.tags.some((tag) => termMatches(tag, value, prefix));
+        case "project":
+            return !!doc.project && termMatches(doc.project.toLowerCase(), value, prefix);
+        case "folder": {
+            const folder = (doc.folderPath ?? "").toLowerCase();
+            const target = value.replace(/\/+$/, "");
+            return prefix ? folder.startsWith(target) : folder === target || folder.startsWith(`${target}/`);
+        }
+        case "title": {
+            const words = tokenize(value).map((t) => t.term);
+            return words.every((word, i) => {
+                const isLast = i === words.length - 1;
+                return doc.titleTerms.some((t) => termMatches(t, word, prefix && isLast));
+            });
+        }
+    }
+}
+
+/**
+ * Count occurrences of a phrase in a document using token positions
+ */
+function countPhrase(indexRef: SearchIndex, fileName: string, terms: string[]): number {
+    const postingLists = terms.map((term) => indexRef.postings[term]?.[fileName]);
+    if (postingLists.some((p) => !p)) {
+        return 0;
+    }
+    const following = postingLists.slice(1).map((p) => new Set(p));
+    let count = 0;
+    for (const start of postingLists[0]!) {
+        if (following.every((set, i) => set.has(start + i + 1))) {
+            count++;
+        }
+    }
+    return count;
+}
+
+/**
+ * Build highlighted line matches and the best snippet for a result
+ */
+function buildMatches(params: {
+    body: string;
+    fileName: string;
+    matchedTerms: Set<string>;
+    phrases: string[][];
+}): Pick<SearchHit, "matches" | "snippet"> {
+    const { body, fileName, matchedTerms, phrases } = params;
+    const matches: SearchHit["matches"] = [];
+    const phraseTerms = new Set(phrases.flat());
+    let best: { line: number; text: string; ranges: Array<{ start: number; end: number }>; distinct: number } | null = null;
+
+    const lines = body.split("\n");
+    for (let i = 0; i < lines.length && matches.length < MAX_MATCHES_PER_RESULT; i++) {
+        const line = lines[i];
+        if (!line) continue;
+
+        const ranges: Array<{ start: number; end: number }> = [];
+        const distinct = new Set<string>();
+        for (const token of tokenize(line)) {
+            if (matchedTerms.has(token.term) || phraseTerms.has(token.term)) {
+                ranges.push({ start: token.start, end: token.end });
+                distinct.add(token.term);
+            }
+        }
+        if (ranges.length === 0) continue;
+
+        for (const range of ranges) {
+            matches.push({ line: i + 1, text: line, startIndex: range.start, endIndex: range.end });
+        }
+        if (!best || distinct.size > best.distinct) {
+            best = { line: i + 1, text: line, ranges, distinct: distinct.size };
+        }
+    }
+
+    // Title matches are reported on line 0, like the previous scanner
+    const lowerFileName = fileName.toLowerCase();
+    for (const token of tokenize(fileName.replace(/\.md$/, ""))) {
+        if (matchedTerms.has(token.term)) {
+            const startIndex = lowerFileName.indexOf(token.term);
+            matches.push({ line: 0, text: fileName, startIndex, endIndex: startIndex + token.term.length });
+            break;
+        }
+    }
+
+    if (!best) {
+        return { matches };
+    }
+
+    // Trim long lines to a window around the first highlight
+    const first = best.ranges[0]!;
+    const windowStart = Math.max(0, first.start - SNIPPET_RADIUS);
+    const windowEnd = Math.min(best.text.length, first.end + SNIPPET_RADIUS * 2);
+    const leading = windowStart > 0 ? "…" : "";
+    const trailing = windowEnd < best.text.length ? "…" : "";
+    const offset = leading.length - windowStart;
+
+    return {
+        matches,
+        snippet: {
+            line: best.line,
+            text: `${leading}${best.text.slice(windowStart, windowEnd)}${trailing}`,
+            highlights: best.ranges
+                .filter((r) => r.start >= windowStart && r.end <= windowEnd)
+                .map((r) => ({ start: r.start + offset, end: r.end + offset })),
+        },
+    };
+}
+
+// ============ Public API ============
+
+/**
+ * Initialize search from pre-scanned file data.
+ * Used by unified indexer to avoid duplicate file scanning.
+ */
+export async function initializeSearchWithData(params: {
+    files: FileIndexData[];
+}): Promise<{ updated: number; total: number }> {
+    if (!hasActiveWorkspace()) {
+        return { updated: 0, total: 0 };
+    }
+
+    const notesFiles = params.files.filter((f) => f.source === "notes" && f.search && isSearchable(f.relativePath));
+    const existingIndex = (await loadIndexFromDisk()) ?? createEmptySearchIndex();
+    const currentFiles = new Set(notesFiles.map((f) => f.relativePath));
+
+    let changed = 0;
+
+    // Apply removals
+    for (const fileName of Object.keys(existingIndex.mtimes)) {
+        if (!currentFiles.has(fileName)) {
+            removeFileFromIndex({ indexRef: existingIndex, fileName });
+            changed++;
+        }
+    }
+
+    // Apply updates using pre-extracted documents
+    let updated = 0;
+    for (const file of notesFiles) {
+        if (existingIndex.mtimes[file.relativePath] === file.mtime) continue;
+        updateFileInIndex({
+            indexRef: existingIndex,
+            fileName: file.relativePath,
+            mtime: file.mtime,
+            extracted: file.search!,
+        });
+        updated++;
+    }
+    changed += updated;
+
+    existingIndex.lastFullScan = new Date().toISOString();
+    index = existingIndex;
+
+    if (changed > 0) {
+        await saveIndexToDisk(index);
+    }
+
+    return { updated, total: notesFiles.length };
+}
+
+/**
+ * Search notes with BM25 ranking.
+ */
+export async function searchIndex(params: { query: string; limit?: number }): Promise<SearchHit[]> {
+    if (!index || !hasActiveWorkspace()) {
+        return [];
+    }
+
+    const indexRef = index;
+    const parsed = parseSearchQuery(params.query);
+    if (parsed.terms.length === 0 && parsed.phrases.length === 0 && parsed.filters.length === 0) {
+        return [];
+    }
+
+    const docCount = Object.keys(indexRef.documents).length;
+    const avgLength = docCount > 0 ? indexRef.totalLength / docCount : 0;
+
+    // Start from documents passing the field filters
+    let candidates = Object.keys(indexRef.documents).filter((fileName) =>
+        parsed.filters.every((filter) => matchesFilter(indexRef.documents[fileName]!, filter))
+    );
+
+    const scores = new Map<string, number>(candidates.map((c) => [c, 0]));
+    const matchedTerms = new Map<string, Set<string>>(candidates.map((c) => [c, new Set<string>()]));
+
+    // Every term must match the body or the title
+    for (const term of parsed.terms) {
+        const expansions = expandTerm(indexRef, term);
+        const next: string[] = [];
+
+        for (const fileName of candidates) {
+            const doc = indexRef.documents[fileName]!;
+            let best = 0;
+            let matched = false;
+
+            for (const expansion of expansions) {
+                const termPositions = indexRef.postings[expansion]?.[fileName];
+                if (!termPositions) continue;
+                matched = true;
+                matchedTerms.get(fileName)!.add(expansion);
+                const score = bm25({
+                    tf: termPositions.length,
+                    df: Object.keys(indexRef.postings[expansion]!).length,
+                    docLength: doc.length,
+                    docCount,
+                    avgLength,
+                });
+                best = Math.max(best, score);
+            }
+
+            const titleTerm = doc.titleTerms.find((t) => termMatches(t, term.value, term.prefix));
+            if (titleTerm) {
+                matched = true;
+                matchedTerms.get(fileName)!.add(titleTerm);
+                const df = indexRef.postings[titleTerm] ? Object.keys(indexRef.postings[titleTerm]).length : 0;
+                best += TITLE_BOOST * idf(docCount, df);
+            }
+
+            if (matched) {
+                scores.set(fileName, scores.get(fileName)! + best);
+                next.push(fileName);
+            }
+        }
+        candidates = next;
+    }
+
+    // Every phrase must occur in the body
+    for (const phrase of parsed.phrases) {
+        const counts = new Map<string, number>();
+        for (const fileName of candidates) {
+            const count = countPhrase(indexRef, fileName, phrase.terms);
+            if (count > 0) counts.set(fileName, count);
+        }
+        candidates = candidates.filter((fileName) => counts.has(fileName));
+        for (const fileName of candidates) {
+            const score = bm25({
+                tf: counts.get(fileName)!,
+                df: counts.size,
+                docLength: indexRef.documents[fileName]!.length,
+                docCount,
+                avgLength,
+            });
+            // Phrases are worth more than their words matched separately
+            scores.set(fileName, scores.get(fileName)! + score * phrase.terms.length);
+        }
+    }
+
+    const ranked = candidates
+        .sort((a, b) => scores.get(b)! - scores.get(a)! || a.localeCompare(b))
+        .slice(0, params.limit ?? DEFAULT_LIMIT);
+
+    const results: SearchHit[] = [];
+    for (const fileName of ranked) {
+        const note = await readNote(fileName);
+        if (!note) continue;
+        const { frontMatter, body } = splitFrontMatter(note.content);
+        results.push({
+            fileName,
+            content: body,
+            frontMatter,
+            folderPath: indexRef.documents[fileName]!.folderPath,
+            score: scores.get(fileName)!,
+            ...buildMatches({
+                body,
+                fileName,
+                matchedTerms: matchedTerms.get(fileName)!,
+                phrases: parsed.phrases.map((p) => p.terms),
+            }),
+        });
+    }
+
+    return results;
+}
+
+/**
+ * Update index when a note is created or saved (reads the file to pick up front matter)
+ */
+export async function onNoteSavedSearch(params: { fileName: string }): Promise<void> {
+    if (!index || !hasActiveWorkspace() || !isSearchable(params.fileName)) {
+        return;
+    }
+
+    const note = await readNote(params.fileName);
+    if (!note) {
+        return;
+    }
+
+    updateFileInIndex({
+        indexRef: index,
+        fileName: params.fileName,
+        mtime: note.mtime,
+        extracted: extractSearchDocument({ fileName: params.fileName, content: note.content }),
+    });
+
+    await saveIndexToDisk(index);
+}
+
+/**
+ * Update index when a note is deleted
+ */
+export async function onNoteDeletedSearch(params: { fileName: string }): Promise<void> {
+    if (!index || !hasActiveWorkspace()) {
+        return;
+    }
+
+    removeFileFromIndex({ indexRef: index, fileName: params.fileName });
+    await saveIndexToDisk(index);
+}
+
+/**
+ * Update index when a note is renamed or moved
+ */
+export async function onNoteRenamedSearch(params: { oldFileName: string; newFileName: string }): Promise<void> {
+    if (!index || !hasActiveWorkspace()) {
+        return;
+    }
+
+    removeFileFromIndex({ indexRef: index, fileName: params.oldFileName });
+    // Title and folder are derived from the path, so re-extract
+    await onNoteSavedSearch({ fileName: params.newFileName });
+    await saveIndexToDisk(index);
+}
+
+/**
+ * Force rebuild the entire index
+ */
+export async function rebuildSearchIndex(): Promise<{ fileCount: number; termCount: number }> {
+    if (!hasActiveWorkspace()) {
+        return { fileCount: 0, termCount: 0 };
+    }
+
+    index = await buildFullIndex();
+    await saveIndexToDisk(index);
+    return { fileCount: Object.keys(index.documents).length, termCount: Object.keys(index.postings).length };
+}
+
+/**
+ * Get the current index (for debugging)
+ */
+export function getSearchIndex(): SearchIndex | null {
+    return index;
+}
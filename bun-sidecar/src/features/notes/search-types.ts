@@ -0,0 +1,81 @@
+/**
+ * Search Index Types
+ *
+ * Persisted inverted index used for full-text note search.
+ * Postings keep token positions so quoted phrases can be matched without rereading files.
+ */
+
+// Per-note metadata needed for ranking and field filters
+export interface SearchDocument {
+    title: string; // File name without folder or .md extension
+    folderPath?: string; // e.g., "projects/work"
+    tags: string[]; // Lowercased, from front matter and inline #tags
+    project?: string; // From front matter
+    titleTerms: string[]; // Tokenized title
+    terms: string[]; // Unique body terms (used to remove stale postings)
+    length: number; // Number of body tokens
+}
+
+// The persisted index structure
+export interface SearchIndex {
+    version: 1;
+    lastFullScan: string; // ISO timestamp
+
+    // Key: note filename, Value: document metadata
+    documents: Record<string, SearchDocument>;
+
+    // Inverted index: term → filename → token positions in the body
+    postings: Record<string, Record<string, number[]>>;
+
+    // Sum of all document lengths (for average document length in BM25)
+    totalLength: number;
+
+    // File modification times for incremental updates
+    // Key: filename, Value: mtime in ms
+    mtimes: Record<string, number>;
+}
+
+// Pre-extracted document data (produced by the unified indexer)
+export interface ExtractedSearchDocument {
+    document: SearchDocument;
+    positions: Record<string, number[]>;
+}
+
+// A single term in a parsed query
+export interface QueryTerm {
+    kind: "term";
+    value: string;
+    prefix: boolean;
+}
+
+// A quoted phrase in a parsed query
+export interface QueryPhrase {
+    kind: "phrase";
+    terms: string[];
+}
+
+export type SearchField = "tag" | "project" | "folder" | "title";
+
+export interface QueryFilter {
+    field: SearchField;
+    value: string;
+    prefix: boolean;
+}
+
+export interface ParsedQuery {
+    terms: QueryTerm[];
+    phrases: QueryPhrase[];
+    filters: QueryFilter[];
+}
+
+// Create an empty index
+export function createEmptySearchIndex(): SearchIndex {
+    return {
+        version: 1,
+        lastFullScan: new Date().toISOString(),
+        documents: {},
+        postings: {},
+        totalLength: 0,
+        mtimes: {},
+    };
+}
@@ -0,0 +1,62 @@
+import { test, expect, describe } from "bun:test";
+import { chunkMarkdown, chunkTodo } from "./semantic-chunks";
+import { normalize } from "./embedding-providers";
+import { SemanticSearchConfigSchema, isSemanticSearchConfigured } from "@/types/Workspace";
+
+describe("chunkMarkdown", () => {
+    test("makes one chunk per heading section with the heading path", () => {
+        const content = ["Intro line", "", "# Project", "Overview", "## Goals", "Ship it", "# Notes", "Misc"].join("\n");
+
+        expect(chunkMarkdown(content)).toEqual([
+            { heading: "", text: "Intro line", line: 1 },
+            { heading: "Project", text: "Overview", line: 4 },
+            { heading: "Project > Goals", text: "Ship it", line: 6 },
+            { heading: "Notes", text: "Misc", line: 8 },
+        ]);
+    });
+
+    test("counts front matter lines and ignores headings in code fences", () => {
+        const content = ["---", "tags: [a]", "---", "# Setup", "```sh", "# not a heading", "```"].join("\n");
+
+        expect(chunkMarkdown(content)).toEqual([{ heading: "Setup", text: "```sh\n# not a heading\n```", line: 5 }]);
+    });
+
+    test("splits long sections at blank lines", () => {
+        const paragraph = "word ".repeat(10).trim();
+        const content = ["# Long", paragraph, "", paragraph, "", paragraph].join("\n");
+
+        const chunks = chunkMarkdown(content, 60);
+
+        expect(chunks.map((chunk) => chunk.line)).toEqual([2, 4, 6]);
+        expect(chunks.every((chunk) => chunk.heading === "Long" && chunk.text === paragraph)).toBe(true);
+    });
+
+    test("skips empty sections", () => {
+        expect(chunkMarkdown("# Empty\n\n# Also empty\n")).toEqual([]);
+    });
+});
+
+test("chunkTodo combines the title and description", () => {
+    const content = "---\ntitle: Renew passport\nstatus: todo\n---\nBook an appointment first";
+
+    expect(chunkTodo(content)).toEqual([{ heading: "Renew passport", text: "Renew passport\n\nBook an appointment first", line: 1 }]);
+});
+
+describe("embedding settings", () => {
+    test("normalize returns unit vectors", () => {
+        const vector = normalize([3, 4]);
+        expect(vector).toEqual([0.6, 0.8]);
+        expect(normalize([0, 0])).toEqual([0, 0]);
+    });
+
+    test("semantic search is off until an embeddings server is set up", () => {
+        // Workspaces saved with the removed hashed "local" provider
+        const legacy = SemanticSearchConfigSchema.parse({ provider: "local", attachToChat: true });
+        expect(legacy.provider).toBe("openai-compatible");
+        expect(isSemanticSearchConfigured(legacy)).toBe(false);
+
+        const ollama = SemanticSearchConfigSchema.parse({ baseUrl: "http://localhost:11434/v1", model: "nomic-embed-text" });
+        expect(isSemanticSearchConfigured(ollama)).toBe(true);
+        expect(isSemanticSearchConfigured(SemanticSearchConfigSchema.parse({ provider: "openai" }))).toBe(true);
+    });
+});
@@ -0,0 +1,108 @@
+/**
+ * Semantic Chunks
+ *
+ * Splits notes into one chunk per heading section (long sections are split again at paragraph
+ * breaks) and todos into one chunk each, for the semantic index.
+ */
+
+import { splitFrontMatter } from "./search-service";
+import type { TextChunk } from "./semantic-types";
+
+// About a screenful of text: enough context to be useful in a prompt, small enough to stay specific
+export const MAX_CHUNK_CHARS = 1500;
+
+const FRONT_MATTER_REGEX = /^---\s*\n([\s\S]*?)\n---\s*\n/;
+const HEADING_REGEX = /^(#{1,6})\s+(.+?)\s*#*\s*$/;
+const FENCE_REGEX = /^\s*(```|~~~)/;
+
+// Split a section into paragraphs, then pack consecutive paragraphs into pieces of up to maxChars.
+// A longer paragraph is a piece of its own, cut every 2 * maxChars if it is huge.
+function splitSection(lines: string[], firstLine: number, maxChars: number): Array<{ text: string; line: number }> {
+    const paragraphs: Array<{ lines: string[]; line: number; length: number }> = [];
+    let paragraph: { lines: string[]; line: number; length: number } | null = null;
+    for (let offset = 0; offset < lines.length; offset++) {
+        const line = lines[offset]!;
+        if (line.trim() === "") {
+            paragraph = null;
+            continue;
+        }
+        if (!paragraph || paragraph.length + line.length > maxChars * 2) {
+            paragraph = { lines: [], line: firstLine + offset, length: 0 };
+            paragraphs.push(paragraph);
+        }
+        paragraph.lines.push(line);
+        paragraph.length += line.length + 1;
+    }
+
+    const pieces: Array<{ text: string; line: number }> = [];
+    let current: { parts: string[]; line: number; length: number } | null = null;
+    for (const entry of paragraphs) {
+        const text = entry.lines.join("\n").trim();
+        if (!text) continue;
+        if (current && current.length + text.length + 2 <= maxChars) {
+            current.parts.push(text);
+            current.length += text.length + 2;
+            continue;
+        }
+        if (current) pieces.push({ text: current.parts.join("\n\n"), line: current.line });
+        current = { parts: [text], line: entry.line, length: text.length };
+    }
+    if (current) pieces.push({ text: current.parts.join("\n\n"), line: current.line });
+    return pieces;
+}
+
+/**
+ * Split markdown into chunks by heading. Headings inside code fences don't count.
+ * Line numbers are 1-based and count front matter, so they match the file.
+ */
+export function chunkMarkdown(content: string, maxChars = MAX_CHUNK_CHARS): TextChunk[] {
+    const frontMatter = content.match(FRONT_MATTER_REGEX);
+    const bodyStartLine = frontMatter ? frontMatter[0].split("\n").length : 1;
+    const lines = (frontMatter ? content.slice(frontMatter[0].length) : content).split("\n");
+
+    const chunks: TextChunk[] = [];
+    const headingPath: Array<{ level: number; text: string }> = [];
+    let sectionLines: string[] = [];
+    let sectionStart = bodyStartLine;
+    let inFence = false;
+
+    const flushSection = () => {
+        const heading = headingPath.map((entry) => entry.text).join(" > ");
+        for (const piece of splitSection(sectionLines, sectionStart, maxChars)) {
+            chunks.push({ heading, text: piece.text, line: piece.line });
+        }
+    };
+
+    lines.forEach((line, offset) => {
+        if (FENCE_REGEX.test(line)) {
+            inFence = !inFence;
+        }
+        const heading = inFence ? null : line.match(HEADING_REGEX);
+        if (!heading) {
+            sectionLines.push(line);
+            return;
+        }
+
+        flushSection();
+        const level = heading[1]!.length;
+        while (headingPath.length > 0 && headingPath[headingPath.length - 1]!.level >= level) {
+            headingPath.pop();
+        }
+        headingPath.push({ level, text: heading[2]! });
+        sectionLines = [];
+        sectionStart = bodyStartLine + offset + 1;
+    });
+    flushSection();
+
+    return chunks;
+}
+
+/**
+ * Chunks for a todo file: its title and description together, since todos are short.
+ */
+export function chunkTodo(content: string): TextChunk[] {
+    const { frontMatter, body } = splitFrontMatter(content);
+    const title = typeof frontMatter?.title === "string" ? frontMatter.title : "";
+    const text = [title, body.trim()].filter(Boolean).join("\n\n");
+    return text ? [{ heading: title, text: text.slice(0, MAX_CHUNK_CHARS * 2), line: 1 }] : [];
+}
@@ -0,0 +1,268 @@
+/**
+ * Semantic Service
+ *
+ * Embeddings index over note and todo chunks, for finding content by meaning rather than exact words.
+ * Index is stored at {workspace}/.nomendex/semantic.json
+ *
+ * The index is refreshed incrementally with the same mtime comparison as the other indexes:
+ * at startup from the unified scan, and before each search for files changed since.
+ */
+
+import { mkdir } from "node:fs/promises";
+import { join } from "path";
+import { createServiceLogger } from "@/lib/logger";
+import { getNomendexPath, hasActiveWorkspace } from "@/storage/root-path";
+import { SemanticSearchConfigSchema, WorkspaceStateSchema, isSemanticSearchConfigured, type SemanticSearchConfig } from "@/types/Workspace";
+import { extractFromFiles, findModifiedFiles, type FileIndexData } from "./notes-indexer";
+import { getEmbedder, type Embedder } from "./embedding-providers";
+import type { IndexedChunk, SemanticHit, SemanticIndex, TextChunk } from "./semantic-types";
+
+const semanticLogger = createServiceLogger("SEMANTIC");
+
+// In-memory index for fast queries
+let index: SemanticIndex | null = null;
+// A running refresh, shared by searches that arrive meanwhile
+let refreshing: Promise<void> | null = null;
+
+const DEFAULT_LIMIT = 10;
+// Texts per embedding call
+const EMBED_BATCH_SIZE = 64;
+// Vectors are stored rounded; more digits don't change rankings
+const VECTOR_PRECISION = 1e5;
+
+// ============ Config ============
+
+/**
+ * Read the semantic search settings from workspace.json
+ */
+export async function getSemanticSearchConfig(): Promise<SemanticSearchConfig> {
+    try {
+        const file = Bun.file(join(getNomendexPath(), "workspace.json"));
+        if (!(await file.exists())) {
+            return SemanticSearchConfigSchema.parse({});
+        }
+        return WorkspaceStateSchema.parse(await file.json()).semanticSearch;
+    } catch {
+        return SemanticSearchConfigSchema.parse({});
+    }
+}
+
+// ============ Persistence ============
+
+function getIndexPath(): string {
+    return join(getNomendexPath(), "semantic.json");
+}
+
+async function loadIndexFromDisk(): Promise<SemanticIndex | null> {
+    try {
+        const file = Bun.file(getIndexPath());
+        if (!(await file.exists())) {
+            return null;
+        }
+        return JSON.parse(await file.text()) as SemanticIndex;
+    } catch {
+        return null;
+    }
+}
+
+async function saveIndexToDisk(indexToSave: SemanticIndex): Promise<void> {
+    await mkdir(getNomendexPath(), { recursive: true });
+    await Bun.write(getIndexPath(), JSON.stringify(indexToSave));
+}
+
+function createEmptyIndex(embedder: Embedder): SemanticIndex {
+    return { version: 1, embedder: embedder.id, chunks: {}, mtimes: {} };
+}
+
+// ============ Index Updates ============
+
+/**
+ * Notes under todos/ are the todo files themselves when notes live at the workspace root
+ */
+function isIndexable(file: { source: "notes" | "todos"; relativePath: string }): boolean {
+    return file.source === "todos" || !file.relativePath.startsWith("todos/");
+}
+
+/**
+ * Text sent to the embedder: the file title and heading give short sections their context
+ */
+export function getEmbeddingText(fileName: string, chunk: TextChunk): string {
+    const title = fileName.replace(/\.md$/, "").split("/").pop() ?? fileName;
+    return [title, chunk.heading, chunk.text].filter(Boolean).join("\n");
+}
+
+async function embedFiles(params: { indexRef: SemanticIndex; embedder: Embedder; files: FileIndexData[] }): Promise<void> {
+    const { indexRef, embedder, files } = params;
+    const pending = files.flatMap((file) =>
+        file.chunks.map((chunk) => ({ fileRef: file.fileRef, chunk, text: getEmbeddingText(file.relativePath, chunk) }))
+    );
+
+    const embedded = new Map<string, IndexedChunk[]>(files.map((file) => [file.fileRef, []]));
+    for (let start = 0; start < pending.length; start += EMBED_BATCH_SIZE) {
+        const batch = pending.slice(start, start + EMBED_BATCH_SIZE);
+        const vectors = await embedder.embed(batch.map((entry) => entry.text));
+        batch.forEach((entry, i) => {
+            const vector = vectors[i]!.map((value) => Math.round(value * VECTOR_PRECISION) / VECTOR_PRECISION);
+            embedded.get(entry.fileRef)!.push({ ...entry.chunk, vector });
+        });
+    }
+
+    // Only record files once all their chunks are in, so a failed batch is retried next refresh
+    for (const file of files) {
+        indexRef.chunks[file.fileRef] = embedded.get(file.fileRef)!;
+        indexRef.mtimes[file.fileRef] = file.mtime;
+    }
+}
+
+function removeFiles(indexRef: SemanticIndex, fileRefs: string[]): void {
+    for (const fileRef of fileRefs) {
+        delete indexRef.chunks[fileRef];
+        delete indexRef.mtimes[fileRef];
+    }
+}
+
+/**
+ * The loaded index if it was built with this embedder, otherwise the one on disk or a fresh one
+ */
+async function getIndexFor(embedder: Embedder): Promise<SemanticIndex> {
+    if (index?.embedder === embedder.id) {
+        return index;
+    }
+    const fromDisk = await loadIndexFromDisk();
+    if (fromDisk?.embedder === embedder.id) {
+        return fromDisk;
+    }
+    if (fromDisk) {
+        semanticLogger.info("Embedding model changed, rebuilding semantic index", { from: fromDisk.embedder, to: embedder.id });
+    }
+    return createEmptyIndex(embedder);
+}
+
+// ============ Public API ============
+
+/**
+ * Initialize the semantic index from pre-scanned file data.
+ * Used by unified indexer to avoid duplicate file scanning.
+ */
+export async function initializeSemanticWithData(params: {
+    files: FileIndexData[];
+}): Promise<{ updated: number; total: number }> {
+    const config = await getSemanticSearchConfig();
+    if (!hasActiveWorkspace() || !isSemanticSearchConfigured(config)) {
+        return { updated: 0, total: 0 };
+    }
+
+    const embedder = await getEmbedder(config);
+    const indexRef = await getIndexFor(embedder);
+    const files = params.files.filter(isIndexable);
+    const current = new Set(files.map((file) => file.fileRef));
+
+    const removed = Object.keys(indexRef.mtimes).filter((fileRef) => !current.has(fileRef));
+    removeFiles(indexRef, removed);
+
+    const changed = files.filter((file) => indexRef.mtimes[file.fileRef] !== file.mtime);
+    await embedFiles({ indexRef, embedder, files: changed });
+
+    index = indexRef;
+    if (changed.length > 0 || removed.length > 0) {
+        await saveIndexToDisk(indexRef);
+    }
+
+    return { updated: changed.length, total: files.length };
+}
+
+/**
+ * Re-embed files changed since the last refresh and drop deleted ones
+ */
+export async function refreshSemanticIndex(): Promise<void> {
+    if (!hasActiveWorkspace()) {
+        return;
+    }
+    if (refreshing) {
+        return refreshing;
+    }
+
+    refreshing = (async () => {
+        const config = await getSemanticSearchConfig();
+        if (!isSemanticSearchConfigured(config)) {
+            return;
+        }
+        const embedder = await getEmbedder(config);
+        const indexRef = await getIndexFor(embedder);
+
+        const { toUpdate, toRemove } = await findModifiedFiles({ existingMtimes: indexRef.mtimes, notesOnly: false });
+        const files = (await extractFromFiles(toUpdate.filter(isIndexable))).filter(isIndexable);
+
+        removeFiles(indexRef, toRemove);
+        await embedFiles({ indexRef, embedder, files });
+
+        index = indexRef;
+        if (files.length > 0 || toRemove.length > 0) {
+            semanticLogger.info("Refreshed semantic index", { updated: files.length, removed: toRemove.length });
+            await saveIndexToDisk(indexRef);
+        }
+    })();
+
+    try {
+        await refreshing;
+    } finally {
+        refreshing = null;
+    }
+}
+
+/**
+ * Rank chunks by cosine similarity to the query (vectors are unit length)
+ */
+export function rankChunks(params: {
+    indexRef: SemanticIndex;
+    queryVector: number[];
+    limit: number;
+    minScore?: number;
+}): SemanticHit[] {
+    const { indexRef, queryVector, limit, minScore = 0 } = params;
+    const hits: SemanticHit[] = [];
+
+    for (const [fileRef, chunks] of Object.entries(indexRef.chunks)) {
+        const source = fileRef.startsWith("todos:") ? "todos" : "notes";
+        const fileName = fileRef.slice(fileRef.indexOf(":") + 1);
+        for (const chunk of chunks) {
+            let score = 0;
+            for (let i = 0; i < queryVector.length; i++) {
+                score += queryVector[i]! * (chunk.vector[i] ?? 0);
+            }
+            if (score > minScore) {
+                hits.push({ source, fileName, heading: chunk.heading, text: chunk.text, line: chunk.line, score });
+            }
+        }
+    }
+
+    return hits.sort((a, b) => b.score - a.score).slice(0, limit);
+}
+
+/**
+ * Find the note and todo sections closest in meaning to the query
+ */
+export async function semanticSearch(params: { query: string; limit?: number; minScore?: number }): Promise<SemanticHit[]> {
+    if (!hasActiveWorkspace() || !params.query.trim()) {
+        return [];
+    }
+
+    const config = await getSemanticSearchConfig();
+    if (!isSemanticSearchConfigured(config)) {
+        return [];
+    }
+
+    await refreshSemanticIndex();
+    if (!index) {
+        return [];
+    }
+
+    const embedder = await getEmbedder(config);
+    const [queryVector] = await embedder.embed([params.query]);
+    return rankChunks({
+        indexRef: index,
+        queryVector: queryVector!,
+        limit: params.limit ?? DEFAULT_LIMIT,
+        minScore: params.minScore,
+    });
+}
@@ -0,0 +1,40 @@
+/**
+ * Semantic Index Types
+ *
+ * Embeddings of note and todo chunks used for semantic search and chat context.
+ * Chunks follow the headings of a file, so a hit points at one section rather than a whole note.
+ */
+
+// A section of a file, before it is embedded
+export interface TextChunk {
+    heading: string; // Heading path, e.g. "Project > Goals" ("" for text before the first heading)
+    text: string;
+    line: number; // 1-based line in the file where the chunk starts
+}
+
+export interface IndexedChunk extends TextChunk {
+    vector: number[]; // Unit length, so cosine similarity is a dot product
+}
+
+// The persisted index structure
+export interface SemanticIndex {
+    version: 1;
+    // Embedding model the vectors come from; a different one means rebuilding
+    embedder: string;
+
+    // Key: file ref (e.g., "notes:path/to/file.md"), Value: chunks of that file
+    chunks: Record<string, IndexedChunk[]>;
+
+    // File modification times for incremental updates
+    // Key: file ref, Value: mtime in ms
+    mtimes: Record<string, number>;
+}
+
+export interface SemanticHit {
+    source: "notes" | "todos";
+    fileName: string; // Relative to the notes or todos folder
+    heading: string;
+    text: string;
+    line: number;
+    score: number; // Cosine similarity
+}
@@ -0,0 +1,42 @@
+import { describe, test, expect } from "bun:test";
+import { extractCursor, fillTemplate, getBaseTemplateVariables } from "./templates";
+
+describe("fillTemplate", () => {
+    const variables = getBaseTemplateVariables({ title: "Kickoff", date: new Date(2025, 2, 7, 9, 5), project: "Launch" });
+
+    test("fills title, date, time and project", () => {
+        const result = fillTemplate("# {{title}}\n{{date}} {{time}} {{ project }}", variables);
+        expect(result).toBe("# Kickoff\n2025-03-07 09:05 Launch");
+    });
+
+    test("formats dates with a pattern", () => {
+        expect(fillTemplate("{{date:D.M.YYYY}}", variables)).toBe("7.3.2025");
+    });
+
+    test("leaves unknown placeholders as written", () => {
+        expect(fillTemplate("{{author}} {{cursor}}", variables)).toBe("{{author}} {{cursor}}");
+    });
+
+    test("renders a missing project as empty", () => {
+        const noProject = getBaseTemplateVariables({ title: "Kickoff", date: new Date(2025, 2, 7) });
+        expect(fillTemplate("project: {{project}}", noProject)).toBe("project: ");
+    });
+});
+
+describe("extractCursor", () => {
+    test("returns content unchanged without a marker", () => {
+        expect(extractCursor("# Title\n\nBody")).toEqual({ content: "# Title\n\nBody" });
+    });
+
+    test("removes the marker and counts blocks before it", () => {
+        const result = extractCursor("# Title\n\n## Notes\n\n{{cursor}}\n");
+        expect(result.content).toBe("# Title\n\n## Notes\n\n\n");
+        expect(result.cursorLine).toBe(3);
+    });
+
+    test("uses the first marker when there are several", () => {
+        const result = extractCursor("Intro {{cursor}}\nMore {{cursor}}");
+        expect(result.content).toBe("Intro \nMore ");
+        expect(result.cursorLine).toBe(1);
+    });
+});
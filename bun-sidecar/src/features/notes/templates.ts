@@ -0,0 +1,64 @@
+/**
+ * Note Templates
+ *
+ * Templates are ordinary notes in the workspace's templates folder. Their text,
+ * including front matter, may contain placeholders:
+ *
+ *   {{title}}           Name of the new note
+ *   {{date}}            ISO date (YYYY-MM-DD)
+ *   {{date:D.M.YYYY}}   Date in a daily note pattern (YYYY, MM, M, DD, D)
+ *   {{time}}            24-hour time (HH:mm)
+ *   {{project}}         Project chosen for the note, or empty
+ *   {{cursor}}          Where the editor caret starts
+ */
+
+import { formatDailyNoteName, toLocalDateString } from "./date-utils";
+
+// Folder (relative to the notes root) that holds note templates
+export const TEMPLATES_FOLDER = "templates";
+
+const TEMPLATE_VARIABLE_REGEX = /\{\{\s*(\w+)(?::([^}]*))?\s*\}\}/g;
+
+const CURSOR_MARKER = "{{cursor}}";
+
+export type TemplateVariables = Record<string, (arg?: string) => string>;
+
+/**
+ * Replace `{{name}}` / `{{name:arg}}` placeholders. Unknown names are left as written.
+ */
+export function fillTemplate(template: string, variables: TemplateVariables): string {
+    return template.replace(TEMPLATE_VARIABLE_REGEX, (placeholder, name: string, arg: string | undefined) => {
+        const resolve = variables[name];
+        return resolve ? resolve(arg?.trim()) : placeholder;
+    });
+}
+
+/**
+ * Variables shared by every template: title, date, time and project.
+ */
+export function getBaseTemplateVariables(params: { title: string; date: Date; project?: string }): TemplateVariables {
+    const { title, date, project } = params;
+    return {
+        title: () => title,
+        date: (format) => (format ? formatDailyNoteName(date, format) : toLocalDateString(date)),
+        time: () => `${String(date.getHours()).padStart(2, "0")}:${String(date.getMinutes()).padStart(2, "0")}`,
+        project: () => project ?? "",
+    };
+}
+
+/**
+ * Remove {{cursor}} markers from note content.
+ *
+ * The position is returned as the editor's `scrollToLine`: a 1-based block index,
+ * approximated by counting the non-blank lines up to the first marker.
+ */
+export function extractCursor(content: string): { content: string; cursorLine?: number } {
+    const index = content.indexOf(CURSOR_MARKER);
+    if (index === -1) {
+        return { content };
+    }
+    const linesBefore = content.slice(0, index).split("\n");
+    linesBefore.pop(); // The marker's own line
+    const cursorLine = linesBefore.filter((line) => line.trim() !== "").length + 1;
+    return { content: content.split(CURSOR_MARKER).join(""), cursorLine };
+}
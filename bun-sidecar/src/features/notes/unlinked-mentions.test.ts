@@ -0,0 +1,50 @@
+import { describe, test, expect } from "bun:test";
+import { findMentions, getMentionTerms, linkMention } from "./unlinked-mentions";
+
+describe("getMentionTerms", () => {
+    test("uses the file name and front matter aliases", () => {
+        expect(getMentionTerms("projects/Alpha.md", { aliases: ["Project A", "alpha", 3] })).toEqual(["Alpha", "Project A"]);
+        expect(getMentionTerms("Alpha.md", { aliases: "The A Team" })).toEqual(["Alpha", "The A Team"]);
+        expect(getMentionTerms("X.md", undefined)).toEqual([]);
+    });
+});
+
+describe("findMentions", () => {
+    test("finds whole-word mentions case-insensitively", () => {
+        const body = "Alpha launch\nThe alpha team, not Alphabet.";
+        expect(findMentions(body, ["Alpha"])).toEqual([
+            { offset: 0, text: "Alpha", line: 1, context: "Alpha launch" },
+            { offset: 17, text: "alpha", line: 2, context: "The alpha team, not Alphabet." },
+        ]);
+    });
+
+    test("prefers the longest term", () => {
+        const mentions = findMentions("Kickoff for Project Alpha", ["Alpha", "Project Alpha"]);
+        expect(mentions.map((mention) => mention.text)).toEqual(["Project Alpha"]);
+    });
+
+    test("skips links, code, URLs and tags", () => {
+        const body = [
+            "[[Alpha]] and ![[Alpha#Goals]] and [the alpha](alpha.md)",
+            "`alpha` https://example.com/alpha #alpha",
+            "```",
+            "alpha",
+            "```",
+            "but alpha here",
+        ].join("\n");
+        expect(findMentions(body, ["Alpha"]).map((mention) => mention.line)).toEqual([6]);
+    });
+});
+
+describe("linkMention", () => {
+    test("links the mention, keeping the text as an alias when it differs", () => {
+        const body = "Met the alpha team";
+        const [mention] = findMentions(body, ["Alpha"]);
+        expect(linkMention(body, mention!, "projects/Alpha.md")).toBe("Met the [[projects/Alpha|alpha]] team");
+        expect(linkMention("Alpha rocks", { offset: 0, text: "Alpha" }, "Alpha.md")).toBe("[[Alpha]] rocks");
+    });
+
+    test("refuses to link text that has moved", () => {
+        expect(() => linkMention("Changed alpha", { offset: 0, text: "alpha" }, "Alpha.md")).toThrow();
+    });
+});
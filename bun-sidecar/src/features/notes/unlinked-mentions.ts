@@ -0,0 +1,100 @@
+/**
+ * Unlinked Mentions
+ *
+ * Finds plain-text occurrences of a note's title or aliases in other notes, and
+ * rewrites a single occurrence into a [[wiki link]]. Shared by the backlinks
+ * service (finding) and the backlinks panel (linking).
+ */
+
+import type { UnlinkedMention } from "./backlinks-types";
+
+const FENCE_LINE_REGEX = /^\s*(```|~~~)/;
+
+// Text that shouldn't count as a mention: inline code, wiki links, markdown links, autolinks, URLs and #tags
+const EXCLUDED_SPAN_REGEX = /`[^`]*`|!?\[\[[^\]]*\]\]|!?\[[^\]]*\]\([^)]*\)|<[^>\s]+>|https?:\/\/\S+|(?<!\S)#[\p{L}\p{N}_/-]+/gu;
+
+// Shorter titles and aliases would match inside ordinary prose too often
+const MIN_TERM_LENGTH = 2;
+
+function escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * The texts a note can be mentioned by: its title (file name) and any `aliases` in its front matter.
+ */
+export function getMentionTerms(fileName: string, frontMatter: Record<string, unknown> | undefined): string[] {
+    const title = fileName.replace(/\.md$/, "").split("/").pop() ?? "";
+    const aliases = frontMatter?.aliases;
+    const aliasList = Array.isArray(aliases) ? aliases : [aliases];
+
+    const terms = [title, ...aliasList]
+        .filter((term): term is string => typeof term === "string")
+        .map((term) => term.trim())
+        .filter((term) => term.length >= MIN_TERM_LENGTH);
+
+    // Mentions match case-insensitively, so keep the first spelling of each
+    return terms.filter((term, index) => terms.findIndex((other) => other.toLowerCase() === term.toLowerCase()) === index);
+}
+
+/**
+ * Find whole-word, case-insensitive occurrences of any term in a note body.
+ * Occurrences inside code, links, URLs and tags are skipped.
+ */
+export function findMentions(body: string, terms: string[]): UnlinkedMention[] {
+    if (terms.length === 0) {
+        return [];
+    }
+
+    // Longest first so "Project Alpha" wins over "Alpha"
+    const alternatives = [...terms]
+        .sort((a, b) => b.length - a.length)
+        .map(escapeRegExp)
+        .join("|");
+    const termRegex = new RegExp(`(?<![\\p{L}\\p{N}_])(?:${alternatives})(?![\\p{L}\\p{N}_])`, "giu");
+
+    const mentions: UnlinkedMention[] = [];
+    let inFence = false;
+    let lineOffset = 0;
+
+    body.split("\n").forEach((line, index) => {
+        const offset = lineOffset;
+        lineOffset += line.length + 1;
+
+        if (FENCE_LINE_REGEX.test(line)) {
+            inFence = !inFence;
+            return;
+        }
+        if (inFence) {
+            return;
+        }
+
+        // Blank out excluded spans rather than removing them so offsets still line up
+        const searchable = line.replace(EXCLUDED_SPAN_REGEX, (span) => " ".repeat(span.length));
+        for (const match of searchable.matchAll(termRegex)) {
+            mentions.push({
+                offset: offset + (match.index ?? 0),
+                text: match[0],
+                line: index + 1,
+                context: line.trim(),
+            });
+        }
+    });
+
+    return mentions;
+}
+
+/**
+ * Replace one mention with a link to the note, keeping the text as written when it differs from the note name.
+ * Throws if the body no longer has the mention at that offset.
+ */
+export function linkMention(body: string, mention: Pick<UnlinkedMention, "offset" | "text">, targetFileName: string): string {
+    const { offset, text } = mention;
+    if (body.slice(offset, offset + text.length) !== text) {
+        throw new Error(`"${text}" is no longer at that position; refresh and try again`);
+    }
+
+    const target = targetFileName.replace(/\.md$/, "");
+    const link = text === target ? `[[${target}]]` : `[[${target}|${text}]]`;
+    return body.slice(0, offset) + link + body.slice(offset + text.length);
+}
@@ -0,0 +1,121 @@
+import { useCallback, useEffect, useRef } from "react";
+import { toast } from "sonner";
+import { notesAPI } from "@/hooks/useNotesAPI";
+import { isBlockAnchor, normalizeAnchor } from "./wiki-link-utils";
+
+// Wait for typing to settle before treating a changed heading as renamed
+const HEADING_RENAME_DELAY_MS = 2000;
+
+function getHeadingTexts(markdown: string): string[] {
+    const headings: string[] = [];
+    for (const line of markdown.split("\n")) {
+        const match = line.match(/^#{1,6}\s+(.+?)\s*$/);
+        if (match?.[1]) headings.push(match[1]);
+    }
+    return headings;
+}
+
+/**
+ * Offers to update [[Note#Heading]] links in other notes when a linked heading is renamed.
+ *
+ * Call `reset` when a note is loaded and `checkSavedContent` after each save. When exactly
+ * one linked heading has disappeared and one new heading has appeared, a toast asks
+ * whether to point the inbound links at the new heading.
+ */
+export function useHeadingRenameOffer(noteFileName: string) {
+    const baselineRef = useRef<string[]>([]);
+    const inboundCountsRef = useRef<Map<string, number>>(new Map()); // Normalized heading → linking notes
+    const timeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+    const toastId = `heading-rename:${noteFileName}`;
+
+    const loadInboundAnchors = useCallback(async () => {
+        try {
+            const { backlinks } = await notesAPI.getBacklinks({ fileName: noteFileName });
+            const counts = new Map<string, number>();
+            for (const link of backlinks) {
+                const headings = new Set(link.anchors.filter((anchor) => !isBlockAnchor(anchor)).map(normalizeAnchor));
+                for (const heading of headings) {
+                    counts.set(heading, (counts.get(heading) ?? 0) + 1);
+                }
+            }
+            inboundCountsRef.current = counts;
+        } catch (error) {
+            console.error("Failed to load heading links:", error);
+        }
+    }, [noteFileName]);
+
+    const reset = useCallback(
+        (content: string) => {
+            baselineRef.current = getHeadingTexts(content);
+            toast.dismiss(toastId);
+            loadInboundAnchors();
+        },
+        [toastId, loadInboundAnchors]
+    );
+
+    const checkSavedContent = useCallback(
+        (content: string) => {
+            if (timeoutRef.current) {
+                clearTimeout(timeoutRef.current);
+            }
+
+            timeoutRef.current = setTimeout(() => {
+                const current = getHeadingTexts(content);
+                const currentSet = new Set(current.map(normalizeAnchor));
+                const baselineSet = new Set(baselineRef.current.map(normalizeAnchor));
+                const removed = baselineRef.current.filter(
+                    (heading) => !currentSet.has(normalizeAnchor(heading)) && inboundCountsRef.current.has(normalizeAnchor(heading))
+                );
+                const added = current.filter((heading) => !baselineSet.has(normalizeAnchor(heading)));
+
+                const [oldHeading] = removed;
+                const [newHeading] = added;
+                if (removed.length !== 1 || added.length !== 1 || !oldHeading || !newHeading) {
+                    toast.dismiss(toastId);
+                    return;
+                }
+
+                const count = inboundCountsRef.current.get(normalizeAnchor(oldHeading)) ?? 0;
+                toast(`${count} note${count === 1 ? " links" : "s link"} to "${oldHeading}"`, {
+                    id: toastId,
+                    duration: Infinity,
+                    description: `Update ${count === 1 ? "it" : "them"} to point at "${newHeading}"?`,
+                    action: {
+                        label: "Update links",
+                        onClick: async () => {
+                            try {
+                                const result = await notesAPI.renameLinkedAnchor({
+                                    fileName: noteFileName,
+                                    oldAnchor: oldHeading,
+                                    newAnchor: newHeading,
+                                });
+                                toast.success(`Updated links in ${result.updated.length} note${result.updated.length === 1 ? "" : "s"}`);
+                            } catch (error) {
+                                toast.error(error instanceof Error ? error.message : "Failed to update links");
+                            }
+                            baselineRef.current = current;
+                            loadInboundAnchors();
+                        },
+                    },
+                    cancel: {
+                        label: "Keep",
+                        onClick: () => {
+                            baselineRef.current = current;
+                        },
+                    },
+                });
+            }, HEADING_RENAME_DELAY_MS);
+        },
+        [noteFileName, toastId, loadInboundAnchors]
+    );
+
+    useEffect(() => {
+        return () => {
+            if (timeoutRef.current) {
+                clearTimeout(timeoutRef.current);
+            }
+        };
+    }, []);
+
+    return { reset, checkSavedContent };
+}
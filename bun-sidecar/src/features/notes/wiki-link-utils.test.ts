@@ -0,0 +1,92 @@
+import { describe, test, expect } from "bun:test";
+import { anchorMatchesBlock, extractLinkedSection, formatWikiLinkLabel, getBlockId, parseWikiLink } from "./wiki-link-utils";
+import { extractWikiLinks, renameWikiLinkAnchors } from "./backlinks-service";
+
+describe("parseWikiLink", () => {
+    test("parses targets, anchors and aliases", () => {
+        expect(parseWikiLink("Note")).toEqual({ target: "Note", anchor: undefined, alias: undefined });
+        expect(parseWikiLink("projects/Alpha#Goals")).toEqual({ target: "projects/Alpha", anchor: "Goals", alias: undefined });
+        expect(parseWikiLink("Note#^summary|see summary")).toEqual({ target: "Note", anchor: "^summary", alias: "see summary" });
+        expect(parseWikiLink("#Heading")).toEqual({ target: "", anchor: "Heading", alias: undefined });
+    });
+
+    test("formats labels for unaliased links", () => {
+        expect(formatWikiLinkLabel("Note")).toBe("Note");
+        expect(formatWikiLinkLabel("Note#Goals")).toBe("Note › Goals");
+        expect(formatWikiLinkLabel("#Goals")).toBe("Goals");
+    });
+});
+
+describe("anchorMatchesBlock", () => {
+    test("matches headings case-insensitively", () => {
+        expect(anchorMatchesBlock("next  steps", { isHeading: true, text: "Next Steps" })).toBe(true);
+        expect(anchorMatchesBlock("Next Steps", { isHeading: false, text: "Next Steps" })).toBe(false);
+    });
+
+    test("matches block ids at the end of a block", () => {
+        expect(getBlockId("Ship the beta ^beta-1")).toBe("beta-1");
+        expect(getBlockId("Costs 5^2")).toBeUndefined();
+        expect(anchorMatchesBlock("^beta-1", { isHeading: false, text: "Ship the beta ^beta-1" })).toBe(true);
+        expect(anchorMatchesBlock("^beta-2", { isHeading: false, text: "Ship the beta ^beta-1" })).toBe(false);
+    });
+});
+
+describe("extractLinkedSection", () => {
+    const note = `# Plan
+
+Intro
+
+## Goals
+
+Ship it ^ship
+
+\`\`\`
+## Not a heading
+\`\`\`
+
+### Detail
+
+- first
+- second ^two
+
+## Risks
+
+None`;
+
+    test("returns a heading's section up to the next heading at its level", () => {
+        expect(extractLinkedSection(note, "goals")).toBe("## Goals\n\nShip it ^ship\n\n```\n## Not a heading\n```\n\n### Detail\n\n- first\n- second ^two");
+        expect(extractLinkedSection(note, "Risks")).toBe("## Risks\n\nNone");
+    });
+
+    test("returns the block a block id marks, without the id", () => {
+        expect(extractLinkedSection(note, "^ship")).toBe("Ship it");
+        expect(extractLinkedSection(note, "^two")).toBe("- second");
+    });
+
+    test("returns undefined for missing anchors", () => {
+        expect(extractLinkedSection(note, "Not a heading")).toBeUndefined();
+        expect(extractLinkedSection(note, "^nope")).toBeUndefined();
+    });
+});
+
+describe("wiki links in the backlinks index", () => {
+    test("extracts targets with anchors and drops aliases", () => {
+        const content = "See [[Alpha]], [[Alpha#Goals|the goals]], [[Alpha#Goals]] and [[#Local]].";
+        expect(extractWikiLinks(content)).toEqual([{ target: "Alpha" }, { target: "Alpha", anchor: "Goals" }]);
+    });
+
+    test("marks embeds separately from links", () => {
+        const content = "[[Alpha]]\n\n![[Alpha]]\n\n![[Beta#Goals]]";
+        expect(extractWikiLinks(content)).toEqual([
+            { target: "Alpha" },
+            { target: "Alpha", embed: true },
+            { target: "Beta", anchor: "Goals", embed: true },
+        ]);
+    });
+
+    test("renames anchors in links to a note", () => {
+        const content = "[[Alpha#goals]] [[Alpha#Goals|aims]] [[Beta#Goals]] [[Alpha#Other]]";
+        const result = renameWikiLinkAnchors(content, { target: "alpha", oldAnchor: "Goals", newAnchor: "Objectives" });
+        expect(result).toBe("[[Alpha#Objectives]] [[Alpha#Objectives|aims]] [[Beta#Goals]] [[Alpha#Other]]");
+    });
+});
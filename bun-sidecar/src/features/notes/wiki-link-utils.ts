@@ -0,0 +1,152 @@
+/**
+ * Wiki Link Parsing
+ *
+ * Shared by the editor and the backlinks index. Supported forms:
+ *
+ *   [[Note]]              Link to a note
+ *   [[Note#Heading]]      Link to a heading in the note
+ *   [[Note#^block-id]]    Link to a block ending in ^block-id
+ *   [[Note|alias]]        Any of the above, displayed as "alias"
+ *   [[#Heading]]          Heading in the same note
+ *
+ * Prefixed with `!` on a line of their own (`![[Note#Heading]]`) they embed the note or section.
+ */
+
+export interface ParsedWikiLink {
+    target: string; // Note path without .md, empty for same-note links
+    anchor?: string; // "Heading" or "^block-id"
+    alias?: string;
+}
+
+// Block IDs mark the end of a paragraph or list item: "Some text ^abc-123"
+const BLOCK_ID_REGEX = /(?:^|\s)\^([A-Za-z0-9-]+)\s*$/;
+
+const HEADING_LINE_REGEX = /^(#{1,6})\s+(.+?)\s*$/;
+
+const FENCE_LINE_REGEX = /^\s*(```|~~~)/;
+
+const LIST_ITEM_LINE_REGEX = /^\s*([-*+]|\d+[.)])\s/;
+
+/**
+ * Parse the inside of a [[wiki link]] (or a wiki link node's href).
+ */
+export function parseWikiLink(inner: string): ParsedWikiLink {
+    const pipeIndex = inner.indexOf("|");
+    const linkPart = pipeIndex === -1 ? inner : inner.slice(0, pipeIndex);
+    const alias = pipeIndex === -1 ? undefined : inner.slice(pipeIndex + 1).trim() || undefined;
+
+    const hashIndex = linkPart.indexOf("#");
+    const target = (hashIndex === -1 ? linkPart : linkPart.slice(0, hashIndex)).trim();
+    const anchor = hashIndex === -1 ? undefined : linkPart.slice(hashIndex + 1).trim() || undefined;
+
+    return { target, anchor, alias };
+}
+
+/**
+ * Build a wiki link href from a target and optional anchor.
+ */
+export function formatWikiLinkHref(target: string, anchor?: string): string {
+    return anchor ? `${target}#${anchor}` : target;
+}
+
+/**
+ * Display text for a wiki link without an alias, e.g. "Note › Heading".
+ */
+export function formatWikiLinkLabel(href: string): string {
+    const { target, anchor } = parseWikiLink(href);
+    if (!anchor) return target;
+    return target ? `${target} › ${anchor}` : anchor;
+}
+
+/**
+ * Text shown for a wiki link node: its alias (title), or the formatted href.
+ */
+export function getWikiLinkLabel(href: string, title: string): string {
+    return title && title !== href ? title : formatWikiLinkLabel(href);
+}
+
+/**
+ * Inverse of getWikiLinkLabel for links read back from the DOM, so unaliased links don't gain an alias.
+ */
+export function getWikiLinkTitleFromLabel(href: string, label: string): string {
+    return label === formatWikiLinkLabel(href) ? href : label;
+}
+
+export function isBlockAnchor(anchor: string): boolean {
+    return anchor.startsWith("^");
+}
+
+/**
+ * Block ID at the end of a block's text, without the ^.
+ */
+export function getBlockId(text: string): string | undefined {
+    return text.match(BLOCK_ID_REGEX)?.[1];
+}
+
+/**
+ * Compare anchors the way links resolve: case-insensitive, ignoring extra whitespace.
+ */
+export function normalizeAnchor(anchor: string): string {
+    return anchor.trim().replace(/\s+/g, " ").toLowerCase();
+}
+
+/**
+ * Whether a heading or block is the one an anchor points at.
+ */
+export function anchorMatchesBlock(anchor: string, block: { isHeading: boolean; text: string }): boolean {
+    if (isBlockAnchor(anchor)) {
+        const blockId = getBlockId(block.text);
+        return !!blockId && blockId.toLowerCase() === anchor.slice(1).toLowerCase();
+    }
+    return block.isHeading && normalizeAnchor(block.text) === normalizeAnchor(anchor);
+}
+
+/**
+ * The markdown an anchor points at, for embeds:
+ * - a heading's section, up to the next heading of the same or a higher level
+ * - the paragraph or list item ending in ^block-id (without the id)
+ *
+ * @returns undefined if the note has no such heading or block
+ */
+export function extractLinkedSection(markdown: string, anchor: string): string | undefined {
+    const lines = markdown.split("\n");
+    // Headings and block IDs inside code fences don't count
+    let inFence = false;
+    const isCode = lines.map((line) => {
+        if (FENCE_LINE_REGEX.test(line)) {
+            inFence = !inFence;
+            return true;
+        }
+        return inFence;
+    });
+
+    if (isBlockAnchor(anchor)) {
+        const index = lines.findIndex((line, i) => !isCode[i] && anchorMatchesBlock(anchor, { isHeading: false, text: line }));
+        if (index === -1) return undefined;
+        let start = index;
+        // A paragraph starts after the previous blank line; a list item is just its own line
+        if (!LIST_ITEM_LINE_REGEX.test(lines[index]!)) {
+            while (start > 0 && lines[start - 1]!.trim() !== "" && !isCode[start - 1]) start--;
+        }
+        return lines
+            .slice(start, index + 1)
+            .join("\n")
+            .replace(BLOCK_ID_REGEX, "");
+    }
+
+    let start = -1;
+    let level = 0;
+    for (let i = 0; i < lines.length; i++) {
+        const match = !isCode[i] && lines[i]!.match(HEADING_LINE_REGEX);
+        if (!match) continue;
+        if (start === -1) {
+            if (normalizeAnchor(match[2]!) === normalizeAnchor(anchor)) {
+                start = i;
+                level = match[1]!.length;
+            }
+        } else if (match[1]!.length <= level) {
+            return lines.slice(start, i).join("\n").trimEnd();
+        }
+    }
+    return start === -1 ? undefined : lines.slice(start).join("\n").trimEnd();
+}
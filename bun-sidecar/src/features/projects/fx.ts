@@ -2,6 +2,7 @@ import { createServiceLogger } from "@/lib/logger";
 import { getNomendexPath, hasActiveWorkspace } from "@/storage/root-path";
 import { getTodos, updateTodo, deleteTodo } from "@/features/todos/fx";
 import { getNotes, updateNoteProject, deleteNote } from "@/features/notes/fx";
+import { takeAutomaticSnapshot } from "@/services/snapshots";
 import path from "path";
 import {
     ProjectConfig,
@@ -327,6 +328,8 @@ export async function deleteProject(input: {
     let deletedNotes = 0;
 
     if (input.cascade) {
+        await takeAutomaticSnapshot({ name: `Before deleting project ${projectName}`, trigger: "project-delete" });
+
         // Delete all todos with this project
         const allTodos = await getTodos({});
         const projectTodos = allTodos.filter((t) => t.project === projectName);
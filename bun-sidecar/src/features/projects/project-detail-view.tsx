@@ -101,6 +101,7 @@ export function ProjectDetailView({ tabId, projectName }: { tabId: string } & Pr
                         tags: updatedTodo.tags,
                         dueDate: updatedTodo.dueDate,
                         attachments: updatedTodo.attachments,
+                        recurrence: updatedTodo.recurrence ?? null,
                     },
                 });
                 setEditDialogOpen(false);
@@ -10,9 +10,12 @@ import { KeyboardIndicator } from "@/components/KeyboardIndicator";
 import { useTheme } from "@/hooks/useTheme";
 import { useNativeSubmit } from "@/hooks/useNativeKeyboardBridge";
 import { Calendar } from "@/components/ui/calendar";
+import { useWorkspaceContext } from "@/contexts/WorkspaceContext";
 import { parseDateFromInput, toLocalDateString, parseLocalDateString } from "@/features/notes/date-utils";
 import type { Attachment } from "@/types/attachments";
 import { AttachmentThumbnail } from "@/components/AttachmentThumbnail";
+import type { Recurrence } from "./todo-types";
+import { RecurrencePill } from "./RecurrencePill";
 
 interface NewTodo {
     title: string;
@@ -22,6 +25,7 @@ interface NewTodo {
     tags: string[];
     dueDate?: string;
     attachments?: Attachment[];
+    recurrence?: Recurrence;
 }
 
 interface CreateTodoDialogProps {
@@ -69,6 +73,7 @@ export function CreateTodoDialog({
     const projectTriggerRef = useRef<HTMLButtonElement>(null);
     const fileInputRef = useRef<HTMLInputElement>(null);
     const { currentTheme } = useTheme();
+    const { dailyNotes } = useWorkspaceContext();
     const { styles } = currentTheme;
 
     // Handle file upload
@@ -644,7 +649,7 @@ export function CreateTodoDialog({
                                         value={dueDateInput}
                                         onChange={(e) => {
                                             setDueDateInput(e.target.value);
-                                            const parsed = parseDateFromInput(e.target.value);
+                                            const parsed = parseDateFromInput(e.target.value, dailyNotes.pattern);
                                             if (parsed) {
                                                 onNewTodoChange({ ...newTodo, dueDate: toLocalDateString(parsed) });
                                             }
@@ -674,6 +679,13 @@ export function CreateTodoDialog({
                                 </div>
                             </PopoverContent>
                         </Popover>
+
+                        {/* Repeat Pill */}
+                        <RecurrencePill
+                            value={newTodo.recurrence}
+                            dueDate={newTodo.dueDate}
+                            onChange={(recurrence) => onNewTodoChange({ ...newTodo, recurrence })}
+                        />
                     </div>
 
                     {/* Action Buttons */}
@@ -15,21 +15,36 @@ interface DeleteTodoDialogProps {
     onOpenChange: (open: boolean) => void;
     onConfirmDelete: () => void;
     onCancel: () => void;
+    action?: "delete" | "archive";
+    subtaskCount?: number; // Subtasks that will be removed along with the todo
 }
 
-export function DeleteTodoDialog({ open, onOpenChange, onConfirmDelete, onCancel }: DeleteTodoDialogProps) {
+export function DeleteTodoDialog({ open, onOpenChange, onConfirmDelete, onCancel, action = "delete", subtaskCount = 0 }: DeleteTodoDialogProps) {
     const { currentTheme } = useTheme();
+    const subtasks = `${subtaskCount} subtask${subtaskCount === 1 ? "" : "s"}`;
+
+    let description: string;
+    if (action === "archive") {
+        description = `Archiving this todo will also archive its ${subtasks}.`;
+    } else if (subtaskCount > 0) {
+        description = `Are you sure you want to delete this todo and its ${subtasks}? This action cannot be undone.`;
+    } else {
+        description = "Are you sure you want to delete this todo? This action cannot be undone.";
+    }
 
     return (
         <AlertDialog open={open} onOpenChange={onOpenChange}>
             <AlertDialogContent style={{ backgroundColor: currentTheme.styles.surfacePrimary }}>
                 <AlertDialogHeader>
-                    <AlertDialogTitle>Delete Todo</AlertDialogTitle>
-                    <AlertDialogDescription>Are you sure you want to delete this todo? This action cannot be undone.</AlertDialogDescription>
+                    <AlertDialogTitle>{action === "archive" ? "Archive Todo" : "Delete Todo"}</AlertDialogTitle>
+                    <AlertDialogDescription>{description}</AlertDialogDescription>
                 </AlertDialogHeader>
                 <AlertDialogFooter>
                     <AlertDialogCancel onClick={onCancel}>Cancel</AlertDialogCancel>
-                    <AlertDialogAction onClick={onConfirmDelete}>Delete</AlertDialogAction>
+                    <AlertDialogAction onClick={onConfirmDelete}>
+                        {action === "archive" ? "Archive" : "Delete"}
+                        {subtaskCount > 0 ? " All" : ""}
+                    </AlertDialogAction>
                 </AlertDialogFooter>
             </AlertDialogContent>
         </AlertDialog>
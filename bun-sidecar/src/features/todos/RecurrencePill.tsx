@@ -0,0 +1,244 @@
+import { useState } from "react";
+import { Input } from "@/components/ui/input";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Repeat, X } from "lucide-react";
+import { useTheme } from "@/hooks/useTheme";
+import { parseLocalDateString, toLocalDateString } from "@/features/notes/date-utils";
+import type { Recurrence } from "./todo-types";
+import { WEEKDAYS, WEEKDAY_LABELS, createDefaultRecurrence, describeMonthlyPosition, describeRecurrence } from "./recurrence";
+
+interface RecurrencePillProps {
+    value?: Recurrence;
+    dueDate?: string;
+    onChange: (recurrence: Recurrence | undefined) => void;
+}
+
+const freqOptions = [
+    { value: "daily", label: "Daily" },
+    { value: "weekly", label: "Weekly" },
+    { value: "monthly", label: "Monthly" },
+    { value: "yearly", label: "Yearly" },
+] as const;
+
+const unitLabels: Record<Recurrence["freq"], string> = {
+    daily: "days",
+    weekly: "weeks",
+    monthly: "months",
+    yearly: "years",
+};
+
+// Week starts on Monday in the picker
+const weekdayOrder = [...WEEKDAYS.slice(1), WEEKDAYS[0]!];
+
+export function RecurrencePill({ value, dueDate, onChange }: RecurrencePillProps) {
+    const [open, setOpen] = useState(false);
+    const { currentTheme } = useTheme();
+    const { styles } = currentTheme;
+
+    const anchor = dueDate ? parseLocalDateString(dueDate) : new Date();
+    const anchorWeekday = WEEKDAYS[anchor.getDay()]!;
+    // The 5th weekday of a month is offered as "last" so it exists every month
+    const anchorNthWeekday = {
+        nth: anchor.getDate() > 28 ? -1 : Math.ceil(anchor.getDate() / 7),
+        weekday: anchorWeekday,
+    };
+
+    const update = (changes: Partial<Recurrence>) => {
+        if (!value) return;
+        onChange({ ...value, ...changes });
+    };
+
+    const optionStyle = (active: boolean) => ({
+        backgroundColor: active ? styles.surfaceAccent : styles.surfaceTertiary,
+        color: active ? styles.contentPrimary : styles.contentSecondary,
+    });
+
+    const endMode = value?.count !== undefined ? "count" : value?.until ? "until" : "never";
+
+    return (
+        <Popover open={open} onOpenChange={setOpen}>
+            <PopoverTrigger asChild>
+                <button
+                    type="button"
+                    className="flex items-center gap-1.5 px-2 py-1.5 rounded-md text-sm font-medium transition-colors hover:opacity-80 focus:outline-none focus:ring-2 focus:ring-offset-1"
+                    style={{
+                        backgroundColor: styles.surfaceTertiary,
+                        color: value ? styles.contentPrimary : styles.contentTertiary,
+                    }}
+                    title={value ? describeRecurrence(value) : "Repeat"}
+                >
+                    <Repeat className="size-4 shrink-0" />
+                    {value && (
+                        <>
+                            <span className="whitespace-nowrap max-w-[160px] truncate">{describeRecurrence(value)}</span>
+                            <button
+                                type="button"
+                                onClick={(e) => {
+                                    e.stopPropagation();
+                                    onChange(undefined);
+                                }}
+                                className="p-0.5 rounded-full hover:bg-black/10 transition-colors"
+                            >
+                                <X className="size-3" />
+                            </button>
+                        </>
+                    )}
+                </button>
+            </PopoverTrigger>
+            <PopoverContent
+                className="w-72 p-3 z-[100]"
+                align="start"
+                style={{
+                    backgroundColor: styles.surfacePrimary,
+                    borderColor: styles.borderDefault,
+                }}
+            >
+                <div className="space-y-3 text-sm" style={{ color: styles.contentPrimary }}>
+                    {/* Frequency */}
+                    <div className="grid grid-cols-4 gap-1">
+                        {freqOptions.map((option) => (
+                            <button
+                                key={option.value}
+                                type="button"
+                                onClick={() => onChange(createDefaultRecurrence({ freq: option.value, dueDate }))}
+                                className="px-2 py-1 rounded-md text-xs font-medium transition-colors hover:opacity-80"
+                                style={optionStyle(value?.freq === option.value)}
+                            >
+                                {option.label}
+                            </button>
+                        ))}
+                    </div>
+
+                    {value && (
+                        <>
+                            {/* Interval */}
+                            <div className="flex items-center gap-2">
+                                <span style={{ color: styles.contentSecondary }}>Every</span>
+                                <Input
+                                    type="number"
+                                    min={1}
+                                    value={value.interval ?? 1}
+                                    onChange={(e) => {
+                                        const interval = parseInt(e.target.value, 10);
+                                        update({ interval: interval > 1 ? interval : undefined });
+                                    }}
+                                    className="h-8 w-16 text-sm"
+                                />
+                                <span style={{ color: styles.contentSecondary }}>{unitLabels[value.freq]}</span>
+                            </div>
+
+                            {/* Weekly: weekdays */}
+                            {value.freq === "weekly" && (
+                                <div className="grid grid-cols-7 gap-1">
+                                    {weekdayOrder.map((day) => {
+                                        const selected = value.byDay?.includes(day) ?? false;
+                                        return (
+                                            <button
+                                                key={day}
+                                                type="button"
+                                                onClick={() => {
+                                                    const byDay = selected
+                                                        ? (value.byDay ?? []).filter((d) => d !== day)
+                                                        : [...(value.byDay ?? []), day];
+                                                    update({ byDay: byDay.length > 0 ? byDay : undefined });
+                                                }}
+                                                className="py-1 rounded-md text-xs font-medium transition-colors hover:opacity-80"
+                                                style={optionStyle(selected)}
+                                            >
+                                                {WEEKDAY_LABELS[day].slice(0, 2)}
+                                            </button>
+                                        );
+                                    })}
+                                </div>
+                            )}
+
+                            {/* Monthly: by day of month or nth weekday */}
+                            {value.freq === "monthly" && (
+                                <div className="grid grid-cols-2 gap-1">
+                                    <button
+                                        type="button"
+                                        onClick={() => onChange({ ...value, byNthWeekday: undefined, byMonthDay: anchor.getDate() })}
+                                        className="px-2 py-1 rounded-md text-xs font-medium transition-colors hover:opacity-80"
+                                        style={optionStyle(!value.byNthWeekday)}
+                                    >
+                                        On {describeMonthlyPosition({ byMonthDay: value.byMonthDay ?? anchor.getDate() })}
+                                    </button>
+                                    <button
+                                        type="button"
+                                        onClick={() =>
+                                            onChange({
+                                                ...value,
+                                                byMonthDay: undefined,
+                                                byNthWeekday: anchorNthWeekday,
+                                            })
+                                        }
+                                        className="px-2 py-1 rounded-md text-xs font-medium transition-colors hover:opacity-80"
+                                        style={optionStyle(!!value.byNthWeekday)}
+                                    >
+                                        On {describeMonthlyPosition({ byNthWeekday: value.byNthWeekday ?? anchorNthWeekday })}
+                                    </button>
+                                </div>
+                            )}
+
+                            {/* End condition */}
+                            <div className="space-y-2">
+                                <div className="text-xs font-medium" style={{ color: styles.contentSecondary }}>
+                                    Ends
+                                </div>
+                                <div className="grid grid-cols-3 gap-1">
+                                    <button
+                                        type="button"
+                                        onClick={() => onChange({ ...value, until: undefined, count: undefined })}
+                                        className="px-2 py-1 rounded-md text-xs font-medium transition-colors hover:opacity-80"
+                                        style={optionStyle(endMode === "never")}
+                                    >
+                                        Never
+                                    </button>
+                                    <button
+                                        type="button"
+                                        onClick={() => onChange({ ...value, count: undefined, until: value.until ?? toLocalDateString(anchor) })}
+                                        className="px-2 py-1 rounded-md text-xs font-medium transition-colors hover:opacity-80"
+                                        style={optionStyle(endMode === "until")}
+                                    >
+                                        On date
+                                    </button>
+                                    <button
+                                        type="button"
+                                        onClick={() => onChange({ ...value, until: undefined, count: value.count ?? 10 })}
+                                        className="px-2 py-1 rounded-md text-xs font-medium transition-colors hover:opacity-80"
+                                        style={optionStyle(endMode === "count")}
+                                    >
+                                        After
+                                    </button>
+                                </div>
+                                {endMode === "until" && (
+                                    <Input
+                                        type="date"
+                                        value={value.until}
+                                        onChange={(e) => update({ until: e.target.value || undefined })}
+                                        className="h-8 text-sm"
+                                    />
+                                )}
+                                {endMode === "count" && (
+                                    <div className="flex items-center gap-2">
+                                        <Input
+                                            type="number"
+                                            min={1}
+                                            value={value.count}
+                                            onChange={(e) => {
+                                                const count = parseInt(e.target.value, 10);
+                                                update({ count: count >= 1 ? count : 1 });
+                                            }}
+                                            className="h-8 w-16 text-sm"
+                                        />
+                                        <span style={{ color: styles.contentSecondary }}>occurrences</span>
+                                    </div>
+                                )}
+                            </div>
+                        </>
+                    )}
+                </div>
+            </PopoverContent>
+        </Popover>
+    );
+}
@@ -0,0 +1,64 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Bookmark } from "lucide-react";
+import { useTheme } from "@/hooks/useTheme";
+
+interface SaveViewPopoverProps {
+    onSave: (name: string) => void;
+}
+
+/**
+ * "Save view" button that asks for a name for the current board filter.
+ */
+export function SaveViewPopover({ onSave }: SaveViewPopoverProps) {
+    const [open, setOpen] = useState(false);
+    const [name, setName] = useState("");
+    const { currentTheme } = useTheme();
+    const { styles } = currentTheme;
+
+    const save = () => {
+        if (!name.trim()) return;
+        onSave(name.trim());
+        setName("");
+        setOpen(false);
+    };
+
+    return (
+        <Popover open={open} onOpenChange={setOpen}>
+            <PopoverTrigger asChild>
+                <Button variant="outline" size="sm" title="Save as view">
+                    <Bookmark className="w-4 h-4" />
+                </Button>
+            </PopoverTrigger>
+            <PopoverContent
+                className="w-64 p-2"
+                align="end"
+                style={{
+                    backgroundColor: styles.surfacePrimary,
+                    borderColor: styles.borderDefault,
+                }}
+            >
+                <div className="space-y-2">
+                    <Input
+                        value={name}
+                        onChange={(e) => setName(e.target.value)}
+                        placeholder="View name, e.g. My week"
+                        className="h-9 text-sm"
+                        autoFocus
+                        onKeyDown={(e) => {
+                            if (e.key === "Enter") {
+                                e.preventDefault();
+                                save();
+                            }
+                        }}
+                    />
+                    <Button size="sm" className="w-full" onClick={save} disabled={!name.trim()}>
+                        Save View
+                    </Button>
+                </div>
+            </PopoverContent>
+        </Popover>
+    );
+}
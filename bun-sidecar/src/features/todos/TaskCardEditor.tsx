@@ -5,15 +5,20 @@ import { Textarea } from "@/components/ui/textarea";
 import { Dialog, DialogContent } from "@/components/ui/dialog";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
-import { Save, Circle, Loader2, CheckCircle2, Clock, Folder, Tag, X, Plus, CalendarDays, Paperclip } from "lucide-react";
+import { Save, Circle, Loader2, CheckCircle2, Clock, Folder, Tag, X, Plus, CalendarDays, Paperclip, CornerDownRight, Lock } from "lucide-react";
 import { KeyboardIndicator } from "@/components/KeyboardIndicator";
 import { useTheme } from "@/hooks/useTheme";
 import { useNativeSubmit } from "@/hooks/useNativeKeyboardBridge";
 import { Calendar } from "@/components/ui/calendar";
+import { useWorkspaceContext } from "@/contexts/WorkspaceContext";
 import { parseDateFromInput, toLocalDateString, parseLocalDateString } from "@/features/notes/date-utils";
 import { Todo } from "./todo-types";
 import type { Attachment } from "@/types/attachments";
 import { AttachmentThumbnail } from "@/components/AttachmentThumbnail";
+import { RecurrencePill } from "./RecurrencePill";
+import { TodoPickerPill } from "./TodoPickerPill";
+import { Checkbox } from "@/components/ui/checkbox";
+import { findDependencyCycle, getChildren, wouldCreateParentCycle } from "./todo-tree";
 
 interface TaskCardEditorProps {
     todo: Todo | null;
@@ -23,6 +28,9 @@ interface TaskCardEditorProps {
     saving: boolean;
     availableTags: string[];
     availableProjects: string[];
+    availableTodos?: Todo[]; // Enables parent, blocked-by and subtask editing
+    onAddSubtask?: (parent: Todo, title: string) => void;
+    onToggleSubtask?: (subtask: Todo) => void;
 }
 
 const statusConfig = [
@@ -32,7 +40,18 @@ const statusConfig = [
     { value: "later", label: "Later", icon: Clock },
 ] as const;
 
-export function TaskCardEditor({ todo, open, onOpenChange, onSave, saving, availableTags, availableProjects }: TaskCardEditorProps) {
+export function TaskCardEditor({
+    todo,
+    open,
+    onOpenChange,
+    onSave,
+    saving,
+    availableTags,
+    availableProjects,
+    availableTodos,
+    onAddSubtask,
+    onToggleSubtask,
+}: TaskCardEditorProps) {
     const [editedTodo, setEditedTodo] = useState<Todo | null>(null);
     const [statusOpen, setStatusOpen] = useState(false);
     const [statusHighlightIndex, setStatusHighlightIndex] = useState(-1);
@@ -44,11 +63,13 @@ export function TaskCardEditor({ todo, open, onOpenChange, onSave, saving, avail
     const [dueDateOpen, setDueDateOpen] = useState(false);
     const [dueDateInput, setDueDateInput] = useState("");
     const [isUploading, setIsUploading] = useState(false);
+    const [subtaskInput, setSubtaskInput] = useState("");
     const projectInputRef = useRef<HTMLInputElement>(null);
     const statusTriggerRef = useRef<HTMLButtonElement>(null);
     const projectTriggerRef = useRef<HTMLButtonElement>(null);
     const fileInputRef = useRef<HTMLInputElement>(null);
     const { currentTheme } = useTheme();
+    const { dailyNotes } = useWorkspaceContext();
     const { styles } = currentTheme;
 
     // Handle file upload
@@ -243,6 +264,25 @@ export function TaskCardEditor({ todo, open, onOpenChange, onSave, saving, avail
         }
     };
 
+    // Candidates exclude todos that would make the parent chain or dependencies circular
+    const activeTodos = (availableTodos ?? []).filter(t => !t.archived && t.id !== editedTodo?.id);
+    const parentCandidates = editedTodo
+        ? activeTodos.filter(t => !wouldCreateParentCycle(availableTodos ?? [], editedTodo.id, t.id))
+        : [];
+    const blockerCandidates = editedTodo
+        ? activeTodos.filter(t =>
+            (t.status !== "done" || editedTodo.blockedBy?.includes(t.id)) &&
+            !findDependencyCycle(availableTodos ?? [], editedTodo.id, [t.id])
+        )
+        : [];
+    const subtasks = editedTodo ? getChildren(availableTodos ?? [], editedTodo.id).filter(t => !t.archived) : [];
+
+    const addSubtask = () => {
+        if (!editedTodo || !onAddSubtask || !subtaskInput.trim()) return;
+        onAddSubtask(editedTodo, subtaskInput.trim());
+        setSubtaskInput("");
+    };
+
     const currentStatus = statusConfig.find(s => s.value === editedTodo?.status) || statusConfig[0];
     const StatusIcon = currentStatus.icon;
 
@@ -309,6 +349,41 @@ export function TaskCardEditor({ todo, open, onOpenChange, onSave, saving, avail
                         }}
                     />
 
+                    {/* Subtasks */}
+                    {onAddSubtask && (
+                        <div className="space-y-1 pt-2">
+                            {subtasks.map((subtask) => (
+                                <label
+                                    key={subtask.id}
+                                    className="flex items-center gap-2 text-sm cursor-pointer"
+                                    style={{ color: subtask.status === "done" ? styles.contentTertiary : styles.contentPrimary }}
+                                >
+                                    <Checkbox
+                                        checked={subtask.status === "done"}
+                                        onCheckedChange={() => onToggleSubtask?.(subtask)}
+                                    />
+                                    <span className={subtask.status === "done" ? "line-through" : ""}>{subtask.title}</span>
+                                </label>
+                            ))}
+                            <div className="flex items-center gap-2">
+                                <Plus className="size-4 shrink-0" style={{ color: styles.contentTertiary }} />
+                                <Input
+                                    value={subtaskInput}
+                                    onChange={(e) => setSubtaskInput(e.target.value)}
+                                    onKeyDown={(e) => {
+                                        if (e.key === "Enter" && !e.metaKey && !e.ctrlKey) {
+                                            e.preventDefault();
+                                            addSubtask();
+                                        }
+                                    }}
+                                    placeholder="Add subtask..."
+                                    className="h-8 text-sm border-0 px-0 focus-visible:ring-0 placeholder:text-muted-foreground/40"
+                                    style={{ backgroundColor: "transparent" }}
+                                />
+                            </div>
+                        </div>
+                    )}
+
                     {/* Attachments Row */}
                     {editedTodo.attachments && editedTodo.attachments.length > 0 && (
                         <div className="flex flex-wrap items-center gap-2 pt-2">
@@ -358,7 +433,7 @@ export function TaskCardEditor({ todo, open, onOpenChange, onSave, saving, avail
                     }}
                 >
                     {/* Metadata Pills */}
-                    <div className="flex items-center gap-2">
+                    <div className="flex flex-wrap items-center gap-2">
                         {/* Status Pill */}
                         <Popover open={statusOpen} onOpenChange={handleStatusOpenChange}>
                             <PopoverTrigger asChild>
@@ -639,7 +714,7 @@ export function TaskCardEditor({ todo, open, onOpenChange, onSave, saving, avail
                                         value={dueDateInput}
                                         onChange={(e) => {
                                             setDueDateInput(e.target.value);
-                                            const parsed = parseDateFromInput(e.target.value);
+                                            const parsed = parseDateFromInput(e.target.value, dailyNotes.pattern);
                                             if (parsed) {
                                                 setEditedTodo({ ...editedTodo, dueDate: toLocalDateString(parsed) });
                                             }
@@ -669,6 +744,36 @@ export function TaskCardEditor({ todo, open, onOpenChange, onSave, saving, avail
                                 </div>
                             </PopoverContent>
                         </Popover>
+
+                        {/* Repeat Pill */}
+                        <RecurrencePill
+                            value={editedTodo.recurrence}
+                            dueDate={editedTodo.dueDate}
+                            onChange={(recurrence) => setEditedTodo({ ...editedTodo, recurrence })}
+                        />
+
+                        {availableTodos && (
+                            <>
+                                {/* Parent Pill */}
+                                <TodoPickerPill
+                                    icon={CornerDownRight}
+                                    label="Parent"
+                                    candidates={parentCandidates}
+                                    selectedIds={editedTodo.parentId ? [editedTodo.parentId] : []}
+                                    onChange={(ids) => setEditedTodo({ ...editedTodo, parentId: ids[0] })}
+                                />
+
+                                {/* Blocked By Pill */}
+                                <TodoPickerPill
+                                    icon={Lock}
+                                    label="Blocked by"
+                                    candidates={blockerCandidates}
+                                    selectedIds={editedTodo.blockedBy ?? []}
+                                    multiple
+                                    onChange={(ids) => setEditedTodo({ ...editedTodo, blockedBy: ids.length > 0 ? ids : undefined })}
+                                />
+                            </>
+                        )}
                     </div>
 
                     {/* Action Buttons */}
@@ -1,9 +1,10 @@
-import { Settings, Trash2, Archive, ArchiveRestore, Copy, CalendarDays } from "lucide-react";
+import { Settings, Trash2, Archive, ArchiveRestore, Copy, CalendarDays, Repeat, Lock, ListChecks, CornerDownRight } from "lucide-react";
 import { Todo } from "./todo-types";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { toast } from "sonner";
 import { parseLocalDateString } from "@/features/notes/date-utils";
+import { describeRecurrence } from "./recurrence";
 
 export function TodoCard({
     todo,
@@ -12,6 +13,9 @@ export function TodoCard({
     onDelete,
     onArchive,
     hideProject,
+    blockers,
+    subtaskProgress,
+    parentTitle,
 }: {
     todo: Todo;
     selected?: boolean;
@@ -19,7 +23,12 @@ export function TodoCard({
     onDelete?: (todo: Todo) => void;
     onArchive?: (todo: Todo) => void;
     hideProject?: boolean;
+    blockers?: Todo[]; // Unfinished todos this one is waiting on
+    subtaskProgress?: { done: number; total: number };
+    parentTitle?: string;
 }) {
+    const isBlocked = !!blockers && blockers.length > 0;
+
     const handleCopy = async (e: React.MouseEvent) => {
         e.stopPropagation();
         e.preventDefault();
@@ -37,10 +46,25 @@ export function TodoCard({
         }
     };
     return (
-        <Card className={`mb-2 hover:shadow-md transition-shadow duration-150 ${todo.archived ? 'opacity-60 bg-muted/30' : ''}`}>
+        <Card className={`mb-2 hover:shadow-md transition-shadow duration-150 ${todo.archived ? 'opacity-60 bg-muted/30' : ''} ${isBlocked ? 'border-dashed' : ''}`}>
             <CardHeader className="pb-1 pt-2 px-3">
+                {parentTitle && (
+                    <p className="text-[10px] text-muted-foreground flex items-center gap-1 truncate">
+                        <CornerDownRight className="size-3 shrink-0" />
+                        <span className="truncate">{parentTitle}</span>
+                    </p>
+                )}
                 <div className="flex items-start justify-between gap-2">
-                    <CardTitle className="text-sm font-medium leading-tight flex-1">{todo.title}</CardTitle>
+                    <CardTitle className={`text-sm font-medium leading-tight flex-1 ${isBlocked ? 'text-muted-foreground' : ''}`}>{todo.title}</CardTitle>
+                    {isBlocked && (
+                        <span
+                            className="text-[10px] text-amber-600 bg-amber-500/10 px-1 rounded shrink-0 flex items-center gap-0.5"
+                            title={`Blocked by: ${blockers.map((b) => b.title).join(", ")}`}
+                        >
+                            <Lock className="size-2.5" />
+                            Blocked
+                        </span>
+                    )}
                     {todo.archived && <span className="text-[10px] text-muted-foreground bg-muted px-1 rounded shrink-0">Archived</span>}
                 </div>
                 {!hideProject && todo.project && <p className="text-[10px] text-blue-600">{todo.project}</p>}
@@ -59,11 +83,34 @@ export function TodoCard({
                     <p className="text-[11px] text-muted-foreground line-clamp-2">{todo.description}</p>
                 </CardContent>
             )}
+            {subtaskProgress && subtaskProgress.total > 0 && (
+                <div className="px-3 pb-1 flex items-center gap-2" title={`${subtaskProgress.done} of ${subtaskProgress.total} subtasks done`}>
+                    <ListChecks className="size-3 text-muted-foreground shrink-0" />
+                    <div className="flex-1 h-1 rounded-full bg-muted overflow-hidden">
+                        <div
+                            className="h-full bg-green-600 transition-all"
+                            style={{ width: `${(subtaskProgress.done / subtaskProgress.total) * 100}%` }}
+                        />
+                    </div>
+                    <span className="text-[10px] text-muted-foreground">
+                        {subtaskProgress.done}/{subtaskProgress.total}
+                    </span>
+                </div>
+            )}
             <div className="px-3 pb-2 flex items-center justify-between">
-                {todo.dueDate ? (
+                {todo.dueDate || todo.recurrence ? (
                     <p className="text-[10px] text-muted-foreground flex items-center gap-1">
-                        <CalendarDays className="size-3" />
-                        {parseLocalDateString(todo.dueDate).toLocaleDateString("en-US", { month: "short", day: "numeric" })}
+                        {todo.dueDate && (
+                            <>
+                                <CalendarDays className="size-3" />
+                                {parseLocalDateString(todo.dueDate).toLocaleDateString("en-US", { month: "short", day: "numeric" })}
+                            </>
+                        )}
+                        {todo.recurrence && (
+                            <span title={describeRecurrence(todo.recurrence)} className="flex items-center">
+                                <Repeat className="size-3" />
+                            </span>
+                        )}
                     </p>
                 ) : (
                     <div />
@@ -0,0 +1,128 @@
+import { useState } from "react";
+import { Input } from "@/components/ui/input";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Check, X, type LucideIcon } from "lucide-react";
+import { useTheme } from "@/hooks/useTheme";
+import type { Todo } from "./todo-types";
+
+interface TodoPickerPillProps {
+    icon: LucideIcon;
+    label: string; // Shown when nothing is selected
+    candidates: Todo[];
+    selectedIds: string[];
+    multiple?: boolean;
+    onChange: (ids: string[]) => void;
+}
+
+/**
+ * Footer pill for linking a todo to other todos (parent, blockers).
+ */
+export function TodoPickerPill({ icon: Icon, label, candidates, selectedIds, multiple = false, onChange }: TodoPickerPillProps) {
+    const [open, setOpen] = useState(false);
+    const [query, setQuery] = useState("");
+    const { currentTheme } = useTheme();
+    const { styles } = currentTheme;
+
+    const selected = candidates.filter((t) => selectedIds.includes(t.id));
+    const filtered = candidates.filter((t) => t.title.toLowerCase().includes(query.trim().toLowerCase()));
+
+    let summary: string | null = null;
+    if (selected.length === 1) {
+        summary = selected[0]!.title;
+    } else if (selected.length > 1) {
+        summary = `${label} ${selected.length}`;
+    }
+
+    const toggle = (id: string) => {
+        if (selectedIds.includes(id)) {
+            onChange(selectedIds.filter((s) => s !== id));
+        } else {
+            onChange(multiple ? [...selectedIds, id] : [id]);
+        }
+        if (!multiple) {
+            setOpen(false);
+        }
+    };
+
+    return (
+        <Popover
+            open={open}
+            onOpenChange={(next) => {
+                setOpen(next);
+                if (!next) setQuery("");
+            }}
+        >
+            <PopoverTrigger asChild>
+                <button
+                    type="button"
+                    className="flex items-center gap-1.5 px-2 py-1.5 rounded-md text-sm font-medium transition-colors hover:opacity-80 focus:outline-none focus:ring-2 focus:ring-offset-1"
+                    style={{
+                        backgroundColor: styles.surfaceTertiary,
+                        color: summary ? styles.contentPrimary : styles.contentTertiary,
+                    }}
+                    title={selected.length > 0 ? selected.map((t) => t.title).join(", ") : label}
+                >
+                    <Icon className="size-4 shrink-0" />
+                    {summary && (
+                        <>
+                            <span className="truncate max-w-[100px]">{summary}</span>
+                            <button
+                                type="button"
+                                onClick={(e) => {
+                                    e.stopPropagation();
+                                    onChange([]);
+                                }}
+                                className="p-0.5 rounded-full hover:bg-black/10 transition-colors"
+                            >
+                                <X className="size-3" />
+                            </button>
+                        </>
+                    )}
+                </button>
+            </PopoverTrigger>
+            <PopoverContent
+                className="w-64 p-2 z-[100]"
+                align="start"
+                style={{
+                    backgroundColor: styles.surfacePrimary,
+                    borderColor: styles.borderDefault,
+                }}
+            >
+                <div className="space-y-2">
+                    <Input
+                        value={query}
+                        onChange={(e) => setQuery(e.target.value)}
+                        placeholder="Search todos..."
+                        className="h-9 text-sm"
+                        autoFocus
+                    />
+                    <div className="max-h-48 overflow-y-auto">
+                        {filtered.length === 0 && (
+                            <div className="px-2.5 py-2 text-sm" style={{ color: styles.contentTertiary }}>
+                                No todos
+                            </div>
+                        )}
+                        {filtered.map((todo) => {
+                            const isActive = selectedIds.includes(todo.id);
+                            return (
+                                <button
+                                    key={todo.id}
+                                    type="button"
+                                    onClick={() => toggle(todo.id)}
+                                    className="flex items-center gap-2 w-full px-2.5 py-2 rounded text-sm transition-colors text-left hover:opacity-80"
+                                    style={{
+                                        backgroundColor: isActive ? styles.surfaceTertiary : "transparent",
+                                        color: styles.contentPrimary,
+                                    }}
+                                >
+                                    <Check className="size-4 shrink-0" style={{ opacity: isActive ? 1 : 0 }} />
+                                    <span className="truncate">{todo.title}</span>
+                                </button>
+                            );
+                        })}
+                    </div>
+                </div>
+            </PopoverContent>
+        </Popover>
+    );
+}
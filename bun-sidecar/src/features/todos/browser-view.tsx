@@ -6,14 +6,17 @@ import { subscribe } from "@/lib/events";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
-import { AlertCircle, CheckCircle2, Clock, Calendar, Eye, EyeOff, MoreHorizontal, Archive, Search, Plus } from "lucide-react";
+import { AlertCircle, CheckCircle2, Clock, Calendar, Eye, EyeOff, MoreHorizontal, Archive, Search, Plus, ListFilter, Bookmark, Trash2 } from "lucide-react";
 import { toast } from "sonner";
 import { Input } from "@/components/ui/input";
 import { TodoCard } from "./TodoCard";
 import { CreateTodoDialog } from "./CreateTodoDialog";
 import { TaskCardEditor } from "./TaskCardEditor";
 import { TagFilter } from "./TagFilter";
-import { Todo } from "./todo-types";
+import { DeleteTodoDialog } from "./DeleteTodoDialog";
+import { SaveViewPopover } from "./SaveViewPopover";
+import { getDescendantIds, getOpenBlockers, getSubtaskProgress } from "./todo-tree";
+import { Todo, Recurrence } from "./todo-types";
 import type { Attachment } from "@/types/attachments";
 import { useWorkspaceContext } from "@/contexts/WorkspaceContext";
 import { useKeyboardShortcuts } from "@/hooks/useKeyboardShortcuts";
@@ -40,15 +43,22 @@ import {
 import { useDroppable } from "@dnd-kit/core";
 import { CSS } from "@dnd-kit/utilities";
 
-export function TodosBrowserView({ project, selectedTodoId: initialSelectedTodoId }: { project?: string | null; selectedTodoId?: string | null } = {}) {
+export function TodosBrowserView({
+    project,
+    selectedTodoId: initialSelectedTodoId,
+    viewId,
+}: { project?: string | null; selectedTodoId?: string | null; viewId?: string | null } = {}) {
     // Support both 'project' and 'filterProject' prop names for backward compatibility
     const filterProject = project;
     const { loading, setLoading } = usePlugin();
-    const { activeTab, setTabName, openTab, getProjectPreferences, setProjectPreferences } = useWorkspaceContext();
+    const { activeTab, setTabName, openTab, getProjectPreferences, setProjectPreferences, todoViews, saveTodoView, deleteTodoView } = useWorkspaceContext();
+    const savedView = viewId ? todoViews.find(v => v.id === viewId) : undefined;
     const { currentTheme } = useTheme();
 
     const todosAPI = useTodosAPI();
     const [todos, setTodos] = useState<Todo[]>([]);
+    // Unfiltered todos, used to resolve parents, subtasks and blockers when a query is active
+    const [allTodos, setAllTodos] = useState<Todo[]>([]);
     const [availableTags, setAvailableTags] = useState<string[]>([]);
     const [availableProjects, setAvailableProjects] = useState<string[]>([]);
     const [selectedTags, setSelectedTags] = useState<string[]>([]);
@@ -56,6 +66,7 @@ export function TodosBrowserView({ project, selectedTodoId: initialSelectedTodoI
     const [editDialogOpen, setEditDialogOpen] = useState(false);
     const [todoToEdit, setTodoToEdit] = useState<Todo | null>(null);
     const [editSaving, setEditSaving] = useState(false);
+    const [cascadeTarget, setCascadeTarget] = useState<{ todo: Todo; action: "delete" | "archive" } | null>(null);
     const hasSetTabNameRef = useRef<boolean>(false);
 
     // Derive the project key for preferences storage
@@ -73,6 +84,7 @@ export function TodosBrowserView({ project, selectedTodoId: initialSelectedTodoI
         tags: string[];
         dueDate?: string;
         attachments?: Attachment[];
+        recurrence?: Recurrence;
     }>({
         title: "",
         description: "",
@@ -85,6 +97,13 @@ export function TodosBrowserView({ project, selectedTodoId: initialSelectedTodoI
 
     // Search and keyboard navigation state
     const [searchQuery, setSearchQuery] = useState("");
+    // Query language filter, evaluated on the server (see todo-query.ts)
+    const [filterQuery, setFilterQuery] = useState(savedView?.query ?? "");
+    const [appliedQuery, setAppliedQuery] = useState(savedView?.query ?? "");
+    const [queryErrors, setQueryErrors] = useState<string[]>([]);
+
+    // Optimistic updates only touch `todos`, so use it for relations unless a query narrowed it down
+    const relatedTodos = appliedQuery.trim() ? allTodos : todos;
     const [selectedTodoId, setSelectedTodoId] = useState<string | null>(initialSelectedTodoId ?? null);
     const searchInputRef = useRef<HTMLInputElement>(null);
 
@@ -126,7 +145,9 @@ export function TodosBrowserView({ project, selectedTodoId: initialSelectedTodoI
     useEffect(() => {
         if (activeTab && activeTab.pluginInstance.plugin.id === "todos" && !hasSetTabNameRef.current) {
             let tabName = "Todos";
-            if (filterProject && filterProject !== "") {
+            if (savedView) {
+                tabName = savedView.name;
+            } else if (filterProject && filterProject !== "") {
                 tabName = `Todos: ${filterProject}`;
             } else if (filterProject === "") {
                 tabName = "Todos: No Project";
@@ -135,7 +156,21 @@ export function TodosBrowserView({ project, selectedTodoId: initialSelectedTodoI
             setTabName(activeTab.id, tabName);
             hasSetTabNameRef.current = true;
         }
-    }, [activeTab, filterProject, setTabName]); // Dependencies are fine since we check hasSetTabNameRef
+    }, [activeTab, filterProject, savedView, setTabName]); // Dependencies are fine since we check hasSetTabNameRef
+
+    // Follow edits to the saved view's query
+    useEffect(() => {
+        if (savedView) {
+            setFilterQuery(savedView.query);
+            setAppliedQuery(savedView.query);
+        }
+    }, [savedView?.query]); // eslint-disable-line react-hooks/exhaustive-deps
+
+    // Debounce the filter so the server isn't queried on every keystroke
+    useEffect(() => {
+        const timer = setTimeout(() => setAppliedQuery(filterQuery), 300);
+        return () => clearTimeout(timer);
+    }, [filterQuery]);
 
     // Update the project field when filterProject changes
     useEffect(() => {
@@ -182,7 +217,16 @@ export function TodosBrowserView({ project, selectedTodoId: initialSelectedTodoI
                 // The getTodos API should already filter out archived items, but let's be explicit
                 const activeTodos = todosData.filter(t => !t.archived);
 
-                setTodos(activeTodos);
+                if (appliedQuery.trim()) {
+                    // The query decides which todos (including archived ones) are on the board
+                    const result = await todosAPI.queryTodos({ query: appliedQuery, project: filterProject ?? undefined });
+                    setTodos(result.todos);
+                    setQueryErrors(result.errors);
+                } else {
+                    setTodos(activeTodos);
+                    setQueryErrors([]);
+                }
+                setAllTodos(activeTodos);
 
                 // Reload tags and projects after todos change
                 await Promise.all([loadTags(), loadProjects()]);
@@ -192,13 +236,20 @@ export function TodosBrowserView({ project, selectedTodoId: initialSelectedTodoI
                 setLoading(false);
             }
         },
-        [todosAPI, setLoading, filterProject, loadTags, loadProjects]
+        [todosAPI, setLoading, filterProject, appliedQuery, loadTags, loadProjects]
     );
 
     useEffect(() => {
         loadTodos();
     }, [loadTodos]);
 
+    // Completing a recurring todo creates its next occurrence on the server, so pick it up
+    const reloadIfRecurred = useCallback(async (updated: Todo) => {
+        if (updated.status === "done" && updated.recurrence) {
+            await loadTodos();
+        }
+    }, [loadTodos]);
+
     async function createTodo() {
         if (!newTodo.title.trim()) return;
 
@@ -212,6 +263,7 @@ export function TodosBrowserView({ project, selectedTodoId: initialSelectedTodoI
                 tags: newTodo.tags.length > 0 ? newTodo.tags : undefined,
                 dueDate: newTodo.dueDate,
                 attachments: newTodo.attachments,
+                recurrence: newTodo.recurrence,
             });
 
             // Keep the project populated if viewing from a project
@@ -224,6 +276,7 @@ export function TodosBrowserView({ project, selectedTodoId: initialSelectedTodoI
                 tags: [],
                 dueDate: undefined,
                 attachments: undefined,
+                recurrence: undefined,
             });
             setCreateDialogOpen(false);
             await loadTodos();
@@ -260,6 +313,9 @@ export function TodosBrowserView({ project, selectedTodoId: initialSelectedTodoI
                     tags: updatedTodo.tags,
                     dueDate: updatedTodo.dueDate,
                     attachments: updatedTodo.attachments,
+                    recurrence: updatedTodo.recurrence ?? null,
+                    parentId: updatedTodo.parentId ?? null,
+                    blockedBy: updatedTodo.blockedBy ?? [],
                 },
             });
             setEditDialogOpen(false);
@@ -267,11 +323,66 @@ export function TodosBrowserView({ project, selectedTodoId: initialSelectedTodoI
             await loadTodos();
         } catch (error) {
             console.error("Failed to save todo:", error);
+            toast.error("Failed to save todo");
         } finally {
             setEditSaving(false);
         }
     };
 
+    const handleAddSubtask = async (parent: Todo, title: string) => {
+        try {
+            await todosAPI.createTodo({
+                title,
+                project: parent.project,
+                parentId: parent.id,
+            });
+            await loadTodos();
+        } catch (error) {
+            console.error("Failed to add subtask:", error);
+            toast.error("Failed to add subtask");
+        }
+    };
+
+    const handleToggleSubtask = async (subtask: Todo) => {
+        try {
+            await todosAPI.updateTodo({
+                todoId: subtask.id,
+                updates: { status: subtask.status === "done" ? "todo" : "done" },
+            });
+            await loadTodos();
+        } catch (error) {
+            console.error("Failed to update subtask:", error);
+            toast.error("Failed to update subtask");
+        }
+    };
+
+    const openSavedView = (id: string) => {
+        openTab({
+            pluginMeta: { id: "todos", name: "Todos", icon: "list-todo" },
+            view: "browser",
+            props: { viewId: id },
+        });
+    };
+
+    // Saved views are board-independent, so carry the current project into the query
+    const handleSaveView = (name: string) => {
+        let query = filterQuery.trim();
+        if (filterProject) {
+            query = `project:"${filterProject}" ${query}`;
+        } else if (filterProject === "") {
+            query = `project:none ${query}`;
+        }
+        const view = saveTodoView({ name, query });
+        toast.success(`Saved view "${name}"`);
+        openSavedView(view.id);
+    };
+
+    const handleUpdateSavedView = () => {
+        if (!savedView) return;
+        saveTodoView({ ...savedView, query: filterQuery.trim() });
+        toast.success(`Updated view "${savedView.name}"`);
+    };
+
     const openArchivedView = () => {
         openTab({
             pluginMeta: { id: "todos", name: "Todos", icon: "list-todo" },
@@ -334,10 +445,11 @@ export function TodosBrowserView({ project, selectedTodoId: initialSelectedTodoI
 
                 // Then sync with server
                 try {
-                    await todosAPI.updateTodo({
+                    const updated = await todosAPI.updateTodo({
                         todoId: activeId,
                         updates: { status: newStatus },
                     });
+                    await reloadIfRecurred(updated);
                 } catch (error) {
                     console.error("Failed to update todo status:", error);
                     // Revert on error
@@ -393,10 +505,11 @@ export function TodosBrowserView({ project, selectedTodoId: initialSelectedTodoI
 
                 try {
                     // Update status first
-                    await todosAPI.updateTodo({
+                    const updated = await todosAPI.updateTodo({
                         todoId: activeId,
                         updates: { status: targetStatus },
                     });
+                    await reloadIfRecurred(updated);
                     // Then reorder
                     await todosAPI.reorderTodos({ reorders });
                 } catch (error) {
@@ -443,7 +556,7 @@ export function TodosBrowserView({ project, selectedTodoId: initialSelectedTodoI
             // Reload todos to ensure consistent state
             await loadTodos();
         }
-    }, [todos, todosAPI, loadTodos]);
+    }, [todos, todosAPI, loadTodos, reloadIfRecurred]);
 
     const handleTagToggle = (tag: string) => {
         setSelectedTags((prev) =>
@@ -526,8 +639,15 @@ export function TodosBrowserView({ project, selectedTodoId: initialSelectedTodoI
         return null;
     }, [columnOrder, todosByStatus]);
 
-    // Shared delete function with optimistic update and toast (no confirmation dialog)
-    const deleteTodoWithToast = useCallback(async (todo: Todo) => {
+    // Shared delete function with optimistic update and toast.
+    // Todos with subtasks are confirmed first and then deleted together with their subtasks.
+    const deleteTodoWithToast = useCallback(async (todo: Todo, cascade = false) => {
+        const subtaskIds = getDescendantIds(relatedTodos, todo.id);
+        if (subtaskIds.length > 0 && !cascade) {
+            setCascadeTarget({ todo, action: "delete" });
+            return;
+        }
+
         // Find next item to select if this todo is currently selected
         let nextSelectedId: string | null = null;
         if (selectedTodoId === todo.id) {
@@ -542,17 +662,23 @@ export function TodosBrowserView({ project, selectedTodoId: initialSelectedTodoI
         }
 
         // Optimistic update - remove from list
-        setTodos(prev => prev.filter(t => t.id !== todo.id));
+        const removedIds = new Set([todo.id, ...subtaskIds]);
+        setTodos(prev => prev.filter(t => !removedIds.has(t.id)));
         if (selectedTodoId === todo.id) {
             setSelectedTodoId(nextSelectedId);
         }
 
         try {
-            await todosAPI.deleteTodo({ todoId: todo.id });
+            await todosAPI.deleteTodo({ todoId: todo.id, cascade });
 
             const truncatedTitle = todo.title.length > 30
                 ? todo.title.slice(0, 30) + "…"
                 : todo.title;
+            if (cascade) {
+                toast(`Deleted "${truncatedTitle}" and ${subtaskIds.length} subtask${subtaskIds.length === 1 ? "" : "s"}`);
+                await loadTodos();
+                return;
+            }
             toast(`Deleted "${truncatedTitle}"`, {
                 action: {
                     label: "Undo",
@@ -567,6 +693,8 @@ export function TodosBrowserView({ project, selectedTodoId: initialSelectedTodoI
                                 tags: todo.tags,
                                 dueDate: todo.dueDate,
                                 attachments: todo.attachments,
+                                recurrence: todo.recurrence,
+                                parentId: todo.parentId,
                             });
                             await loadTodos();
                             toast.success("Restored");
@@ -582,10 +710,17 @@ export function TodosBrowserView({ project, selectedTodoId: initialSelectedTodoI
             toast.error("Failed to delete");
             await loadTodos();
         }
-    }, [selectedTodoId, getTodoPosition, todosByStatus, todosAPI, loadTodos]);
+    }, [relatedTodos, selectedTodoId, getTodoPosition, todosByStatus, todosAPI, loadTodos]);
+
+    // Shared archive function with optimistic update and toast.
+    // Todos with subtasks are confirmed first and then archived together with their subtasks.
+    const archiveTodoWithToast = useCallback(async (todo: Todo, cascade = false) => {
+        const subtaskIds = getDescendantIds(relatedTodos, todo.id);
+        if (subtaskIds.length > 0 && !cascade) {
+            setCascadeTarget({ todo, action: "archive" });
+            return;
+        }
 
-    // Shared archive function with optimistic update and toast
-    const archiveTodoWithToast = useCallback(async (todo: Todo) => {
         // Find next item to select if this todo is currently selected
         let nextSelectedId: string | null = null;
         if (selectedTodoId === todo.id) {
@@ -600,13 +735,14 @@ export function TodosBrowserView({ project, selectedTodoId: initialSelectedTodoI
         }
 
         // Optimistic update - remove from list
-        setTodos(prev => prev.filter(t => t.id !== todo.id));
+        const removedIds = new Set([todo.id, ...subtaskIds]);
+        setTodos(prev => prev.filter(t => !removedIds.has(t.id)));
         if (selectedTodoId === todo.id) {
             setSelectedTodoId(nextSelectedId);
         }
 
         try {
-            await todosAPI.archiveTodo({ todoId: todo.id });
+            await todosAPI.archiveTodo({ todoId: todo.id, cascade });
 
             const truncatedTitle = todo.title.length > 30
                 ? todo.title.slice(0, 30) + "…"
@@ -616,7 +752,7 @@ export function TodosBrowserView({ project, selectedTodoId: initialSelectedTodoI
                     label: "Undo",
                     onClick: async () => {
                         try {
-                            await todosAPI.unarchiveTodo({ todoId: todo.id });
+                            await todosAPI.unarchiveTodo({ todoId: todo.id, cascade });
                             await loadTodos();
                             setSelectedTodoId(todo.id);
                             toast.success("Restored");
@@ -632,7 +768,18 @@ export function TodosBrowserView({ project, selectedTodoId: initialSelectedTodoI
             toast.error("Failed to archive");
             await loadTodos();
         }
-    }, [selectedTodoId, getTodoPosition, todosByStatus, todosAPI, loadTodos]);
+    }, [relatedTodos, selectedTodoId, getTodoPosition, todosByStatus, todosAPI, loadTodos]);
+
+    const confirmCascade = useCallback(async () => {
+        if (!cascadeTarget) return;
+        const { todo, action } = cascadeTarget;
+        setCascadeTarget(null);
+        if (action === "delete") {
+            await deleteTodoWithToast(todo, true);
+        } else {
+            await archiveTodoWithToast(todo, true);
+        }
+    }, [cascadeTarget, deleteTodoWithToast, archiveTodoWithToast]);
 
     // Update selection when filtered todos change
     useEffect(() => {
@@ -816,15 +963,16 @@ export function TodosBrowserView({ project, selectedTodoId: initialSelectedTodoI
         ));
 
         try {
-            await todosAPI.updateTodo({
+            const updated = await todosAPI.updateTodo({
                 todoId: selectedTodoId,
                 updates: { status: nextCol },
             });
+            await reloadIfRecurred(updated);
         } catch (error) {
             console.error("Failed to move todo:", error);
             await loadTodos();
         }
-    }, [selectedTodoId, getTodoPosition, columnOrder, todosAPI, loadTodos]);
+    }, [selectedTodoId, getTodoPosition, columnOrder, todosAPI, loadTodos, reloadIfRecurred]);
 
     const moveLeft = useCallback(async () => {
         if (!selectedTodoId) return;
@@ -842,15 +990,16 @@ export function TodosBrowserView({ project, selectedTodoId: initialSelectedTodoI
         ));
 
         try {
-            await todosAPI.updateTodo({
+            const updated = await todosAPI.updateTodo({
                 todoId: selectedTodoId,
                 updates: { status: prevCol },
             });
+            await reloadIfRecurred(updated);
         } catch (error) {
             console.error("Failed to move todo:", error);
             await loadTodos();
         }
-    }, [selectedTodoId, getTodoPosition, columnOrder, todosAPI, loadTodos]);
+    }, [selectedTodoId, getTodoPosition, columnOrder, todosAPI, loadTodos, reloadIfRecurred]);
 
     // Archive selected todo (keyboard shortcut handler - uses shared function)
     const archiveSelected = useCallback(async () => {
@@ -1161,9 +1310,12 @@ export function TodosBrowserView({ project, selectedTodoId: initialSelectedTodoI
                         todo={todo}
                         selected={isSelected}
                         onEdit={(t) => handleOpenTodo(t.id)}
-                        onDelete={deleteTodoWithToast}
-                        onArchive={archiveTodoWithToast}
+                        onDelete={(t) => deleteTodoWithToast(t)}
+                        onArchive={(t) => archiveTodoWithToast(t)}
                         hideProject={hideProject}
+                        blockers={getOpenBlockers(relatedTodos, todo)}
+                        subtaskProgress={getSubtaskProgress(relatedTodos, todo.id)}
+                        parentTitle={todo.parentId ? relatedTodos.find((t) => t.id === todo.parentId)?.title : undefined}
                     />
                 </div>
             </div>
@@ -1332,8 +1484,41 @@ export function TodosBrowserView({ project, selectedTodoId: initialSelectedTodoI
                             className="pl-8 h-9"
                         />
                     </div>
+                    <div className="relative w-72">
+                        <ListFilter className="absolute left-2 top-1/2 -translate-y-1/2 h-4 w-4" style={{ color: currentTheme.styles.contentTertiary }} />
+                        <Input
+                            placeholder="Filter: status:todo due:<7d #work"
+                            value={filterQuery}
+                            onChange={(e) => setFilterQuery(e.target.value)}
+                            onKeyDown={(e) => {
+                                if (e.key === "Enter") {
+                                    e.preventDefault();
+                                    setAppliedQuery(filterQuery);
+                                } else if (e.key === "Escape" && filterQuery && !savedView) {
+                                    e.preventDefault();
+                                    setFilterQuery("");
+                                }
+                            }}
+                            title={queryErrors.length > 0 ? queryErrors.join("\n") : "overdue, blocked, recurring, archived, status:, project:, tag:, due:<7d, -tag:x"}
+                            style={{
+                                color: currentTheme.styles.contentPrimary,
+                                borderColor: queryErrors.length > 0 ? currentTheme.styles.semanticDestructive : undefined,
+                            }}
+                            className="pl-8 h-9 font-mono text-xs"
+                        />
+                    </div>
                 </div>
                 <div className="flex items-center gap-2">
+                    {savedView ? (
+                        filterQuery.trim() !== savedView.query.trim() && (
+                            <Button variant="outline" size="sm" onClick={handleUpdateSavedView}>
+                                <Bookmark className="w-4 h-4 mr-2" />
+                                Update View
+                            </Button>
+                        )
+                    ) : (
+                        filterQuery.trim() && <SaveViewPopover onSave={handleSaveView} />
+                    )}
                     <TagFilter
                         availableTags={availableTags}
                         selectedTags={selectedTags}
@@ -1375,6 +1560,28 @@ export function TodosBrowserView({ project, selectedTodoId: initialSelectedTodoI
                                 {showLaterColumn ? <EyeOff className="w-4 h-4 mr-2" /> : <Eye className="w-4 h-4 mr-2" />}
                                 {showLaterColumn ? "Hide Later Column" : "Show Later Column"}
                             </DropdownMenuItem>
+                            {todoViews.map((view) => (
+                                <DropdownMenuItem
+                                    key={view.id}
+                                    onClick={() => openSavedView(view.id)}
+                                    style={{ color: currentTheme.styles.contentPrimary }}
+                                >
+                                    <Bookmark className="w-4 h-4 mr-2" />
+                                    {view.name}
+                                </DropdownMenuItem>
+                            ))}
+                            {savedView && (
+                                <DropdownMenuItem
+                                    onClick={() => {
+                                        deleteTodoView(savedView.id);
+                                        toast(`Deleted view "${savedView.name}"`);
+                                    }}
+                                    style={{ color: currentTheme.styles.contentPrimary }}
+                                >
+                                    <Trash2 className="w-4 h-4 mr-2" />
+                                    Delete This View
+                                </DropdownMenuItem>
+                            )}
                         </DropdownMenuContent>
                     </DropdownMenu>
                 </div>
@@ -1439,8 +1646,29 @@ export function TodosBrowserView({ project, selectedTodoId: initialSelectedTodoI
                 </DragOverlay>
             </DndContext>
 
+            {/* Cascade confirmation for todos with subtasks */}
+            <DeleteTodoDialog
+                open={!!cascadeTarget}
+                onOpenChange={(open) => !open && setCascadeTarget(null)}
+                onConfirmDelete={confirmCascade}
+                onCancel={() => setCascadeTarget(null)}
+                action={cascadeTarget?.action}
+                subtaskCount={cascadeTarget ? getDescendantIds(relatedTodos, cascadeTarget.todo.id).length : 0}
+            />
+
             {/* Edit Todo Modal */}
-            <TaskCardEditor todo={todoToEdit} open={editDialogOpen} onOpenChange={setEditDialogOpen} onSave={handleSaveTodo} saving={editSaving} availableTags={availableTags} availableProjects={availableProjects} />
+            <TaskCardEditor
+                todo={todoToEdit}
+                open={editDialogOpen}
+                onOpenChange={setEditDialogOpen}
+                onSave={handleSaveTodo}
+                saving={editSaving}
+                availableTags={availableTags}
+                availableProjects={availableProjects}
+                availableTodos={relatedTodos}
+                onAddSubtask={handleAddSubtask}
+                onToggleSubtask={handleToggleSubtask}
+            />
         </div>
     );
 }
@@ -2,7 +2,11 @@ import { TypedPluginWithFunctions } from "@/types/Plugin";
 import { functionStubs, TodosPluginBase } from "./index";
 import { FunctionsFromStubs } from "@/types/Functions";
 import { createServiceLogger } from "@/lib/logger";
-import { Todo } from "./todo-types";
+import { Todo, Recurrence } from "./todo-types";
+import { getNextOccurrence } from "./recurrence";
+import { buildTodoTree, getDescendantIds, wouldCreateParentCycle, findDependencyCycle } from "./todo-tree";
+import { parseTodoQuery, evaluateTodoQuery } from "./todo-query";
+import { toLocalDateString } from "@/features/notes/date-utils";
 import { FileDatabase } from "@/storage/FileDatabase";
 import path from "path";
 import { getTodosPath, hasActiveWorkspace } from "@/storage/root-path";
@@ -34,7 +38,7 @@ function getDb(): FileDatabase<Todo> {
     return todosDb;
 }
 
-async function getTodos(input: { project?: string }) {
+async function getTodos(input: { project?: string; tree?: boolean }) {
     todosLogger.info(`Getting todos${input.project !== undefined ? ` for project: ${input.project || 'No Project'}` : ''}`);
     
     try {
@@ -61,13 +65,40 @@ async function getTodos(input: { project?: string }) {
         });
 
         todosLogger.info(`Retrieved ${activeTodos.length} todos`);
-        return activeTodos;
+        return input.tree ? buildTodoTree(activeTodos) : activeTodos;
     } catch (error) {
         todosLogger.error(`Failed to get todos`, { error });
         throw error;
     }
 }
 
+async function queryTodos(input: { query: string; project?: string }) {
+    todosLogger.info(`Querying todos: ${input.query}`);
+
+    try {
+        const todos = await getDb().findAll();
+        const today = toLocalDateString(new Date());
+        const parsed = parseTodoQuery(input.query, today);
+
+        let matches = evaluateTodoQuery(todos, parsed, today);
+
+        // Same project semantics as getTodos ("" means no project)
+        if (input.project !== undefined) {
+            matches = input.project === ""
+                ? matches.filter(t => !t.project || t.project.trim() === "")
+                : matches.filter(t => t.project === input.project);
+        }
+
+        matches.sort((a, b) => (a.order ?? Number.MAX_SAFE_INTEGER) - (b.order ?? Number.MAX_SAFE_INTEGER));
+
+        todosLogger.info(`Query matched ${matches.length} todos`);
+        return { todos: matches, errors: parsed.errors };
+    } catch (error) {
+        todosLogger.error(`Failed to query todos`, { error });
+        throw error;
+    }
+}
+
 async function getTodoById(input: { todoId: string }) {
     todosLogger.info(`Getting todo by ID: ${input.todoId}`);
     
@@ -87,6 +118,38 @@ async function getTodoById(input: { todoId: string }) {
     }
 }
 
+/**
+ * Check that a todo's parent and blockers exist and don't form a cycle.
+ */
+async function validateRelations(todoId: string, relations: { parentId?: string; blockedBy?: string[] }) {
+    if (!relations.parentId && !relations.blockedBy?.length) {
+        return;
+    }
+
+    const todos = await getDb().findAll();
+    const titleOf = (id: string) => todos.find(t => t.id === id)?.title ?? id;
+
+    if (relations.parentId) {
+        if (!todos.some(t => t.id === relations.parentId)) {
+            throw new Error(`Parent todo ${relations.parentId} not found`);
+        }
+        if (wouldCreateParentCycle(todos, todoId, relations.parentId)) {
+            throw new Error(`"${titleOf(todoId)}" cannot be a subtask of itself or its own subtasks`);
+        }
+    }
+
+    if (relations.blockedBy?.length) {
+        const missing = relations.blockedBy.find(id => id !== todoId && !todos.some(t => t.id === id));
+        if (missing) {
+            throw new Error(`Blocking todo ${missing} not found`);
+        }
+        const cycle = findDependencyCycle(todos, todoId, relations.blockedBy);
+        if (cycle) {
+            throw new Error(`Dependency cycle: ${cycle.map(titleOf).join(" → ")}`);
+        }
+    }
+}
+
 async function createTodo(input: {
     title: string;
     description?: string;
@@ -95,10 +158,16 @@ async function createTodo(input: {
     tags?: string[];
     dueDate?: string;
     attachments?: Attachment[];
+    recurrence?: Recurrence;
+    parentId?: string;
+    blockedBy?: string[];
 }) {
     todosLogger.info(`Creating new todo: ${input.title}`);
 
     try {
+        const id = `todo-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+        await validateRelations(id, input);
+
         // Get existing todos to determine next order
         const existingTodos = await getDb().findAll();
         const status = input.status || "todo";
@@ -111,7 +180,7 @@ async function createTodo(input: {
 
         const now = new Date().toISOString();
         const newTodo: Todo = {
-            id: `todo-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+            id,
             title: input.title,
             description: input.description,
             status: status,
@@ -123,6 +192,9 @@ async function createTodo(input: {
             tags: input.tags,
             dueDate: input.dueDate,
             attachments: input.attachments,
+            recurrence: input.recurrence,
+            parentId: input.parentId,
+            blockedBy: input.blockedBy,
         };
 
         const created = await getDb().create(newTodo);
@@ -147,20 +219,36 @@ async function updateTodo(input: {
         tags?: string[];
         dueDate?: string;
         attachments?: Attachment[];
+        recurrence?: Recurrence | null; // null removes the rule
+        parentId?: string | null; // null detaches from the parent
+        blockedBy?: string[];
     };
 }) {
     todosLogger.info(`Updating todo: ${input.todoId}`);
 
     try {
-        let updates = {
-            ...input.updates,
+        const { recurrence, parentId, ...fields } = input.updates;
+        let updates: Partial<Todo> = {
+            ...fields,
             updatedAt: new Date().toISOString(),
         };
+        if (recurrence !== undefined) {
+            updates.recurrence = recurrence ?? undefined;
+        }
+        if (parentId !== undefined) {
+            updates.parentId = parentId ?? undefined;
+        }
+
+        await validateRelations(input.todoId, { parentId: updates.parentId, blockedBy: updates.blockedBy });
+
+        let isCompleting = false;
 
         // If status is changing, assign new order for the target status
         if (input.updates.status) {
             const currentTodo = await getDb().findById(input.todoId);
             if (currentTodo && currentTodo.status !== input.updates.status) {
+                isCompleting = input.updates.status === "done";
+
                 // Get existing todos to determine next order for new status
                 const existingTodos = await getDb().findAll();
                 const todosInNewStatus = existingTodos.filter(t =>
@@ -175,12 +263,20 @@ async function updateTodo(input: {
             }
         }
 
-        const updated = await getDb().update(input.todoId, updates);
+        let updated = await getDb().update(input.todoId, updates);
         
         if (!updated) {
             todosLogger.warn(`Todo not found for update: ${input.todoId}`);
             throw new Error(`Todo with ID ${input.todoId} not found`);
         }
+
+        // Completing a recurring todo schedules the next one (once per todo)
+        if (isCompleting && updated.recurrence && !updated.nextOccurrenceId) {
+            const next = await createNextOccurrence(updated);
+            if (next) {
+                updated = (await getDb().update(input.todoId, { nextOccurrenceId: next.id })) ?? updated;
+            }
+        }
         
         todosLogger.info(`Updated todo: ${input.todoId}`);
         return updated;
@@ -190,16 +286,83 @@ async function updateTodo(input: {
     }
 }
 
-async function deleteTodo(input: { todoId: string }) {
-    todosLogger.info(`Deleting todo: ${input.todoId}`);
+/**
+ * Create the follow-up todo for a completed recurring todo.
+ * The completed todo is left in place as history; the new one carries the rule forward.
+ */
+async function createNextOccurrence(todo: Todo): Promise<Todo | null> {
+    if (!todo.recurrence) {
+        return null;
+    }
+
+    const occurrence = todo.occurrence ?? 1;
+    const dueDate = getNextOccurrence({
+        recurrence: todo.recurrence,
+        after: todo.dueDate ?? toLocalDateString(new Date()),
+        occurrence,
+    });
+    if (!dueDate) {
+        todosLogger.info(`Recurring series ended for todo: ${todo.id}`);
+        return null;
+    }
+
+    const created = await createTodo({
+        title: todo.title,
+        description: todo.description,
+        project: todo.project,
+        tags: todo.tags,
+        dueDate,
+        attachments: todo.attachments,
+        recurrence: todo.recurrence,
+        parentId: todo.parentId,
+    });
+    const next = await getDb().update(created.id, {
+        seriesId: todo.seriesId ?? todo.id,
+        occurrence: occurrence + 1,
+    });
+
+    todosLogger.info(`Created next occurrence ${created.id} due ${dueDate}`);
+    return next ?? created;
+}
+
+async function deleteTodo(input: { todoId: string; cascade?: boolean }) {
+    todosLogger.info(`Deleting todo: ${input.todoId}${input.cascade ? " with subtasks" : ""}`);
     
     try {
+        const todos = await getDb().findAll();
         const deleted = await getDb().delete(input.todoId);
         
         if (!deleted) {
             todosLogger.warn(`Todo not found for deletion: ${input.todoId}`);
             throw new Error(`Todo with ID ${input.todoId} not found`);
         }
+
+        const removedIds = new Set([input.todoId]);
+        if (input.cascade) {
+            for (const id of getDescendantIds(todos, input.todoId)) {
+                await getDb().delete(id);
+                removedIds.add(id);
+            }
+        }
+
+        // Detach orphaned subtasks and drop dependencies on removed todos
+        const now = new Date().toISOString();
+        for (const todo of todos) {
+            if (removedIds.has(todo.id)) continue;
+            const orphaned = todo.parentId !== undefined && removedIds.has(todo.parentId);
+            const blockedBy = todo.blockedBy?.filter(id => !removedIds.has(id));
+            if (orphaned || blockedBy?.length !== todo.blockedBy?.length) {
+                await getDb().update(todo.id, {
+                    parentId: orphaned ? undefined : todo.parentId,
+                    blockedBy: blockedBy?.length ? blockedBy : undefined,
+                    updatedAt: now,
+                });
+            }
+        }
+
+        if (removedIds.size > 1) {
+            todosLogger.info(`Deleted ${removedIds.size - 1} subtasks of ${input.todoId}`);
+        }
         
         todosLogger.info(`Deleted todo: ${input.todoId}`);
         return { success: true };
@@ -255,13 +418,14 @@ async function reorderTodos(input: {
     }
 }
 
-async function archiveTodo(input: { todoId: string }) {
-    todosLogger.info(`Archiving todo: ${input.todoId}`);
+async function archiveTodo(input: { todoId: string; cascade?: boolean }) {
+    todosLogger.info(`Archiving todo: ${input.todoId}${input.cascade ? " with subtasks" : ""}`);
 
     try {
+        const now = new Date().toISOString();
         const updated = await getDb().update(input.todoId, {
             archived: true,
-            updatedAt: new Date().toISOString(),
+            updatedAt: now,
         });
 
         if (!updated) {
@@ -269,6 +433,14 @@ async function archiveTodo(input: { todoId: string }) {
             throw new Error(`Todo with ID ${input.todoId} not found`);
         }
 
+        if (input.cascade) {
+            const descendantIds = getDescendantIds(await getDb().findAll(), input.todoId);
+            for (const id of descendantIds) {
+                await getDb().update(id, { archived: true, updatedAt: now });
+            }
+            todosLogger.info(`Archived ${descendantIds.length} subtasks of ${input.todoId}`);
+        }
+
         todosLogger.info(`Archived todo: ${input.todoId}`);
         return updated;
     } catch (error) {
@@ -277,13 +449,14 @@ async function archiveTodo(input: { todoId: string }) {
     }
 }
 
-async function unarchiveTodo(input: { todoId: string }) {
-    todosLogger.info(`Unarchiving todo: ${input.todoId}`);
+async function unarchiveTodo(input: { todoId: string; cascade?: boolean }) {
+    todosLogger.info(`Unarchiving todo: ${input.todoId}${input.cascade ? " with subtasks" : ""}`);
 
     try {
+        const now = new Date().toISOString();
         const updated = await getDb().update(input.todoId, {
             archived: false,
-            updatedAt: new Date().toISOString(),
+            updatedAt: now,
         });
 
         if (!updated) {
@@ -291,6 +464,14 @@ async function unarchiveTodo(input: { todoId: string }) {
             throw new Error(`Todo with ID ${input.todoId} not found`);
         }
 
+        if (input.cascade) {
+            const descendantIds = getDescendantIds(await getDb().findAll(), input.todoId);
+            for (const id of descendantIds) {
+                await getDb().update(id, { archived: false, updatedAt: now });
+            }
+            todosLogger.info(`Unarchived ${descendantIds.length} subtasks of ${input.todoId}`);
+        }
+
         todosLogger.info(`Unarchived todo: ${input.todoId}`);
         return updated;
     } catch (error) {
@@ -368,6 +549,7 @@ async function getTags() {
 const functions: FunctionsFromStubs<typeof functionStubs> = {
     getTodos: { ...functionStubs.getTodos, fx: getTodos },
     getTodoById: { ...functionStubs.getTodoById, fx: getTodoById },
+    queryTodos: { ...functionStubs.queryTodos, fx: queryTodos },
     createTodo: { ...functionStubs.createTodo, fx: createTodo },
     updateTodo: { ...functionStubs.updateTodo, fx: updateTodo },
     deleteTodo: { ...functionStubs.deleteTodo, fx: deleteTodo },
@@ -399,4 +581,4 @@ export default TodosPlugin;
 export const TodosPluginWithFunctions = TodosPlugin;
 
 // Export individual functions for MCP
-export { getTodos, createTodo, updateTodo, deleteTodo, getTodoById, getProjects, reorderTodos, archiveTodo, unarchiveTodo, getArchivedTodos, getTags };
\ No newline at end of file
+export { getTodos, queryTodos, createTodo, updateTodo, deleteTodo, getTodoById, getProjects, reorderTodos, archiveTodo, unarchiveTodo, getArchivedTodos, getTags };
\ No newline at end of file
@@ -5,7 +5,7 @@ import { TodosBrowserView } from "./browser-view";
 import { ProjectBrowserView } from "./ProjectBrowserView";
 import { ArchivedBrowserView } from "./archived-view";
 import { FunctionStubs } from "@/types/Functions";
-import { TodoSchema } from "./todo-types";
+import { TodoSchema, TodoTreeNodeSchema, RecurrenceSchema } from "./todo-types";
 import { AttachmentSchema } from "@/types/attachments";
 
 // Export the commands function for use in CommandMenu
@@ -15,8 +15,19 @@ export const functionStubs = {
     getTodos: {
         input: z.object({
             project: z.string().optional(),
+            tree: z.boolean().optional(), // Nest subtasks under their parents
+        }),
+        output: z.union([z.array(TodoSchema), z.array(TodoTreeNodeSchema)]),
+    },
+    queryTodos: {
+        input: z.object({
+            query: z.string(),
+            project: z.string().optional(),
+        }),
+        output: z.object({
+            todos: z.array(TodoSchema),
+            errors: z.array(z.string()), // Clauses that could not be parsed
         }),
-        output: z.array(TodoSchema),
     },
     getProjects: {
         input: z.object({}),
@@ -35,6 +46,9 @@ export const functionStubs = {
             tags: z.array(z.string()).optional(),
             dueDate: z.string().optional(),
             attachments: z.array(AttachmentSchema).optional(),
+            recurrence: RecurrenceSchema.optional(),
+            parentId: z.string().optional(),
+            blockedBy: z.array(z.string()).optional(),
         }),
         output: TodoSchema,
     },
@@ -50,12 +64,15 @@ export const functionStubs = {
                 tags: z.array(z.string()).optional(),
                 dueDate: z.string().optional(),
                 attachments: z.array(AttachmentSchema).optional(),
+                recurrence: RecurrenceSchema.nullable().optional(),
+                parentId: z.string().nullable().optional(),
+                blockedBy: z.array(z.string()).optional(),
             }),
         }),
         output: TodoSchema,
     },
     deleteTodo: {
-        input: z.object({ todoId: z.string() }),
+        input: z.object({ todoId: z.string(), cascade: z.boolean().optional() }),
         output: z.object({ success: z.boolean() }),
     },
     reorderTodos: {
@@ -68,11 +85,11 @@ export const functionStubs = {
         output: z.object({ success: z.boolean() }),
     },
     archiveTodo: {
-        input: z.object({ todoId: z.string() }),
+        input: z.object({ todoId: z.string(), cascade: z.boolean().optional() }),
         output: TodoSchema,
     },
     unarchiveTodo: {
-        input: z.object({ todoId: z.string() }),
+        input: z.object({ todoId: z.string(), cascade: z.boolean().optional() }),
         output: TodoSchema,
     },
     getArchivedTodos: {
@@ -101,6 +118,7 @@ export type TodosViewProps = z.infer<typeof todosViewPropsSchema>;
 export const todosBrowserViewPropsSchema = z.object({
     project: z.string().optional(),
     selectedTodoId: z.string().optional(),
+    viewId: z.string().optional(), // Saved view from the workspace
 });
 export type TodosBrowserViewProps = z.infer<typeof todosBrowserViewPropsSchema>;
 
@@ -0,0 +1,68 @@
+import { test, expect, describe } from "bun:test";
+import { getNextOccurrence, describeRecurrence } from "./recurrence";
+import { RecurrenceSchema } from "./todo-types";
+
+describe("Todo Recurrence", () => {
+    test("daily with an interval", () => {
+        expect(getNextOccurrence({ recurrence: { freq: "daily" }, after: "2025-02-28" })).toBe("2025-03-01");
+        expect(getNextOccurrence({ recurrence: { freq: "daily", interval: 3 }, after: "2025-12-30" })).toBe("2026-01-02");
+    });
+
+    test("weekly on given weekdays", () => {
+        // 2025-01-06 is a Monday
+        const recurrence = { freq: "weekly" as const, byDay: ["MO" as const, "TH" as const] };
+        expect(getNextOccurrence({ recurrence, after: "2025-01-06" })).toBe("2025-01-09");
+        expect(getNextOccurrence({ recurrence, after: "2025-01-09" })).toBe("2025-01-13");
+    });
+
+    test("every other week skips the off week", () => {
+        const recurrence = { freq: "weekly" as const, interval: 2, byDay: ["MO" as const, "FR" as const] };
+        expect(getNextOccurrence({ recurrence, after: "2025-01-06" })).toBe("2025-01-10");
+        expect(getNextOccurrence({ recurrence, after: "2025-01-10" })).toBe("2025-01-20");
+    });
+
+    test("monthly by day clamps to short months", () => {
+        const recurrence = { freq: "monthly" as const, byMonthDay: 31 };
+        expect(getNextOccurrence({ recurrence, after: "2025-01-31" })).toBe("2025-02-28");
+        expect(getNextOccurrence({ recurrence, after: "2025-02-28" })).toBe("2025-03-31");
+        expect(getNextOccurrence({ recurrence: { freq: "monthly", byMonthDay: -1 }, after: "2024-01-31" })).toBe("2024-02-29");
+    });
+
+    test("monthly by nth weekday", () => {
+        const secondTuesday = { freq: "monthly" as const, byNthWeekday: { nth: 2, weekday: "TU" as const } };
+        expect(getNextOccurrence({ recurrence: secondTuesday, after: "2025-01-14" })).toBe("2025-02-11");
+
+        const lastFriday = { freq: "monthly" as const, interval: 3, byNthWeekday: { nth: -1, weekday: "FR" as const } };
+        expect(getNextOccurrence({ recurrence: lastFriday, after: "2025-01-31" })).toBe("2025-04-25");
+    });
+
+    test("yearly keeps the date", () => {
+        expect(getNextOccurrence({ recurrence: { freq: "yearly" }, after: "2024-02-29" })).toBe("2025-02-28");
+    });
+
+    test("series ends by until or count", () => {
+        expect(getNextOccurrence({ recurrence: { freq: "daily", until: "2025-01-01" }, after: "2025-01-01" })).toBeNull();
+        expect(getNextOccurrence({ recurrence: { freq: "daily", count: 3 }, after: "2025-01-01", occurrence: 2 })).toBe("2025-01-02");
+        expect(getNextOccurrence({ recurrence: { freq: "daily", count: 3 }, after: "2025-01-01", occurrence: 3 })).toBeNull();
+    });
+
+    test("describes rules", () => {
+        expect(describeRecurrence({ freq: "weekly", interval: 2, byDay: ["TH", "MO"] })).toBe("Every 2 weeks on Mon, Thu");
+        expect(describeRecurrence({ freq: "monthly", byNthWeekday: { nth: 2, weekday: "TU" } })).toBe("Every month on the 2nd Tue");
+        expect(describeRecurrence({ freq: "monthly", byMonthDay: 23, count: 5 })).toBe("Every month on the 23rd, 5 times");
+    });
+
+    test("day of month is 1-31 or -1 for the last day", () => {
+        expect(RecurrenceSchema.safeParse({ freq: "monthly", byMonthDay: -1 }).success).toBe(true);
+        expect(RecurrenceSchema.safeParse({ freq: "monthly", byMonthDay: 31 }).success).toBe(true);
+        expect(RecurrenceSchema.safeParse({ freq: "monthly", byMonthDay: 0 }).success).toBe(false);
+        expect(RecurrenceSchema.safeParse({ freq: "monthly", byMonthDay: 32 }).success).toBe(false);
+    });
+
+    test("nth weekday is 1-5 or -1 for the last one", () => {
+        expect(RecurrenceSchema.safeParse({ freq: "monthly", byNthWeekday: { nth: -1, weekday: "FR" } }).success).toBe(true);
+        expect(RecurrenceSchema.safeParse({ freq: "monthly", byNthWeekday: { nth: 5, weekday: "FR" } }).success).toBe(true);
+        expect(RecurrenceSchema.safeParse({ freq: "monthly", byNthWeekday: { nth: 0, weekday: "FR" } }).success).toBe(false);
+        expect(RecurrenceSchema.safeParse({ freq: "monthly", byNthWeekday: { nth: 6, weekday: "FR" } }).success).toBe(false);
+    });
+});
@@ -0,0 +1,219 @@
+/**
+ * Todo Recurrence
+ *
+ * Computes occurrences for RRULE-style repeat rules on todos.
+ * Dates are YYYY-MM-DD strings (local calendar days). Arithmetic is done on
+ * UTC midnights so daylight-saving changes never shift a day.
+ */
+
+import { addUtcDays, formatDay, parseDay } from "@/features/notes/date-utils";
+import type { Recurrence, Weekday } from "./todo-types";
+
+// Index matches Date.getUTCDay()
+const WEEKDAYS: Weekday[] = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+
+const WEEKDAY_LABELS: Record<Weekday, string> = {
+    MO: "Mon",
+    TU: "Tue",
+    WE: "Wed",
+    TH: "Thu",
+    FR: "Fri",
+    SA: "Sat",
+    SU: "Sun",
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Safety bound for searching the next matching month/year
+const MAX_PERIODS = 1000;
+
+function daysInMonth(year: number, month: number): number {
+    return new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+}
+
+// Monday of the week containing the date
+function startOfWeek(date: Date): Date {
+    return addUtcDays(date, -((date.getUTCDay() + 6) % 7));
+}
+
+/**
+ * The nth weekday of a month (nth = -1 for the last one), or null if the month has no such day.
+ */
+function nthWeekdayOfMonth(params: { year: number; month: number; nth: number; weekday: Weekday }): Date | null {
+    const { year, month, nth, weekday } = params;
+    const target = WEEKDAYS.indexOf(weekday);
+    const length = daysInMonth(year, month);
+
+    if (nth === -1) {
+        const last = new Date(Date.UTC(year, month, length));
+        return addUtcDays(last, -((last.getUTCDay() - target + 7) % 7));
+    }
+
+    const first = new Date(Date.UTC(year, month, 1));
+    const day = 1 + ((target - first.getUTCDay() + 7) % 7) + (nth - 1) * 7;
+    return day <= length ? new Date(Date.UTC(year, month, day)) : null;
+}
+
+/**
+ * The day within a month that a monthly rule lands on.
+ * Days past the end of a short month are clamped to its last day.
+ */
+function monthlyCandidate(params: { recurrence: Recurrence; year: number; month: number; anchorDay: number }): Date | null {
+    const { recurrence, year, month, anchorDay } = params;
+    if (recurrence.byNthWeekday) {
+        return nthWeekdayOfMonth({ year, month, ...recurrence.byNthWeekday });
+    }
+    const length = daysInMonth(year, month);
+    const day = recurrence.byMonthDay === -1 ? length : Math.min(recurrence.byMonthDay ?? anchorDay, length);
+    return new Date(Date.UTC(year, month, day));
+}
+
+function nextDaily(recurrence: Recurrence, after: Date): Date {
+    return addUtcDays(after, recurrence.interval ?? 1);
+}
+
+function nextWeekly(recurrence: Recurrence, after: Date): Date {
+    const interval = recurrence.interval ?? 1;
+    const byDay = recurrence.byDay ?? [];
+    if (byDay.length === 0) {
+        return addUtcDays(after, 7 * interval);
+    }
+
+    const anchorWeek = startOfWeek(after).getTime();
+    for (let offset = 1; offset <= 7 * interval + 7; offset++) {
+        const candidate = addUtcDays(after, offset);
+        const weeksApart = Math.round((startOfWeek(candidate).getTime() - anchorWeek) / (7 * DAY_MS));
+        if (weeksApart % interval === 0 && byDay.includes(WEEKDAYS[candidate.getUTCDay()]!)) {
+            return candidate;
+        }
+    }
+    // Unreachable for a non-empty byDay
+    return addUtcDays(after, 7 * interval);
+}
+
+function nextMonthly(recurrence: Recurrence, after: Date): Date | null {
+    const interval = recurrence.interval ?? 1;
+    const anchorDay = after.getUTCDate();
+    for (let period = 0; period < MAX_PERIODS; period++) {
+        const monthIndex = after.getUTCMonth() + period * interval;
+        const year = after.getUTCFullYear() + Math.floor(monthIndex / 12);
+        const month = monthIndex % 12;
+        const candidate = monthlyCandidate({ recurrence, year, month, anchorDay });
+        if (candidate && candidate.getTime() > after.getTime()) {
+            return candidate;
+        }
+    }
+    return null;
+}
+
+function nextYearly(recurrence: Recurrence, after: Date): Date {
+    const year = after.getUTCFullYear() + (recurrence.interval ?? 1);
+    const month = after.getUTCMonth();
+    return new Date(Date.UTC(year, month, Math.min(after.getUTCDate(), daysInMonth(year, month))));
+}
+
+/**
+ * Compute the due date of the occurrence following `after`.
+ * Returns null when the series has ended (by `until` or `count`).
+ *
+ * @param occurrence - 1-based position of the occurrence that is ending (for `count`)
+ */
+export function getNextOccurrence(params: { recurrence: Recurrence; after: string; occurrence?: number }): string | null {
+    const { recurrence, after, occurrence = 1 } = params;
+
+    if (recurrence.count !== undefined && occurrence >= recurrence.count) {
+        return null;
+    }
+
+    const afterDate = parseDay(after);
+    let next: Date | null;
+    switch (recurrence.freq) {
+        case "daily":
+            next = nextDaily(recurrence, afterDate);
+            break;
+        case "weekly":
+            next = nextWeekly(recurrence, afterDate);
+            break;
+        case "monthly":
+            next = nextMonthly(recurrence, afterDate);
+            break;
+        case "yearly":
+            next = nextYearly(recurrence, afterDate);
+            break;
+    }
+
+    if (!next) {
+        return null;
+    }
+
+    const nextDay = formatDay(next);
+    if (recurrence.until && nextDay > recurrence.until) {
+        return null;
+    }
+    return nextDay;
+}
+
+/**
+ * A sensible starting rule for a frequency, anchored on a due date.
+ */
+export function createDefaultRecurrence(params: { freq: Recurrence["freq"]; dueDate?: string }): Recurrence {
+    const { freq, dueDate } = params;
+    const anchor = dueDate ? parseDay(dueDate) : parseDay(formatDay(new Date()));
+    switch (freq) {
+        case "weekly":
+            return { freq, byDay: [WEEKDAYS[anchor.getUTCDay()]!] };
+        case "monthly":
+            return { freq, byMonthDay: anchor.getUTCDate() };
+        default:
+            return { freq };
+    }
+}
+
+function ordinal(n: number): string {
+    if (n === -1) return "last";
+    const suffixes = ["th", "st", "nd", "rd"];
+    const v = n % 100;
+    return `${n}${suffixes[(v - 20) % 10] || suffixes[v] || suffixes[0]}`;
+}
+
+/**
+ * Where in the month a monthly rule lands, e.g. "the 2nd Tue" or "the 15th".
+ */
+export function describeMonthlyPosition(recurrence: Pick<Recurrence, "byMonthDay" | "byNthWeekday">): string | null {
+    if (recurrence.byNthWeekday) {
+        return `the ${ordinal(recurrence.byNthWeekday.nth)} ${WEEKDAY_LABELS[recurrence.byNthWeekday.weekday]}`;
+    }
+    if (recurrence.byMonthDay !== undefined) {
+        return recurrence.byMonthDay === -1 ? "the last day" : `the ${ordinal(recurrence.byMonthDay)}`;
+    }
+    return null;
+}
+
+/**
+ * Human-readable summary, e.g. "Every 2 weeks on Mon, Thu".
+ */
+export function describeRecurrence(recurrence: Recurrence): string {
+    const interval = recurrence.interval ?? 1;
+    const units = { daily: "day", weekly: "week", monthly: "month", yearly: "year" } as const;
+    const unit = units[recurrence.freq];
+    let text = interval === 1 ? `Every ${unit}` : `Every ${interval} ${unit}s`;
+
+    if (recurrence.freq === "weekly" && recurrence.byDay && recurrence.byDay.length > 0) {
+        const ordered = WEEKDAYS.slice(1).concat("SU").filter((d) => recurrence.byDay!.includes(d));
+        text += ` on ${ordered.map((d) => WEEKDAY_LABELS[d]).join(", ")}`;
+    } else if (recurrence.freq === "monthly") {
+        const position = describeMonthlyPosition(recurrence);
+        if (position) {
+            text += ` on ${position}`;
+        }
+    }
+
+    if (recurrence.count !== undefined) {
+        text += `, ${recurrence.count} times`;
+    } else if (recurrence.until) {
+        text += `, until ${recurrence.until}`;
+    }
+    return text;
+}
+
+export { WEEKDAYS, WEEKDAY_LABELS };
@@ -0,0 +1,54 @@
+import { test, expect, describe } from "bun:test";
+import type { Todo } from "./todo-types";
+import { parseTodoQuery, evaluateTodoQuery } from "./todo-query";
+
+const TODAY = "2025-03-10";
+
+function todo(id: string, fields: Partial<Todo> = {}): Todo {
+    return { id, title: id, status: "todo", createdAt: "", updatedAt: "", ...fields };
+}
+
+function run(todos: Todo[], query: string): string[] {
+    return evaluateTodoQuery(todos, parseTodoQuery(query, TODAY), TODAY).map((t) => t.id);
+}
+
+describe("Todo Query", () => {
+    const todos = [
+        todo("a", { status: "in_progress", project: "Big Launch", tags: ["work"], dueDate: "2025-03-12" }),
+        todo("b", { status: "done", tags: ["Home"], dueDate: "2025-03-01" }),
+        todo("c", { dueDate: "2025-03-05", blockedBy: ["a"], description: "Call the plumber" }),
+        todo("d", { project: "Big Launch", archived: true }),
+        todo("e", { parentId: "a", recurrence: { freq: "weekly" } }),
+    ];
+
+    test("parses fields and reports invalid clauses", () => {
+        const query = parseTodoQuery('status:doing project:"Big Launch" due:<7d bogus:1 status:nope', TODAY);
+
+        expect(query.clauses).toEqual([
+            { kind: "status", values: ["in_progress"], negated: false },
+            { kind: "project", value: "big launch", negated: false },
+            { kind: "due", op: "<", date: "2025-03-17", negated: false },
+        ]);
+        expect(query.errors).toHaveLength(2);
+    });
+
+    test("filters by status, project, tag and text", () => {
+        expect(run(todos, "status:todo,done")).toEqual(["b", "c", "e"]);
+        expect(run(todos, 'project:"big launch"')).toEqual(["a"]);
+        expect(run(todos, "project:none -#home")).toEqual(["c", "e"]);
+        expect(run(todos, "plumber")).toEqual(["c"]);
+    });
+
+    test("filters by due date and flags", () => {
+        expect(run(todos, "due:<7d")).toEqual(["a", "b", "c"]);
+        expect(run(todos, "due:none")).toEqual(["e"]);
+        expect(run(todos, "overdue")).toEqual(["c"]);
+        expect(run(todos, "blocked")).toEqual(["c"]);
+        expect(run(todos, "is:recurring subtask")).toEqual(["e"]);
+    });
+
+    test("excludes archived todos unless asked", () => {
+        expect(run(todos, "project:\"Big Launch\" archived")).toEqual(["d"]);
+        expect(run(todos, "archived:any").length).toBe(5);
+    });
+});
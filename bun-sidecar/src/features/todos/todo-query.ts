@@ -0,0 +1,263 @@
+/**
+ * Todo Query Language
+ *
+ * A small filter language for the todos board. Clauses are separated by spaces
+ * and all of them must match:
+ *
+ *   status:todo,in_progress   project:"Big Launch"   project:none
+ *   tag:work   #work          due:<7d   due:>=2025-01-01   due:today   due:none
+ *   overdue    blocked        recurring   archived   archived:any
+ *   -tag:someday              "exact words"          plain words
+ *
+ * Prefix any clause with `-` to negate it. Archived todos are excluded unless
+ * the query mentions `archived`.
+ */
+
+import { addDays } from "@/features/notes/date-utils";
+import type { Todo } from "./todo-types";
+import { getOpenBlockers } from "./todo-tree";
+
+type Status = Todo["status"];
+
+const STATUSES: Status[] = ["todo", "in_progress", "done", "later"];
+
+// Friendly spellings accepted for status values
+const STATUS_ALIASES: Record<string, Status> = {
+    todo: "todo",
+    open: "todo",
+    in_progress: "in_progress",
+    inprogress: "in_progress",
+    doing: "in_progress",
+    done: "done",
+    later: "later",
+};
+
+type DueComparison = "<" | "<=" | ">" | ">=" | "=";
+
+const FLAGS = ["overdue", "blocked", "recurring", "subtask"] as const;
+
+type Flag = (typeof FLAGS)[number];
+
+function isFlag(value: string): value is Flag {
+    return (FLAGS as readonly string[]).includes(value);
+}
+
+export type TodoQueryClause =
+    | { kind: "status"; values: Status[]; negated: boolean }
+    | { kind: "project"; value: string | null; negated: boolean }
+    | { kind: "tag"; value: string; negated: boolean }
+    | { kind: "due"; op: DueComparison; date: string; negated: boolean }
+    | { kind: "hasDue"; value: boolean; negated: boolean }
+    | { kind: "flag"; flag: Flag; negated: boolean }
+    | { kind: "text"; value: string; negated: boolean };
+
+export interface TodoQuery {
+    clauses: TodoQueryClause[];
+    archived: "exclude" | "only" | "any";
+    errors: string[];
+}
+
+/**
+ * Split a query into tokens, keeping quoted values together (`project:"Big Launch"`).
+ */
+function splitTokens(query: string): string[] {
+    const tokens: string[] = [];
+    const pattern = /(-?[\w#]+:"[^"]*"?|-?"[^"]*"?|\S+)/g;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(query)) !== null) {
+        tokens.push(match[0]);
+    }
+    return tokens;
+}
+
+function unquote(value: string): string {
+    return value.replace(/^"/, "").replace(/"$/, "");
+}
+
+/**
+ * Resolve a due-date value to a YYYY-MM-DD date.
+ * Accepts absolute dates, `today`/`tomorrow`/`yesterday`, and offsets like `7d`, `2w`, `-3d`.
+ */
+function resolveDate(value: string, today: string): string | null {
+    if (/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+        return value;
+    }
+    switch (value) {
+        case "today":
+            return today;
+        case "tomorrow":
+            return addDays(today, 1);
+        case "yesterday":
+            return addDays(today, -1);
+    }
+    const offset = value.match(/^(-?\d+)([dw])$/);
+    if (offset) {
+        const amount = parseInt(offset[1]!, 10);
+        return addDays(today, offset[2] === "w" ? amount * 7 : amount);
+    }
+    return null;
+}
+
+function parseDue(value: string, negated: boolean, today: string): TodoQueryClause | null {
+    if (value === "none") return { kind: "hasDue", value: false, negated };
+    if (value === "any") return { kind: "hasDue", value: true, negated };
+
+    const match = value.match(/^(<=|>=|<|>|=)?(.+)$/);
+    if (!match) return null;
+    const date = resolveDate(match[2]!, today);
+    if (!date) return null;
+    return { kind: "due", op: (match[1] as DueComparison | undefined) ?? "=", date, negated };
+}
+
+/**
+ * Parse a query string. Invalid clauses are reported in `errors` and otherwise ignored.
+ *
+ * @param today - Local date (YYYY-MM-DD) that relative due dates are measured from
+ */
+export function parseTodoQuery(query: string, today: string): TodoQuery {
+    const result: TodoQuery = { clauses: [], archived: "exclude", errors: [] };
+
+    for (const token of splitTokens(query)) {
+        const negated = token.startsWith("-") && token.length > 1;
+        const body = negated ? token.slice(1) : token;
+
+        // Hashtag shorthand for tag:
+        if (body.startsWith("#") && body.length > 1) {
+            result.clauses.push({ kind: "tag", value: body.slice(1).toLowerCase(), negated });
+            continue;
+        }
+
+        const field = body.match(/^(\w+):(.*)$/);
+        if (!field) {
+            const keyword = body.toLowerCase();
+            if (isFlag(keyword)) {
+                result.clauses.push({ kind: "flag", flag: keyword, negated });
+            } else if (keyword === "archived") {
+                result.archived = negated ? "exclude" : "only";
+            } else {
+                const text = unquote(body).trim().toLowerCase();
+                if (text) result.clauses.push({ kind: "text", value: text, negated });
+            }
+            continue;
+        }
+
+        const name = field[1]!.toLowerCase();
+        const value = unquote(field[2]!);
+        const lower = value.toLowerCase();
+        if (!value) {
+            result.errors.push(`Missing value for "${name}:"`);
+            continue;
+        }
+
+        switch (name) {
+            case "status": {
+                const values = lower.split(",").map((v) => STATUS_ALIASES[v.trim()]);
+                if (values.some((v) => !v)) {
+                    result.errors.push(`Unknown status "${value}" (use ${STATUSES.join(", ")})`);
+                } else {
+                    result.clauses.push({ kind: "status", values: values as Status[], negated });
+                }
+                break;
+            }
+            case "project":
+                result.clauses.push({ kind: "project", value: lower === "none" ? null : lower, negated });
+                break;
+            case "tag":
+                result.clauses.push({ kind: "tag", value: lower.replace(/^#/, ""), negated });
+                break;
+            case "due": {
+                const clause = parseDue(lower, negated, today);
+                if (clause) {
+                    result.clauses.push(clause);
+                } else {
+                    result.errors.push(`Invalid due date "${value}" (try due:<7d, due:today, due:2025-01-31)`);
+                }
+                break;
+            }
+            case "is": {
+                if (lower === "archived") {
+                    result.archived = negated ? "exclude" : "only";
+                } else if (isFlag(lower)) {
+                    result.clauses.push({ kind: "flag", flag: lower, negated });
+                } else {
+                    result.errors.push(`Unknown "is:${value}"`);
+                }
+                break;
+            }
+            case "archived":
+                if (lower === "any" || lower === "all") {
+                    result.archived = "any";
+                } else if (lower === "true" || lower === "yes") {
+                    result.archived = negated ? "exclude" : "only";
+                } else if (lower === "false" || lower === "no") {
+                    result.archived = negated ? "only" : "exclude";
+                } else {
+                    result.errors.push(`Invalid archived value "${value}" (use true, false or any)`);
+                }
+                break;
+            default:
+                result.errors.push(`Unknown filter "${name}:"`);
+        }
+    }
+
+    return result;
+}
+
+function compareDates(left: string, op: DueComparison, right: string): boolean {
+    switch (op) {
+        case "<":
+            return left < right;
+        case "<=":
+            return left <= right;
+        case ">":
+            return left > right;
+        case ">=":
+            return left >= right;
+        case "=":
+            return left === right;
+    }
+}
+
+function matchesClause(todo: Todo, clause: TodoQueryClause, context: { all: Todo[]; today: string }): boolean {
+    switch (clause.kind) {
+        case "status":
+            return clause.values.includes(todo.status);
+        case "project":
+            return clause.value === null ? !todo.project?.trim() : todo.project?.toLowerCase() === clause.value;
+        case "tag":
+            return todo.tags?.some((t) => t.toLowerCase() === clause.value) ?? false;
+        case "hasDue":
+            return !!todo.dueDate === clause.value;
+        case "due":
+            // due:<7d compares against today + 7, so it also includes overdue todos
+            return !!todo.dueDate && compareDates(todo.dueDate, clause.op, clause.date);
+        case "flag":
+            switch (clause.flag) {
+                case "overdue":
+                    return !!todo.dueDate && todo.dueDate < context.today && todo.status !== "done";
+                case "blocked":
+                    return getOpenBlockers(context.all, todo).length > 0;
+                case "recurring":
+                    return !!todo.recurrence;
+                case "subtask":
+                    return !!todo.parentId;
+            }
+            return false;
+        case "text":
+            return todo.title.toLowerCase().includes(clause.value) || (todo.description?.toLowerCase().includes(clause.value) ?? false);
+    }
+}
+
+/**
+ * Filter todos with a parsed query.
+ *
+ * @param todos - All todos, including archived ones (needed to resolve blockers)
+ */
+export function evaluateTodoQuery(todos: Todo[], query: TodoQuery, today: string): Todo[] {
+    const context = { all: todos, today };
+    return todos.filter((todo) => {
+        if (query.archived === "exclude" && todo.archived) return false;
+        if (query.archived === "only" && !todo.archived) return false;
+        return query.clauses.every((clause) => matchesClause(todo, clause, context) !== clause.negated);
+    });
+}
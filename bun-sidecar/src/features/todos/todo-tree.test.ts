@@ -0,0 +1,63 @@
+import { test, expect, describe } from "bun:test";
+import type { Todo } from "./todo-types";
+import {
+    buildTodoTree,
+    getDescendantIds,
+    getSubtaskProgress,
+    getOpenBlockers,
+    wouldCreateParentCycle,
+    findDependencyCycle,
+} from "./todo-tree";
+
+function todo(id: string, fields: Partial<Todo> = {}): Todo {
+    return { id, title: id, status: "todo", createdAt: "", updatedAt: "", ...fields };
+}
+
+describe("Todo Tree", () => {
+    const todos = [
+        todo("a"),
+        todo("b", { parentId: "a", status: "done" }),
+        todo("c", { parentId: "a" }),
+        todo("d", { parentId: "c" }),
+        todo("e", { parentId: "missing" }),
+    ];
+
+    test("nests subtasks and keeps orphans as roots", () => {
+        const tree = buildTodoTree(todos);
+
+        expect(tree.map((n) => n.id)).toEqual(["a", "e"]);
+        expect(tree[0]!.children.map((n) => n.id)).toEqual(["b", "c"]);
+        expect(tree[0]!.children[1]!.children.map((n) => n.id)).toEqual(["d"]);
+    });
+
+    test("collects descendants and progress", () => {
+        expect(getDescendantIds(todos, "a").sort()).toEqual(["b", "c", "d"]);
+        expect(getSubtaskProgress(todos, "a")).toEqual({ done: 1, total: 2 });
+        expect(getSubtaskProgress(todos, "d")).toEqual({ done: 0, total: 0 });
+    });
+
+    test("detects parent cycles", () => {
+        expect(wouldCreateParentCycle(todos, "a", "d")).toBe(true);
+        expect(wouldCreateParentCycle(todos, "a", "a")).toBe(true);
+        expect(wouldCreateParentCycle(todos, "d", "b")).toBe(false);
+    });
+});
+
+describe("Todo Dependencies", () => {
+    const todos = [
+        todo("a", { blockedBy: ["b"] }),
+        todo("b", { blockedBy: ["c"] }),
+        todo("c"),
+        todo("d", { status: "done" }),
+    ];
+
+    test("finds cycles through the dependency chain", () => {
+        expect(findDependencyCycle(todos, "c", ["a"])).toEqual(["c", "a", "b", "c"]);
+        expect(findDependencyCycle(todos, "c", ["c"])).toEqual(["c", "c"]);
+        expect(findDependencyCycle(todos, "c", ["d"])).toBeNull();
+    });
+
+    test("only unfinished blockers count", () => {
+        expect(getOpenBlockers(todos, todo("x", { blockedBy: ["c", "d", "gone"] })).map((t) => t.id)).toEqual(["c"]);
+    });
+});
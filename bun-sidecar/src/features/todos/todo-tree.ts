@@ -0,0 +1,127 @@
+/**
+ * Todo Tree
+ *
+ * Helpers for subtasks (parentId) and dependencies (blockedBy).
+ * Pure functions over a list of todos so both the server and the UI can use them.
+ */
+
+import type { Todo, TodoTreeNode } from "./todo-types";
+
+/**
+ * Nest todos under their parents. Todos whose parent is not in the list become roots,
+ * so filtered lists (e.g. by project) still show every todo.
+ */
+export function buildTodoTree(todos: Todo[]): TodoTreeNode[] {
+    const nodes = new Map<string, TodoTreeNode>();
+    for (const todo of todos) {
+        nodes.set(todo.id, { ...todo, children: [] });
+    }
+
+    const roots: TodoTreeNode[] = [];
+    for (const todo of todos) {
+        const node = nodes.get(todo.id)!;
+        const parent = todo.parentId ? nodes.get(todo.parentId) : undefined;
+        if (parent) {
+            parent.children.push(node);
+        } else {
+            roots.push(node);
+        }
+    }
+    return roots;
+}
+
+/**
+ * Direct children of a todo.
+ */
+export function getChildren(todos: Todo[], parentId: string): Todo[] {
+    return todos.filter((t) => t.parentId === parentId);
+}
+
+/**
+ * IDs of all descendants of a todo (children, grandchildren, ...).
+ */
+export function getDescendantIds(todos: Todo[], todoId: string): string[] {
+    const result: string[] = [];
+    const queue = [todoId];
+    const seen = new Set(queue);
+    while (queue.length > 0) {
+        const current = queue.shift()!;
+        for (const child of getChildren(todos, current)) {
+            if (!seen.has(child.id)) {
+                seen.add(child.id);
+                result.push(child.id);
+                queue.push(child.id);
+            }
+        }
+    }
+    return result;
+}
+
+/**
+ * Completion of a parent's direct, non-archived children.
+ */
+export function getSubtaskProgress(todos: Todo[], parentId: string): { done: number; total: number } {
+    const children = getChildren(todos, parentId).filter((t) => !t.archived);
+    return {
+        done: children.filter((t) => t.status === "done").length,
+        total: children.length,
+    };
+}
+
+/**
+ * Todos this one is still waiting on. Finished, archived or missing blockers don't count.
+ */
+export function getOpenBlockers(todos: Todo[], todo: Todo): Todo[] {
+    if (!todo.blockedBy || todo.blockedBy.length === 0) {
+        return [];
+    }
+    const blockerIds = new Set(todo.blockedBy);
+    return todos.filter((t) => blockerIds.has(t.id) && t.status !== "done" && !t.archived);
+}
+
+/**
+ * Whether making `parentId` the parent of `todoId` would put the todo inside its own subtree.
+ */
+export function wouldCreateParentCycle(todos: Todo[], todoId: string, parentId: string): boolean {
+    const byId = new Map(todos.map((t) => [t.id, t]));
+    const seen = new Set<string>();
+    let current: string | undefined = parentId;
+    while (current && !seen.has(current)) {
+        if (current === todoId) {
+            return true;
+        }
+        seen.add(current);
+        current = byId.get(current)?.parentId;
+    }
+    return false;
+}
+
+/**
+ * Find a dependency cycle that `todoId` being blocked by `blockedBy` would introduce.
+ * Returns the cycle as a list of todo IDs (starting and ending with `todoId`), or null.
+ */
+export function findDependencyCycle(todos: Todo[], todoId: string, blockedBy: string[]): string[] | null {
+    const byId = new Map(todos.map((t) => [t.id, t]));
+    const visited = new Set<string>();
+
+    const visit = (id: string, path: string[]): string[] | null => {
+        if (id === todoId) {
+            return [...path, id];
+        }
+        if (visited.has(id)) {
+            return null;
+        }
+        visited.add(id);
+        for (const next of byId.get(id)?.blockedBy ?? []) {
+            const cycle = visit(next, [...path, id]);
+            if (cycle) return cycle;
+        }
+        return null;
+    };
+
+    for (const blockerId of blockedBy) {
+        const cycle = visit(blockerId, [todoId]);
+        if (cycle) return cycle;
+    }
+    return null;
+}
@@ -1,6 +1,39 @@
 import { z } from "zod";
 import { AttachmentSchema } from "@/types/attachments";
 
+export const WeekdaySchema = z.enum(["MO", "TU", "WE", "TH", "FR", "SA", "SU"]);
+
+export type Weekday = z.infer<typeof WeekdaySchema>;
+
+// RRULE-style repeat rule. Occurrences are computed from the todo's due date.
+export const RecurrenceSchema = z.object({
+    freq: z.enum(["daily", "weekly", "monthly", "yearly"]),
+    interval: z.number().int().min(1).optional(), // Every N days/weeks/months/years (default 1)
+    byDay: z.array(WeekdaySchema).optional(), // Weekly: which weekdays
+    byMonthDay: z
+        .number()
+        .int()
+        .min(-1)
+        .max(31)
+        .refine((day) => day !== 0, { message: "Day of month must be 1-31, or -1 for the last day" })
+        .optional(), // Monthly: day of month (-1 = last day)
+    byNthWeekday: z
+        .object({
+            nth: z
+                .number()
+                .int()
+                .min(-1)
+                .max(5)
+                .refine((nth) => nth !== 0, { message: "Week must be 1-5, or -1 for the last one" }), // 1-5, or -1 for the last one
+            weekday: WeekdaySchema,
+        })
+        .optional(), // Monthly: e.g. 2nd Tuesday
+    until: z.string().optional(), // YYYY-MM-DD, no occurrences after this date
+    count: z.number().int().min(1).optional(), // Total number of occurrences in the series
+});
+
+export type Recurrence = z.infer<typeof RecurrenceSchema>;
+
 export const TodoSchema = z.object({
     id: z.string(),
     title: z.string(),
@@ -14,6 +47,18 @@ export const TodoSchema = z.object({
     tags: z.array(z.string()).optional(),
     dueDate: z.string().optional(),
     attachments: z.array(AttachmentSchema).optional(),
+    recurrence: RecurrenceSchema.optional(),
+    seriesId: z.string().optional(), // ID of the first todo in a recurring series
+    occurrence: z.number().optional(), // 1-based position in the recurring series
+    nextOccurrenceId: z.string().optional(), // Set once the following occurrence has been created
+    parentId: z.string().optional(), // Parent todo when this is a subtask
+    blockedBy: z.array(z.string()).optional(), // IDs of todos that must be done first
 });
 
 export type Todo = z.infer<typeof TodoSchema>;
+
+export type TodoTreeNode = Todo & { children: TodoTreeNode[] };
+
+export const TodoTreeNodeSchema: z.ZodType<TodoTreeNode> = TodoSchema.extend({
+    children: z.lazy(() => z.array(TodoTreeNodeSchema)),
+});
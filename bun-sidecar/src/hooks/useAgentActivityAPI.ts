@@ -0,0 +1,39 @@
+import type { RunLogEvent } from "@/features/agents/run-log";
+import type { SessionActivity, UsageTotals } from "@/features/agents/run-log-summary";
+
+export interface AgentActivitySummary {
+    sessions: SessionActivity[];
+    byAgent: UsageTotals[];
+    byDay: UsageTotals[];
+}
+
+export type ActivityExportFormat = "csv" | "json";
+export type ActivityGrouping = "session" | "agent" | "day";
+
+async function fetchAPI<T>(endpoint: string, options: RequestInit = {}): Promise<T> {
+    const response = await fetch(`/api/agent-activity/${endpoint}`, {
+        headers: { "Content-Type": "application/json" },
+        ...options,
+    });
+    if (!response.ok) {
+        throw new Error(`API error: ${response.status}`);
+    }
+    return response.json();
+}
+
+// Standalone API object for use outside React components
+export const agentActivityAPI = {
+    getSummary: () => fetchAPI<AgentActivitySummary>("summary", { method: "GET" }),
+
+    getSessionLog: (args: { sessionId: string }) =>
+        fetchAPI<RunLogEvent[]>("session", { method: "POST", body: JSON.stringify(args) }),
+
+    // URL the browser downloads the export from
+    getExportUrl: (args: { format: ActivityExportFormat; groupBy: ActivityGrouping }) =>
+        `/api/agent-activity/export?format=${args.format}&groupBy=${args.groupBy}`,
+};
+
+// Hook wrapper for use in React components
+export function useAgentActivityAPI() {
+    return agentActivityAPI;
+}
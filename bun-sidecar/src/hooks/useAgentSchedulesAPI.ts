@@ -0,0 +1,62 @@
+import type { AgentRun, AgentSchedule, RunPermissionDecision } from "@/features/agents/schedule-types";
+
+export type AgentScheduleWithNextRun = AgentSchedule & { nextRunAt?: string };
+
+interface CreateScheduleInput {
+    name: string;
+    agentId: string;
+    prompt: string;
+    cron: string;
+    enabled?: boolean;
+}
+
+interface UpdateScheduleInput {
+    scheduleId: string;
+    updates: Partial<CreateScheduleInput>;
+}
+
+async function fetchAPI<T>(endpoint: string, options: RequestInit = {}): Promise<T> {
+    const response = await fetch(`/api/agent-schedules/${endpoint}`, {
+        headers: { "Content-Type": "application/json" },
+        ...options,
+    });
+    if (!response.ok) {
+        const body = (await response.json().catch(() => null)) as { error?: string } | null;
+        throw new Error(body?.error || `API error: ${response.status}`);
+    }
+    return response.json();
+}
+
+// Standalone API object for use outside React components
+export const agentSchedulesAPI = {
+    listSchedules: () => fetchAPI<AgentScheduleWithNextRun[]>("list", { method: "GET" }),
+
+    createSchedule: (args: CreateScheduleInput) =>
+        fetchAPI<AgentSchedule>("create", { method: "POST", body: JSON.stringify(args) }),
+
+    updateSchedule: (args: UpdateScheduleInput) =>
+        fetchAPI<AgentSchedule>("update", { method: "POST", body: JSON.stringify(args) }),
+
+    deleteSchedule: (args: { scheduleId: string }) =>
+        fetchAPI<{ success: boolean }>("delete", { method: "POST", body: JSON.stringify(args) }),
+
+    runScheduleNow: (args: { scheduleId: string }) =>
+        fetchAPI<AgentRun>("run-now", { method: "POST", body: JSON.stringify(args) }),
+
+    listRuns: (args: { limit?: number } = {}) =>
+        fetchAPI<AgentRun[]>("runs", { method: "POST", body: JSON.stringify(args) }),
+
+    resumeRun: (args: { runId: string; decision: RunPermissionDecision }) =>
+        fetchAPI<AgentRun>("runs/resume", { method: "POST", body: JSON.stringify(args) }),
+
+    dismissRun: (args: { runId: string }) =>
+        fetchAPI<{ success: boolean }>("runs/dismiss", { method: "POST", body: JSON.stringify(args) }),
+
+    cancelRun: (args: { runId: string }) =>
+        fetchAPI<{ success: boolean }>("runs/cancel", { method: "POST", body: JSON.stringify(args) }),
+};
+
+// Hook wrapper for use in React components
+export function useAgentSchedulesAPI() {
+    return agentSchedulesAPI;
+}
@@ -1,11 +1,17 @@
 import type { AgentConfig, AgentPreferences, McpServerDefinition } from "@/features/agents/index";
+import type { PermissionAuditEntry } from "@/features/agents/permission-audit";
+import type { AgentBundlePreview, BundleImportChoices } from "@/features/agents/bundle-format";
 
 interface CreateAgentInput {
     name: string;
     description?: string;
     systemPrompt: string;
+    provider?: AgentConfig["provider"];
     model: AgentConfig["model"];
+    baseUrl?: string;
     mcpServers: string[];
+    permissionRules?: AgentConfig["permissionRules"];
+    reviewNoteEdits?: boolean;
 }
 
 interface UpdateAgentInput {
@@ -14,8 +20,12 @@ interface UpdateAgentInput {
         name?: string;
         description?: string;
         systemPrompt?: string;
+        provider?: AgentConfig["provider"];
         model?: AgentConfig["model"];
+        baseUrl?: string;
         mcpServers?: string[];
+        permissionRules?: AgentConfig["permissionRules"];
+        reviewNoteEdits?: boolean;
     };
 }
 
@@ -25,7 +35,8 @@ async function fetchAPI<T>(endpoint: string, options: RequestInit = {}): Promise
         ...options,
     });
     if (!response.ok) {
-        throw new Error(`API error: ${response.status}`);
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || `API error: ${response.status}`);
     }
     return response.json();
 }
@@ -57,6 +68,23 @@ export const agentsAPI = {
             body: JSON.stringify(preferences),
         }),
 
+    getPermissionAudit: (args: { agentId?: string; limit?: number }) =>
+        fetchAPI<PermissionAuditEntry[]>("permission-audit", { method: "POST", body: JSON.stringify(args) }),
+
+    // Omit skills to bundle the skills the agent's system prompt mentions
+    getExportUrl: (args: { agentId: string; skills?: string[] }) =>
+        `/api/agents/export?agentId=${encodeURIComponent(args.agentId)}` +
+        (args.skills ? `&skills=${encodeURIComponent(args.skills.join(","))}` : ""),
+
+    previewImport: (args: { bundle: unknown }) =>
+        fetchAPI<AgentBundlePreview>("import-preview", { method: "POST", body: JSON.stringify(args) }),
+
+    importBundle: (args: { bundle: unknown; choices: Partial<BundleImportChoices> }) =>
+        fetchAPI<{ agent: AgentConfig; requiredSecrets: string[] }>("import", {
+            method: "POST",
+            body: JSON.stringify(args),
+        }),
+
     getMcpRegistry: () =>
         fetch("/api/mcp-registry", { method: "GET" }).then((r) => r.json()) as Promise<McpServerDefinition[]>,
 };
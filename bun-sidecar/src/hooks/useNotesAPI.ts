@@ -1,6 +1,9 @@
 import { Note, NoteFolder, SearchResult } from "@/features/notes";
-import { BacklinksResult } from "@/features/notes/backlinks-types";
+import { BacklinksResult, UnlinkedMentionsResult } from "@/features/notes/backlinks-types";
 import type { TagSuggestion, ExplicitTagDefinition } from "@/features/notes/tags-types";
+import type { DailyNoteSettings } from "@/features/notes/date-utils";
+import type { SemanticHit } from "@/features/notes/semantic-types";
+import { emit } from "@/lib/events";
 
 async function fetchAPI<T>(endpoint: string, body: Record<string, unknown> = {}): Promise<T> {
     const response = await fetch(`/api/notes/${endpoint}`, {
@@ -61,7 +64,9 @@ function preloadNote(fileName: string): void {
 // Standalone API object for use outside React components
 export const notesAPI = {
     getNotes: (args: { showHiddenFiles?: boolean } = {}) => fetchAPI<Note[]>("list", args),
-    searchNotes: (args: { query: string }) => fetchAPI<SearchResult[]>("search", args),
+    searchNotes: (args: { query: string; limit?: number }) => fetchAPI<SearchResult[]>("search", args),
+    semanticSearch: (args: { query: string; limit?: number }) => fetchAPI<SemanticHit[]>("semantic-search", args),
+    rebuildSearchIndex: () => fetchAPI<{ fileCount: number; termCount: number }>("search/rebuild"),
     getNoteByFileName: async (args: { fileName: string; skipCache?: boolean }): Promise<Note> => {
         // Check cache first (unless skipCache is true)
         if (!args.skipCache) {
@@ -82,6 +87,8 @@ export const notesAPI = {
     saveNote: async (args: { fileName: string; content: string }): Promise<Note> => {
         const note = await fetchAPI<Note>("save", args);
         setCachedNote(args.fileName, note);
+        // Lets embeds of this note refresh
+        emit("notes:saved", { fileName: args.fileName });
         return note;
     },
     deleteNote: async (args: { fileName: string }): Promise<{ success: boolean }> => {
@@ -107,6 +114,26 @@ export const notesAPI = {
                 frontMatter?: Record<string, unknown>;
             }>
         >("recent-daily", args),
+    getDailyNotesInRange: (args: { startDate: string; endDate: string }) =>
+        fetchAPI<Array<{ date: string; fileName: string }>>("daily-range", args),
+    openDailyNote: (args: { date: string }) =>
+        fetchAPI<{ fileName: string; created: boolean; content: string }>("daily-open", args),
+    migrateDailyNotes: async (args: { from: DailyNoteSettings; to: DailyNoteSettings }) => {
+        const result = await fetchAPI<{ renamed: Array<{ from: string; to: string }>; skipped: string[]; linksUpdated: number }>(
+            "daily-migrate",
+            args
+        );
+        // Renamed notes and rewritten links make any cached content stale
+        noteCache.clear();
+        return result;
+    },
+    getNoteTemplates: () =>
+        fetchAPI<Array<{ fileName: string; name: string; frontMatter?: Record<string, unknown> }>>("templates"),
+    createNoteFromTemplate: (args: { fileName: string; templateFileName: string; project?: string; tags?: string[] }) =>
+        fetchAPI<{ fileName: string; content: string; frontMatter?: Record<string, unknown>; cursorLine?: number }>(
+            "create-from-template",
+            args
+        ),
     // Folder operations
     getFolders: (args: { showHiddenFiles?: boolean } = {}) => fetchAPI<NoteFolder[]>("folders", args),
     createFolder: (args: { name: string; parentPath?: string }) => fetchAPI<NoteFolder>("folders/create", args),
@@ -122,9 +149,15 @@ export const notesAPI = {
     },
     // Backlinks operations
     getBacklinks: (args: { fileName: string }) => fetchAPI<BacklinksResult>("backlinks/get", args),
+    getUnlinkedMentions: (args: { fileName: string }) => fetchAPI<UnlinkedMentionsResult>("backlinks/unlinked-mentions", args),
     getAllPhantomLinks: () =>
         fetchAPI<Array<{ targetName: string; referencedIn: string[] }>>("backlinks/phantoms"),
     rebuildBacklinksIndex: () => fetchAPI<{ fileCount: number }>("backlinks/rebuild"),
+    renameLinkedAnchor: async (args: { fileName: string; oldAnchor: string; newAnchor: string }) => {
+        const result = await fetchAPI<{ updated: string[] }>("backlinks/rename-anchor", args);
+        result.updated.forEach(invalidateNoteCache);
+        return result;
+    },
     // Tags operations
     getAllTags: () => fetchAPI<TagSuggestion[]>("tags/list"),
     searchTags: (args: { query: string }) => fetchAPI<TagSuggestion[]>("tags/search", args),
@@ -0,0 +1,92 @@
+import { useSyncExternalStore } from "react";
+import type { PendingEdit } from "@/types/PendingEdit";
+
+// Pending edits by note file name; filled from the API and from pending_edit chat stream events
+let pendingEdits = new Map<string, PendingEdit>();
+const listeners = new Set<() => void>();
+
+function notifyListeners(): void {
+    for (const listener of listeners) {
+        listener();
+    }
+}
+
+export function upsertPendingEdit(edit: PendingEdit): void {
+    const next = new Map(pendingEdits);
+    next.set(edit.noteFileName, edit);
+    pendingEdits = next;
+    notifyListeners();
+}
+
+export function removePendingEdit(noteFileName: string): void {
+    if (!pendingEdits.has(noteFileName)) return;
+    const next = new Map(pendingEdits);
+    next.delete(noteFileName);
+    pendingEdits = next;
+    notifyListeners();
+}
+
+function subscribe(listener: () => void): () => void {
+    listeners.add(listener);
+    return () => {
+        listeners.delete(listener);
+    };
+}
+
+function getSnapshot(): Map<string, PendingEdit> {
+    return pendingEdits;
+}
+
+async function fetchAPI<T>(endpoint: string, body: object): Promise<T> {
+    const response = await fetch(`/api/pending-edits/${endpoint}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+    });
+    const data = await response.json();
+    if (!response.ok) {
+        throw new Error(data.error || `API error: ${response.status}`);
+    }
+    return data;
+}
+
+// Apply an accept/reject result to the store: the remaining edit, or nothing left for the note
+function storeResult(noteFileName: string, result: { pendingEdit: PendingEdit | null }): PendingEdit | null {
+    if (result.pendingEdit) {
+        upsertPendingEdit(result.pendingEdit);
+    } else {
+        removePendingEdit(noteFileName);
+    }
+    return result.pendingEdit;
+}
+
+// Standalone API object for use outside React components
+export const pendingEditsAPI = {
+    loadForNote: async (args: { noteFileName: string }) => {
+        const edits = await fetchAPI<PendingEdit[]>("list", args);
+        const edit = edits[0];
+        if (edit) {
+            upsertPendingEdit(edit);
+        } else {
+            removePendingEdit(args.noteFileName);
+        }
+        return edit ?? null;
+    },
+
+    // Omit hunks to accept or reject every remaining hunk
+    accept: async (edit: PendingEdit, hunks?: number[]) =>
+        storeResult(edit.noteFileName, await fetchAPI("accept", { id: edit.id, hunks })),
+
+    reject: async (edit: PendingEdit, hunks?: number[]) =>
+        storeResult(edit.noteFileName, await fetchAPI("reject", { id: edit.id, hunks })),
+};
+
+export function usePendingEdit(noteFileName: string): PendingEdit | null {
+    const editMap = useSyncExternalStore(subscribe, getSnapshot, getSnapshot);
+    return editMap.get(noteFileName) ?? null;
+}
+
+// Hook wrapper for use in React components
+export function usePendingEditsAPI() {
+    return pendingEditsAPI;
+}
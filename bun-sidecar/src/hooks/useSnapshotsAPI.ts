@@ -0,0 +1,41 @@
+import type { Snapshot } from "@/services/snapshots";
+
+export type { Snapshot };
+
+export interface SnapshotRestoreResult {
+    restored: string[];
+    deleted: string[];
+    backup: Snapshot;
+}
+
+async function fetchAPI<T>(endpoint: string, options: RequestInit = {}): Promise<T> {
+    const response = await fetch(`/api/snapshots/${endpoint}`, {
+        headers: { "Content-Type": "application/json" },
+        ...options,
+    });
+    if (!response.ok) {
+        const data = await response.json().catch(() => null);
+        throw new Error(data?.error ?? `API error: ${response.status}`);
+    }
+    return response.json();
+}
+
+function post<T>(endpoint: string, args: object): Promise<T> {
+    return fetchAPI<T>(endpoint, { method: "POST", body: JSON.stringify(args) });
+}
+
+// Standalone API object for use outside React components
+export const snapshotsAPI = {
+    listSnapshots: () => fetchAPI<Snapshot[]>("list", { method: "GET" }),
+    createSnapshot: (args: { name: string }) => post<Snapshot>("create", args),
+    getFiles: (args: { id: string }) => post<string[]>("files", args),
+    getFile: (args: { id: string; path: string }) => post<{ content: string; binary: boolean }>("file", args),
+    // Without `paths`, restores the whole workspace
+    restore: (args: { id: string; paths?: string[] }) => post<SnapshotRestoreResult>("restore", args),
+    deleteSnapshot: (args: { id: string }) => post<{ success: boolean }>("delete", args),
+};
+
+// Hook wrapper for use in React components
+export function useSnapshotsAPI() {
+    return snapshotsAPI;
+}
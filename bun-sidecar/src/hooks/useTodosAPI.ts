@@ -1,4 +1,4 @@
-import { Todo } from "@/features/todos/todo-types";
+import { Todo, TodoTreeNode, Recurrence } from "@/features/todos/todo-types";
 import type { Attachment } from "@/types/attachments";
 
 interface CreateTodoInput {
@@ -9,6 +9,9 @@ interface CreateTodoInput {
     tags?: string[];
     dueDate?: string;
     attachments?: Attachment[];
+    recurrence?: Recurrence;
+    parentId?: string;
+    blockedBy?: string[];
 }
 
 interface UpdateTodoInput {
@@ -22,6 +25,9 @@ interface UpdateTodoInput {
         tags?: string[];
         dueDate?: string;
         attachments?: Attachment[];
+        recurrence?: Recurrence | null;
+        parentId?: string | null;
+        blockedBy?: string[];
     };
 }
 
@@ -44,14 +50,17 @@ async function fetchAPI<T>(endpoint: string, body: object = {}): Promise<T> {
 // Standalone API object for use outside React components
 export const todosAPI = {
     getTodos: (args: { project?: string } = {}) => fetchAPI<Todo[]>("list", args),
+    getTodoTree: (args: { project?: string } = {}) => fetchAPI<TodoTreeNode[]>("list", { ...args, tree: true }),
+    queryTodos: (args: { query: string; project?: string }) =>
+        fetchAPI<{ todos: Todo[]; errors: string[] }>("query", args),
     getTodoById: (args: { todoId: string }) => fetchAPI<Todo>("get", args),
     createTodo: (args: CreateTodoInput) => fetchAPI<Todo>("create", args),
     updateTodo: (args: UpdateTodoInput) => fetchAPI<Todo>("update", args),
-    deleteTodo: (args: { todoId: string }) => fetchAPI<{ success: boolean }>("delete", args),
+    deleteTodo: (args: { todoId: string; cascade?: boolean }) => fetchAPI<{ success: boolean }>("delete", args),
     getProjects: () => fetchAPI<string[]>("projects"),
     reorderTodos: (args: ReorderInput) => fetchAPI<{ success: boolean }>("reorder", args),
-    archiveTodo: (args: { todoId: string }) => fetchAPI<Todo>("archive", args),
-    unarchiveTodo: (args: { todoId: string }) => fetchAPI<Todo>("unarchive", args),
+    archiveTodo: (args: { todoId: string; cascade?: boolean }) => fetchAPI<Todo>("archive", args),
+    unarchiveTodo: (args: { todoId: string; cascade?: boolean }) => fetchAPI<Todo>("unarchive", args),
     getArchivedTodos: (args: { project?: string } = {}) => fetchAPI<Todo[]>("archived", args),
     getTags: () => fetchAPI<string[]>("tags"),
 };
@@ -1,6 +1,6 @@
 import { useState, useEffect, useCallback, useMemo, useRef } from "react";
 import { PluginInstance, PluginBase, SerializablePlugin } from "@/types/Plugin";
-import { WorkspaceState, WorkspaceTab, WorkspaceStateSchema, ProjectPreferences, GitAuthMode, NotesLocation, AutoSyncConfig, Pane, LayoutMode } from "@/types/Workspace";
+import { WorkspaceState, WorkspaceTab, WorkspaceStateSchema, ProjectPreferences, TodoSavedView, GitAuthMode, GitAuthProfile, NotesLocation, DailyNotesConfig, AutoSyncConfig, SemanticSearchConfig, Pane, LayoutMode } from "@/types/Workspace";
 import { type RouteParams } from "./useRouting";
 import { emit } from "@/lib/events";
 
@@ -19,9 +19,13 @@ export function useWorkspace(_initialRoute?: RouteParams) {
         layoutMode: "single",
         mcpServerConfigs: [],
         projectPreferences: {},
+        todoViews: [],
         gitAuthMode: "local",
+        gitAuth: { host: "github", username: "" },
         notesLocation: "root",
-        autoSync: { enabled: true, syncOnChanges: true, intervalSeconds: 60, paused: false },
+        dailyNotes: { pattern: "M-D-YYYY", folder: "", templatePath: "" },
+        autoSync: { enabled: true, syncOnChanges: true, intervalSeconds: 60, paused: false, ignorePatterns: [], includeFolders: [], largeFileThresholdMB: 25 },
+        semanticSearch: { provider: "openai-compatible", model: "", baseUrl: "", attachToChat: false, topK: 5 },
         chatInputEnterToSend: true,
         showHiddenFiles: false,
     });
@@ -191,9 +195,9 @@ export function useWorkspace(_initialRoute?: RouteParams) {
 
         // For todos: match on project and view type
         if (pluginMeta.id === "todos") {
-            // For browser/kanban views, match on project filter
+            // For browser/kanban views, match on project filter and saved view
             if (view === "browser" || view === "kanban") {
-                return existingProps.project === props.project;
+                return existingProps.project === props.project && existingProps.viewId === props.viewId;
             }
             // For other views (projects, default), just match the view type
             return true;
@@ -670,6 +674,31 @@ export function useWorkspace(_initialRoute?: RouteParams) {
         [updateWorkspace]
     );
 
+    // Save a todos board view (creates it when no id is given)
+    const saveTodoView = useCallback(
+        (view: { id?: string; name: string; query: string }): TodoSavedView => {
+            const saved: TodoSavedView = { id: view.id ?? generateId("view"), name: view.name, query: view.query };
+            updateWorkspace((prev) => ({
+                ...prev,
+                todoViews: prev.todoViews.some((v) => v.id === saved.id)
+                    ? prev.todoViews.map((v) => (v.id === saved.id ? saved : v))
+                    : [...prev.todoViews, saved],
+            }));
+            return saved;
+        },
+        [updateWorkspace]
+    );
+
+    const deleteTodoView = useCallback(
+        (viewId: string) => {
+            updateWorkspace((prev) => ({
+                ...prev,
+                todoViews: prev.todoViews.filter((v) => v.id !== viewId),
+            }));
+        },
+        [updateWorkspace]
+    );
+
     // Git auth mode
     const setGitAuthMode = useCallback(
         (mode: GitAuthMode) => {
@@ -678,6 +707,14 @@ export function useWorkspace(_initialRoute?: RouteParams) {
         [updateWorkspace]
     );
 
+    // Git auth profile
+    const setGitAuthProfile = useCallback(
+        (profile: Partial<GitAuthProfile>) => {
+            updateWorkspace((prev) => ({ ...prev, gitAuth: { ...prev.gitAuth, ...profile } }));
+        },
+        [updateWorkspace]
+    );
+
     // Notes location
     const setNotesLocation = useCallback(
         (location: NotesLocation) => {
@@ -686,6 +723,17 @@ export function useWorkspace(_initialRoute?: RouteParams) {
         [updateWorkspace]
     );
 
+    // Daily notes config
+    const setDailyNotesConfig = useCallback(
+        (config: Partial<DailyNotesConfig>) => {
+            updateWorkspace((prev) => ({
+                ...prev,
+                dailyNotes: { ...prev.dailyNotes, ...config },
+            }));
+        },
+        [updateWorkspace]
+    );
+
     // Auto-sync config
     const setAutoSyncConfig = useCallback(
         (config: Partial<AutoSyncConfig>) => {
@@ -697,6 +745,17 @@ export function useWorkspace(_initialRoute?: RouteParams) {
         [updateWorkspace]
     );
 
+    // Semantic search config
+    const setSemanticSearchConfig = useCallback(
+        (config: Partial<SemanticSearchConfig>) => {
+            updateWorkspace((prev) => ({
+                ...prev,
+                semanticSearch: { ...prev.semanticSearch, ...config },
+            }));
+        },
+        [updateWorkspace]
+    );
+
     // Chat input preferences
     const setChatInputEnterToSend = useCallback(
         (enabled: boolean) => {
@@ -1075,18 +1134,33 @@ export function useWorkspace(_initialRoute?: RouteParams) {
         getProjectPreferences,
         setProjectPreferences,
 
+        // Saved todo views
+        todoViews: workspace.todoViews,
+        saveTodoView,
+        deleteTodoView,
+
         // Git auth mode
         gitAuthMode: workspace.gitAuthMode,
         setGitAuthMode,
+        gitAuth: workspace.gitAuth,
+        setGitAuthProfile,
 
         // Notes location
         notesLocation: workspace.notesLocation,
         setNotesLocation,
 
+        // Daily notes
+        dailyNotes: workspace.dailyNotes,
+        setDailyNotesConfig,
+
         // Auto-sync
         autoSync: workspace.autoSync,
         setAutoSyncConfig,
 
+        // Semantic search
+        semanticSearch: workspace.semanticSearch,
+        setSemanticSearchConfig,
+
         // Chat input preferences
         chatInputEnterToSend: workspace.chatInputEnterToSend,
         setChatInputEnterToSend,
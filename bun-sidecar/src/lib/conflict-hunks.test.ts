@@ -0,0 +1,31 @@
+import { describe, test, expect } from "bun:test";
+import { parseConflictHunks, resolveConflictHunks } from "./conflict-hunks";
+
+const merged = "intro\n<<<<<<< main\nours 1\n=======\ntheirs 1\n>>>>>>> origin/main\nmiddle\n<<<<<<< main\nours 2\n||||||| base\nbase 2\n=======\ntheirs 2\n>>>>>>> origin/main\n";
+
+describe("parseConflictHunks", () => {
+    test("splits a file into agreed text and conflicts, dropping base sections", () => {
+        expect(parseConflictHunks(merged)).toEqual([
+            { ok: "intro\n" },
+            { conflict: { ours: "ours 1\n", theirs: "theirs 1\n" } },
+            { ok: "middle\n" },
+            { conflict: { ours: "ours 2\n", theirs: "theirs 2\n" } },
+        ]);
+    });
+
+    test("keeps an unterminated conflict as text", () => {
+        expect(parseConflictHunks("a\n<<<<<<< main\nb\n")).toEqual([{ ok: "a\n<<<<<<< main\nb\n" }]);
+    });
+});
+
+describe("resolveConflictHunks", () => {
+    test("applies a choice per conflict", () => {
+        expect(resolveConflictHunks(parseConflictHunks(merged), ["theirs", "both"])).toBe("intro\ntheirs 1\nmiddle\nours 2\ntheirs 2\n");
+    });
+
+    test("keeps markers for conflicts without a choice", () => {
+        expect(resolveConflictHunks(parseConflictHunks(merged), ["ours"])).toBe(
+            "intro\nours 1\nmiddle\n<<<<<<< ours\nours 2\n=======\ntheirs 2\n>>>>>>> theirs\n"
+        );
+    });
+});
@@ -0,0 +1,94 @@
+/**
+ * Conflict hunks
+ *
+ * The pieces of a merged file: text both sides agree on, and conflicts between our version and
+ * theirs. The merge driver writes conflicts as standard git markers; the conflict resolver
+ * parses them back so each one can be resolved on its own.
+ */
+
+export type MergeSegment = { ok: string } | { conflict: { ours: string; theirs: string } };
+
+export type HunkChoice = "ours" | "theirs" | "both";
+
+const MARKER_SIZE = 7;
+
+// Marker lines need their own line, so each side has to end with a newline
+function withNewline(text: string): string {
+    return text === "" || text.endsWith("\n") ? text : `${text}\n`;
+}
+
+export function formatMergeSegments(segments: MergeSegment[], ourName = "ours", theirName = "theirs"): { cleanMerge: boolean; mergedText: string } {
+    let mergedText = "";
+    let cleanMerge = true;
+    for (const segment of segments) {
+        if ("ok" in segment) {
+            mergedText += segment.ok;
+            continue;
+        }
+        cleanMerge = false;
+        mergedText = withNewline(mergedText);
+        mergedText += `${"<".repeat(MARKER_SIZE)} ${ourName}\n`;
+        mergedText += withNewline(segment.conflict.ours);
+        mergedText += `${"=".repeat(MARKER_SIZE)}\n`;
+        mergedText += withNewline(segment.conflict.theirs);
+        mergedText += `${">".repeat(MARKER_SIZE)} ${theirName}\n`;
+    }
+    return { cleanMerge, mergedText };
+}
+
+/**
+ * Split a file with conflict markers into segments. Base sections (diff3 style) are dropped.
+ * An unterminated conflict is kept as plain text rather than guessed at.
+ */
+export function parseConflictHunks(text: string): MergeSegment[] {
+    const segments: MergeSegment[] = [];
+    const lines = text.match(/[^\n]*\n|[^\n]+$/g) ?? [];
+    let ok = "";
+    let conflict: { ours: string; theirs: string; raw: string; section: "ours" | "base" | "theirs" } | null = null;
+
+    for (const line of lines) {
+        if (!conflict) {
+            if (line.startsWith("<".repeat(MARKER_SIZE))) {
+                conflict = { ours: "", theirs: "", raw: line, section: "ours" };
+            } else {
+                ok += line;
+            }
+            continue;
+        }
+
+        conflict.raw += line;
+        if (line.startsWith("|".repeat(MARKER_SIZE)) && conflict.section === "ours") {
+            conflict.section = "base";
+        } else if (line.startsWith("=".repeat(MARKER_SIZE)) && conflict.section !== "theirs") {
+            conflict.section = "theirs";
+        } else if (line.startsWith(">".repeat(MARKER_SIZE)) && conflict.section === "theirs") {
+            if (ok) segments.push({ ok });
+            ok = "";
+            segments.push({ conflict: { ours: conflict.ours, theirs: conflict.theirs } });
+            conflict = null;
+        } else if (conflict.section === "ours") {
+            conflict.ours += line;
+        } else if (conflict.section === "theirs") {
+            conflict.theirs += line;
+        }
+    }
+
+    if (conflict) ok += conflict.raw;
+    if (ok) segments.push({ ok });
+    return segments;
+}
+
+// The file with each conflict replaced by the chosen side; conflicts without a choice keep their markers
+export function resolveConflictHunks(segments: MergeSegment[], choices: Array<HunkChoice | undefined>): string {
+    let conflictIndex = 0;
+    const resolved = segments.map((segment): MergeSegment => {
+        if ("ok" in segment) return segment;
+        const choice = choices[conflictIndex++];
+        const { ours, theirs } = segment.conflict;
+        if (choice === "ours") return { ok: ours };
+        if (choice === "theirs") return { ok: theirs };
+        if (choice === "both") return { ok: withNewline(ours) + theirs };
+        return segment;
+    });
+    return formatMergeSegments(resolved).mergedText;
+}
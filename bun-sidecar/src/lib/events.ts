@@ -75,6 +75,8 @@ export interface AppEventMap {
     "notes:runSpellcheck": Record<string, never>;
     "notes:clearSpellcheck": Record<string, never>;
     "notes:openSearch": Record<string, never>;
+    "notes:scrollToAnchor": { noteFileName: string; anchor: string };
+    "notes:saved": { fileName: string };
 }
 
 type AppEventType = keyof AppEventMap;
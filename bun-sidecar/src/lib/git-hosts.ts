@@ -0,0 +1,45 @@
+import type { GitHostType } from "@/types/Workspace";
+
+// What the sync setup shows for each kind of git host
+export interface GitHostInfo {
+    label: string;
+    urlPlaceholder: string;
+    tokenHelp: string;
+    tokenUrl?: string; // Self-hosted servers have no fixed address to link to
+    username: "none" | "optional" | "required";
+}
+
+export const GIT_HOSTS: Record<GitHostType, GitHostInfo> = {
+    github: {
+        label: "GitHub",
+        urlPlaceholder: "https://github.com/user/repo",
+        tokenHelp: "Create a personal access token with 'repo' scope",
+        tokenUrl: "https://github.com/settings/tokens/new?scopes=repo&description=Nomendex%20Sync",
+        username: "none",
+    },
+    gitlab: {
+        label: "GitLab",
+        urlPlaceholder: "https://gitlab.com/user/repo",
+        tokenHelp: "Create a personal access token with read_repository and write_repository scopes",
+        tokenUrl: "https://gitlab.com/-/user_settings/personal_access_tokens",
+        username: "optional",
+    },
+    gitea: {
+        label: "Gitea / Forgejo",
+        urlPlaceholder: "https://gitea.example.com/user/repo",
+        tokenHelp: "Create an access token with repository read and write access under Settings > Applications",
+        username: "optional",
+    },
+    bitbucket: {
+        label: "Bitbucket",
+        urlPlaceholder: "https://bitbucket.org/workspace/repo",
+        tokenHelp: "Create a repository access token with read and write permissions",
+        username: "optional",
+    },
+    generic: {
+        label: "Other",
+        urlPlaceholder: "https://git.example.com/user/repo.git",
+        tokenHelp: "Use the password or token your git server accepts with your username",
+        username: "required",
+    },
+};
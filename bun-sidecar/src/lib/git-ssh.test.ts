@@ -0,0 +1,65 @@
+import { describe, test, expect, beforeAll, afterAll } from "bun:test";
+import git from "isomorphic-git";
+import * as fs from "node:fs";
+import { chmod, mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { createGitClient } from "./git";
+
+describe("syncing with an SSH remote", () => {
+    let root: string;
+    const previousSshCommand = process.env.GIT_SSH_COMMAND;
+    const noCredentials = { username: "" };
+
+    beforeAll(async () => {
+        root = await mkdtemp(join(tmpdir(), "nomendex-ssh-"));
+        await Bun.spawn(["git", "init", "--bare", "-b", "main", join(root, "notes.git")]).exited;
+
+        // Stand-in for ssh that runs the remote git command locally, as sshd would on the server
+        const fakeSsh = join(root, "fake-ssh");
+        await Bun.write(fakeSsh, '#!/bin/sh\nfor last; do :; done\nexec sh -c "$last"\n');
+        await chmod(fakeSsh, 0o755);
+        process.env.GIT_SSH_COMMAND = fakeSsh;
+    });
+
+    afterAll(async () => {
+        if (previousSshCommand === undefined) {
+            delete process.env.GIT_SSH_COMMAND;
+        } else {
+            process.env.GIT_SSH_COMMAND = previousSshCommand;
+        }
+        await rm(root, { recursive: true, force: true });
+    });
+
+    async function createWorkspace(name: string, repo = "notes.git") {
+        const dir = join(root, name);
+        const client = createGitClient({ dir });
+        await client.init();
+        await client.addRemote("origin", `ssh://git@localhost${join(root, repo)}`);
+        return { dir, client };
+    }
+
+    test("pushes and fetches through the system git", async () => {
+        const laptop = await createWorkspace("laptop");
+        await Bun.write(join(laptop.dir, "Plan.md"), "# Plan\n");
+        await laptop.client.addAll();
+        await laptop.client.commit("Add plan");
+        const branch = (await laptop.client.currentBranch()) ?? "main";
+
+        expect(await laptop.client.isSshRemote("origin")).toBe(true);
+        await laptop.client.push(noCredentials, "origin", branch);
+        expect(await laptop.client.remoteBranchExists(noCredentials, "origin", branch)).toBe(true);
+        expect(await laptop.client.remoteBranchExists(noCredentials, "origin", "missing")).toBe(false);
+
+        const desktop = await createWorkspace("desktop");
+        await desktop.client.fetch(noCredentials, "origin", branch);
+        const head = await git.resolveRef({ fs, dir: laptop.dir, ref: "HEAD" });
+        expect(await git.resolveRef({ fs, dir: desktop.dir, ref: `origin/${branch}` })).toBe(head);
+    });
+
+    test("reports what git said when the remote can't be reached", async () => {
+        const stray = await createWorkspace("stray", "missing.git");
+
+        await expect(stray.client.fetch(noCredentials, "origin", "main")).rejects.toThrow(/missing\.git/);
+    });
+});
@@ -0,0 +1,53 @@
+/**
+ * Git transport for SSH remotes
+ *
+ * isomorphic-git only speaks HTTP(S), so fetches and pushes to SSH remotes run through the
+ * system git, which authenticates with the user's SSH keys and agent. Everything else still
+ * goes through isomorphic-git on the same repository.
+ */
+
+import { createServiceLogger } from "./logger";
+
+const logger = createServiceLogger("GIT");
+
+// Fail instead of waiting on a passphrase or host key prompt nobody can answer
+function getSshEnvironment(): Record<string, string | undefined> {
+    return {
+        ...process.env,
+        GIT_TERMINAL_PROMPT: "0",
+        GIT_SSH_COMMAND: process.env.GIT_SSH_COMMAND ?? "ssh -o BatchMode=yes",
+    };
+}
+
+async function runGit(dir: string, args: string[]): Promise<string> {
+    let proc;
+    try {
+        proc = Bun.spawn(["git", ...args], { cwd: dir, env: getSshEnvironment(), stdout: "pipe", stderr: "pipe" });
+    } catch {
+        throw new Error("Syncing with an SSH remote needs git installed. Install git or use the repository's HTTPS URL.");
+    }
+
+    const [stdout, stderr, exitCode] = await Promise.all([
+        new Response(proc.stdout).text(),
+        new Response(proc.stderr).text(),
+        proc.exited,
+    ]);
+    if (exitCode !== 0) {
+        logger.error(`git ${args[0]} over SSH failed`, { exitCode, stderr: stderr.trim() });
+        throw new Error(stderr.trim() || `git ${args[0]} failed with exit code ${exitCode}`);
+    }
+    return stdout;
+}
+
+export async function sshFetch(dir: string, remote: string, ref?: string): Promise<void> {
+    await runGit(dir, ref ? ["fetch", remote, ref] : ["fetch", remote]);
+}
+
+export async function sshPush(dir: string, remote: string, ref = "HEAD"): Promise<void> {
+    await runGit(dir, ["push", remote, ref]);
+}
+
+export async function sshRemoteBranchExists(dir: string, remote: string, branch: string): Promise<boolean> {
+    const output = await runGit(dir, ["ls-remote", "--heads", remote, `refs/heads/${branch}`]);
+    return output.trim().length > 0;
+}
@@ -2,13 +2,17 @@
  * Git operations wrapper using isomorphic-git
  *
  * This module provides a clean interface for git operations without
- * requiring the git CLI to be installed.
+ * requiring the git CLI to be installed. SSH remotes are the exception:
+ * their fetches and pushes go through the system git (see git-ssh).
  */
 
 import git, { ReadCommitResult } from "isomorphic-git";
 import http from "isomorphic-git/http/node";
 import * as fs from "node:fs";
 import { createServiceLogger } from "./logger";
+import { mergeDriver } from "./merge-driver";
+import { isSshRemote, type GitCredentials } from "./git-auth";
+import { sshFetch, sshPush, sshRemoteBranchExists } from "./git-ssh";
 
 const logger = createServiceLogger("GIT");
 
@@ -26,6 +30,12 @@ export interface CommitInfo {
     date: string;
 }
 
+// A commit that changed a file, with the full oid for reading the file at that commit
+export interface FileVersion extends CommitInfo {
+    oid: string;
+    timestamp: string; // ISO date
+}
+
 export interface FileChange {
     path: string;
     status: "added" | "modified" | "deleted" | "untracked";
@@ -69,9 +79,8 @@ interface GitClientConfig {
     author?: { name: string; email: string };
 }
 
-interface AuthConfig {
-    token: string;
-}
+// Resolved for the remote's host by git-auth
+type AuthConfig = GitCredentials;
 
 /**
  * Create a git client for a specific directory
@@ -81,7 +90,8 @@ export function createGitClient(config: GitClientConfig) {
 
     // Helper to create onAuth callback
     const createOnAuth = (auth: AuthConfig) => () => ({
-        username: auth.token,
+        username: auth.username,
+        password: auth.password,
     });
 
     return {
@@ -194,10 +204,148 @@ export function createGitClient(config: GitClientConfig) {
         },
 
         /**
-         * Stage all changes (add new/modified, remove deleted)
+         * Get the commits that changed a file, newest first
          */
-        async addAll(): Promise<void> {
+        async fileLog(filepath: string, opts: { depth?: number } = {}): Promise<FileVersion[]> {
+            try {
+                const commits = await git.log({ fs, dir, filepath, ref: "HEAD", depth: opts.depth, force: true });
+                return commits.map((c: ReadCommitResult) => ({
+                    oid: c.oid,
+                    hash: c.oid.slice(0, 7),
+                    message: c.commit.message.split("\n")[0] ?? "",
+                    author: c.commit.author.name,
+                    date: formatRelativeTime(c.commit.author.timestamp * 1000),
+                    timestamp: new Date(c.commit.author.timestamp * 1000).toISOString(),
+                }));
+            } catch {
+                // No commits yet, or the file was never committed
+                return [];
+            }
+        },
+
+        /**
+         * Read a file as it was at a commit
+         */
+        async readFileAtCommit(oid: string, filepath: string): Promise<string> {
+            const { blob } = await git.readBlob({ fs, dir, oid, filepath });
+            return Buffer.from(blob).toString("utf-8");
+        },
+
+        /**
+         * Read a file as it was at a commit, as raw bytes
+         */
+        async readFileBytesAtCommit(oid: string, filepath: string): Promise<Uint8Array> {
+            const { blob } = await git.readBlob({ fs, dir, oid, filepath });
+            return blob;
+        },
+
+        /**
+         * List the files in a commit's tree
+         */
+        async listFilesAtCommit(oid: string): Promise<string[]> {
+            return await git.listFiles({ fs, dir, ref: oid });
+        },
+
+        /**
+         * List the files in the working directory, leaving out ignored ones
+         */
+        async listWorkdirFiles(): Promise<string[]> {
             const matrix = await git.statusMatrix({ fs, dir });
+            return matrix.filter(([, , workdir]) => workdir !== 0).map(([filepath]) => filepath);
+        },
+
+        /**
+         * Commit the working directory as it is, ignored files and those `filter` rejects aside,
+         * without moving HEAD or touching the index. The commit's parent is HEAD, if there is one.
+         * Returns the commit's oid.
+         */
+        async commitWorkdir(message: string, opts: { filter?: (filepath: string) => boolean } = {}): Promise<string> {
+            type Entry = { mode: string; path: string; oid: string; type: "blob" | "tree" };
+
+            const root: Entry | undefined = await git.walk({
+                fs,
+                dir,
+                trees: [git.WORKDIR(), git.STAGE()],
+                map: async (filepath, [workdir, stage]) => {
+                    if (!workdir || filepath === ".git") return null;
+                    const path = filepath.split("/").pop() ?? filepath;
+                    if (filepath !== ".") {
+                        // Like git, a file that's already tracked isn't ignored
+                        if (!stage && (await git.isIgnored({ fs, dir, filepath }))) return null;
+                        if (opts.filter && !opts.filter(filepath)) return null;
+                    }
+
+                    const type = await workdir.type();
+                    if (type === "tree") {
+                        return { mode: "040000", path, oid: "", type: "tree" };
+                    }
+                    const mode = (await workdir.mode()).toString(8);
+                    if (type !== "blob" || mode === "120000") {
+                        return null; // Symlinks and special files aren't snapshotted
+                    }
+
+                    // Unchanged files are already in the object store; changed ones get written
+                    const oid = await workdir.oid();
+                    if (!stage || oid !== (await stage.oid())) {
+                        const content = await workdir.content();
+                        if (!content) return null;
+                        await git.writeBlob({ fs, dir, blob: content });
+                    }
+                    return { mode, path, oid, type: "blob" };
+                },
+                reduce: async (parent: Entry, children: Entry[]) => {
+                    if (parent.type === "blob") return parent;
+                    if (children.length === 0 && parent.path !== ".") return undefined; // git doesn't keep empty folders
+                    return { ...parent, oid: await git.writeTree({ fs, dir, tree: children }) };
+                },
+            });
+            const tree = root?.oid ?? (await git.writeTree({ fs, dir, tree: [] }));
+
+            let parent: string[] = [];
+            try {
+                parent = [await git.resolveRef({ fs, dir, ref: "HEAD" })];
+            } catch {
+                // No commits yet
+            }
+            return await git.commit({ fs, dir, message, author, tree, parent, noUpdateBranch: true });
+        },
+
+        /**
+         * Read a commit's full message and time
+         */
+        async readCommit(oid: string): Promise<{ oid: string; message: string; timestamp: string }> {
+            const { commit } = await git.readCommit({ fs, dir, oid });
+            return { oid, message: commit.message, timestamp: new Date(commit.author.timestamp * 1000).toISOString() };
+        },
+
+        /**
+         * List tags, optionally only those starting with `prefix`
+         */
+        async listTags(prefix = ""): Promise<string[]> {
+            const tags = await git.listTags({ fs, dir });
+            return tags.filter((tag) => tag.startsWith(prefix));
+        },
+
+        /**
+         * Tag a commit (lightweight tag)
+         */
+        async createTag(name: string, oid: string): Promise<void> {
+            await git.tag({ fs, dir, ref: name, object: oid });
+        },
+
+        async deleteTag(name: string): Promise<void> {
+            await git.deleteTag({ fs, dir, ref: name });
+        },
+
+        async resolveTag(name: string): Promise<string> {
+            return await git.resolveRef({ fs, dir, ref: `refs/tags/${name}` });
+        },
+
+        /**
+         * Stage all changes (add new/modified, remove deleted), or only those of files passing `filter`
+         */
+        async addAll(opts: { filter?: (filepath: string) => boolean } = {}): Promise<void> {
+            const matrix = await git.statusMatrix({ fs, dir, filter: opts.filter });
 
             for (const [filepath, head, workdir] of matrix) {
                 if (workdir === 0 && head === 1) {
@@ -267,6 +415,14 @@ export function createGitClient(config: GitClientConfig) {
             }
         },
 
+        /**
+         * Check if a remote is reached over SSH, which needs the system git
+         */
+        async isSshRemote(name: string): Promise<boolean> {
+            const url = await this.getRemoteUrl(name);
+            return url !== undefined && isSshRemote(url);
+        },
+
         /**
          * Check if a remote exists
          */
@@ -295,6 +451,11 @@ export function createGitClient(config: GitClientConfig) {
          */
         async fetch(auth: AuthConfig, remote = "origin", ref?: string): Promise<void> {
             logger.info("Fetching from remote", { remote, ref });
+            if (await this.isSshRemote(remote)) {
+                await sshFetch(dir, remote, ref);
+                logger.info("Fetch completed");
+                return;
+            }
             await git.fetch({
                 fs,
                 http,
@@ -322,16 +483,7 @@ export function createGitClient(config: GitClientConfig) {
             }
 
             // Step 1: Fetch from remote
-            await git.fetch({
-                fs,
-                http,
-                dir,
-                remote,
-                ref: branch,
-                singleBranch: true,
-                onAuth: createOnAuth(auth),
-            });
-            logger.info("Fetch completed");
+            await this.fetch(auth, remote, branch);
 
             // Get current HEAD oid before merge
             const oursOid = await git.resolveRef({ fs, dir, ref: "HEAD" });
@@ -361,6 +513,8 @@ export function createGitClient(config: GitClientConfig) {
                     theirs: `${remote}/${branch}`,
                     abortOnConflict: false,
                     author,
+                    // Merges notes and todos by front matter key and by block, so only real conflicts get markers
+                    mergeDriver,
                 });
 
                 // CRITICAL: isomorphic-git's merge() does NOT update the working directory,
@@ -393,8 +547,9 @@ export function createGitClient(config: GitClientConfig) {
                     let conflictFiles: string[] = [];
 
                     const errorData = (e as { data?: unknown }).data;
-                    if (Array.isArray(errorData)) {
-                        conflictFiles = errorData.filter((item): item is string => typeof item === "string");
+                    const filepaths = Array.isArray(errorData) ? errorData : (errorData as { filepaths?: unknown } | undefined)?.filepaths;
+                    if (Array.isArray(filepaths)) {
+                        conflictFiles = filepaths.filter((item): item is string => typeof item === "string");
                     }
 
                     // If no conflict files from error, scan the working directory for conflict markers
@@ -435,6 +590,11 @@ export function createGitClient(config: GitClientConfig) {
          */
         async push(auth: AuthConfig, remote = "origin", ref?: string): Promise<void> {
             logger.info("Pushing to remote", { remote, ref });
+            if (await this.isSshRemote(remote)) {
+                await sshPush(dir, remote, ref);
+                logger.info("Push completed");
+                return;
+            }
             await git.push({
                 fs,
                 http,
@@ -453,6 +613,9 @@ export function createGitClient(config: GitClientConfig) {
             try {
                 const url = await this.getRemoteUrl(remote);
                 if (!url) return false;
+                if (isSshRemote(url)) {
+                    return await sshRemoteBranchExists(dir, remote, branch);
+                }
 
                 const refs = await git.listServerRefs({
                     http,
@@ -734,6 +897,18 @@ export function createGitClient(config: GitClientConfig) {
             }
         },
 
+        /**
+         * Resolve a conflict with content put together in the conflict resolver
+         */
+        async resolveConflictWithContent(filepath: string, content: string): Promise<void> {
+            logger.info("Resolving conflict with merged content", { filepath, length: content.length });
+            if (filepath.split("/").includes("..")) {
+                throw new Error(`Invalid file path: ${filepath}`);
+            }
+            await fs.promises.writeFile(`${dir}/${filepath}`, content, "utf-8");
+            await git.add({ fs, dir, filepath });
+        },
+
         /**
          * Get conflict content (ours, theirs, merged)
          * Uses our stored merge state to get the theirs version
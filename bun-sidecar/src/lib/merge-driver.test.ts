@@ -0,0 +1,83 @@
+import { describe, test, expect } from "bun:test";
+import { mergeDriver, mergeMarkdown, mergeSequences, splitBlocks } from "./merge-driver";
+import { formatMergeSegments } from "./conflict-hunks";
+
+function merge(base: string, ours: string, theirs: string, path = "notes/a.md") {
+    return mergeDriver({ branches: ["base", "main", "origin/main"], contents: [base, ours, theirs], path }) as {
+        cleanMerge: boolean;
+        mergedText: string;
+    };
+}
+
+describe("splitBlocks", () => {
+    test("splits paragraphs, headings and list items, keeping fenced code whole", () => {
+        const text = "# Title\nIntro\n\n- one\n- two\n\n```\na\n\nb\n```\nend";
+        expect(splitBlocks(text)).toEqual(["# Title\nIntro\n\n", "- one\n", "- two\n\n", "```\na\n\nb\n```\nend"]);
+        expect(splitBlocks(text).join("")).toBe(text);
+    });
+});
+
+describe("mergeSequences", () => {
+    test("keeps non-overlapping changes from both sides", () => {
+        expect(mergeSequences(["a", "b", "c"], ["A", "b", "c"], ["a", "b", "C"])).toEqual([{ ok: "AbC" }]);
+    });
+
+    test("conflicts when both sides insert at the same place", () => {
+        expect(mergeSequences(["a"], ["a", "x"], ["a", "y"])).toEqual([{ ok: "a" }, { conflict: { ours: "x", theirs: "y" } }]);
+    });
+
+    test("treats touching changes as conflicts when asked", () => {
+        const segments = mergeSequences(["a", "b"], ["A", "b"], ["a", "B"], { adjacentConflicts: true });
+        expect(segments).toEqual([{ conflict: { ours: "Ab", theirs: "aB" } }]);
+    });
+});
+
+describe("mergeMarkdown", () => {
+    test("merges edits to different paragraphs of a note", () => {
+        const base = "# Plan\n\nFirst.\n\nSecond.\n";
+        const result = merge(base, "# Plan\n\nFirst, edited.\n\nSecond.\n", "# Plan\n\nFirst.\n\nSecond, edited.\n");
+        expect(result).toEqual({ cleanMerge: true, mergedText: "# Plan\n\nFirst, edited.\n\nSecond, edited.\n" });
+    });
+
+    test("merges different front matter keys of a todo", () => {
+        const base = "---\nid: t1\nstatus: todo\ntitle: Write\nupdatedAt: \"2025-03-04T10:00:00.000Z\"\n---\n";
+        const ours = "---\nid: t1\nstatus: done\ntitle: Write\nupdatedAt: \"2025-03-04T11:00:00.000Z\"\n---\n";
+        const theirs = "---\nid: t1\nstatus: todo\ntitle: Write docs\nupdatedAt: \"2025-03-04T12:00:00.000Z\"\n---\n";
+        expect(merge(base, ours, theirs)).toEqual({
+            cleanMerge: true,
+            mergedText: "---\nid: t1\nstatus: done\ntitle: Write docs\nupdatedAt: \"2025-03-04T12:00:00.000Z\"\n---\n",
+        });
+    });
+
+    test("lets the newer updatedAt win a key both sides changed", () => {
+        const base = "---\nstatus: todo\nupdatedAt: 2025-03-04T10:00:00.000Z\n---\n";
+        const ours = "---\nstatus: done\nupdatedAt: 2025-03-04T12:00:00.000Z\n---\n";
+        const theirs = "---\nstatus: in_progress\nupdatedAt: 2025-03-04T11:00:00.000Z\n---\n";
+        expect(merge(base, ours, theirs).mergedText).toBe(ours);
+    });
+
+    test("keeps multi-line values together and conflicts without an updatedAt", () => {
+        const base = "---\ntags:\n  - a\n---\nBody\n";
+        const segments = mergeMarkdown(base, "---\ntags:\n  - b\n---\nBody\n", "---\ntags:\n  - c\n---\nBody\n");
+        expect(segments).toEqual([
+            { ok: "---\n" },
+            { conflict: { ours: "tags:\n  - b\n", theirs: "tags:\n  - c\n" } },
+            { ok: "---\n" },
+            { ok: "Body\n" },
+        ]);
+    });
+
+    test("leaves edits to the same paragraph between conflict markers", () => {
+        const result = merge("Hello\n", "Hello there\n", "Hello world\n");
+        expect(result.cleanMerge).toBe(false);
+        expect(result.mergedText).toBe("<<<<<<< main\nHello there\n=======\nHello world\n>>>>>>> origin/main\n");
+    });
+});
+
+describe("formatMergeSegments", () => {
+    test("ends each side with a newline before the markers", () => {
+        expect(formatMergeSegments([{ ok: "a\n" }, { conflict: { ours: "b", theirs: "c" } }]).mergedText).toBe(
+            "a\n<<<<<<< ours\nb\n=======\nc\n>>>>>>> theirs\n"
+        );
+    });
+});
@@ -0,0 +1,227 @@
+/**
+ * Merge driver for sync
+ *
+ * isomorphic-git calls this for each file changed on both sides of a pull. Markdown files, which
+ * covers notes and the todos FileDatabase writes, are merged the way they're structured: front
+ * matter key by key, with the newer `updatedAt` winning when both sides changed the same key, and
+ * the body block by block, so edits to different paragraphs or list items don't conflict. Other
+ * files are merged line by line. Whatever is left is written with conflict markers for the
+ * conflict resolver.
+ */
+
+import { diffArrays } from "diff";
+import type { MergeDriverCallback } from "isomorphic-git";
+import { formatMergeSegments, type MergeSegment } from "./conflict-hunks";
+
+// A change one side made to the base: base[start, end) replaced by `items`
+type Change = { start: number; end: number; items: string[]; side: "ours" | "theirs" };
+
+const FRONT_MATTER_REGEX = /^---\n([\s\S]*?\n)?---(?:\n|$)/;
+const FENCE_REGEX = /^\s*(```|~~~)/;
+// Headings and list items start a block even without a blank line before them
+const BLOCK_START_REGEX = /^(#{1,6}\s|\s*([-*+]|\d+[.)])\s)/;
+const FRONT_MATTER_KEY_REGEX = /^([^\s#-][^:]*):/;
+
+function splitLines(text: string): string[] {
+    return text.match(/[^\n]*\n|[^\n]+$/g) ?? [];
+}
+
+/**
+ * Split a markdown body into blocks: paragraphs, headings, list items and fenced code. Each block
+ * keeps the blank lines after it, so joining the blocks gives back the text.
+ */
+export function splitBlocks(text: string): string[] {
+    const blocks: string[] = [];
+    let current = "";
+    let inFence = false;
+    let afterBlank = false;
+
+    for (const line of splitLines(text)) {
+        const isBlank = line.trim() === "";
+        const startsBlock = !inFence && !isBlank && (afterBlank || BLOCK_START_REGEX.test(line) || FENCE_REGEX.test(line));
+        if (startsBlock && current) {
+            blocks.push(current);
+            current = "";
+        }
+        if (FENCE_REGEX.test(line)) {
+            inFence = !inFence;
+        }
+        current += line;
+        afterBlank = !inFence && isBlank;
+    }
+
+    if (current) blocks.push(current);
+    return blocks;
+}
+
+function getChanges(base: string[], side: string[], name: Change["side"]): Change[] {
+    const changes: Change[] = [];
+    let index = 0;
+    for (const part of diffArrays(base, side)) {
+        // A removal followed by an addition is one replacement
+        const last = changes[changes.length - 1];
+        const extendsLast = last !== undefined && last.end === index;
+        if (part.added) {
+            if (extendsLast) last.items.push(...part.value);
+            else changes.push({ start: index, end: index, items: [...part.value], side: name });
+        } else if (part.removed) {
+            if (extendsLast) last.end += part.value.length;
+            else changes.push({ start: index, end: index + part.value.length, items: [], side: name });
+            index += part.value.length;
+        } else {
+            index += part.value.length;
+        }
+    }
+    return changes;
+}
+
+function applyChanges(base: string[], start: number, end: number, changes: Change[]): string[] {
+    const result: string[] = [];
+    let position = start;
+    for (const change of changes) {
+        result.push(...base.slice(position, change.start), ...change.items);
+        position = change.end;
+    }
+    result.push(...base.slice(position, end));
+    return result;
+}
+
+/**
+ * Three-way merge of two edited copies of a sequence. Changes that don't overlap are both kept;
+ * overlapping changes conflict unless they're identical. Two insertions at the same place always
+ * overlap; with `adjacentConflicts`, so do changes that merely touch, as in git's line merge.
+ */
+export function mergeSequences(
+    base: string[],
+    ours: string[],
+    theirs: string[],
+    options: { adjacentConflicts?: boolean } = {}
+): MergeSegment[] {
+    const changes = [...getChanges(base, ours, "ours"), ...getChanges(base, theirs, "theirs")].sort(
+        (a, b) => a.start - b.start || a.end - b.end
+    );
+    const segments: MergeSegment[] = [];
+    const pushOk = (items: string[]) => {
+        if (items.length === 0) return;
+        const last = segments[segments.length - 1];
+        if (last && "ok" in last) last.ok += items.join("");
+        else segments.push({ ok: items.join("") });
+    };
+
+    let position = 0;
+    let i = 0;
+    while (i < changes.length) {
+        const group = [changes[i]!];
+        let end = changes[i]!.end;
+        i++;
+        while (i < changes.length) {
+            const next = changes[i]!;
+            const touches = next.start === end;
+            const sameInsertionPoint = touches && next.start === next.end && group.some((c) => c.start === end && c.end === end);
+            if (next.start < end || (touches && (options.adjacentConflicts || sameInsertionPoint))) {
+                group.push(next);
+                end = Math.max(end, next.end);
+                i++;
+            } else {
+                break;
+            }
+        }
+
+        const start = group[0]!.start;
+        pushOk(base.slice(position, start));
+        const oursChanges = group.filter((c) => c.side === "ours");
+        const theirsChanges = group.filter((c) => c.side === "theirs");
+        const oursItems = applyChanges(base, start, end, oursChanges);
+        const theirsItems = applyChanges(base, start, end, theirsChanges);
+        if (theirsChanges.length === 0 || oursItems.join("") === theirsItems.join("")) {
+            pushOk(oursItems);
+        } else if (oursChanges.length === 0) {
+            pushOk(theirsItems);
+        } else {
+            segments.push({ conflict: { ours: oursItems.join(""), theirs: theirsItems.join("") } });
+        }
+        position = end;
+    }
+
+    pushOk(base.slice(position));
+    return segments;
+}
+
+type FrontMatter = Map<string, string>; // key → its raw lines
+
+function splitFrontMatter(text: string): { frontMatter: FrontMatter | null; body: string } {
+    const match = text.match(FRONT_MATTER_REGEX);
+    if (!match) {
+        return { frontMatter: null, body: text };
+    }
+
+    const frontMatter: FrontMatter = new Map();
+    let key = "";
+    for (const line of splitLines(match[1] ?? "")) {
+        // Indented lines and list items continue the key above them
+        key = line.match(FRONT_MATTER_KEY_REGEX)?.[1]?.trim() ?? key;
+        frontMatter.set(key, (frontMatter.get(key) ?? "") + line);
+    }
+    return { frontMatter, body: text.slice(match[0].length) };
+}
+
+function getUpdatedAt(frontMatter: FrontMatter | null): number {
+    const raw = frontMatter?.get("updatedAt")?.replace(/^updatedAt:/, "").trim().replace(/^["']|["']$/g, "");
+    const time = raw ? Date.parse(raw) : NaN;
+    return Number.isNaN(time) ? 0 : time;
+}
+
+/**
+ * Merge front matter key by key. When both sides changed a key differently, the side with the
+ * newer `updatedAt` wins; without one to go by, the key conflicts.
+ */
+export function mergeFrontMatter(base: FrontMatter | null, ours: FrontMatter | null, theirs: FrontMatter | null): MergeSegment[] {
+    const oursUpdated = getUpdatedAt(ours);
+    const theirsUpdated = getUpdatedAt(theirs);
+    const newer = oursUpdated > theirsUpdated ? ours : theirsUpdated > oursUpdated ? theirs : null;
+
+    const keys = [...new Set([...(ours?.keys() ?? []), ...(theirs?.keys() ?? [])])];
+    const segments: MergeSegment[] = [];
+    for (const key of keys) {
+        const [b, o, t] = [base?.get(key), ours?.get(key), theirs?.get(key)];
+        let value: string | undefined;
+        if (o === t || t === b) {
+            value = o;
+        } else if (o === b) {
+            value = t;
+        } else if (newer) {
+            value = newer.get(key);
+        } else {
+            segments.push({ conflict: { ours: o ?? "", theirs: t ?? "" } });
+            continue;
+        }
+        if (value !== undefined) segments.push({ ok: value });
+    }
+    return segments;
+}
+
+function mergeBodies(base: string, ours: string, theirs: string): MergeSegment[] {
+    return mergeSequences(splitBlocks(base), splitBlocks(ours), splitBlocks(theirs));
+}
+
+export function mergeMarkdown(base: string, ours: string, theirs: string): MergeSegment[] {
+    const [b, o, t] = [splitFrontMatter(base), splitFrontMatter(ours), splitFrontMatter(theirs)];
+    const body = mergeBodies(b.body, o.body, t.body);
+    if (!o.frontMatter && !t.frontMatter) {
+        return body;
+    }
+
+    const frontMatter = mergeFrontMatter(b.frontMatter, o.frontMatter, t.frontMatter);
+    if (frontMatter.length === 0) {
+        return body;
+    }
+    return [{ ok: "---\n" }, ...frontMatter, { ok: "---\n" }, ...body];
+}
+
+export const mergeDriver: MergeDriverCallback = ({ branches, contents, path }) => {
+    const [base = "", ours = "", theirs = ""] = contents;
+    const segments = path.endsWith(".md")
+        ? mergeMarkdown(base, ours, theirs)
+        : mergeSequences(splitLines(base), splitLines(ours), splitLines(theirs), { adjacentConflicts: true });
+    return formatMergeSegments(segments, branches[1], branches[2]);
+};
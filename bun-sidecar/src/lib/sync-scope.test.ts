@@ -0,0 +1,82 @@
+import { describe, test, expect } from "bun:test";
+import { SYNC_IGNORE_PRESETS, isInSyncScope, matchesIgnorePattern, planSync, type SyncCandidate } from "./sync-scope";
+
+describe("matchesIgnorePattern", () => {
+    test("folder rules match everything inside the folder at any depth", () => {
+        expect(matchesIgnorePattern("uploads/photo.png", "uploads/")).toBe(true);
+        expect(matchesIgnorePattern("notes/uploads/a/photo.png", "uploads/")).toBe(true);
+        expect(matchesIgnorePattern("uploads", "uploads/")).toBe(false);
+        expect(matchesIgnorePattern("my-uploads/photo.png", "uploads/")).toBe(false);
+    });
+
+    test("rules without a slash match names anywhere", () => {
+        expect(matchesIgnorePattern("clips/demo.mp4", "*.mp4")).toBe(true);
+        expect(matchesIgnorePattern("demo.mp4.md", "*.mp4")).toBe(false);
+        expect(matchesIgnorePattern("Private/journal.md", "Private")).toBe(true);
+    });
+
+    test("rules with a slash match from the workspace root", () => {
+        expect(matchesIgnorePattern("notes/private/a.md", "notes/private")).toBe(true);
+        expect(matchesIgnorePattern("archive/notes/private/a.md", "notes/private")).toBe(false);
+        expect(matchesIgnorePattern("drafts/a.md", "/drafts")).toBe(true);
+        expect(matchesIgnorePattern("notes/a/b/c.log", "notes/**/*.log")).toBe(true);
+        expect(matchesIgnorePattern("notes/c.log", "notes/**/*.log")).toBe(true);
+    });
+
+    test("skips comments and blank lines", () => {
+        expect(matchesIgnorePattern("a.md", "# a.md")).toBe(false);
+        expect(matchesIgnorePattern("a.md", "  ")).toBe(false);
+    });
+});
+
+describe("isInSyncScope", () => {
+    test("limits sync to the chosen folders, then applies ignore rules", () => {
+        const scope = { includeFolders: ["/notes/", "todos"], ignorePatterns: ["notes/private/"] };
+        expect(isInSyncScope("notes/plan.md", scope)).toBe(true);
+        expect(isInSyncScope("todos/todo-1.md", scope)).toBe(true);
+        expect(isInSyncScope("notes/private/diary.md", scope)).toBe(false);
+        expect(isInSyncScope("uploads/photo.png", scope)).toBe(false);
+        expect(isInSyncScope("notes-old/plan.md", scope)).toBe(false);
+    });
+});
+
+describe("planSync", () => {
+    const candidates: SyncCandidate[] = [
+        { path: "notes/plan.md", status: "modified", size: 1_000 },
+        { path: "uploads/video.mov", status: "untracked", size: 900_000_000 },
+        { path: "notes/recording.m4a", status: "untracked", size: 30 * 1024 * 1024 },
+        { path: "notes/old.md", status: "deleted", size: 0 },
+    ];
+
+    test("flags files over the size limit and counts excluded files", () => {
+        const plan = planSync(candidates, { ignorePatterns: ["uploads/"], includeFolders: [], largeFileThresholdMB: 25 });
+        expect(plan.files.map((f) => f.path)).toEqual(["notes/plan.md", "notes/old.md"]);
+        expect(plan.largeFiles.map((f) => f.path)).toEqual(["notes/recording.m4a"]);
+        expect(plan.excludedCount).toBe(1);
+    });
+
+    test("a limit of 0 commits files of any size", () => {
+        const plan = planSync(candidates, { ignorePatterns: [], includeFolders: [], largeFileThresholdMB: 0 });
+        expect(plan.files).toHaveLength(4);
+        expect(plan.largeFiles).toHaveLength(0);
+    });
+});
+
+describe("SYNC_IGNORE_PRESETS", () => {
+    // Paths as a sync sees them, relative to the workspace root (.nomendex/ is always gitignored)
+    const examples: Record<string, string> = {
+        Uploads: "uploads/photo.png",
+        "Videos and archives": "notes/clips/demo.mp4",
+    };
+
+    test("every preset leaves out a file a sync would otherwise commit", () => {
+        for (const preset of SYNC_IGNORE_PRESETS) {
+            const path = examples[preset.label];
+            expect(path).toBeDefined();
+            const candidates: SyncCandidate[] = [{ path: path!, status: "untracked", size: 1_000 }];
+            expect(planSync(candidates, { ignorePatterns: [], includeFolders: [], largeFileThresholdMB: 0 }).files).toHaveLength(1);
+            const plan = planSync(candidates, { ignorePatterns: preset.patterns, includeFolders: [], largeFileThresholdMB: 0 });
+            expect(plan.excludedCount).toBe(1);
+        }
+    });
+});
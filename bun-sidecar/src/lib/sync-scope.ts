@@ -0,0 +1,97 @@
+/**
+ * Sync scope
+ *
+ * Which changed files a sync commits. Files matching an ignore rule, or outside the folders the
+ * workspace syncs, are left out, as are files over the size limit so a stray video doesn't end
+ * up in the repository's history. Ignore rules use a subset of .gitignore syntax:
+ * - `uploads/` matches a folder (and everything in it) at any depth
+ * - `*.mp4` matches file and folder names at any depth
+ * - `private/journal` or `/drafts` (containing a slash) match from the workspace root
+ * - `*` and `?` stay within a path segment, `**` crosses segments
+ * Blank lines and lines starting with `#` are skipped. Negation (`!`) isn't supported.
+ */
+
+import type { AutoSyncConfig } from "@/types/Workspace";
+
+export type SyncScope = Pick<AutoSyncConfig, "ignorePatterns" | "includeFolders" | "largeFileThresholdMB">;
+
+export interface SyncCandidate {
+    path: string;
+    status: "added" | "modified" | "deleted" | "untracked";
+    size: number; // 0 for deleted files
+}
+
+export interface SyncPlan {
+    files: SyncCandidate[]; // Committed by the next sync
+    largeFiles: SyncCandidate[]; // Over the size limit, left uncommitted
+    excludedCount: number; // Ignored or outside the synced folders
+}
+
+export const SYNC_IGNORE_PRESETS: Array<{ label: string; patterns: string[] }> = [
+    { label: "Uploads", patterns: ["uploads/"] },
+    { label: "Videos and archives", patterns: ["*.mp4", "*.mov", "*.zip"] },
+];
+
+function globToRegex(glob: string): string {
+    let source = "";
+    for (let i = 0; i < glob.length; i++) {
+        const char = glob[i]!;
+        if (char === "*" && glob[i + 1] === "*") {
+            const crossesSlash = glob[i + 2] === "/";
+            source += crossesSlash ? "(?:.*/)?" : ".*";
+            i += crossesSlash ? 2 : 1;
+        } else if (char === "*") {
+            source += "[^/]*";
+        } else if (char === "?") {
+            source += "[^/]";
+        } else {
+            source += char.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+        }
+    }
+    return source;
+}
+
+export function matchesIgnorePattern(filepath: string, pattern: string): boolean {
+    let rule = pattern.trim();
+    if (!rule || rule.startsWith("#")) {
+        return false;
+    }
+
+    const folderOnly = rule.endsWith("/");
+    rule = rule.replace(/\/+$/, "");
+    const anchored = rule.includes("/");
+    rule = rule.replace(/^\//, "");
+
+    // A folder rule needs something below the folder; other rules match the path itself too
+    const rest = folderOnly ? "/.*" : "(?:/.*)?";
+    const prefix = anchored ? "^" : "(?:^|/)";
+    return new RegExp(`${prefix}${globToRegex(rule)}${rest}$`).test(filepath);
+}
+
+// Folder entries are workspace-relative, with or without leading and trailing slashes
+export function normalizeSyncFolder(folder: string): string {
+    return folder.trim().replace(/^\/+|\/+$/g, "");
+}
+
+export function isInSyncScope(filepath: string, scope: Pick<SyncScope, "ignorePatterns" | "includeFolders">): boolean {
+    const folders = scope.includeFolders.map(normalizeSyncFolder).filter(Boolean);
+    if (folders.length > 0 && !folders.some((folder) => filepath === folder || filepath.startsWith(`${folder}/`))) {
+        return false;
+    }
+    return !scope.ignorePatterns.some((pattern) => matchesIgnorePattern(filepath, pattern));
+}
+
+export function planSync(candidates: SyncCandidate[], scope: SyncScope): SyncPlan {
+    const limit = scope.largeFileThresholdMB * 1024 * 1024;
+    const plan: SyncPlan = { files: [], largeFiles: [], excludedCount: 0 };
+    for (const candidate of candidates) {
+        if (!isInSyncScope(candidate.path, scope)) {
+            plan.excludedCount++;
+        } else if (limit > 0 && candidate.size > limit) {
+            plan.largeFiles.push(candidate);
+        } else {
+            plan.files.push(candidate);
+        }
+    }
+    return plan;
+}
@@ -1,6 +1,8 @@
 import { tool, createSdkMcpServer } from "@anthropic-ai/claude-agent-sdk";
 import { z } from "zod";
 
+export const UI_RENDERER_SERVER_NAME = "noetect-ui";
+
 /**
  * Inline MCP server that provides the render_ui tool.
  * This allows skills to render custom HTML UI back to the user.
@@ -8,13 +10,10 @@ import { z } from "zod";
  * The tool output is detected by the frontend and rendered in a sandboxed iframe
  * instead of being displayed as JSON.
  */
-export const uiRendererServer = createSdkMcpServer({
-    name: "noetect-ui",
-    version: "1.0.0",
-    tools: [
-        tool(
-            "render_ui",
-            `Render custom HTML UI to display interactive content to the user. Use this when you need to show rich UI elements like forms, charts, tables, or interactive widgets. The HTML will be rendered in a sandboxed iframe.
+export const uiRendererTools = [
+    tool(
+        "render_ui",
+        `Render custom HTML UI to display interactive content to the user. Use this when you need to show rich UI elements like forms, charts, tables, or interactive widgets. The HTML will be rendered in a sandboxed iframe.
 
 THEME INTEGRATION: The iframe automatically includes CSS variables matching the app's current theme. Use these in your styles:
 
@@ -40,27 +39,32 @@ Built-in utility classes: .card, .text-primary, .text-secondary, .text-muted, .t
 Button variants: button (default), button.primary, button.destructive
 
 Default styles are already applied to body, button, input, select, textarea, table, code, and pre elements.`,
-            {
-                html: z.string().describe("HTML content to render. Use the theme CSS variables (e.g., var(--surface-secondary)) for consistent styling. Do NOT include full HTML document structure - just the body content."),
-                title: z.string().optional().describe("Title displayed above the UI panel"),
-                height: z.number().optional().describe("Height of the UI panel in pixels (default: auto-resize to content)"),
-            },
-            async (args) => {
-                // The tool just passes through the HTML - the frontend handles rendering
-                return {
-                    content: [{
-                        type: "text" as const,
-                        text: JSON.stringify({
-                            __noetect_ui: true,
-                            html: args.html,
-                            title: args.title,
-                            height: args.height,
-                        })
-                    }]
-                };
-            }
-        )
-    ]
+        {
+            html: z.string().describe("HTML content to render. Use the theme CSS variables (e.g., var(--surface-secondary)) for consistent styling. Do NOT include full HTML document structure - just the body content."),
+            title: z.string().optional().describe("Title displayed above the UI panel"),
+            height: z.number().optional().describe("Height of the UI panel in pixels (default: auto-resize to content)"),
+        },
+        async (args) => {
+            // The tool just passes through the HTML - the frontend handles rendering
+            return {
+                content: [{
+                    type: "text" as const,
+                    text: JSON.stringify({
+                        __noetect_ui: true,
+                        html: args.html,
+                        title: args.title,
+                        height: args.height,
+                    })
+                }]
+            };
+        }
+    )
+];
+
+export const uiRendererServer = createSdkMcpServer({
+    name: UI_RENDERER_SERVER_NAME,
+    version: "1.0.0",
+    tools: uiRendererTools,
 });
 
 // Tool name as it will appear in the SDK
@@ -0,0 +1,159 @@
+import { describe, test, expect, beforeAll, afterAll, spyOn } from "bun:test";
+import { mkdir, mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { globalConfig } from "@/storage/global-config";
+import { getNotesPath, initializePaths } from "@/storage/root-path";
+import { initializeTodosService } from "@/features/todos/fx";
+import { functions as notesFunctions, initializeNotesService } from "@/features/notes/fx";
+import { getBacklinksForNote, rebuildIndex } from "@/features/notes/backlinks-service";
+import { getFilesWithTag, rebuildTagsIndex } from "@/features/notes/tags-service";
+import { rebuildSearchIndex } from "@/features/notes/search-service";
+import { listPendingEdits } from "@/services/pending-edits";
+import type { AgentFileEvent } from "@/services/agent-hooks";
+import type { AgentConfig } from "@/features/agents/index";
+import type { RunLog } from "@/features/agents/run-log";
+import { createWorkspaceTools } from "./workspace";
+
+const agentConfig: AgentConfig = {
+    id: "agent-1",
+    name: "Helper",
+    systemPrompt: "",
+    provider: "claude",
+    model: "claude-sonnet-4-5-20250929",
+    mcpServers: [],
+    allowedTools: [],
+    permissionRules: [],
+    reviewNoteEdits: false,
+    createdAt: "2025-01-01T00:00:00.000Z",
+    updatedAt: "2025-01-01T00:00:00.000Z",
+};
+
+const runLog: RunLog = { setSessionId: () => {}, record: () => {}, recordMessage: () => {}, flush: async () => {} };
+
+let root: string;
+const activeWorkspace = spyOn(globalConfig, "getActiveWorkspace");
+
+beforeAll(async () => {
+    root = await mkdtemp(join(tmpdir(), "nomendex-workspace-tools-"));
+    await mkdir(join(root, ".nomendex"), { recursive: true });
+    await mkdir(join(root, "todos"), { recursive: true });
+    const now = new Date().toISOString();
+    activeWorkspace.mockResolvedValue({ id: "test", path: root, name: "Test", createdAt: now, lastAccessedAt: now });
+
+    await initializePaths();
+    await initializeTodosService();
+    await initializeNotesService();
+    await rebuildIndex();
+    await rebuildTagsIndex();
+    await rebuildSearchIndex();
+});
+
+afterAll(async () => {
+    activeWorkspace.mockRestore();
+    await initializePaths();
+    await rm(root, { recursive: true, force: true });
+});
+
+// Call a tool the way the MCP server would and parse its JSON result
+async function callTool(name: string, args: Record<string, unknown>, context: { agentConfig?: AgentConfig; events?: AgentFileEvent[] } = {}) {
+    const events = context.events ?? [];
+    const tools = createWorkspaceTools({ agentConfig: context.agentConfig ?? agentConfig, runLog, onEvent: (event) => events.push(event) });
+    const definition = tools.find((candidate) => candidate.name === name)!;
+    const result = await definition.handler(args as never, {} as never);
+    const text = (result.content[0] as { text: string }).text;
+    if (result.isError) {
+        throw new Error(text);
+    }
+    return JSON.parse(text);
+}
+
+async function openNoteInEditor(noteFileName: string): Promise<void> {
+    const tab = {
+        id: "tab-1",
+        title: noteFileName,
+        pluginInstance: {
+            instanceId: "instance-1",
+            plugin: { id: "notes", name: "Notes", icon: "file" },
+            viewId: "editor",
+            instanceProps: { noteFileName },
+        },
+    };
+    await Bun.write(join(root, ".nomendex", "workspace.json"), JSON.stringify({ tabs: [tab], activeTabId: "tab-1", sidebarTabId: null }));
+}
+
+describe("todo tools", () => {
+    test("create, read, update, list and delete a todo", async () => {
+        const created = await callTool("create_todo", { title: "Book venue", project: "Launch", tags: ["events"] });
+        expect(created).toMatchObject({ title: "Book venue", project: "Launch", status: "todo" });
+
+        expect(await callTool("get_todo", { todoId: created.id })).toMatchObject({ id: created.id, title: "Book venue" });
+
+        const updated = await callTool("update_todo", { todoId: created.id, status: "in_progress", dueDate: "2025-03-01" });
+        expect(updated).toMatchObject({ id: created.id, status: "in_progress", dueDate: "2025-03-01" });
+
+        const listed = await callTool("list_todos", { project: "Launch" });
+        expect(listed.map((todo: { id: string }) => todo.id)).toEqual([created.id]);
+        expect((await callTool("list_todos", { query: "status:todo" })).todos).toEqual([]);
+
+        await callTool("delete_todo", { todoId: created.id });
+        await expect(callTool("get_todo", { todoId: created.id })).rejects.toThrow();
+    });
+});
+
+describe("template tools", () => {
+    test("lists templates and creates an indexed note from one", async () => {
+        await Bun.write(join(getNotesPath(), "templates", "Meeting.md"), "---\ntags: [meeting]\n---\n# {{title}}\nWith [[Sam]]\n");
+        expect((await callTool("list_note_templates", {})).map((template: { fileName: string }) => template.fileName)).toEqual(["templates/Meeting.md"]);
+
+        const note = await callTool("create_note_from_template", { fileName: "Meetings/Kickoff", templateFileName: "templates/Meeting.md", project: "Launch", tags: ["q3"] });
+        expect(note).toEqual({ fileName: "Meetings/Kickoff.md", frontMatter: { tags: ["meeting", "q3"], project: "Launch" } });
+
+        expect((await notesFunctions.getNoteByFileName.fx({ fileName: note.fileName })).content).toContain("# Kickoff");
+        expect(getFilesWithTag({ tag: "q3" })).toContain("notes:Meetings/Kickoff.md");
+        expect(getBacklinksForNote({ fileName: "Sam.md" }).backlinks.map((backlink) => backlink.sourceFile)).toContain("Meetings/Kickoff.md");
+        await expect(callTool("create_note_from_template", { fileName: "Meetings/Kickoff.md", templateFileName: "templates/Meeting.md" })).rejects.toThrow(/already exists/);
+    });
+});
+
+describe("append_to_daily_note", () => {
+    test("creates the note, appends, and keeps the backlinks, tags and search indexes current", async () => {
+        const first = await callTool("append_to_daily_note", { text: "- [ ] Call [[Sam]] about the #errand", date: "2025-03-04" });
+        expect(first.created).toBe(true);
+
+        const second = await callTool("append_to_daily_note", { text: "- Pick up the projector", date: "2025-03-04" });
+        expect(second).toEqual({ fileName: first.fileName, created: false });
+
+        const note = await notesFunctions.getNoteByFileName.fx({ fileName: first.fileName });
+        expect(note.content).toBe("- [ ] Call [[Sam]] about the #errand\n- Pick up the projector\n");
+
+        expect(getFilesWithTag({ tag: "errand" })).toContain(`notes:${first.fileName}`);
+        expect(getBacklinksForNote({ fileName: "Sam.md" }).backlinks.map((backlink) => backlink.sourceFile)).toContain(first.fileName);
+        const hits = await notesFunctions.searchNotes.fx({ query: "projector", limit: 5 });
+        expect(hits.map((hit) => hit.fileName)).toContain(first.fileName);
+    });
+
+    test("locks the note while writing it when it's open in the editor", async () => {
+        const { fileName } = await callTool("append_to_daily_note", { text: "Started", date: "2025-03-05" });
+        await openNoteInEditor(fileName);
+
+        const events: AgentFileEvent[] = [];
+        await callTool("append_to_daily_note", { text: "Done", date: "2025-03-05" }, { events });
+
+        expect(events.map((event) => event.type)).toEqual(["file_lock", "file_unlock"]);
+        await rm(join(root, ".nomendex", "workspace.json"));
+    });
+
+    test("holds the change for review when the agent is in review mode", async () => {
+        const { fileName } = await callTool("append_to_daily_note", { text: "Draft", date: "2025-03-06" });
+
+        const events: AgentFileEvent[] = [];
+        const result = await callTool("append_to_daily_note", { text: "Agent idea", date: "2025-03-06" }, { agentConfig: { ...agentConfig, reviewNoteEdits: true }, events });
+
+        expect(result.proposed).toBe(true);
+        expect((await notesFunctions.getNoteByFileName.fx({ fileName })).content).toBe("Draft\n");
+        const [pending] = await listPendingEdits({ noteFileName: fileName });
+        expect(pending?.proposedContent).toBe("Draft\nAgent idea\n");
+        expect(events.map((event) => event.type)).toEqual(["pending_edit"]);
+    });
+});
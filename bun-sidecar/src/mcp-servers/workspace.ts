@@ -0,0 +1,311 @@
+import { tool, createSdkMcpServer } from "@anthropic-ai/claude-agent-sdk";
+import { join } from "node:path";
+import { z } from "zod";
+import { functions as notesFunctions } from "@/features/notes/fx";
+import { toLocalDateString } from "@/features/notes/date-utils";
+import { appendMarkdown } from "@/features/notes/edit-hunks";
+import { getBacklinksForNote, onNoteCreated, onNoteSaved } from "@/features/notes/backlinks-service";
+import { getAllTags, getFilesWithTag, onNoteSavedTags } from "@/features/notes/tags-service";
+import { onNoteSavedSearch } from "@/features/notes/search-service";
+import { createTodo, deleteTodo, getTodoById, getTodos, queryTodos, updateTodo } from "@/features/todos/fx";
+import { getProjectStats, listProjects } from "@/features/projects/fx";
+import { type AgentToolContext, getReviewedNoteFileName, withOpenNoteLock } from "@/services/agent-hooks";
+import { proposeNoteEdit } from "@/services/pending-edits";
+import { getNotesPath } from "@/storage/root-path";
+
+/**
+ * Inline MCP server that gives agents typed access to workspace data:
+ * notes, daily notes, note templates, backlinks, tags, todos and projects.
+ *
+ * Tools call the feature functions directly instead of going through the HTTP API,
+ * and keep the backlinks, tags and search indexes up to date the same way the routes do.
+ * They're built per agent, so note changes follow the agent's review mode like its file tools do.
+ */
+
+const TodoStatusSchema = z.enum(["todo", "in_progress", "done", "later"]);
+
+function jsonResult(value: unknown) {
+    return { content: [{ type: "text" as const, text: JSON.stringify(value, null, 2) }] };
+}
+
+function errorResult(error: unknown) {
+    return {
+        content: [{ type: "text" as const, text: error instanceof Error ? error.message : String(error) }],
+        isError: true,
+    };
+}
+
+// Run a handler and report failures to the agent as tool errors instead of throwing
+async function run(handler: () => Promise<unknown>) {
+    try {
+        return jsonResult(await handler());
+    } catch (error) {
+        return errorResult(error);
+    }
+}
+
+function toNoteFileName(fileName: string): string {
+    return fileName.endsWith(".md") ? fileName : `${fileName}.md`;
+}
+
+export function createWorkspaceTools(context: AgentToolContext) {
+    const { agentConfig } = context;
+
+    return [
+        // ============ Notes ============
+        tool(
+            "search_notes",
+            "Full-text search across notes. Supports quoted phrases, prefix* terms and tag:/project:/folder: filters. Returns the best matching notes with a snippet.",
+            {
+                query: z.string().describe("Search query"),
+                limit: z.number().int().min(1).max(50).optional().describe("Maximum number of results (default 10)"),
+            },
+            async (args) =>
+                run(async () => {
+                    const hits = await notesFunctions.searchNotes.fx({ query: args.query, limit: args.limit ?? 10 });
+                    return hits.map((hit) => ({
+                        fileName: hit.fileName,
+                        score: Math.round(hit.score * 100) / 100,
+                        snippet: hit.snippet?.text,
+                    }));
+                })
+        ),
+        tool(
+            "read_note",
+            "Read a note's markdown content and front matter.",
+            {
+                fileName: z.string().describe("Note file name relative to the notes folder, e.g. 'projects/Alpha.md'"),
+            },
+            async (args) =>
+                run(async () => {
+                    const note = await notesFunctions.getNoteByFileName.fx({ fileName: toNoteFileName(args.fileName) });
+                    if (note.mtime === undefined) {
+                        throw new Error(`Note not found: ${args.fileName}`);
+                    }
+                    return { fileName: note.fileName, frontMatter: note.frontMatter, content: note.content };
+                })
+        ),
+        tool(
+            "list_notes",
+            "List note file names with their project and tags, optionally limited to a folder.",
+            {
+                folder: z.string().optional().describe("Only list notes in this folder (including subfolders)"),
+            },
+            async (args) =>
+                run(async () => {
+                    const notes = await notesFunctions.getNotes.fx({});
+                    return notes
+                        .filter((note) => !args.folder || note.fileName.startsWith(`${args.folder.replace(/\/$/, "")}/`))
+                        .map((note) => ({
+                            fileName: note.fileName,
+                            project: note.frontMatter?.project,
+                            tags: note.frontMatter?.tags,
+                        }));
+                })
+        ),
+        tool(
+            "append_to_daily_note",
+            "Append markdown to a daily note, creating the note from the daily template if it doesn't exist yet.",
+            {
+                text: z.string().describe("Markdown to append, e.g. '- [ ] Call Sam'"),
+                date: z.string().optional().describe("Date as YYYY-MM-DD (default today)"),
+            },
+            async (args) =>
+                run(async () => {
+                    const daily = await notesFunctions.openDailyNote.fx({ date: args.date ?? toLocalDateString(new Date()) });
+                    if (daily.created) {
+                        await onNoteCreated({ fileName: daily.fileName });
+                    }
+
+                    // A note created just now has nothing to review yet
+                    const notePath = join(getNotesPath(), daily.fileName);
+                    const reviewedNote = daily.created ? null : getReviewedNoteFileName(agentConfig, notePath);
+                    if (reviewedNote) {
+                        const pendingEdit = await proposeNoteEdit({
+                            noteFileName: reviewedNote,
+                            agentId: agentConfig.id,
+                            agentName: agentConfig.name,
+                            toolName: "Append",
+                            input: { text: args.text },
+                        });
+                        if (pendingEdit) {
+                            context.onEvent?.({ type: "pending_edit", pendingEdit });
+                        }
+                        return {
+                            fileName: daily.fileName,
+                            created: false,
+                            proposed: true,
+                            message: "Saved as a proposal for the user to review. Don't retry it.",
+                        };
+                    }
+
+                    // Read and write under the lock, so the editor can't save over the append in between
+                    const content = await withOpenNoteLock(context, notePath, async () => {
+                        const note = await notesFunctions.getNoteByFileName.fx({ fileName: daily.fileName });
+                        const appended = appendMarkdown(note.content, args.text);
+                        await notesFunctions.saveNote.fx({ fileName: daily.fileName, content: appended });
+                        return appended;
+                    });
+
+                    await onNoteSaved({ fileName: daily.fileName, content });
+                    await onNoteSavedTags({ fileName: daily.fileName, content });
+                    await onNoteSavedSearch({ fileName: daily.fileName });
+                    return { fileName: daily.fileName, created: daily.created };
+                })
+        ),
+        tool(
+            "list_note_templates",
+            "List the note templates in the templates folder with their front matter.",
+            {},
+            async () => run(async () => notesFunctions.getNoteTemplates.fx({}))
+        ),
+        tool(
+            "create_note_from_template",
+            "Create a note from a template, filling in its {{title}}, {{date}}, {{time}} and {{project}} placeholders. Fails if the note already exists.",
+            {
+                fileName: z.string().describe("New note file name relative to the notes folder, e.g. 'Meetings/Kickoff.md'"),
+                templateFileName: z.string().describe("Template file name from list_note_templates, e.g. 'templates/Meeting.md'"),
+                project: z.string().optional().describe("Project to set in the note's front matter"),
+                tags: z.array(z.string()).optional().describe("Tags to add to the template's tags"),
+            },
+            async (args) =>
+                run(async () => {
+                    const fileName = toNoteFileName(args.fileName);
+                    const note = await notesFunctions.createNoteFromTemplate.fx({ ...args, fileName });
+                    await onNoteCreated({ fileName });
+                    await onNoteSaved({ fileName, content: note.content });
+                    await onNoteSavedTags({ fileName, content: note.content });
+                    await onNoteSavedSearch({ fileName });
+                    return { fileName, frontMatter: note.frontMatter };
+                })
+        ),
+        tool(
+            "get_backlinks",
+            "List the notes that link to a note with [[wiki links]], including which headings they link to.",
+            {
+                fileName: z.string().describe("Note file name, e.g. 'Alpha.md'"),
+            },
+            async (args) => run(async () => getBacklinksForNote({ fileName: toNoteFileName(args.fileName) }).backlinks)
+        ),
+
+        // ============ Tags ============
+        tool(
+            "list_tags",
+            "List all tags used in notes and todos with how many notes use each.",
+            {},
+            async () => run(async () => getAllTags())
+        ),
+        tool(
+            "find_by_tag",
+            "Find the notes and open todos tagged with a tag.",
+            {
+                tag: z.string().describe("Tag name, with or without the leading #"),
+            },
+            async (args) =>
+                run(async () => {
+                    const tag = args.tag.replace(/^#/, "").toLowerCase();
+                    const notes = getFilesWithTag({ tag })
+                        .filter((fileRef) => fileRef.startsWith("notes:"))
+                        .map((fileRef) => fileRef.slice("notes:".length));
+                    const todos = (await getTodos({})).filter((todo) =>
+                        todo.tags?.some((todoTag) => todoTag.replace(/^#/, "").toLowerCase() === tag)
+                    );
+                    return { notes, todos: todos.map((todo) => ({ id: todo.id, title: todo.title, status: todo.status })) };
+                })
+        ),
+
+        // ============ Todos ============
+        tool(
+            "list_todos",
+            "List active todos, optionally for one project or filtered with a query such as 'status:todo due:<today tag:work'.",
+            {
+                project: z.string().optional().describe("Project name; an empty string means todos without a project"),
+                query: z.string().optional().describe("Todo query, e.g. 'status:in_progress', 'due:<2025-01-31', 'tag:urgent'"),
+            },
+            async (args) =>
+                run(async () => {
+                    if (args.query) {
+                        return queryTodos({ query: args.query, project: args.project });
+                    }
+                    return getTodos({ project: args.project });
+                })
+        ),
+        tool(
+            "get_todo",
+            "Get a todo by ID.",
+            {
+                todoId: z.string(),
+            },
+            async (args) => run(async () => getTodoById({ todoId: args.todoId }))
+        ),
+        tool(
+            "create_todo",
+            "Create a todo.",
+            {
+                title: z.string(),
+                description: z.string().optional(),
+                project: z.string().optional(),
+                status: TodoStatusSchema.optional(),
+                tags: z.array(z.string()).optional(),
+                dueDate: z.string().optional().describe("YYYY-MM-DD"),
+                parentId: z.string().optional().describe("Parent todo ID to create a subtask"),
+            },
+            async (args) => run(async () => createTodo(args))
+        ),
+        tool(
+            "update_todo",
+            "Update a todo's fields. Setting status to 'done' completes it.",
+            {
+                todoId: z.string(),
+                title: z.string().optional(),
+                description: z.string().optional(),
+                project: z.string().optional(),
+                status: TodoStatusSchema.optional(),
+                tags: z.array(z.string()).optional(),
+                dueDate: z.string().optional().describe("YYYY-MM-DD"),
+            },
+            async (args) =>
+                run(async () => {
+                    const { todoId, ...updates } = args;
+                    return updateTodo({ todoId, updates });
+                })
+        ),
+        tool(
+            "delete_todo",
+            "Delete a todo.",
+            {
+                todoId: z.string(),
+                cascade: z.boolean().optional().describe("Also delete its subtasks"),
+            },
+            async (args) => run(async () => deleteTodo(args))
+        ),
+
+        // ============ Projects ============
+        tool(
+            "list_projects",
+            "List projects.",
+            {
+                includeArchived: z.boolean().optional(),
+            },
+            async (args) => run(async () => listProjects({ includeArchived: args.includeArchived }))
+        ),
+        tool(
+            "get_project_stats",
+            "Count the todos and notes in a project.",
+            {
+                projectName: z.string(),
+            },
+            async (args) => run(async () => getProjectStats({ projectName: args.projectName }))
+        ),
+    ];
+}
+
+export const WORKSPACE_SERVER_NAME = "nomendex";
+
+export function createWorkspaceServer(tools: ReturnType<typeof createWorkspaceTools>) {
+    return createSdkMcpServer({
+        name: WORKSPACE_SERVER_NAME,
+        version: "1.0.0",
+        tools,
+    });
+}
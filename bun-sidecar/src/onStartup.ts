@@ -4,9 +4,12 @@ import { mkdir, access } from "node:fs/promises";
 import { constants } from "node:fs";
 import { initializeBacklinksWithData } from "./features/notes/backlinks-service";
 import { initializeTagsWithData } from "./features/notes/tags-service";
+import { initializeSearchWithData } from "./features/notes/search-service";
+import { initializeSemanticWithData } from "./features/notes/semantic-service";
 import { scanAndExtractAll } from "./features/notes/notes-indexer";
 import { initializeDefaultSkills } from "./services/default-skills";
 import { clearFileLocks } from "./services/file-locks";
+import { clearFileContentCache } from "./features/notes/file-scanner";
 import type { SkillUpdateCheckResult } from "./services/skills-types";
 
 /**
@@ -40,6 +43,7 @@ export async function onStartup(): Promise<SkillUpdateCheckResult | null> {
     startupLog.info(`Working directory: ${process.cwd()}`);
 
     clearFileLocks();
+    clearFileContentCache();
 
     // Only create directories if we have an active workspace
     if (!hasActiveWorkspace()) {
@@ -111,7 +115,7 @@ export async function onStartup(): Promise<SkillUpdateCheckResult | null> {
     }
 
     // Unified file scanning and index initialization
-    // Scans files once, filters online-only files, extracts wiki links and tags in one pass
+    // Scans files once, filters online-only files, extracts wiki links, tags and search terms in one pass
     startupLog.info("Scanning and indexing files...");
     try {
         const scanResult = await scanAndExtractAll({ notesOnly: false });
@@ -135,6 +139,23 @@ export async function onStartup(): Promise<SkillUpdateCheckResult | null> {
         const tagsResult = await initializeTagsWithData({ files: scanResult.files });
         startupLog.info(`Tags index: ${tagsResult.updated} updated, ${tagsResult.tagCount} unique tags`);
 
+        // Initialize full-text search from scanned data
+        startupLog.info("Building search index...");
+        const searchResult = await initializeSearchWithData({ files: scanResult.files });
+        startupLog.info(`Search index: ${searchResult.updated} updated, ${searchResult.total} total files`);
+
+        // Embedding can be slow (or go over the network), so build the semantic index in the background
+        startupLog.info("Building semantic index in background...");
+        initializeSemanticWithData({ files: scanResult.files })
+            .then((result) => {
+                startupLog.info(`Semantic index: ${result.updated} updated, ${result.total} total files`);
+            })
+            .catch((error) => {
+                startupLog.warn("Failed to build semantic index", {
+                    error: error instanceof Error ? error.message : String(error),
+                });
+            });
+
     } catch (error) {
         startupLog.error("Failed to initialize file indexes", {
             error: error instanceof Error ? error.message : String(error),
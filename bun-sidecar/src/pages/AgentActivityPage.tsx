@@ -0,0 +1,353 @@
+import { useState, useEffect } from "react";
+import { useNavigate } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Separator } from "@/components/ui/separator";
+import { Badge } from "@/components/ui/badge";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogHeader,
+    DialogTitle,
+} from "@/components/ui/dialog";
+import { SidebarProvider, SidebarInset } from "@/components/ui/sidebar";
+import { WorkspaceSidebar } from "@/components/WorkspaceSidebar";
+import { useTheme } from "@/hooks/useTheme";
+import {
+    useAgentActivityAPI,
+    type ActivityExportFormat,
+    type ActivityGrouping,
+    type AgentActivitySummary,
+} from "@/hooks/useAgentActivityAPI";
+import { useWorkspaceContext } from "@/contexts/WorkspaceContext";
+import { chatPluginSerial } from "@/features/chat/index";
+import type { RunLogEvent } from "@/features/agents/run-log";
+import type { SessionActivity, UsageTotals } from "@/features/agents/run-log-summary";
+import { Bot, Download, MessageSquare } from "lucide-react";
+
+function formatTokens(count: number): string {
+    if (count >= 1_000_000) return `${(count / 1_000_000).toFixed(1)}M`;
+    if (count >= 1_000) return `${(count / 1_000).toFixed(1)}k`;
+    return String(count);
+}
+
+function formatCost(costUsd: number): string {
+    return costUsd > 0 && costUsd < 0.01 ? "<$0.01" : `$${costUsd.toFixed(2)}`;
+}
+
+function describeEvent(event: RunLogEvent): string {
+    switch (event.type) {
+        case "query_start":
+            return `Started ${event.trigger === "schedule" ? "scheduled run" : "chat turn"} with ${event.model}`;
+        case "tool_call":
+            return event.filePath ? `${event.toolName} ${event.filePath}` : event.toolName;
+        case "tool_result":
+            return event.isError ? "Tool failed" : "Tool finished";
+        case "permission":
+            return `${event.decision === "allow" ? "Allowed" : "Denied"} ${event.toolName}`;
+        case "file_lock":
+            return `Locked ${event.noteFileName}`;
+        case "file_unlock":
+            return `Unlocked ${event.noteFileName}`;
+        case "usage":
+            return `${formatTokens(event.inputTokens)} in · ${formatTokens(event.outputTokens)} out` +
+                (event.costUsd !== undefined ? ` · ${formatCost(event.costUsd)}` : "") +
+                ` · ${event.numTurns} turns`;
+        case "error":
+            return event.message;
+    }
+}
+
+function AgentActivityContent() {
+    const { currentTheme } = useTheme();
+    const navigate = useNavigate();
+    const api = useAgentActivityAPI();
+    const { addNewTab, setActiveTabId } = useWorkspaceContext();
+
+    const [summary, setSummary] = useState<AgentActivitySummary | null>(null);
+    const [grouping, setGrouping] = useState<ActivityGrouping>("session");
+    const [selectedSession, setSelectedSession] = useState<SessionActivity | null>(null);
+    const [sessionEvents, setSessionEvents] = useState<RunLogEvent[]>([]);
+
+    useEffect(() => {
+        api.getSummary()
+            .then(setSummary)
+            .catch((error) => console.error("Failed to load agent activity:", error));
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, []);
+
+    async function openDetails(session: SessionActivity) {
+        setSelectedSession(session);
+        setSessionEvents([]);
+        try {
+            setSessionEvents(await api.getSessionLog({ sessionId: session.sessionId }));
+        } catch (error) {
+            console.error("Failed to load session log:", error);
+        }
+    }
+
+    async function openSession(sessionId: string) {
+        const newTab = await addNewTab({
+            pluginMeta: chatPluginSerial,
+            view: "chat",
+            props: { sessionId },
+        });
+        if (newTab) {
+            setActiveTabId(newTab.id);
+            navigate("/");
+        }
+    }
+
+    function handleExport(format: ActivityExportFormat) {
+        const link = document.createElement("a");
+        link.href = api.getExportUrl({ format, groupBy: grouping });
+        link.download = "";
+        document.body.appendChild(link);
+        link.click();
+        document.body.removeChild(link);
+    }
+
+    if (!summary) {
+        return (
+            <div
+                className="flex h-full items-center justify-center"
+                style={{ backgroundColor: currentTheme.styles.surfacePrimary }}
+            >
+                <p style={{ color: currentTheme.styles.contentSecondary }}>Loading activity...</p>
+            </div>
+        );
+    }
+
+    const agentNames = new Map(summary.sessions.map((session) => [session.agentId, session.agentName]));
+    const totals = summary.byAgent.reduce(
+        (sum, total) => ({
+            sessions: sum.sessions + total.sessions,
+            tokens: sum.tokens + total.inputTokens + total.outputTokens,
+            costUsd: sum.costUsd + total.costUsd,
+            toolCalls: sum.toolCalls + total.toolCalls,
+        }),
+        { sessions: 0, tokens: 0, costUsd: 0, toolCalls: 0 }
+    );
+
+    const renderTotals = (rows: UsageTotals[], label: string, formatKey: (key: string) => string) => (
+        <Table>
+            <TableHeader>
+                <TableRow>
+                    <TableHead>{label}</TableHead>
+                    <TableHead className="text-right">Sessions</TableHead>
+                    <TableHead className="text-right">Tool calls</TableHead>
+                    <TableHead className="text-right">Input</TableHead>
+                    <TableHead className="text-right">Output</TableHead>
+                    <TableHead className="text-right">Cost</TableHead>
+                </TableRow>
+            </TableHeader>
+            <TableBody>
+                {rows.map((row) => (
+                    <TableRow key={row.key}>
+                        <TableCell>{formatKey(row.key)}</TableCell>
+                        <TableCell className="text-right">{row.sessions}</TableCell>
+                        <TableCell className="text-right">{row.toolCalls}</TableCell>
+                        <TableCell className="text-right">{formatTokens(row.inputTokens)}</TableCell>
+                        <TableCell className="text-right">{formatTokens(row.outputTokens)}</TableCell>
+                        <TableCell className="text-right">{formatCost(row.costUsd)}</TableCell>
+                    </TableRow>
+                ))}
+            </TableBody>
+        </Table>
+    );
+
+    return (
+        <div
+            className="h-full overflow-y-auto p-6 space-y-6"
+            style={{
+                backgroundColor: currentTheme.styles.surfacePrimary,
+                color: currentTheme.styles.contentPrimary,
+            }}
+        >
+            <div className="flex items-center justify-between">
+                <div>
+                    <h1 className="text-2xl font-bold" style={{ color: currentTheme.styles.contentPrimary }}>
+                        Agent Activity
+                    </h1>
+                    <p style={{ color: currentTheme.styles.contentSecondary }}>
+                        Tools, files, tokens and cost for every agent session. Cost is only reported for Claude agents.
+                    </p>
+                </div>
+                <div className="flex items-center gap-2">
+                    <Button variant="outline" onClick={() => handleExport("csv")}>
+                        <Download className="mr-2 h-4 w-4" />
+                        CSV
+                    </Button>
+                    <Button variant="outline" onClick={() => handleExport("json")}>
+                        <Download className="mr-2 h-4 w-4" />
+                        JSON
+                    </Button>
+                    <Button variant="outline" onClick={() => navigate("/agents")}>
+                        <Bot className="mr-2 h-4 w-4" />
+                        Agents
+                    </Button>
+                </div>
+            </div>
+
+            <Separator />
+
+            <div className="grid grid-cols-4 gap-4">
+                {[
+                    { label: "Sessions", value: String(totals.sessions) },
+                    { label: "Tool calls", value: String(totals.toolCalls) },
+                    { label: "Tokens", value: formatTokens(totals.tokens) },
+                    { label: "Cost", value: formatCost(totals.costUsd) },
+                ].map((stat) => (
+                    <Card key={stat.label}>
+                        <CardHeader className="pb-1">
+                            <CardTitle className="text-sm font-normal" style={{ color: currentTheme.styles.contentSecondary }}>
+                                {stat.label}
+                            </CardTitle>
+                        </CardHeader>
+                        <CardContent className="text-2xl font-semibold">{stat.value}</CardContent>
+                    </Card>
+                ))}
+            </div>
+
+            <Tabs value={grouping} onValueChange={(value) => setGrouping(value as ActivityGrouping)}>
+                <TabsList>
+                    <TabsTrigger value="session">Sessions</TabsTrigger>
+                    <TabsTrigger value="agent">By Agent</TabsTrigger>
+                    <TabsTrigger value="day">By Day</TabsTrigger>
+                </TabsList>
+
+                <TabsContent value="session">
+                    {summary.sessions.length === 0 ? (
+                        <p className="py-8 text-center text-sm" style={{ color: currentTheme.styles.contentSecondary }}>
+                            No agent activity has been recorded yet.
+                        </p>
+                    ) : (
+                        <Table>
+                            <TableHeader>
+                                <TableRow>
+                                    <TableHead>Session</TableHead>
+                                    <TableHead>Agent</TableHead>
+                                    <TableHead className="text-right">Tool calls</TableHead>
+                                    <TableHead className="text-right">Files</TableHead>
+                                    <TableHead className="text-right">Tokens</TableHead>
+                                    <TableHead className="text-right">Cost</TableHead>
+                                    <TableHead>Last active</TableHead>
+                                </TableRow>
+                            </TableHeader>
+                            <TableBody>
+                                {summary.sessions.map((session) => (
+                                    <TableRow
+                                        key={session.sessionId}
+                                        className="cursor-pointer"
+                                        onClick={() => openDetails(session)}
+                                    >
+                                        <TableCell className="max-w-[240px] truncate">
+                                            {session.title || session.sessionId}
+                                        </TableCell>
+                                        <TableCell>{session.agentName || session.agentId}</TableCell>
+                                        <TableCell className="text-right">
+                                            {session.toolCalls}
+                                            {session.toolErrors > 0 && (
+                                                <Badge variant="destructive" className="ml-1">
+                                                    {session.toolErrors} failed
+                                                </Badge>
+                                            )}
+                                        </TableCell>
+                                        <TableCell className="text-right">{session.files.length}</TableCell>
+                                        <TableCell className="text-right">
+                                            {formatTokens(session.inputTokens + session.outputTokens)}
+                                        </TableCell>
+                                        <TableCell className="text-right">{formatCost(session.costUsd)}</TableCell>
+                                        <TableCell>{new Date(session.lastActivityAt).toLocaleString()}</TableCell>
+                                    </TableRow>
+                                ))}
+                            </TableBody>
+                        </Table>
+                    )}
+                </TabsContent>
+
+                <TabsContent value="agent">
+                    {renderTotals(summary.byAgent, "Agent", (key) => agentNames.get(key) || key)}
+                </TabsContent>
+
+                <TabsContent value="day">
+                    {renderTotals(summary.byDay, "Day", (key) => key)}
+                </TabsContent>
+            </Tabs>
+
+            {/* Session Log Dialog */}
+            <Dialog open={!!selectedSession} onOpenChange={(open) => !open && setSelectedSession(null)}>
+                <DialogContent className="max-w-2xl max-h-[80vh] overflow-y-auto">
+                    <DialogHeader>
+                        <DialogTitle>{selectedSession?.title || "Session"}</DialogTitle>
+                        <DialogDescription>
+                            {selectedSession &&
+                                `${selectedSession.agentName || selectedSession.agentId} · ${selectedSession.queries} turns · ` +
+                                    `${formatTokens(selectedSession.inputTokens)} in / ${formatTokens(selectedSession.outputTokens)} out · ` +
+                                    formatCost(selectedSession.costUsd)}
+                        </DialogDescription>
+                    </DialogHeader>
+
+                    {selectedSession && selectedSession.files.length > 0 && (
+                        <div className="space-y-1">
+                            <p className="text-xs font-medium" style={{ color: currentTheme.styles.contentSecondary }}>
+                                Files
+                            </p>
+                            {selectedSession.files.map((file) => (
+                                <p key={file} className="truncate font-mono text-xs">
+                                    {file}
+                                </p>
+                            ))}
+                        </div>
+                    )}
+
+                    <div className="space-y-1 text-xs">
+                        {sessionEvents.map((event, index) => (
+                            <div key={index} className="flex gap-3">
+                                <span className="shrink-0" style={{ color: currentTheme.styles.contentTertiary }}>
+                                    {new Date(event.timestamp).toLocaleTimeString()}
+                                </span>
+                                <span
+                                    className="truncate"
+                                    style={{
+                                        color:
+                                            event.type === "error" || (event.type === "permission" && event.decision === "deny")
+                                                ? currentTheme.styles.semanticDestructive
+                                                : currentTheme.styles.contentPrimary,
+                                    }}
+                                >
+                                    {describeEvent(event)}
+                                </span>
+                            </div>
+                        ))}
+                    </div>
+
+                    {selectedSession && (
+                        <div className="flex justify-end">
+                            <Button variant="outline" onClick={() => openSession(selectedSession.sessionId)}>
+                                <MessageSquare className="mr-2 h-4 w-4" />
+                                Open chat
+                            </Button>
+                        </div>
+                    )}
+                </DialogContent>
+            </Dialog>
+        </div>
+    );
+}
+
+export function AgentActivityPage() {
+    return (
+        <SidebarProvider>
+            <div className="flex h-screen w-full overflow-hidden">
+                <WorkspaceSidebar />
+                <SidebarInset className="flex-1 overflow-hidden">
+                    <AgentActivityContent />
+                </SidebarInset>
+            </div>
+        </SidebarProvider>
+    );
+}
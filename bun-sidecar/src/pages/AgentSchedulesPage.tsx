@@ -0,0 +1,593 @@
+import { useState, useEffect } from "react";
+import { useNavigate } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Separator } from "@/components/ui/separator";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from "@/components/ui/select";
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from "@/components/ui/dialog";
+import { SidebarProvider, SidebarInset } from "@/components/ui/sidebar";
+import { WorkspaceSidebar } from "@/components/WorkspaceSidebar";
+import { useTheme } from "@/hooks/useTheme";
+import { useAgentsAPI } from "@/hooks/useAgentsAPI";
+import { useAgentSchedulesAPI, type AgentScheduleWithNextRun } from "@/hooks/useAgentSchedulesAPI";
+import { useWorkspaceContext } from "@/contexts/WorkspaceContext";
+import { chatPluginSerial } from "@/features/chat/index";
+import type { AgentConfig } from "@/features/agents/index";
+import type { AgentRun, AgentRunStatus, RunPermissionDecision } from "@/features/agents/schedule-types";
+import { CRON_PRESETS, getCronError } from "@/features/agents/cron";
+import { Plus, Pencil, Trash2, Play, Square, Bot, CalendarClock, MessageSquare } from "lucide-react";
+
+// Sentinel for the preset dropdown when the cron expression is typed by hand
+const CUSTOM_CRON = "__custom__";
+
+// How often the page refreshes runs while it's open
+const RUNS_REFRESH_MS = 10 * 1000;
+
+const STATUS_BADGES: Record<AgentRunStatus, { label: string; variant: "default" | "secondary" | "destructive" | "outline" | "success" }> = {
+    running: { label: "Running", variant: "default" },
+    paused: { label: "Needs permission", variant: "outline" },
+    completed: { label: "Completed", variant: "success" },
+    failed: { label: "Failed", variant: "destructive" },
+    dismissed: { label: "Dismissed", variant: "secondary" },
+};
+
+function describeCron(cron: string): string {
+    return CRON_PRESETS.find((preset) => preset.cron === cron)?.label ?? cron;
+}
+
+function formatDateTime(iso?: string): string {
+    return iso ? new Date(iso).toLocaleString([], { dateStyle: "medium", timeStyle: "short" }) : "—";
+}
+
+function AgentSchedulesContent() {
+    const { currentTheme } = useTheme();
+    const navigate = useNavigate();
+    const api = useAgentSchedulesAPI();
+    const agentsAPI = useAgentsAPI();
+    const { addNewTab, setActiveTabId } = useWorkspaceContext();
+
+    const [schedules, setSchedules] = useState<AgentScheduleWithNextRun[]>([]);
+    const [runs, setRuns] = useState<AgentRun[]>([]);
+    const [agents, setAgents] = useState<AgentConfig[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+
+    // Dialog state
+    const [isDialogOpen, setIsDialogOpen] = useState(false);
+    const [editingSchedule, setEditingSchedule] = useState<AgentScheduleWithNextRun | null>(null);
+    const [deleteConfirmSchedule, setDeleteConfirmSchedule] = useState<AgentScheduleWithNextRun | null>(null);
+    const [formError, setFormError] = useState<string | null>(null);
+
+    // Form state
+    const [formName, setFormName] = useState("");
+    const [formAgentId, setFormAgentId] = useState("default");
+    const [formPrompt, setFormPrompt] = useState("");
+    const [formCron, setFormCron] = useState(CRON_PRESETS[2]!.cron);
+    const [useCustomCron, setUseCustomCron] = useState(false);
+
+    const pausedRuns = runs.filter((run) => run.status === "paused");
+    const cronError = getCronError(formCron);
+
+    useEffect(() => {
+        loadData();
+        const interval = setInterval(loadRuns, RUNS_REFRESH_MS);
+        return () => clearInterval(interval);
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, []);
+
+    async function loadData() {
+        setIsLoading(true);
+        try {
+            const [schedulesList, runsList, agentsList] = await Promise.all([
+                api.listSchedules(),
+                api.listRuns({ limit: 50 }),
+                agentsAPI.listAgents(),
+            ]);
+            setSchedules(schedulesList);
+            setRuns(runsList);
+            setAgents(agentsList);
+        } catch (error) {
+            console.error("Failed to load schedules:", error);
+        } finally {
+            setIsLoading(false);
+        }
+    }
+
+    async function loadRuns() {
+        try {
+            const [schedulesList, runsList] = await Promise.all([api.listSchedules(), api.listRuns({ limit: 50 })]);
+            setSchedules(schedulesList);
+            setRuns(runsList);
+        } catch (error) {
+            console.error("Failed to load runs:", error);
+        }
+    }
+
+    function getAgentName(agentId: string): string {
+        return agents.find((agent) => agent.id === agentId)?.name ?? agentId;
+    }
+
+    function openDialog(schedule: AgentScheduleWithNextRun | null) {
+        setEditingSchedule(schedule);
+        setFormName(schedule?.name ?? "");
+        setFormAgentId(schedule?.agentId ?? "default");
+        setFormPrompt(schedule?.prompt ?? "");
+        const cron = schedule?.cron ?? CRON_PRESETS[2]!.cron;
+        setFormCron(cron);
+        setUseCustomCron(!CRON_PRESETS.some((preset) => preset.cron === cron));
+        setFormError(null);
+        setIsDialogOpen(true);
+    }
+
+    async function handleSave() {
+        const input = { name: formName.trim(), agentId: formAgentId, prompt: formPrompt.trim(), cron: formCron.trim() };
+        try {
+            if (editingSchedule) {
+                await api.updateSchedule({ scheduleId: editingSchedule.id, updates: input });
+            } else {
+                await api.createSchedule(input);
+            }
+            setIsDialogOpen(false);
+            await loadData();
+        } catch (error) {
+            setFormError(error instanceof Error ? error.message : "Failed to save schedule");
+        }
+    }
+
+    async function handleToggle(schedule: AgentScheduleWithNextRun, enabled: boolean) {
+        try {
+            await api.updateSchedule({ scheduleId: schedule.id, updates: { enabled } });
+            await loadRuns();
+        } catch (error) {
+            console.error("Failed to update schedule:", error);
+        }
+    }
+
+    async function handleDelete(schedule: AgentScheduleWithNextRun) {
+        try {
+            await api.deleteSchedule({ scheduleId: schedule.id });
+            setDeleteConfirmSchedule(null);
+            await loadData();
+        } catch (error) {
+            console.error("Failed to delete schedule:", error);
+        }
+    }
+
+    async function handleRunNow(schedule: AgentScheduleWithNextRun) {
+        try {
+            await api.runScheduleNow({ scheduleId: schedule.id });
+            await loadRuns();
+        } catch (error) {
+            console.error("Failed to start run:", error);
+        }
+    }
+
+    async function handleResume(run: AgentRun, decision: RunPermissionDecision) {
+        try {
+            await api.resumeRun({ runId: run.id, decision });
+            await loadRuns();
+        } catch (error) {
+            console.error("Failed to resume run:", error);
+        }
+    }
+
+    async function handleDismiss(run: AgentRun) {
+        try {
+            await api.dismissRun({ runId: run.id });
+            await loadRuns();
+        } catch (error) {
+            console.error("Failed to dismiss run:", error);
+        }
+    }
+
+    async function handleCancel(run: AgentRun) {
+        try {
+            await api.cancelRun({ runId: run.id });
+            await loadRuns();
+        } catch (error) {
+            console.error("Failed to cancel run:", error);
+        }
+    }
+
+    async function openSession(sessionId: string) {
+        const newTab = await addNewTab({
+            pluginMeta: chatPluginSerial,
+            view: "chat",
+            props: { sessionId },
+        });
+        if (newTab) {
+            setActiveTabId(newTab.id);
+            navigate("/");
+        }
+    }
+
+    if (isLoading) {
+        return (
+            <div
+                className="flex h-full items-center justify-center"
+                style={{ backgroundColor: currentTheme.styles.surfacePrimary }}
+            >
+                <p style={{ color: currentTheme.styles.contentSecondary }}>Loading schedules...</p>
+            </div>
+        );
+    }
+
+    return (
+        <div
+            className="h-full overflow-y-auto p-6 space-y-6"
+            style={{
+                backgroundColor: currentTheme.styles.surfacePrimary,
+                color: currentTheme.styles.contentPrimary,
+            }}
+        >
+            <div className="flex items-center justify-between">
+                <div>
+                    <h1 className="text-2xl font-bold" style={{ color: currentTheme.styles.contentPrimary }}>
+                        Scheduled Runs
+                    </h1>
+                    <p style={{ color: currentTheme.styles.contentSecondary }}>
+                        Run agents in the background on a schedule. Runs only use tools the agent is allowed to use.
+                    </p>
+                </div>
+                <div className="flex items-center gap-2">
+                    <Button variant="outline" onClick={() => navigate("/agents")}>
+                        <Bot className="mr-2 h-4 w-4" />
+                        Agents
+                    </Button>
+                    <Button onClick={() => openDialog(null)}>
+                        <Plus className="mr-2 h-4 w-4" />
+                        New Schedule
+                    </Button>
+                </div>
+            </div>
+
+            <Separator />
+
+            {/* Run inbox: runs waiting for a permission */}
+            {pausedRuns.length > 0 && (
+                <div className="space-y-3">
+                    <h2 className="text-lg font-semibold">Inbox</h2>
+                    {pausedRuns.map((run) => (
+                        <Card key={run.id}>
+                            <CardHeader className="pb-3">
+                                <CardTitle className="text-base">{run.scheduleName}</CardTitle>
+                                <CardDescription>
+                                    {getAgentName(run.agentId)} wants to use{" "}
+                                    <code>{run.pendingPermission?.toolName}</code> · started {formatDateTime(run.startedAt)}
+                                </CardDescription>
+                            </CardHeader>
+                            <CardContent className="space-y-3">
+                                {run.pendingPermission && (
+                                    <pre
+                                        className="text-xs font-mono p-2 rounded max-h-32 overflow-auto"
+                                        style={{
+                                            backgroundColor: currentTheme.styles.surfaceSecondary,
+                                            color: currentTheme.styles.contentSecondary,
+                                        }}
+                                    >
+                                        {JSON.stringify(run.pendingPermission.input, null, 2)}
+                                    </pre>
+                                )}
+                                <div className="flex flex-wrap gap-2">
+                                    <Button size="sm" onClick={() => handleResume(run, "allow-once")}>
+                                        Allow once
+                                    </Button>
+                                    <Button size="sm" variant="outline" onClick={() => handleResume(run, "always-allow")}>
+                                        Always allow
+                                    </Button>
+                                    <Button size="sm" variant="outline" onClick={() => handleResume(run, "deny")}>
+                                        Deny
+                                    </Button>
+                                    <Button size="sm" variant="ghost" onClick={() => handleDismiss(run)}>
+                                        Dismiss
+                                    </Button>
+                                    {run.sessionId && (
+                                        <Button size="sm" variant="ghost" onClick={() => openSession(run.sessionId!)}>
+                                            <MessageSquare className="mr-2 h-4 w-4" />
+                                            Open chat
+                                        </Button>
+                                    )}
+                                </div>
+                            </CardContent>
+                        </Card>
+                    ))}
+                </div>
+            )}
+
+            {/* Schedules */}
+            <div className="space-y-3">
+                <h2 className="text-lg font-semibold">Schedules</h2>
+                {schedules.length === 0 ? (
+                    <p className="text-sm" style={{ color: currentTheme.styles.contentSecondary }}>
+                        No schedules yet. Create one to run an agent automatically, e.g. every weekday at 8am.
+                    </p>
+                ) : (
+                    <div className="grid gap-4">
+                        {schedules.map((schedule) => (
+                            <Card key={schedule.id}>
+                                <CardHeader className="pb-3">
+                                    <div className="flex items-start justify-between">
+                                        <div className="flex items-center gap-3">
+                                            <div
+                                                className="flex h-10 w-10 items-center justify-center rounded-lg"
+                                                style={{ backgroundColor: currentTheme.styles.surfaceSecondary }}
+                                            >
+                                                <CalendarClock className="h-5 w-5" style={{ color: currentTheme.styles.contentSecondary }} />
+                                            </div>
+                                            <div>
+                                                <CardTitle>{schedule.name}</CardTitle>
+                                                <CardDescription>
+                                                    {describeCron(schedule.cron)} · {getAgentName(schedule.agentId)}
+                                                </CardDescription>
+                                            </div>
+                                        </div>
+                                        <div className="flex items-center gap-1">
+                                            <Switch
+                                                checked={schedule.enabled}
+                                                onCheckedChange={(checked) => handleToggle(schedule, checked)}
+                                                title={schedule.enabled ? "Disable" : "Enable"}
+                                            />
+                                            <Button variant="ghost" size="icon" onClick={() => handleRunNow(schedule)} title="Run now">
+                                                <Play className="h-4 w-4" />
+                                            </Button>
+                                            <Button variant="ghost" size="icon" onClick={() => openDialog(schedule)} title="Edit">
+                                                <Pencil className="h-4 w-4" />
+                                            </Button>
+                                            <Button
+                                                variant="ghost"
+                                                size="icon"
+                                                onClick={() => setDeleteConfirmSchedule(schedule)}
+                                                title="Delete"
+                                            >
+                                                <Trash2 className="h-4 w-4" />
+                                            </Button>
+                                        </div>
+                                    </div>
+                                </CardHeader>
+                                <CardContent>
+                                    <div className="flex flex-wrap gap-4 text-sm">
+                                        <div>
+                                            <span style={{ color: currentTheme.styles.contentSecondary }}>Next run: </span>
+                                            <span>{schedule.enabled ? formatDateTime(schedule.nextRunAt) : "Disabled"}</span>
+                                        </div>
+                                        <div>
+                                            <span style={{ color: currentTheme.styles.contentSecondary }}>Last run: </span>
+                                            <span>{formatDateTime(schedule.lastRunAt)}</span>
+                                        </div>
+                                        <div className="w-full">
+                                            <span style={{ color: currentTheme.styles.contentSecondary }}>Prompt: </span>
+                                            <span className="text-xs font-mono" style={{ color: currentTheme.styles.contentTertiary }}>
+                                                {schedule.prompt.length > 100 ? schedule.prompt.slice(0, 100) + "..." : schedule.prompt}
+                                            </span>
+                                        </div>
+                                    </div>
+                                </CardContent>
+                            </Card>
+                        ))}
+                    </div>
+                )}
+            </div>
+
+            {/* Past runs */}
+            <div className="space-y-3">
+                <h2 className="text-lg font-semibold">Recent Runs</h2>
+                {runs.length === 0 ? (
+                    <p className="text-sm" style={{ color: currentTheme.styles.contentSecondary }}>
+                        No runs yet.
+                    </p>
+                ) : (
+                    <div className="rounded-md border" style={{ borderColor: currentTheme.styles.borderDefault }}>
+                        {runs.map((run) => (
+                            <div
+                                key={run.id}
+                                className="flex items-start gap-3 px-4 py-3 border-b last:border-b-0 text-sm"
+                                style={{ borderColor: currentTheme.styles.borderDefault }}
+                            >
+                                <div className="flex-1 min-w-0 space-y-1">
+                                    <div className="flex items-center gap-2">
+                                        <span className="font-medium truncate">{run.scheduleName}</span>
+                                        <Badge variant={STATUS_BADGES[run.status].variant} className="text-[10px]">
+                                            {STATUS_BADGES[run.status].label}
+                                        </Badge>
+                                        {run.trigger === "manual" && (
+                                            <span className="text-xs" style={{ color: currentTheme.styles.contentTertiary }}>
+                                                manual
+                                            </span>
+                                        )}
+                                    </div>
+                                    <div className="text-xs" style={{ color: currentTheme.styles.contentSecondary }}>
+                                        {formatDateTime(run.startedAt)} · {getAgentName(run.agentId)}
+                                    </div>
+                                    {run.error && (
+                                        <div className="text-xs" style={{ color: currentTheme.styles.semanticDestructive }}>
+                                            {run.error}
+                                        </div>
+                                    )}
+                                    {run.result && (
+                                        <div className="text-xs line-clamp-2" style={{ color: currentTheme.styles.contentTertiary }}>
+                                            {run.result}
+                                        </div>
+                                    )}
+                                </div>
+                                <div className="flex items-center gap-1 shrink-0">
+                                    {run.status === "running" && (
+                                        <Button variant="ghost" size="icon" onClick={() => handleCancel(run)} title="Stop">
+                                            <Square className="h-4 w-4" />
+                                        </Button>
+                                    )}
+                                    {run.sessionId && (
+                                        <Button variant="ghost" size="icon" onClick={() => openSession(run.sessionId!)} title="Open chat">
+                                            <MessageSquare className="h-4 w-4" />
+                                        </Button>
+                                    )}
+                                </div>
+                            </div>
+                        ))}
+                    </div>
+                )}
+            </div>
+
+            {/* Create / Edit Dialog */}
+            <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+                <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+                    <DialogHeader>
+                        <DialogTitle>{editingSchedule ? "Edit Schedule" : "New Schedule"}</DialogTitle>
+                        <DialogDescription>
+                            The agent runs the prompt at the scheduled times and saves the conversation as a chat.
+                        </DialogDescription>
+                    </DialogHeader>
+
+                    <div className="space-y-4 py-4">
+                        <div className="space-y-2">
+                            <Label htmlFor="schedule-name">Name</Label>
+                            <Input
+                                id="schedule-name"
+                                value={formName}
+                                onChange={(e) => setFormName(e.target.value)}
+                                placeholder="e.g., Morning briefing"
+                            />
+                        </div>
+
+                        <div className="space-y-2">
+                            <Label>Agent</Label>
+                            <Select value={formAgentId} onValueChange={setFormAgentId}>
+                                <SelectTrigger>
+                                    <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    {agents.map((agent) => (
+                                        <SelectItem key={agent.id} value={agent.id}>
+                                            {agent.name}
+                                        </SelectItem>
+                                    ))}
+                                </SelectContent>
+                            </Select>
+                        </div>
+
+                        <div className="space-y-2">
+                            <Label>Schedule</Label>
+                            <Select
+                                value={useCustomCron ? CUSTOM_CRON : formCron}
+                                onValueChange={(value) => {
+                                    if (value === CUSTOM_CRON) {
+                                        setUseCustomCron(true);
+                                    } else {
+                                        setUseCustomCron(false);
+                                        setFormCron(value);
+                                    }
+                                }}
+                            >
+                                <SelectTrigger>
+                                    <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    {CRON_PRESETS.map((preset) => (
+                                        <SelectItem key={preset.cron} value={preset.cron}>
+                                            {preset.label}
+                                        </SelectItem>
+                                    ))}
+                                    <SelectItem value={CUSTOM_CRON}>Custom (cron)</SelectItem>
+                                </SelectContent>
+                            </Select>
+                            {useCustomCron && (
+                                <>
+                                    <Input
+                                        value={formCron}
+                                        onChange={(e) => setFormCron(e.target.value)}
+                                        placeholder="minute hour day-of-month month day-of-week"
+                                        className="font-mono"
+                                    />
+                                    <p
+                                        className="text-xs"
+                                        style={{ color: cronError ? currentTheme.styles.semanticDestructive : currentTheme.styles.contentSecondary }}
+                                    >
+                                        {cronError ?? "Local time, e.g. \"30 7 * * 1-5\" runs at 7:30 on weekdays."}
+                                    </p>
+                                </>
+                            )}
+                        </div>
+
+                        <div className="space-y-2">
+                            <Label htmlFor="schedule-prompt">Prompt</Label>
+                            <Textarea
+                                id="schedule-prompt"
+                                value={formPrompt}
+                                onChange={(e) => setFormPrompt(e.target.value)}
+                                placeholder="e.g., Summarize yesterday's daily note and list overdue todos"
+                                className="min-h-[120px] text-sm"
+                            />
+                        </div>
+
+                        {formError && (
+                            <p className="text-sm" style={{ color: currentTheme.styles.semanticDestructive }}>
+                                {formError}
+                            </p>
+                        )}
+                    </div>
+
+                    <DialogFooter>
+                        <Button variant="outline" onClick={() => setIsDialogOpen(false)}>
+                            Cancel
+                        </Button>
+                        <Button onClick={handleSave} disabled={!formName.trim() || !formPrompt.trim() || !!cronError}>
+                            {editingSchedule ? "Save" : "Create"}
+                        </Button>
+                    </DialogFooter>
+                </DialogContent>
+            </Dialog>
+
+            {/* Delete Confirmation Dialog */}
+            <Dialog open={!!deleteConfirmSchedule} onOpenChange={() => setDeleteConfirmSchedule(null)}>
+                <DialogContent>
+                    <DialogHeader>
+                        <DialogTitle>Delete Schedule</DialogTitle>
+                        <DialogDescription>
+                            Are you sure you want to delete "{deleteConfirmSchedule?.name}"? Past runs and their chats are kept.
+                        </DialogDescription>
+                    </DialogHeader>
+                    <DialogFooter>
+                        <Button variant="outline" onClick={() => setDeleteConfirmSchedule(null)}>
+                            Cancel
+                        </Button>
+                        <Button
+                            variant="destructive"
+                            onClick={() => deleteConfirmSchedule && handleDelete(deleteConfirmSchedule)}
+                        >
+                            Delete
+                        </Button>
+                    </DialogFooter>
+                </DialogContent>
+            </Dialog>
+        </div>
+    );
+}
+
+export function AgentSchedulesPage() {
+    return (
+        <SidebarProvider>
+            <div className="flex h-screen w-full overflow-hidden">
+                <WorkspaceSidebar />
+                <SidebarInset className="flex-1 overflow-hidden">
+                    <AgentSchedulesContent />
+                </SidebarInset>
+            </div>
+        </SidebarProvider>
+    );
+}
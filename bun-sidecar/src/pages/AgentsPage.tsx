@@ -1,4 +1,4 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { useNavigate } from "react-router-dom";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
@@ -7,13 +7,6 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Checkbox } from "@/components/ui/checkbox";
-import {
-    Select,
-    SelectContent,
-    SelectItem,
-    SelectTrigger,
-    SelectValue,
-} from "@/components/ui/select";
 import {
     Dialog,
     DialogContent,
@@ -27,11 +20,15 @@ import { WorkspaceSidebar } from "@/components/WorkspaceSidebar";
 import { useTheme } from "@/hooks/useTheme";
 import { useAgentsAPI } from "@/hooks/useAgentsAPI";
 import { useMcpServersAPI } from "@/hooks/useMcpServersAPI";
-import type { AgentConfig } from "@/features/agents/index";
-import { PREDEFINED_MODELS, MODEL_DISPLAY_NAMES, getModelDisplayName } from "@/features/agents/index";
-import type { PredefinedModel } from "@/features/agents/index";
+import type { AgentConfig, PermissionRule } from "@/features/agents/index";
+import { PROVIDER_DISPLAY_NAMES, getModelDisplayName } from "@/features/agents/index";
+import { AgentModelFields, type AgentModelValue } from "@/features/agents/model-fields";
+import { PermissionRulesEditor } from "@/features/agents/permission-rules-editor";
+import { PermissionAuditList } from "@/features/agents/permission-audit-list";
+import { ExportAgentBundleDialog, ImportAgentBundleDialog } from "@/features/agents/agent-bundle-dialogs";
 import type { UserMcpServer } from "@/features/mcp-servers/mcp-server-types";
-import { Plus, Pencil, Trash2, Copy, Bot, Server } from "lucide-react";
+import { Plus, Pencil, Trash2, Copy, Bot, Server, CalendarClock, Activity, Download, Upload } from "lucide-react";
+import { toast } from "sonner";
 import { Badge } from "@/components/ui/badge";
 
 interface CombinedMcpServer extends UserMcpServer {
@@ -52,14 +49,22 @@ function AgentsContent() {
     const [isDialogOpen, setIsDialogOpen] = useState(false);
     const [editingAgent, setEditingAgent] = useState<AgentConfig | null>(null);
     const [deleteConfirmAgent, setDeleteConfirmAgent] = useState<AgentConfig | null>(null);
+    const [exportingAgent, setExportingAgent] = useState<AgentConfig | null>(null);
+    const [importBundle, setImportBundle] = useState<unknown>(null);
+    const importInputRef = useRef<HTMLInputElement>(null);
 
     // Form state (for editing)
     const [formName, setFormName] = useState("");
     const [formDescription, setFormDescription] = useState("");
     const [formSystemPrompt, setFormSystemPrompt] = useState("");
-    const [formModel, setFormModel] = useState<string>("claude-sonnet-4-5-20250929");
+    const [formModel, setFormModel] = useState<AgentModelValue>({
+        provider: "claude",
+        model: "claude-sonnet-4-5-20250929",
+        baseUrl: "",
+    });
     const [formMcpServers, setFormMcpServers] = useState<string[]>([]);
-    const [useCustomModel, setUseCustomModel] = useState(false);
+    const [formPermissionRules, setFormPermissionRules] = useState<PermissionRule[]>([]);
+    const [formReviewNoteEdits, setFormReviewNoteEdits] = useState(false);
 
     // Separate built-in and user-defined servers
     const builtInServers = allMcpServers.filter((s) => s.isBuiltIn);
@@ -96,11 +101,10 @@ function AgentsContent() {
         setFormName(agent.name);
         setFormDescription(agent.description || "");
         setFormSystemPrompt(agent.systemPrompt);
-        setFormModel(agent.model);
+        setFormModel({ provider: agent.provider, model: agent.model, baseUrl: agent.baseUrl || "" });
         setFormMcpServers([...agent.mcpServers]);
-        // Check if the model is a predefined one or custom
-        const isPredefined = (PREDEFINED_MODELS as readonly string[]).includes(agent.model);
-        setUseCustomModel(!isPredefined);
+        setFormPermissionRules(agent.permissionRules.map((rule) => ({ ...rule })));
+        setFormReviewNoteEdits(agent.reviewNoteEdits);
         setIsDialogOpen(true);
     }
 
@@ -112,8 +116,12 @@ function AgentsContent() {
                     name: formName,
                     description: formDescription || undefined,
                     systemPrompt: formSystemPrompt,
-                    model: formModel,
+                    provider: formModel.provider,
+                    model: formModel.model,
+                    baseUrl: formModel.baseUrl || undefined,
                     mcpServers: formMcpServers,
+                    permissionRules: formPermissionRules,
+                    reviewNoteEdits: formReviewNoteEdits,
                 },
             });
             setIsDialogOpen(false);
@@ -142,6 +150,17 @@ function AgentsContent() {
         }
     }
 
+    async function handleImportFile(e: React.ChangeEvent<HTMLInputElement>) {
+        const file = e.target.files?.[0];
+        e.target.value = "";
+        if (!file) return;
+        try {
+            setImportBundle(JSON.parse(await file.text()));
+        } catch {
+            toast.error(`${file.name} is not an agent bundle`);
+        }
+    }
+
     function toggleMcpServer(serverId: string) {
         setFormMcpServers((prev) =>
             prev.includes(serverId)
@@ -179,10 +198,29 @@ function AgentsContent() {
                     </p>
                 </div>
                 <div className="flex items-center gap-2">
+                    <Button variant="outline" onClick={() => navigate("/agent-activity")}>
+                        <Activity className="mr-2 h-4 w-4" />
+                        Activity
+                    </Button>
+                    <Button variant="outline" onClick={() => navigate("/agent-schedules")}>
+                        <CalendarClock className="mr-2 h-4 w-4" />
+                        Schedules
+                    </Button>
                     <Button variant="outline" onClick={() => navigate("/mcp-servers")}>
                         <Server className="mr-2 h-4 w-4" />
                         MCP Servers
                     </Button>
+                    <Button variant="outline" onClick={() => importInputRef.current?.click()}>
+                        <Upload className="mr-2 h-4 w-4" />
+                        Import
+                    </Button>
+                    <input
+                        ref={importInputRef}
+                        type="file"
+                        accept=".json,application/json"
+                        className="hidden"
+                        onChange={handleImportFile}
+                    />
                     <Button onClick={openCreatePage}>
                         <Plus className="mr-2 h-4 w-4" />
                         New Agent
@@ -231,6 +269,14 @@ function AgentsContent() {
                                     >
                                         <Copy className="h-4 w-4" />
                                     </Button>
+                                    <Button
+                                        variant="ghost"
+                                        size="icon"
+                                        onClick={() => setExportingAgent(agent)}
+                                        title="Export"
+                                    >
+                                        <Download className="h-4 w-4" />
+                                    </Button>
                                     {!agent.isDefault && (
                                         <>
                                             <Button
@@ -260,6 +306,7 @@ function AgentsContent() {
                                     <span style={{ color: currentTheme.styles.contentSecondary }}>Model: </span>
                                     <span style={{ color: currentTheme.styles.contentPrimary }}>
                                         {getModelDisplayName(agent.model)}
+                                        {agent.provider !== "claude" && ` · ${PROVIDER_DISPLAY_NAMES[agent.provider]}`}
                                     </span>
                                 </div>
                                 <div>
@@ -322,49 +369,7 @@ function AgentsContent() {
                             />
                         </div>
 
-                        <div className="space-y-2">
-                            <div className="flex items-center justify-between">
-                                <Label htmlFor="model">Model</Label>
-                                <button
-                                    type="button"
-                                    className="text-xs hover:underline"
-                                    style={{ color: currentTheme.styles.contentAccent }}
-                                    onClick={() => {
-                                        if (!useCustomModel) {
-                                            // Switching to custom: keep current value
-                                            setUseCustomModel(true);
-                                        } else {
-                                            // Switching to dropdown: reset to first predefined model
-                                            setFormModel(PREDEFINED_MODELS[0]);
-                                            setUseCustomModel(false);
-                                        }
-                                    }}
-                                >
-                                    {useCustomModel ? "Use predefined" : "Enter custom"}
-                                </button>
-                            </div>
-                            {useCustomModel ? (
-                                <Input
-                                    id="model"
-                                    value={formModel}
-                                    onChange={(e) => setFormModel(e.target.value)}
-                                    placeholder="e.g., claude-opus-4-5-20251101"
-                                />
-                            ) : (
-                                <Select value={formModel} onValueChange={(value) => setFormModel(value)}>
-                                    <SelectTrigger>
-                                        <SelectValue />
-                                    </SelectTrigger>
-                                    <SelectContent>
-                                        {PREDEFINED_MODELS.map((model) => (
-                                            <SelectItem key={model} value={model}>
-                                                {MODEL_DISPLAY_NAMES[model as PredefinedModel]}
-                                            </SelectItem>
-                                        ))}
-                                    </SelectContent>
-                                </Select>
-                            )}
-                        </div>
+                        <AgentModelFields value={formModel} onChange={setFormModel} />
 
                         <div className="space-y-2">
                             <Label htmlFor="systemPrompt">System Prompt</Label>
@@ -453,6 +458,30 @@ function AgentsContent() {
                                 </div>
                             )}
                         </div>
+
+                        <div className="flex items-start space-x-3">
+                            <Checkbox
+                                id="reviewNoteEdits"
+                                checked={formReviewNoteEdits}
+                                onCheckedChange={(checked) => setFormReviewNoteEdits(checked === true)}
+                            />
+                            <div className="grid gap-1.5 leading-none">
+                                <label htmlFor="reviewNoteEdits" className="text-sm font-medium cursor-pointer">
+                                    Review note edits
+                                </label>
+                                <p className="text-xs" style={{ color: currentTheme.styles.contentSecondary }}>
+                                    Changes this agent makes to notes wait in the note as a diff until you accept or reject them.
+                                </p>
+                            </div>
+                        </div>
+
+                        <PermissionRulesEditor
+                            rules={formPermissionRules}
+                            onChange={setFormPermissionRules}
+                            mcpServers={allMcpServers.filter((s) => formMcpServers.includes(s.id))}
+                        />
+
+                        {editingAgent && <PermissionAuditList agentId={editingAgent.id} />}
                     </div>
 
                     <DialogFooter>
@@ -488,6 +517,13 @@ function AgentsContent() {
                     </DialogFooter>
                 </DialogContent>
             </Dialog>
+
+            <ExportAgentBundleDialog agent={exportingAgent} onClose={() => setExportingAgent(null)} />
+            <ImportAgentBundleDialog
+                bundle={importBundle}
+                onClose={() => setImportBundle(null)}
+                onImported={() => loadData()}
+            />
         </div>
     );
 }
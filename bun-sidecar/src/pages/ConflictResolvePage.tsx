@@ -6,6 +6,7 @@ import { useWorkspaceContext } from "@/contexts/WorkspaceContext";
 import { chatPluginSerial } from "@/features/chat";
 import { SidebarProvider, SidebarInset } from "@/components/ui/sidebar";
 import { WorkspaceSidebar } from "@/components/WorkspaceSidebar";
+import { parseConflictHunks, resolveConflictHunks, type HunkChoice, type MergeSegment } from "@/lib/conflict-hunks";
 import {
     ArrowLeft,
     ArrowRight,
@@ -163,6 +164,115 @@ function CodePanel(props: {
     );
 }
 
+// Lines of agreed text shown around each conflict
+const CONTEXT_LINES = 3;
+
+function ContextText({ text }: { text: string }) {
+    const lines = text.replace(/\n$/, "").split("\n");
+    const shown = lines.length > CONTEXT_LINES * 2 + 1
+        ? [...lines.slice(0, CONTEXT_LINES), `… ${lines.length - CONTEXT_LINES * 2} unchanged lines …`, ...lines.slice(-CONTEXT_LINES)]
+        : lines;
+    return (
+        <pre className="px-3 py-1 font-mono text-xs whitespace-pre-wrap text-muted-foreground">{shown.join("\n")}</pre>
+    );
+}
+
+function HunkSide(props: { label: string; text: string; variant: "ours" | "theirs"; selected: boolean; onSelect: () => void }) {
+    const { label, text, variant, selected, onSelect } = props;
+    const selectedClass = variant === "ours" ? "border-blue-500 bg-blue-500/10" : "border-green-500 bg-green-500/10";
+    return (
+        <button
+            onClick={onSelect}
+            className={`flex-1 min-w-0 text-left border rounded-md overflow-hidden transition-colors ${selected ? selectedClass : "hover:bg-muted/50"}`}
+        >
+            <div className="px-2 py-1 border-b text-xs font-medium flex items-center gap-1">
+                {selected && <Check className="h-3 w-3" />}
+                {label}
+            </div>
+            <pre className="px-2 py-1 font-mono text-xs whitespace-pre-wrap">
+                {text || <span className="italic text-muted-foreground">(removed)</span>}
+            </pre>
+        </button>
+    );
+}
+
+// Each remaining conflict in the merged file, resolved one at a time
+function ConflictHunkPicker(props: { segments: MergeSegment[]; resolving: boolean; onApply: (content: string) => void }) {
+    const { segments, resolving, onApply } = props;
+    const conflictCount = segments.filter((segment) => "conflict" in segment).length;
+    const [choices, setChoices] = useState<Array<HunkChoice | undefined>>([]);
+    const chosenCount = choices.filter(Boolean).length;
+
+    const choose = (index: number, choice: HunkChoice) => {
+        setChoices((prev) => {
+            const next = [...prev];
+            next[index] = choice;
+            return next;
+        });
+    };
+
+    let conflictIndex = 0;
+    return (
+        <div className="flex-1 flex flex-col min-h-0 p-4 gap-3">
+            <div className="flex items-center justify-between">
+                <span className="text-sm text-muted-foreground">
+                    {chosenCount} of {conflictCount} conflict{conflictCount === 1 ? "" : "s"} resolved.
+                    Changes that didn't conflict were merged automatically.
+                </span>
+                <Button
+                    size="sm"
+                    onClick={() => onApply(resolveConflictHunks(segments, choices))}
+                    disabled={resolving || chosenCount < conflictCount}
+                    className="gap-1"
+                >
+                    {resolving ? <Loader2 className="h-4 w-4 animate-spin" /> : <Check className="h-4 w-4" />}
+                    Apply
+                </Button>
+            </div>
+            <div className="flex-1 overflow-auto border rounded-lg divide-y">
+                {segments.map((segment, segmentIndex) => {
+                    if ("ok" in segment) {
+                        return <ContextText key={segmentIndex} text={segment.ok} />;
+                    }
+                    const index = conflictIndex++;
+                    const choice = choices[index];
+                    return (
+                        <div key={segmentIndex} className="p-2 space-y-2 bg-amber-500/5">
+                            <div className="flex items-center justify-between">
+                                <span className="text-xs font-medium">Conflict {index + 1}</span>
+                                <Button
+                                    variant={choice === "both" ? "secondary" : "ghost"}
+                                    size="sm"
+                                    className="h-6 px-2 text-xs"
+                                    onClick={() => choose(index, "both")}
+                                >
+                                    Keep both
+                                </Button>
+                            </div>
+                            <div className="flex gap-2">
+                                <HunkSide
+                                    label="Ours (Local)"
+                                    text={segment.conflict.ours}
+                                    variant="ours"
+                                    selected={choice === "ours" || choice === "both"}
+                                    onSelect={() => choose(index, "ours")}
+                                />
+                                <HunkSide
+                                    label="Theirs (Remote)"
+                                    text={segment.conflict.theirs}
+                                    variant="theirs"
+                                    selected={choice === "theirs" || choice === "both"}
+                                    onSelect={() => choose(index, "theirs")}
+                                />
+                            </div>
+                        </div>
+                    );
+                })}
+            </div>
+        </div>
+    );
+}
+
 function ConflictResolveContent() {
     const [searchParams] = useSearchParams();
     const navigate = useNavigate();
@@ -233,7 +343,7 @@ After you provide the merged content, I will manually update the file and mark t
         loadContent();
     }, [filePath]);
 
-    const resolveConflict = async (resolution: "ours" | "theirs") => {
+    const resolveConflict = async (resolution: "ours" | "theirs" | "merged", mergedContent?: string) => {
         try {
             setResolving(true);
             setError("");
@@ -241,7 +351,7 @@ After you provide the merged content, I will manually update the file and mark t
             const response = await fetch("/api/git/resolve-conflict", {
                 method: "POST",
                 headers: { "Content-Type": "application/json" },
-                body: JSON.stringify({ filePath, resolution }),
+                body: JSON.stringify({ filePath, resolution, content: mergedContent }),
             });
 
             if (response.ok) {
@@ -259,6 +369,13 @@ After you provide the merged content, I will manually update the file and mark t
         }
     };
 
+    // Conflicts the merge driver couldn't resolve, when the file has markers to pick from
+    const hunkSegments = useMemo(() => {
+        if (!content) return null;
+        const segments = parseConflictHunks(content.mergedContent);
+        return segments.some((segment) => "conflict" in segment) ? segments : null;
+    }, [content]);
+
     // Compute line diffs
     const { oursHighlights, theirsHighlights, oursOnly, theirsOnly } = useMemo(() => {
         if (!content) return {
@@ -313,7 +430,7 @@ After you provide the merged content, I will manually update the file and mark t
                         <span className="font-mono text-sm truncate">{filePath}</span>
                     </div>
                     <p className="text-xs text-muted-foreground mt-0.5">
-                        Compare versions and choose which to keep
+                        {hunkSegments ? "Choose a side for each conflicting change" : "Compare versions and choose which to keep"}
                     </p>
                 </div>
 
@@ -329,38 +446,42 @@ After you provide the merged content, I will manually update the file and mark t
                         <Bot className="h-4 w-4" />
                         Solve with Agent
                     </Button>
-                    <Button
-                        variant="outline"
-                        size="sm"
-                        onClick={() => resolveConflict("ours")}
-                        disabled={resolving || !content}
-                        className="gap-1"
-                    >
-                        {resolving ? (
-                            <Loader2 className="h-4 w-4 animate-spin" />
-                        ) : (
-                            <>
-                                <ArrowLeft className="h-4 w-4" />
-                                Keep Ours
-                            </>
-                        )}
-                    </Button>
-                    <Button
-                        variant="outline"
-                        size="sm"
-                        onClick={() => resolveConflict("theirs")}
-                        disabled={resolving || !content}
-                        className="gap-1"
-                    >
-                        {resolving ? (
-                            <Loader2 className="h-4 w-4 animate-spin" />
-                        ) : (
-                            <>
-                                Keep Theirs
-                                <ArrowRight className="h-4 w-4" />
-                            </>
-                        )}
-                    </Button>
+                    {!hunkSegments && (
+                        <>
+                            <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => resolveConflict("ours")}
+                                disabled={resolving || !content}
+                                className="gap-1"
+                            >
+                                {resolving ? (
+                                    <Loader2 className="h-4 w-4 animate-spin" />
+                                ) : (
+                                    <>
+                                        <ArrowLeft className="h-4 w-4" />
+                                        Keep Ours
+                                    </>
+                                )}
+                            </Button>
+                            <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => resolveConflict("theirs")}
+                                disabled={resolving || !content}
+                                className="gap-1"
+                            >
+                                {resolving ? (
+                                    <Loader2 className="h-4 w-4 animate-spin" />
+                                ) : (
+                                    <>
+                                        Keep Theirs
+                                        <ArrowRight className="h-4 w-4" />
+                                    </>
+                                )}
+                            </Button>
+                        </>
+                    )}
                 </div>
             </div>
 
@@ -372,7 +493,7 @@ After you provide the merged content, I will manually update the file and mark t
             )}
 
             {/* Diff Summary */}
-            {content && (oursOnly.size > 0 || theirsOnly.size > 0) && (
+            {content && !hunkSegments && (oursOnly.size > 0 || theirsOnly.size > 0) && (
                 <div className="mx-4 mt-4 px-3 py-2 text-sm bg-amber-500/10 border border-amber-500/20 rounded-md">
                     <span className="font-medium">Differences found: </span>
                     {oursOnly.size > 0 && (
@@ -386,7 +507,7 @@ After you provide the merged content, I will manually update the file and mark t
             )}
 
             {/* No differences warning */}
-            {content && oursOnly.size === 0 && theirsOnly.size === 0 && (
+            {content && !hunkSegments && oursOnly.size === 0 && theirsOnly.size === 0 && (
                 <div className="mx-4 mt-4 px-3 py-2 text-sm bg-muted border rounded-md space-y-2">
                     <span className="text-muted-foreground">No differences detected between extracted versions.</span>
                     {content.mergedContent.includes("<<<<<<<") && (
@@ -398,7 +519,7 @@ After you provide the merged content, I will manually update the file and mark t
             )}
 
             {/* Show merged content with markers if present */}
-            {content && content.mergedContent.includes("<<<<<<<") && (
+            {content && !hunkSegments && content.mergedContent.includes("<<<<<<<") && (
                 <div className="mx-4 mt-2">
                     <details className="border rounded-lg overflow-hidden">
                         <summary className="px-3 py-2 bg-amber-500/10 border-b cursor-pointer text-sm font-medium hover:bg-amber-500/20">
@@ -411,8 +532,17 @@ After you provide the merged content, I will manually update the file and mark t
                 </div>
             )}
 
+            {/* Conflicting changes, one by one */}
+            {hunkSegments && (
+                <ConflictHunkPicker
+                    segments={hunkSegments}
+                    resolving={resolving}
+                    onApply={(mergedContent) => resolveConflict("merged", mergedContent)}
+                />
+            )}
+
             {/* Diff View */}
-            {content && (
+            {content && !hunkSegments && (
                 <div className="flex-1 flex gap-4 p-4 overflow-hidden min-h-0">
                     <CodePanel
                         title="Ours (Local)"
@@ -6,20 +6,14 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Checkbox } from "@/components/ui/checkbox";
-import {
-    Select,
-    SelectContent,
-    SelectItem,
-    SelectTrigger,
-    SelectValue,
-} from "@/components/ui/select";
 import { SidebarProvider, SidebarInset } from "@/components/ui/sidebar";
 import { WorkspaceSidebar } from "@/components/WorkspaceSidebar";
 import { useTheme } from "@/hooks/useTheme";
 import { useAgentsAPI } from "@/hooks/useAgentsAPI";
 import { useMcpServersAPI } from "@/hooks/useMcpServersAPI";
-import { PREDEFINED_MODELS, MODEL_DISPLAY_NAMES } from "@/features/agents/index";
-import type { PredefinedModel } from "@/features/agents/index";
+import { AgentModelFields, type AgentModelValue } from "@/features/agents/model-fields";
+import { PermissionRulesEditor } from "@/features/agents/permission-rules-editor";
+import type { PermissionRule } from "@/features/agents/index";
 import type { UserMcpServer } from "@/features/mcp-servers/mcp-server-types";
 import { ArrowLeft } from "lucide-react";
 import { Badge } from "@/components/ui/badge";
@@ -42,9 +36,14 @@ function NewAgentContent() {
     const [formName, setFormName] = useState("");
     const [formDescription, setFormDescription] = useState("");
     const [formSystemPrompt, setFormSystemPrompt] = useState("");
-    const [formModel, setFormModel] = useState<string>("claude-sonnet-4-5-20250929");
+    const [formModel, setFormModel] = useState<AgentModelValue>({
+        provider: "claude",
+        model: "claude-sonnet-4-5-20250929",
+        baseUrl: "",
+    });
     const [formMcpServers, setFormMcpServers] = useState<string[]>([]);
-    const [useCustomModel, setUseCustomModel] = useState(false);
+    const [formPermissionRules, setFormPermissionRules] = useState<PermissionRule[]>([]);
+    const [formReviewNoteEdits, setFormReviewNoteEdits] = useState(false);
 
     // Load all MCP servers on mount
     useEffect(() => {
@@ -75,8 +74,12 @@ function NewAgentContent() {
                 name: formName,
                 description: formDescription || undefined,
                 systemPrompt: formSystemPrompt,
-                model: formModel,
+                provider: formModel.provider,
+                model: formModel.model,
+                baseUrl: formModel.baseUrl || undefined,
                 mcpServers: formMcpServers,
+                permissionRules: formPermissionRules,
+                reviewNoteEdits: formReviewNoteEdits,
             });
             navigate("/agents");
         } catch (error) {
@@ -157,49 +160,7 @@ function NewAgentContent() {
                         />
                     </div>
 
-                    <div className="space-y-2">
-                        <div className="flex items-center justify-between">
-                            <Label htmlFor="model">Model</Label>
-                            <button
-                                type="button"
-                                className="text-xs hover:underline"
-                                style={{ color: currentTheme.styles.contentAccent }}
-                                onClick={() => {
-                                    if (!useCustomModel) {
-                                        // Switching to custom: keep current value
-                                        setUseCustomModel(true);
-                                    } else {
-                                        // Switching to dropdown: reset to first predefined model
-                                        setFormModel(PREDEFINED_MODELS[0]);
-                                        setUseCustomModel(false);
-                                    }
-                                }}
-                            >
-                                {useCustomModel ? "Use predefined" : "Enter custom"}
-                            </button>
-                        </div>
-                        {useCustomModel ? (
-                            <Input
-                                id="model"
-                                value={formModel}
-                                onChange={(e) => setFormModel(e.target.value)}
-                                placeholder="e.g., claude-opus-4-5-20251101"
-                            />
-                        ) : (
-                            <Select value={formModel} onValueChange={(value) => setFormModel(value)}>
-                                <SelectTrigger>
-                                    <SelectValue />
-                                </SelectTrigger>
-                                <SelectContent>
-                                    {PREDEFINED_MODELS.map((model) => (
-                                        <SelectItem key={model} value={model}>
-                                            {MODEL_DISPLAY_NAMES[model as PredefinedModel]}
-                                        </SelectItem>
-                                    ))}
-                                </SelectContent>
-                            </Select>
-                        )}
-                    </div>
+                    <AgentModelFields value={formModel} onChange={setFormModel} />
 
                     <div className="space-y-2">
                         <Label htmlFor="systemPrompt">System Prompt</Label>
@@ -289,6 +250,28 @@ function NewAgentContent() {
                         )}
                     </div>
 
+                    <div className="flex items-start space-x-3">
+                        <Checkbox
+                            id="reviewNoteEdits"
+                            checked={formReviewNoteEdits}
+                            onCheckedChange={(checked) => setFormReviewNoteEdits(checked === true)}
+                        />
+                        <div className="grid gap-1.5 leading-none">
+                            <label htmlFor="reviewNoteEdits" className="text-sm font-medium cursor-pointer">
+                                Review note edits
+                            </label>
+                            <p className="text-xs" style={{ color: currentTheme.styles.contentSecondary }}>
+                                Changes this agent makes to notes wait in the note as a diff until you accept or reject them.
+                            </p>
+                        </div>
+                    </div>
+
+                    <PermissionRulesEditor
+                        rules={formPermissionRules}
+                        onChange={setFormPermissionRules}
+                        mcpServers={allMcpServers.filter((s) => formMcpServers.includes(s.id))}
+                    />
+
                     <div className="flex justify-end gap-2 pt-4">
                         <Button variant="outline" onClick={() => navigate("/agents")}>
                             Cancel
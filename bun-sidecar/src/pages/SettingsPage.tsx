@@ -13,12 +13,16 @@ import { triggerNativeUpdate } from "@/hooks/useUpdateNotification";
 import { Badge } from "../components/ui/badge";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "../components/ui/tabs";
 
-import { RotateCcw, Eye, EyeOff, Check, X, Key, RefreshCw, Info, Plus, Trash2, FolderOpen } from "lucide-react";
+import { RotateCcw, Eye, EyeOff, Check, X, Key, RefreshCw, Info, Plus, Trash2, FolderOpen, CalendarDays, Sparkles } from "lucide-react";
 import { Input } from "../components/ui/input";
 import { RadioGroup, RadioGroupItem } from "../components/ui/radio-group";
 import { Label } from "../components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "../components/ui/select";
-import type { NotesLocation } from "@/types/Workspace";
+import { Switch } from "../components/ui/switch";
+import { EMBEDDING_PROVIDERS, type DailyNotesConfig, type NotesLocation, type SemanticSearchConfig } from "@/types/Workspace";
+import type { SemanticHit } from "@/features/notes/semantic-types";
+import { notesAPI } from "@/hooks/useNotesAPI";
+import { getDailyNoteFileName, isValidDailyNotePattern } from "@/features/notes/date-utils";
 
 type SecretInfo = {
     key: string;
@@ -226,6 +230,307 @@ function StorageSettings() {
     );
 }
 
+function DailyNotesSettings() {
+    const { dailyNotes, setDailyNotesConfig, renameNoteTabs } = useWorkspaceContext();
+    const { currentTheme } = useTheme();
+    const [pending, setPending] = useState<DailyNotesConfig | null>(null);
+    const [renameExisting, setRenameExisting] = useState(true);
+    const [saving, setSaving] = useState(false);
+    const [message, setMessage] = useState<string | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    const display = pending ?? dailyNotes;
+    const patternValid = isValidDailyNotePattern(display.pattern);
+    const locationChanged = display.pattern !== dailyNotes.pattern || display.folder !== dailyNotes.folder;
+    const hasChanges = pending !== null && (locationChanged || display.templatePath !== dailyNotes.templatePath);
+
+    const updatePending = (changes: Partial<DailyNotesConfig>) => {
+        setPending({ ...display, ...changes });
+        setMessage(null);
+        setError(null);
+    };
+
+    const handleSave = async () => {
+        if (!pending || !patternValid) return;
+        setSaving(true);
+        setError(null);
+        try {
+            const next = { ...pending, folder: pending.folder.trim().replace(/^\/+|\/+$/g, "") };
+            if (locationChanged && renameExisting) {
+                const result = await notesAPI.migrateDailyNotes({ from: dailyNotes, to: next });
+                for (const { from, to } of result.renamed) {
+                    renameNoteTabs(from, to);
+                }
+                setMessage(`Renamed ${result.renamed.length} daily note${result.renamed.length === 1 ? "" : "s"}`);
+            } else {
+                setMessage("Saved successfully");
+            }
+            setDailyNotesConfig(next);
+            setPending(null);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : "Failed to save daily note settings");
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    return (
+        <Card>
+            <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                    <CalendarDays className="h-5 w-5" />
+                    Daily Notes
+                </CardTitle>
+                <CardDescription>
+                    Choose how daily notes are named, where they live, and what new ones start with
+                </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+                <div className="grid gap-2">
+                    <Label htmlFor="daily-note-pattern">Name format</Label>
+                    <Input
+                        id="daily-note-pattern"
+                        value={display.pattern}
+                        onChange={(e) => updatePending({ pattern: e.target.value })}
+                        placeholder="YYYY-MM-DD"
+                    />
+                    <p className="text-sm" style={{ color: patternValid ? currentTheme.styles.contentTertiary : currentTheme.styles.semanticDestructive }}>
+                        {patternValid
+                            ? `Today's note: ${getDailyNoteFileName(new Date(), display)}`
+                            : "Use YYYY, a month (M or MM) and a day (D or DD). Put other letters in [brackets]."}
+                    </p>
+                </div>
+                <div className="grid gap-2">
+                    <Label htmlFor="daily-note-folder">Folder</Label>
+                    <Input
+                        id="daily-note-folder"
+                        value={display.folder}
+                        onChange={(e) => updatePending({ folder: e.target.value })}
+                        placeholder="Notes root"
+                    />
+                </div>
+                <div className="grid gap-2">
+                    <Label htmlFor="daily-note-template">Template note</Label>
+                    <Input
+                        id="daily-note-template"
+                        value={display.templatePath}
+                        onChange={(e) => updatePending({ templatePath: e.target.value })}
+                        placeholder="templates/Daily.md"
+                    />
+                    <p className="text-sm" style={{ color: currentTheme.styles.contentTertiary }}>
+                        Supports {"{{date}}"}, {"{{date:D.M.YYYY}}"}, {"{{weekday}}"}, {"{{yesterday}}"}, {"{{tomorrow}}"} and {"{{todos}}"} (open todos due that day).
+                    </p>
+                </div>
+
+                {hasChanges && (
+                    <div className="pt-4 border-t space-y-3" style={{ borderColor: currentTheme.styles.borderDefault }}>
+                        {locationChanged && (
+                            <div className="flex items-center gap-2">
+                                <Switch id="daily-note-rename" checked={renameExisting} onCheckedChange={setRenameExisting} />
+                                <Label htmlFor="daily-note-rename" className="cursor-pointer">
+                                    Rename existing daily notes and update links to them
+                                </Label>
+                            </div>
+                        )}
+                        <div className="flex gap-2">
+                            <Button size="sm" onClick={handleSave} disabled={saving || !patternValid}>
+                                {saving ? "Saving..." : "Save"}
+                            </Button>
+                            <Button size="sm" variant="ghost" onClick={() => setPending(null)} disabled={saving}>
+                                Cancel
+                            </Button>
+                        </div>
+                    </div>
+                )}
+                {error && (
+                    <p className="text-sm" style={{ color: currentTheme.styles.semanticDestructive }}>
+                        {error}
+                    </p>
+                )}
+                {message && (
+                    <div className="flex items-center gap-2">
+                        <Check className="h-4 w-4" style={{ color: currentTheme.styles.semanticSuccess }} />
+                        <span className="text-sm" style={{ color: currentTheme.styles.semanticSuccess }}>
+                            {message}
+                        </span>
+                    </div>
+                )}
+            </CardContent>
+        </Card>
+    );
+}
+
+const EMBEDDING_PROVIDER_LABELS: Record<SemanticSearchConfig["provider"], string> = {
+    "openai-compatible": "OpenAI-compatible server (Ollama, LM Studio)",
+    openai: "OpenAI",
+};
+
+function SemanticSearchSettings() {
+    const { semanticSearch, setSemanticSearchConfig } = useWorkspaceContext();
+    const { currentTheme } = useTheme();
+    const [pending, setPending] = useState<SemanticSearchConfig | null>(null);
+    const [testQuery, setTestQuery] = useState("");
+    const [testResults, setTestResults] = useState<SemanticHit[] | null>(null);
+    const [testing, setTesting] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const display = pending ?? semanticSearch;
+    const hasChanges = pending !== null;
+
+    const updatePending = (changes: Partial<SemanticSearchConfig>) => {
+        setPending({ ...display, ...changes });
+        setError(null);
+    };
+
+    const handleSave = () => {
+        if (!pending) return;
+        setSemanticSearchConfig({ ...pending, model: pending.model.trim(), baseUrl: pending.baseUrl.trim() });
+        setPending(null);
+        setTestResults(null);
+    };
+
+    const handleTest = async () => {
+        if (!testQuery.trim()) return;
+        setTesting(true);
+        setError(null);
+        try {
+            setTestResults(await notesAPI.semanticSearch({ query: testQuery, limit: display.topK }));
+        } catch (err) {
+            setError(err instanceof Error ? err.message : "Semantic search failed");
+            setTestResults(null);
+        } finally {
+            setTesting(false);
+        }
+    };
+
+    return (
+        <Card>
+            <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                    <Sparkles className="h-5 w-5" />
+                    Semantic Search
+                </CardTitle>
+                <CardDescription>
+                    Find notes and todos by meaning, and give chat agents the most relevant excerpts
+                </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+                <div className="grid gap-2">
+                    <Label htmlFor="semantic-provider">Embeddings</Label>
+                    <Select
+                        value={display.provider}
+                        onValueChange={(value) => updatePending({ provider: value as SemanticSearchConfig["provider"] })}
+                    >
+                        <SelectTrigger id="semantic-provider">
+                            <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                            {EMBEDDING_PROVIDERS.map((provider) => (
+                                <SelectItem key={provider} value={provider}>
+                                    {EMBEDDING_PROVIDER_LABELS[provider]}
+                                </SelectItem>
+                            ))}
+                        </SelectContent>
+                    </Select>
+                    <p className="text-sm" style={{ color: currentTheme.styles.contentTertiary }}>
+                        {display.provider === "openai"
+                            ? "Note text is sent to OpenAI when indexing."
+                            : "Note text is sent to the server when indexing. To keep it on this computer, run Ollama and pull an embedding model such as nomic-embed-text."}
+                    </p>
+                </div>
+                <div className="grid gap-2">
+                    <Label htmlFor="semantic-model">Model</Label>
+                    <Input
+                        id="semantic-model"
+                        value={display.model}
+                        onChange={(e) => updatePending({ model: e.target.value })}
+                        placeholder={display.provider === "openai" ? "text-embedding-3-small" : "nomic-embed-text"}
+                    />
+                </div>
+                <div className="grid gap-2">
+                    <Label htmlFor="semantic-base-url">Base URL</Label>
+                    <Input
+                        id="semantic-base-url"
+                        value={display.baseUrl}
+                        onChange={(e) => updatePending({ baseUrl: e.target.value })}
+                        placeholder={display.provider === "openai" ? "https://api.openai.com/v1" : "http://localhost:11434/v1"}
+                    />
+                </div>
+                <div className="flex items-center gap-2">
+                    <Switch
+                        id="semantic-attach"
+                        checked={display.attachToChat}
+                        onCheckedChange={(checked) => updatePending({ attachToChat: checked })}
+                    />
+                    <Label htmlFor="semantic-attach" className="cursor-pointer">
+                        Attach relevant notes to chat messages by default
+                    </Label>
+                </div>
+                <div className="grid gap-2">
+                    <Label htmlFor="semantic-top-k">Excerpts per message</Label>
+                    <Input
+                        id="semantic-top-k"
+                        type="number"
+                        min={1}
+                        max={20}
+                        className="w-24"
+                        value={display.topK}
+                        onChange={(e) => updatePending({ topK: Math.min(20, Math.max(1, Number(e.target.value) || 1)) })}
+                    />
+                </div>
+
+                {hasChanges && (
+                    <div className="flex gap-2 pt-4 border-t" style={{ borderColor: currentTheme.styles.borderDefault }}>
+                        <Button size="sm" onClick={handleSave}>
+                            Save
+                        </Button>
+                        <Button size="sm" variant="ghost" onClick={() => setPending(null)}>
+                            Cancel
+                        </Button>
+                    </div>
+                )}
+
+                <div className="grid gap-2 pt-4 border-t" style={{ borderColor: currentTheme.styles.borderDefault }}>
+                    <Label htmlFor="semantic-test">Try a search</Label>
+                    <div className="flex gap-2">
+                        <Input
+                            id="semantic-test"
+                            value={testQuery}
+                            onChange={(e) => setTestQuery(e.target.value)}
+                            onKeyDown={(e) => e.key === "Enter" && handleTest()}
+                            placeholder="What did we decide about pricing?"
+                        />
+                        <Button size="sm" variant="outline" onClick={handleTest} disabled={testing || hasChanges || !testQuery.trim()}>
+                            {testing ? "Searching..." : "Search"}
+                        </Button>
+                    </div>
+                    {testResults && testResults.length === 0 && (
+                        <p className="text-sm" style={{ color: currentTheme.styles.contentTertiary }}>
+                            No matching notes
+                        </p>
+                    )}
+                    {testResults?.map((hit) => (
+                        <div key={`${hit.source}:${hit.fileName}:${hit.line}`} className="text-sm">
+                            <span style={{ color: currentTheme.styles.contentPrimary }}>
+                                {hit.fileName}
+                                {hit.heading && ` › ${hit.heading}`}
+                            </span>
+                            <span className="ml-2" style={{ color: currentTheme.styles.contentTertiary }}>
+                                {hit.score.toFixed(2)}
+                            </span>
+                        </div>
+                    ))}
+                </div>
+                {error && (
+                    <p className="text-sm" style={{ color: currentTheme.styles.semanticDestructive }}>
+                        {error}
+                    </p>
+                )}
+            </CardContent>
+        </Card>
+    );
+}
+
 function SettingsContent() {
     const [editingShortcut, setEditingShortcut] = useState<string | null>(null);
     const [recordingKeys, setRecordingKeys] = useState<string[]>([]);
@@ -1273,7 +1578,11 @@ function SettingsContent() {
                 </TabsContent>
 
                 <TabsContent value="storage">
-                    <StorageSettings />
+                    <div className="space-y-6">
+                        <StorageSettings />
+                        <DailyNotesSettings />
+                        <SemanticSearchSettings />
+                    </div>
                 </TabsContent>
 
                 <TabsContent value="about">
@@ -0,0 +1,320 @@
+import { useState, useEffect, useCallback, useMemo } from "react";
+import { useNavigate } from "react-router-dom";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Separator } from "@/components/ui/separator";
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from "@/components/ui/dialog";
+import { SidebarProvider, SidebarInset } from "@/components/ui/sidebar";
+import { WorkspaceSidebar } from "@/components/WorkspaceSidebar";
+import { useTheme } from "@/hooks/useTheme";
+import { useSnapshotsAPI, type Snapshot } from "@/hooks/useSnapshotsAPI";
+import type { SnapshotTrigger } from "@/services/snapshots";
+import { Camera, FileText, GitBranch, History, Loader2, RotateCcw, Trash2 } from "lucide-react";
+
+const TRIGGER_LABELS: Record<SnapshotTrigger, string> = {
+    manual: "Manual",
+    "bulk-rename": "Before rename",
+    "project-delete": "Before project delete",
+    "agent-run": "Before agent run",
+    restore: "Before restore",
+};
+
+function SnapshotBrowser({ snapshot, onChanged }: { snapshot: Snapshot; onChanged: () => void }) {
+    const { currentTheme } = useTheme();
+    const api = useSnapshotsAPI();
+    const [files, setFiles] = useState<string[]>([]);
+    const [filter, setFilter] = useState("");
+    const [selected, setSelected] = useState<Set<string>>(new Set());
+    const [openFile, setOpenFile] = useState<{ path: string; content: string; binary: boolean } | null>(null);
+    const [confirmWhole, setConfirmWhole] = useState(false);
+    const [restoring, setRestoring] = useState(false);
+
+    useEffect(() => {
+        setSelected(new Set());
+        setOpenFile(null);
+        api.getFiles({ id: snapshot.id })
+            .then(setFiles)
+            .catch((error) => toast.error(error instanceof Error ? error.message : "Failed to load snapshot"));
+    }, [api, snapshot.id]);
+
+    const visibleFiles = useMemo(() => {
+        const query = filter.trim().toLowerCase();
+        return query ? files.filter((path) => path.toLowerCase().includes(query)) : files;
+    }, [files, filter]);
+
+    async function viewFile(path: string) {
+        try {
+            setOpenFile({ path, ...(await api.getFile({ id: snapshot.id, path })) });
+        } catch (error) {
+            toast.error(error instanceof Error ? error.message : "Failed to read file");
+        }
+    }
+
+    function toggleSelected(path: string) {
+        setSelected((prev) => {
+            const next = new Set(prev);
+            if (next.has(path)) next.delete(path);
+            else next.add(path);
+            return next;
+        });
+    }
+
+    async function restore(paths?: string[]) {
+        setRestoring(true);
+        try {
+            const result = await api.restore({ id: snapshot.id, paths });
+            const deleted = result.deleted.length > 0 ? `, removed ${result.deleted.length}` : "";
+            toast.success(`Restored ${result.restored.length} file${result.restored.length !== 1 ? "s" : ""}${deleted}. The previous state was saved as a snapshot.`);
+            setSelected(new Set());
+            onChanged();
+        } catch (error) {
+            toast.error(error instanceof Error ? error.message : "Restore failed");
+        } finally {
+            setRestoring(false);
+            setConfirmWhole(false);
+        }
+    }
+
+    async function deleteSnapshot() {
+        try {
+            await api.deleteSnapshot({ id: snapshot.id });
+            onChanged();
+        } catch (error) {
+            toast.error(error instanceof Error ? error.message : "Failed to delete snapshot");
+        }
+    }
+
+    return (
+        <div className="flex-1 min-w-0 flex flex-col gap-3">
+            <div className="flex items-center justify-between gap-2">
+                <div className="min-w-0">
+                    <div className="font-medium truncate">{snapshot.name}</div>
+                    <div className="text-xs" style={{ color: currentTheme.styles.contentSecondary }}>
+                        {new Date(snapshot.createdAt).toLocaleString()} · {files.length} files · read-only
+                    </div>
+                </div>
+                <div className="flex items-center gap-2 flex-shrink-0">
+                    <Button variant="outline" size="sm" disabled={selected.size === 0 || restoring} onClick={() => restore([...selected])}>
+                        <RotateCcw className="mr-2 h-3.5 w-3.5" />
+                        Restore selected{selected.size > 0 ? ` (${selected.size})` : ""}
+                    </Button>
+                    <Button size="sm" disabled={restoring} onClick={() => setConfirmWhole(true)}>
+                        {restoring ? <Loader2 className="mr-2 h-3.5 w-3.5 animate-spin" /> : <History className="mr-2 h-3.5 w-3.5" />}
+                        Restore workspace
+                    </Button>
+                    <Button variant="ghost" size="sm" onClick={deleteSnapshot} title="Delete snapshot">
+                        <Trash2 className="h-3.5 w-3.5" />
+                    </Button>
+                </div>
+            </div>
+
+            <div className="flex gap-3 min-h-0 flex-1">
+                <div className="w-72 flex-shrink-0 flex flex-col gap-2 min-h-0">
+                    <Input placeholder="Filter files" value={filter} onChange={(e) => setFilter(e.target.value)} className="h-8 text-sm" />
+                    <div className="rounded-md border overflow-y-auto flex-1 p-1">
+                        {visibleFiles.map((path) => (
+                            <div
+                                key={path}
+                                className={`flex items-center gap-2 px-1.5 py-1 rounded text-xs cursor-pointer ${openFile?.path === path ? "bg-muted" : "hover:bg-muted/50"}`}
+                                onClick={() => viewFile(path)}
+                            >
+                                <Checkbox
+                                    checked={selected.has(path)}
+                                    onClick={(e) => e.stopPropagation()}
+                                    onCheckedChange={() => toggleSelected(path)}
+                                />
+                                <span className="font-mono truncate">{path}</span>
+                            </div>
+                        ))}
+                    </div>
+                </div>
+
+                <div className="flex-1 min-w-0 rounded-md border overflow-auto">
+                    {openFile ? (
+                        openFile.binary ? (
+                            <p className="p-4 text-sm" style={{ color: currentTheme.styles.contentSecondary }}>
+                                Binary file, not shown.
+                            </p>
+                        ) : (
+                            <pre className="p-4 text-xs font-mono whitespace-pre-wrap break-words">{openFile.content}</pre>
+                        )
+                    ) : (
+                        <div className="h-full flex flex-col items-center justify-center gap-2 text-sm" style={{ color: currentTheme.styles.contentSecondary }}>
+                            <FileText className="h-5 w-5" />
+                            Select a file to view it as it was in this snapshot
+                        </div>
+                    )}
+                </div>
+            </div>
+
+            <Dialog open={confirmWhole} onOpenChange={setConfirmWhole}>
+                <DialogContent>
+                    <DialogHeader>
+                        <DialogTitle>Restore the whole workspace?</DialogTitle>
+                        <DialogDescription>
+                            Every file goes back to how it was in "{snapshot.name}", and files created since are removed.
+                            Settings and secrets are left as they are. The workspace is snapshotted first, so this can be undone.
+                        </DialogDescription>
+                    </DialogHeader>
+                    <DialogFooter>
+                        <Button variant="ghost" onClick={() => setConfirmWhole(false)}>
+                            Cancel
+                        </Button>
+                        <Button disabled={restoring} onClick={() => restore()}>
+                            {restoring && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                            Restore
+                        </Button>
+                    </DialogFooter>
+                </DialogContent>
+            </Dialog>
+        </div>
+    );
+}
+
+function SnapshotsContent() {
+    const navigate = useNavigate();
+    const { currentTheme } = useTheme();
+    const api = useSnapshotsAPI();
+    const [snapshots, setSnapshots] = useState<Snapshot[] | null>(null);
+    const [selectedId, setSelectedId] = useState<string | null>(null);
+    const [name, setName] = useState("");
+    const [taking, setTaking] = useState(false);
+
+    const loadSnapshots = useCallback(async () => {
+        try {
+            setSnapshots(await api.listSnapshots());
+        } catch (error) {
+            toast.error(error instanceof Error ? error.message : "Failed to load snapshots");
+            setSnapshots([]);
+        }
+    }, [api]);
+
+    useEffect(() => {
+        loadSnapshots();
+    }, [loadSnapshots]);
+
+    async function takeSnapshot() {
+        setTaking(true);
+        try {
+            const snapshot = await api.createSnapshot({ name });
+            setName("");
+            await loadSnapshots();
+            setSelectedId(snapshot.id);
+        } catch (error) {
+            toast.error(error instanceof Error ? error.message : "Failed to take snapshot");
+        } finally {
+            setTaking(false);
+        }
+    }
+
+    const selected = snapshots?.find((snapshot) => snapshot.id === selectedId) ?? null;
+
+    return (
+        <div
+            className="h-full overflow-hidden p-6 flex flex-col gap-6"
+            style={{
+                backgroundColor: currentTheme.styles.surfacePrimary,
+                color: currentTheme.styles.contentPrimary,
+            }}
+        >
+            <div className="flex items-center justify-between">
+                <div>
+                    <h1 className="text-2xl font-bold" style={{ color: currentTheme.styles.contentPrimary }}>
+                        Snapshots
+                    </h1>
+                    <p style={{ color: currentTheme.styles.contentSecondary }}>
+                        Saved copies of the whole workspace, taken on demand and before bulk renames, project deletes and agent runs. Kept locally, never pushed.
+                    </p>
+                </div>
+                <div className="flex items-center gap-2">
+                    <Input
+                        placeholder="Snapshot name"
+                        value={name}
+                        onChange={(e) => setName(e.target.value)}
+                        onKeyDown={(e) => {
+                            if (e.key === "Enter") takeSnapshot();
+                        }}
+                        className="w-56"
+                    />
+                    <Button onClick={takeSnapshot} disabled={taking}>
+                        {taking ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Camera className="mr-2 h-4 w-4" />}
+                        Take Snapshot
+                    </Button>
+                    <Button variant="outline" onClick={() => navigate("/sync")}>
+                        <GitBranch className="mr-2 h-4 w-4" />
+                        Sync
+                    </Button>
+                </div>
+            </div>
+
+            <Separator />
+
+            {snapshots === null ? (
+                <p style={{ color: currentTheme.styles.contentSecondary }}>Loading snapshots...</p>
+            ) : snapshots.length === 0 ? (
+                <p style={{ color: currentTheme.styles.contentSecondary }}>
+                    No snapshots yet. Snapshots need a git repository; initialize one on the Sync page if you haven't.
+                </p>
+            ) : (
+                <div className="flex gap-4 min-h-0 flex-1">
+                    <div className="w-72 flex-shrink-0 overflow-y-auto space-y-1">
+                        {snapshots.map((snapshot) => (
+                            <button
+                                key={snapshot.id}
+                                onClick={() => setSelectedId(snapshot.id)}
+                                className={`w-full text-left rounded-md border px-3 py-2 transition-colors ${snapshot.id === selectedId ? "bg-muted" : "hover:bg-muted/50"}`}
+                            >
+                                <div className="text-sm font-medium truncate">{snapshot.name}</div>
+                                <div className="flex items-center gap-2 mt-1">
+                                    <Badge variant="secondary" className="text-[10px]">
+                                        {TRIGGER_LABELS[snapshot.trigger]}
+                                    </Badge>
+                                    <span className="text-xs" style={{ color: currentTheme.styles.contentSecondary }}>
+                                        {new Date(snapshot.createdAt).toLocaleString()}
+                                    </span>
+                                </div>
+                            </button>
+                        ))}
+                    </div>
+                    {selected ? (
+                        <SnapshotBrowser
+                            key={selected.id}
+                            snapshot={selected}
+                            onChanged={() => {
+                                setSelectedId(null);
+                                loadSnapshots();
+                            }}
+                        />
+                    ) : (
+                        <div className="flex-1 flex items-center justify-center text-sm" style={{ color: currentTheme.styles.contentSecondary }}>
+                            Select a snapshot to browse its files
+                        </div>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+}
+
+export function SnapshotsPage() {
+    return (
+        <SidebarProvider>
+            <div className="flex h-screen w-full overflow-hidden">
+                <WorkspaceSidebar />
+                <SidebarInset className="flex-1 overflow-hidden">
+                    <SnapshotsContent />
+                </SidebarInset>
+            </div>
+        </SidebarProvider>
+    );
+}
@@ -3,9 +3,14 @@ import { useNavigate } from "react-router-dom";
 import { Button } from "../components/ui/button";
 import { Input } from "../components/ui/input";
 import { Label } from "../components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
 import { Badge } from "../components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useWorkspaceContext } from "@/contexts/WorkspaceContext";
 import { useGHSync } from "@/contexts/GHSyncContext";
+import { GIT_HOSTS } from "@/lib/git-hosts";
+import { normalizeSyncFolder, SYNC_IGNORE_PRESETS, type SyncCandidate } from "@/lib/sync-scope";
+import { GIT_HOST_TYPES, type GitHostType } from "@/types/Workspace";
 import { chatPluginSerial } from "@/features/chat";
 import { SidebarProvider, SidebarInset } from "@/components/ui/sidebar";
 import { WorkspaceSidebar } from "@/components/WorkspaceSidebar";
@@ -30,7 +35,8 @@ import {
     Eye,
     Bot,
     Key,
-    ExternalLink
+    ExternalLink,
+    Camera
 } from "lucide-react";
 
 interface CommitInfo {
@@ -137,9 +143,158 @@ function ChangedFilesList({ status }: { status: string }) {
     );
 }
 
+interface SyncPreview {
+    success: boolean;
+    files: SyncCandidate[];
+    largeFiles: SyncCandidate[];
+    excludedCount: number;
+}
+
+function formatFileSize(bytes: number): string {
+    if (bytes >= 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+    if (bytes >= 1024) return `${Math.round(bytes / 1024)} KB`;
+    return `${bytes} B`;
+}
+
+function parseLines(text: string): string[] {
+    return text.split("\n").map(line => line.trim()).filter(line => line.length > 0);
+}
+
+function SelectiveSyncSettings() {
+    const { autoSync, setAutoSyncConfig } = useWorkspaceContext();
+    const [ignoreText, setIgnoreText] = useState(autoSync.ignorePatterns.join("\n"));
+    const [foldersText, setFoldersText] = useState(autoSync.includeFolders.join("\n"));
+    const [preview, setPreview] = useState<SyncPreview | null>(null);
+
+    // Pick up settings once the workspace loads, and the normalized lists after saving
+    useEffect(() => {
+        setIgnoreText(autoSync.ignorePatterns.join("\n"));
+    }, [autoSync.ignorePatterns]);
+    useEffect(() => {
+        setFoldersText(autoSync.includeFolders.join("\n"));
+    }, [autoSync.includeFolders]);
+
+    const loadPreview = useCallback(async () => {
+        try {
+            const response = await fetch("/api/git/sync-preview");
+            if (response.ok) {
+                setPreview(await response.json());
+            }
+        } catch (error) {
+            console.error("Failed to load sync preview:", error);
+        }
+    }, []);
+
+    // Settings save in the background, so give them a moment before previewing
+    useEffect(() => {
+        const timer = setTimeout(loadPreview, 300);
+        return () => clearTimeout(timer);
+    }, [loadPreview, autoSync.ignorePatterns, autoSync.includeFolders, autoSync.largeFileThresholdMB]);
+
+    const addPreset = (patterns: string[]) => {
+        const missing = patterns.filter(pattern => !autoSync.ignorePatterns.includes(pattern));
+        setAutoSyncConfig({ ignorePatterns: [...autoSync.ignorePatterns, ...missing] });
+    };
+
+    return (
+        <div className="mt-6 mb-6 border rounded-lg p-4 space-y-4">
+            <div>
+                <div className="text-sm font-medium">Selective Sync</div>
+                <p className="text-xs text-muted-foreground mt-0.5">
+                    Choose what gets committed. Files left out stay in your workspace but aren't synced.
+                </p>
+            </div>
+
+            <div className="space-y-1.5">
+                <Label className="text-xs text-muted-foreground">Ignore rules (one per line, .gitignore style)</Label>
+                <Textarea
+                    value={ignoreText}
+                    onChange={(e) => setIgnoreText(e.target.value)}
+                    onBlur={() => setAutoSyncConfig({ ignorePatterns: parseLines(ignoreText) })}
+                    placeholder={"uploads/\n*.mp4\nPrivate/"}
+                    className="font-mono text-sm min-h-20"
+                />
+                <div className="flex items-center gap-1.5 flex-wrap">
+                    {SYNC_IGNORE_PRESETS.map((preset) => (
+                        <Button
+                            key={preset.label}
+                            variant="outline"
+                            size="sm"
+                            className="h-6 text-xs"
+                            disabled={preset.patterns.every(pattern => autoSync.ignorePatterns.includes(pattern))}
+                            onClick={() => addPreset(preset.patterns)}
+                        >
+                            Ignore {preset.label.toLowerCase()}
+                        </Button>
+                    ))}
+                </div>
+            </div>
+
+            <div className="space-y-1.5">
+                <Label className="text-xs text-muted-foreground">Sync only these folders (one per line, empty syncs everything)</Label>
+                <Textarea
+                    value={foldersText}
+                    onChange={(e) => setFoldersText(e.target.value)}
+                    onBlur={() => setAutoSyncConfig({ includeFolders: parseLines(foldersText).map(normalizeSyncFolder) })}
+                    placeholder={"notes\ntodos"}
+                    className="font-mono text-sm min-h-16"
+                />
+            </div>
+
+            <div>
+                <Label className="text-xs text-muted-foreground">Large file limit (MB)</Label>
+                <Input
+                    type="number"
+                    min="0"
+                    value={autoSync.largeFileThresholdMB}
+                    onChange={(e) => {
+                        const value = Number(e.target.value);
+                        if (Number.isFinite(value) && value >= 0) {
+                            setAutoSyncConfig({ largeFileThresholdMB: value });
+                        }
+                    }}
+                    className="font-mono text-sm w-32 mt-1.5"
+                />
+                <p className="text-xs text-muted-foreground mt-1">
+                    Larger files aren't committed. 0 turns the limit off.
+                </p>
+            </div>
+
+            {preview && (
+                <div className="pt-3 border-t space-y-2">
+                    <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                        <Eye className="h-3.5 w-3.5" />
+                        <span>
+                            Next sync commits {preview.files.length} file{preview.files.length !== 1 ? "s" : ""}
+                            {preview.excludedCount > 0 && `, ${preview.excludedCount} changed file${preview.excludedCount !== 1 ? "s" : ""} left out`}
+                        </span>
+                        <button onClick={loadPreview} className="ml-auto hover:text-foreground" title="Refresh preview">
+                            <RefreshCw className="h-3 w-3" />
+                        </button>
+                    </div>
+                    {preview.largeFiles.length > 0 && (
+                        <div className="rounded-md border border-amber-500/30 bg-amber-500/10 p-2 space-y-0.5">
+                            <div className="text-xs font-medium text-amber-600">
+                                Over the size limit, not committed:
+                            </div>
+                            {preview.largeFiles.map((file) => (
+                                <div key={file.path} className="flex items-center gap-2 text-xs py-0.5 min-w-0">
+                                    <span className="font-mono text-muted-foreground truncate min-w-0 flex-1">{file.path}</span>
+                                    <span className="font-mono text-amber-600 flex-shrink-0">{formatFileSize(file.size)}</span>
+                                </div>
+                            ))}
+                        </div>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+}
+
 function SyncContent() {
     const navigate = useNavigate();
-    const { addNewTab, setActiveTabId, autoSync, setAutoSyncConfig } = useWorkspaceContext();
+    const { addNewTab, setActiveTabId, autoSync, setAutoSyncConfig, gitAuth, setGitAuthProfile } = useWorkspaceContext();
+    const host = GIT_HOSTS[gitAuth.host];
     const { status: syncStatus, setupStatus, needsSetup, checkForChanges, sync, recheckSetup, clearMergeConflict, gitAuthMode, setGitAuthMode } = useGHSync();
     const [gitStatus, setGitStatus] = useState<GitStatus | null>(null);
     const [loading, setLoading] = useState(true);
@@ -420,25 +575,33 @@ After you provide the merged content, I will manually update the file and mark t
     return (
         <div className="p-6 max-w-2xl">
             {/* Header */}
-            <div className="mb-6">
-                <div className="flex items-center gap-3 mb-1">
-                    <FolderGit2 className="h-5 w-5 text-muted-foreground" />
-                    <h1 className="text-lg font-semibold tracking-tight">Sync</h1>
+            <div className="mb-6 flex items-start justify-between">
+                <div>
+                    <div className="flex items-center gap-3 mb-1">
+                        <FolderGit2 className="h-5 w-5 text-muted-foreground" />
+                        <h1 className="text-lg font-semibold tracking-tight">Sync</h1>
+                    </div>
+                    <p className="text-sm text-muted-foreground ml-8">
+                        Workspace Sync
+                    </p>
                 </div>
-                <p className="text-sm text-muted-foreground ml-8">
-                    Workspace Sync
-                </p>
+                {gitStatus?.initialized && (
+                    <Button variant="outline" size="sm" onClick={() => navigate("/snapshots")}>
+                        <Camera className="h-3.5 w-3.5 mr-2" />
+                        Snapshots
+                    </Button>
+                )}
             </div>
 
             {/* Auth Mode Setting */}
-            <div className="mb-6 border rounded-lg p-4">
+            <div className="mb-6 border rounded-lg p-4 space-y-4">
                 <div className="flex items-center justify-between">
                     <div>
                         <div className="text-sm font-medium">Authentication Mode</div>
                         <p className="text-xs text-muted-foreground mt-0.5">
                             {gitAuthMode === "local"
-                                ? "Using local git credentials (SSH keys or credential helper)"
-                                : "Using GitHub Personal Access Token"}
+                                ? "Using the git credential store (~/.git-credentials)"
+                                : `Using a ${host.label} access token`}
                         </p>
                     </div>
                     <div className="flex items-center gap-1 bg-muted rounded-md p-1">
@@ -450,7 +613,7 @@ After you provide the merged content, I will manually update the file and mark t
                                     : "text-muted-foreground hover:text-foreground"
                             }`}
                         >
-                            Local
+                            Credential store
                         </button>
                         <button
                             onClick={() => setGitAuthMode("pat")}
@@ -460,10 +623,48 @@ After you provide the merged content, I will manually update the file and mark t
                                     : "text-muted-foreground hover:text-foreground"
                             }`}
                         >
-                            PAT
+                            Token
                         </button>
                     </div>
                 </div>
+
+                <div className="flex items-end gap-3 flex-wrap">
+                    <div className="space-y-1.5">
+                        <Label className="text-xs text-muted-foreground">Host</Label>
+                        <Select
+                            value={gitAuth.host}
+                            onValueChange={(value) => setGitAuthProfile({ host: value as GitHostType })}
+                        >
+                            <SelectTrigger className="w-44">
+                                <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                                {GIT_HOST_TYPES.map((type) => (
+                                    <SelectItem key={type} value={type}>
+                                        {GIT_HOSTS[type].label}
+                                    </SelectItem>
+                                ))}
+                            </SelectContent>
+                        </Select>
+                    </div>
+                    {host.username !== "none" && (
+                        <div className="space-y-1.5">
+                            <Label className="text-xs text-muted-foreground">
+                                Username{host.username === "optional" ? " (optional)" : ""}
+                            </Label>
+                            <Input
+                                value={gitAuth.username}
+                                onChange={(e) => setGitAuthProfile({ username: e.target.value })}
+                                className="font-mono text-sm w-48"
+                            />
+                        </div>
+                    )}
+                </div>
+                {gitAuthMode === "local" && (
+                    <p className="text-xs text-muted-foreground">
+                        Falls back to the access token when no stored credentials match the remote. SSH remotes sign in with your SSH keys through git instead.
+                    </p>
+                )}
             </div>
 
             {/* Auto-Sync Settings */}
@@ -568,6 +769,9 @@ After you provide the merged content, I will manually update the file and mark t
                 )}
             </div>
 
+            {/* Selective Sync Settings */}
+            {gitStatus?.initialized && <SelectiveSyncSettings />}
+
             {/* Setup Required Card */}
             {needsSetup && (
                 <div className="mb-6 border rounded-lg p-5 bg-muted/30">
@@ -634,26 +838,28 @@ After you provide the merged content, I will manually update the file and mark t
                                         <XCircle className="h-4 w-4 text-muted-foreground flex-shrink-0" />
                                     )}
                                     <span className={setupStatus.hasPAT ? "text-foreground" : "text-muted-foreground"}>
-                                        GitHub Personal Access Token
+                                        {host.label} access token
                                     </span>
                                 </div>
 
                                 {!setupStatus.hasPAT && (
                                     <div className="pl-7 space-y-2">
                                         <p className="text-xs text-muted-foreground">
-                                            Create a PAT with 'repo' scope to enable sync:
+                                            {host.tokenHelp} to enable sync{host.tokenUrl ? ":" : "."}
                                         </p>
-                                        <div className="flex items-center gap-2">
-                                            <a
-                                                href="https://github.com/settings/tokens/new?scopes=repo&description=Nomendex%20Sync"
-                                                target="_blank"
-                                                rel="noopener noreferrer"
-                                                className="text-xs text-primary hover:underline flex items-center gap-1"
-                                            >
-                                                Create token on GitHub
-                                                <ExternalLink className="h-3 w-3" />
-                                            </a>
-                                        </div>
+                                        {host.tokenUrl && (
+                                            <div className="flex items-center gap-2">
+                                                <a
+                                                    href={host.tokenUrl}
+                                                    target="_blank"
+                                                    rel="noopener noreferrer"
+                                                    className="text-xs text-primary hover:underline flex items-center gap-1"
+                                                >
+                                                    Create token on {host.label}
+                                                    <ExternalLink className="h-3 w-3" />
+                                                </a>
+                                            </div>
+                                        )}
                                         <Button
                                             variant="outline"
                                             size="sm"
@@ -731,7 +937,7 @@ After you provide the merged content, I will manually update the file and mark t
                         <div className="space-y-1.5">
                             <Label className="text-xs text-muted-foreground">Repository URL</Label>
                             <Input
-                                placeholder="https://github.com/user/repo"
+                                placeholder={host.urlPlaceholder}
                                 value={repoUrl}
                                 onChange={(e) => setRepoUrl(e.target.value)}
                                 className="font-mono text-sm"
@@ -762,7 +968,9 @@ After you provide the merged content, I will manually update the file and mark t
                     </div>
 
                     <p className="text-xs text-muted-foreground mt-4 pt-4 border-t">
-                        Uses local git credentials (SSH or credential helper)
+                        {gitAuthMode === "local"
+                            ? "Uses credentials from the git credential store for an HTTPS URL, or your SSH keys for an SSH URL such as git@host:user/repo."
+                            : `Uses your ${host.label} access token for an HTTPS URL, or your SSH keys for an SSH URL such as git@host:user/repo.`}
                     </p>
                 </div>
             )}
@@ -1012,6 +1220,20 @@ After you provide the merged content, I will manually update the file and mark t
                         </div>
                     )}
 
+                    {/* Files the last sync left out */}
+                    {syncStatus.skippedLargeFiles.length > 0 && (
+                        <div className="rounded-md border border-amber-500/30 bg-amber-500/10 p-2 space-y-0.5">
+                            <div className="text-xs font-medium text-amber-600">
+                                Over the size limit, left out of the last sync:
+                            </div>
+                            {syncStatus.skippedLargeFiles.map((path) => (
+                                <div key={path} className="font-mono text-xs text-muted-foreground truncate py-0.5">
+                                    {path}
+                                </div>
+                            ))}
+                        </div>
+                    )}
+
                     {/* Sync Button */}
                     {!hasMergeConflict && (
                         <Button
@@ -1,6 +1,7 @@
 import { NotesPluginBase } from "@/features/notes";
 import { PluginBase } from "@/types/Plugin";
 import { TodosPluginBase } from "@/features/todos";
+import { CalendarPluginBase } from "@/features/calendar";
 import { ChatPluginBase } from "@/features/chat";
 import { UploadsPluginBase } from "@/features/uploads";
 import { TagsPluginBase } from "@/features/tags";
@@ -10,6 +11,7 @@ import { ProjectsPluginBase } from "@/features/projects";
 export const baseRegistry = {
     notes: NotesPluginBase,
     todos: TodosPluginBase,
+    calendar: CalendarPluginBase,
     uploads: UploadsPluginBase,
     chat: ChatPluginBase,
     tags: TagsPluginBase,
@@ -0,0 +1,78 @@
+// API routes for the agent activity view: per-session run logs, usage and cost
+
+import { listAgents } from "@/features/agents/fx";
+import { readAllRunLogs, readRunLog } from "@/features/agents/run-log";
+import { type SessionActivity, summarizeSession, toCsv, totalUsage } from "@/features/agents/run-log-summary";
+import { type SessionMetadata, getSessionsFile, readJSONL } from "@/services/chat-sessions";
+
+// Summaries for every logged session, newest first, with chat titles and agent names filled in
+async function loadSessionActivity(): Promise<SessionActivity[]> {
+    const [logs, sessions, agents] = await Promise.all([
+        readAllRunLogs(),
+        readJSONL<SessionMetadata>(getSessionsFile()),
+        listAgents(),
+    ]);
+    const titles = new Map(sessions.map((session) => [session.id, session.title]));
+    const agentNames = new Map(agents.map((agent) => [agent.id, agent.name]));
+
+    const activity: SessionActivity[] = [];
+    for (const [sessionId, events] of logs) {
+        const summary = summarizeSession(events);
+        if (!summary) continue;
+        activity.push({ ...summary, title: titles.get(sessionId), agentName: agentNames.get(summary.agentId) });
+    }
+    return activity.sort((a, b) => b.lastActivityAt.localeCompare(a.lastActivityAt));
+}
+
+export const agentActivityRoutes = {
+    "/api/agent-activity/summary": {
+        async GET() {
+            const sessions = await loadSessionActivity();
+            return Response.json({
+                sessions,
+                byAgent: totalUsage(sessions, "agent"),
+                byDay: totalUsage(sessions, "day"),
+            });
+        },
+    },
+
+    "/api/agent-activity/session": {
+        async POST(req: Request) {
+            const { sessionId } = await req.json();
+            const events = await readRunLog(sessionId);
+            return Response.json(events);
+        },
+    },
+
+    // ?format=csv|json&groupBy=session|agent|day
+    "/api/agent-activity/export": {
+        async GET(req: Request) {
+            const params = new URL(req.url).searchParams;
+            const format = params.get("format") === "json" ? "json" : "csv";
+            const groupBy = params.get("groupBy") ?? "session";
+
+            const sessions = await loadSessionActivity();
+            let rows: object[];
+            if (groupBy === "agent" || groupBy === "day") {
+                rows = totalUsage(sessions, groupBy);
+            } else if (format === "json") {
+                rows = sessions;
+            } else {
+                // Flatten per-tool counts so each session is one CSV row
+                rows = sessions.map(({ tools, ...session }) => ({
+                    ...session,
+                    tools: Object.entries(tools).map(([name, count]) => `${name}×${count}`),
+                }));
+            }
+
+            const fileName = `agent-activity-${groupBy}-${new Date().toISOString().slice(0, 10)}.${format}`;
+            const body = format === "json" ? JSON.stringify(rows, null, 2) : toCsv(rows);
+            return new Response(body, {
+                headers: {
+                    "Content-Type": format === "json" ? "application/json" : "text/csv",
+                    "Content-Disposition": `attachment; filename="${fileName}"`,
+                },
+            });
+        },
+    },
+};
@@ -0,0 +1,101 @@
+// API routes for scheduled agent runs
+
+import {
+    listSchedules,
+    createSchedule,
+    updateSchedule,
+    deleteSchedule,
+    runScheduleNow,
+} from "@/features/agents/schedules";
+import { listRuns, resumeRun, dismissRun, cancelRun } from "@/features/agents/scheduled-runs";
+
+export const agentSchedulesRoutes = {
+    "/api/agent-schedules/list": {
+        async GET() {
+            const schedules = await listSchedules();
+            return Response.json(schedules);
+        },
+    },
+
+    "/api/agent-schedules/create": {
+        async POST(req: Request) {
+            const args = await req.json();
+            try {
+                const schedule = await createSchedule(args);
+                return Response.json(schedule);
+            } catch (error) {
+                return Response.json({ error: error instanceof Error ? error.message : "Failed to create schedule" }, { status: 400 });
+            }
+        },
+    },
+
+    "/api/agent-schedules/update": {
+        async POST(req: Request) {
+            const args = await req.json();
+            try {
+                const schedule = await updateSchedule(args);
+                if (!schedule) {
+                    return Response.json({ error: "Schedule not found" }, { status: 404 });
+                }
+                return Response.json(schedule);
+            } catch (error) {
+                return Response.json({ error: error instanceof Error ? error.message : "Failed to update schedule" }, { status: 400 });
+            }
+        },
+    },
+
+    "/api/agent-schedules/delete": {
+        async POST(req: Request) {
+            const { scheduleId } = await req.json();
+            const result = await deleteSchedule({ scheduleId });
+            return Response.json(result);
+        },
+    },
+
+    "/api/agent-schedules/run-now": {
+        async POST(req: Request) {
+            const { scheduleId } = await req.json();
+            const run = await runScheduleNow({ scheduleId });
+            return Response.json(run);
+        },
+    },
+
+    "/api/agent-schedules/runs": {
+        async POST(req: Request) {
+            const { limit } = await req.json();
+            const runs = await listRuns({ limit });
+            return Response.json(runs);
+        },
+    },
+
+    "/api/agent-schedules/runs/resume": {
+        async POST(req: Request) {
+            const { runId, decision } = await req.json();
+            if (decision !== "allow-once" && decision !== "always-allow" && decision !== "deny") {
+                return Response.json({ error: "decision must be 'allow-once', 'always-allow' or 'deny'" }, { status: 400 });
+            }
+            try {
+                const run = await resumeRun({ runId, decision });
+                return Response.json(run);
+            } catch (error) {
+                return Response.json({ error: error instanceof Error ? error.message : "Failed to resume run" }, { status: 400 });
+            }
+        },
+    },
+
+    "/api/agent-schedules/runs/dismiss": {
+        async POST(req: Request) {
+            const { runId } = await req.json();
+            const result = await dismissRun({ runId });
+            return Response.json(result);
+        },
+    },
+
+    "/api/agent-schedules/runs/cancel": {
+        async POST(req: Request) {
+            const { runId } = await req.json();
+            const result = cancelRun({ runId });
+            return Response.json(result);
+        },
+    },
+};
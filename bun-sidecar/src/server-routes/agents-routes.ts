@@ -11,6 +11,9 @@ import {
     savePreferences,
     getMcpRegistry,
 } from "@/features/agents/fx";
+import { listPermissionAudit } from "@/features/agents/permission-audit";
+import { exportAgentBundle, importAgentBundle, previewAgentBundle } from "@/features/agents/bundles";
+import { BundleImportChoicesSchema } from "@/features/agents/bundle-format";
 
 export const agentsRoutes = {
     "/api/agents/list": {
@@ -66,6 +69,59 @@ export const agentsRoutes = {
         },
     },
 
+    "/api/agents/export": {
+        async GET(req: Request) {
+            const url = new URL(req.url);
+            const agentId = url.searchParams.get("agentId") || "";
+            const skills = url.searchParams.get("skills");
+            const bundle = await exportAgentBundle({
+                agentId,
+                skills: skills === null ? undefined : skills.split(",").filter(Boolean),
+            });
+            if (!bundle) {
+                return Response.json({ error: "Agent not found" }, { status: 404 });
+            }
+
+            const slug = bundle.agent.name.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-+|-+$/g, "") || "agent";
+            return new Response(JSON.stringify(bundle, null, 2), {
+                headers: {
+                    "Content-Type": "application/json",
+                    "Content-Disposition": `attachment; filename="${slug}.agent.json"`,
+                },
+            });
+        },
+    },
+
+    "/api/agents/import-preview": {
+        async POST(req: Request) {
+            try {
+                const { bundle } = await req.json();
+                const preview = await previewAgentBundle({ bundle });
+                return Response.json(preview);
+            } catch (error) {
+                return Response.json(
+                    { error: error instanceof Error ? error.message : "Failed to read agent bundle" },
+                    { status: 400 }
+                );
+            }
+        },
+    },
+
+    "/api/agents/import": {
+        async POST(req: Request) {
+            try {
+                const { bundle, choices } = await req.json();
+                const result = await importAgentBundle({ bundle, choices: BundleImportChoicesSchema.parse(choices ?? {}) });
+                return Response.json(result);
+            } catch (error) {
+                return Response.json(
+                    { error: error instanceof Error ? error.message : "Failed to import agent bundle" },
+                    { status: 400 }
+                );
+            }
+        },
+    },
+
     "/api/agents/preferences": {
         async GET() {
             const preferences = await getPreferences();
@@ -78,6 +134,14 @@ export const agentsRoutes = {
         },
     },
 
+    "/api/agents/permission-audit": {
+        async POST(req: Request) {
+            const args = await req.json();
+            const entries = await listPermissionAudit(args);
+            return Response.json(entries);
+        },
+    },
+
     "/api/mcp-registry": {
         async GET() {
             const registry = getMcpRegistry();
@@ -1,20 +1,40 @@
-import { query, type SDKMessage, type McpServerConfig, type HookCallback, type PreToolUseHookInput } from "@anthropic-ai/claude-agent-sdk";
-import { existsSync, mkdirSync } from "node:fs";
-import { appendFile } from "node:fs/promises";
-import { join, dirname } from "node:path";
-import { getRootPath, getNomendexPath, getUploadsPath } from "@/storage/root-path";
+import { query, type SDKMessage, type McpServerConfig } from "@anthropic-ai/claude-agent-sdk";
+import { existsSync } from "node:fs";
+import { join } from "node:path";
+import { getRootPath, getUploadsPath } from "@/storage/root-path";
 import { getAgent, getPreferences, savePreferences, addAllowedTool, getAgentAllowedTools } from "@/features/agents/fx";
-import { DEFAULT_AGENT, MCP_REGISTRY } from "@/features/agents/index";
-import { listUserMcpServers, expandEnvVars } from "@/features/mcp-servers/fx";
+import { checkToolPolicy, recordPermissionDecision } from "@/features/agents/permission-audit";
+import { createRunLog } from "@/features/agents/run-log";
+import { DEFAULT_AGENT } from "@/features/agents/index";
 import type { AgentConfig } from "@/features/agents/index";
 import { createServiceLogger } from "@/lib/logger";
-import { secrets } from "@/lib/secrets";
-import { uiRendererServer } from "@/mcp-servers/ui-renderer";
-import { acquireFileLock, getActiveNoteFileNameForPath, releaseFileLockForToolUse } from "@/services/file-locks";
+import { formatRetrievedContext, type RetrievedSource } from "@/features/chat/retrieved-context";
+import { MENTION_TOKEN_BUDGET, formatMentionContext, toMentionPreview } from "@/features/chat/mentions";
+import { getSemanticSearchConfig, semanticSearch } from "@/features/notes/semantic-service";
+import { UI_RENDERER_SERVER_NAME, uiRendererServer, uiRendererTools } from "@/mcp-servers/ui-renderer";
+import { WORKSPACE_SERVER_NAME, createWorkspaceServer, createWorkspaceTools } from "@/mcp-servers/workspace";
+import { buildMentionContext } from "@/services/mention-context";
+import { forkSession, rewindSession } from "@/services/session-branches";
+import { type AgentToolContext, buildFileToolHooks } from "@/services/agent-hooks";
+import { buildAgentContext, buildMcpServersFromConfig, getClaudeCliPath } from "@/services/agent-options";
+import {
+    type SessionMetadata,
+    getSessionsFile,
+    getClaudeSessionsDir,
+    getSessionHistoryFile,
+    readJSONL,
+    appendJSONL,
+    updateJSONL,
+} from "@/services/chat-sessions";
+import { runProviderQuery } from "@/services/provider-agent";
+import type { ProviderMessage } from "@/services/provider-messages";
 
 // Create logger for chat routes
 const chatLogger = createServiceLogger("CHAT");
 
+// Below this similarity, note excerpts are more likely noise than context
+const RETRIEVAL_MIN_SCORE = 0.2;
+
 // Helper to read image from uploads folder and convert to base64
 async function readImageAsBase64(imageUrl: string): Promise<{ data: string; mediaType: string } | null> {
     try {
@@ -42,166 +62,6 @@ async function readImageAsBase64(imageUrl: string): Promise<{ data: string; medi
     }
 }
 
-// Build context information for the agent's system prompt
-function buildAgentContext(workspaceFolder: string): string {
-    const now = new Date();
-    const dayNames = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
-    const dayOfWeek = dayNames[now.getDay()];
-    const dateStr = now.toLocaleDateString("en-US", {
-        year: "numeric",
-        month: "long",
-        day: "numeric",
-    });
-
-    return `<agent-context>
-Today is ${dayOfWeek}, ${dateStr}.
-You are working in the folder: ${workspaceFolder}
-</agent-context>`;
-}
-
-// Session management types
-type SessionMetadata = {
-    id: string;
-    title: string;
-    createdAt: string;
-    updatedAt: string;
-    messageCount: number;
-    agentId?: string; // Which agent config was used for this session
-};
-
-// Map of MCP server IDs to their secret key names
-const MCP_SERVER_SECRETS: Record<string, string> = {
-    "linear": "LINEAR_OAUTH_TOKEN",
-};
-
-// Build MCP servers from agent config - supports stdio, sse, and http transports
-// Checks user-defined servers first, then falls back to built-in registry
-async function buildMcpServersFromConfig(mcpServerIds: string[]): Promise<Record<string, McpServerConfig>> {
-    chatLogger.info("Building MCP servers", { serverIds: mcpServerIds });
-    const mcpServers: Record<string, McpServerConfig> = {};
-
-    // Load user-defined servers
-    const userServers = await listUserMcpServers();
-    chatLogger.info("User-defined MCP servers loaded", { count: userServers.length });
-
-    for (const serverId of mcpServerIds) {
-        // First, check user-defined servers
-        const userServer = userServers.find((s) => s.id === serverId);
-
-        if (userServer) {
-            // Build config from user-defined server with environment variable expansion
-            const transport = userServer.transport;
-
-            if ("type" in transport && transport.type === "sse") {
-                const config: McpServerConfig = {
-                    type: "sse",
-                    url: await expandEnvVars(transport.url),
-                };
-                if (transport.headers) {
-                    config.headers = {};
-                    for (const [key, value] of Object.entries(transport.headers)) {
-                        config.headers[key] = await expandEnvVars(value);
-                    }
-                }
-                mcpServers[serverId] = config;
-                chatLogger.info(`MCP server added (user-defined SSE): ${serverId}`, { url: config.url });
-            } else if ("type" in transport && transport.type === "http") {
-                const config: McpServerConfig = {
-                    type: "http",
-                    url: await expandEnvVars(transport.url),
-                };
-                if (transport.headers) {
-                    config.headers = {};
-                    for (const [key, value] of Object.entries(transport.headers)) {
-                        config.headers[key] = await expandEnvVars(value);
-                    }
-                }
-                mcpServers[serverId] = config;
-                chatLogger.info(`MCP server added (user-defined HTTP): ${serverId}`, { url: config.url });
-            } else if ("command" in transport) {
-                // stdio transport
-                const config: McpServerConfig = {
-                    command: await expandEnvVars(transport.command),
-                    args: await Promise.all(transport.args.map((arg) => expandEnvVars(arg))),
-                };
-                if (transport.env) {
-                    config.env = {};
-                    for (const [key, value] of Object.entries(transport.env)) {
-                        config.env[key] = await expandEnvVars(value);
-                    }
-                }
-                mcpServers[serverId] = config;
-                chatLogger.info(`MCP server added (user-defined stdio): ${serverId}`, { command: config.command });
-            }
-            continue;
-        }
-
-        // Fall back to built-in registry
-        const serverDef = MCP_REGISTRY.find((s) => s.id === serverId);
-        chatLogger.info(`MCP server lookup in registry: ${serverId}`, { found: !!serverDef });
-
-        if (serverDef) {
-            const sourceConfig = serverDef.config;
-
-            // Check if this server needs an OAuth token from secrets
-            const secretKey = MCP_SERVER_SECRETS[serverId];
-            let authToken: string | undefined;
-            if (secretKey) {
-                authToken = await secrets.get(secretKey);
-                chatLogger.info(`MCP server auth: ${serverId}`, { hasToken: !!authToken });
-            }
-
-            // Handle different transport types
-            if ("type" in sourceConfig && sourceConfig.type === "sse") {
-                // SSE transport - no subprocess needed
-                const config: McpServerConfig = {
-                    type: "sse",
-                    url: sourceConfig.url,
-                };
-                // Merge headers from config and add auth token if available
-                const headers: Record<string, string> = { ...sourceConfig.headers };
-                if (authToken) {
-                    headers["Authorization"] = `Bearer ${authToken}`;
-                }
-                if (Object.keys(headers).length > 0) {
-                    config.headers = headers;
-                }
-                mcpServers[serverId] = config;
-                chatLogger.info(`MCP server added (registry SSE): ${serverId}`, { url: sourceConfig.url, hasAuth: !!authToken });
-            } else if ("type" in sourceConfig && sourceConfig.type === "http") {
-                // HTTP transport
-                const config: McpServerConfig = {
-                    type: "http",
-                    url: sourceConfig.url,
-                };
-                const headers: Record<string, string> = { ...sourceConfig.headers };
-                if (authToken) {
-                    headers["Authorization"] = `Bearer ${authToken}`;
-                }
-                if (Object.keys(headers).length > 0) {
-                    config.headers = headers;
-                }
-                mcpServers[serverId] = config;
-                chatLogger.info(`MCP server added (registry HTTP): ${serverId}`, { url: sourceConfig.url, hasAuth: !!authToken });
-            } else if ("command" in sourceConfig) {
-                // stdio transport (default)
-                const config: McpServerConfig = {
-                    command: sourceConfig.command,
-                    args: sourceConfig.args,
-                };
-                if (sourceConfig.env) {
-                    config.env = sourceConfig.env;
-                }
-                mcpServers[serverId] = config;
-                chatLogger.info(`MCP server added (registry stdio): ${serverId}`, { command: sourceConfig.command });
-            }
-        }
-    }
-
-    chatLogger.info("Final MCP servers config", { mcpServers });
-    return mcpServers;
-}
-
 // Permission handling types
 type PermissionDecision = "allow" | "deny";
 type PermissionResponse = {
@@ -238,52 +98,6 @@ setInterval(() => {
     }
 }, 60 * 1000);
 
-// File paths - computed dynamically
-function getSessionsFile(): string {
-    return join(getNomendexPath(), "chat-sessions.jsonl");
-}
-// Claude sessions directory - computed from workspace path
-function getClaudeSessionsDir(): string {
-    const workspacePath = getRootPath();
-    // Convert path to Claude-compatible format (replace / with -)
-    // Claude keeps the leading dash, e.g., /Users/foo -> -Users-foo
-    const pathPart = workspacePath.replace(/\//g, "-");
-    return `${process.env.HOME}/.claude/projects/${pathPart}`;
-}
-
-async function readJSONL<T>(filePath: string): Promise<T[]> {
-    if (!existsSync(filePath)) {
-        return [];
-    }
-    const content = await Bun.file(filePath).text();
-    return content
-        .split("\n")
-        .filter((line) => line.trim())
-        .map((line) => JSON.parse(line));
-}
-
-async function appendJSONL(filePath: string, data: object): Promise<void> {
-    const dir = dirname(filePath);
-    if (!existsSync(dir)) {
-        mkdirSync(dir, { recursive: true });
-    }
-    const line = JSON.stringify(data) + "\n";
-    await appendFile(filePath, line);
-}
-
-async function updateJSONL<T extends { id: string }>(
-    filePath: string,
-    id: string,
-    updater: (item: T) => T
-): Promise<void> {
-    const items = await readJSONL<T>(filePath);
-    const updatedItems = items.map((item) =>
-        item.id === id ? updater(item) : item
-    );
-    const content = updatedItems.map((item) => JSON.stringify(item)).join("\n") + "\n";
-    await Bun.write(filePath, content);
-}
-
 export const chatRoutes = {
     "/api/chat": {
         async POST(req: Request) {
@@ -293,11 +107,12 @@ export const chatRoutes = {
                 const body = await req.json();
                 console.log("[API] Request body:", body);
 
-                const { message, images, sessionId, agentId: requestAgentId } = body as {
+                const { message, images, sessionId, agentId: requestAgentId, attachContext } = body as {
                     message: string;
                     images?: string[];
                     sessionId?: string;
                     agentId?: string;
+                    attachContext?: boolean; // Overrides the workspace's semantic search setting
                 };
 
                 if (!message && (!images || images.length === 0)) {
@@ -362,18 +177,32 @@ export const chatRoutes = {
                 const agentAllowedTools = await getAgentAllowedTools({ agentId: agentConfig.id });
                 console.log(`[Permissions] Agent ${agentConfig.id} has ${agentAllowedTools.length} allowed tools:`, agentAllowedTools);
 
-                const canUseTool = async (
+                // Structured record of this query's tool calls, permissions, locks and usage
+                const runLog = createRunLog({
+                    agentId: agentConfig.id,
+                    model: agentConfig.model,
+                    provider: agentConfig.provider,
+                    trigger: "chat",
+                    sessionId,
+                });
+
+                const decideToolPermission = async (
                     toolName: string,
                     input: Record<string, unknown>
                 ) => {
-                    // Check if tool is already allowed for this agent
-                    if (agentAllowedTools.includes(toolName)) {
+                    // Permission rules first, then the agent's always-allowed tools
+                    const policy = await checkToolPolicy({ agentConfig, allowedTools: agentAllowedTools, sessionId, toolName, input });
+                    if (policy.behavior === "allow") {
                         console.log(`[Permissions] Tool "${toolName}" auto-allowed for agent ${agentConfig.id}`);
                         return {
                             behavior: "allow" as const,
                             updatedInput: input,
                         };
                     }
+                    if (policy.behavior === "deny") {
+                        console.log(`[Permissions] Tool "${toolName}" denied by rule for agent ${agentConfig.id}`);
+                        return { behavior: "deny" as const, message: `${toolName} is blocked by a permission rule` };
+                    }
 
                     const permissionId = `perm-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
                     console.log(`[Permissions] Tool "${toolName}" requesting permission, id: ${permissionId}`);
@@ -397,6 +226,15 @@ export const chatRoutes = {
 
                     pendingPermissions.delete(permissionId);
                     console.log(`[Permissions] Decision for ${permissionId}: ${response.decision}, alwaysAllow: ${response.alwaysAllow}`);
+                    await recordPermissionDecision({
+                        agentId: agentConfig.id,
+                        sessionId,
+                        toolName,
+                        input,
+                        decision: response.decision === "allow" ? "allow" : "deny",
+                        source: "user",
+                        rule: policy.rule,
+                    });
 
                     if (response.decision === "allow") {
                         // If "Always Allow" was selected, persist the permission for this agent
@@ -416,63 +254,14 @@ export const chatRoutes = {
                     }
                 };
 
-                type ToolInputWithFilePath = {
-                    file_path?: string;
-                    filePath?: string;
-                    path?: string;
+                const canUseTool = async (toolName: string, input: Record<string, unknown>) => {
+                    const result = await decideToolPermission(toolName, input);
+                    runLog.record({ type: "permission", toolName, decision: result.behavior });
+                    return result;
                 };
 
-                const getToolFilePath = (toolInput?: ToolInputWithFilePath): string | null => {
-                    if (!toolInput) return null;
-                    if (typeof toolInput.file_path === "string") return toolInput.file_path;
-                    if (typeof toolInput.filePath === "string") return toolInput.filePath;
-                    if (typeof toolInput.path === "string") return toolInput.path;
-                    return null;
-                };
-
-                const lockOpenNoteFile: HookCallback = async (input, toolUseId) => {
-                    if (input.hook_event_name !== "PreToolUse") return {};
-                    const preInput = input as PreToolUseHookInput;
-                    const toolInput = preInput.tool_input as ToolInputWithFilePath | undefined;
-                    const filePath = getToolFilePath(toolInput);
-
-                    if (!filePath) {
-                        return {};
-                    }
-
-                    const noteFileName = await getActiveNoteFileNameForPath(filePath);
-                    if (!noteFileName) {
-                        return {};
-                    }
-
-                    const { lock, wasCreated } = acquireFileLock({
-                        noteFileName,
-                        agentId: agentConfig.id,
-                        agentName: agentConfig.name,
-                        toolUseId,
-                    });
-
-                    if (wasCreated) {
-                        pushToQueue({
-                            type: "file_lock",
-                            lock,
-                        });
-                    }
-
-                    return {};
-                };
-
-                const unlockNoteFile: HookCallback = async (_input, toolUseId) => {
-                    if (!toolUseId) return {};
-                    const released = releaseFileLockForToolUse(toolUseId);
-                    if (released) {
-                        pushToQueue({
-                            type: "file_unlock",
-                            noteFileName: released.noteFileName,
-                        });
-                    }
-                    return {};
-                };
+                const fileToolContext: AgentToolContext = { agentConfig, runLog, onEvent: pushToQueue };
+                const workspaceTools = createWorkspaceTools(fileToolContext);
 
                 console.log("[API] Starting SDK query iterator...");
 
@@ -483,11 +272,12 @@ export const chatRoutes = {
                 const mcpServers = await buildMcpServersFromConfig(agentConfig.mcpServers);
 
                 // Add the UI renderer server for skills to render custom UI
-                mcpServers["noetect-ui"] = uiRendererServer;
+                mcpServers[UI_RENDERER_SERVER_NAME] = uiRendererServer;
+
+                // Add the workspace server so agents can work with notes, todos and projects
+                mcpServers[WORKSPACE_SERVER_NAME] = createWorkspaceServer(workspaceTools);
 
-                // Find Claude CLI path - check common locations
-                const claudeCliPath = process.env.CLAUDE_CLI_PATH
-                    || `${process.env.HOME}/.local/bin/claude`;
+                const claudeCliPath = getClaudeCliPath();
 
                 const sdkOptions: {
                     model: string;
@@ -532,7 +322,35 @@ export const chatRoutes = {
                 });
                 console.log("[API] mcpServers being passed to SDK:", mcpServerNames);
 
-                let queryIterator: AsyncIterable<SDKMessage>;
+                // Mentioned items and relevant note excerpts go in front of the message the model sees
+                const mentionContext = await buildMentionContext(message || "");
+                const promptImages = [...(images ?? []), ...mentionContext.images.filter((url) => !images?.includes(url))];
+                let promptText = message || "";
+                const semanticConfig = await getSemanticSearchConfig();
+                if (message && (attachContext ?? semanticConfig.attachToChat)) {
+                    try {
+                        const hits = await semanticSearch({ query: message, limit: semanticConfig.topK, minScore: RETRIEVAL_MIN_SCORE });
+                        if (hits.length > 0) {
+                            const sources: RetrievedSource[] = hits.map((hit) => ({
+                                source: hit.source,
+                                fileName: hit.fileName,
+                                heading: hit.heading,
+                                line: hit.line,
+                                text: hit.text,
+                            }));
+                            promptText = formatRetrievedContext(sources) + promptText;
+                            pushToQueue({ type: "retrieved_context", sources });
+                        }
+                    } catch (error) {
+                        // The message still goes out, just without note context
+                        chatLogger.warn("Failed to retrieve note context", {
+                            error: error instanceof Error ? error.message : String(error),
+                        });
+                    }
+                }
+                promptText = formatMentionContext(mentionContext.mentions) + promptText;
+
+                let queryIterator: AsyncIterable<SDKMessage | ProviderMessage>;
                 // Generate a temporary ID for tracking if no session yet
                 const queryTrackingId = sessionId || `temp-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
 
@@ -552,12 +370,11 @@ export const chatRoutes = {
                     };
 
                     let promptInput: string | AsyncIterable<UserMessageInput>;
+                    const contentBlocks: ContentBlock[] = [];
 
-                    if (images && images.length > 0) {
+                    if (promptImages.length > 0) {
                         // Read images and encode as base64
-                        const contentBlocks: ContentBlock[] = [];
-
-                        for (const imageUrl of images) {
+                        for (const imageUrl of promptImages) {
                             const imageData = await readImageAsBase64(imageUrl);
                             if (imageData) {
                                 contentBlocks.push({
@@ -573,7 +390,7 @@ export const chatRoutes = {
 
                         // Add text content if present
                         if (message) {
-                            contentBlocks.push({ type: "text", text: message });
+                            contentBlocks.push({ type: "text", text: promptText });
                         }
 
                         console.log("[API] Images processed:", contentBlocks.filter(b => b.type === "image").length);
@@ -594,25 +411,39 @@ export const chatRoutes = {
                         promptInput = generateUserMessage();
                     } else {
                         // Plain text prompt
-                        promptInput = message || "";
+                        promptInput = promptText;
                     }
 
-                    queryIterator = query({
-                        prompt: promptInput,
-                        options: {
-                            ...sdkOptions,
-                            abortController,
-                            canUseTool,
-                            hooks: {
-                                PreToolUse: [{ matcher: "Write|Edit|ApplyPatch", hooks: [lockOpenNoteFile] }],
-                                PostToolUse: [{ matcher: "Write|Edit|ApplyPatch", hooks: [unlockNoteFile] }],
-                                PostToolUseFailure: [{ matcher: "Write|Edit|ApplyPatch", hooks: [unlockNoteFile] }],
+                    if (agentConfig.provider === "claude") {
+                        queryIterator = query({
+                            prompt: promptInput,
+                            options: {
+                                ...sdkOptions,
+                                abortController,
+                                canUseTool,
+                                hooks: buildFileToolHooks(fileToolContext),
+                                stderr: (data: string) => {
+                                    chatLogger.error("SDK STDERR", { data });
+                                },
                             },
-                            stderr: (data: string) => {
-                                chatLogger.error("SDK STDERR", { data });
+                        });
+                    } else {
+                        // AI SDK providers: same MCP servers, permission flow and message stream
+                        console.log(`[API] Using ${agentConfig.provider} provider with model ${agentConfig.model}`);
+                        queryIterator = runProviderQuery({
+                            agentConfig,
+                            content: contentBlocks.length > 0 ? contentBlocks : [{ type: "text", text: promptText }],
+                            sessionId,
+                            systemPrompt: sdkOptions.systemPrompt ?? agentContext,
+                            mcpServers,
+                            inProcessTools: {
+                                [WORKSPACE_SERVER_NAME]: workspaceTools,
+                                [UI_RENDERER_SERVER_NAME]: uiRendererTools,
                             },
-                        },
-                    });
+                            canUseTool,
+                            abortController,
+                        });
+                    }
 
                     // Track this query for potential cancellation
                     activeQueries.set(queryTrackingId, {
@@ -680,6 +511,7 @@ export const chatRoutes = {
 
                             if (msg.type === "system" && msg.subtype === "init") {
                                 newSessionId = msg.session_id;
+                                runLog.setSessionId(newSessionId);
                                 chatLogger.info("SDK init message received", { sessionId: newSessionId });
 
                                 // Log MCP server connection status
@@ -712,6 +544,7 @@ export const chatRoutes = {
                                 console.log(`[API]   Result received`);
                             }
 
+                            runLog.recordMessage(msg);
                             pushToQueue({
                                 type: "message",
                                 data: msg,
@@ -754,6 +587,7 @@ export const chatRoutes = {
                                 console.error("[API] Error message:", error.message);
                                 console.error("[API] Error stack:", error.stack);
                             }
+                            runLog.record({ type: "error", message: error instanceof Error ? error.message : String(error) });
                             pushToQueue({
                                 type: "error",
                                 error: error instanceof Error ? error.message : String(error),
@@ -761,6 +595,7 @@ export const chatRoutes = {
                         }
                     } finally {
                         clearInterval(heartbeatInterval);
+                        await runLog.flush();
                         // Clean up active query tracking
                         activeQueries.delete(currentTrackingId);
                         console.log(`[API] Cleaned up query tracking: ${currentTrackingId}`);
@@ -977,7 +812,6 @@ export const chatRoutes = {
         async GET() {
             try {
                 const allSessions = await readJSONL<SessionMetadata>(getSessionsFile());
-                const claudeDir = getClaudeSessionsDir();
 
                 // Deduplicate by ID, keeping the most recent entry
                 const sessionsMap = new Map<string, SessionMetadata>();
@@ -993,7 +827,7 @@ export const chatRoutes = {
                 const staleSessions: string[] = [];
 
                 for (const session of sessionsMap.values()) {
-                    const historyFile = join(claudeDir, `${session.id}.jsonl`);
+                    const historyFile = getSessionHistoryFile(session.id);
                     if (existsSync(historyFile)) {
                         validSessions.push(session);
                     } else {
@@ -1139,7 +973,7 @@ export const chatRoutes = {
                     }
 
                     // Then search message content
-                    const sessionFile = join(getClaudeSessionsDir(), `${session.id}.jsonl`);
+                    const sessionFile = getSessionHistoryFile(session.id);
                     if (!existsSync(sessionFile)) continue;
 
                     try {
@@ -1198,6 +1032,95 @@ export const chatRoutes = {
         },
     },
 
+    // What the mentions in a draft message resolve to, and how much of the budget each takes
+    "/api/chat/mentions/preview": {
+        async POST(req: Request) {
+            try {
+                const { message } = await req.json();
+                const { mentions } = await buildMentionContext(typeof message === "string" ? message : "");
+                return Response.json({
+                    mentions: mentions.map(toMentionPreview),
+                    totalTokens: mentions.reduce((sum, mention) => sum + mention.tokens, 0),
+                    budget: MENTION_TOKEN_BUDGET,
+                });
+            } catch (error) {
+                return Response.json(
+                    { error: error instanceof Error ? error.message : "Failed to resolve mentions" },
+                    { status: 400 }
+                );
+            }
+        },
+    },
+
+    "/api/chat/sessions/fork": {
+        async POST(req: Request) {
+            try {
+                const { sessionId, messageId } = await req.json();
+
+                if (!sessionId || !messageId) {
+                    return Response.json(
+                        { error: "Session ID and message ID are required" },
+                        { status: 400 }
+                    );
+                }
+
+                const fork = await forkSession({ sessionId, messageId });
+                if (!fork) {
+                    return Response.json(
+                        { error: "Session or message not found" },
+                        { status: 404 }
+                    );
+                }
+
+                return Response.json({ success: true, ...fork });
+            } catch (error) {
+                console.error("[API] Error forking session:", error);
+                return Response.json(
+                    { error: "Failed to fork session" },
+                    { status: 500 }
+                );
+            }
+        },
+    },
+
+    "/api/chat/sessions/rewind": {
+        async POST(req: Request) {
+            try {
+                const { sessionId, messageId, restoreNotes } = await req.json();
+
+                if (!sessionId || !messageId) {
+                    return Response.json(
+                        { error: "Session ID and message ID are required" },
+                        { status: 400 }
+                    );
+                }
+
+                if (activeQueries.has(sessionId)) {
+                    return Response.json(
+                        { error: "Stop the running query before rewinding" },
+                        { status: 409 }
+                    );
+                }
+
+                const rewind = await rewindSession({ sessionId, messageId, restoreNotes: restoreNotes === true });
+                if (!rewind) {
+                    return Response.json(
+                        { error: "Session or message not found" },
+                        { status: 404 }
+                    );
+                }
+
+                return Response.json({ success: true, ...rewind });
+            } catch (error) {
+                console.error("[API] Error rewinding session:", error);
+                return Response.json(
+                    { error: "Failed to rewind session" },
+                    { status: 500 }
+                );
+            }
+        },
+    },
+
     // Wildcard route MUST be last to avoid matching specific routes like /delete, /update, /search
     "/api/chat/sessions/history/*": {
         async GET(req: Request) {
@@ -1207,7 +1130,7 @@ export const chatRoutes = {
                 // Session ID is at the end: /api/chat/sessions/history/{sessionId}
                 const sessionId = pathParts[pathParts.length - 1];
                 const claudeDir = getClaudeSessionsDir();
-                const sessionFile = join(claudeDir, `${sessionId}.jsonl`);
+                const sessionFile = getSessionHistoryFile(sessionId);
 
                 chatLogger.info("Loading session history", {
                     sessionId,
@@ -1,15 +1,20 @@
+import { join } from "node:path";
 import { RouteHandler } from "../types/Routes";
-import { getRootPath } from "../storage/root-path";
+import { getNomendexPath, getRootPath } from "../storage/root-path";
 import { createServiceLogger } from "../lib/logger";
-import { createGitClient, CommitInfo, ConflictFile } from "../lib/git";
+import { createGitClient, CommitInfo, ConflictFile, FileVersion, GitClient } from "../lib/git";
+import { getTokenCredentials, isSshRemote, lookupStoredCredentials, redactRemoteUrl, type GitCredentials } from "../lib/git-auth";
+import { planSync, type SyncPlan } from "../lib/sync-scope";
+import { WorkspaceStateSchema, type GitAuthMode, type GitAuthProfile, type WorkspaceState } from "../types/Workspace";
+import { getCurrentNoteFile, getNoteHistory, getNoteVersion, restoreNoteVersion } from "../services/note-history";
 
 const logger = createServiceLogger("GIT-SYNC");
 
-// Get GitHub PAT from environment (loaded from secrets)
-function getGitHubPAT(): string | undefined {
-    const pat = process.env.GITHUB_PAT;
-    if (pat) {
-        const trimmed = pat.trim();
+// Access token or password from secrets. The key predates support for other hosts.
+function getAccessToken(): string | undefined {
+    const token = process.env.GITHUB_PAT;
+    if (token) {
+        const trimmed = token.trim();
         if (trimmed.length > 0) {
             return trimmed;
         }
@@ -17,16 +22,78 @@ function getGitHubPAT(): string | undefined {
     return undefined;
 }
 
+const AUTH_MISSING_ERROR =
+    "No git credentials found. Add an access token in Settings > Secrets, or save credentials for this host in git's credential store.";
+const AUTH_FAILED_ERROR = "Authentication failed. Check your access token in Settings > Secrets and the host type on the Sync page.";
+
 // Create git client for the current workspace
 function getGitClient() {
     return createGitClient({ dir: getRootPath() });
 }
 
-// Get auth config from PAT
-function getAuthConfig(): { token: string } | null {
-    const pat = getGitHubPAT();
-    if (!pat) return null;
-    return { token: pat };
+async function readWorkspaceSettings(): Promise<WorkspaceState | null> {
+    try {
+        const file = Bun.file(join(getNomendexPath(), "workspace.json"));
+        if (await file.exists()) {
+            return WorkspaceStateSchema.parse(await file.json());
+        }
+    } catch (error) {
+        logger.warn("Failed to read workspace settings", { error: String(error) });
+    }
+    return null;
+}
+
+async function getGitAuthSettings(): Promise<{ mode: GitAuthMode; profile: GitAuthProfile }> {
+    const workspace = await readWorkspaceSettings();
+    if (workspace) {
+        return { mode: workspace.gitAuthMode, profile: workspace.gitAuth };
+    }
+    return { mode: "local", profile: { host: "github", username: "" } };
+}
+
+// What the next sync would commit, after the workspace's ignore rules, synced folders and size limit
+async function getSyncPlan(git: GitClient): Promise<SyncPlan> {
+    const workspace = await readWorkspaceSettings();
+    const scope = workspace?.autoSync ?? { ignorePatterns: [], includeFolders: [], largeFileThresholdMB: 0 };
+    const { changedFiles } = await git.status();
+    const candidates = await Promise.all(
+        changedFiles.map(async (file) => ({
+            ...file,
+            size: file.status === "deleted" ? 0 : Bun.file(join(getRootPath(), file.path)).size,
+        }))
+    );
+    return planSync(candidates, scope);
+}
+
+// Stage what the sync plan includes; returns the files left out for being too large
+async function stageSyncChanges(git: GitClient): Promise<string[]> {
+    const plan = await getSyncPlan(git);
+    const paths = new Set(plan.files.map((file) => file.path));
+    await git.addAll({ filter: (filepath) => paths.has(filepath) });
+    if (plan.largeFiles.length > 0) {
+        logger.warn("Skipped files over the size limit", { files: plan.largeFiles.map((file) => file.path) });
+    }
+    return plan.largeFiles.map((file) => file.path);
+}
+
+// Credentials for origin: the access token in PAT mode, git's credential store in local mode
+async function getAuthConfig(git: GitClient): Promise<GitCredentials | null> {
+    const remoteUrl = await git.getRemoteUrl("origin");
+    if (remoteUrl && isSshRemote(remoteUrl)) {
+        // The system git signs in with the user's SSH keys, so there's nothing to send
+        return { username: "" };
+    }
+
+    const { mode, profile } = await getGitAuthSettings();
+    const token = getAccessToken();
+    const tokenCredentials = token ? getTokenCredentials(profile.host, token, profile.username) : null;
+    if (mode === "pat") {
+        return tokenCredentials;
+    }
+
+    const stored = remoteUrl ? await lookupStoredCredentials(remoteUrl) : null;
+    // A token saved before switching modes still works
+    return stored ?? tokenCredentials;
 }
 
 interface GitStatusResponse {
@@ -48,6 +115,7 @@ interface GitStatusResponse {
 interface GitSyncResponse {
     success: boolean;
     message?: string;
+    skippedLargeFiles?: string[];
     error?: string;
 }
 
@@ -150,7 +218,7 @@ export const gitStatusRoute: RouteHandler<GitStatusResponse> = {
                 remoteUrl = await git.getRemoteUrl("origin");
                 // Sanitize URL for display (hide any embedded credentials)
                 if (remoteUrl) {
-                    remoteUrl = remoteUrl.replace(/\/\/[^@]+@github\.com/, "//***@github.com");
+                    remoteUrl = redactRemoteUrl(remoteUrl);
                 }
 
                 if (currentBranch) {
@@ -161,10 +229,10 @@ export const gitStatusRoute: RouteHandler<GitStatusResponse> = {
                 }
             }
 
-            // Get status
-            const statusResult = await git.status();
-            const changedFiles = statusResult.changedFiles.length;
-            const hasUncommittedChanges = statusResult.hasUncommittedChanges;
+            // Get status, counting only what a sync would commit so ignored files don't trigger auto-sync
+            const plan = await getSyncPlan(git);
+            const changedFiles = plan.files.length;
+            const hasUncommittedChanges = changedFiles > 0;
 
             // Check for merge conflicts
             logger.info("=== /api/git/status: checking hasMergeConflict ===");
@@ -181,7 +249,7 @@ export const gitStatusRoute: RouteHandler<GitStatusResponse> = {
             const recentCommits = await git.log({ depth: 5 });
 
             // Build status string for compatibility
-            const statusLines = statusResult.changedFiles
+            const statusLines = plan.files
                 .map((f) => {
                     const code = f.status === "added" ? "A" : f.status === "deleted" ? "D" : f.status === "untracked" ? "?" : "M";
                     return `${code}  ${f.path}`;
@@ -227,7 +295,29 @@ export const gitStatusRoute: RouteHandler<GitStatusResponse> = {
     },
 };
 
-// Setup remote repository
+interface SyncPreviewResponse extends Partial<SyncPlan> {
+    success: boolean;
+    error?: string;
+}
+
+// Preview what the next sync would commit
+export const gitSyncPreviewRoute: RouteHandler<SyncPreviewResponse> = {
+    GET: async (_req) => {
+        try {
+            const git = getGitClient();
+            if (!(await git.isRepo())) {
+                return Response.json({ success: true, files: [], largeFiles: [], excludedCount: 0 });
+            }
+            const plan = await getSyncPlan(git);
+            return Response.json({ success: true, ...plan });
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            logger.error("Failed to preview sync", { error: errorMessage });
+            return Response.json({ success: false, error: errorMessage }, { status: 500 });
+        }
+    },
+};
+
 export const gitSetupRemoteRoute: RouteHandler<GitSyncResponse> = {
     POST: async (req) => {
         try {
@@ -244,8 +334,7 @@ export const gitSetupRemoteRoute: RouteHandler<GitSyncResponse> = {
             }
 
             const git = getGitClient();
-            const auth = getAuthConfig();
-            logger.info("Setting up remote repository", { repoUrl, branch });
+            logger.info("Setting up remote repository", { repoUrl: redactRemoteUrl(repoUrl), branch });
 
             const branchName = branch || "main";
 
@@ -258,7 +347,8 @@ export const gitSetupRemoteRoute: RouteHandler<GitSyncResponse> = {
 
             // Add or update remote
             await git.addRemote("origin", normalizedUrl);
-            logger.info("Remote origin configured", { url: normalizedUrl });
+            logger.info("Remote origin configured", { url: redactRemoteUrl(normalizedUrl) });
+            const auth = await getAuthConfig(git);
 
             // Check if branch exists on remote (if we have auth)
             let remoteBranchExists = false;
@@ -316,14 +406,14 @@ export const gitPullRoute: RouteHandler<GitSyncResponse> = {
     POST: async (_req) => {
         try {
             const git = getGitClient();
-            const auth = getAuthConfig();
+            const auth = await getAuthConfig(git);
             logger.info("Pulling from remote", { path: getRootPath() });
 
             if (!auth) {
                 return Response.json(
                     {
                         success: false,
-                        error: "GitHub PAT not configured. Add it in Settings > Secrets.",
+                        error: AUTH_MISSING_ERROR,
                     },
                     { status: 400 }
                 );
@@ -379,7 +469,7 @@ export const gitPullRoute: RouteHandler<GitSyncResponse> = {
                 // Parse common errors
                 let friendlyError = errorMessage;
                 if (errorMessage.includes("Authentication") || errorMessage.includes("401")) {
-                    friendlyError = "Authentication failed. Check your GitHub PAT in Settings > Secrets.";
+                    friendlyError = AUTH_FAILED_ERROR;
                 } else if (errorMessage.includes("404") || errorMessage.includes("not found")) {
                     friendlyError = "Repository not found. Check the remote URL.";
                 }
@@ -413,9 +503,9 @@ export const gitCommitRoute: RouteHandler<GitSyncResponse> = {
             const git = getGitClient();
             logger.info("Committing local changes", { path: getRootPath() });
 
-            // Stage all changes
-            await git.addAll();
-            logger.info("Staged all changes");
+            // Stage the changes in the sync scope
+            const skippedLargeFiles = await stageSyncChanges(git);
+            logger.info("Staged changes");
 
             // Check if there are changes to commit
             const hasStagedChanges = await git.hasStagedChanges();
@@ -428,12 +518,14 @@ export const gitCommitRoute: RouteHandler<GitSyncResponse> = {
                 return Response.json({
                     success: true,
                     message: "Changes committed",
+                    skippedLargeFiles,
                 });
             } else {
                 logger.info("No changes to commit");
                 return Response.json({
                     success: true,
                     message: "No changes to commit",
+                    skippedLargeFiles,
                 });
             }
         } catch (error) {
@@ -455,14 +547,14 @@ export const gitPushRoute: RouteHandler<GitSyncResponse> = {
     POST: async (_req) => {
         try {
             const git = getGitClient();
-            const auth = getAuthConfig();
+            const auth = await getAuthConfig(git);
             logger.info("Pushing to remote", { path: getRootPath() });
 
             if (!auth) {
                 return Response.json(
                     {
                         success: false,
-                        error: "GitHub PAT not configured. Add it in Settings > Secrets.",
+                        error: AUTH_MISSING_ERROR,
                     },
                     { status: 400 }
                 );
@@ -479,9 +571,9 @@ export const gitPushRoute: RouteHandler<GitSyncResponse> = {
                 );
             }
 
-            // Stage all changes
-            await git.addAll();
-            logger.info("Staged all changes");
+            // Stage the changes in the sync scope
+            const skippedLargeFiles = await stageSyncChanges(git);
+            logger.info("Staged changes");
 
             // Check if there are changes to commit
             const hasStagedChanges = await git.hasStagedChanges();
@@ -510,6 +602,7 @@ export const gitPushRoute: RouteHandler<GitSyncResponse> = {
                 return Response.json({
                     success: true,
                     message: hasChanges ? "Changes committed and pushed successfully" : "Pushed successfully (no new commits)",
+                    skippedLargeFiles,
                 });
             } catch (error) {
                 const errorMessage = String(error);
@@ -520,7 +613,7 @@ export const gitPushRoute: RouteHandler<GitSyncResponse> = {
                 if (errorMessage.includes("non-fast-forward") || errorMessage.includes("rejected")) {
                     friendlyError = "Push rejected. The remote has changes you don't have locally. Try pulling first.";
                 } else if (errorMessage.includes("Authentication") || errorMessage.includes("401")) {
-                    friendlyError = "Authentication failed. Check your GitHub PAT in Settings > Secrets.";
+                    friendlyError = AUTH_FAILED_ERROR;
                 } else if (errorMessage.includes("404") || errorMessage.includes("not found")) {
                     friendlyError = "Repository not found. Check the remote URL.";
                 } else if (errorMessage.includes("403")) {
@@ -568,7 +661,7 @@ export const gitFetchStatusRoute: RouteHandler<GitFetchStatusResponse> = {
     POST: async (_req) => {
         try {
             const git = getGitClient();
-            const auth = getAuthConfig();
+            const auth = await getAuthConfig(git);
             logger.info("Fetching status from remote", { path: getRootPath() });
 
             if (!auth) {
@@ -579,7 +672,7 @@ export const gitFetchStatusRoute: RouteHandler<GitFetchStatusResponse> = {
                         aheadCount: 0,
                         incomingCommits: [],
                         incomingFiles: [],
-                        error: "GitHub PAT not configured. Add it in Settings > Secrets.",
+                        error: AUTH_MISSING_ERROR,
                     },
                     { status: 400 }
                 );
@@ -631,7 +724,7 @@ export const gitFetchStatusRoute: RouteHandler<GitFetchStatusResponse> = {
                 // Parse common errors
                 let friendlyError = errorMessage;
                 if (errorMessage.includes("Authentication") || errorMessage.includes("401")) {
-                    friendlyError = "Authentication failed. Check your GitHub PAT in Settings > Secrets.";
+                    friendlyError = AUTH_FAILED_ERROR;
                 } else if (errorMessage.includes("Could not resolve host") || errorMessage.includes("network")) {
                     friendlyError = "Network error. Could not connect to remote repository.";
                 }
@@ -737,9 +830,10 @@ export const gitConflictsRoute: RouteHandler<GitConflictsResponse> = {
 export const gitResolveConflictRoute: RouteHandler<GitSyncResponse> = {
     POST: async (req) => {
         try {
-            const { filePath, resolution } = (await req.json()) as {
+            const { filePath, resolution, content } = (await req.json()) as {
                 filePath: string;
-                resolution: "ours" | "theirs" | "mark-resolved";
+                resolution: "ours" | "theirs" | "mark-resolved" | "merged";
+                content?: string;
             };
 
             if (!filePath) {
@@ -752,11 +846,21 @@ export const gitResolveConflictRoute: RouteHandler<GitSyncResponse> = {
                 );
             }
 
-            if (!resolution || !["ours", "theirs", "mark-resolved"].includes(resolution)) {
+            if (!resolution || !["ours", "theirs", "mark-resolved", "merged"].includes(resolution)) {
                 return Response.json(
                     {
                         success: false,
-                        error: "Resolution must be 'ours', 'theirs', or 'mark-resolved'",
+                        error: "Resolution must be 'ours', 'theirs', 'mark-resolved', or 'merged'",
+                    },
+                    { status: 400 }
+                );
+            }
+
+            if (resolution === "merged" && typeof content !== "string") {
+                return Response.json(
+                    {
+                        success: false,
+                        error: "Content is required for a merged resolution",
                     },
                     { status: 400 }
                 );
@@ -765,7 +869,11 @@ export const gitResolveConflictRoute: RouteHandler<GitSyncResponse> = {
             const git = getGitClient();
             logger.info("Resolving conflict", { filePath, resolution });
 
-            await git.resolveConflict(filePath, resolution);
+            if (resolution === "merged") {
+                await git.resolveConflictWithContent(filePath, content ?? "");
+            } else {
+                await git.resolveConflict(filePath, resolution);
+            }
 
             return Response.json({
                 success: true,
@@ -937,3 +1045,80 @@ export const gitConflictContentRoute: RouteHandler<ConflictContentResponse> = {
         }
     },
 };
+
+interface NoteHistoryResponse {
+    success: boolean;
+    versions: FileVersion[];
+    current: string | null; // The note's file as it is now, to compare versions against
+    error?: string;
+}
+
+// List the commits that changed a note, newest first
+export const gitNoteHistoryRoute: RouteHandler<NoteHistoryResponse> = {
+    GET: async (req) => {
+        try {
+            const fileName = new URL(req.url).searchParams.get("fileName");
+            if (!fileName) {
+                return Response.json({ success: false, versions: [], current: null, error: "fileName is required" }, { status: 400 });
+            }
+
+            const [versions, current] = await Promise.all([getNoteHistory(fileName), getCurrentNoteFile(fileName)]);
+            return Response.json({ success: true, versions, current });
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            logger.error("Failed to get note history", { error: errorMessage });
+            return Response.json({ success: false, versions: [], current: null, error: errorMessage }, { status: 500 });
+        }
+    },
+};
+
+interface NoteVersionResponse {
+    success: boolean;
+    content: string;
+    error?: string;
+}
+
+// Get a note's content as it was at a commit
+export const gitNoteVersionRoute: RouteHandler<NoteVersionResponse> = {
+    GET: async (req) => {
+        try {
+            const url = new URL(req.url);
+            const fileName = url.searchParams.get("fileName");
+            const oid = url.searchParams.get("oid");
+            if (!fileName || !oid) {
+                return Response.json({ success: false, content: "", error: "fileName and oid are required" }, { status: 400 });
+            }
+
+            const content = await getNoteVersion(fileName, oid);
+            return Response.json({ success: true, content });
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            return Response.json({ success: false, content: "", error: errorMessage }, { status: 404 });
+        }
+    },
+};
+
+interface RestoreNoteVersionResponse {
+    success: boolean;
+    fileName?: string;
+    error?: string;
+}
+
+// Restore an old version of a note, over the note or as a new one
+export const gitRestoreNoteVersionRoute: RouteHandler<RestoreNoteVersionResponse> = {
+    POST: async (req) => {
+        try {
+            const body = (await req.json()) as { fileName?: string; oid?: string; asNewNote?: boolean };
+            if (!body.fileName || !body.oid) {
+                return Response.json({ success: false, error: "fileName and oid are required" }, { status: 400 });
+            }
+
+            const fileName = await restoreNoteVersion({ fileName: body.fileName, oid: body.oid, asNewNote: body.asNewNote });
+            return Response.json({ success: true, fileName });
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            logger.error("Failed to restore note version", { error: errorMessage });
+            return Response.json({ success: false, error: errorMessage }, { status: 500 });
+        }
+    },
+};
@@ -5,6 +5,7 @@ import { functions } from "@/features/notes/fx";
 import {
     getBacklinksForNote,
     getAllPhantomLinks,
+    getUnlinkedMentions,
     rebuildIndex,
     onNoteSaved,
     onNoteDeleted,
@@ -25,6 +26,13 @@ import {
     isExplicitTag,
     getExplicitTags,
 } from "@/features/notes/tags-service";
+import {
+    rebuildSearchIndex,
+    onNoteSavedSearch,
+    onNoteDeletedSearch,
+    onNoteRenamedSearch,
+} from "@/features/notes/search-service";
+import { semanticSearch } from "@/features/notes/semantic-service";
 
 export const notesRoutes = {
     "/api/notes/list": {
@@ -41,6 +49,26 @@ export const notesRoutes = {
             return Response.json(result);
         },
     },
+    "/api/notes/search/rebuild": {
+        async POST() {
+            const result = await rebuildSearchIndex();
+            return Response.json(result);
+        },
+    },
+    "/api/notes/semantic-search": {
+        async POST(req: Request) {
+            try {
+                const args = await req.json();
+                const result = await semanticSearch({ query: args.query, limit: args.limit });
+                return Response.json(result);
+            } catch (error) {
+                return Response.json(
+                    { error: error instanceof Error ? error.message : "Semantic search failed" },
+                    { status: 400 }
+                );
+            }
+        },
+    },
     "/api/notes/get": {
         async POST(req: Request) {
             const args = await req.json();
@@ -54,6 +82,7 @@ export const notesRoutes = {
             const result = await functions.createNote.fx(args);
             // Update backlinks index (resolves phantom if applicable)
             await onNoteCreated({ fileName: result.fileName });
+            await onNoteSavedSearch({ fileName: result.fileName });
             return Response.json(result);
         },
     },
@@ -61,9 +90,10 @@ export const notesRoutes = {
         async POST(req: Request) {
             const args = await req.json();
             const result = await functions.saveNote.fx(args);
-            // Update backlinks and tags indexes
+            // Update backlinks, tags and search indexes
             await onNoteSaved({ fileName: args.fileName, content: args.content });
             await onNoteSavedTags({ fileName: args.fileName, content: args.content });
+            await onNoteSavedSearch({ fileName: args.fileName });
             return Response.json(result);
         },
     },
@@ -71,9 +101,10 @@ export const notesRoutes = {
         async POST(req: Request) {
             const args = await req.json();
             const result = await functions.deleteNote.fx(args);
-            // Update backlinks and tags indexes
+            // Update backlinks, tags and search indexes
             await onNoteDeleted({ fileName: args.fileName });
             await onNoteDeletedTags({ fileName: args.fileName });
+            await onNoteDeletedSearch({ fileName: args.fileName });
             return Response.json(result);
         },
     },
@@ -81,9 +112,10 @@ export const notesRoutes = {
         async POST(req: Request) {
             const args = await req.json();
             const result = await functions.renameNote.fx(args);
-            // Update backlinks and tags indexes
+            // Update backlinks, tags and search indexes
             await onNoteRenamed({ oldFileName: args.oldFileName, newFileName: result.fileName });
             await onNoteRenamedTags({ oldFileName: args.oldFileName, newFileName: result.fileName });
+            await onNoteRenamedSearch({ oldFileName: args.oldFileName, newFileName: result.fileName });
             return Response.json(result);
         },
     },
@@ -91,6 +123,7 @@ export const notesRoutes = {
         async POST(req: Request) {
             const args = await req.json();
             const result = await functions.updateNoteTags.fx(args);
+            await onNoteSavedSearch({ fileName: args.fileName });
             return Response.json(result);
         },
     },
@@ -107,6 +140,57 @@ export const notesRoutes = {
             return Response.json(result);
         },
     },
+    "/api/notes/daily-range": {
+        async POST(req: Request) {
+            const args = await req.json();
+            const result = await functions.getDailyNotesInRange.fx(args);
+            return Response.json(result);
+        },
+    },
+    "/api/notes/daily-open": {
+        async POST(req: Request) {
+            const args = await req.json();
+            const result = await functions.openDailyNote.fx(args);
+            if (result.created) {
+                // Template content may already contain links and tags
+                await onNoteCreated({ fileName: result.fileName });
+                await onNoteSaved({ fileName: result.fileName, content: result.content });
+                await onNoteSavedTags({ fileName: result.fileName, content: result.content });
+                await onNoteSavedSearch({ fileName: result.fileName });
+            }
+            return Response.json(result);
+        },
+    },
+    "/api/notes/daily-migrate": {
+        async POST(req: Request) {
+            const args = await req.json();
+            const result = await functions.migrateDailyNotes.fx(args);
+            // Many files moved or changed, so rebuild rather than patch the indexes
+            if (result.renamed.length > 0) {
+                await rebuildIndex();
+                await rebuildTagsIndex();
+                await rebuildSearchIndex();
+            }
+            return Response.json(result);
+        },
+    },
+    "/api/notes/templates": {
+        async POST() {
+            const result = await functions.getNoteTemplates.fx({});
+            return Response.json(result);
+        },
+    },
+    "/api/notes/create-from-template": {
+        async POST(req: Request) {
+            const args = await req.json();
+            const result = await functions.createNoteFromTemplate.fx(args);
+            await onNoteCreated({ fileName: result.fileName });
+            await onNoteSaved({ fileName: result.fileName, content: result.content });
+            await onNoteSavedTags({ fileName: result.fileName, content: result.content });
+            await onNoteSavedSearch({ fileName: result.fileName });
+            return Response.json(result);
+        },
+    },
     // Folder routes
     "/api/notes/folders": {
         async POST(req: Request) {
@@ -140,6 +224,9 @@ export const notesRoutes = {
         async POST(req: Request) {
             const args = await req.json();
             const result = await functions.moveNoteToFolder.fx(args);
+            if (result.fileName !== args.fileName) {
+                await onNoteRenamedSearch({ oldFileName: args.fileName, newFileName: result.fileName });
+            }
             return Response.json(result);
         },
     },
@@ -151,12 +238,31 @@ export const notesRoutes = {
             return Response.json(result);
         },
     },
+    "/api/notes/backlinks/unlinked-mentions": {
+        async POST(req: Request) {
+            const args = (await req.json()) as { fileName: string };
+            const result = await getUnlinkedMentions({ fileName: args.fileName });
+            return Response.json(result);
+        },
+    },
     "/api/notes/backlinks/phantoms": {
         async POST() {
             const result = getAllPhantomLinks();
             return Response.json(result);
         },
     },
+    "/api/notes/backlinks/rename-anchor": {
+        async POST(req: Request) {
+            const args = await req.json();
+            const result = await functions.renameLinkedAnchor.fx(args);
+            for (const fileName of result.updated) {
+                const note = await functions.getNoteByFileName.fx({ fileName });
+                await onNoteSaved({ fileName, content: note.content });
+                await onNoteSavedSearch({ fileName });
+            }
+            return Response.json(result);
+        },
+    },
     "/api/notes/backlinks/rebuild": {
         async POST() {
             const result = await rebuildIndex();
@@ -229,6 +335,7 @@ export const notesRoutes = {
         async POST(req: Request) {
             const args = await req.json();
             const result = await functions.updateNoteProject.fx(args);
+            await onNoteSavedSearch({ fileName: args.fileName });
             return Response.json(result);
         },
     },
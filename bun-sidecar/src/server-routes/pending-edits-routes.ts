@@ -0,0 +1,39 @@
+// API routes for agent note edits held for review
+
+import { acceptPendingEditHunks, listPendingEdits, rejectPendingEditHunks } from "@/services/pending-edits";
+
+export const pendingEditsRoutes = {
+    "/api/pending-edits/list": {
+        async POST(req: Request) {
+            const args = await req.json();
+            const edits = await listPendingEdits(args);
+            return Response.json(edits);
+        },
+    },
+
+    // { id, hunks?: number[] } - omit hunks to accept everything
+    "/api/pending-edits/accept": {
+        async POST(req: Request) {
+            const args = await req.json();
+            try {
+                const pendingEdit = await acceptPendingEditHunks(args);
+                return Response.json({ pendingEdit });
+            } catch (error) {
+                return Response.json({ error: error instanceof Error ? error.message : "Failed to accept changes" }, { status: 409 });
+            }
+        },
+    },
+
+    // { id, hunks?: number[] } - omit hunks to reject everything
+    "/api/pending-edits/reject": {
+        async POST(req: Request) {
+            const args = await req.json();
+            try {
+                const pendingEdit = await rejectPendingEditHunks(args);
+                return Response.json({ pendingEdit });
+            } catch (error) {
+                return Response.json({ error: error instanceof Error ? error.message : "Failed to reject changes" }, { status: 400 });
+            }
+        },
+    },
+};
@@ -15,11 +15,12 @@ const PREDEFINED_SECRETS: Record<string, { label: string; description: string; p
         placeholder: "sk-ant-oat01-...",
         helpText: "Run 'claude setup-token' in terminal to generate a token",
     },
+    // Named for GitHub, but holds the token for whichever host the workspace syncs with
     GITHUB_PAT: {
-        label: "GitHub Personal Access Token",
-        description: "PAT for git sync operations. Requires 'repo' scope.",
-        placeholder: "ghp_...",
-        helpText: "Create at github.com/settings/tokens with 'repo' scope",
+        label: "Git Access Token",
+        description: "Access token for git sync with GitHub, GitLab, Gitea, Bitbucket or another HTTPS git server.",
+        placeholder: "ghp_..., glpat-...",
+        helpText: "Create one in your git host's settings with read and write access to the repository",
     },
 };
 
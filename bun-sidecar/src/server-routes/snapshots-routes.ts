@@ -0,0 +1,83 @@
+// API routes for workspace snapshots: take, list, browse (read-only), restore and delete
+
+import {
+    deleteSnapshot,
+    getSnapshotFiles,
+    listSnapshots,
+    readSnapshotFile,
+    restoreSnapshot,
+    takeSnapshot,
+} from "@/services/snapshots";
+
+function errorResponse(error: unknown, status = 500): Response {
+    return Response.json({ error: error instanceof Error ? error.message : String(error) }, { status });
+}
+
+export const snapshotsRoutes = {
+    "/api/snapshots/list": {
+        async GET() {
+            try {
+                return Response.json(await listSnapshots());
+            } catch (error) {
+                return errorResponse(error);
+            }
+        },
+    },
+
+    "/api/snapshots/create": {
+        async POST(req: Request) {
+            const { name } = (await req.json()) as { name?: string };
+            try {
+                return Response.json(await takeSnapshot({ name: name ?? "" }));
+            } catch (error) {
+                return errorResponse(error, 400);
+            }
+        },
+    },
+
+    "/api/snapshots/files": {
+        async POST(req: Request) {
+            const { id } = (await req.json()) as { id: string };
+            try {
+                return Response.json(await getSnapshotFiles(id));
+            } catch (error) {
+                return errorResponse(error, 404);
+            }
+        },
+    },
+
+    "/api/snapshots/file": {
+        async POST(req: Request) {
+            const { id, path } = (await req.json()) as { id: string; path: string };
+            try {
+                return Response.json(await readSnapshotFile(id, path));
+            } catch (error) {
+                return errorResponse(error, 404);
+            }
+        },
+    },
+
+    // Without `paths`, restores the whole workspace
+    "/api/snapshots/restore": {
+        async POST(req: Request) {
+            const { id, paths } = (await req.json()) as { id: string; paths?: string[] };
+            try {
+                return Response.json(await restoreSnapshot({ id, paths }));
+            } catch (error) {
+                return errorResponse(error);
+            }
+        },
+    },
+
+    "/api/snapshots/delete": {
+        async POST(req: Request) {
+            const { id } = (await req.json()) as { id: string };
+            try {
+                await deleteSnapshot(id);
+                return Response.json({ success: true });
+            } catch (error) {
+                return errorResponse(error, 404);
+            }
+        },
+    },
+};
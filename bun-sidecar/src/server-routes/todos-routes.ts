@@ -3,6 +3,7 @@
 
 import {
     getTodos,
+    queryTodos,
     getTodoById,
     createTodo,
     updateTodo,
@@ -23,6 +24,13 @@ export const todosRoutes = {
             return Response.json(result);
         },
     },
+    "/api/todos/query": {
+        async POST(req: Request) {
+            const args = await req.json();
+            const result = await queryTodos(args);
+            return Response.json(result);
+        },
+    },
     "/api/todos/get": {
         async POST(req: Request) {
             const args = await req.json();
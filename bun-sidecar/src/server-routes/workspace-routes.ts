@@ -26,9 +26,13 @@ export const workspaceRoutes = {
                         layoutMode: "single",
                         mcpServerConfigs: [],
                         projectPreferences: {},
+                        todoViews: [],
                         gitAuthMode: "local",
+                        gitAuth: { host: "github", username: "" },
                         notesLocation: "root",
-                        autoSync: { enabled: true, syncOnChanges: true, intervalSeconds: 60, paused: false },
+                        dailyNotes: { pattern: "M-D-YYYY", folder: "", templatePath: "" },
+                        autoSync: { enabled: true, syncOnChanges: true, intervalSeconds: 60, paused: false, ignorePatterns: [], includeFolders: [], largeFileThresholdMB: 25 },
+                        semanticSearch: { provider: "openai-compatible", model: "", baseUrl: "", attachToChat: false, topK: 5 },
                         chatInputEnterToSend: true,
                         showHiddenFiles: false,
                     };
@@ -5,12 +5,15 @@ import { initializeWorkspaceServices } from "./services/workspace-init";
 import { appendFile } from "node:fs/promises";
 import { baseDirRoute } from "./server-routes/base-dir";
 import { workspaceRoutes } from "./server-routes/workspace-routes";
-import { gitInstalledRoute, gitInitRoute, gitStatusRoute, gitSetupRemoteRoute, gitPullRoute, gitPushRoute, gitCommitRoute, gitFetchStatusRoute, gitConflictsRoute, gitResolveConflictRoute, gitAbortMergeRoute, gitContinueMergeRoute, gitConflictContentRoute } from "./server-routes/git-sync";
+import { gitInstalledRoute, gitInitRoute, gitStatusRoute, gitSyncPreviewRoute, gitSetupRemoteRoute, gitPullRoute, gitPushRoute, gitCommitRoute, gitFetchStatusRoute, gitConflictsRoute, gitResolveConflictRoute, gitAbortMergeRoute, gitContinueMergeRoute, gitConflictContentRoute, gitNoteHistoryRoute, gitNoteVersionRoute, gitRestoreNoteVersionRoute } from "./server-routes/git-sync";
 // Feature-specific routes (replacing plugin registry)
 import { todosRoutes } from "./server-routes/todos-routes";
 import { notesRoutes } from "./server-routes/notes-routes";
 import { chatRoutes } from "./server-routes/chat-routes";
 import { agentsRoutes } from "./server-routes/agents-routes";
+import { agentSchedulesRoutes } from "./server-routes/agent-schedules-routes";
+import { agentActivityRoutes } from "./server-routes/agent-activity-routes";
+import { pendingEditsRoutes } from "./server-routes/pending-edits-routes";
 import { secretsRoutes } from "./server-routes/secrets-routes";
 import { skillsRoutes } from "./server-routes/skills-routes";
 import { workspacesRoutes } from "./server-routes/workspaces-routes";
@@ -21,6 +24,7 @@ import { versionRoutes } from "./server-routes/version-routes";
 import { logsRoutes } from "./server-routes/logs-routes";
 import { dictionariesRoutes } from "./server-routes/dictionaries-routes";
 import { projectsRoutes } from "./server-routes/projects-routes";
+import { snapshotsRoutes } from "./server-routes/snapshots-routes";
 
 // Terminal WebSocket data type
 interface TerminalWSData {
@@ -84,6 +88,9 @@ const server = serve<WSData>({
         ...notesRoutes,
         ...chatRoutes,
         ...agentsRoutes,
+        ...agentSchedulesRoutes,
+        ...agentActivityRoutes,
+        ...pendingEditsRoutes,
         ...secretsRoutes,
         ...skillsRoutes,
         ...mcpServersRoutes,
@@ -91,6 +98,7 @@ const server = serve<WSData>({
         ...logsRoutes,
         ...dictionariesRoutes,
         ...projectsRoutes,
+        ...snapshotsRoutes,
         // WebSocket route handler
         "/ws": {
             GET: (req, server) => {
@@ -227,6 +235,7 @@ const server = serve<WSData>({
         "/api/git/installed": gitInstalledRoute,
         "/api/git/init": gitInitRoute,
         "/api/git/status": gitStatusRoute,
+        "/api/git/sync-preview": gitSyncPreviewRoute,
         "/api/git/setup-remote": gitSetupRemoteRoute,
         "/api/git/pull": gitPullRoute,
         "/api/git/push": gitPushRoute,
@@ -237,6 +246,9 @@ const server = serve<WSData>({
         "/api/git/abort-merge": gitAbortMergeRoute,
         "/api/git/continue-merge": gitContinueMergeRoute,
         "/api/git/conflict-content": gitConflictContentRoute,
+        "/api/git/note-history": gitNoteHistoryRoute,
+        "/api/git/note-version": gitNoteVersionRoute,
+        "/api/git/restore-note-version": gitRestoreNoteVersionRoute,
 
         // This add end to catch all routes and route to frontend
         "/*": index,
@@ -0,0 +1,172 @@
+// Note-safety hooks for agent file tools, shared by interactive chat and scheduled agent runs
+//
+// Before Write/Edit/ApplyPatch runs, edits to existing notes are held for review when the agent
+// is in review mode, the file is checkpointed for rewinding, and a note open in the editor is
+// locked until the tool finishes.
+
+import type { HookCallback, HookCallbackMatcher, HookEvent, PreToolUseHookInput } from "@anthropic-ai/claude-agent-sdk";
+import { existsSync } from "node:fs";
+import { join } from "node:path";
+import type { AgentConfig } from "@/features/agents/index";
+import type { RunLog } from "@/features/agents/run-log";
+import { acquireFileLock, getActiveNoteFileNameForPath, getNoteFileNameFromPath, releaseFileLockForToolUse } from "@/services/file-locks";
+import { captureCheckpoint } from "@/services/note-checkpoints";
+import { proposeNoteEdit } from "@/services/pending-edits";
+import { getNotesPath } from "@/storage/root-path";
+import type { FileLock } from "@/types/FileLock";
+import type { PendingEdit } from "@/types/PendingEdit";
+
+const FILE_TOOL_MATCHER = "Write|Edit|ApplyPatch";
+
+// Streamed to the chat view as they happen; background runs have nobody to tell
+export type AgentFileEvent =
+    | { type: "pending_edit"; pendingEdit: PendingEdit }
+    | { type: "file_lock"; lock: FileLock }
+    | { type: "file_unlock"; noteFileName: string };
+
+export interface AgentToolContext {
+    agentConfig: AgentConfig;
+    runLog: RunLog;
+    onEvent?: (event: AgentFileEvent) => void;
+}
+
+type ToolInputWithFilePath = {
+    file_path?: string;
+    filePath?: string;
+    path?: string;
+};
+
+function getToolFilePath(toolInput?: ToolInputWithFilePath): string | null {
+    if (!toolInput) return null;
+    if (typeof toolInput.file_path === "string") return toolInput.file_path;
+    if (typeof toolInput.filePath === "string") return toolInput.filePath;
+    if (typeof toolInput.path === "string") return toolInput.path;
+    return null;
+}
+
+// In review mode, edits to existing notes are held for review and never reach the file
+export function getReviewedNoteFileName(agentConfig: AgentConfig, filePath: string | null): string | null {
+    if (!agentConfig.reviewNoteEdits || !filePath) return null;
+    const noteFileName = getNoteFileNameFromPath(filePath);
+    if (!noteFileName?.endsWith(".md") || !existsSync(join(getNotesPath(), noteFileName))) return null;
+    return noteFileName;
+}
+
+/**
+ * Lock a note open in the editor while `write` changes it, for writes that don't go through the
+ * file tools and their hooks, like the workspace server's tools.
+ */
+export async function withOpenNoteLock<T>(context: AgentToolContext, filePath: string, write: () => Promise<T>): Promise<T> {
+    const { agentConfig, runLog, onEvent } = context;
+    const noteFileName = await getActiveNoteFileNameForPath(filePath);
+    if (!noteFileName) {
+        return write();
+    }
+
+    const toolUseId = `workspace-${crypto.randomUUID()}`;
+    const { lock, wasCreated } = acquireFileLock({ noteFileName, agentId: agentConfig.id, agentName: agentConfig.name, toolUseId });
+    if (wasCreated) {
+        runLog.record({ type: "file_lock", noteFileName });
+        onEvent?.({ type: "file_lock", lock });
+    }
+    try {
+        return await write();
+    } finally {
+        const released = releaseFileLockForToolUse(toolUseId);
+        if (released) {
+            runLog.record({ type: "file_unlock", noteFileName: released.noteFileName });
+            onEvent?.({ type: "file_unlock", noteFileName: released.noteFileName });
+        }
+    }
+}
+
+export function buildFileToolHooks(context: AgentToolContext): Partial<Record<HookEvent, HookCallbackMatcher[]>> {
+    const { agentConfig, runLog, onEvent } = context;
+
+    const holdNoteEditForReview: HookCallback = async (input) => {
+        if (input.hook_event_name !== "PreToolUse") return {};
+        const preInput = input as PreToolUseHookInput;
+        const noteFileName = getReviewedNoteFileName(agentConfig, getToolFilePath(preInput.tool_input as ToolInputWithFilePath | undefined));
+        if (!noteFileName) {
+            return {};
+        }
+
+        const pendingEdit = await proposeNoteEdit({
+            noteFileName,
+            agentId: agentConfig.id,
+            agentName: agentConfig.name,
+            sessionId: preInput.session_id,
+            toolName: preInput.tool_name,
+            input: preInput.tool_input as Record<string, unknown>,
+        });
+        if (pendingEdit) {
+            onEvent?.({ type: "pending_edit", pendingEdit });
+        }
+
+        return {
+            hookSpecificOutput: {
+                hookEventName: "PreToolUse",
+                permissionDecision: "deny",
+                permissionDecisionReason: pendingEdit
+                    ? `Your change to ${noteFileName} was saved as a proposal for the user to review. Don't retry it; the note keeps its current content until the user accepts.`
+                    : `This edit doesn't change ${noteFileName} or doesn't match its content. Read the note and try again.`,
+            },
+        };
+    };
+
+    const lockOpenNoteFile: HookCallback = async (input, toolUseId) => {
+        if (input.hook_event_name !== "PreToolUse") return {};
+        const preInput = input as PreToolUseHookInput;
+        const filePath = getToolFilePath(preInput.tool_input as ToolInputWithFilePath | undefined);
+
+        if (!filePath || getReviewedNoteFileName(agentConfig, filePath)) {
+            return {};
+        }
+
+        const noteFileName = await getActiveNoteFileNameForPath(filePath);
+        if (!noteFileName) {
+            return {};
+        }
+
+        const { lock, wasCreated } = acquireFileLock({
+            noteFileName,
+            agentId: agentConfig.id,
+            agentName: agentConfig.name,
+            toolUseId,
+        });
+
+        if (wasCreated) {
+            runLog.record({ type: "file_lock", noteFileName });
+            onEvent?.({ type: "file_lock", lock });
+        }
+
+        return {};
+    };
+
+    // Save a file's content before the agent changes it, so rewinding can restore it
+    const checkpointFile: HookCallback = async (input) => {
+        if (input.hook_event_name !== "PreToolUse") return {};
+        const preInput = input as PreToolUseHookInput;
+        const filePath = getToolFilePath(preInput.tool_input as ToolInputWithFilePath | undefined);
+        if (filePath && !getReviewedNoteFileName(agentConfig, filePath)) {
+            await captureCheckpoint({ sessionId: preInput.session_id, filePath });
+        }
+        return {};
+    };
+
+    const unlockNoteFile: HookCallback = async (_input, toolUseId) => {
+        if (!toolUseId) return {};
+        const released = releaseFileLockForToolUse(toolUseId);
+        if (released) {
+            runLog.record({ type: "file_unlock", noteFileName: released.noteFileName });
+            onEvent?.({ type: "file_unlock", noteFileName: released.noteFileName });
+        }
+        return {};
+    };
+
+    return {
+        PreToolUse: [{ matcher: FILE_TOOL_MATCHER, hooks: [holdNoteEditForReview, checkpointFile, lockOpenNoteFile] }],
+        PostToolUse: [{ matcher: FILE_TOOL_MATCHER, hooks: [unlockNoteFile] }],
+        PostToolUseFailure: [{ matcher: FILE_TOOL_MATCHER, hooks: [unlockNoteFile] }],
+    };
+}
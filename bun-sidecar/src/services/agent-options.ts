@@ -0,0 +1,165 @@
+// Agent SDK options shared by interactive chat and scheduled agent runs
+
+import type { McpServerConfig } from "@anthropic-ai/claude-agent-sdk";
+import { MCP_REGISTRY } from "@/features/agents/index";
+import { listUserMcpServers, expandEnvVars } from "@/features/mcp-servers/fx";
+import { createServiceLogger } from "@/lib/logger";
+import { secrets } from "@/lib/secrets";
+
+const chatLogger = createServiceLogger("CHAT");
+
+// Build context information for the agent's system prompt
+export function buildAgentContext(workspaceFolder: string): string {
+    const now = new Date();
+    const dayNames = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+    const dayOfWeek = dayNames[now.getDay()];
+    const dateStr = now.toLocaleDateString("en-US", {
+        year: "numeric",
+        month: "long",
+        day: "numeric",
+    });
+
+    return `<agent-context>
+Today is ${dayOfWeek}, ${dateStr}.
+You are working in the folder: ${workspaceFolder}
+Use the mcp__nomendex__* tools to search and read notes, append to daily notes, and manage todos and projects.
+</agent-context>`;
+}
+
+// Map of MCP server IDs to their secret key names
+const MCP_SERVER_SECRETS: Record<string, string> = {
+    "linear": "LINEAR_OAUTH_TOKEN",
+};
+
+// Build MCP servers from agent config - supports stdio, sse, and http transports
+// Checks user-defined servers first, then falls back to built-in registry
+export async function buildMcpServersFromConfig(mcpServerIds: string[]): Promise<Record<string, McpServerConfig>> {
+    chatLogger.info("Building MCP servers", { serverIds: mcpServerIds });
+    const mcpServers: Record<string, McpServerConfig> = {};
+
+    // Load user-defined servers
+    const userServers = await listUserMcpServers();
+    chatLogger.info("User-defined MCP servers loaded", { count: userServers.length });
+
+    for (const serverId of mcpServerIds) {
+        // First, check user-defined servers
+        const userServer = userServers.find((s) => s.id === serverId);
+
+        if (userServer) {
+            // Build config from user-defined server with environment variable expansion
+            const transport = userServer.transport;
+
+            if ("type" in transport && transport.type === "sse") {
+                const config: McpServerConfig = {
+                    type: "sse",
+                    url: await expandEnvVars(transport.url),
+                };
+                if (transport.headers) {
+                    config.headers = {};
+                    for (const [key, value] of Object.entries(transport.headers)) {
+                        config.headers[key] = await expandEnvVars(value);
+                    }
+                }
+                mcpServers[serverId] = config;
+                chatLogger.info(`MCP server added (user-defined SSE): ${serverId}`, { url: config.url });
+            } else if ("type" in transport && transport.type === "http") {
+                const config: McpServerConfig = {
+                    type: "http",
+                    url: await expandEnvVars(transport.url),
+                };
+                if (transport.headers) {
+                    config.headers = {};
+                    for (const [key, value] of Object.entries(transport.headers)) {
+                        config.headers[key] = await expandEnvVars(value);
+                    }
+                }
+                mcpServers[serverId] = config;
+                chatLogger.info(`MCP server added (user-defined HTTP): ${serverId}`, { url: config.url });
+            } else if ("command" in transport) {
+                // stdio transport
+                const config: McpServerConfig = {
+                    command: await expandEnvVars(transport.command),
+                    args: await Promise.all(transport.args.map((arg) => expandEnvVars(arg))),
+                };
+                if (transport.env) {
+                    config.env = {};
+                    for (const [key, value] of Object.entries(transport.env)) {
+                        config.env[key] = await expandEnvVars(value);
+                    }
+                }
+                mcpServers[serverId] = config;
+                chatLogger.info(`MCP server added (user-defined stdio): ${serverId}`, { command: config.command });
+            }
+            continue;
+        }
+
+        // Fall back to built-in registry
+        const serverDef = MCP_REGISTRY.find((s) => s.id === serverId);
+        chatLogger.info(`MCP server lookup in registry: ${serverId}`, { found: !!serverDef });
+
+        if (serverDef) {
+            const sourceConfig = serverDef.config;
+
+            // Check if this server needs an OAuth token from secrets
+            const secretKey = MCP_SERVER_SECRETS[serverId];
+            let authToken: string | undefined;
+            if (secretKey) {
+                authToken = await secrets.get(secretKey);
+                chatLogger.info(`MCP server auth: ${serverId}`, { hasToken: !!authToken });
+            }
+
+            // Handle different transport types
+            if ("type" in sourceConfig && sourceConfig.type === "sse") {
+                // SSE transport - no subprocess needed
+                const config: McpServerConfig = {
+                    type: "sse",
+                    url: sourceConfig.url,
+                };
+                // Merge headers from config and add auth token if available
+                const headers: Record<string, string> = { ...sourceConfig.headers };
+                if (authToken) {
+                    headers["Authorization"] = `Bearer ${authToken}`;
+                }
+                if (Object.keys(headers).length > 0) {
+                    config.headers = headers;
+                }
+                mcpServers[serverId] = config;
+                chatLogger.info(`MCP server added (registry SSE): ${serverId}`, { url: sourceConfig.url, hasAuth: !!authToken });
+            } else if ("type" in sourceConfig && sourceConfig.type === "http") {
+                // HTTP transport
+                const config: McpServerConfig = {
+                    type: "http",
+                    url: sourceConfig.url,
+                };
+                const headers: Record<string, string> = { ...sourceConfig.headers };
+                if (authToken) {
+                    headers["Authorization"] = `Bearer ${authToken}`;
+                }
+                if (Object.keys(headers).length > 0) {
+                    config.headers = headers;
+                }
+                mcpServers[serverId] = config;
+                chatLogger.info(`MCP server added (registry HTTP): ${serverId}`, { url: sourceConfig.url, hasAuth: !!authToken });
+            } else if ("command" in sourceConfig) {
+                // stdio transport (default)
+                const config: McpServerConfig = {
+                    command: sourceConfig.command,
+                    args: sourceConfig.args,
+                };
+                if (sourceConfig.env) {
+                    config.env = sourceConfig.env;
+                }
+                mcpServers[serverId] = config;
+                chatLogger.info(`MCP server added (registry stdio): ${serverId}`, { command: sourceConfig.command });
+            }
+        }
+    }
+
+    chatLogger.info("Final MCP servers config", { mcpServers });
+    return mcpServers;
+}
+
+// Find Claude CLI path - check common locations
+export function getClaudeCliPath(): string {
+    return process.env.CLAUDE_CLI_PATH || `${process.env.HOME}/.local/bin/claude`;
+}
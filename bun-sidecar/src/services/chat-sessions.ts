@@ -0,0 +1,77 @@
+// Chat session metadata (chat-sessions.jsonl) and JSONL helpers
+// Shared by interactive chat and scheduled agent runs
+
+import { existsSync, mkdirSync } from "node:fs";
+import { appendFile } from "node:fs/promises";
+import { join, dirname } from "node:path";
+import { getRootPath, getNomendexPath } from "@/storage/root-path";
+
+// Session management types
+export type SessionMetadata = {
+    id: string;
+    title: string;
+    createdAt: string;
+    updatedAt: string;
+    messageCount: number;
+    agentId?: string; // Which agent config was used for this session
+    scheduled?: boolean; // Started by an agent schedule rather than from the chat view
+    scheduleId?: string;
+    forkedFrom?: { sessionId: string; messageId: string }; // Session and user message this one was forked at
+};
+
+// File paths - computed dynamically
+export function getSessionsFile(): string {
+    return join(getNomendexPath(), "chat-sessions.jsonl");
+}
+// Claude sessions directory - computed from workspace path
+export function getClaudeSessionsDir(): string {
+    const workspacePath = getRootPath();
+    // Convert path to Claude-compatible format (replace / with -)
+    // Claude keeps the leading dash, e.g., /Users/foo -> -Users-foo
+    const pathPart = workspacePath.replace(/\//g, "-");
+    return `${process.env.HOME}/.claude/projects/${pathPart}`;
+}
+
+// Sessions run through AI SDK providers keep their own history, in the same message format
+export function getProviderSessionsDir(): string {
+    return join(getNomendexPath(), "chat-history");
+}
+
+// History file for a session, whichever backend wrote it
+export function getSessionHistoryFile(sessionId: string): string {
+    const providerFile = join(getProviderSessionsDir(), `${sessionId}.jsonl`);
+    return existsSync(providerFile) ? providerFile : join(getClaudeSessionsDir(), `${sessionId}.jsonl`);
+}
+
+export async function readJSONL<T>(filePath: string): Promise<T[]> {
+    if (!existsSync(filePath)) {
+        return [];
+    }
+    const content = await Bun.file(filePath).text();
+    return content
+        .split("\n")
+        .filter((line) => line.trim())
+        .map((line) => JSON.parse(line));
+}
+
+export async function appendJSONL(filePath: string, data: object): Promise<void> {
+    const dir = dirname(filePath);
+    if (!existsSync(dir)) {
+        mkdirSync(dir, { recursive: true });
+    }
+    const line = JSON.stringify(data) + "\n";
+    await appendFile(filePath, line);
+}
+
+export async function updateJSONL<T extends { id: string }>(
+    filePath: string,
+    id: string,
+    updater: (item: T) => T
+): Promise<void> {
+    const items = await readJSONL<T>(filePath);
+    const updatedItems = items.map((item) =>
+        item.id === id ? updater(item) : item
+    );
+    const content = updatedItems.map((item) => JSON.stringify(item)).join("\n") + "\n";
+    await Bun.write(filePath, content);
+}
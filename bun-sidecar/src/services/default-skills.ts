@@ -589,6 +589,64 @@ case "$COMMAND" in
         exit 1
         ;;
 esac
+`,
+        },
+    },
+    {
+        name: "note-templates",
+        files: {
+            "SKILL.md": `---
+name: note-templates
+description: Creates notes from the workspace's note templates via REST API. Use when the user asks to create a note from a template (e.g., "start a meeting note"), or asks which templates exist. Requires the Nomendex app to be running.
+version: 1
+---
+
+# Note Templates
+
+## Overview
+
+Templates are markdown files in the notes folder's \`templates/\` folder. Creating a note from a template fills in placeholders such as \`{{title}}\`, \`{{date}}\`, \`{{time}}\` and \`{{project}}\`, merges the project and tags into the template's front matter, and indexes the new note for backlinks, tags and search.
+
+Agents with the \`nomendex\` workspace tools can use \`list_note_templates\` and \`create_note_from_template\` instead of the API.
+
+## Port Discovery
+
+\`\`\`bash
+PORT=$(cat ~/Library/Application\\ Support/com.firstloop.nomendex/serverport.json | grep -o '"port":[0-9]*' | cut -d: -f2)
+\`\`\`
+
+## API Endpoints
+
+All endpoints use POST with JSON body at \`http://localhost:$PORT\`:
+
+| Endpoint | Description |
+|----------|-------------|
+| \`/api/notes/templates\` | List templates with their file names and front matter |
+| \`/api/notes/create-from-template\` | Create a note from a template |
+
+## List Templates
+
+\`\`\`bash
+curl -s -X POST "http://localhost:$PORT/api/notes/templates" \\
+  -H "Content-Type: application/json" \\
+  -d '{}'
+\`\`\`
+
+## Create a Note From a Template
+
+\`fileName\` is the new note's path relative to the notes folder. \`project\` and \`tags\` are optional.
+
+\`\`\`bash
+curl -s -X POST "http://localhost:$PORT/api/notes/create-from-template" \\
+  -H "Content-Type: application/json" \\
+  -d '{"fileName": "Meetings/Kickoff.md", "templateFileName": "templates/Meeting.md", "project": "Launch", "tags": ["meeting"]}'
+\`\`\`
+
+The request fails if a note with that file name already exists.
+
+## How Claude Should Use This Skill
+
+List the templates first and pick the one that matches what the user asked for, then create the note and tell the user its file name.
 `,
         },
     },
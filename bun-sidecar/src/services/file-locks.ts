@@ -12,7 +12,8 @@ const locksByFile = new Map<string, InternalFileLock>();
 const fileByToolUseId = new Map<string, string>();
 const fileLocksLogger = createServiceLogger("FILE_LOCKS");
 
-function getNoteFileNameFromPath(filePath: string): string | null {
+// Note file name relative to the notes folder, or null for paths outside it
+export function getNoteFileNameFromPath(filePath: string): string | null {
     if (!filePath) return null;
     const resolvedPath = path.resolve(filePath);
     const notesRoot = path.resolve(getNotesPath());
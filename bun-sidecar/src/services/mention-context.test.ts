@@ -0,0 +1,48 @@
+import { test, expect, beforeAll, afterAll, spyOn } from "bun:test";
+import { mkdir, mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { globalConfig } from "@/storage/global-config";
+import { getNotesPath, initializePaths } from "@/storage/root-path";
+import { createTodo, initializeTodosService } from "@/features/todos/fx";
+import { initializeNotesService } from "@/features/notes/fx";
+import { rebuildTagsIndex } from "@/features/notes/tags-service";
+import { resolveMention } from "./mention-context";
+
+let root: string;
+const activeWorkspace = spyOn(globalConfig, "getActiveWorkspace");
+
+beforeAll(async () => {
+    root = await mkdtemp(join(tmpdir(), "nomendex-mentions-"));
+    await mkdir(join(root, "todos"), { recursive: true });
+    const now = new Date().toISOString();
+    activeWorkspace.mockResolvedValue({ id: "test", path: root, name: "Test", createdAt: now, lastAccessedAt: now });
+
+    await initializePaths();
+    await initializeTodosService();
+    await initializeNotesService();
+});
+
+afterAll(async () => {
+    activeWorkspace.mockRestore();
+    await initializePaths();
+    await rm(root, { recursive: true, force: true });
+});
+
+test("a tag mention brings in the tagged notes and todos", async () => {
+    await Bun.write(join(getNotesPath(), "Errands", "Saturday.md"), "Pick up the #errand parcels\n");
+    const todo = await createTodo({ title: "Renew passport", tags: ["errand"], dueDate: "2025-05-01" });
+    await rebuildTagsIndex();
+
+    const mention = await resolveMention({ kind: "tag", id: "errand" });
+
+    expect(mention.missing).toBeFalsy();
+    expect(mention.content).toContain("### Errands/Saturday.md\nPick up the #errand parcels");
+    expect(mention.content).toContain("### Todo: Renew passport\nStatus: todo");
+    expect(mention.content).not.toContain("notes:");
+    expect(mention.content).not.toContain(`todos:${todo.id}`);
+});
+
+test("a tag nothing uses is missing", async () => {
+    expect((await resolveMention({ kind: "tag", id: "unused" })).missing).toBe(true);
+});
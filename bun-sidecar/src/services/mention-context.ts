@@ -0,0 +1,156 @@
+// Context for @-mentions in chat messages
+//
+// Resolves each typed mention into the text the agent gets: a note's content, a todo with
+// its fields, a project with its open todos and notes, or every note and todo with a tag. Mentioned
+// uploads are images and go along as image attachments.
+
+import { join } from "node:path";
+import { createServiceLogger } from "@/lib/logger";
+import { getUploadsPath } from "@/storage/root-path";
+import { functions as notesFunctions, getNotes } from "@/features/notes/fx";
+import { getFilesWithTag } from "@/features/notes/tags-service";
+import { getTodoById, getTodos } from "@/features/todos/fx";
+import { getProjectByName } from "@/features/projects/fx";
+import { describeRecurrence } from "@/features/todos/recurrence";
+import type { Todo } from "@/features/todos/todo-types";
+import {
+    type BudgetedMention,
+    type Mention,
+    type ResolvedMention,
+    fitMentionsToBudget,
+    parseMentions,
+} from "@/features/chat/mentions";
+
+const mentionsLogger = createServiceLogger("MENTIONS");
+
+function noteTitle(fileName: string): string {
+    return fileName.replace(/\.md$/, "").split("/").pop() || fileName;
+}
+
+function formatTodo(todo: Todo, heading = "#"): string {
+    const fields = [
+        `Status: ${todo.status}`,
+        todo.project && `Project: ${todo.project}`,
+        todo.dueDate && `Due: ${todo.dueDate}`,
+        todo.tags?.length && `Tags: ${todo.tags.map((tag) => `#${tag}`).join(" ")}`,
+        todo.parentId && `Subtask of: ${todo.parentId}`,
+        todo.blockedBy?.length && `Blocked by: ${todo.blockedBy.join(", ")}`,
+        todo.recurrence && `Repeats: ${describeRecurrence(todo.recurrence)}`,
+    ].filter(Boolean);
+    const description = todo.description?.trim();
+    return [`${heading} ${todo.title}`, ...fields, ...(description ? ["", description] : [])].join("\n");
+}
+
+function todoLine(todo: Todo): string {
+    const due = todo.dueDate ? ` (due ${todo.dueDate})` : "";
+    return `- [${todo.status === "in_progress" ? "in progress" : todo.status}] ${todo.title}${due} — id ${todo.id}`;
+}
+
+async function resolveNote(fileName: string): Promise<ResolvedMention> {
+    if (fileName.split("/").includes("..")) {
+        return { kind: "note", id: fileName, label: noteTitle(fileName), content: "", missing: true };
+    }
+    const note = await notesFunctions.getNoteByFileName.fx({ fileName });
+    const missing = note.mtime === undefined;
+    return { kind: "note", id: fileName, label: noteTitle(fileName), content: note.content, missing };
+}
+
+async function resolveTodo(todoId: string): Promise<ResolvedMention> {
+    try {
+        const todo = await getTodoById({ todoId });
+        return { kind: "todo", id: todoId, label: todo.title, content: formatTodo(todo) };
+    } catch {
+        return { kind: "todo", id: todoId, label: todoId, content: "", missing: true };
+    }
+}
+
+async function resolveProject(name: string): Promise<ResolvedMention> {
+    const [project, todos, notes] = await Promise.all([getProjectByName({ name }), getTodos({ project: name }), getNotes()]);
+    const projectNotes = notes.filter((note) => note.frontMatter?.project === name);
+    if (!project && todos.length === 0 && projectNotes.length === 0) {
+        return { kind: "project", id: name, label: name, content: "", missing: true };
+    }
+
+    const openTodos = todos.filter((todo) => todo.status !== "done");
+    const sections = [
+        `# Project: ${name}`,
+        project?.description?.trim() ?? "",
+        `## Open todos (${openTodos.length} of ${todos.length})`,
+        openTodos.map(todoLine).join("\n") || "None",
+        `## Notes (${projectNotes.length})`,
+        // Note contents come last, so truncation cuts them before the overview
+        ...projectNotes.map((note) => `### ${note.fileName}\n${note.content.trim()}`),
+    ];
+    return { kind: "project", id: name, label: name, content: sections.filter(Boolean).join("\n\n") };
+}
+
+async function resolveTag(tag: string): Promise<ResolvedMention> {
+    const name = tag.replace(/^#/, "");
+    // Index refs name their folder: notes:<note file name> or todos:<todo id>.md
+    const fileRefs = getFilesWithTag({ tag: name }).sort();
+    const noteFileNames = fileRefs.filter((ref) => ref.startsWith("notes:")).map((ref) => ref.slice("notes:".length));
+    const todoIds = fileRefs.filter((ref) => ref.startsWith("todos:")).map((ref) => ref.slice("todos:".length).replace(/\.md$/, ""));
+
+    const [notes, todos] = await Promise.all([
+        Promise.all(noteFileNames.map((fileName) => notesFunctions.getNoteByFileName.fx({ fileName }))),
+        Promise.all(todoIds.map((todoId) => getTodoById({ todoId }).catch(() => null))),
+    ]);
+    const foundNotes = notes.filter((note) => note.mtime !== undefined);
+    const foundTodos = todos.filter((todo): todo is Todo => todo !== null);
+    if (foundNotes.length === 0 && foundTodos.length === 0) {
+        return { kind: "tag", id: name, label: `#${name}`, content: "", missing: true };
+    }
+
+    // Note contents come last, so truncation cuts them before the todos
+    const sections = [
+        ...foundTodos.map((todo) => formatTodo(todo, "### Todo:")),
+        ...foundNotes.map((note) => `### ${note.fileName}\n${note.content.trim()}`),
+    ];
+    return { kind: "tag", id: name, label: `#${name}`, content: [`# Tagged #${name}`, ...sections].join("\n\n") };
+}
+
+async function resolveUpload(fileName: string): Promise<ResolvedMention> {
+    // Uploads are flat; a mention can't point outside the folder
+    const safeName = fileName.split(/[\\/]/).pop() ?? "";
+    const exists = !!safeName && (await Bun.file(join(getUploadsPath(), safeName)).exists());
+    return { kind: "upload", id: fileName, label: safeName, content: exists ? `/api/uploads/${safeName}` : "", missing: !exists };
+}
+
+export async function resolveMention(mention: Mention): Promise<ResolvedMention> {
+    try {
+        switch (mention.kind) {
+            case "note":
+                return await resolveNote(mention.id);
+            case "todo":
+                return await resolveTodo(mention.id);
+            case "project":
+                return await resolveProject(mention.id);
+            case "tag":
+                return await resolveTag(mention.id);
+            case "upload":
+                return await resolveUpload(mention.id);
+        }
+    } catch (error) {
+        mentionsLogger.warn(`Failed to resolve ${mention.kind} mention: ${mention.id}`, {
+            error: error instanceof Error ? error.message : String(error),
+        });
+        return { ...mention, label: mention.id, content: "", missing: true };
+    }
+}
+
+/**
+ * Resolve and budget the mentions in a message.
+ * Returns the mentions with their (possibly truncated) content and the image URLs of mentioned uploads.
+ */
+export async function buildMentionContext(message: string): Promise<{ mentions: BudgetedMention[]; images: string[] }> {
+    const parsed = parseMentions(message);
+    if (parsed.length === 0) {
+        return { mentions: [], images: [] };
+    }
+
+    const mentions = fitMentionsToBudget(await Promise.all(parsed.map(resolveMention)));
+    const images = mentions
+        .filter((mention) => mention.kind === "upload" && !mention.missing && mention.content)
+        .map((mention) => mention.content);
+    return { mentions, images };
+}
@@ -0,0 +1,25 @@
+import { describe, test, expect } from "bun:test";
+import { selectCheckpointsToRestore, type FileCheckpoint } from "./note-checkpoints";
+
+function checkpoint(filePath: string, timestamp: string, content: string | null): FileCheckpoint {
+    return { id: `${filePath}@${timestamp}`, filePath, timestamp, content };
+}
+
+describe("selectCheckpointsToRestore", () => {
+    test("takes the earliest checkpoint per file at or after the rewind point", () => {
+        const selected = selectCheckpointsToRestore(
+            [
+                checkpoint("/w/a.md", "2025-03-04T09:00:00.000Z", "v0"),
+                checkpoint("/w/a.md", "2025-03-04T10:01:00.000Z", "v1"),
+                checkpoint("/w/a.md", "2025-03-04T10:02:00.000Z", "v2"),
+                checkpoint("/w/new.md", "2025-03-04T10:03:00.000Z", null),
+            ],
+            "2025-03-04T10:00:00.000Z"
+        );
+
+        expect(selected.map((c) => [c.filePath, c.content])).toEqual([
+            ["/w/a.md", "v1"],
+            ["/w/new.md", null],
+        ]);
+    });
+});
@@ -0,0 +1,145 @@
+// File checkpoints for chat sessions
+//
+// Before the agent writes or edits a file, its previous content is saved to
+// .nomendex/checkpoints/<sessionId>.jsonl so rewinding the session can put it back.
+
+import { existsSync } from "node:fs";
+import { unlink } from "node:fs/promises";
+import { join, relative, resolve, isAbsolute } from "node:path";
+import { createServiceLogger } from "@/lib/logger";
+import { getNomendexPath, getRootPath } from "@/storage/root-path";
+import { appendJSONL, readJSONL } from "@/services/chat-sessions";
+import { getNoteFileNameFromPath } from "@/services/file-locks";
+import { onNoteDeleted, onNoteSaved } from "@/features/notes/backlinks-service";
+import { onNoteDeletedTags, onNoteSavedTags } from "@/features/notes/tags-service";
+import { onNoteDeletedSearch, onNoteSavedSearch } from "@/features/notes/search-service";
+
+const checkpointsLogger = createServiceLogger("CHECKPOINTS");
+
+// Larger files aren't notes; don't copy them into the checkpoint log
+const MAX_CHECKPOINT_BYTES = 1024 * 1024;
+
+export interface FileCheckpoint {
+    id: string;
+    timestamp: string;
+    filePath: string; // Absolute path
+    content: string | null; // null when the file didn't exist yet
+}
+
+function getCheckpointsFile(sessionId: string): string {
+    return join(getNomendexPath(), "checkpoints", `${sessionId}.jsonl`);
+}
+
+// Only files inside the workspace are checkpointed
+function resolveWorkspacePath(filePath: string): string | null {
+    const rootPath = resolve(getRootPath());
+    const absolutePath = resolve(rootPath, filePath);
+    const relativePath = relative(rootPath, absolutePath);
+    if (!relativePath || relativePath.startsWith("..") || isAbsolute(relativePath)) {
+        return null;
+    }
+    return absolutePath;
+}
+
+export async function captureCheckpoint(params: { sessionId: string; filePath: string }): Promise<void> {
+    const absolutePath = resolveWorkspacePath(params.filePath);
+    if (!absolutePath) {
+        return;
+    }
+
+    try {
+        const file = Bun.file(absolutePath);
+        const exists = await file.exists();
+        if (exists && file.size > MAX_CHECKPOINT_BYTES) {
+            return;
+        }
+
+        const checkpoint: FileCheckpoint = {
+            id: crypto.randomUUID(),
+            timestamp: new Date().toISOString(),
+            filePath: absolutePath,
+            content: exists ? await file.text() : null,
+        };
+        await appendJSONL(getCheckpointsFile(params.sessionId), checkpoint);
+    } catch (error) {
+        // A missed checkpoint only limits what a rewind can restore
+        checkpointsLogger.error("Failed to capture checkpoint", { error, filePath: params.filePath });
+    }
+}
+
+// Pick the checkpoint to restore for each file: the earliest one taken at or after `since`
+export function selectCheckpointsToRestore(checkpoints: FileCheckpoint[], since: string): FileCheckpoint[] {
+    const earliest = new Map<string, FileCheckpoint>();
+    for (const checkpoint of checkpoints) {
+        if (checkpoint.timestamp < since) continue;
+        const existing = earliest.get(checkpoint.filePath);
+        if (!existing || checkpoint.timestamp < existing.timestamp) {
+            earliest.set(checkpoint.filePath, checkpoint);
+        }
+    }
+    return [...earliest.values()];
+}
+
+async function reindexNote(filePath: string, content: string | null): Promise<void> {
+    const fileName = getNoteFileNameFromPath(filePath);
+    if (!fileName || !fileName.endsWith(".md")) {
+        return;
+    }
+    if (content === null) {
+        await onNoteDeleted({ fileName });
+        await onNoteDeletedTags({ fileName });
+        await onNoteDeletedSearch({ fileName });
+    } else {
+        await onNoteSaved({ fileName, content });
+        await onNoteSavedTags({ fileName, content });
+        await onNoteSavedSearch({ fileName });
+    }
+}
+
+/**
+ * Put files back the way they were before the agent first touched them at or after `since`.
+ * Used checkpoints are dropped; earlier ones stay for future rewinds.
+ * Returns the restored paths, relative to the workspace.
+ */
+export async function restoreCheckpoints(params: { sessionId: string; since: string }): Promise<string[]> {
+    const checkpointsFile = getCheckpointsFile(params.sessionId);
+    const checkpoints = await readJSONL<FileCheckpoint>(checkpointsFile);
+    const toRestore = selectCheckpointsToRestore(checkpoints, params.since);
+    if (toRestore.length === 0) {
+        return [];
+    }
+
+    const restored: string[] = [];
+
+    for (const checkpoint of toRestore) {
+        try {
+            if (checkpoint.content === null) {
+                if (existsSync(checkpoint.filePath)) {
+                    await unlink(checkpoint.filePath);
+                }
+            } else {
+                await Bun.write(checkpoint.filePath, checkpoint.content);
+            }
+            await reindexNote(checkpoint.filePath, checkpoint.content);
+            restored.push(relative(getRootPath(), checkpoint.filePath));
+        } catch (error) {
+            checkpointsLogger.error("Failed to restore checkpoint", { error, filePath: checkpoint.filePath });
+        }
+    }
+
+    const remaining = checkpoints.filter((checkpoint) => checkpoint.timestamp < params.since);
+    await Bun.write(checkpointsFile, remaining.map((checkpoint) => JSON.stringify(checkpoint)).join("\n") + (remaining.length > 0 ? "\n" : ""));
+
+    checkpointsLogger.info("Restored checkpoints", { sessionId: params.sessionId, files: restored.length });
+    return restored;
+}
+
+// Checkpoints taken before a fork point belong to the fork too
+export async function copyCheckpoints(params: { fromSessionId: string; toSessionId: string; before: string }): Promise<void> {
+    const checkpoints = await readJSONL<FileCheckpoint>(getCheckpointsFile(params.fromSessionId));
+    for (const checkpoint of checkpoints) {
+        if (checkpoint.timestamp < params.before) {
+            await appendJSONL(getCheckpointsFile(params.toSessionId), checkpoint);
+        }
+    }
+}
@@ -0,0 +1,13 @@
+import { describe, test, expect } from "bun:test";
+import { getRestoredFileName } from "./note-history";
+
+describe("getRestoredFileName", () => {
+    test("names the copy after the version's date", () => {
+        expect(getRestoredFileName("Projects/Plan.md", "2025-03-04T10:00:00.000Z", () => false)).toBe("Projects/Plan (2025-03-04).md");
+    });
+
+    test("numbers copies when the name is taken", () => {
+        const taken = new Set(["Plan (2025-03-04).md", "Plan (2025-03-04) 2.md"]);
+        expect(getRestoredFileName("Plan.md", "2025-03-04T10:00:00.000Z", (name) => taken.has(name))).toBe("Plan (2025-03-04) 3.md");
+    });
+});
@@ -0,0 +1,96 @@
+// Version history for notes
+//
+// Every sync commits the workspace, so the git log of a note's file is its version history.
+// Old versions can be read back for comparison and restored over the note or as a new note.
+
+import { existsSync } from "node:fs";
+import { join, relative, isAbsolute } from "node:path";
+import { createServiceLogger } from "@/lib/logger";
+import { createGitClient, type FileVersion } from "@/lib/git";
+import { getNotesPath, getRootPath } from "@/storage/root-path";
+import { onNoteCreated, onNoteSaved } from "@/features/notes/backlinks-service";
+import { onNoteSavedTags } from "@/features/notes/tags-service";
+import { onNoteSavedSearch } from "@/features/notes/search-service";
+
+const historyLogger = createServiceLogger("NOTE-HISTORY");
+
+// Enough to page through a busy note without walking the whole repo history
+const MAX_VERSIONS = 200;
+
+function getGitClient() {
+    return createGitClient({ dir: getRootPath() });
+}
+
+// The note's path inside the repo, with forward slashes as git expects
+function getNoteRepoPath(fileName: string): string {
+    const repoPath = relative(getRootPath(), join(getNotesPath(), fileName));
+    if (!repoPath || repoPath.startsWith("..") || isAbsolute(repoPath) || fileName.split("/").includes("..")) {
+        throw new Error(`Invalid note path: ${fileName}`);
+    }
+    return repoPath.split("\\").join("/");
+}
+
+/**
+ * File name for a restored copy of a note: "Plan.md" restored from a commit on 2025-03-04
+ * becomes "Plan (2025-03-04).md", then "Plan (2025-03-04) 2.md" and so on if that's taken.
+ */
+export function getRestoredFileName(fileName: string, timestamp: string, exists: (fileName: string) => boolean): string {
+    const base = `${fileName.replace(/\.md$/, "")} (${timestamp.slice(0, 10)})`;
+    let candidate = `${base}.md`;
+    for (let n = 2; exists(candidate); n++) {
+        candidate = `${base} ${n}.md`;
+    }
+    return candidate;
+}
+
+export async function getNoteHistory(fileName: string): Promise<FileVersion[]> {
+    const git = getGitClient();
+    if (!(await git.isRepo())) {
+        return [];
+    }
+    return git.fileLog(getNoteRepoPath(fileName), { depth: MAX_VERSIONS });
+}
+
+// The note's file as it is now, front matter included; null if it doesn't exist
+export async function getCurrentNoteFile(fileName: string): Promise<string | null> {
+    getNoteRepoPath(fileName); // Rejects paths outside the notes folder
+    const file = Bun.file(join(getNotesPath(), fileName));
+    return (await file.exists()) ? file.text() : null;
+}
+
+// The note's full file, front matter included, as it was at a commit
+export async function getNoteVersion(fileName: string, oid: string): Promise<string> {
+    try {
+        return await getGitClient().readFileAtCommit(oid, getNoteRepoPath(fileName));
+    } catch (error) {
+        historyLogger.warn("Failed to read note version", { fileName, oid, error: String(error) });
+        throw new Error(`${fileName} has no version at ${oid.slice(0, 7)}`);
+    }
+}
+
+/**
+ * Put an old version back. The file is written as it was, front matter included.
+ * With `asNewNote` the current note is left alone and the version is saved next to it.
+ * Returns the file name that was written.
+ */
+export async function restoreNoteVersion(input: { fileName: string; oid: string; asNewNote?: boolean }): Promise<string> {
+    const content = await getNoteVersion(input.fileName, input.oid);
+
+    let fileName = input.fileName;
+    if (input.asNewNote) {
+        const versions = await getNoteHistory(input.fileName);
+        const timestamp = versions.find((version) => version.oid === input.oid)?.timestamp ?? new Date().toISOString();
+        fileName = getRestoredFileName(input.fileName, timestamp, (name) => existsSync(join(getNotesPath(), name)));
+    }
+
+    await Bun.write(join(getNotesPath(), fileName), content);
+    if (fileName !== input.fileName) {
+        await onNoteCreated({ fileName });
+    }
+    await onNoteSaved({ fileName, content });
+    await onNoteSavedTags({ fileName, content });
+    await onNoteSavedSearch({ fileName });
+
+    historyLogger.info("Restored note version", { from: input.fileName, to: fileName, oid: input.oid.slice(0, 7) });
+    return fileName;
+}
@@ -0,0 +1,154 @@
+// Note edits held for review
+//
+// Agents in review mode don't write notes directly: their Write/Edit calls become a pending
+// edit per note, stored in .nomendex/pending-edits.json. The note view shows the diff, and
+// hunks are accepted (written through saveNote) or rejected one at a time.
+
+import { join } from "node:path";
+import { createServiceLogger } from "@/lib/logger";
+import { getNomendexPath, getNotesPath } from "@/storage/root-path";
+import { functions as notesFunctions, parseFrontMatter } from "@/features/notes/fx";
+import { applyHunks, applyToolEdit, getEditHunks } from "@/features/notes/edit-hunks";
+import { onNoteSaved } from "@/features/notes/backlinks-service";
+import { onNoteSavedTags } from "@/features/notes/tags-service";
+import { onNoteSavedSearch } from "@/features/notes/search-service";
+import { type PendingEdit, PendingEditSchema } from "@/types/PendingEdit";
+
+const pendingEditsLogger = createServiceLogger("PENDING-EDITS");
+
+function getPendingEditsFile(): string {
+    return join(getNomendexPath(), "pending-edits.json");
+}
+
+async function readPendingEdits(): Promise<PendingEdit[]> {
+    const file = Bun.file(getPendingEditsFile());
+    if (!(await file.exists())) {
+        return [];
+    }
+    try {
+        return PendingEditSchema.array().parse(await file.json());
+    } catch (error) {
+        pendingEditsLogger.error("Failed to read pending edits", { error });
+        return [];
+    }
+}
+
+async function writePendingEdits(edits: PendingEdit[]): Promise<void> {
+    await Bun.write(getPendingEditsFile(), JSON.stringify(edits, null, 2));
+}
+
+// Replace or drop one pending edit; an edit with nothing left to review is dropped
+async function storePendingEdit(edit: PendingEdit): Promise<PendingEdit | null> {
+    const edits = (await readPendingEdits()).filter((existing) => existing.id !== edit.id);
+    const hasChanges = edit.baseContent !== edit.proposedContent;
+    await writePendingEdits(hasChanges ? [...edits, edit] : edits);
+    return hasChanges ? edit : null;
+}
+
+export async function listPendingEdits(input: { noteFileName?: string } = {}): Promise<PendingEdit[]> {
+    const edits = await readPendingEdits();
+    return input.noteFileName ? edits.filter((edit) => edit.noteFileName === input.noteFileName) : edits;
+}
+
+/**
+ * Hold a Write/Edit/MultiEdit call on an existing note as a pending edit. Later calls on the same
+ * note build on the pending version. Front matter in the proposal is ignored, as saveNote keeps
+ * the note's own. Returns null if the note doesn't exist or the edit wouldn't apply.
+ */
+export async function proposeNoteEdit(params: {
+    noteFileName: string;
+    agentId: string;
+    agentName: string;
+    sessionId?: string;
+    toolName: string;
+    input: Record<string, unknown>;
+}): Promise<PendingEdit | null> {
+    const { noteFileName, toolName, input } = params;
+    const file = Bun.file(join(getNotesPath(), noteFileName));
+    if (!(await file.exists())) {
+        return null;
+    }
+
+    const edits = await readPendingEdits();
+    const existing = edits.find((edit) => edit.noteFileName === noteFileName);
+    const raw = await file.text();
+
+    // Edits made while a proposal is pending apply to the proposal, which has no front matter
+    const proposedRaw = existing
+        ? applyToolEdit(toolName, input, existing.proposedContent)
+        : applyToolEdit(toolName, input, raw);
+    if (proposedRaw === null) {
+        return null;
+    }
+
+    const now = new Date().toISOString();
+    const edit: PendingEdit = existing
+        ? { ...existing, proposedContent: parseFrontMatter(proposedRaw).content, updatedAt: now }
+        : {
+              id: crypto.randomUUID(),
+              noteFileName,
+              agentId: params.agentId,
+              agentName: params.agentName,
+              sessionId: params.sessionId,
+              baseContent: parseFrontMatter(raw).content,
+              proposedContent: parseFrontMatter(proposedRaw).content,
+              createdAt: now,
+              updatedAt: now,
+          };
+
+    pendingEditsLogger.info("Holding note edit for review", { noteFileName, toolName, agentId: params.agentId });
+    return storePendingEdit(edit);
+}
+
+async function getPendingEdit(id: string): Promise<PendingEdit> {
+    const edit = (await readPendingEdits()).find((existing) => existing.id === id);
+    if (!edit) {
+        throw new Error("Pending edit not found");
+    }
+    return edit;
+}
+
+// Hunk indexes refer to getEditHunks(baseContent, proposedContent); omitted means all of them
+function pickHunks(edit: PendingEdit, indexes?: number[]) {
+    const hunks = getEditHunks(edit.baseContent, edit.proposedContent);
+    const selected = indexes ? hunks.filter((_, index) => indexes.includes(index)) : hunks;
+    const others = indexes ? hunks.filter((_, index) => !indexes.includes(index)) : [];
+    return { selected, others };
+}
+
+/**
+ * Write the chosen hunks to the note through saveNote. They're applied to the note as it is now,
+ * so the user's own edits since the proposal are kept; hunks whose lines have changed fail.
+ * Returns the pending edit with what's left to review, or null once nothing is.
+ */
+export async function acceptPendingEditHunks(input: { id: string; hunks?: number[] }): Promise<PendingEdit | null> {
+    const edit = await getPendingEdit(input.id);
+    const { selected } = pickHunks(edit, input.hunks);
+
+    const note = await notesFunctions.getNoteByFileName.fx({ fileName: edit.noteFileName });
+    const content = applyHunks(note.content, selected);
+    const baseContent = applyHunks(edit.baseContent, selected);
+    if (content === null || baseContent === null) {
+        throw new Error("The note has changed where this edit applies. Reject it or edit the note by hand.");
+    }
+
+    await notesFunctions.saveNote.fx({ fileName: edit.noteFileName, content });
+    await onNoteSaved({ fileName: edit.noteFileName, content });
+    await onNoteSavedTags({ fileName: edit.noteFileName, content });
+    await onNoteSavedSearch({ fileName: edit.noteFileName });
+
+    return storePendingEdit({ ...edit, baseContent, updatedAt: new Date().toISOString() });
+}
+
+// Drop the chosen hunks from the proposal; the note itself isn't touched
+export async function rejectPendingEditHunks(input: { id: string; hunks?: number[] }): Promise<PendingEdit | null> {
+    const edit = await getPendingEdit(input.id);
+    const { others } = pickHunks(edit, input.hunks);
+
+    const proposedContent = applyHunks(edit.baseContent, others);
+    if (proposedContent === null) {
+        throw new Error("Failed to rebuild the remaining changes");
+    }
+
+    return storePendingEdit({ ...edit, proposedContent, updatedAt: new Date().toISOString() });
+}
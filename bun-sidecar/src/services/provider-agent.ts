@@ -0,0 +1,388 @@
+// Agent loop for AI SDK providers (OpenAI, Gemini, OpenAI-compatible servers)
+//
+// Mirrors what the Claude Agent SDK query() does for the chat route: connects the agent's
+// MCP servers, runs a streaming tool-calling loop, asks canUseTool before every tool call,
+// and yields messages in the Claude SDK shapes so /api/chat can stream them unchanged.
+
+import { createGoogleGenerativeAI } from "@ai-sdk/google";
+import { createOpenAI } from "@ai-sdk/openai";
+import type { McpServerConfig } from "@anthropic-ai/claude-agent-sdk";
+import { Client } from "@socotra/modelcontextprotocol-sdk/client/index.js";
+import { SSEClientTransport } from "@socotra/modelcontextprotocol-sdk/client/sse.js";
+import { StdioClientTransport, getDefaultEnvironment } from "@socotra/modelcontextprotocol-sdk/client/stdio.js";
+import { StreamableHTTPClientTransport } from "@socotra/modelcontextprotocol-sdk/client/streamableHttp.js";
+import { dynamicTool, jsonSchema, stepCountIs, streamText, type LanguageModel, type ToolSet } from "ai";
+import { join } from "node:path";
+import { z, type ZodRawShape } from "zod";
+import { type AgentConfig, PROVIDER_API_KEY_SECRETS } from "@/features/agents/index";
+import { createServiceLogger } from "@/lib/logger";
+import { secrets } from "@/lib/secrets";
+import { appendJSONL, getProviderSessionsDir, readJSONL } from "@/services/chat-sessions";
+import {
+    type ProviderAssistantMessage,
+    type ProviderHistoryMessage,
+    type ProviderImageBlock,
+    type ProviderMessage,
+    type ProviderStreamEvent,
+    type ProviderTextBlock,
+    type ProviderUserMessage,
+    formatToolResult,
+    toModelMessages,
+} from "@/services/provider-messages";
+
+const providerLogger = createServiceLogger("PROVIDER-AGENT");
+
+// Same turn limit the chat route gives the Claude Agent SDK
+const MAX_STEPS = 100;
+
+export type ToolPermissionCheck = (
+    toolName: string,
+    input: Record<string, unknown>
+) => Promise<{ behavior: "allow"; updatedInput: Record<string, unknown> } | { behavior: "deny"; message: string }>;
+
+type McpToolDefinition = {
+    name: string;
+    description?: string;
+    inputSchema: Record<string, unknown>;
+};
+
+type McpCallResult = {
+    content?: unknown;
+    structuredContent?: unknown;
+    isError?: boolean;
+};
+
+type McpConnection = {
+    name: string;
+    tools: McpToolDefinition[];
+    callTool: (name: string, args: Record<string, unknown>, signal: AbortSignal) => Promise<McpCallResult>;
+    close: () => Promise<void>;
+};
+
+export type InProcessToolDefinition = {
+    name: string;
+    description: string;
+    inputSchema: ZodRawShape;
+    handler: (args: never, extra: unknown) => Promise<McpCallResult>;
+};
+
+function connectInProcessServer(name: string, definitions: InProcessToolDefinition[]): McpConnection {
+    const schemas = new Map(definitions.map((definition) => [definition.name, z.object(definition.inputSchema)]));
+
+    return {
+        name,
+        tools: definitions.map((definition) => ({
+            name: definition.name,
+            description: definition.description,
+            inputSchema: z.toJSONSchema(schemas.get(definition.name)!) as Record<string, unknown>,
+        })),
+        callTool: async (toolName, args) => {
+            const definition = definitions.find((candidate) => candidate.name === toolName);
+            if (!definition) {
+                return { content: [{ type: "text", text: `Unknown tool: ${toolName}` }], isError: true };
+            }
+            const parsed = schemas.get(toolName)!.safeParse(args);
+            if (!parsed.success) {
+                return { content: [{ type: "text", text: `Invalid arguments: ${parsed.error.message}` }], isError: true };
+            }
+            return definition.handler(parsed.data as never, {});
+        },
+        close: async () => {},
+    };
+}
+
+async function getLanguageModel(agentConfig: AgentConfig): Promise<LanguageModel> {
+    if (agentConfig.provider === "claude") {
+        throw new Error("Claude agents run through the Claude Agent SDK");
+    }
+
+    const secretKey = PROVIDER_API_KEY_SECRETS[agentConfig.provider];
+    const apiKey = await secrets.get(secretKey);
+    const baseURL = agentConfig.baseUrl || undefined;
+
+    switch (agentConfig.provider) {
+        case "openai":
+            if (!apiKey) throw new Error(`Missing ${secretKey}. Add it to your secrets to use OpenAI agents.`);
+            return createOpenAI({ apiKey, baseURL })(agentConfig.model);
+        case "google":
+            if (!apiKey) throw new Error(`Missing ${secretKey}. Add it to your secrets to use Gemini agents.`);
+            return createGoogleGenerativeAI({ apiKey, baseURL })(agentConfig.model);
+        case "openai-compatible":
+            if (!baseURL) throw new Error("OpenAI-compatible agents need a base URL, e.g. http://localhost:11434/v1");
+            // Local servers usually ignore the key, but the client requires one
+            return createOpenAI({ apiKey: apiKey || "not-needed", baseURL }).chat(agentConfig.model);
+    }
+}
+
+function createTransport(config: Exclude<McpServerConfig, { type: "sdk" }>) {
+    if (config.type === "sse") {
+        return new SSEClientTransport(new URL(config.url), { requestInit: { headers: config.headers } });
+    }
+    if (config.type === "http") {
+        return new StreamableHTTPClientTransport(new URL(config.url), { requestInit: { headers: config.headers } });
+    }
+    return new StdioClientTransport({
+        command: config.command,
+        args: config.args,
+        env: { ...getDefaultEnvironment(), ...config.env },
+    });
+}
+
+// In-process (sdk) servers can only be hosted by the Claude Agent SDK, so the ones we ship
+// are passed in as tool definitions and called directly instead
+async function connectMcpServers(
+    mcpServers: Record<string, McpServerConfig>,
+    inProcessTools: Record<string, InProcessToolDefinition[]>
+): Promise<{ connections: McpConnection[]; statuses: Array<{ name: string; status: string }> }> {
+    const connections: McpConnection[] = [];
+    const statuses: Array<{ name: string; status: string }> = [];
+
+    for (const [name, config] of Object.entries(mcpServers)) {
+        if (config.type === "sdk") {
+            const definitions = inProcessTools[name];
+            if (definitions) {
+                connections.push(connectInProcessServer(name, definitions));
+                statuses.push({ name, status: "connected" });
+            } else {
+                providerLogger.warn(`In-process MCP server ${name} has no tool definitions, so this provider can't use it`);
+                statuses.push({ name, status: "failed" });
+            }
+            continue;
+        }
+
+        const transport = createTransport(config);
+        try {
+            const client = new Client({ name: "nomendex", version: "1.0.0" });
+            await client.connect(transport);
+            const { tools }: { tools: McpToolDefinition[] } = await client.listTools();
+            connections.push({
+                name,
+                tools,
+                callTool: (toolName, args, signal) =>
+                    client.callTool({ name: toolName, arguments: args }, undefined, { signal }),
+                close: () => client.close(),
+            });
+            statuses.push({ name, status: "connected" });
+        } catch (error) {
+            providerLogger.error(`Failed to connect MCP server: ${name}`, {
+                error: error instanceof Error ? error.message : String(error),
+            });
+            statuses.push({ name, status: "failed" });
+        }
+    }
+
+    return { connections, statuses };
+}
+
+// Expose MCP tools under the Claude SDK naming (mcp__server__tool) so allowed tools carry over
+function buildTools(connections: McpConnection[], canUseTool: ToolPermissionCheck, abortSignal: AbortSignal): ToolSet {
+    const tools: ToolSet = {};
+
+    for (const connection of connections) {
+        for (const definition of connection.tools) {
+            const toolName = `mcp__${connection.name}__${definition.name}`;
+            tools[toolName] = dynamicTool({
+                description: definition.description,
+                inputSchema: jsonSchema(definition.inputSchema),
+                execute: async (input) => {
+                    const args = (input ?? {}) as Record<string, unknown>;
+                    const permission = await canUseTool(toolName, args);
+                    if (permission.behavior === "deny") {
+                        throw new Error(permission.message);
+                    }
+
+                    const result = await connection.callTool(definition.name, permission.updatedInput, abortSignal);
+                    const text = formatToolResult(result);
+                    if (result.isError) {
+                        throw new Error(text);
+                    }
+                    return text;
+                },
+            });
+        }
+    }
+
+    return tools;
+}
+
+/**
+ * Run one chat turn against an AI SDK provider.
+ * Resumes from the session's saved history when a sessionId is given; otherwise starts a new session.
+ */
+export async function* runProviderQuery(params: {
+    agentConfig: AgentConfig;
+    content: Array<ProviderTextBlock | ProviderImageBlock>;
+    sessionId?: string;
+    systemPrompt: string;
+    mcpServers: Record<string, McpServerConfig>;
+    inProcessTools: Record<string, InProcessToolDefinition[]>;
+    canUseTool: ToolPermissionCheck;
+    abortController: AbortController;
+}): AsyncGenerator<ProviderMessage> {
+    const { agentConfig, content, systemPrompt, mcpServers, inProcessTools, canUseTool, abortController } = params;
+    const sessionId = params.sessionId || crypto.randomUUID();
+    const historyFile = join(getProviderSessionsDir(), `${sessionId}.jsonl`);
+    const startTime = Date.now();
+
+    const base = () => ({ uuid: crypto.randomUUID(), session_id: sessionId, parent_tool_use_id: null });
+    const record = async <T extends ProviderHistoryMessage>(message: T): Promise<T> => {
+        await appendJSONL(historyFile, { ...message, timestamp: new Date().toISOString() });
+        return message;
+    };
+    const streamEvent = (event: ProviderStreamEvent): ProviderMessage => ({ type: "stream_event", event, ...base() });
+
+    const model = await getLanguageModel(agentConfig);
+    const history = params.sessionId ? await readJSONL<ProviderHistoryMessage>(historyFile) : [];
+    const { connections, statuses } = await connectMcpServers(mcpServers, inProcessTools);
+
+    try {
+        const tools = buildTools(connections, canUseTool, abortController.signal);
+
+        yield {
+            type: "system",
+            subtype: "init",
+            session_id: sessionId,
+            model: agentConfig.model,
+            tools: Object.keys(tools),
+            mcp_servers: statuses,
+        };
+
+        const userMessage = await record<ProviderUserMessage>({
+            type: "user",
+            message: { role: "user", content },
+            ...base(),
+        });
+
+        const result = streamText({
+            model,
+            system: systemPrompt,
+            messages: toModelMessages([...history, userMessage]),
+            tools,
+            stopWhen: stepCountIs(MAX_STEPS),
+            abortSignal: abortController.signal,
+        });
+
+        // Block index within the current step, keyed by the AI SDK part id
+        const blockIndexes = new Map<string, number>();
+        const blockTexts = new Map<string, string>();
+        let nextIndex = 0;
+        let steps = 0;
+        let finalText = "";
+        let usage = { input_tokens: 0, output_tokens: 0 };
+
+        const assistantMessage = (block: ProviderAssistantMessage["message"]["content"][number]) =>
+            record<ProviderAssistantMessage>({
+                type: "assistant",
+                message: { role: "assistant", model: agentConfig.model, content: [block] },
+                ...base(),
+            });
+
+        for await (const part of result.fullStream) {
+            switch (part.type) {
+                case "start-step":
+                    steps++;
+                    blockIndexes.clear();
+                    nextIndex = 0;
+                    finalText = "";
+                    yield streamEvent({ type: "message_start" });
+                    break;
+                case "text-start":
+                case "reasoning-start": {
+                    const index = nextIndex++;
+                    blockIndexes.set(part.id, index);
+                    blockTexts.set(part.id, "");
+                    yield streamEvent({
+                        type: "content_block_start",
+                        index,
+                        content_block: part.type === "text-start" ? { type: "text", text: "" } : { type: "thinking", thinking: "" },
+                    });
+                    break;
+                }
+                case "text-delta":
+                case "reasoning-delta": {
+                    const index = blockIndexes.get(part.id);
+                    if (index === undefined || !part.text) break;
+                    blockTexts.set(part.id, (blockTexts.get(part.id) ?? "") + part.text);
+                    yield streamEvent({
+                        type: "content_block_delta",
+                        index,
+                        delta: part.type === "text-delta" ? { type: "text_delta", text: part.text } : { type: "thinking_delta", thinking: part.text },
+                    });
+                    break;
+                }
+                case "text-end":
+                case "reasoning-end": {
+                    const text = blockTexts.get(part.id) ?? "";
+                    blockTexts.delete(part.id);
+                    if (!text) break;
+                    if (part.type === "text-end") {
+                        finalText += text;
+                        yield await assistantMessage({ type: "text", text });
+                    } else {
+                        yield await assistantMessage({ type: "thinking", thinking: text });
+                    }
+                    break;
+                }
+                case "tool-call": {
+                    const block = {
+                        type: "tool_use" as const,
+                        id: part.toolCallId,
+                        name: part.toolName,
+                        input: (part.input ?? {}) as Record<string, unknown>,
+                    };
+                    yield streamEvent({ type: "content_block_start", index: nextIndex++, content_block: { ...block, input: {} } });
+                    yield await assistantMessage(block);
+                    break;
+                }
+                case "tool-result":
+                case "tool-error": {
+                    const isError = part.type === "tool-error";
+                    const output = isError
+                        ? part.error instanceof Error
+                            ? part.error.message
+                            : String(part.error)
+                        : typeof part.output === "string"
+                          ? part.output
+                          : JSON.stringify(part.output);
+                    yield await record<ProviderUserMessage>({
+                        type: "user",
+                        message: {
+                            role: "user",
+                            content: [{ type: "tool_result", tool_use_id: part.toolCallId, content: output, is_error: isError }],
+                        },
+                        tool_use_result: output,
+                        ...base(),
+                    });
+                    break;
+                }
+                case "finish":
+                    usage = {
+                        input_tokens: part.totalUsage.inputTokens ?? 0,
+                        output_tokens: part.totalUsage.outputTokens ?? 0,
+                    };
+                    break;
+                case "abort":
+                    throw new Error("Query aborted by user");
+                case "error":
+                    throw part.error instanceof Error ? part.error : new Error(String(part.error));
+            }
+        }
+
+        yield await record({
+            type: "result",
+            subtype: "success",
+            is_error: false,
+            result: finalText,
+            num_turns: steps,
+            duration_ms: Date.now() - startTime,
+            usage,
+            ...base(),
+        });
+    } finally {
+        for (const connection of connections) {
+            connection.close().catch((error: unknown) => {
+                providerLogger.warn(`Failed to close MCP server: ${connection.name}`, { error });
+            });
+        }
+    }
+}
@@ -0,0 +1,92 @@
+import { describe, test, expect } from "bun:test";
+import { formatToolResult, toModelMessages, type ProviderHistoryMessage } from "./provider-messages";
+
+const base = { session_id: "s1", parent_tool_use_id: null };
+
+function user(content: Extract<ProviderHistoryMessage, { type: "user" }>["message"]["content"]): ProviderHistoryMessage {
+    return { type: "user", uuid: crypto.randomUUID(), message: { role: "user", content }, ...base };
+}
+
+function assistant(content: Extract<ProviderHistoryMessage, { type: "assistant" }>["message"]["content"]): ProviderHistoryMessage {
+    return { type: "assistant", uuid: crypto.randomUUID(), message: { role: "assistant", model: "gpt-5", content }, ...base };
+}
+
+describe("toModelMessages", () => {
+    test("rebuilds a tool-calling turn", () => {
+        const messages = toModelMessages([
+            user([{ type: "text", text: "List my todos" }]),
+            assistant([{ type: "thinking", thinking: "Use the todo tool" }]),
+            assistant([{ type: "text", text: "Checking." }]),
+            assistant([{ type: "tool_use", id: "call-1", name: "mcp__todos__list_todos", input: {} }]),
+            user([{ type: "tool_result", tool_use_id: "call-1", content: "[]", is_error: false }]),
+            assistant([{ type: "text", text: "You have no todos." }]),
+            { type: "result", subtype: "success", is_error: false, result: "You have no todos.", num_turns: 2, duration_ms: 10, usage: { input_tokens: 1, output_tokens: 1 }, uuid: "r", ...base },
+        ]);
+
+        expect(messages).toEqual([
+            { role: "user", content: [{ type: "text", text: "List my todos" }] },
+            {
+                role: "assistant",
+                content: [
+                    { type: "text", text: "Checking." },
+                    { type: "tool-call", toolCallId: "call-1", toolName: "mcp__todos__list_todos", input: {} },
+                ],
+            },
+            {
+                role: "tool",
+                content: [
+                    { type: "tool-result", toolCallId: "call-1", toolName: "mcp__todos__list_todos", output: { type: "text", value: "[]" } },
+                ],
+            },
+            { role: "assistant", content: [{ type: "text", text: "You have no todos." }] },
+        ]);
+    });
+
+    test("merges parallel tool results and keeps errors", () => {
+        const messages = toModelMessages([
+            assistant([{ type: "tool_use", id: "a", name: "one", input: { x: 1 } }]),
+            assistant([{ type: "tool_use", id: "b", name: "two", input: {} }]),
+            user([{ type: "tool_result", tool_use_id: "a", content: "ok", is_error: false }]),
+            user([{ type: "tool_result", tool_use_id: "b", content: "User denied permission", is_error: true }]),
+        ]);
+
+        expect(messages).toHaveLength(2);
+        expect(messages[1]).toEqual({
+            role: "tool",
+            content: [
+                { type: "tool-result", toolCallId: "a", toolName: "one", output: { type: "text", value: "ok" } },
+                { type: "tool-result", toolCallId: "b", toolName: "two", output: { type: "error-text", value: "User denied permission" } },
+            ],
+        });
+    });
+
+    test("passes images through to the user message", () => {
+        const messages = toModelMessages([
+            user([
+                { type: "image", source: { type: "base64", media_type: "image/png", data: "aGk=" } },
+                { type: "text", text: "What is this?" },
+            ]),
+        ]);
+
+        expect(messages).toEqual([
+            {
+                role: "user",
+                content: [
+                    { type: "image", image: "aGk=", mediaType: "image/png" },
+                    { type: "text", text: "What is this?" },
+                ],
+            },
+        ]);
+    });
+});
+
+describe("formatToolResult", () => {
+    test("joins text content", () => {
+        expect(formatToolResult({ content: [{ type: "text", text: "a" }, { type: "text", text: "b" }] })).toBe("a\nb");
+    });
+
+    test("serializes non-text content", () => {
+        expect(formatToolResult({ content: [{ type: "image", data: "x" }] })).toBe('{"type":"image","data":"x"}');
+        expect(formatToolResult({ content: [], structuredContent: { count: 2 } })).toBe('{"count":2}');
+    });
+});
@@ -0,0 +1,149 @@
+// Messages for sessions run through AI SDK providers
+//
+// These mirror the Claude Agent SDK message shapes the chat view and session history
+// already understand, so provider sessions stream, render and reload the same way.
+
+import type { AssistantModelMessage, ModelMessage, ToolModelMessage, UserModelMessage } from "ai";
+
+export type ProviderTextBlock = { type: "text"; text: string };
+export type ProviderImageBlock = { type: "image"; source: { type: "base64"; media_type: string; data: string } };
+export type ProviderThinkingBlock = { type: "thinking"; thinking: string };
+export type ProviderToolUseBlock = { type: "tool_use"; id: string; name: string; input: Record<string, unknown> };
+export type ProviderToolResultBlock = { type: "tool_result"; tool_use_id: string; content: string; is_error: boolean };
+
+type MessageBase = {
+    uuid: string;
+    session_id: string;
+    parent_tool_use_id: null;
+    timestamp?: string; // Set on messages written to history
+};
+
+export type ProviderUserMessage = MessageBase & {
+    type: "user";
+    message: { role: "user"; content: Array<ProviderTextBlock | ProviderImageBlock | ProviderToolResultBlock> };
+    tool_use_result?: unknown;
+};
+
+export type ProviderAssistantMessage = MessageBase & {
+    type: "assistant";
+    message: { role: "assistant"; model: string; content: Array<ProviderTextBlock | ProviderThinkingBlock | ProviderToolUseBlock> };
+};
+
+export type ProviderResultMessage = MessageBase & {
+    type: "result";
+    subtype: "success";
+    is_error: false;
+    result: string;
+    num_turns: number;
+    duration_ms: number;
+    usage: { input_tokens: number; output_tokens: number };
+};
+
+export type ProviderInitMessage = {
+    type: "system";
+    subtype: "init";
+    session_id: string;
+    model: string;
+    tools: string[];
+    mcp_servers: Array<{ name: string; status: string }>;
+};
+
+// Subset of the Anthropic streaming events the chat view renders incrementally
+export type ProviderStreamEvent =
+    | { type: "message_start" }
+    | { type: "content_block_start"; index: number; content_block: ProviderTextBlock | ProviderThinkingBlock | ProviderToolUseBlock }
+    | { type: "content_block_delta"; index: number; delta: { type: "text_delta"; text: string } | { type: "thinking_delta"; thinking: string } };
+
+export type ProviderStreamMessage = MessageBase & {
+    type: "stream_event";
+    event: ProviderStreamEvent;
+};
+
+export type ProviderMessage =
+    | ProviderInitMessage
+    | ProviderStreamMessage
+    | ProviderUserMessage
+    | ProviderAssistantMessage
+    | ProviderResultMessage;
+
+// Messages written to the session history file
+export type ProviderHistoryMessage = ProviderUserMessage | ProviderAssistantMessage | ProviderResultMessage;
+
+/**
+ * Rebuild the model conversation from a session's history so it can be resumed.
+ * Consecutive assistant blocks are merged into one message, tool results become tool messages,
+ * and thinking is dropped since providers don't accept each other's reasoning back.
+ */
+export function toModelMessages(history: ProviderHistoryMessage[]): ModelMessage[] {
+    const messages: ModelMessage[] = [];
+    const toolNames = new Map<string, string>();
+
+    for (const entry of history) {
+        const last = messages[messages.length - 1];
+
+        if (entry.type === "assistant") {
+            const content: Exclude<AssistantModelMessage["content"], string> = [];
+            for (const block of entry.message.content) {
+                if (block.type === "text" && block.text) {
+                    content.push({ type: "text", text: block.text });
+                } else if (block.type === "tool_use") {
+                    toolNames.set(block.id, block.name);
+                    content.push({ type: "tool-call", toolCallId: block.id, toolName: block.name, input: block.input });
+                }
+            }
+            if (content.length === 0) continue;
+
+            if (last?.role === "assistant" && Array.isArray(last.content)) {
+                last.content.push(...content);
+            } else {
+                messages.push({ role: "assistant", content });
+            }
+        } else if (entry.type === "user") {
+            const toolResults: ToolModelMessage["content"] = [];
+            const userContent: Exclude<UserModelMessage["content"], string> = [];
+
+            for (const block of entry.message.content) {
+                if (block.type === "tool_result") {
+                    toolResults.push({
+                        type: "tool-result",
+                        toolCallId: block.tool_use_id,
+                        toolName: toolNames.get(block.tool_use_id) ?? "unknown",
+                        output: block.is_error ? { type: "error-text", value: block.content } : { type: "text", value: block.content },
+                    });
+                } else if (block.type === "image") {
+                    userContent.push({ type: "image", image: block.source.data, mediaType: block.source.media_type });
+                } else if (block.text) {
+                    userContent.push({ type: "text", text: block.text });
+                }
+            }
+
+            if (toolResults.length > 0) {
+                if (last?.role === "tool") {
+                    last.content.push(...toolResults);
+                } else {
+                    messages.push({ role: "tool", content: toolResults });
+                }
+            }
+            if (userContent.length > 0) {
+                messages.push({ role: "user", content: userContent });
+            }
+        }
+    }
+
+    return messages;
+}
+
+/**
+ * Flatten an MCP tool call result into the text the model and the chat view see.
+ */
+export function formatToolResult(result: { content?: unknown; structuredContent?: unknown }): string {
+    if (Array.isArray(result.content)) {
+        const parts = result.content.map((item: { type?: string; text?: string }) =>
+            item.type === "text" && typeof item.text === "string" ? item.text : JSON.stringify(item)
+        );
+        if (parts.length > 0) {
+            return parts.join("\n");
+        }
+    }
+    return JSON.stringify(result.structuredContent ?? result.content ?? "");
+}
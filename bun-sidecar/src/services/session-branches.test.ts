@@ -0,0 +1,45 @@
+import { describe, test, expect } from "bun:test";
+import { countChatMessages, findBranchPoint, getPromptText, rebaseEntries, type HistoryEntry } from "./session-branches";
+
+const history: HistoryEntry[] = [
+    { type: "summary" },
+    { type: "user", uuid: "u1", sessionId: "s1", timestamp: "2025-03-04T10:00:00.000Z", message: { content: "Tidy my inbox note" } },
+    { type: "assistant", uuid: "a1", sessionId: "s1", message: { content: [{ type: "tool_use" }] } },
+    { type: "user", uuid: "t1", sessionId: "s1", message: { content: [{ type: "tool_result" }] } },
+    { type: "assistant", uuid: "a2", sessionId: "s1", message: { content: [{ type: "text", text: "Done." }] } },
+    { type: "user", uuid: "u2", sessionId: "s1", timestamp: "2025-03-04T10:05:00.000Z", message: { content: [{ type: "text", text: "Now archive it" }] } },
+    { type: "assistant", uuid: "a3", sessionId: "s1", message: { content: [{ type: "text", text: "Archived." }] } },
+];
+
+describe("findBranchPoint", () => {
+    test("finds user prompts by uuid", () => {
+        expect(findBranchPoint(history, "u2")).toBe(5);
+        expect(getPromptText(history[5]!)).toBe("Now archive it");
+        expect(getPromptText(history[1]!)).toBe("Tidy my inbox note");
+    });
+
+    test("ignores tool results, assistant lines and unknown ids", () => {
+        expect(findBranchPoint(history, "t1")).toBe(-1);
+        expect(findBranchPoint(history, "a1")).toBe(-1);
+        expect(findBranchPoint(history, "missing")).toBe(-1);
+    });
+});
+
+describe("rebaseEntries", () => {
+    test("rewrites whichever session id field a line has", () => {
+        const rebased = rebaseEntries([history[0]!, history[1]!, { type: "user", session_id: "s1" }], "fork");
+        expect(rebased).toEqual([
+            { type: "summary" },
+            { ...history[1]!, sessionId: "fork" },
+            { type: "user", session_id: "fork" },
+        ]);
+        expect(history[1]!.sessionId).toBe("s1");
+    });
+});
+
+describe("countChatMessages", () => {
+    test("counts prompts and one reply per assistant run", () => {
+        expect(countChatMessages(history)).toBe(4);
+        expect(countChatMessages(history.slice(0, 5))).toBe(2);
+    });
+});
@@ -0,0 +1,182 @@
+// Forking and rewinding chat sessions
+//
+// Both work on the session history file (Claude's or a provider's, same message format):
+// a fork copies everything before a user message into a new session, a rewind truncates
+// the session in place at that message.
+
+import { existsSync } from "node:fs";
+import { dirname, join } from "node:path";
+import { createServiceLogger } from "@/lib/logger";
+import {
+    type SessionMetadata,
+    getSessionHistoryFile,
+    getSessionsFile,
+    readJSONL,
+    appendJSONL,
+    updateJSONL,
+} from "@/services/chat-sessions";
+import { copyCheckpoints, restoreCheckpoints } from "@/services/note-checkpoints";
+import { splitPromptContext } from "@/features/chat/mentions";
+
+const branchesLogger = createServiceLogger("SESSION-BRANCHES");
+
+// The fields of a history line this module reads or rewrites; everything else is copied as-is
+export type HistoryEntry = {
+    type?: string;
+    uuid?: string;
+    timestamp?: string;
+    sessionId?: string; // Claude history
+    session_id?: string; // Provider history
+    message?: string | { content?: string | Array<{ type: string; text?: string }> };
+};
+
+// Text the user typed, or "" for tool results and other non-prompt user lines
+export function getPromptText(entry: HistoryEntry): string {
+    return splitPromptContext(getEntryText(entry)).text;
+}
+
+function getEntryText(entry: HistoryEntry): string {
+    if (entry.type !== "user" || !entry.message) {
+        return "";
+    }
+    if (typeof entry.message === "string") {
+        return entry.message;
+    }
+    const content = entry.message.content;
+    if (typeof content === "string") {
+        return content;
+    }
+    return (content ?? [])
+        .filter((block) => block.type === "text")
+        .map((block) => block.text || "")
+        .join("\n");
+}
+
+// Index of the user prompt to branch at, or -1 if it isn't a prompt in this history
+export function findBranchPoint(entries: HistoryEntry[], messageId: string): number {
+    return entries.findIndex((entry) => entry.uuid === messageId && getPromptText(entry) !== "");
+}
+
+// Copy history lines into another session, keeping whichever session id field each line uses
+export function rebaseEntries(entries: HistoryEntry[], sessionId: string): HistoryEntry[] {
+    return entries.map((entry) => ({
+        ...entry,
+        ...("sessionId" in entry && { sessionId }),
+        ...("session_id" in entry && { session_id: sessionId }),
+    }));
+}
+
+// Messages as the chat view shows them: each prompt, plus one reply per run of assistant lines
+export function countChatMessages(entries: HistoryEntry[]): number {
+    let count = 0;
+    let inReply = false;
+    for (const entry of entries) {
+        if (getPromptText(entry)) {
+            count++;
+            inReply = false;
+        } else if (entry.type === "assistant" && !inReply) {
+            count++;
+            inReply = true;
+        }
+    }
+    return count;
+}
+
+function writeHistory(filePath: string, entries: HistoryEntry[]): Promise<number> {
+    return Bun.write(filePath, entries.map((entry) => JSON.stringify(entry)).join("\n") + (entries.length > 0 ? "\n" : ""));
+}
+
+async function getSessionMetadata(sessionId: string): Promise<SessionMetadata | undefined> {
+    const sessions = await readJSONL<SessionMetadata>(getSessionsFile());
+    return sessions.find((session) => session.id === sessionId);
+}
+
+/**
+ * Start a new session from everything before a user message. The message itself isn't copied;
+ * its text is returned so it can be edited and sent again in the fork.
+ * Returns null if the session or message doesn't exist.
+ */
+export async function forkSession(params: {
+    sessionId: string;
+    messageId: string;
+}): Promise<{ session: SessionMetadata; prompt: string } | null> {
+    const { sessionId, messageId } = params;
+    const historyFile = getSessionHistoryFile(sessionId);
+    if (!existsSync(historyFile)) {
+        return null;
+    }
+
+    const entries = await readJSONL<HistoryEntry>(historyFile);
+    const index = findBranchPoint(entries, messageId);
+    if (index === -1) {
+        return null;
+    }
+
+    const forkId = crypto.randomUUID();
+    const kept = rebaseEntries(entries.slice(0, index), forkId);
+    // Same folder as the source, so the fork resumes with the same backend
+    await writeHistory(join(dirname(historyFile), `${forkId}.jsonl`), kept);
+
+    const branchedAt = entries[index]!.timestamp;
+    if (branchedAt) {
+        await copyCheckpoints({ fromSessionId: sessionId, toSessionId: forkId, before: branchedAt });
+    }
+
+    const source = await getSessionMetadata(sessionId);
+    const now = new Date().toISOString();
+    const session: SessionMetadata = {
+        id: forkId,
+        title: `${source?.title ?? "Untitled Session"} (fork)`,
+        createdAt: now,
+        updatedAt: now,
+        messageCount: countChatMessages(kept),
+        agentId: source?.agentId,
+        forkedFrom: { sessionId, messageId },
+    };
+    await appendJSONL(getSessionsFile(), session);
+
+    branchesLogger.info("Forked session", { sessionId, messageId, forkId, keptLines: kept.length });
+    return { session, prompt: getPromptText(entries[index]!) };
+}
+
+/**
+ * Drop a user message and everything after it from a session. With restoreNotes, files the agent
+ * wrote or edited since that message are put back from their checkpoints.
+ * Returns null if the session or message doesn't exist.
+ */
+export async function rewindSession(params: {
+    sessionId: string;
+    messageId: string;
+    restoreNotes: boolean;
+}): Promise<{ prompt: string; restoredFiles: string[] } | null> {
+    const { sessionId, messageId, restoreNotes } = params;
+    const historyFile = getSessionHistoryFile(sessionId);
+    if (!existsSync(historyFile)) {
+        return null;
+    }
+
+    const entries = await readJSONL<HistoryEntry>(historyFile);
+    const index = findBranchPoint(entries, messageId);
+    if (index === -1) {
+        return null;
+    }
+
+    const kept = entries.slice(0, index);
+    await writeHistory(historyFile, kept);
+    await updateJSONL<SessionMetadata>(getSessionsFile(), sessionId, (session) => ({
+        ...session,
+        messageCount: countChatMessages(kept),
+        updatedAt: new Date().toISOString(),
+    }));
+
+    const rewoundAt = entries[index]!.timestamp;
+    let restoredFiles: string[] = [];
+    if (restoreNotes && rewoundAt) {
+        restoredFiles = await restoreCheckpoints({ sessionId, since: rewoundAt });
+    } else if (restoreNotes) {
+        branchesLogger.warn("Message has no timestamp, skipping note restore", { sessionId, messageId });
+    }
+
+    branchesLogger.info("Rewound session", { sessionId, messageId, keptLines: kept.length, restoredFiles: restoredFiles.length });
+    return { prompt: getPromptText(entries[index]!), restoredFiles };
+}
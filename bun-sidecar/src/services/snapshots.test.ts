@@ -0,0 +1,38 @@
+import { describe, test, expect } from "bun:test";
+import { formatSnapshotMessage, getSnapshotId, parseSnapshotMessage, planRestore } from "./snapshots";
+
+describe("snapshot messages", () => {
+    test("round-trips the name and trigger", () => {
+        const message = formatSnapshotMessage("Before deleting project Website", "project-delete");
+        expect(parseSnapshotMessage(message)).toEqual({ name: "Before deleting project Website", trigger: "project-delete" });
+    });
+
+    test("treats commits without a known trigger as manual", () => {
+        expect(parseSnapshotMessage("Release notes\n\nSnapshot-Trigger: something-else\n")).toEqual({ name: "Release notes", trigger: "manual" });
+    });
+
+    test("ids are tag-safe and sort by time", () => {
+        const id = getSnapshotId(new Date("2025-03-04T10:00:00.000Z"));
+        expect(id).toBe("2025-03-04T10-00-00-000Z");
+        expect(getSnapshotId(new Date("2025-03-04T10:00:00.001Z")) > id).toBe(true);
+    });
+});
+
+describe("planRestore", () => {
+    const snapshotFiles = ["notes/a.md", "notes/b.md", ".nomendex/projects.json", ".nomendex/workspace.json"];
+    const workdirFiles = ["notes/a.md", "notes/new.md", ".nomendex/projects.json", ".nomendex/workspace.json", ".nomendex/secrets.json"];
+
+    test("restores only selected files that are in the snapshot", () => {
+        expect(planRestore({ snapshotFiles, workdirFiles, paths: ["notes/b.md", "../outside.md", ".nomendex/workspace.json"] })).toEqual({
+            write: ["notes/b.md"],
+            remove: [],
+        });
+    });
+
+    test("restoring the workspace removes newer files but keeps settings and secrets", () => {
+        expect(planRestore({ snapshotFiles, workdirFiles })).toEqual({
+            write: ["notes/a.md", "notes/b.md", ".nomendex/projects.json"],
+            remove: ["notes/new.md"],
+        });
+    });
+});
@@ -0,0 +1,201 @@
+// Workspace snapshots
+//
+// A snapshot is a commit of the whole working directory, tagged snapshot/<id> and kept off the
+// branch, so taking one doesn't change what sync commits or pushes, and it works without a remote.
+// Snapshots are taken on demand and automatically before operations that change many files at
+// once. Restoring brings back selected files or the whole workspace, after snapshotting the
+// workspace as it was so the restore can be undone too.
+
+import { rm } from "node:fs/promises";
+import { join, relative } from "node:path";
+import { createServiceLogger } from "@/lib/logger";
+import { createGitClient } from "@/lib/git";
+import { getNotesPath, getRootPath } from "@/storage/root-path";
+import { rebuildIndex } from "@/features/notes/backlinks-service";
+import { rebuildTagsIndex } from "@/features/notes/tags-service";
+import { rebuildSearchIndex } from "@/features/notes/search-service";
+
+const snapshotsLogger = createServiceLogger("SNAPSHOTS");
+
+export const SNAPSHOT_TRIGGERS = ["manual", "bulk-rename", "project-delete", "agent-run", "restore"] as const;
+export type SnapshotTrigger = (typeof SNAPSHOT_TRIGGERS)[number];
+
+export interface Snapshot {
+    id: string;
+    name: string;
+    trigger: SnapshotTrigger;
+    createdAt: string;
+    oid: string;
+}
+
+const TAG_PREFIX = "snapshot/";
+const TRIGGER_TRAILER = "Snapshot-Trigger:";
+
+// Older automatic snapshots are dropped past this; manual ones are kept until deleted
+const MAX_AUTOMATIC_SNAPSHOTS = 50;
+
+// Secrets never go into a snapshot, and restoring leaves settings and open tabs as they are
+const NOT_SNAPSHOTTED = [".nomendex/secrets.json"];
+const KEPT_ON_RESTORE = [".nomendex/secrets.json", ".nomendex/workspace.json"];
+
+function getGitClient() {
+    return createGitClient({ dir: getRootPath() });
+}
+
+export function formatSnapshotMessage(name: string, trigger: SnapshotTrigger): string {
+    return `${name}\n\n${TRIGGER_TRAILER} ${trigger}\n`;
+}
+
+export function parseSnapshotMessage(message: string): { name: string; trigger: SnapshotTrigger } {
+    const name = message.split("\n")[0]?.trim() || "Snapshot";
+    const raw = message.match(new RegExp(`^${TRIGGER_TRAILER} (\\S+)`, "m"))?.[1];
+    const trigger = SNAPSHOT_TRIGGERS.find((t) => t === raw) ?? "manual";
+    return { name, trigger };
+}
+
+// Tag-safe and sortable, e.g. 2025-03-04T10-00-00-000Z
+export function getSnapshotId(date: Date): string {
+    return date.toISOString().replace(/[:.]/g, "-");
+}
+
+async function requireRepo(git: ReturnType<typeof getGitClient>): Promise<void> {
+    if (!(await git.isRepo())) {
+        throw new Error("Snapshots need a git repository. Initialize one on the Sync page; a remote isn't required.");
+    }
+}
+
+export async function takeSnapshot(input: { name: string; trigger?: SnapshotTrigger }): Promise<Snapshot> {
+    const git = getGitClient();
+    await requireRepo(git);
+
+    const name = input.name.trim() || "Snapshot";
+    const trigger = input.trigger ?? "manual";
+    const now = new Date();
+    const id = getSnapshotId(now);
+    const oid = await git.commitWorkdir(formatSnapshotMessage(name, trigger), {
+        filter: (filepath) => !NOT_SNAPSHOTTED.includes(filepath),
+    });
+    await git.createTag(`${TAG_PREFIX}${id}`, oid);
+
+    snapshotsLogger.info("Took snapshot", { id, name, trigger, oid: oid.slice(0, 7) });
+    return { id, name, trigger, createdAt: now.toISOString(), oid };
+}
+
+/**
+ * Snapshot before an operation that changes many files. Never throws, so the operation goes
+ * ahead either way; without a git repository there's nothing to snapshot into and it's skipped.
+ */
+export async function takeAutomaticSnapshot(input: { name: string; trigger: Exclude<SnapshotTrigger, "manual"> }): Promise<void> {
+    try {
+        if (!(await getGitClient().isRepo())) {
+            return;
+        }
+        await takeSnapshot(input);
+        await pruneAutomaticSnapshots();
+    } catch (error) {
+        snapshotsLogger.warn("Automatic snapshot failed", { name: input.name, error: String(error) });
+    }
+}
+
+async function pruneAutomaticSnapshots(): Promise<void> {
+    const automatic = (await listSnapshots()).filter((snapshot) => snapshot.trigger !== "manual");
+    for (const snapshot of automatic.slice(MAX_AUTOMATIC_SNAPSHOTS)) {
+        await deleteSnapshot(snapshot.id);
+    }
+}
+
+// Newest first
+export async function listSnapshots(): Promise<Snapshot[]> {
+    const git = getGitClient();
+    if (!(await git.isRepo())) {
+        return [];
+    }
+
+    const snapshots: Snapshot[] = [];
+    for (const tag of await git.listTags(TAG_PREFIX)) {
+        try {
+            const commit = await git.readCommit(await git.resolveTag(tag));
+            snapshots.push({ id: tag.slice(TAG_PREFIX.length), ...parseSnapshotMessage(commit.message), createdAt: commit.timestamp, oid: commit.oid });
+        } catch (error) {
+            snapshotsLogger.warn("Skipping unreadable snapshot", { tag, error: String(error) });
+        }
+    }
+    // Ids sort by time to the millisecond, where commit times only go to the second
+    return snapshots.sort((a, b) => b.id.localeCompare(a.id));
+}
+
+async function getSnapshotOid(id: string): Promise<string> {
+    try {
+        return await getGitClient().resolveTag(`${TAG_PREFIX}${id}`);
+    } catch {
+        throw new Error(`Snapshot not found: ${id}`);
+    }
+}
+
+export async function getSnapshotFiles(id: string): Promise<string[]> {
+    return getGitClient().listFilesAtCommit(await getSnapshotOid(id));
+}
+
+// A file's content in a snapshot, for read-only browsing; binary files aren't shown
+export async function readSnapshotFile(id: string, filepath: string): Promise<{ content: string; binary: boolean }> {
+    const bytes = await getGitClient().readFileBytesAtCommit(await getSnapshotOid(id), filepath);
+    if (bytes.includes(0)) {
+        return { content: "", binary: true };
+    }
+    return { content: new TextDecoder().decode(bytes), binary: false };
+}
+
+export async function deleteSnapshot(id: string): Promise<void> {
+    await getSnapshotOid(id); // Only snapshot tags can be deleted
+    await getGitClient().deleteTag(`${TAG_PREFIX}${id}`);
+    snapshotsLogger.info("Deleted snapshot", { id });
+}
+
+/**
+ * Files to write and delete to restore a snapshot: the selected files, or with no selection
+ * the whole workspace, which also deletes files the snapshot doesn't have.
+ */
+export function planRestore(input: { snapshotFiles: string[]; workdirFiles: string[]; paths?: string[] }): { write: string[]; remove: string[] } {
+    const inSnapshot = new Set(input.snapshotFiles);
+    if (input.paths) {
+        return { write: input.paths.filter((path) => inSnapshot.has(path) && !KEPT_ON_RESTORE.includes(path)), remove: [] };
+    }
+    return {
+        write: input.snapshotFiles.filter((path) => !KEPT_ON_RESTORE.includes(path)),
+        remove: input.workdirFiles.filter((path) => !inSnapshot.has(path) && !KEPT_ON_RESTORE.includes(path)),
+    };
+}
+
+export async function restoreSnapshot(input: { id: string; paths?: string[] }): Promise<{ restored: string[]; deleted: string[]; backup: Snapshot }> {
+    const git = getGitClient();
+    const oid = await getSnapshotOid(input.id);
+    const snapshot = await git.readCommit(oid);
+    const { name } = parseSnapshotMessage(snapshot.message);
+
+    const backup = await takeSnapshot({ name: `Before restoring "${name}"`, trigger: "restore" });
+    const plan = planRestore({
+        snapshotFiles: await git.listFilesAtCommit(oid),
+        workdirFiles: input.paths ? [] : await git.listWorkdirFiles(),
+        paths: input.paths,
+    });
+
+    const root = getRootPath();
+    for (const path of plan.write) {
+        await Bun.write(join(root, path), await git.readFileBytesAtCommit(oid, path));
+    }
+    for (const path of plan.remove) {
+        await rm(join(root, path), { force: true });
+    }
+
+    // Note indexes are rebuilt rather than patched, as a restore can touch any number of notes
+    const notesDir = relative(root, getNotesPath()).split("\\").join("/");
+    const inNotes = (path: string) => path.endsWith(".md") && (!notesDir || path.startsWith(`${notesDir}/`));
+    if ([...plan.write, ...plan.remove].some(inNotes)) {
+        await rebuildIndex();
+        await rebuildTagsIndex();
+        await rebuildSearchIndex();
+    }
+
+    snapshotsLogger.info("Restored snapshot", { id: input.id, restored: plan.write.length, deleted: plan.remove.length });
+    return { restored: plan.write, deleted: plan.remove, backup };
+}
@@ -0,0 +1,17 @@
+import { z } from "zod";
+
+// A change an agent in review mode proposed to a note, waiting for the user to accept or reject it.
+// Both contents are the note body without front matter, as saveNote writes it.
+export const PendingEditSchema = z.object({
+    id: z.string(),
+    noteFileName: z.string(),
+    agentId: z.string(),
+    agentName: z.string(),
+    sessionId: z.string().optional(),
+    baseContent: z.string(), // The note as the proposal was made against, plus any accepted hunks
+    proposedContent: z.string(), // What the agent wants the note to be, minus any rejected hunks
+    createdAt: z.string(),
+    updatedAt: z.string(),
+});
+
+export type PendingEdit = z.infer<typeof PendingEditSchema>;
@@ -16,20 +16,75 @@ export const ProjectPreferencesSchema = z.object({
     hideLaterColumn: z.boolean().default(false),
 });
 
+// Named todos board filter, opened as its own tab
+export const TodoSavedViewSchema = z.object({
+    id: z.string(),
+    name: z.string(),
+    query: z.string(), // Todo query language, e.g. "status:todo due:<7d"
+});
+export type TodoSavedView = z.infer<typeof TodoSavedViewSchema>;
+
 export const GitAuthModeSchema = z.enum(["pat", "local"]);
 export type GitAuthMode = z.infer<typeof GitAuthModeSchema>;
 
+// Where the sync remote is hosted; decides how an access token is sent over HTTPS
+export const GIT_HOST_TYPES = ["github", "gitlab", "gitea", "bitbucket", "generic"] as const;
+export const GitHostTypeSchema = z.enum(GIT_HOST_TYPES);
+export type GitHostType = z.infer<typeof GitHostTypeSchema>;
+
+export const GitAuthProfileSchema = z.object({
+    host: GitHostTypeSchema.default("github"),
+    username: z.string().default(""), // Sent with the token or password where the host needs one
+});
+export type GitAuthProfile = z.infer<typeof GitAuthProfileSchema>;
+
 export const NotesLocationSchema = z.enum(["root", "subfolder"]);
 export type NotesLocation = z.infer<typeof NotesLocationSchema>;
 
+export const DailyNotesConfigSchema = z.object({
+    pattern: z.string().default("M-D-YYYY"), // File name tokens: YYYY, MM, M, DD, D
+    folder: z.string().default(""), // Relative to the notes root
+    templatePath: z.string().default(""), // Note used as the template for new daily notes
+});
+export type DailyNotesConfig = z.infer<typeof DailyNotesConfigSchema>;
+
 export const AutoSyncConfigSchema = z.object({
     enabled: z.boolean().default(true),
     syncOnChanges: z.boolean().default(true),
     intervalSeconds: z.number().default(60),
     paused: z.boolean().default(false),
+    // Selective sync, see lib/sync-scope.ts
+    ignorePatterns: z.array(z.string()).default([]), // .gitignore-style rules, e.g. uploads/ or *.mp4
+    includeFolders: z.array(z.string()).default([]), // Sync only these folders; empty syncs the whole workspace
+    largeFileThresholdMB: z.number().default(25), // Larger files aren't committed; 0 turns the check off
 });
 export type AutoSyncConfig = z.infer<typeof AutoSyncConfigSchema>;
 
+// Embeddings for semantic note search, from an embeddings API:
+// - openai-compatible: a server such as Ollama or LM Studio, which can run the model on this computer
+// - openai: OpenAI's embeddings API
+export const EMBEDDING_PROVIDERS = ["openai-compatible", "openai"] as const;
+// Workspaces from before the hashed "local" provider was removed fall back to an unset server
+export const EmbeddingProviderSchema = z.preprocess(
+    (value) => (value === "local" ? undefined : value),
+    z.enum(EMBEDDING_PROVIDERS).default("openai-compatible")
+);
+export type EmbeddingProvider = z.infer<typeof EmbeddingProviderSchema>;
+
+export const SemanticSearchConfigSchema = z.object({
+    provider: EmbeddingProviderSchema,
+    model: z.string().default(""), // Embedding model, e.g. nomic-embed-text or text-embedding-3-small
+    baseUrl: z.string().default(""), // Required for openai-compatible, e.g. http://localhost:11434/v1
+    attachToChat: z.boolean().default(false), // Add the most relevant chunks to chat prompts
+    topK: z.number().int().min(1).max(20).default(5),
+});
+export type SemanticSearchConfig = z.infer<typeof SemanticSearchConfigSchema>;
+
+// Semantic search is off until an embeddings server is set up; OpenAI only needs its key
+export function isSemanticSearchConfigured(config: SemanticSearchConfig): boolean {
+    return config.provider === "openai" || (!!config.baseUrl.trim() && !!config.model.trim());
+}
+
 // Pane schema for split layout
 export const PaneSchema = z.object({
     id: z.string(),
@@ -57,9 +112,21 @@ export const WorkspaceStateSchema = z.object({
     // Other settings
     mcpServerConfigs: z.array(McpServerStatusSchema).default([]),
     projectPreferences: z.record(z.string(), ProjectPreferencesSchema).default({}),
+    todoViews: z.array(TodoSavedViewSchema).default([]),
     gitAuthMode: GitAuthModeSchema.default("local"),
+    gitAuth: GitAuthProfileSchema.default({ host: "github", username: "" }),
     notesLocation: NotesLocationSchema.default("root"),
-    autoSync: AutoSyncConfigSchema.default({ enabled: true, syncOnChanges: true, intervalSeconds: 60, paused: false }),
+    dailyNotes: DailyNotesConfigSchema.default({ pattern: "M-D-YYYY", folder: "", templatePath: "" }),
+    autoSync: AutoSyncConfigSchema.default({
+        enabled: true,
+        syncOnChanges: true,
+        intervalSeconds: 60,
+        paused: false,
+        ignorePatterns: [],
+        includeFolders: [],
+        largeFileThresholdMB: 25,
+    }),
+    semanticSearch: SemanticSearchConfigSchema.default({ provider: "openai-compatible", model: "", baseUrl: "", attachToChat: false, topK: 5 }),
     chatInputEnterToSend: z.boolean().default(true),
     showHiddenFiles: z.boolean().default(false),
 });